@@ -0,0 +1,551 @@
+#!/usr/bin/env node
+/**
+ * Audit Evidence Bundle Verifier
+ * Re-checks an evidence bundle exported from the Enhanced Quantum Blockchain
+ * (Export & Audit > Export Evidence Bundle) without the application, its
+ * database or a network connection.
+ *
+ * Usage:
+ *   node scripts/verify-evidence-bundle.mjs <bundle.json> [--trusted-key <keyId>]
+ *     [--bitcoin-headers <file> --headers-start <height>] [--json]
+ *
+ *   --trusted-key      Key id (hex SHA-256 of the public key) of a validator
+ *                      the bundle must be signed by, as registered in
+ *                      audit_chain_validator_keys; repeat for several.
+ *                      Validator keys persist, so the same ids pin bundles
+ *                      from later sessions. Without it the signer is only
+ *                      checked against the keys the bundle itself lists.
+ *   --bitcoin-headers  Bitcoin block headers to verify OpenTimestamps proofs
+ *                      against: raw 80-byte headers back to back, or one hex
+ *                      header per line, e.g. from a node you run
+ *   --headers-start    Height of the first header in that file
+ *   --pow-limit        Compact proof-of-work limit the headers must meet, in
+ *                      hex, for test networks (default 1d00ffff, mainnet)
+ *   --json             Print the report as JSON
+ *
+ * Checks:
+ * - Manifest hash, and its ML-DSA-65 signature by a listed signer
+ * - Hashes of the blocks and proofs against the manifest, and the RFC 6962
+ *   tree hash of the block hashes that later consistency proofs start from
+ * - Per block: hash, proof-of-work, Merkle root (RFC 6962, or the pairwise
+ *   tree of blocks mined before it), linkage to the previous block,
+ *   ML-DSA-65 signature, transaction inclusion proofs, and that any
+ *   timestamp proof is for this block
+ * - OpenTimestamps proofs against the Bitcoin headers given, each header
+ *   checked for proof-of-work and linkage. RFC 3161 tokens are left to
+ *   openssl ts -verify with the TSA's certificate.
+ *
+ * Exit status is 0 when every check passes, 1 when any fails and 2 when the
+ * bundle or header file cannot be read.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { read, verify } from '@lacrypta/typescript-opentimestamps';
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
+
+const EVIDENCE_BUNDLE_FORMAT = 'quantum-iam-audit-evidence';
+const EVIDENCE_BUNDLE_VERSION = 1;
+const EVIDENCE_SIGNATURE_CONTEXT = 'quantum-iam/audit-evidence/v1';
+const MAINNET_POW_LIMIT_BITS = 0x1d00ffff;
+
+// ============================================================================
+// Hashing and signatures
+// ============================================================================
+
+const sha256Hex = data => createHash('sha256').update(data).digest('hex');
+
+const hexToBytes = hex => {
+  if (typeof hex !== 'string' || !/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw new Error('invalid hex');
+  }
+  return Uint8Array.from(Buffer.from(hex, 'hex'));
+};
+
+function verifySignature(publicKey, message, signature, context) {
+  try {
+    return ml_dsa65.verify(
+      hexToBytes(signature),
+      new TextEncoder().encode(message),
+      hexToBytes(publicKey),
+      context ? { context: new TextEncoder().encode(context) } : undefined
+    );
+  } catch {
+    return false;
+  }
+}
+
+/** Same serialization as QuantumBlock.calculateHash */
+const blockHash = block => sha256Hex(JSON.stringify({
+  index: block.index,
+  timestamp: block.timestamp,
+  data: block.data,
+  previousHash: block.previousHash,
+  nonce: block.nonce,
+  merkleRoot: block.merkleRoot,
+  merkleTree: block.merkleTree
+}));
+
+const sha256OfHex = hex => sha256Hex(hexToBytes(hex));
+
+/** Same trees as QuantumBlock.calculateMerkleRoot */
+function merkleRoot(transactions, tree) {
+  if (transactions.length === 0) return '';
+
+  let level = transactions.map(tx => sha256Hex(JSON.stringify(tx)));
+  if (tree === 'rfc6962') return transactionTreeHash(level);
+
+  // Blocks that name no tree pair the last node of an odd level with itself
+  while (level.length > 1) {
+    const next = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(sha256Hex(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/** RFC 6962 tree over transaction hashes, as transactionMerkleRoot in src/lib/merkle-proofs.ts */
+function transactionTreeHash(leaves) {
+  if (leaves.length === 1) return sha256OfHex(`00${leaves[0]}`);
+
+  let k = 1;
+  while (k * 2 < leaves.length) k *= 2;
+  return sha256OfHex(`01${transactionTreeHash(leaves.slice(0, k))}${transactionTreeHash(leaves.slice(k))}`);
+}
+
+/** Same tree as chainTreeHash in src/lib/merkle-proofs.ts (RFC 6962) */
+function treeHash(hashes) {
+  if (hashes.length === 0) return sha256Hex(Buffer.alloc(0));
+  if (hashes.length === 1) return sha256Hex(Buffer.concat([Buffer.from([0x00]), hexToBytes(hashes[0])]));
+
+  let k = 1;
+  while (k * 2 < hashes.length) k *= 2;
+  return sha256Hex(Buffer.concat([
+    Buffer.from([0x01]),
+    hexToBytes(treeHash(hashes.slice(0, k))),
+    hexToBytes(treeHash(hashes.slice(k)))
+  ]));
+}
+
+/** Same as rootFromTransactionPath; throws on a path that is not hex digests */
+function rootFromPath(leafHash, path, tree) {
+  if (tree !== 'rfc6962') {
+    return path.reduce(
+      (node, step) => sha256Hex(step.position === 'right' ? node + step.sibling : step.sibling + node),
+      leafHash
+    );
+  }
+
+  if (![leafHash, ...path.map(step => step.sibling)].every(hash => /^[0-9a-f]{64}$/.test(hash))) {
+    throw new Error('invalid Merkle path');
+  }
+  return path.reduce(
+    (node, step) => sha256OfHex(step.position === 'right' ? `01${node}${step.sibling}` : `01${step.sibling}${node}`),
+    sha256OfHex(`00${leafHash}`)
+  );
+}
+
+const reversedHex = bytes => Buffer.from(bytes).reverse().toString('hex');
+
+const shortHash = hash => (typeof hash === 'string' && hash.length > 16 ? `${hash.slice(0, 16)}…` : String(hash));
+
+// ============================================================================
+// Bitcoin headers
+// ============================================================================
+
+function targetFromBits(bits) {
+  if (bits & 0x00800000) throw new Error('negative target');
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  return exponent <= 3 ? mantissa >> BigInt(8 * (3 - exponent)) : mantissa << BigInt(8 * (exponent - 3));
+}
+
+/** Same checks as BitcoinHeaderStore.load: proof-of-work and linkage */
+function loadHeaders(file, startHeight, powLimitBits) {
+  const bytes = readFileSync(file);
+  const text = bytes.toString('latin1');
+  const raws = /^[0-9a-fA-F\s#]*$/.test(text)
+    ? text.split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('#')).map((line, i) => {
+      if (!/^[0-9a-fA-F]{160}$/.test(line)) throw new Error(`line ${i + 1} is not an 80-byte hex header`);
+      return Buffer.from(line, 'hex');
+    })
+    : Array.from({ length: Math.ceil(bytes.length / 80) }, (_, i) => bytes.subarray(i * 80, (i + 1) * 80));
+  if (raws.some(raw => raw.length !== 80)) {
+    throw new Error('not a whole number of 80-byte headers');
+  }
+
+  const powLimit = targetFromBits(powLimitBits);
+  const headers = new Map();
+  let previous = null;
+  raws.forEach((raw, i) => {
+    const height = startHeight + i;
+    const hash = createHash('sha256').update(createHash('sha256').update(raw).digest()).digest();
+    const target = targetFromBits(raw.readUInt32LE(72));
+    if (target === 0n || target > powLimit) throw new Error(`header ${height} has a target above the proof-of-work limit`);
+    if (BigInt(`0x${reversedHex(hash)}`) > target) throw new Error(`header ${height} does not meet its proof-of-work target`);
+    if (previous && reversedHex(raw.subarray(4, 36)) !== previous) throw new Error(`header ${height} does not follow header ${height - 1}`);
+
+    previous = reversedHex(hash);
+    headers.set(height, { merkleRoot: reversedHex(raw.subarray(36, 68)), time: raw.readUInt32LE(68) });
+  });
+  return headers;
+}
+
+function bitcoinHeights(tree) {
+  return [
+    ...tree.leaves.values().flatMap(leaf => (leaf.type === 'bitcoin' ? [leaf.height] : [])),
+    ...tree.edges.values().flatMap(subtree => bitcoinHeights(subtree))
+  ];
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+const pass = (name, detail = '') => ({ name, status: 'pass', detail });
+const fail = (name, detail) => ({ name, status: 'fail', detail });
+const warn = (name, detail) => ({ name, status: 'warn', detail });
+const skip = (name, detail) => ({ name, status: 'skip', detail });
+
+function checkBundle(bundle, trustedKeys) {
+  const checks = [];
+  const { manifest } = bundle;
+
+  if (manifest?.format !== EVIDENCE_BUNDLE_FORMAT || manifest?.version !== EVIDENCE_BUNDLE_VERSION) {
+    checks.push(fail('format', `expected ${EVIDENCE_BUNDLE_FORMAT} v${EVIDENCE_BUNDLE_VERSION}`));
+    return { checks, signers: [] };
+  }
+  checks.push(pass('format', `${manifest.format} v${manifest.version}`));
+
+  const manifestHash = sha256Hex(JSON.stringify(manifest));
+  checks.push(manifestHash === bundle.manifestHash
+    ? pass('manifest hash', shortHash(manifestHash))
+    : fail('manifest hash', `manifest hashes to ${shortHash(manifestHash)}, bundle says ${shortHash(bundle.manifestHash)}`));
+
+  // A signer's key id must be the hash of its key, or pinning it means nothing
+  const signers = (manifest.signers ?? []).filter(signer => {
+    let keyId = null;
+    try {
+      keyId = sha256Hex(hexToBytes(signer.publicKey));
+    } catch {
+      // Reported below
+    }
+    if (keyId !== signer.keyId) {
+      checks.push(fail('signer key id', `${shortHash(signer.keyId)} is not the hash of its public key`));
+      return false;
+    }
+    return signer.algorithm === 'ML-DSA-65';
+  });
+
+  const bundleSigner = signers.find(signer => signer.keyId === bundle.signature?.keyId);
+  if (!bundleSigner) {
+    checks.push(fail('manifest signature', `key ${shortHash(bundle.signature?.keyId)} is not a listed ML-DSA-65 signer`));
+  } else if (!verifySignature(bundleSigner.publicKey, bundle.manifestHash, bundle.signature.value, EVIDENCE_SIGNATURE_CONTEXT)) {
+    checks.push(fail('manifest signature', `invalid ML-DSA-65 signature by ${shortHash(bundleSigner.keyId)}`));
+  } else {
+    checks.push(pass('manifest signature', `ML-DSA-65, key ${shortHash(bundleSigner.keyId)}`));
+  }
+
+  if (trustedKeys.length === 0) {
+    checks.push(warn('trusted key', 'signer not pinned; pass --trusted-key <keyId> to require a known key'));
+  } else if (bundleSigner && trustedKeys.includes(bundleSigner.keyId)) {
+    checks.push(pass('trusted key', shortHash(bundleSigner.keyId)));
+  } else {
+    checks.push(fail('trusted key', 'bundle is not signed with a trusted key'));
+  }
+
+  const blocksHash = sha256Hex(JSON.stringify(bundle.blocks));
+  checks.push(blocksHash === manifest.blocksHash
+    ? pass('blocks hash', shortHash(blocksHash))
+    : fail('blocks hash', 'blocks do not match the manifest'));
+
+  const proofsHash = sha256Hex(JSON.stringify(bundle.proofs));
+  checks.push(proofsHash === manifest.proofsHash
+    ? pass('proofs hash', shortHash(proofsHash))
+    : fail('proofs hash', 'proofs do not match the manifest'));
+
+  const { chain } = manifest;
+  const blocks = bundle.blocks;
+  const summaryMatches = chain?.length === blocks.length &&
+    chain.genesisHash === (blocks[0]?.hash ?? null) &&
+    chain.headHash === (blocks[blocks.length - 1]?.hash ?? null);
+  checks.push(summaryMatches
+    ? pass('chain summary', `${blocks.length} blocks, head ${shortHash(chain.headHash)}`)
+    : fail('chain summary', 'length, genesis or head hash differs from the blocks'));
+
+  if (chain?.treeHash === undefined) {
+    checks.push(skip('tree hash', 'bundle predates tree hashes'));
+  } else {
+    let hash = null;
+    try {
+      hash = treeHash(blocks.map(block => block.hash));
+    } catch {
+      // Reported below
+    }
+    checks.push(hash === chain.treeHash
+      ? pass('tree hash', shortHash(hash))
+      : fail('tree hash', 'tree hash differs from the block hashes'));
+  }
+
+  // Only signers the auditor trusts may vouch for blocks, when any are pinned
+  const blockSigners = trustedKeys.length > 0
+    ? signers.filter(signer => trustedKeys.includes(signer.keyId))
+    : signers;
+
+  return { checks, signers: blockSigners };
+}
+
+async function checkOpenTimestamp(block, token, headers) {
+  let timestamp;
+  try {
+    timestamp = read(hexToBytes(token));
+  } catch (error) {
+    return fail('timestamp', `unreadable OpenTimestamps proof: ${error.message}`);
+  }
+  if (timestamp.fileHash.algorithm !== 'sha256' || Buffer.from(timestamp.fileHash.value).toString('hex') !== block.hash) {
+    return fail('timestamp', 'OpenTimestamps proof is for another block');
+  }
+
+  const heights = bitcoinHeights(timestamp.tree);
+  if (heights.length === 0) {
+    return warn('timestamp', 'OpenTimestamps proof still pending');
+  }
+  const covered = heights.filter(height => headers.has(height));
+  if (covered.length === 0) {
+    return warn('timestamp', `anchored in Bitcoin block ${Math.min(...heights)}; pass --bitcoin-headers covering it to verify`);
+  }
+
+  const result = await verify(timestamp, {
+    bitcoinHeaders: async (msg, leaf) => {
+      const header = leaf.type === 'bitcoin' ? headers.get(leaf.height) : undefined;
+      if (!header) return undefined;
+      if (reversedHex(msg) !== header.merkleRoot) throw new Error(`Merkle root mismatch at Bitcoin block ${leaf.height}`);
+      return header.time;
+    }
+  });
+  const errors = Object.values(result.errors).flat().map(error => error.message);
+  const times = Object.keys(result.attestations).map(Number);
+  if (errors.length > 0 || times.length === 0) {
+    return fail('timestamp', errors.join('; ') || 'no attestation verified');
+  }
+  return pass('timestamp', `OpenTimestamps, Bitcoin block ${Math.min(...covered)} at ${new Date(Math.min(...times) * 1000).toISOString()}`);
+}
+
+async function checkTimestamp(block, headers) {
+  const timestamp = block.externalTimestamp;
+  if (!timestamp) {
+    return skip('timestamp', 'none');
+  }
+
+  switch (timestamp.authority) {
+    case 'opentimestamps':
+      return checkOpenTimestamp(block, timestamp.token, headers);
+    case 'rfc3161':
+      return warn('timestamp', 'RFC 3161 token not checked; use openssl ts -verify with the TSA certificate');
+    case 'local':
+      return timestamp.token === block.hash
+        ? warn('timestamp', 'local only')
+        : fail('timestamp', 'local timestamp is for another block');
+    case 'internal-tsa': {
+      let proof = null;
+      try {
+        proof = JSON.parse(timestamp.token);
+      } catch {
+        // Reported below
+      }
+      return proof?.blockHash === block.hash
+        ? warn('timestamp', 'internal TSA, not independently verifiable')
+        : fail('timestamp', 'internal TSA token is for another block');
+    }
+    default:
+      return warn('timestamp', `${timestamp.authority} proof present, not verified offline`);
+  }
+}
+
+async function checkBlock(block, position, blocks, proofs, signers, headers) {
+  const checks = [];
+
+  const computedHash = blockHash(block);
+  checks.push(computedHash === block.hash
+    ? pass('hash')
+    : fail('hash', `contents hash to ${shortHash(computedHash)}`));
+
+  if (position === 0) {
+    checks.push(block.index === 0 && block.previousHash === '0'
+      ? pass('link', 'genesis')
+      : fail('link', 'first block is not a genesis block'));
+    checks.push(skip('proof-of-work', 'genesis'));
+  } else {
+    const previous = blocks[position - 1];
+    checks.push(block.index === previous.index + 1 && block.previousHash === previous.hash
+      ? pass('link')
+      : fail('link', `does not follow block ${previous.index}`));
+
+    const target = '0'.repeat(block.difficulty ?? 0);
+    checks.push(String(block.hash).startsWith(target)
+      ? pass('proof-of-work')
+      : fail('proof-of-work', `hash does not meet difficulty ${block.difficulty}`));
+  }
+
+  const computedRoot = merkleRoot(block.data ?? [], block.merkleTree);
+  checks.push(computedRoot === block.merkleRoot
+    ? pass('merkle root')
+    : fail('merkle root', `transactions give ${shortHash(computedRoot)}`));
+
+  const blockProofs = proofs.filter(proof => proof.blockIndex === block.index);
+  const badProofs = blockProofs.filter(proof => {
+    const tx = block.data?.[proof.transactionIndex];
+    try {
+      return !tx || sha256Hex(JSON.stringify(tx)) !== proof.leafHash ||
+        rootFromPath(proof.leafHash, proof.path ?? [], block.merkleTree) !== block.merkleRoot;
+    } catch {
+      return true;
+    }
+  });
+  if (badProofs.length > 0) {
+    checks.push(fail('inclusion proofs', `${badProofs.length} of ${blockProofs.length} do not lead to the Merkle root`));
+  } else if (blockProofs.length < (block.data?.length ?? 0)) {
+    checks.push(fail('inclusion proofs', `${blockProofs.length} proofs for ${block.data.length} transactions`));
+  } else {
+    checks.push(pass('inclusion proofs', `${blockProofs.length}/${block.data?.length ?? 0}`));
+  }
+
+  if (!block.signature) {
+    checks.push(position === 0 ? skip('signature', 'genesis is unsigned') : fail('signature', 'unsigned'));
+  } else {
+    const signer = signers.find(s => verifySignature(s.publicKey, block.hash, block.signature));
+    checks.push(signer
+      ? pass('signature', `ML-DSA-65, key ${shortHash(signer.keyId)}`)
+      : fail('signature', 'no trusted signer\'s ML-DSA-65 signature'));
+  }
+
+  checks.push(await checkTimestamp(block, headers));
+
+  return {
+    index: block.index,
+    hash: block.hash,
+    transactions: block.data?.length ?? 0,
+    result: checks.some(c => c.status === 'fail') ? 'FAIL' : 'PASS',
+    checks
+  };
+}
+
+async function verifyEvidenceBundle(bundle, trustedKeys = [], headers = new Map()) {
+  if (!bundle || !Array.isArray(bundle.blocks) || !Array.isArray(bundle.proofs)) {
+    throw new Error('not an evidence bundle');
+  }
+
+  const { checks, signers } = checkBundle(bundle, trustedKeys);
+  const blocks = [];
+  for (const [i, block] of bundle.blocks.entries()) {
+    blocks.push(await checkBlock(block, i, bundle.blocks, bundle.proofs, signers, headers));
+  }
+  const failed = checks.some(c => c.status === 'fail') || blocks.some(b => b.result === 'FAIL');
+
+  return {
+    result: failed ? 'FAIL' : 'PASS',
+    createdAt: bundle.manifest?.createdAt ?? null,
+    bundle: checks,
+    blocks
+  };
+}
+
+// ============================================================================
+// Command line
+// ============================================================================
+
+const LABELS = { pass: 'PASS', fail: 'FAIL', warn: 'WARN', skip: 'SKIP' };
+
+function printReport(file, report) {
+  const transactions = report.blocks.reduce((sum, b) => sum + b.transactions, 0);
+  console.log(`Audit evidence bundle: ${file}`);
+  console.log(`Created ${report.createdAt}, ${report.blocks.length} blocks, ${transactions} transactions`);
+  console.log('');
+
+  console.log('Bundle');
+  for (const check of report.bundle) {
+    console.log(`  ${LABELS[check.status]}  ${check.name}${check.detail ? `: ${check.detail}` : ''}`);
+  }
+  console.log('');
+
+  console.log('Blocks');
+  for (const block of report.blocks) {
+    const summary = block.checks
+      .filter(c => c.status !== 'fail')
+      .map(c => `${c.name} ${c.status === 'pass' ? 'ok' : `${c.status} (${c.detail})`}`)
+      .join(', ');
+    console.log(`  ${block.result}  #${block.index} ${shortHash(block.hash)}  ${summary}`);
+    for (const check of block.checks.filter(c => c.status === 'fail')) {
+      console.log(`          FAIL ${check.name}: ${check.detail}`);
+    }
+  }
+  console.log('');
+
+  const failedBlocks = report.blocks.filter(b => b.result === 'FAIL').length;
+  console.log(`Result: ${report.result} (${report.blocks.length - failedBlocks}/${report.blocks.length} blocks pass)`);
+}
+
+const USAGE = 'Usage: verify-evidence-bundle <bundle.json> [--trusted-key <keyId>] ' +
+  '[--bitcoin-headers <file> --headers-start <height> [--pow-limit <bits>]] [--json]';
+
+async function main(args) {
+  const trustedKeys = [];
+  let json = false;
+  let file = null;
+  let headersFile = null;
+  let headersStart = null;
+  let powLimitBits = MAINNET_POW_LIMIT_BITS;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--trusted-key' && args[i + 1]) {
+      trustedKeys.push(args[++i].toLowerCase());
+    } else if (args[i] === '--bitcoin-headers' && args[i + 1]) {
+      headersFile = args[++i];
+    } else if (args[i] === '--headers-start' && /^\d+$/.test(args[i + 1] ?? '')) {
+      headersStart = Number(args[++i]);
+    } else if (args[i] === '--pow-limit' && /^[0-9a-f]{8}$/i.test(args[i + 1] ?? '')) {
+      powLimitBits = parseInt(args[++i], 16);
+    } else if (args[i] === '--json') {
+      json = true;
+    } else if (!args[i].startsWith('--') && !file) {
+      file = args[i];
+    } else {
+      file = null;
+      break;
+    }
+  }
+
+  if (!file || (headersFile !== null) !== (headersStart !== null)) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let headers = new Map();
+  if (headersFile) {
+    try {
+      headers = loadHeaders(headersFile, headersStart, powLimitBits);
+    } catch (error) {
+      console.error(`Cannot use ${headersFile}: ${error.message}`);
+      return 2;
+    }
+  }
+
+  let report;
+  try {
+    report = await verifyEvidenceBundle(JSON.parse(readFileSync(file, 'utf8')), trustedKeys, headers);
+  } catch (error) {
+    console.error(`Cannot verify ${file}: ${error.message}`);
+    return 2;
+  }
+
+  if (json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printReport(file, report);
+  }
+  return report.result === 'PASS' ? 0 : 1;
+}
+
+process.exitCode = await main(process.argv.slice(2));
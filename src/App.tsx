@@ -7,6 +7,8 @@ import { AuthProvider } from "@/hooks/useAuth";
 import { ThemeProvider } from "next-themes";
 import { BrowserCompatibilityChecker } from "@/components/BrowserCompatibilityChecker";
 import { SessionTimeoutWarning } from "@/components/security/SessionTimeoutWarning";
+import { KeyRotationWatcher } from "@/components/security/KeyRotationWatcher";
+import { TimestampUpgradeWatcher } from "@/components/security/TimestampUpgradeWatcher";
 import Layout from "./components/Layout";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -48,6 +50,8 @@ const App = () => (
           <BrowserRouter>
             <BrowserCompatibilityChecker />
             <SessionTimeoutWarning />
+            <KeyRotationWatcher />
+            <TimestampUpgradeWatcher />
             <Layout>
               <Routes>
                 <Route path="/" element={<Index />} />
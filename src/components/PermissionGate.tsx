@@ -1,6 +1,7 @@
 import { ReactNode } from "react";
 import { usePermissions } from "@/hooks/usePermissions";
 import { useAuth } from "@/hooks/useAuth";
+import { Obligation } from "@/lib/policy-decision-point";
 
 interface PermissionGateProps {
   children: ReactNode;
@@ -9,39 +10,46 @@ interface PermissionGateProps {
   fallback?: ReactNode;
   requireAll?: boolean;
   permissions?: Array<{ action: string; resource: string }>;
+  /** Rendered instead of children while obligations (MFA, approval, ...) are outstanding */
+  onObligations?: (obligations: Obligation[]) => ReactNode;
 }
 
+// Decided by the unified policy decision point (roles, groups, time-based,
+// JIT, Zero Trust and blockchain policies). Monitoring is handled by the PDP
+// itself; any other obligation keeps the children hidden.
 export function PermissionGate({ 
   children, 
   action, 
   resource, 
   fallback = null,
   requireAll = false,
-  permissions 
+  permissions,
+  onObligations
 }: PermissionGateProps) {
-  const { userRole } = useAuth();
-  const { hasPermission, hasAnyPermission, loading } = usePermissions();
+  const required = permissions ?? [{ action, resource }];
+  const { hasPermission, isPermitted, outstandingObligations, loading } = usePermissions(required);
 
   if (loading) {
     return <>{fallback}</>;
   }
 
-  // Admins bypass all permission checks
-  if (userRole === 'admin') {
+  const hasAccess = requireAll
+    ? required.every(p => hasPermission(p.action, p.resource))
+    : required.some(p => hasPermission(p.action, p.resource));
+
+  if (hasAccess) {
     return <>{children}</>;
   }
 
-  let hasAccess = false;
-
-  if (permissions) {
-    hasAccess = requireAll 
-      ? permissions.every(({ action, resource }) => hasPermission(action, resource))
-      : hasAnyPermission(permissions);
-  } else {
-    hasAccess = hasPermission(action, resource);
+  // Permitted once the obligations are met
+  const permitted = requireAll
+    ? required.every(p => isPermitted(p.action, p.resource))
+    : required.some(p => isPermitted(p.action, p.resource));
+  if (permitted && onObligations) {
+    return <>{onObligations(required.flatMap(p => outstandingObligations(p.action, p.resource)))}</>;
   }
 
-  return hasAccess ? <>{children}</> : <>{fallback}</>;
+  return <>{fallback}</>;
 }
 
 // Convenience components for common permission patterns
@@ -53,4 +61,4 @@ export function AdminGate({ children, fallback = null }: { children: ReactNode;
 export function ModeratorGate({ children, fallback = null }: { children: ReactNode; fallback?: ReactNode }) {
   const { userRole } = useAuth();
   return (userRole === 'admin' || userRole === 'moderator') ? <>{children}</> : <>{fallback}</>;
-}
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -6,7 +6,9 @@ import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
+import { useBlindIndexSearch } from '@/hooks/useBlindIndexSearch';
 import { AttackStatistics } from '@/components/security/AttackStatistics';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Clock, Download, Eye, Filter, Search, Shield, User, Database, AlertTriangle, FileDown } from 'lucide-react';
@@ -41,6 +43,25 @@ interface SecurityAttack {
   quantum_protected: boolean;
 }
 
+const auditLogQuery = () => supabase
+  .from('audit_logs')
+  .select(`
+    *,
+    profiles (
+      full_name,
+      email
+    )
+  `)
+  .order('created_at', { ascending: false })
+  .limit(500);
+
+const toAuditLog = (log: Tables<'audit_logs'> & { profiles: unknown }): AuditLog => ({
+  ...log,
+  ip_address: log.ip_address as string,
+  user_agent: log.user_agent as string,
+  profiles: log.profiles as any
+});
+
 export function AuditLogManager() {
   const { toast } = useToast();
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
@@ -50,33 +71,53 @@ export function AuditLogManager() {
   const [actionFilter, setActionFilter] = useState('all');
   const [resourceFilter, setResourceFilter] = useState('all');
   const [showAttacks, setShowAttacks] = useState(false);
+  // IPs and emails may be encrypted; their blind indexes still find them,
+  // including in logs older than the ones loaded
+  const [indexedLogs, setIndexedLogs] = useState<AuditLog[]>([]);
+  const { matches: ipMatches } = useBlindIndexSearch(
+    'audit_logs.ip_address',
+    /^[0-9a-f.:]+$/i.test(searchTerm) ? searchTerm : '',
+    'prefix'
+  );
+  const { matches: emailMatches } = useBlindIndexSearch('profiles.email', searchTerm, 'contains');
 
   useEffect(() => {
     fetchAuditLogs();
     fetchSecurityAttacks();
   }, []);
 
+  const fetchIndexedLogs = useCallback(async () => {
+    const logIds = [...(ipMatches || [])];
+    const userIds = [...(emailMatches || [])];
+    if (logIds.length === 0 && userIds.length === 0) {
+      setIndexedLogs([]);
+      return;
+    }
+
+    try {
+      const [byId, byUser] = await Promise.all([
+        logIds.length > 0 ? auditLogQuery().in('id', logIds) : null,
+        userIds.length > 0 ? auditLogQuery().in('user_id', userIds) : null
+      ]);
+      if (byId?.error) throw byId.error;
+      if (byUser?.error) throw byUser.error;
+
+      setIndexedLogs([...(byId?.data || []), ...(byUser?.data || [])].map(toAuditLog));
+    } catch (error) {
+      console.error('Error fetching indexed audit logs:', error);
+    }
+  }, [ipMatches, emailMatches]);
+
+  useEffect(() => {
+    fetchIndexedLogs();
+  }, [fetchIndexedLogs]);
+
   const fetchAuditLogs = async () => {
     try {
-      const { data, error } = await supabase
-        .from('audit_logs')
-        .select(`
-          *,
-          profiles (
-            full_name,
-            email
-          )
-        `)
-        .order('created_at', { ascending: false })
-        .limit(500);
+      const { data, error } = await auditLogQuery();
 
       if (error) throw error;
-      setAuditLogs((data || []).map(log => ({
-        ...log,
-        ip_address: log.ip_address as string,
-        user_agent: log.user_agent as string,
-        profiles: log.profiles as any
-      })));
+      setAuditLogs((data || []).map(toAuditLog));
     } catch (error) {
       console.error('Error fetching audit logs:', error);
       toast({
@@ -109,12 +150,21 @@ export function AuditLogManager() {
     }
   };
 
-  const filteredLogs = auditLogs.filter(log => {
+  const loadedLogIds = new Set(auditLogs.map(log => log.id));
+  const searchableLogs = [
+    ...auditLogs,
+    ...indexedLogs.filter((log, i) => !loadedLogIds.has(log.id) && indexedLogs.findIndex(l => l.id === log.id) === i)
+  ].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const filteredLogs = searchableLogs.filter(log => {
     const matchesSearch = 
       log.action.toLowerCase().includes(searchTerm.toLowerCase()) ||
       log.resource.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      log.ip_address?.includes(searchTerm) ||
       log.profiles?.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      log.profiles?.full_name?.toLowerCase().includes(searchTerm.toLowerCase());
+      log.profiles?.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      ipMatches?.has(log.id) ||
+      (log.user_id && emailMatches?.has(log.user_id));
     
     const matchesAction = actionFilter === 'all' || log.action === actionFilter;
     const matchesResource = resourceFilter === 'all' || log.resource === resourceFilter;
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useBlockTimestamps } from '@/hooks/useBlockTimestamps';
+import { useToast } from '@/hooks/use-toast';
+import { Clock, RefreshCw, Upload } from 'lucide-react';
+
+export function BlockTimestampsPanel() {
+  const { records, report, headerFile, running, loading, isAdmin, runUpgrade, loadHeaderFile } = useBlockTimestamps();
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [startHeight, setStartHeight] = useState('');
+
+  const count = (status: string) => records.filter(r => r.status === status).length;
+
+  const handleRunUpgrade = async () => {
+    try {
+      const result = await runUpgrade();
+      toast({
+        title: "Timestamp Upgrade Complete",
+        description: `${result.verified} verified, ${result.stillPending} still waiting, ${result.failed} failed of ${result.checked} proofs`,
+        variant: result.failed > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upgrade timestamps",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleLoadHeaders = async () => {
+    if (!file) return;
+    try {
+      await loadHeaderFile(file, Number(startHeight));
+      toast({
+        title: "Bitcoin Headers Loaded",
+        description: `Anchored proofs will be checked against ${file.name} on the next upgrade`
+      });
+    } catch (error) {
+      toast({
+        title: "Header File Rejected",
+        description: error instanceof Error ? error.message : "Failed to load the header file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const statusBadge = (status: string) => {
+    switch (status) {
+      case 'verified':
+        return <Badge variant="default">Verified</Badge>;
+      case 'anchored':
+        return <Badge variant="secondary">Anchored</Badge>;
+      case 'pending':
+        return <Badge variant="outline">Pending</Badge>;
+      default:
+        return <Badge variant="destructive">Failed</Badge>;
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Clock className="h-5 w-5" />
+          External Timestamp Proofs
+        </CardTitle>
+        <CardDescription>
+          OpenTimestamps proofs are pending until a calendar commits them to Bitcoin, then verified against
+          block headers from a local file. RFC 3161 tokens are verified when the TSA issues them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {['pending', 'anchored', 'verified', 'failed'].map(status => (
+            <div key={status} className="text-center">
+              <p className="text-2xl font-bold">{count(status)}</p>
+              <p className="text-sm text-muted-foreground capitalize">{status}</p>
+            </div>
+          ))}
+        </div>
+
+        {isAdmin && (
+          <div className="flex flex-col md:flex-row gap-2 md:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="header-file">
+                Bitcoin Header File
+                {headerFile && (
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {headerFile.name}: blocks {headerFile.first}–{headerFile.last}
+                  </span>
+                )}
+              </Label>
+              <Input
+                id="header-file"
+                type="file"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-2 md:w-40">
+              <Label htmlFor="header-start">First Height</Label>
+              <Input
+                id="header-start"
+                type="number"
+                min={0}
+                value={startHeight}
+                onChange={(e) => setStartHeight(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={handleLoadHeaders} disabled={!file || startHeight === ''}>
+              <Upload className="h-4 w-4 mr-2" />
+              Load Headers
+            </Button>
+            <Button onClick={handleRunUpgrade} disabled={running}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+              {running ? 'Upgrading...' : 'Upgrade Now'}
+            </Button>
+          </div>
+        )}
+
+        {report && (
+          <p className="text-sm text-muted-foreground">
+            Last run {report.finishedAt.toLocaleString()}: {report.upgraded} upgraded, {report.verified} verified,
+            {' '}{report.failed} failed
+          </p>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading timestamp proofs...</p>
+        ) : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No timestamp proofs recorded yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Block</TableHead>
+                <TableHead>Method</TableHead>
+                <TableHead>Attested</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.map(record => (
+                <TableRow key={record.id}>
+                  <TableCell>
+                    <p className="font-medium">#{record.blockIndex}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{record.blockHash.slice(0, 16)}…</p>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {record.method === 'rfc3161' ? 'RFC 3161' : 'OpenTimestamps'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {record.attestedAt ? record.attestedAt.toLocaleString() : '—'}
+                    {record.bitcoinHeight !== null && (
+                      <p className="text-xs text-muted-foreground">Bitcoin block {record.bitcoinHeight}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {statusBadge(record.status)}
+                    {record.lastError && <p className="text-xs text-muted-foreground mt-1">{record.lastError}</p>}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
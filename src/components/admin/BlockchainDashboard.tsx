@@ -1,9 +1,10 @@
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useBlockchain } from '@/hooks/useBlockchain';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Shield, Database, Link, Activity, CheckCircle2 } from 'lucide-react';
+import { Shield, Database, Link, Activity, CheckCircle2, FileCheck } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 
 export function BlockchainDashboard() {
@@ -14,8 +15,10 @@ export function BlockchainDashboard() {
     verifyAuditTrail,
     mineBlock,
     exportBlockchainData,
+    getAuditEventProof,
     updateChainStatus
   } = useBlockchain();
+  const [eventId, setEventId] = useState('');
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -56,16 +59,20 @@ export function BlockchainDashboard() {
     }
   };
 
+  const downloadJson = (data: unknown, filename: string) => {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const handleExportBlockchain = async () => {
     try {
       const data = await exportBlockchainData();
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `blockchain-export-${Date.now()}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadJson(data, `blockchain-export-${Date.now()}.json`);
       
       toast({
         title: "Export Successful",
@@ -80,6 +87,32 @@ export function BlockchainDashboard() {
     }
   };
 
+  const handleExportEventProof = async () => {
+    try {
+      const proof = await getAuditEventProof(eventId.trim());
+      if (!proof) {
+        toast({
+          title: "Event Not Found",
+          description: "No mined audit event has this id",
+          variant: "destructive"
+        });
+        return;
+      }
+
+      downloadJson(proof, `audit-event-proof-${proof.eventId.slice(0, 16)}.json`);
+      toast({
+        title: "Proof Exported",
+        description: `Inclusion proof for an event in block #${proof.header.index}`
+      });
+    } catch (error) {
+      toast({
+        title: "Proof Failed",
+        description: "Failed to build the audit event proof",
+        variant: "destructive"
+      });
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -214,6 +247,28 @@ export function BlockchainDashboard() {
         </CardContent>
       </Card>
 
+      {/* Audit Event Proofs */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Event Proof</CardTitle>
+          <CardDescription>
+            Export a signed inclusion proof so an auditor can verify one event without the whole chain
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap gap-4">
+          <Input
+            value={eventId}
+            onChange={(e) => setEventId(e.target.value)}
+            placeholder="Audit event id (SHA-256 of the event)"
+            className="max-w-md font-mono"
+          />
+          <Button onClick={handleExportEventProof} variant="outline" disabled={!eventId.trim()}>
+            <FileCheck className="h-4 w-4 mr-2" />
+            Export Proof
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Implementation Status */}
       <Card>
         <CardHeader>
@@ -5,7 +5,9 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   Shield, 
   Plus, 
@@ -14,17 +16,54 @@ import {
   AlertTriangle,
   CheckCircle2,
   XCircle,
-  Activity
+  Activity,
+  FileCode,
+  History
 } from 'lucide-react';
 import { useBlockchain } from '@/hooks/useBlockchain';
+import { usePolicyAuthoring } from '@/hooks/usePolicyAuthoring';
 import { toast } from '@/hooks/use-toast';
 import { BlockchainPolicy } from '@/lib/blockchain-policy-engine';
+import { ZeroTrustPolicy } from '@/lib/zero-trust-engine';
+import { PolicyCompiler, CompiledPolicy } from '@/lib/policy-language';
+import { PolicyVersion } from '@/lib/policy-repository';
+import { PolicySimulator, SimulationPolicySet } from '@/lib/policy-simulator';
+import { PolicySimulationDialog } from '@/components/admin/PolicySimulationDialog';
 
 export function BlockchainPolicyManager() {
   const { blockchain } = useBlockchain();
-  const [policies, setPolicies] = useState<BlockchainPolicy[]>([]);
+  const {
+    deployed,
+    diagnostics,
+    loading: deployedLoading,
+    deploying,
+    check,
+    deploy,
+    setPolicyActive,
+    getHistory,
+    verifyVersion
+  } = usePolicyAuthoring();
+  const [examplePolicies, setExamplePolicies] = useState<BlockchainPolicy[]>([]);
   const [loading, setLoading] = useState(true);
-  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [activeTab, setActiveTab] = useState('active');
+  const [source, setSource] = useState('');
+  const [historyPolicy, setHistoryPolicy] = useState<{ id: string; name: string } | null>(null);
+  const [history, setHistory] = useState<PolicyVersion[]>([]);
+  const [selectedVersion, setSelectedVersion] = useState<PolicyVersion | null>(null);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+  const [candidate, setCandidate] = useState<SimulationPolicySet | null>(null);
+
+  // Deployed versions on the chain replace the example policy with the same id
+  const deployedAccess = deployed
+    .filter(v => v.compiled.kind === 'access')
+    .map(v => v.compiled.policy as BlockchainPolicy);
+  const policies = [
+    ...deployedAccess,
+    ...examplePolicies.filter(example => !deployedAccess.some(p => p.id === example.id))
+  ];
+  const zeroTrustPolicies = deployed
+    .filter(v => v.compiled.kind === 'zero_trust')
+    .map(v => ({ version: v.version, policy: v.compiled.policy as ZeroTrustPolicy }));
 
   useEffect(() => {
     loadPolicies();
@@ -33,8 +72,7 @@ export function BlockchainPolicyManager() {
   const loadPolicies = async () => {
     try {
       setLoading(true);
-      // In production, this would fetch from blockchain
-      // For now, we'll show example policies
+      // Starting set; each is replaced once a version is deployed from source
       const examplePolicies: BlockchainPolicy[] = [
         {
           id: 'policy-001',
@@ -93,7 +131,7 @@ export function BlockchainPolicyManager() {
         }
       ];
       
-      setPolicies(examplePolicies);
+      setExamplePolicies(examplePolicies);
     } catch (error) {
       console.error('Error loading policies:', error);
       toast({
@@ -106,18 +144,9 @@ export function BlockchainPolicyManager() {
     }
   };
 
-  const togglePolicyStatus = async (policyId: string) => {
+  const togglePolicyStatus = async (compiled: CompiledPolicy) => {
     try {
-      setPolicies(prev => 
-        prev.map(p => 
-          p.id === policyId ? { ...p, isActive: !p.isActive } : p
-        )
-      );
-      
-      toast({
-        title: 'Policy Updated',
-        description: 'Policy status changed on blockchain',
-      });
+      await setPolicyActive(compiled, !compiled.policy.isActive);
     } catch (error) {
       toast({
         title: 'Error',
@@ -127,6 +156,61 @@ export function BlockchainPolicyManager() {
     }
   };
 
+  const editPolicies = (compiled: CompiledPolicy[]) => {
+    const text = compiled
+      .map(c => c.kind === 'access'
+        ? PolicyCompiler.formatBlockchainPolicy(c.policy)
+        : PolicyCompiler.formatZeroTrustPolicy(c.policy))
+      .join('\n\n');
+    setSource(text);
+    check(text);
+    setActiveTab('editor');
+  };
+
+  const openHistory = async (policy: { id: string; name: string }) => {
+    setHistoryPolicy(policy);
+    setSelectedVersion(null);
+    const versions = await getHistory(policy.id);
+    setHistory(versions);
+    setSelectedVersion(versions[0] || null);
+
+    const results = await Promise.all(versions.map(v => verifyVersion(v)));
+    setVerified(Object.fromEntries(versions.map((v, i) => [v.id, results[i]])));
+  };
+
+  const currentPolicySet: SimulationPolicySet = {
+    blockchain: policies,
+    zeroTrust: zeroTrustPolicies.map(({ policy }) => policy)
+  };
+
+  // Deploying goes through the impact simulation first
+  const reviewDeployment = () => {
+    const result = check(source);
+    if (!result.ok) {
+      toast({
+        title: 'Policy Errors',
+        description: 'Fix the reported problems before deploying',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    setCandidate(PolicySimulator.withChanges(currentPolicySet, {
+      blockchain: result.policies.flatMap(c => c.kind === 'access' ? [c.policy] : []),
+      zeroTrust: result.policies.flatMap(c => c.kind === 'zero_trust' ? [c.policy] : [])
+    }));
+  };
+
+  const handleDeploy = async () => {
+    const result = await deploy(source);
+    if (result?.success && result.deployed.length > 0) {
+      setActiveTab('all');
+    }
+  };
+
+  const selectedIndex = selectedVersion ? history.findIndex(v => v.id === selectedVersion.id) : -1;
+  const previousVersion = selectedIndex >= 0 ? history[selectedIndex + 1] : undefined;
+
   const PolicyCard = ({ policy }: { policy: BlockchainPolicy }) => (
     <Card className="mb-4">
       <CardHeader>
@@ -143,10 +227,18 @@ export function BlockchainPolicyManager() {
               Policy ID: {policy.id} • Version {policy.version}
             </CardDescription>
           </div>
-          <Switch
-            checked={policy.isActive}
-            onCheckedChange={() => togglePolicyStatus(policy.id)}
-          />
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => editPolicies([{ kind: 'access', policy }])}>
+              <FileCode className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => openHistory(policy)}>
+              <History className="h-4 w-4" />
+            </Button>
+            <Switch
+              checked={policy.isActive}
+              onCheckedChange={() => togglePolicyStatus({ kind: 'access', policy })}
+            />
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -267,7 +359,52 @@ export function BlockchainPolicyManager() {
     );
   };
 
-  if (loading) {
+  const ZeroTrustPolicyCard = ({ policy, version }: { policy: ZeroTrustPolicy; version: number }) => (
+    <Card className="mb-4">
+      <CardHeader>
+        <div className="flex items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              {policy.name}
+              <Badge variant={policy.isActive ? 'default' : 'secondary'}>
+                {policy.isActive ? 'Active' : 'Inactive'}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              Policy ID: {policy.id} • Version {version} • {policy.policyType} • Priority {policy.priority}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => editPolicies([{ kind: 'zero_trust', policy }])}>
+              <FileCode className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => openHistory(policy)}>
+              <History className="h-4 w-4" />
+            </Button>
+            <Switch
+              checked={policy.isActive}
+              onCheckedChange={() => togglePolicyStatus({ kind: 'zero_trust', policy })}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-2">
+          {policy.conditions.map((condition, idx) => (
+            <Badge key={idx} variant="outline">
+              {condition.field} {condition.operator} {JSON.stringify(condition.value)}
+            </Badge>
+          ))}
+          {policy.actions.map((action, idx) => (
+            <Badge key={`action-${idx}`} variant="secondary">{action.type}</Badge>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+
+  if (loading || deployedLoading) {
     return (
       <div className="flex items-center justify-center h-64">
         <Activity className="h-8 w-8 animate-spin" />
@@ -284,7 +421,7 @@ export function BlockchainPolicyManager() {
             Smart contract-like access control policies on blockchain
           </p>
         </div>
-        <Button onClick={() => setShowCreateForm(true)}>
+        <Button onClick={() => setActiveTab('editor')}>
           <Plus className="h-4 w-4 mr-2" />
           Deploy Policy
         </Button>
@@ -292,11 +429,13 @@ export function BlockchainPolicyManager() {
 
       <PolicyStats />
 
-      <Tabs defaultValue="active">
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
           <TabsTrigger value="active">Active Policies</TabsTrigger>
           <TabsTrigger value="inactive">Inactive Policies</TabsTrigger>
           <TabsTrigger value="all">All Policies</TabsTrigger>
+          <TabsTrigger value="zero_trust">Zero Trust</TabsTrigger>
+          <TabsTrigger value="editor">Policy Source</TabsTrigger>
         </TabsList>
 
         <TabsContent value="active" className="space-y-4">
@@ -316,7 +455,164 @@ export function BlockchainPolicyManager() {
             <PolicyCard key={policy.id} policy={policy} />
           ))}
         </TabsContent>
+
+        <TabsContent value="zero_trust" className="space-y-4">
+          {zeroTrustPolicies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No Zero Trust policies deployed from source yet
+            </p>
+          ) : (
+            zeroTrustPolicies.map(({ policy, version }) => (
+              <ZeroTrustPolicyCard key={policy.id} policy={policy} version={version} />
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="editor" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    <FileCode className="h-5 w-5" />
+                    Policy Source
+                  </CardTitle>
+                  <CardDescription>
+                    Author access and Zero Trust policies as text. Each changed policy is recorded as a new version on the blockchain.
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => editPolicies([
+                    ...policies.map(policy => ({ kind: 'access' as const, policy })),
+                    ...zeroTrustPolicies.map(({ policy }) => ({ kind: 'zero_trust' as const, policy }))
+                  ])}
+                >
+                  Load Current Policies
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Textarea
+                value={source}
+                onChange={(e) => setSource(e.target.value)}
+                placeholder={'access policy "Name" {\n  resource "documents"\n  roles ["user"]\n}'}
+                className="font-mono text-sm min-h-[320px]"
+                spellCheck={false}
+              />
+
+              {diagnostics.length > 0 ? (
+                <div className="space-y-1">
+                  {diagnostics.map((d, idx) => (
+                    <div
+                      key={idx}
+                      className={`flex items-start gap-2 text-sm font-mono ${d.severity === 'error' ? 'text-destructive' : 'text-yellow-600'}`}
+                    >
+                      {d.severity === 'error' ? <XCircle className="h-4 w-4 mt-0.5" /> : <AlertTriangle className="h-4 w-4 mt-0.5" />}
+                      <span>{d.line}:{d.column} {d.message}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : source.trim() && (
+                <p className="text-sm text-green-600 flex items-center gap-2">
+                  <CheckCircle2 className="h-4 w-4" />
+                  No problems found
+                </p>
+              )}
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => check(source)} disabled={!source.trim()}>
+                  <FileCheck className="h-4 w-4 mr-2" />
+                  Check
+                </Button>
+                <Button onClick={reviewDeployment} disabled={!source.trim() || deploying}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {deploying ? 'Deploying...' : 'Deploy'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      <PolicySimulationDialog
+        open={!!candidate}
+        onOpenChange={(open) => !open && setCandidate(null)}
+        baseline={currentPolicySet}
+        candidate={candidate || currentPolicySet}
+        description="Replays recorded access events against the deployed policies and the policies in the editor"
+        confirmLabel="Deploy"
+        onConfirm={handleDeploy}
+      />
+
+      <Dialog open={!!historyPolicy} onOpenChange={(open) => !open && setHistoryPolicy(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Version History • {historyPolicy?.name}</DialogTitle>
+            <DialogDescription>
+              Versions recorded on the blockchain audit trail, newest first
+            </DialogDescription>
+          </DialogHeader>
+
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              This policy has not been deployed from source yet
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2 max-h-[480px] overflow-y-auto">
+                {history.map(version => (
+                  <button
+                    key={version.id}
+                    onClick={() => setSelectedVersion(version)}
+                    className={`w-full text-left p-3 rounded-lg border ${selectedVersion?.id === version.id ? 'border-primary bg-muted' : ''}`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Version {version.version}</span>
+                      {verified[version.id] === undefined ? null : verified[version.id] ? (
+                        <Badge variant="outline" className="text-green-600">Verified</Badge>
+                      ) : (
+                        <Badge variant="destructive">Tampered</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">
+                      {version.integrityHash.slice(0, 16)}…
+                    </p>
+                  </button>
+                ))}
+              </div>
+
+              <div className="col-span-2">
+                {selectedVersion && (
+                  <>
+                    <Label className="text-sm text-muted-foreground">
+                      {previousVersion
+                        ? `Changes from version ${previousVersion.version}`
+                        : 'Initial version'}
+                    </Label>
+                    <pre className="mt-2 p-3 bg-muted rounded-lg text-xs font-mono overflow-auto max-h-[440px]">
+                      {PolicyCompiler.diff(previousVersion?.source ?? '', selectedVersion.source)
+                        .filter(line => previousVersion || line.type !== 'removed')
+                        .map((line, idx) => (
+                          <div
+                            key={idx}
+                            className={line.type === 'added' ? 'text-green-600' : line.type === 'removed' ? 'text-destructive' : ''}
+                          >
+                            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text}
+                          </div>
+                        ))}
+                    </pre>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useChainReconciliation } from '@/hooks/useChainReconciliation';
+import { useToast } from '@/hooks/use-toast';
+import type { EnhancedQuantumBlockchain } from '@/lib/enhanced-quantum-blockchain';
+import type { ChainDiscrepancy, ChainStore } from '@/lib/chain-reconciliation';
+import { GitCompare, RefreshCw, Wrench } from 'lucide-react';
+
+interface ChainReconciliationPanelProps {
+  blockchain: EnhancedQuantumBlockchain | null;
+  onRepaired?: () => void;
+}
+
+const STORE_LABELS: Record<ChainStore, string> = {
+  record: 'Chain of record',
+  memory: 'In memory',
+  indexeddb: 'IndexedDB'
+};
+
+export function ChainReconciliationPanel({ blockchain, onRepaired }: ChainReconciliationPanelProps) {
+  const { report, runs, running, isAdmin, reconcile } = useChainReconciliation(blockchain);
+  const { toast } = useToast();
+  const [resolveForks, setResolveForks] = useState(false);
+
+  const handleReconcile = async (repair: boolean) => {
+    try {
+      const result = await reconcile({ repair, resolveForks });
+      const repaired = Object.values(result.repaired).reduce((sum, heights) => sum + heights.length, 0);
+
+      if (repair && repaired > 0) {
+        onRepaired?.();
+      }
+      toast({
+        title: result.discrepancies.length === 0 ? "Chain Stores Consistent" : "Chain Stores Diverge",
+        description: repair
+          ? `${result.discrepancies.length} discrepancies, ${repaired} blocks repaired`
+          : `${result.discrepancies.length} discrepancies found`,
+        variant: result.discrepancies.some(d => d.kind === 'tampered' || d.kind === 'unrecoverable')
+          ? "destructive"
+          : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to reconcile the blockchain",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const kindBadge = (kind: ChainDiscrepancy['kind']) => {
+    switch (kind) {
+      case 'missing':
+        return <Badge variant="outline">Missing</Badge>;
+      case 'fork':
+        return <Badge variant="secondary">Fork</Badge>;
+      case 'tampered':
+        return <Badge variant="destructive">Tampered</Badge>;
+      default:
+        return <Badge variant="destructive">Unrecoverable</Badge>;
+    }
+  };
+
+  const changedFields = (discrepancy: ChainDiscrepancy) =>
+    Array.from(new Set(discrepancy.diff.map(d => d.field.replace(/\[\d+\]$/, '')))).join(', ');
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Chain Reconciliation
+        </CardTitle>
+        <CardDescription>
+          Compares the in-memory chain and IndexedDB with blockchain_blocks, the chain of record, block by
+          block. Tampered or missing blocks are repaired from the copy that verifies; forks only when asked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!isAdmin ? (
+          <p className="text-sm text-muted-foreground">Only administrators can reconcile the blockchain.</p>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-4 md:items-center md:justify-between">
+            <div className="flex items-center gap-2">
+              <Switch id="resolve-forks" checked={resolveForks} onCheckedChange={setResolveForks} />
+              <Label htmlFor="resolve-forks">Resolve forks from the chain of record</Label>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => handleReconcile(false)} disabled={running}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${running ? 'animate-spin' : ''}`} />
+                Check
+              </Button>
+              <Button onClick={() => handleReconcile(true)} disabled={running}>
+                <Wrench className="h-4 w-4 mr-2" />
+                Repair
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-3 gap-4">
+              {(Object.keys(STORE_LABELS) as ChainStore[]).map(store => (
+                <div key={store} className="text-center">
+                  <p className="text-2xl font-bold">{report.heights[store]}</p>
+                  <p className="text-sm text-muted-foreground">{STORE_LABELS[store]}</p>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Checked {report.finishedAt.toLocaleString()}
+              {report.recordStart !== null && `, from block ${report.recordStart}`}
+              {report.forkPoint !== null && `; stores diverge at block ${report.forkPoint}`}
+            </p>
+
+            {report.repairErrors.map(message => (
+              <p key={message} className="text-sm text-destructive">{message}</p>
+            ))}
+
+            {report.discrepancies.length === 0 ? (
+              <p className="text-sm text-muted-foreground">All stores agree.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Block</TableHead>
+                    <TableHead>Kind</TableHead>
+                    <TableHead>Stores</TableHead>
+                    <TableHead>Differs In</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.discrepancies.map(discrepancy => (
+                    <TableRow key={discrepancy.index}>
+                      <TableCell className="font-medium">#{discrepancy.index}</TableCell>
+                      <TableCell>{kindBadge(discrepancy.kind)}</TableCell>
+                      <TableCell className="text-sm">
+                        {(Object.entries(discrepancy.states) as [ChainStore, string][]).map(([store, state]) => (
+                          <p key={store}>
+                            {STORE_LABELS[store]}: {state}
+                            {discrepancy.issues[store] && (
+                              <span className="text-xs text-muted-foreground"> ({discrepancy.issues[store]!.join(', ')})</span>
+                            )}
+                          </p>
+                        ))}
+                        {discrepancy.authoritative && (
+                          <p className="text-xs text-muted-foreground">
+                            Authoritative: {STORE_LABELS[discrepancy.authoritative]}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{changedFields(discrepancy) || '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+
+        {isAdmin && runs.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Recent Runs</p>
+            {runs.map(run => (
+              <div key={run.id} className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {run.createdAt.toLocaleString()}, {run.recordHeight} blocks in record
+                  {run.repairedBlocks.length > 0 && `, ${run.repairedBlocks.length} repaired`}
+                </span>
+                <Badge variant={run.status === 'diverged' ? 'destructive' : 'outline'}>{run.status}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
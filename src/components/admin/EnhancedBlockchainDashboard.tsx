@@ -16,8 +16,10 @@ import {
   Database,
   FileText,
   Lock,
-  TrendingUp
+  TrendingUp,
+  FileCheck
 } from 'lucide-react';
+import { BlockTimestampsPanel } from '@/components/admin/BlockTimestampsPanel';
 import { BlockchainIntegrationManager } from '@/lib/enhanced-quantum-blockchain-integration';
 import { toast } from '@/hooks/use-toast';
 
@@ -76,6 +78,30 @@ export default function EnhancedBlockchainDashboard() {
     }
   };
 
+  const handleExportEvidenceBundle = async () => {
+    try {
+      const bundle = await manager.exportEvidenceBundle();
+      const blob = new Blob([bundle], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `audit-evidence-bundle-${new Date().toISOString()}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+      
+      toast({
+        title: 'Export Successful',
+        description: 'Signed evidence bundle downloaded'
+      });
+    } catch (error) {
+      toast({
+        title: 'Export Failed',
+        description: 'Failed to generate evidence bundle',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const handleExportVerifiableCredentials = () => {
     try {
       const vcs = manager.exportVerifiableCredentials();
@@ -191,6 +217,7 @@ export default function EnhancedBlockchainDashboard() {
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="statistics">Statistics</TabsTrigger>
+          <TabsTrigger value="timestamps">Timestamps</TabsTrigger>
           <TabsTrigger value="export">Export & Audit</TabsTrigger>
         </TabsList>
 
@@ -218,7 +245,7 @@ export default function EnhancedBlockchainDashboard() {
                 <div>
                   <h4 className="font-semibold">External Timestamping</h4>
                   <p className="text-sm text-muted-foreground">
-                    Cryptographic timestamp proofs for third-party verification
+                    OpenTimestamps proofs anchored in Bitcoin, or RFC 3161 tokens from a trusted TSA
                   </p>
                 </div>
               </div>
@@ -298,6 +325,10 @@ export default function EnhancedBlockchainDashboard() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="timestamps" className="space-y-4">
+          <BlockTimestampsPanel />
+        </TabsContent>
+
         <TabsContent value="export" className="space-y-4">
           <Card>
             <CardHeader>
@@ -326,11 +357,21 @@ export default function EnhancedBlockchainDashboard() {
                   Export W3C Verifiable Credentials
                 </Button>
 
+                <Button 
+                  onClick={handleExportEvidenceBundle}
+                  className="w-full justify-start"
+                  variant="outline"
+                >
+                  <FileCheck className="mr-2 h-4 w-4" />
+                  Export Signed Evidence Bundle
+                </Button>
+
                 <div className="pt-4 border-t">
                   <h4 className="font-semibold mb-2">Export Formats</h4>
                   <div className="space-y-2 text-sm text-muted-foreground">
                     <p>• Audit Report: Comprehensive JSON with all blockchain data</p>
                     <p>• W3C VC: Industry-standard JSON-LD format</p>
+                    <p>• Evidence Bundle: Signed blocks, Merkle proofs and signing keys; auditors verify it offline with <code>npm run verify-evidence -- &lt;file&gt;</code></p>
                     <p>• Includes: Block hashes, signatures, timestamps, and transaction data</p>
                     <p>• Suitable for: Compliance audits, third-party verification</p>
                   </div>
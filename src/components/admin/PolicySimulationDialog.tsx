@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Activity, AlertTriangle, ArrowDownRight, ArrowUpRight, PlayCircle } from 'lucide-react';
+import { usePolicySimulation } from '@/hooks/usePolicySimulation';
+import { ImpactSummary, SimulationPolicySet } from '@/lib/policy-simulator';
+
+interface PolicySimulationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  baseline: SimulationPolicySet;
+  candidate: SimulationPolicySet;
+  description?: string;
+  confirmLabel?: string;
+  onConfirm?: () => void | Promise<void>;
+}
+
+const MAX_LISTED_FLIPS = 100;
+
+export function PolicySimulationDialog({
+  open,
+  onOpenChange,
+  baseline,
+  candidate,
+  description,
+  confirmLabel = 'Deploy',
+  onConfirm
+}: PolicySimulationDialogProps) {
+  const { report, running, simulate, reset } = usePolicySimulation();
+  const [days, setDays] = useState('30');
+  const [trustScore, setTrustScore] = useState(70);
+  const [mfaVerified, setMfaVerified] = useState(false);
+
+  const runSimulation = () => simulate(baseline, candidate, {
+    days: parseInt(days),
+    assumptions: { trustScore, mfaVerified }
+  });
+
+  // A report belongs to the candidate it was run for; start over on each opening
+  const [wasOpen, setWasOpen] = useState(open);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) reset();
+  }
+
+  const handleConfirm = async () => {
+    if (!onConfirm) return;
+    await onConfirm();
+    onOpenChange(false);
+  };
+
+  const ImpactTable = ({ rows, label }: { rows: ImpactSummary[]; label: string }) => (
+    rows.length === 0 ? (
+      <p className="text-sm text-muted-foreground text-center py-6">No decisions change</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{label}</TableHead>
+            <TableHead className="text-right">Events</TableHead>
+            <TableHead className="text-right">Allow → Deny</TableHead>
+            <TableHead className="text-right">Deny → Allow</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.key}>
+              <TableCell className="font-mono text-xs">{row.key}</TableCell>
+              <TableCell className="text-right">{row.events}</TableCell>
+              <TableCell className="text-right text-destructive">{row.allowToDeny || '-'}</TableCell>
+              <TableCell className="text-right text-green-600">{row.denyToAllow || '-'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PlayCircle className="h-5 w-5" />
+            Policy Impact Simulation
+          </DialogTitle>
+          <DialogDescription>
+            {description || 'Replays recorded access events against the current and the candidate policies'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-4 items-end">
+          <div className="space-y-2">
+            <Label>Window</Label>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Assumed Trust Score</Label>
+            <Input
+              type="number"
+              min="0"
+              max="100"
+              value={trustScore}
+              onChange={(e) => setTrustScore(parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch checked={mfaVerified} onCheckedChange={setMfaVerified} />
+            <Label>Assume MFA</Label>
+          </div>
+          <Button variant="outline" onClick={runSimulation} disabled={running}>
+            <PlayCircle className="h-4 w-4 mr-2" />
+            {running ? 'Replaying...' : report ? 'Run Again' : 'Run Simulation'}
+          </Button>
+        </div>
+
+        {running && !report ? (
+          <div className="flex items-center justify-center h-40">
+            <Activity className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !report ? (
+          <p className="text-sm text-muted-foreground text-center py-10">
+            Run the simulation to see whose access would change{onConfirm ? ` before you ${confirmLabel.toLowerCase()}` : ''}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Events Replayed</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{report.eventsReplayed}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium flex items-center gap-1">
+                    <ArrowDownRight className="h-4 w-4 text-destructive" />
+                    Allow → Deny
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-destructive">{report.allowToDeny}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium flex items-center gap-1">
+                    <ArrowUpRight className="h-4 w-4 text-green-600" />
+                    Deny → Allow
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-green-600">{report.denyToAllow}</div>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium">Users Affected</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{report.byUser.length}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            {report.truncated && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Only the most recent {report.eventsReplayed} events in the window were replayed.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs defaultValue="users">
+              <TabsList>
+                <TabsTrigger value="users">By User</TabsTrigger>
+                <TabsTrigger value="resources">By Resource</TabsTrigger>
+                <TabsTrigger value="events">Changed Decisions</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="users">
+                <ImpactTable rows={report.byUser} label="User" />
+              </TabsContent>
+
+              <TabsContent value="resources">
+                <ImpactTable rows={report.byResource} label="Resource" />
+              </TabsContent>
+
+              <TabsContent value="events" className="space-y-2">
+                {report.flips.length === 0 ? (
+                  <p className="text-sm text-muted-foreground text-center py-6">No decisions change</p>
+                ) : (
+                  report.flips.slice(0, MAX_LISTED_FLIPS).map(flip => (
+                    <div key={flip.event.id} className="p-3 border rounded-lg text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          {flip.event.action} on {flip.event.resource}
+                        </span>
+                        <Badge variant={flip.direction === 'allow_to_deny' ? 'destructive' : 'default'}>
+                          {flip.direction === 'allow_to_deny' ? 'Allow → Deny' : 'Deny → Allow'}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(flip.event.timestamp).toLocaleString()} • {flip.event.userId}
+                      </p>
+                      <p className="text-xs mt-1">
+                        {flip.direction === 'allow_to_deny' ? flip.candidate.reason : flip.baseline.reason}
+                      </p>
+                    </div>
+                  ))
+                )}
+                {report.flips.length > MAX_LISTED_FLIPS && (
+                  <p className="text-xs text-muted-foreground text-center">
+                    Showing {MAX_LISTED_FLIPS} of {report.flips.length} changed decisions
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {onConfirm && (
+            <Button
+              onClick={handleConfirm}
+              disabled={running || !report}
+              variant={report && report.allowToDeny > 0 ? 'destructive' : 'default'}
+            >
+              {confirmLabel}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,8 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Plus, Shield, Settings, Trash2, Edit } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { SeparationOfDutiesEngine } from '@/lib/separation-of-duties';
 import { toast } from 'sonner';
 
 interface Permission {
@@ -34,6 +36,8 @@ interface NewRole {
 }
 
 export function RoleManagement() {
+  const { user } = useAuth();
+  const [sod] = useState(() => new SeparationOfDutiesEngine());
   const [roles, setRoles] = useState<Role[]>([]);
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
@@ -123,12 +127,25 @@ export function RoleManagement() {
       toast.error('Role name is required');
       return;
     }
+    if (!user) return;
 
     try {
       // Insert role permissions
       if (newRole.permissions.length > 0) {
+        const roleName = newRole.name.toLowerCase().replace(/\s+/g, '_');
+
+        // A role must not carry a toxic combination of permissions on its own
+        const evaluation = await sod.evaluateGrant(
+          { type: 'role_permissions', role: roleName, permissionIds: newRole.permissions },
+          user.id
+        );
+        if (!evaluation.allowed) {
+          toast.error(evaluation.message);
+          return;
+        }
+
         const rolePermissions = newRole.permissions.map(permissionId => ({
-          role: newRole.name.toLowerCase().replace(/\s+/g, '_') as 'admin' | 'moderator' | 'user',
+          role: roleName as 'admin' | 'moderator' | 'user',
           permission_id: permissionId
         }));
 
@@ -137,6 +154,10 @@ export function RoleManagement() {
           .insert(rolePermissions);
 
         if (error) throw error;
+
+        if (evaluation.conflicts.length > 0) {
+          toast.warning(evaluation.message);
+        }
       }
 
       toast.success('Custom role created successfully');
@@ -12,6 +12,8 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
+import { useBlindIndexSearch } from '@/hooks/useBlindIndexSearch';
+import { SeparationOfDutiesEngine } from '@/lib/separation-of-duties';
 import { Users, Plus, Edit, Trash2, Shield, Mail, Calendar, Activity, Eye, EyeOff } from 'lucide-react';
 
 interface User {
@@ -35,10 +37,13 @@ interface NewUser {
 export function UserManagementPanel() {
   const { user: currentUser } = useAuth();
   const { toast } = useToast();
+  const [sod] = useState(() => new SeparationOfDutiesEngine());
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRole, setSelectedRole] = useState<string>('all');
+  // Emails may be encrypted; their blind index still finds them
+  const { matches: emailMatches } = useBlindIndexSearch('profiles.email', searchTerm, 'contains');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
@@ -116,7 +121,7 @@ export function UserManagementPanel() {
       const { data: existingProfile } = await supabase
         .from('profiles')
         .select('user_id, email')
-        .eq('email', newUser.email)
+        .eq('email', newUser.email.toLowerCase())
         .maybeSingle();
 
       if (existingProfile) {
@@ -207,13 +212,29 @@ export function UserManagementPanel() {
   };
 
   const handleUpdateUserRole = async (userId: string, newRole: string) => {
+    if (!currentUser) return;
+
     try {
       // Check if current user is admin
-      const { data: currentUserRole } = await supabase.rpc('get_user_role', { _user_id: currentUser?.id });
+      const { data: currentUserRole } = await supabase.rpc('get_user_role', { _user_id: currentUser.id });
       if (currentUserRole !== 'admin') {
         throw new Error('Only admins can update user roles');
       }
 
+      // Separation of duties: the new role replaces the current one
+      const evaluation = await sod.evaluateGrant(
+        { type: 'role', userId, role: newRole as 'admin' | 'moderator' | 'user', replaceExisting: true },
+        currentUser.id
+      );
+      if (!evaluation.allowed) {
+        toast({
+          title: "Role Blocked",
+          description: evaluation.message,
+          variant: "destructive"
+        });
+        return;
+      }
+
       // Check if role already exists
       const { data: existingRole } = await supabase
         .from('user_roles')
@@ -254,7 +275,9 @@ export function UserManagementPanel() {
 
       toast({
         title: "Role Updated",
-        description: `User role updated to ${newRole}`
+        description: evaluation.conflicts.length > 0
+          ? `User role updated to ${newRole}. ${evaluation.message}`
+          : `User role updated to ${newRole}`
       });
 
       // Refresh user role if updating current user
@@ -319,7 +342,8 @@ export function UserManagementPanel() {
 
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         user.full_name?.toLowerCase().includes(searchTerm.toLowerCase());
+                         user.full_name?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         emailMatches?.has(user.id);
     const matchesRole = selectedRole === 'all' || user.role === selectedRole;
     return matchesSearch && matchesRole;
   });
@@ -14,6 +14,8 @@ import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useZeroTrust } from '@/hooks/useZeroTrust';
 import { useToast } from '@/hooks/use-toast';
+import { ManagedPolicy } from '@/lib/zero-trust-rules';
+import { PolicySimulationDialog } from '@/components/admin/PolicySimulationDialog';
 import { 
   Shield, 
   Plus, 
@@ -28,7 +30,8 @@ import {
   Lock,
   Globe,
   Clock,
-  Monitor
+  Monitor,
+  PlayCircle
 } from 'lucide-react';
 
 interface ZeroTrustPolicy {
@@ -47,6 +50,7 @@ export function ZeroTrustPolicyManager() {
   const { policies, calculateTrustScore, createPolicy, updatePolicy, deletePolicy } = useZeroTrust();
   const { toast } = useToast();
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isSimulationOpen, setIsSimulationOpen] = useState(false);
   const [newPolicy, setNewPolicy] = useState<Partial<ZeroTrustPolicy>>({
     name: '',
     description: '',
@@ -93,6 +97,16 @@ export function ZeroTrustPolicyManager() {
     }
   };
 
+  // The policy as handleAddPolicy would store it, for the impact simulation
+  const candidatePolicy: ManagedPolicy = {
+    id: newPolicy.id || 'candidate-policy',
+    name: newPolicy.name || 'New policy',
+    policy_type: newPolicy.type || 'device',
+    conditions: newPolicy.conditions || {},
+    actions: newPolicy.actions || { action: 'allow' },
+    is_active: newPolicy.isEnabled ?? true
+  };
+
   const handleTogglePolicy = async (policyId: string) => {
     try {
       const policy = policies.find(p => p.id === policyId);
@@ -248,12 +262,27 @@ export function ZeroTrustPolicyManager() {
                   <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                     Cancel
                   </Button>
+                  <Button variant="outline" onClick={() => setIsSimulationOpen(true)}>
+                    <PlayCircle className="h-4 w-4 mr-2" />
+                    Simulate Impact
+                  </Button>
                   <Button onClick={handleAddPolicy}>
                     Create Policy
                   </Button>
                 </DialogFooter>
               </DialogContent>
             </Dialog>
+            <PolicySimulationDialog
+              open={isSimulationOpen}
+              onOpenChange={setIsSimulationOpen}
+              baseline={{ managed: policies }}
+              candidate={{
+                managed: [...policies.filter(p => p.id !== candidatePolicy.id), candidatePolicy]
+              }}
+              description="Replays recorded access events against the current policies and the policy being created"
+              confirmLabel="Create Policy"
+              onConfirm={handleAddPolicy}
+            />
           </div>
         </CardHeader>
       </Card>
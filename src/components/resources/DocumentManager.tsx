@@ -8,14 +8,16 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { FileText, Plus, Eye, Trash2, Shield, AlertTriangle, Lock, Globe, Upload, Download, X } from 'lucide-react';
-import { useDocuments, type NewDocument } from '@/hooks/useDocuments';
+import { FileText, Plus, Eye, Trash2, Shield, AlertTriangle, Lock, Globe, Upload, Download, X, Share2 } from 'lucide-react';
+import { useDocuments, type NewDocument, type Document } from '@/hooks/useDocuments';
+import { ShareDialog } from './ShareDialog';
 import { toast } from 'sonner';
 
 export function DocumentManager() {
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showViewDialog, setShowViewDialog] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<any>(null);
+  const [sharingDocument, setSharingDocument] = useState<Document | null>(null);
   const [newDocument, setNewDocument] = useState<NewDocument>({
     title: '',
     description: '',
@@ -284,6 +286,13 @@ export function DocumentManager() {
                                 <Download className="h-4 w-4" />
                               </Button>
                             )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSharingDocument(doc)}
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -303,6 +312,15 @@ export function DocumentManager() {
         </CardContent>
       </Card>
 
+      {sharingDocument && (
+        <ShareDialog
+          open={!!sharingDocument}
+          onOpenChange={(open) => !open && setSharingDocument(null)}
+          object={{ type: 'document', id: sharingDocument.id }}
+          title={sharingDocument.title}
+        />
+      )}
+
       {/* Document Viewer Dialog */}
       <Dialog open={showViewDialog} onOpenChange={setShowViewDialog}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
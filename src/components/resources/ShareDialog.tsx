@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Folder, Share2, Trash2, Users } from 'lucide-react';
+import { useRelationships } from '@/hooks/useRelationships';
+import { ObjectRef, Relation, RelationshipAccessManager, SubjectRef } from '@/lib/relationship-access';
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  object: ObjectRef;
+  title: string;
+}
+
+export function ShareDialog({ open, onOpenChange, object, title }: ShareDialogProps) {
+  // Sharing a document can lead on to its folder (and a task to its project)
+  const [target, setTarget] = useState<ObjectRef>(object);
+  const [subjectKey, setSubjectKey] = useState('');
+  const [relation, setRelation] = useState<Relation>(RelationshipAccessManager.grantableRelations(object.type)[0]);
+  const [parentInput, setParentInput] = useState('');
+
+  const { tuples, parent, access, directory, loading, share, revoke, setParent } = useRelationships(open ? target : null);
+
+  const [openedFor, setOpenedFor] = useState<ObjectRef | null>(open ? object : null);
+  const current = open ? object : null;
+  if (current?.type !== openedFor?.type || current?.id !== openedFor?.id) {
+    setOpenedFor(current);
+    if (current) showObject(current);
+  }
+
+  function showObject(next: ObjectRef) {
+    setTarget(next);
+    setSubjectKey('');
+    setRelation(RelationshipAccessManager.grantableRelations(next.type)[0]);
+    setParentInput('');
+  }
+
+  const parentType = RelationshipAccessManager.parentType(target.type);
+  const grants = tuples.filter(t => t.relation !== 'parent');
+
+  const userLabel = (id: string) => directory.users.find(u => u.id === id)?.label || id;
+  const subjectLabel = (subject: SubjectRef) => {
+    switch (subject.type) {
+      case 'user': return userLabel(subject.id);
+      case 'group': return `Group: ${directory.groups.find(g => g.id === subject.id)?.label || subject.id}`;
+      default: return `${subject.type}:${subject.id}${subject.relation ? `#${subject.relation}` : ''}`;
+    }
+  };
+
+  const handleShare = async () => {
+    const [type, id] = subjectKey.split(':') as ['user' | 'group', string];
+    if (!id) return;
+    if (await share(relation, { type, id })) {
+      setSubjectKey('');
+    }
+  };
+
+  const handleSetParent = async () => {
+    if (await setParent(parentInput.trim() || null)) {
+      setParentInput('');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5" />
+            Share {target.type === object.type && target.id === object.id ? title : `${target.type} "${target.id}"`}
+          </DialogTitle>
+          <DialogDescription className="font-mono text-xs">
+            {target.type}:{target.id}
+          </DialogDescription>
+        </DialogHeader>
+
+        {(target.type !== object.type || target.id !== object.id) && (
+          <Button variant="ghost" size="sm" className="w-fit" onClick={() => showObject(object)}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to {title}
+          </Button>
+        )}
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-[1fr_10rem_auto] gap-2 items-end">
+            <div className="space-y-2">
+              <Label>Share with</Label>
+              <Select value={subjectKey} onValueChange={setSubjectKey}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select user or group" />
+                </SelectTrigger>
+                <SelectContent>
+                  {directory.groups.map(group => (
+                    <SelectItem key={group.id} value={`group:${group.id}`}>
+                      Group: {group.label}
+                    </SelectItem>
+                  ))}
+                  {directory.users.map(u => (
+                    <SelectItem key={u.id} value={`user:${u.id}`}>
+                      {u.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Relation</Label>
+              <Select value={relation} onValueChange={(value: Relation) => setRelation(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RelationshipAccessManager.grantableRelations(target.type).map(r => (
+                    <SelectItem key={r} value={r}>{r}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleShare} disabled={!subjectKey}>
+              Share
+            </Button>
+          </div>
+
+          {parentType && (
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <Folder className="h-4 w-4" />
+                {parentType === 'folder' ? 'Parent Folder' : 'Project'}
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  value={parentInput}
+                  onChange={(e) => setParentInput(e.target.value)}
+                  placeholder={parent ? parent.subject.id : `No ${parentType}`}
+                />
+                <Button variant="outline" onClick={handleSetParent} disabled={!parentInput.trim() && !parent}>
+                  {parentInput.trim() ? 'Move' : 'Remove'}
+                </Button>
+                {parent && (
+                  <Button variant="outline" onClick={() => showObject({ type: parentType, id: parent.subject.id })}>
+                    Manage {parentType}
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {parentType === 'folder'
+                  ? 'Viewers and editors of the folder inherit the same access.'
+                  : 'Members of the project can view the task.'}
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Shared With</h4>
+            {grants.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Not shared directly with anyone</p>
+            ) : (
+              <div className="space-y-2">
+                {grants.map(tuple => (
+                  <div key={tuple.id} className="flex items-center justify-between p-2 border rounded-md">
+                    <div className="flex items-center gap-2 text-sm">
+                      {tuple.subject.type === 'group' && <Users className="h-4 w-4" />}
+                      <span>{subjectLabel(tuple.subject)}</span>
+                      <Badge variant="secondary">{tuple.relation}</Badge>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => revoke(tuple)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium">Effective Access</h4>
+            {loading ? (
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary mx-auto"></div>
+            ) : access.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No users hold access to this {target.type}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Through</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {access.map(entry => (
+                    <TableRow key={entry.userId}>
+                      <TableCell>{userLabel(entry.userId)}</TableCell>
+                      <TableCell className="font-mono text-xs">{entry.path.join(' → ')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,275 @@
+import { useEffect, useState } from "react";
+import { useAccessCertification } from "@/hooks/useAccessCertification";
+import { AccessReviewCampaign, AccessReviewItem, ReviewerStrategy } from "@/lib/access-certification";
+import { AccessReviewQueue } from "@/components/security/AccessReviewQueue";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarCheck, FileSignature, Plus, RotateCcw, ShieldCheck, ShieldAlert } from "lucide-react";
+
+const EMPTY_FORM = {
+  name: '',
+  reviewerStrategy: 'manager' as ReviewerStrategy,
+  dueInDays: 14
+};
+
+export function AccessCertificationCampaigns() {
+  const {
+    campaigns,
+    loading,
+    working,
+    loadCampaigns,
+    getCampaignItems,
+    createCampaign,
+    completeCampaign,
+    cancelCampaign,
+    retryRevocations,
+    verifyCampaign
+  } = useAccessCertification();
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+  const [selected, setSelected] = useState<AccessReviewCampaign | null>(null);
+  const [items, setItems] = useState<AccessReviewItem[]>([]);
+  const [verified, setVerified] = useState<Record<string, boolean>>({});
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [loadCampaigns]);
+
+  useEffect(() => {
+    for (const campaign of campaigns) {
+      if (campaign.status === 'completed' && verified[campaign.id] === undefined) {
+        verifyCampaign(campaign).then(valid => setVerified(prev => ({ ...prev, [campaign.id]: valid })));
+      }
+    }
+  }, [campaigns, verified, verifyCampaign]);
+
+  const openCampaign = async (campaign: AccessReviewCampaign) => {
+    setSelected(campaign);
+    setItems(await getCampaignItems(campaign.id));
+  };
+
+  const handleCreate = async () => {
+    if (!form) return;
+
+    const campaign = await createCampaign({
+      name: form.name || undefined,
+      reviewerStrategy: form.reviewerStrategy,
+      dueInDays: form.dueInDays,
+      quarterly: !form.name
+    });
+
+    if (campaign) {
+      setForm(null);
+    }
+  };
+
+  const handleComplete = async (campaign: AccessReviewCampaign) => {
+    const completed = await completeCampaign(campaign.id);
+    if (completed && selected?.id === campaign.id) {
+      await openCampaign(completed);
+    }
+  };
+
+  if (loading && campaigns.length === 0) {
+    return <div>Loading access review campaigns...</div>;
+  }
+
+  const decided = items.filter(i => i.decision !== 'pending').length;
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarCheck className="h-5 w-5" />
+              Access Certification Campaigns
+            </CardTitle>
+            <CardDescription>
+              Quarterly user access reviews. Each campaign snapshots roles, group permissions, time-based and
+              temporary access and quantum permissions; completed campaigns are signed and reported as SOC 2
+              CC6.2 / CC6.3 evidence.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setForm(EMPTY_FORM)} disabled={working}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Campaign
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="campaigns">
+          <TabsList>
+            <TabsTrigger value="campaigns">Campaigns</TabsTrigger>
+            <TabsTrigger value="my-reviews">My Reviews</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="campaigns" className="space-y-4">
+            {campaigns.length === 0 && (
+              <p className="text-sm text-muted-foreground">No access review campaigns yet.</p>
+            )}
+
+            {campaigns.map((campaign) => (
+              <div key={campaign.id} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{campaign.name}</h3>
+                    <Badge variant={campaign.status === 'completed' ? 'default' : campaign.status === 'active' ? 'secondary' : 'outline'}>
+                      {campaign.status}
+                    </Badge>
+                    {campaign.status === 'completed' && verified[campaign.id] !== undefined && (
+                      verified[campaign.id] ? (
+                        <Badge variant="outline" className="gap-1"><ShieldCheck className="h-3 w-3" />Signature valid</Badge>
+                      ) : (
+                        <Badge variant="destructive" className="gap-1"><ShieldAlert className="h-3 w-3" />Signature invalid</Badge>
+                      )
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(campaign.period_start).toLocaleDateString()} – {new Date(campaign.period_end).toLocaleDateString()} ·
+                    Due {new Date(campaign.due_date).toLocaleDateString()} · {campaign.total_items} items ·
+                    Reviewers by {campaign.reviewer_strategy.replace('_', ' ')}
+                  </p>
+                  {campaign.result && (
+                    <p className="text-xs text-muted-foreground">
+                      {campaign.result.totals.approved} certified · {campaign.result.totals.revoked} revoked
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openCampaign(campaign)}>
+                    Details
+                  </Button>
+                  {campaign.status === 'active' && (
+                    <>
+                      <Button size="sm" disabled={working} onClick={() => handleComplete(campaign)}>
+                        <FileSignature className="h-4 w-4 mr-2" />
+                        Complete &amp; Sign
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => cancelCampaign(campaign.id)}>
+                        Cancel
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="my-reviews">
+            <AccessReviewQueue />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={selected !== null} onOpenChange={(open) => !open && setSelected(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.name}</DialogTitle>
+            <DialogDescription>
+              {decided} of {items.length} items reviewed
+            </DialogDescription>
+          </DialogHeader>
+          <Progress value={items.length ? (decided / items.length) * 100 : 0} />
+          <div className="max-h-96 overflow-y-auto space-y-2">
+            {items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between border rounded p-2 text-sm">
+                <div>
+                  <p className="font-medium">{item.access_label}</p>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    user {item.user_id.slice(0, 8)} · reviewer {item.reviewer_id.slice(0, 8)}
+                  </p>
+                  {item.decision_comment && <p className="text-xs">{item.decision_comment}</p>}
+                  {item.revocation_error && <p className="text-xs text-destructive">{item.revocation_error}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={item.decision === 'revoked' ? 'destructive' : item.decision === 'approved' ? 'default' : 'outline'}>
+                    {item.decision}
+                  </Badge>
+                  {item.revocation_status && <Badge variant="outline">{item.revocation_status}</Badge>}
+                </div>
+              </div>
+            ))}
+          </div>
+          {selected?.result_hash && (
+            <p className="text-xs text-muted-foreground font-mono break-all">Result SHA-256: {selected.result_hash}</p>
+          )}
+          <DialogFooter>
+            {selected && items.some(i => i.decision === 'revoked' && i.revocation_status !== 'executed') && (
+              <Button
+                variant="outline"
+                onClick={async () => {
+                  await retryRevocations(selected.id);
+                  await openCampaign(selected);
+                }}
+              >
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Retry Revocations
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setSelected(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Access Review Campaign</DialogTitle>
+            <DialogDescription>
+              Leave the name empty to create this quarter's campaign (an existing one is reused).
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Name</Label>
+                <Input
+                  id="campaign-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Quarterly access review"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reviewers</Label>
+                <Select
+                  value={form.reviewerStrategy}
+                  onValueChange={(value) => setForm({ ...form, reviewerStrategy: value as ReviewerStrategy })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manager">User's manager (then resource owner)</SelectItem>
+                    <SelectItem value="resource_owner">Resource owner (then manager)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="campaign-due">Due in (days)</Label>
+                <Input
+                  id="campaign-due"
+                  type="number"
+                  min={1}
+                  value={form.dueInDays}
+                  onChange={(e) => setForm({ ...form, dueInDays: parseInt(e.target.value) || 14 })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={working}>Generate</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
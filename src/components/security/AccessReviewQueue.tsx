@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useAccessCertification } from "@/hooks/useAccessCertification";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ClipboardCheck, Check, X } from "lucide-react";
+
+export function AccessReviewQueue() {
+  const { pendingReviews, decide } = useAccessCertification();
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const handleDecision = async (itemId: string, decision: 'approved' | 'revoked') => {
+    setDeciding(itemId);
+    try {
+      await decide(itemId, decision, comments[itemId]);
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5" />
+          Access Reviews
+          {pendingReviews.length > 0 && <Badge variant="secondary">{pendingReviews.length}</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Certify whether each person still needs the access listed. Revoked access is removed immediately.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {pendingReviews.length === 0 && (
+          <p className="text-sm text-muted-foreground">No access reviews waiting on you.</p>
+        )}
+
+        {pendingReviews.map((item) => (
+          <div key={item.id} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="font-medium">{item.access_label}</p>
+                <p className="text-xs text-muted-foreground font-mono">{item.user_id}</p>
+              </div>
+              <Badge variant="outline">{item.access_type.replace(/_/g, ' ')}</Badge>
+            </div>
+            {Array.isArray(item.access_details.permissions) && item.access_details.permissions.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Grants:{' '}
+                {(item.access_details.permissions as (string | { name: string })[])
+                  .map(p => (typeof p === 'string' ? p : p.name))
+                  .join(', ')}
+              </p>
+            )}
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder="Comment (optional)"
+                value={comments[item.id] || ''}
+                onChange={(e) => setComments({ ...comments, [item.id]: e.target.value })}
+              />
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={deciding === item.id}
+                onClick={() => handleDecision(item.id, 'approved')}
+              >
+                <Check className="h-4 w-4 mr-1" />
+                Keep
+              </Button>
+              <Button
+                size="sm"
+                variant="destructive"
+                disabled={deciding === item.id}
+                onClick={() => handleDecision(item.id, 'revoked')}
+              >
+                <X className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
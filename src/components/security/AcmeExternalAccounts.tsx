@@ -0,0 +1,263 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { Bot, Plus, Copy, Ban } from 'lucide-react';
+import { useAcmeAccounts, CreatedExternalAccount } from '@/hooks/useAcmeAccounts';
+import { CertificateAuthorityInfo } from '@/hooks/useQuantumPKI';
+import { useToast } from '@/hooks/use-toast';
+
+const DEFAULT_CA = 'default';
+
+interface AcmeExternalAccountsProps {
+  authorities: CertificateAuthorityInfo[];
+}
+
+export function AcmeExternalAccounts({ authorities }: AcmeExternalAccountsProps) {
+  const { externalAccounts, loading, createExternalAccount, revokeExternalAccount } = useAcmeAccounts();
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [allowedDomains, setAllowedDomains] = useState('');
+  const [caId, setCaId] = useState<string>(DEFAULT_CA);
+  const [creating, setCreating] = useState(false);
+  const [created, setCreated] = useState<CreatedExternalAccount | null>(null);
+
+  // Roots only sign CA certificates, so services get an issuing CA
+  const issuingAuthorities = authorities.filter(ca => ca.parentId && ca.isActive);
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({ title: "Copied to clipboard" });
+  };
+
+  const closeCreateDialog = () => {
+    setIsCreateDialogOpen(false);
+    setCreated(null);
+    setName('');
+    setAllowedDomains('');
+    setCaId(DEFAULT_CA);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const account = await createExternalAccount({
+        name: name.trim(),
+        allowedDomains: allowedDomains.split(/[\s,]+/).filter(Boolean),
+        caId: caId === DEFAULT_CA ? undefined : caId
+      });
+      setCreated(account);
+    } catch (error) {
+      toast({
+        title: "Creation Failed",
+        description: error instanceof Error ? error.message : "Failed to create the ACME credentials",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string, accountName: string) => {
+    try {
+      await revokeExternalAccount(id);
+      toast({
+        title: "Credentials Revoked",
+        description: `${accountName} can no longer order certificates`
+      });
+    } catch (error) {
+      toast({
+        title: "Revocation Failed",
+        description: error instanceof Error ? error.message : "Failed to revoke the ACME credentials",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const statusBadge = (status: string | null, revoked: boolean) => {
+    if (revoked || status === 'revoked') {
+      return <Badge variant="destructive">Revoked</Badge>;
+    }
+    if (status === 'deactivated') {
+      return <Badge variant="secondary">Deactivated</Badge>;
+    }
+    if (status === 'valid') {
+      return <Badge variant="default">Registered</Badge>;
+    }
+    return <Badge variant="outline">Unused</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              ACME Automation
+            </CardTitle>
+            <CardDescription>
+              External account credentials that let services order and renew their own certificates over ACME
+            </CardDescription>
+          </div>
+          <Dialog open={isCreateDialogOpen} onOpenChange={(open) => (open ? setIsCreateDialogOpen(true) : closeCreateDialog())}>
+            <DialogTrigger asChild>
+              <Button variant="outline">
+                <Plus className="h-4 w-4 mr-2" />
+                New Credentials
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create ACME Credentials</DialogTitle>
+                <DialogDescription>
+                  {created
+                    ? 'Configure the ACME client with these values. The HMAC key is not shown again.'
+                    : 'Bind a service to the domains it may request certificates for'}
+                </DialogDescription>
+              </DialogHeader>
+              {created ? (
+                <div className="space-y-4">
+                  {[
+                    { label: 'Directory URL', value: created.directory },
+                    { label: 'EAB Key ID', value: created.keyId },
+                    { label: 'EAB HMAC Key', value: created.hmacKey }
+                  ].map(field => (
+                    <div key={field.label} className="space-y-2">
+                      <Label>{field.label}</Label>
+                      <div className="flex items-center gap-2">
+                        <Input value={field.value} readOnly className="font-mono text-xs" />
+                        <Button variant="outline" size="icon" onClick={() => copyToClipboard(field.value)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="acme-name">Service Name</Label>
+                    <Input id="acme-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Payments API" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="acme-domains">Allowed Domains</Label>
+                    <Input
+                      id="acme-domains"
+                      value={allowedDomains}
+                      onChange={(e) => setAllowedDomains(e.target.value)}
+                      placeholder="e.g., payments.internal.example"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Comma-separated; subdomains and wildcards below them are included
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Issuing CA</Label>
+                    <Select value={caId} onValueChange={setCaId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={DEFAULT_CA}>Default issuing CA</SelectItem>
+                        {issuingAuthorities.map(ca => (
+                          <SelectItem key={ca.id} value={ca.id}>{ca.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              <DialogFooter>
+                {created ? (
+                  <Button onClick={closeCreateDialog}>Done</Button>
+                ) : (
+                  <>
+                    <Button variant="outline" onClick={closeCreateDialog}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreate} disabled={creating || !name.trim() || !allowedDomains.trim()}>
+                      {creating ? 'Creating...' : 'Create Credentials'}
+                    </Button>
+                  </>
+                )}
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading ACME credentials...</p>
+        ) : externalAccounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No ACME credentials have been issued.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Allowed Domains</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {externalAccounts.map(account => (
+                <TableRow key={account.id}>
+                  <TableCell>
+                    <p className="font-medium">{account.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{account.keyId}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {account.allowedDomains.map(domain => (
+                        <Badge key={domain} variant="outline">{domain}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{statusBadge(account.accountStatus, Boolean(account.revokedAt))}</TableCell>
+                  <TableCell className="text-sm">{new Date(account.createdAt).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    {!account.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="outline" size="sm">
+                            <Ban className="h-3 w-3 mr-1" />
+                            Revoke
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke ACME Credentials</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              {account.name} will no longer be able to order or renew certificates. Certificates
+                              already issued stay valid until they expire or are revoked.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRevoke(account.id, account.name)}>
+                              Revoke
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Landmark, Plus, FileDown, FileX } from 'lucide-react';
+import { CertificateAuthorityInfo } from '@/hooks/useQuantumPKI';
+import { SignatureAlgorithm } from '@/lib/x509';
+import { useToast } from '@/hooks/use-toast';
+
+const SIGNATURE_ALGORITHMS: SignatureAlgorithm[] = ['ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87', 'MLDSA65-ECDSA-P256-SHA512'];
+
+const ROOT = 'root';
+
+interface CertificateAuthoritiesProps {
+  authorities: CertificateAuthorityInfo[];
+  isAdmin: boolean;
+  onCreate: (params: { name: string; algorithm: SignatureAlgorithm; parentId?: string; validityDays?: number }) => Promise<unknown>;
+}
+
+export function CertificateAuthorities({ authorities, isAdmin, onCreate }: CertificateAuthoritiesProps) {
+  const { toast } = useToast();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [algorithm, setAlgorithm] = useState<SignatureAlgorithm>('ML-DSA-65');
+  const [parentId, setParentId] = useState<string>(ROOT);
+  const [validityDays, setValidityDays] = useState('1825');
+  const [creating, setCreating] = useState(false);
+
+  // Only CAs without a zero path length can have subordinates
+  const parents = authorities.filter(ca => ca.pathLength !== 0);
+
+  const download = (content: string, filename: string) => {
+    const blob = new Blob([content], { type: 'application/x-pem-file' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const fileName = (ca: CertificateAuthorityInfo) => ca.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      await onCreate({
+        name: name.trim(),
+        algorithm,
+        parentId: parentId === ROOT ? undefined : parentId,
+        validityDays: Number(validityDays)
+      });
+      toast({
+        title: "Certificate Authority Created",
+        description: `${name.trim()} can now issue certificates`
+      });
+      setIsCreateDialogOpen(false);
+      setName('');
+    } catch (error) {
+      toast({
+        title: "CA Creation Failed",
+        description: error instanceof Error ? error.message : "Failed to create the certificate authority",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" />
+              Certificate Authorities
+            </CardTitle>
+            <CardDescription>
+              Trust anchors and issuing CAs. Relying parties check revocation with the CRLs or the OCSP responder.
+            </CardDescription>
+          </div>
+          {isAdmin && (
+            <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New CA
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Create Certificate Authority</DialogTitle>
+                  <DialogDescription>
+                    A new self-signed root, or an intermediate CA issued by an existing one
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ca-name">Name</Label>
+                    <Input id="ca-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g., Partner Issuing CA" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Issued By</Label>
+                    <Select value={parentId} onValueChange={setParentId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ROOT}>Self-signed (new root)</SelectItem>
+                        {parents.map(ca => (
+                          <SelectItem key={ca.id} value={ca.id}>{ca.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Signature Algorithm</Label>
+                    <Select value={algorithm} onValueChange={(value) => setAlgorithm(value as SignatureAlgorithm)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SIGNATURE_ALGORITHMS.map(alg => (
+                          <SelectItem key={alg} value={alg}>{alg}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ca-validity">Validity (days)</Label>
+                    <Input
+                      id="ca-validity"
+                      type="number"
+                      min={1}
+                      value={validityDays}
+                      onChange={(e) => setValidityDays(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+                    {creating ? 'Creating...' : 'Create CA'}
+                  </Button>
+                </DialogFooter>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {authorities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No certificate authorities available.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Issued By</TableHead>
+                <TableHead>Algorithm</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>CRL Next Update</TableHead>
+                <TableHead>Downloads</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {authorities.map(ca => (
+                <TableRow key={ca.id}>
+                  <TableCell>
+                    <p className="font-medium">{ca.name}</p>
+                    <p className="text-xs text-muted-foreground font-mono">{ca.serialNumber.slice(0, 16)}...</p>
+                  </TableCell>
+                  <TableCell>
+                    {ca.parentId ? (
+                      authorities.find(a => a.id === ca.parentId)?.name || 'Unknown'
+                    ) : (
+                      <Badge variant="secondary">Root</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{ca.algorithm}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{new Date(ca.expiresAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-sm">
+                    {ca.crlNextUpdate ? new Date(ca.crlNextUpdate).toLocaleString() : '—'}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => download(ca.certificate, `${fileName(ca)}.crt`)}>
+                        <FileDown className="h-3 w-3 mr-1" />
+                        Certificate
+                      </Button>
+                      {ca.crl && (
+                        <Button variant="outline" size="sm" onClick={() => download(ca.crl!, `${fileName(ca)}.crl`)}>
+                          <FileX className="h-3 w-3 mr-1" />
+                          CRL
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
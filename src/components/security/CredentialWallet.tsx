@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wallet, KeyRound, Download, Copy, FileSignature } from 'lucide-react';
+import { useVerifiableCredentials } from '@/hooks/useVerifiableCredentials';
+import { IssuedCredential, CredentialState, VerifiableCredentialManager } from '@/lib/verifiable-credentials';
+import { toast } from '@/hooks/use-toast';
+
+const STATUS_BADGES: Record<CredentialState, { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  active: { label: 'Active', variant: 'default' },
+  expired: { label: 'Expired', variant: 'secondary' },
+  revoked: { label: 'Revoked', variant: 'destructive' }
+};
+
+export function CredentialWallet() {
+  const { walletCredentials, holderKey, loading, createHolderKey, present } = useVerifiableCredentials();
+  const [selected, setSelected] = useState<string[]>([]);
+  const [domain, setDomain] = useState('');
+  const [challenge, setChallenge] = useState('');
+  const [presentation, setPresentation] = useState('');
+  const [creatingKey, setCreatingKey] = useState(false);
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, id] : prev.filter(s => s !== id));
+  };
+
+  const handleCreateKey = async () => {
+    setCreatingKey(true);
+    try {
+      await createHolderKey();
+    } finally {
+      setCreatingKey(false);
+    }
+  };
+
+  const presentable = walletCredentials.filter(c => VerifiableCredentialManager.stateOf(c) === 'active');
+  const selection = selected.filter(id => presentable.some(c => c.id === id));
+
+  const handlePresent = async () => {
+    const vp = await present(selection, challenge.trim(), domain.trim());
+    if (vp) {
+      setPresentation(JSON.stringify(vp, null, 2));
+    }
+  };
+
+  const downloadCredential = (credential: IssuedCredential) => {
+    const blob = new Blob([JSON.stringify(credential.credential, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${credential.type}-${credential.id}.json`;
+    a.click();
+  };
+
+  const copyPresentation = () => {
+    navigator.clipboard.writeText(presentation);
+    toast({ title: 'Copied', description: 'Presentation copied to clipboard' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Credential Wallet
+          </CardTitle>
+          <CardDescription>
+            Verifiable credentials issued to your DID. Partners can verify them without contacting us.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-3 bg-muted rounded-lg">
+            <div className="flex items-center gap-2 text-sm">
+              <KeyRound className="h-4 w-4" />
+              {holderKey ? (
+                <span>
+                  Presentation key: <code className="text-xs">{holderKey.keyId.split('#')[1]}</code>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">No presentation key on this device</span>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant={holderKey ? 'outline' : 'default'}
+              onClick={handleCreateKey}
+              disabled={creatingKey}
+            >
+              {creatingKey ? 'Creating...' : holderKey ? 'Replace Key' : 'Create Key'}
+            </Button>
+          </div>
+
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading credentials...</p>
+          ) : walletCredentials.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No credentials have been issued to you yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Type</TableHead>
+                  <TableHead>Claims</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-10" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {walletCredentials.map(credential => {
+                  const state = VerifiableCredentialManager.stateOf(credential);
+                  const status = STATUS_BADGES[state];
+                  return (
+                    <TableRow key={credential.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected.includes(credential.id)}
+                          disabled={state !== 'active'}
+                          onCheckedChange={(checked) => toggleSelected(credential.id, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">{credential.type}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(credential.claims).map(([claim, value]) => (
+                            <Badge key={claim} variant="outline" className="text-xs">
+                              {claim}: {String(value)}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(credential.expiresAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button size="icon" variant="ghost" onClick={() => downloadCredential(credential)}>
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Present Credentials
+          </CardTitle>
+          <CardDescription>
+            Sign the selected credentials for a verifier. The presentation only verifies for their challenge and domain.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vp-domain">Verifier Domain</Label>
+              <Input id="vp-domain" placeholder="partner.example.com" value={domain} onChange={(e) => setDomain(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="vp-challenge">Challenge</Label>
+              <Input id="vp-challenge" placeholder="Provided by the verifier" value={challenge} onChange={(e) => setChallenge(e.target.value)} />
+            </div>
+          </div>
+          <Button
+            onClick={handlePresent}
+            disabled={!holderKey || selection.length === 0 || !domain.trim() || !challenge.trim()}
+          >
+            Sign Presentation ({selection.length})
+          </Button>
+          {!holderKey && (
+            <p className="text-xs text-muted-foreground">Create a presentation key first.</p>
+          )}
+
+          {presentation && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Verifiable Presentation</Label>
+                <Button size="sm" variant="outline" onClick={copyPresentation}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy
+                </Button>
+              </div>
+              <Textarea readOnly value={presentation} className="font-mono text-xs h-48" />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
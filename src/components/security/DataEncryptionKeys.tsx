@@ -0,0 +1,293 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useDataEncryptionKeys } from '@/hooks/useDataEncryptionKeys';
+import { useToast } from '@/hooks/use-toast';
+import { BlindIndexName } from '@/lib/pqc-database-encryption';
+import { Database, RotateCcw, RefreshCw, Search } from 'lucide-react';
+
+export function DataEncryptionKeys() {
+  const {
+    status,
+    lastReport,
+    lastIndexReport,
+    loading,
+    working,
+    rotateRootKey,
+    rotateTableKey,
+    runReencryption,
+    rotateIndexKey,
+    rebuildIndexes
+  } = useDataEncryptionKeys();
+  const { toast } = useToast();
+
+  const activeRoot = status?.rootKeys.find(root => root.status === 'active');
+  const retiredRoots = status?.rootKeys.filter(root => root.status === 'retired') || [];
+
+  const handleRotateRoot = async () => {
+    try {
+      await rotateRootKey();
+      toast({
+        title: "Root Key Rotated",
+        description: "Data keys move under the new root key as they are next used"
+      });
+    } catch (error) {
+      toast({
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Failed to rotate the root key",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRotateTable = async (table: string) => {
+    try {
+      const dataKey = await rotateTableKey(table);
+      toast({
+        title: "Data Key Rotated",
+        description: `${table} now encrypts with version ${dataKey.version}; run re-encryption to move existing fields`
+      });
+    } catch (error) {
+      toast({
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Failed to rotate the data key",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReencrypt = async () => {
+    try {
+      const report = await runReencryption();
+      toast({
+        title: report.complete ? "Re-encryption Complete" : "Re-encryption Incomplete",
+        description: `${report.reencrypted} fields re-encrypted, ${report.destroyedDataKeys} retired data keys destroyed`,
+        variant: report.failed > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Re-encryption Failed",
+        description: error instanceof Error ? error.message : "Failed to re-encrypt fields",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRotateIndex = async (index: BlindIndexName) => {
+    try {
+      const indexKey = await rotateIndexKey(index);
+      toast({
+        title: "Index Key Rotated",
+        description: `${index} now indexes with version ${indexKey.version}; ${indexKey.queued} rows queued for re-indexing`
+      });
+    } catch (error) {
+      toast({
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Failed to rotate the index key",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRebuildIndexes = async () => {
+    try {
+      const report = await rebuildIndexes();
+      toast({
+        title: report.complete ? "Indexes Rebuilt" : "Index Rebuild Incomplete",
+        description: `${report.indexed} rows indexed, ${report.destroyedIndexKeys} retired index keys destroyed`,
+        variant: report.failed > 0 ? "destructive" : "default"
+      });
+    } catch (error) {
+      toast({
+        title: "Rebuild Failed",
+        description: error instanceof Error ? error.message : "Failed to rebuild blind indexes",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Database className="h-5 w-5" />
+              Data Encryption Keys
+            </CardTitle>
+            <CardDescription>
+              Sensitive columns are encrypted with data keys wrapped by an ML-KEM-1024 root key
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleReencrypt} disabled={working}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Re-encrypt Now
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" disabled={working}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Rotate Root Key
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Rotate Root Key</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    A new ML-KEM-1024 root key replaces the current one. Data keys are rewrapped as they
+                    are used, and the old root key is destroyed once no data key depends on it.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleRotateRoot}>Rotate</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading key hierarchy...</p>
+        ) : !status ? (
+          <p className="text-sm text-muted-foreground">The key vault is not available.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="text-center">
+                <p className="text-sm font-mono">{activeRoot ? `${activeRoot.id.slice(0, 8)}...` : '—'}</p>
+                <p className="text-sm text-muted-foreground">
+                  Root key{activeRoot ? ` since ${new Date(activeRoot.createdAt).toLocaleDateString()}` : ''}
+                </p>
+              </div>
+              <div className="text-center">
+                <p className="text-2xl font-bold">{retiredRoots.reduce((n, root) => n + root.dataKeys, 0)}</p>
+                <p className="text-sm text-muted-foreground">Data keys awaiting rewrap</p>
+              </div>
+              <div className="text-center">
+                <p className="text-2xl font-bold">{status.dataKeys.filter(k => k.scope === 'user' && k.status === 'active').length}</p>
+                <p className="text-sm text-muted-foreground">User data keys</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Data Key</TableHead>
+                  <TableHead>Fields</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {status.columns.map(column => {
+                  const dataKey = status.dataKeys.find(k => k.scope === 'table' && k.scopeId === column.table && k.status === 'active');
+                  return (
+                    <TableRow key={`${column.table}.${column.column}`}>
+                      <TableCell className="font-mono text-xs">{column.table}.{column.column}</TableCell>
+                      <TableCell>{dataKey ? `Version ${dataKey.version}` : '—'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant="default">{column.current} current</Badge>
+                          {column.stale > 0 && <Badge variant="secondary">{column.stale} on older keys</Badge>}
+                          {column.legacy > 0 && <Badge variant="outline">{column.legacy} legacy</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => handleRotateTable(column.table)} disabled={working}>
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Rotate Key
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {status.columns.some(c => c.legacy > 0) && (
+              <p className="text-xs text-muted-foreground">
+                Legacy fields predate envelope encryption and are migrated when they are next read with their original key.
+              </p>
+            )}
+
+            {lastReport && (
+              <p className="text-sm text-muted-foreground">
+                Last run: {lastReport.reencrypted} re-encrypted, {lastReport.failed} failed,{' '}
+                {lastReport.destroyedDataKeys} data keys and {lastReport.destroyedRootKeys} root keys destroyed
+                {lastReport.complete ? '' : ' (more to do)'}
+              </p>
+            )}
+
+            <div className="flex items-center justify-between pt-2">
+              <div>
+                <h4 className="font-medium flex items-center gap-2">
+                  <Search className="h-4 w-4" />
+                  Blind Indexes
+                </h4>
+                <p className="text-sm text-muted-foreground">
+                  Keyed HMAC tokens that keep encrypted columns searchable
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleRebuildIndexes} disabled={working}>
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Rebuild Now
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Index Key</TableHead>
+                  <TableHead>Search</TableHead>
+                  <TableHead>Queue</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {status.indexes.map(index => (
+                  <TableRow key={index.index}>
+                    <TableCell className="font-mono text-xs">{index.index}</TableCell>
+                    <TableCell>
+                      {index.keyVersion ? `Version ${index.keyVersion}` : '—'}
+                      {index.retiredKeys > 0 && (
+                        <Badge variant="secondary" className="ml-2">{index.retiredKeys} retiring</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {index.modes.map(mode => (
+                          <Badge key={mode} variant="outline">{mode}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{index.queued > 0 ? `${index.queued} rows` : 'Up to date'}</TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => handleRotateIndex(index.index)} disabled={working}>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Rotate Key
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {lastIndexReport && (
+              <p className="text-sm text-muted-foreground">
+                Last rebuild: {lastIndexReport.indexed} indexed, {lastIndexReport.removed} removed, {lastIndexReport.failed} failed,{' '}
+                {lastIndexReport.destroyedIndexKeys} index keys destroyed
+                {lastIndexReport.complete ? '' : ' (more to do)'}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
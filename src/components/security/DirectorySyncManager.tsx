@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { useDirectorySync } from "@/hooks/useDirectorySync";
+import { DirectorySyncEngine, DirectoryType } from "@/lib/directory-sync";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FolderSync, Plus, RefreshCw, Eye } from "lucide-react";
+
+const EMPTY_FORM = {
+  name: '',
+  directory_type: 'active_directory' as DirectoryType,
+  connection_string: '',
+  bind_dn: '',
+  password: '',
+  sync_interval_hours: 24
+};
+
+export function DirectorySyncManager() {
+  const { integrations, lastResult, loading, syncing, createIntegration, toggleSync, runSync, syncDue } = useDirectorySync();
+  const [passphrase, setPassphrase] = useState('');
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+
+  const handleCreate = async () => {
+    if (!form) return;
+
+    const created = await createIntegration(
+      {
+        name: form.name,
+        directory_type: form.directory_type,
+        connection_string: form.connection_string,
+        sync_enabled: true,
+        sync_interval_hours: form.sync_interval_hours,
+        attribute_mappings: {}
+      },
+      { bind_dn: form.bind_dn, password: form.password }
+    );
+
+    if (created) {
+      setForm(null);
+    }
+  };
+
+  if (loading) {
+    return <div>Loading directory integrations...</div>;
+  }
+
+  const plan = lastResult?.plan;
+  const needsPassphrase = (integration: typeof integrations[number]) =>
+    DirectorySyncEngine.hasLegacyBindCredentials(integration) && !passphrase;
+  const hasLegacyCredentials = integrations.some(i => DirectorySyncEngine.hasLegacyBindCredentials(i));
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FolderSync className="h-5 w-5" />
+              Directory Sync (LDAP / Active Directory)
+            </CardTitle>
+            <CardDescription>
+              Keep accounts, groups and memberships in step with your directory. Every created, changed or
+              disabled identity is recorded as a lifecycle event.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" disabled={syncing} onClick={() => syncDue(passphrase || undefined)}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Sync Due
+            </Button>
+            <Button onClick={() => setForm(EMPTY_FORM)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Directory
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {hasLegacyCredentials && (
+          <div className="space-y-2 max-w-md">
+            <Label htmlFor="directory-passphrase">Credentials passphrase</Label>
+            <Input
+              id="directory-passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Unlocks bind credentials stored before envelope encryption"
+            />
+            <p className="text-xs text-muted-foreground">
+              Directories marked as legacy are moved to envelope encryption the next time they sync.
+            </p>
+          </div>
+        )}
+
+        {integrations.length === 0 && (
+          <p className="text-sm text-muted-foreground">No directories configured.</p>
+        )}
+
+        {integrations.map((integration) => (
+          <div key={integration.id} className="flex items-center justify-between border rounded-lg p-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <h3 className="font-semibold">{integration.name}</h3>
+                <Badge variant="outline">{integration.directory_type.replace('_', ' ')}</Badge>
+                {!integration.is_active && <Badge variant="secondary">Inactive</Badge>}
+                {DirectorySyncEngine.hasLegacyBindCredentials(integration) && <Badge variant="secondary">Legacy credentials</Badge>}
+              </div>
+              <p className="text-sm text-muted-foreground font-mono">{integration.connection_string}</p>
+              <p className="text-xs text-muted-foreground">
+                Every {integration.sync_interval_hours}h · Last sync:{' '}
+                {integration.last_sync_at ? new Date(integration.last_sync_at).toLocaleString() : 'never'}
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={integration.sync_enabled}
+                onCheckedChange={(checked) => toggleSync(integration.id, checked)}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={needsPassphrase(integration) || syncing}
+                onClick={() => runSync(integration.id, true, passphrase || undefined)}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                Preview
+              </Button>
+              <Button
+                size="sm"
+                disabled={needsPassphrase(integration) || syncing}
+                onClick={() => runSync(integration.id, false, passphrase || undefined)}
+              >
+                <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                Sync Now
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {lastResult && (
+          <div className="border rounded-lg p-4 space-y-3">
+            <div className="flex items-center gap-2">
+              <h4 className="font-semibold">{lastResult.dryRun ? 'Sync preview' : 'Last sync'}</h4>
+              <Badge variant={lastResult.success ? "default" : "destructive"}>
+                {lastResult.success ? "OK" : "Errors"}
+              </Badge>
+            </div>
+            <p className="text-sm">{lastResult.message}</p>
+            {plan && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+                <div>Create: {plan.usersToCreate.length}</div>
+                <div>Link: {plan.usersToLink.length}</div>
+                <div>Update: {plan.usersToUpdate.length}</div>
+                <div>Disable: {plan.usersToDisable.length}</div>
+                <div>Re-enable: {plan.usersToEnable.length}</div>
+                <div>Groups: {plan.groupsToCreate.length + plan.groupsToUpdate.length}</div>
+                <div>Memberships +{plan.membershipsToAdd.length} / -{plan.membershipsToRemove.length}</div>
+                <div>Unchanged: {plan.unchangedUsers}</div>
+              </div>
+            )}
+            {plan && plan.usersToDisable.length > 0 && (
+              <div className="text-sm">
+                <Label>Accounts to disable</Label>
+                <ul className="list-disc ml-5">
+                  {plan.usersToDisable.map((u) => (
+                    <li key={u.userId}>
+                      {u.email} <span className="text-muted-foreground">({u.reason.replace(/_/g, ' ')})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {lastResult.errors.length > 0 && (
+              <ul className="text-sm text-destructive list-disc ml-5">
+                {lastResult.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Directory</DialogTitle>
+            <DialogDescription>
+              The base DN is taken from the connection string path, e.g. ldaps://dc01.corp.example/dc=corp,dc=example.
+              Use memory://&lt;name&gt;/&lt;base dn&gt; for a registered in-memory test directory.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="directory-name">Name</Label>
+                <Input id="directory-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label>Directory type</Label>
+                <Select
+                  value={form.directory_type}
+                  onValueChange={(value) => setForm({ ...form, directory_type: value as DirectoryType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="active_directory">Active Directory</SelectItem>
+                    <SelectItem value="ldap">LDAP (OpenLDAP, 389-ds)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="directory-url">Connection string</Label>
+                <Input
+                  id="directory-url"
+                  value={form.connection_string}
+                  onChange={(e) => setForm({ ...form, connection_string: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="directory-bind-dn">Bind DN</Label>
+                  <Input id="directory-bind-dn" value={form.bind_dn} onChange={(e) => setForm({ ...form, bind_dn: e.target.value })} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="directory-bind-password">Bind password</Label>
+                  <Input
+                    id="directory-bind-password"
+                    type="password"
+                    value={form.password}
+                    onChange={(e) => setForm({ ...form, password: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="directory-interval">Sync interval (hours)</Label>
+                <Input
+                  id="directory-interval"
+                  type="number"
+                  min={1}
+                  value={form.sync_interval_hours}
+                  onChange={(e) => setForm({ ...form, sync_interval_hours: parseInt(e.target.value) || 24 })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!form?.name || !form?.connection_string}>
+              Add Directory
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
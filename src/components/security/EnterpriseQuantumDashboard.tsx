@@ -59,7 +59,7 @@ export function EnterpriseQuantumDashboard() {
 
   const handleRequestCertificate = async () => {
     try {
-      await requestCertificate('identity', `CN=${user?.email}`, 365);
+      await requestCertificate('identity', user?.email || 'Quantum IAM user', 365);
     } catch (error) {
       console.error('Error requesting certificate:', error);
     }
@@ -0,0 +1,423 @@
+import { useState } from "react";
+import { useFederation } from "@/hooks/useFederation";
+import { FederationProtocol, FederationProvider, SystemRole } from "@/lib/federation-service";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Building2, Check, FlaskConical, Plus, Settings, Trash2 } from "lucide-react";
+
+interface ProviderForm {
+  id?: string;
+  name: string;
+  provider_type: FederationProtocol;
+  metadata_url: string;
+  metadata: string;
+  certificate: string;
+  audience: string;
+  verified_domains: string;
+  auto_provisioning: boolean;
+  attribute_mappings: string;
+}
+
+const EMPTY_FORM: ProviderForm = {
+  name: '',
+  provider_type: 'saml',
+  metadata_url: '',
+  metadata: '',
+  certificate: '',
+  audience: '',
+  verified_domains: '',
+  auto_provisioning: true,
+  attribute_mappings: '{}'
+};
+
+export function FederationProviderManager() {
+  const {
+    providers,
+    roleMappings,
+    pendingLinks,
+    loading,
+    saveProvider,
+    toggleProvider,
+    addRoleMapping,
+    removeRoleMapping,
+    approveLink,
+    testWithLocalIdP
+  } = useFederation();
+  const [form, setForm] = useState<ProviderForm | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [mappingDraft, setMappingDraft] = useState<Record<string, { key: string; value: string; role: SystemRole }>>({});
+  const [testEmail, setTestEmail] = useState('federated.user@example.com');
+  const [testGroups, setTestGroups] = useState('');
+
+  const openEditor = (provider?: FederationProvider) => {
+    setFormError(null);
+    if (!provider) {
+      setForm(EMPTY_FORM);
+      return;
+    }
+
+    const config = provider.configuration;
+    const protocol = provider.provider_type as FederationProtocol;
+    setForm({
+      id: provider.id,
+      name: provider.name,
+      provider_type: protocol,
+      metadata_url: provider.metadata_url || '',
+      metadata: protocol === 'saml'
+        ? (config.metadata_xml as string) || ''
+        : config.discovery ? JSON.stringify({ discovery: config.discovery, jwks: config.jwks }, null, 2) : '',
+      certificate: provider.certificate || '',
+      audience: ((protocol === 'saml' ? config.sp_entity_id : config.client_id) as string) || '',
+      verified_domains: Array.isArray(config.verified_domains) ? config.verified_domains.join(', ') : '',
+      auto_provisioning: provider.auto_provisioning,
+      attribute_mappings: JSON.stringify(provider.attribute_mappings, null, 2)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+
+    let configuration: Record<string, unknown>;
+    let attributeMappings: Record<string, string>;
+    const verifiedDomains = form.verified_domains.split(',').map(d => d.trim()).filter(Boolean);
+    try {
+      attributeMappings = JSON.parse(form.attribute_mappings || '{}');
+      if (form.provider_type === 'saml') {
+        configuration = {
+          sp_entity_id: form.audience,
+          verified_domains: verifiedDomains,
+          ...(form.metadata ? { metadata_xml: form.metadata } : {})
+        };
+      } else {
+        configuration = {
+          client_id: form.audience,
+          verified_domains: verifiedDomains,
+          ...(form.metadata ? JSON.parse(form.metadata) : {})
+        };
+      }
+    } catch {
+      setFormError('Attribute mappings and OIDC metadata must be valid JSON');
+      return;
+    }
+
+    setActionLoading(true);
+    const saved = await saveProvider({
+      id: form.id,
+      name: form.name,
+      provider_type: form.provider_type,
+      metadata_url: form.metadata_url || null,
+      certificate: form.certificate || null,
+      auto_provisioning: form.auto_provisioning,
+      attribute_mappings: attributeMappings,
+      configuration
+    });
+    setActionLoading(false);
+
+    if (saved) {
+      setForm(null);
+    }
+  };
+
+  const handleAddMapping = async (providerName: string) => {
+    const draft = mappingDraft[providerName];
+    if (!draft?.key || !draft?.value) return;
+
+    const success = await addRoleMapping(providerName, draft.key, draft.value, draft.role);
+    if (success) {
+      setMappingDraft(prev => ({ ...prev, [providerName]: { key: '', value: '', role: 'user' } }));
+    }
+  };
+
+  const handleTest = async (provider: FederationProvider) => {
+    setActionLoading(true);
+    await testWithLocalIdP(provider.id, {
+      subject: testEmail,
+      email: testEmail,
+      name: testEmail.split('@')[0],
+      groups: testGroups.split(',').map(g => g.trim()).filter(Boolean)
+    });
+    setActionLoading(false);
+  };
+
+  const updateDraft = (providerName: string, patch: Partial<{ key: string; value: string; role: SystemRole }>) => {
+    setMappingDraft(prev => ({
+      ...prev,
+      [providerName]: { key: '', value: '', role: 'user', ...prev[providerName], ...patch }
+    }));
+  };
+
+  if (loading) {
+    return <div>Loading federation providers...</div>;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Building2 className="h-5 w-5" />
+              Enterprise Federation (SAML 2.0 / OIDC)
+            </CardTitle>
+            <CardDescription>
+              Trust external identity providers, map their claims to roles and provision accounts on first login.
+              Each federated session is recorded with an ML-DSA signature over the asserted claims.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openEditor()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Provider
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="test-email">Local IdP test user</Label>
+            <Input id="test-email" value={testEmail} onChange={(e) => setTestEmail(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="test-groups">Test groups (comma separated)</Label>
+            <Input id="test-groups" value={testGroups} onChange={(e) => setTestGroups(e.target.value)} placeholder="engineering, security-admins" />
+          </div>
+        </div>
+
+        {providers.length === 0 && (
+          <p className="text-sm text-muted-foreground">No SAML or OIDC providers configured.</p>
+        )}
+
+        {providers.map((provider) => {
+          const draft = mappingDraft[provider.name] || { key: '', value: '', role: 'user' as SystemRole };
+
+          return (
+            <div key={provider.id} className="border rounded-lg p-4 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <h3 className="font-semibold">{provider.name}</h3>
+                  <Badge variant="outline">{provider.provider_type.toUpperCase()}</Badge>
+                  {provider.auto_provisioning && <Badge variant="secondary">JIT provisioning</Badge>}
+                  <Badge variant={provider.is_enabled ? "default" : "secondary"}>
+                    {provider.is_enabled ? "Enabled" : "Disabled"}
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={provider.is_enabled}
+                    onCheckedChange={(checked) => toggleProvider(provider.id, checked)}
+                  />
+                  <Button variant="outline" size="sm" onClick={() => openEditor(provider)}>
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!provider.is_enabled || actionLoading}
+                    onClick={() => handleTest(provider)}
+                  >
+                    <FlaskConical className="h-4 w-4 mr-2" />
+                    Test with local IdP
+                  </Button>
+                </div>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label>Role mappings</Label>
+                {(roleMappings[provider.name] || []).map((mapping) => (
+                  <div key={mapping.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      <code>{mapping.provider_claim_key}</code> = <code>{mapping.provider_claim_value}</code>
+                      {' → '}
+                      <Badge variant="outline">{mapping.mapped_role}</Badge>
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => removeRoleMapping(provider.name, mapping.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Claim (e.g. groups, email)"
+                    value={draft.key}
+                    onChange={(e) => updateDraft(provider.name, { key: e.target.value })}
+                  />
+                  <Input
+                    placeholder="Value (e.g. admins, @corp.com)"
+                    value={draft.value}
+                    onChange={(e) => updateDraft(provider.name, { value: e.target.value })}
+                  />
+                  <Select value={draft.role} onValueChange={(role) => updateDraft(provider.name, { role: role as SystemRole })}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="user">user</SelectItem>
+                      <SelectItem value="moderator">moderator</SelectItem>
+                      <SelectItem value="admin">admin</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => handleAddMapping(provider.name)}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {pendingLinks.some(link => link.provider_id === provider.id) && (
+                <div className="space-y-2">
+                  <Label>Account links awaiting approval</Label>
+                  {pendingLinks.filter(link => link.provider_id === provider.id).map((link) => (
+                    <div key={link.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        <code>{link.subject}</code>
+                        {link.email && <> ({link.email})</>}
+                        {' → account '}
+                        <code>{link.user_id}</code>
+                      </span>
+                      <Button variant="outline" size="sm" onClick={() => approveLink(link.id)}>
+                        <Check className="h-4 w-4 mr-2" />
+                        Approve
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{form?.id ? 'Edit' : 'Add'} Federation Provider</DialogTitle>
+            <DialogDescription>
+              Metadata is parsed and validated before the provider is saved.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="provider-name">Name</Label>
+                  <Input
+                    id="provider-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Protocol</Label>
+                  <Select
+                    value={form.provider_type}
+                    onValueChange={(value) => setForm({ ...form, provider_type: value as FederationProtocol })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="saml">SAML 2.0</SelectItem>
+                      <SelectItem value="oidc">OpenID Connect</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-audience">
+                  {form.provider_type === 'saml' ? 'SP entity ID (audience)' : 'Client ID'}
+                </Label>
+                <Input
+                  id="provider-audience"
+                  value={form.audience}
+                  onChange={(e) => setForm({ ...form, audience: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-verified-domains">Verified email domains (comma separated)</Label>
+                <Input
+                  id="provider-verified-domains"
+                  value={form.verified_domains}
+                  onChange={(e) => setForm({ ...form, verified_domains: e.target.value })}
+                  placeholder="corp.example.com"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Accounts are linked or provisioned only for emails the IdP vouches for: one of these domains
+                  {form.provider_type === 'oidc' ? ', or email_verified when none are set' : ''}. Other links need approval.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-metadata-url">
+                  {form.provider_type === 'saml' ? 'Metadata URL' : 'Discovery URL (.well-known/openid-configuration)'}
+                </Label>
+                <Input
+                  id="provider-metadata-url"
+                  value={form.metadata_url}
+                  onChange={(e) => setForm({ ...form, metadata_url: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="provider-metadata">
+                  {form.provider_type === 'saml'
+                    ? 'Or paste EntityDescriptor XML'
+                    : 'Or paste {"discovery": {...}, "jwks": {...}}'}
+                </Label>
+                <Textarea
+                  id="provider-metadata"
+                  rows={5}
+                  className="font-mono text-xs"
+                  value={form.metadata}
+                  onChange={(e) => setForm({ ...form, metadata: e.target.value })}
+                />
+              </div>
+              {form.provider_type === 'saml' && (
+                <div className="space-y-2">
+                  <Label htmlFor="provider-certificate">Pinned signing certificate (optional)</Label>
+                  <Textarea
+                    id="provider-certificate"
+                    rows={3}
+                    className="font-mono text-xs"
+                    value={form.certificate}
+                    onChange={(e) => setForm({ ...form, certificate: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="provider-attributes">Attribute mappings (email, full_name, groups)</Label>
+                <Textarea
+                  id="provider-attributes"
+                  rows={3}
+                  className="font-mono text-xs"
+                  value={form.attribute_mappings}
+                  onChange={(e) => setForm({ ...form, attribute_mappings: e.target.value })}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={form.auto_provisioning}
+                  onCheckedChange={(checked) => setForm({ ...form, auto_provisioning: checked })}
+                />
+                <Label>Provision accounts just-in-time on first login</Label>
+              </div>
+              {formError && <p className="text-sm text-destructive">{formError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={actionLoading || !form?.name}>
+              {actionLoading ? 'Validating...' : 'Save Provider'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
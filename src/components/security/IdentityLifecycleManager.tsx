@@ -0,0 +1,340 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useIdentityLifecycle } from "@/hooks/useIdentityLifecycle";
+import { useUserGroups } from "@/hooks/useUserGroups";
+import { LifecycleEventType, LifecycleParams, SystemRole, WorkflowStep } from "@/lib/identity-lifecycle";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Play, RotateCcw, SkipForward, UserCog, XCircle } from "lucide-react";
+
+interface ProfileOption {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+}
+
+const EMPTY_FORM = {
+  userId: '',
+  eventType: 'leaver' as LifecycleEventType,
+  role: '' as SystemRole | '',
+  groupId: '',
+  reason: '',
+  requireApproval: false
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  in_progress: "secondary",
+  completed: "default",
+  failed: "destructive"
+};
+
+function StepIcon({ step }: { step: WorkflowStep }) {
+  if (step.status === 'completed') return <CheckCircle className="h-4 w-4 text-green-600" />;
+  if (step.status === 'failed') return <XCircle className="h-4 w-4 text-destructive" />;
+  if (step.status === 'skipped') return <SkipForward className="h-4 w-4 text-muted-foreground" />;
+  return <div className="h-4 w-4 rounded-full border" />;
+}
+
+export function IdentityLifecycleManager() {
+  const {
+    workflows,
+    residualAccess,
+    loading,
+    running,
+    startWorkflow,
+    approveWorkflow,
+    resumeWorkflow,
+    skipStep
+  } = useIdentityLifecycle();
+  const { groups } = useUserGroups();
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('user_id, email, full_name')
+      .order('email')
+      .then(({ data }) => setProfiles(data || []));
+  }, []);
+
+  const emailFor = (userId: string) => profiles.find(p => p.user_id === userId)?.email || userId;
+
+  const handleStart = async () => {
+    if (!form?.userId) return;
+
+    let params: LifecycleParams;
+    if (form.eventType === 'leaver') {
+      params = { reason: form.reason || 'Offboarding' };
+    } else if (form.eventType === 'mover') {
+      params = {
+        ...(form.role ? { role: form.role } : {}),
+        ...(form.groupId ? { addGroupIds: [form.groupId] } : {})
+      };
+    } else {
+      params = {
+        ...(form.role ? { role: form.role } : {}),
+        ...(form.groupId ? { groupIds: [form.groupId] } : {})
+      };
+    }
+
+    const result = await startWorkflow(form.userId, form.eventType, params, form.requireApproval);
+    if (result) {
+      setForm(null);
+    }
+  };
+
+  if (loading && workflows.length === 0) {
+    return <div>Loading lifecycle workflows...</div>;
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <UserCog className="h-5 w-5" />
+              Identity Lifecycle (Joiner / Mover / Leaver)
+            </CardTitle>
+            <CardDescription>
+              Onboarding, role changes and offboarding run as step-by-step workflows. Failed steps can be
+              retried without repeating the ones that already succeeded.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setForm(EMPTY_FORM)}>
+            <Play className="h-4 w-4 mr-2" />
+            Start Workflow
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="workflows">
+          <TabsList>
+            <TabsTrigger value="workflows">Workflows</TabsTrigger>
+            <TabsTrigger value="residual">
+              Residual Access
+              {residualAccess.length > 0 && (
+                <Badge variant="destructive" className="ml-2">{residualAccess.length}</Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="workflows" className="space-y-4">
+            {workflows.length === 0 && (
+              <p className="text-sm text-muted-foreground">No lifecycle workflows yet.</p>
+            )}
+
+            {workflows.map((workflow) => (
+              <div key={workflow.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <h3 className="font-semibold capitalize">{workflow.event_type}</h3>
+                      <Badge variant={STATUS_VARIANTS[workflow.event_status] || "outline"}>
+                        {workflow.event_status.replace('_', ' ')}
+                      </Badge>
+                      <Badge variant="outline">{workflow.triggered_by}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {emailFor(workflow.user_id)} · {new Date(workflow.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {workflow.event_status === 'pending' && !workflow.approver_id && (
+                      <Button size="sm" disabled={running} onClick={() => approveWorkflow(workflow.id)}>
+                        Approve &amp; Run
+                      </Button>
+                    )}
+                    {(workflow.event_status === 'failed' || workflow.event_status === 'in_progress') && (
+                      <Button size="sm" variant="outline" disabled={running} onClick={() => resumeWorkflow(workflow.id)}>
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Resume
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <ul className="space-y-1">
+                  {workflow.workflow_data.steps.map((step) => (
+                    <li key={step.id} className="flex items-center justify-between text-sm">
+                      <div className="flex items-center gap-2">
+                        <StepIcon step={step} />
+                        <span>{step.name}</span>
+                        {step.result && step.status === 'completed' && (
+                          <span className="text-xs text-muted-foreground font-mono">
+                            {Object.entries(step.result)
+                              .filter(([, value]) => typeof value === 'number')
+                              .map(([key, value]) => `${key.replace(/_/g, ' ')}: ${value}`)
+                              .join(', ')}
+                          </span>
+                        )}
+                        {step.error && <span className="text-xs text-destructive">{step.error}</span>}
+                      </div>
+                      {step.status === 'failed' && (
+                        <Button size="sm" variant="ghost" onClick={() => skipStep(workflow.id, step.id)}>
+                          Skip
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="residual" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Disabled accounts that still hold sessions, API keys, JIT grants, privileged sessions, group
+              memberships or quantum permissions.
+            </p>
+
+            {residualAccess.length === 0 && (
+              <p className="text-sm text-muted-foreground">No residual access found.</p>
+            )}
+
+            {residualAccess.map((residual) => (
+              <div key={residual.userId} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="h-4 w-4 text-destructive" />
+                    <h3 className="font-semibold">{residual.email}</h3>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Disabled {new Date(residual.disabledAt).toLocaleString()} · Sessions: {residual.activeSessions} ·
+                    API keys: {residual.activeApiKeys} · JIT: {residual.activeJitGrants} · Privileged:{' '}
+                    {residual.openPrivilegedSessions} · Groups: {residual.groupMemberships} · Quantum:{' '}
+                    {residual.activeQuantumPermissions}
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  disabled={running}
+                  onClick={() => startWorkflow(
+                    residual.userId,
+                    'leaver',
+                    { reason: 'Residual access after account was disabled', disableAccount: false }
+                  )}
+                >
+                  Offboard
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Start Lifecycle Workflow</DialogTitle>
+            <DialogDescription>
+              Offboarding disables the account and revokes sessions, API keys, JIT access, privileged sessions,
+              group memberships and quantum permissions.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>User</Label>
+                <Select value={form.userId} onValueChange={(value) => setForm({ ...form, userId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {profiles.map((profile) => (
+                      <SelectItem key={profile.user_id} value={profile.user_id}>
+                        {profile.full_name ? `${profile.full_name} (${profile.email})` : profile.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Workflow</Label>
+                <Select
+                  value={form.eventType}
+                  onValueChange={(value) => setForm({ ...form, eventType: value as LifecycleEventType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="joiner">Joiner (onboarding)</SelectItem>
+                    <SelectItem value="mover">Mover (role change)</SelectItem>
+                    <SelectItem value="leaver">Leaver (offboarding)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.eventType === 'leaver' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="lifecycle-reason">Reason</Label>
+                  <Input
+                    id="lifecycle-reason"
+                    value={form.reason}
+                    onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                    placeholder="e.g. Resigned, contract ended"
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>{form.eventType === 'mover' ? 'New role' : 'Role'}</Label>
+                    <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as SystemRole })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Keep current" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="user">User</SelectItem>
+                        <SelectItem value="moderator">Moderator</SelectItem>
+                        <SelectItem value="admin">Admin</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Add to group</Label>
+                    <Select value={form.groupId} onValueChange={(value) => setForm({ ...form, groupId: value })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="None" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {groups.map((group) => (
+                          <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="lifecycle-approval"
+                  checked={form.requireApproval}
+                  onCheckedChange={(checked) => setForm({ ...form, requireApproval: checked })}
+                />
+                <Label htmlFor="lifecycle-approval">Require approval before running</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleStart} disabled={!form?.userId || running}>
+              Start
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+import { useKeyRotation } from "@/hooks/useKeyRotation";
+
+/**
+ * Runs the key rotation scheduler in the background while a user is signed in
+ */
+export function KeyRotationWatcher() {
+  useKeyRotation({ schedule: true });
+  return null;
+}
@@ -1,41 +1,77 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
-import { useQuantumPKI } from '@/hooks/useQuantumPKI';
+import { useQuantumPKI, CertificateType } from '@/hooks/useQuantumPKI';
 import { useToast } from '@/hooks/use-toast';
-import { Shield, Plus, Trash2, RefreshCw, Download, Key, Calendar, CheckCircle, XCircle } from 'lucide-react';
+import { RevocationReason, SignatureAlgorithm } from '@/lib/x509';
+import { CertificateAuthorities } from './CertificateAuthorities';
+import { AcmeExternalAccounts } from './AcmeExternalAccounts';
+import { Shield, Plus, Trash2, RefreshCw, Download, Upload, Key, Calendar, CheckCircle, XCircle } from 'lucide-react';
 
 interface CertificateRequest {
-  certificateType: 'signing' | 'encryption' | 'authentication';
+  certificateType: CertificateType;
   validityDays: number;
-  keySize: 2048 | 3072 | 4096;
+  algorithm: SignatureAlgorithm;
   subject: string;
 }
 
+const SIGNATURE_ALGORITHMS: { value: SignatureAlgorithm; label: string }[] = [
+  { value: 'ML-DSA-44', label: 'ML-DSA-44 (Category 2)' },
+  { value: 'ML-DSA-65', label: 'ML-DSA-65 (Category 3)' },
+  { value: 'ML-DSA-87', label: 'ML-DSA-87 (Category 5)' },
+  { value: 'MLDSA65-ECDSA-P256-SHA512', label: 'Composite ML-DSA-65 + ECDSA P-256' }
+];
+
+const REVOCATION_REASONS: { value: RevocationReason; label: string }[] = [
+  { value: 'unspecified', label: 'Unspecified' },
+  { value: 'keyCompromise', label: 'Key compromise' },
+  { value: 'affiliationChanged', label: 'Affiliation changed' },
+  { value: 'superseded', label: 'Superseded' },
+  { value: 'cessationOfOperation', label: 'Cessation of operation' }
+];
+
 export function QuantumCertificateManager() {
-  const { certificates, loading, requestCertificate, revokeCertificate, exportCertificate } = useQuantumPKI();
+  const {
+    certificates,
+    authorities,
+    isAdmin,
+    loading,
+    requestCertificate,
+    revokeCertificate,
+    removeCertificate,
+    exportCertificate,
+    importCertificate,
+    createCertificateAuthority
+  } = useQuantumPKI();
   const { toast } = useToast();
   const [isRequestDialogOpen, setIsRequestDialogOpen] = useState(false);
   const [certificateRequest, setCertificateRequest] = useState<CertificateRequest>({
     certificateType: 'signing',
     validityDays: 365,
-    keySize: 2048,
+    algorithm: 'ML-DSA-65',
     subject: ''
   });
+  const [revocationReason, setRevocationReason] = useState<RevocationReason>('unspecified');
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [importBundle, setImportBundle] = useState('');
+  const [importType, setImportType] = useState<CertificateType>('identity');
+  const [importErrors, setImportErrors] = useState<string[]>([]);
 
   const handleRequestCertificate = async () => {
     try {
       await requestCertificate(
         certificateRequest.certificateType,
         certificateRequest.subject,
-        certificateRequest.validityDays
+        certificateRequest.validityDays,
+        certificateRequest.algorithm
       );
       
       toast({
@@ -47,7 +83,7 @@ export function QuantumCertificateManager() {
       setCertificateRequest({
         certificateType: 'signing',
         validityDays: 365,
-        keySize: 2048,
+        algorithm: 'ML-DSA-65',
         subject: ''
       });
     } catch (error) {
@@ -61,7 +97,8 @@ export function QuantumCertificateManager() {
 
   const handleRevokeCertificate = async (certificateId: string) => {
     try {
-      await revokeCertificate(certificateId, 'User requested revocation');
+      await revokeCertificate(certificateId, revocationReason);
+      setRevocationReason('unspecified');
       toast({
         title: "Certificate Revoked",
         description: "The certificate has been successfully revoked"
@@ -75,16 +112,38 @@ export function QuantumCertificateManager() {
     }
   };
 
-  const handleRegenerateCertificate = async (certificateId: string, certificateType: string, subject: string) => {
+  const handleRemoveCertificate = async (certificateId: string) => {
+    try {
+      await removeCertificate(certificateId);
+      toast({
+        title: "Certificate Removed",
+        description: "The imported certificate has been removed"
+      });
+    } catch (error) {
+      toast({
+        title: "Removal Failed",
+        description: "Failed to remove certificate. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRegenerateCertificate = async (
+    certificateId: string,
+    certificateType: CertificateType,
+    subject: string,
+    keyAlgorithm: string
+  ) => {
     try {
       // First revoke the old certificate
-      await revokeCertificate(certificateId, 'Certificate regenerated');
+      await revokeCertificate(certificateId, 'superseded');
       
       // Generate a new one with the same parameters
       await requestCertificate(
-        certificateType as 'signing' | 'encryption' | 'authentication',
+        certificateType,
         subject,
-        365 // Default 1 year validity
+        365, // Default 1 year validity
+        SIGNATURE_ALGORITHMS.some(a => a.value === keyAlgorithm) ? keyAlgorithm as SignatureAlgorithm : 'ML-DSA-65'
       );
       
       toast({
@@ -102,20 +161,21 @@ export function QuantumCertificateManager() {
 
   const handleExportCertificate = async (certificateId: string) => {
     try {
-      const exportData = await exportCertificate(certificateId);
+      // Leaf certificate followed by its issuing CAs
+      const exportData = exportCertificate(certificateId, 'pem');
       
       // Create and download the certificate file
       const blob = new Blob([exportData], { type: 'application/x-pem-file' });
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `quantum-certificate-${certificateId.slice(0, 8)}.pem`;
+      link.download = `quantum-certificate-${certificateId.slice(0, 8)}-chain.pem`;
       link.click();
       URL.revokeObjectURL(url);
 
       toast({
         title: "Certificate Exported",
-        description: "Certificate has been downloaded to your device"
+        description: "PEM bundle with the certificate chain has been downloaded to your device"
       });
     } catch (error) {
       toast({
@@ -126,6 +186,34 @@ export function QuantumCertificateManager() {
     }
   };
 
+  const handleImportFile = async (file: File | undefined) => {
+    if (file) {
+      setImportBundle(await file.text());
+      setImportErrors([]);
+    }
+  };
+
+  const handleImportCertificate = async () => {
+    try {
+      await importCertificate(importBundle, importType);
+      toast({
+        title: "Certificate Imported",
+        description: "The certificate chains to a trusted CA and has not been revoked"
+      });
+      setIsImportDialogOpen(false);
+      setImportBundle('');
+      setImportErrors([]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Import failed';
+      setImportErrors(message.split('; '));
+      toast({
+        title: "Import Failed",
+        description: "The certificate bundle could not be validated",
+        variant: "destructive"
+      });
+    }
+  };
+
   const getCertificateStatus = (cert: any): { status: string, color: "default" | "destructive" | "secondary" | "outline" } => {
     if (cert.is_revoked) return { status: 'revoked', color: 'destructive' };
     
@@ -152,92 +240,169 @@ export function QuantumCertificateManager() {
                 Manage quantum-safe digital certificates for secure communications and authentication
               </CardDescription>
             </div>
-            <Dialog open={isRequestDialogOpen} onOpenChange={setIsRequestDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Request Certificate
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Request New Quantum Certificate</DialogTitle>
-                  <DialogDescription>
-                    Generate a new quantum-safe certificate for secure operations
-                  </DialogDescription>
-                </DialogHeader>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label>Certificate Type</Label>
-                    <Select 
-                      value={certificateRequest.certificateType}
-                      onValueChange={(value: any) => setCertificateRequest(prev => ({ ...prev, certificateType: value }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="signing">Digital Signing</SelectItem>
-                        <SelectItem value="encryption">Data Encryption</SelectItem>
-                        <SelectItem value="authentication">Authentication</SelectItem>
-                      </SelectContent>
-                    </Select>
+            <div className="flex items-center gap-2">
+              <Dialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import PEM
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Import Certificate Bundle</DialogTitle>
+                    <DialogDescription>
+                      A PEM bundle starting with the certificate, optionally followed by its intermediates. It must chain
+                      to one of our root CAs and must not be revoked.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="import-file">PEM File</Label>
+                      <Input
+                        id="import-file"
+                        type="file"
+                        accept=".pem,.crt,.cer"
+                        onChange={(e) => handleImportFile(e.target.files?.[0])}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="import-bundle">Or paste the bundle</Label>
+                      <Textarea
+                        id="import-bundle"
+                        className="font-mono text-xs h-40"
+                        placeholder="-----BEGIN CERTIFICATE-----"
+                        value={importBundle}
+                        onChange={(e) => {
+                          setImportBundle(e.target.value);
+                          setImportErrors([]);
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Certificate Type</Label>
+                      <Select value={importType} onValueChange={(value) => setImportType(value as CertificateType)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="identity">Identity</SelectItem>
+                          <SelectItem value="signing">Digital Signing</SelectItem>
+                          <SelectItem value="encryption">Data Encryption</SelectItem>
+                          <SelectItem value="authentication">Authentication</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {importErrors.length > 0 && (
+                      <ul className="list-disc pl-4 text-sm text-destructive">
+                        {importErrors.map(error => <li key={error}>{error}</li>)}
+                      </ul>
+                    )}
                   </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsImportDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleImportCertificate} disabled={!importBundle.trim()}>
+                      Validate and Import
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+              <Dialog open={isRequestDialogOpen} onOpenChange={setIsRequestDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Request Certificate
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Request New Quantum Certificate</DialogTitle>
+                    <DialogDescription>
+                      Generate a new quantum-safe certificate for secure operations
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Certificate Type</Label>
+                      <Select 
+                        value={certificateRequest.certificateType}
+                        onValueChange={(value: any) => setCertificateRequest(prev => ({ ...prev, certificateType: value }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="identity">Identity</SelectItem>
+                          <SelectItem value="signing">Digital Signing</SelectItem>
+                          <SelectItem value="encryption">Data Encryption</SelectItem>
+                          <SelectItem value="authentication">Authentication</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
                   
-                  <div className="space-y-2">
-                    <Label>Subject (Certificate Name)</Label>
-                    <Input
-                      value={certificateRequest.subject}
-                      onChange={(e) => setCertificateRequest(prev => ({ ...prev, subject: e.target.value }))}
-                      placeholder="e.g., user@company.com or Company Name"
-                    />
-                  </div>
+                    <div className="space-y-2">
+                      <Label>Subject (Certificate Name)</Label>
+                      <Input
+                        value={certificateRequest.subject}
+                        onChange={(e) => setCertificateRequest(prev => ({ ...prev, subject: e.target.value }))}
+                        placeholder="e.g., user@company.com or Company Name"
+                      />
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label>Validity Period</Label>
-                    <Select 
-                      value={certificateRequest.validityDays.toString()}
-                      onValueChange={(value) => setCertificateRequest(prev => ({ ...prev, validityDays: parseInt(value) }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="90">3 Months</SelectItem>
-                        <SelectItem value="180">6 Months</SelectItem>
-                        <SelectItem value="365">1 Year</SelectItem>
-                        <SelectItem value="730">2 Years</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                    <div className="space-y-2">
+                      <Label>Validity Period</Label>
+                      <Select 
+                        value={certificateRequest.validityDays.toString()}
+                        onValueChange={(value) => setCertificateRequest(prev => ({ ...prev, validityDays: parseInt(value) }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="90">3 Months</SelectItem>
+                          <SelectItem value="180">6 Months</SelectItem>
+                          <SelectItem value="365">1 Year</SelectItem>
+                          <SelectItem value="730">2 Years</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
 
-                  <div className="space-y-2">
-                    <Label>Key Size</Label>
-                    <Select 
-                      value={certificateRequest.keySize.toString()}
-                      onValueChange={(value) => setCertificateRequest(prev => ({ ...prev, keySize: parseInt(value) as any }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="2048">2048-bit (Standard)</SelectItem>
-                        <SelectItem value="3072">3072-bit (Enhanced)</SelectItem>
-                        <SelectItem value="4096">4096-bit (Maximum)</SelectItem>
-                      </SelectContent>
-                    </Select>
+                    <div className="space-y-2">
+                      <Label>Key Algorithm</Label>
+                      {certificateRequest.certificateType === 'encryption' ? (
+                        <p className="text-sm text-muted-foreground">
+                          Encryption certificates carry an ML-KEM-768 key
+                        </p>
+                      ) : (
+                        <Select 
+                          value={certificateRequest.algorithm}
+                          onValueChange={(value) => setCertificateRequest(prev => ({ ...prev, algorithm: value as SignatureAlgorithm }))}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SIGNATURE_ALGORITHMS.map(algorithm => (
+                              <SelectItem key={algorithm.value} value={algorithm.value}>{algorithm.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </div>
-                </div>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setIsRequestDialogOpen(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={handleRequestCertificate}>
-                    Generate Certificate
-                  </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsRequestDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleRequestCertificate} disabled={!certificateRequest.subject.trim()}>
+                      Generate Certificate
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -300,13 +465,17 @@ export function QuantumCertificateManager() {
                               <div>
                                 <p className="font-medium">{cert.subject}</p>
                                 <p className="text-sm text-muted-foreground">
-                                  Serial: {cert.serial_number?.slice(0, 16)}...
+                                  Serial: {cert.serial_number?.slice(0, 16)}... · {cert.key_algorithm}
                                 </p>
+                                <p className="text-xs text-muted-foreground">Issued by {cert.issuer}</p>
                               </div>
                             </div>
                           </TableCell>
                           <TableCell>
-                            <Badge variant="outline">{cert.certificate_type}</Badge>
+                            <div className="flex items-center gap-1">
+                              <Badge variant="outline">{cert.certificate_type}</Badge>
+                              {!cert.ca_id && <Badge variant="secondary">imported</Badge>}
+                            </div>
                           </TableCell>
                           <TableCell>
                             <div className="flex items-center gap-2">
@@ -340,17 +509,23 @@ export function QuantumCertificateManager() {
                                 <Download className="h-3 w-3" />
                               </Button>
                               
-                              {!cert.is_revoked && (
+                              {!cert.is_revoked && cert.ca_id && (
                                 <Button
                                   variant="outline"
                                   size="sm"
-                                  onClick={() => handleRegenerateCertificate(cert.id, cert.certificate_type, cert.subject)}
+                                  onClick={() => handleRegenerateCertificate(cert.id, cert.certificate_type, cert.subject, cert.key_algorithm)}
                                 >
                                   <RefreshCw className="h-3 w-3" />
                                 </Button>
                               )}
 
-                              {!cert.is_revoked && (
+                              {!cert.ca_id && (
+                                <Button variant="outline" size="sm" onClick={() => handleRemoveCertificate(cert.id)}>
+                                  <Trash2 className="h-3 w-3" />
+                                </Button>
+                              )}
+
+                              {!cert.is_revoked && cert.ca_id && (
                                 <AlertDialog>
                                   <AlertDialogTrigger asChild>
                                     <Button variant="outline" size="sm">
@@ -365,6 +540,22 @@ export function QuantumCertificateManager() {
                                         and will immediately invalidate all uses of this certificate.
                                       </AlertDialogDescription>
                                     </AlertDialogHeader>
+                                    <div className="space-y-2">
+                                      <Label>Reason</Label>
+                                      <Select
+                                        value={revocationReason}
+                                        onValueChange={(value) => setRevocationReason(value as RevocationReason)}
+                                      >
+                                        <SelectTrigger>
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                          {REVOCATION_REASONS.map(reason => (
+                                            <SelectItem key={reason.value} value={reason.value}>{reason.label}</SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                    </div>
                                     <AlertDialogFooter>
                                       <AlertDialogCancel>Cancel</AlertDialogCancel>
                                       <AlertDialogAction
@@ -389,6 +580,10 @@ export function QuantumCertificateManager() {
           </div>
         </CardContent>
       </Card>
+
+      <CertificateAuthorities authorities={authorities} isAdmin={isAdmin} onCreate={createCertificateAuthority} />
+
+      {isAdmin && <AcmeExternalAccounts authorities={authorities} />}
     </div>
   );
 }
\ No newline at end of file
@@ -1,135 +1,166 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Progress } from '@/components/ui/progress';
 import { Switch } from '@/components/ui/switch';
-import { supabase } from '@/integrations/supabase/client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DataEncryptionKeys } from '@/components/security/DataEncryptionKeys';
+import { useKeyRotation } from '@/hooks/useKeyRotation';
+import { ManagedKey } from '@/lib/key-rotation-scheduler';
 import { useToast } from '@/hooks/use-toast';
-import { RotateCcw, Clock, Key, Settings } from 'lucide-react';
+import { RotateCcw, Clock, Key, Settings, Lock, Plus, AlertTriangle } from 'lucide-react';
 
-export function QuantumKeyRotationManager() {
-  const { toast } = useToast();
-  const [rotationDays, setRotationDays] = useState(30);
-  const [autoRotationEnabled, setAutoRotationEnabled] = useState(true);
-  const [loading, setLoading] = useState(false);
-  const [lastRotation, setLastRotation] = useState<Date | null>(null);
-  const [nextRotation, setNextRotation] = useState<Date | null>(null);
+const DAY_MS = 24 * 60 * 60 * 1000;
 
-  useEffect(() => {
-    loadRotationSettings();
-  }, []);
+const KEY_TYPES = [
+  { value: 'signature', label: 'Signature keys' },
+  { value: 'kem', label: 'Key encapsulation keys' },
+  { value: 'certificate', label: 'Certificates' }
+] as const;
 
-  const loadRotationSettings = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('system_security_config')
-        .select('config_value')
-        .eq('config_key', 'quantum_key_rotation_days')
-        .single();
+type PolicyKeyType = typeof KEY_TYPES[number]['value'];
 
-      if (error && error.code !== 'PGRST116') throw error;
+export function QuantumKeyRotationManager() {
+  const {
+    policies,
+    managedKeys,
+    history,
+    report,
+    organization,
+    hasEscrowPassphrase,
+    running,
+    loading,
+    isAdmin,
+    runScheduler,
+    rotateKey,
+    setEscrowPassphrase,
+    updatePolicy,
+    createPolicy
+  } = useKeyRotation();
+  const { toast } = useToast();
+  const [passphrase, setPassphrase] = useState('');
+  const [intervals, setIntervals] = useState<Record<string, string>>({});
+  const [isPolicyDialogOpen, setIsPolicyDialogOpen] = useState(false);
+  const [newPolicy, setNewPolicy] = useState<{ name: string; keyType: PolicyKeyType; rotationIntervalDays: string }>({
+    name: '',
+    keyType: 'signature',
+    rotationIntervalDays: '90'
+  });
 
-      if (data) {
-        setRotationDays(parseInt(data.config_value as string));
-      }
+  const now = Date.now();
+  const dueKeys = managedKeys.filter(k => k.dueAt.getTime() <= now);
+  const nextDue = managedKeys.find(k => k.dueAt.getTime() > now);
+  const daysUntil = (date: Date) => Math.ceil((date.getTime() - now) / DAY_MS);
+  // Only the newest policy for a key type is enforced
+  const enforcedPolicyIds = new Set(KEY_TYPES.map(t => policies.find(p => p.keyType === t.value)?.id));
 
-      // Calculate next rotation based on last key activity
-      const now = new Date();
-      setLastRotation(new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)); // 7 days ago for demo
-      setNextRotation(new Date(now.getTime() + (rotationDays - 7) * 24 * 60 * 60 * 1000));
+  const handleRunScheduler = async () => {
+    try {
+      const result = await runScheduler();
+      toast({
+        title: "Rotation Run Complete",
+        description: `${result.rotated} rotated, ${result.missed} missed, ${result.failed} failed of ${result.checked} keys`,
+        variant: result.failed > 0 ? "destructive" : "default"
+      });
     } catch (error) {
-      console.error('Error loading rotation settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run the rotation scheduler",
+        variant: "destructive"
+      });
     }
   };
 
-  const updateRotationSettings = async () => {
-    setLoading(true);
+  const handleRotateKey = async (key: ManagedKey) => {
     try {
-      const { error } = await supabase
-        .from('system_security_config')
-        .upsert({
-          config_key: 'quantum_key_rotation_days',
-          config_value: rotationDays.toString(),
-          description: 'Automatic quantum key rotation interval in days',
-          last_modified_by: (await supabase.auth.getUser()).data.user?.id
-        });
-
-      if (error) throw error;
-
-      // Update next rotation date
-      const now = new Date();
-      setNextRotation(new Date(now.getTime() + rotationDays * 24 * 60 * 60 * 1000));
-
+      const outcome = await rotateKey(key);
+      if (outcome.status !== 'rotated') {
+        throw new Error(outcome.reason);
+      }
       toast({
-        title: "Settings Updated",
-        description: `Quantum key rotation interval set to ${rotationDays} days`
+        title: "Key Rotated",
+        description: `${key.label} was replaced${outcome.dependents.length > 0 ? ` and ${outcome.dependents.length} dependent(s) re-keyed` : ''}`
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
-        title: "Error",
-        description: error.message || "Failed to update rotation settings",
+        title: "Rotation Failed",
+        description: error instanceof Error ? error.message : "Failed to rotate the key",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const forceKeyRotation = async () => {
-    setLoading(true);
+  const handleSetPassphrase = () => {
+    setEscrowPassphrase(passphrase);
+    setPassphrase('');
+    toast({
+      title: "Escrow Passphrase Set",
+      description: "Retired keys will be escrowed with this passphrase until you sign out or reload"
+    });
+  };
+
+  const handleUpdatePolicy = async (policyId: string, changes: Parameters<typeof updatePolicy>[1]) => {
     try {
-      // In a real implementation, this would trigger quantum key rotation
-      // For demo purposes, we'll simulate the process
-      
-      // Log the rotation event
-      await supabase.rpc('log_audit_event', {
-        _action: 'ROTATE',
-        _resource: 'quantum_keys',
-        _details: { 
-          rotation_type: 'manual',
-          rotated_at: new Date().toISOString()
-        }
+      await updatePolicy(policyId, changes);
+      toast({ title: "Policy Updated" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the policy",
+        variant: "destructive"
       });
+    }
+  };
 
-      const now = new Date();
-      setLastRotation(now);
-      setNextRotation(new Date(now.getTime() + rotationDays * 24 * 60 * 60 * 1000));
-
+  const handleCreatePolicy = async () => {
+    try {
+      await createPolicy({
+        name: newPolicy.name.trim(),
+        keyType: newPolicy.keyType,
+        rotationIntervalDays: Number(newPolicy.rotationIntervalDays)
+      });
       toast({
-        title: "Key Rotation Complete",
-        description: "All quantum keys have been rotated successfully"
+        title: "Policy Created",
+        description: `${newPolicy.name.trim()} now governs ${newPolicy.keyType} keys`
       });
-    } catch (error: any) {
+      setIsPolicyDialogOpen(false);
+      setNewPolicy({ name: '', keyType: 'signature', rotationIntervalDays: '90' });
+    } catch (error) {
       toast({
         title: "Error",
-        description: error.message || "Failed to rotate quantum keys",
+        description: error instanceof Error ? error.message : "Failed to create the policy",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
   };
 
-  const getDaysUntilRotation = () => {
-    if (!nextRotation) return 0;
-    const now = new Date();
-    const diff = nextRotation.getTime() - now.getTime();
-    return Math.max(0, Math.ceil(diff / (1000 * 60 * 60 * 24)));
-  };
-
-  const getRotationProgress = () => {
-    if (!lastRotation || !nextRotation) return 0;
-    const now = new Date();
-    const total = nextRotation.getTime() - lastRotation.getTime();
-    const elapsed = now.getTime() - lastRotation.getTime();
-    return Math.min(100, Math.max(0, (elapsed / total) * 100));
+  const statusBadge = (status: string) => {
+    switch (status) {
+      case 'rotated':
+        return <Badge variant="default">Rotated</Badge>;
+      case 'missed':
+        return <Badge variant="secondary">Missed</Badge>;
+      default:
+        return <Badge variant="destructive">Failed</Badge>;
+    }
   };
 
-  const daysUntilRotation = getDaysUntilRotation();
-  const rotationProgress = getRotationProgress();
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-center">
+            <RotateCcw className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading key rotation...</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
 
   return (
     <div className="space-y-6">
@@ -141,135 +172,372 @@ export function QuantumKeyRotationManager() {
             Quantum Key Rotation Status
           </CardTitle>
           <CardDescription>
-            Automatic rotation ensures maximum security by regularly updating cryptographic keys
+            Keys and certificates rotate on this device when their key policy says they are due
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div className="text-center">
-              <p className="text-2xl font-bold">{daysUntilRotation}</p>
-              <p className="text-sm text-muted-foreground">Days until next rotation</p>
+              <p className="text-2xl font-bold">{managedKeys.length}</p>
+              <p className="text-sm text-muted-foreground">Keys under a policy</p>
             </div>
             <div className="text-center">
-              <p className="text-2xl font-bold">{rotationDays}</p>
-              <p className="text-sm text-muted-foreground">Rotation interval (days)</p>
+              <p className="text-2xl font-bold">{dueKeys.length}</p>
+              <p className="text-sm text-muted-foreground">Due for rotation</p>
             </div>
             <div className="text-center">
-              <Badge variant={autoRotationEnabled ? "default" : "secondary"}>
-                {autoRotationEnabled ? "Auto-Enabled" : "Manual Only"}
-              </Badge>
-              <p className="text-sm text-muted-foreground mt-1">Rotation mode</p>
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <div className="flex justify-between text-sm">
-              <span>Rotation Progress</span>
-              <span>{Math.round(rotationProgress)}%</span>
+              <p className="text-2xl font-bold">{nextDue ? daysUntil(nextDue.dueAt) : '—'}</p>
+              <p className="text-sm text-muted-foreground">Days until next rotation</p>
             </div>
-            <Progress value={rotationProgress} className="w-full" />
           </div>
 
-          {lastRotation && (
-            <div className="text-sm text-muted-foreground">
-              Last rotation: {lastRotation.toLocaleDateString()} at {lastRotation.toLocaleTimeString()}
+          <div className="flex flex-col md:flex-row gap-2 md:items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="escrow-passphrase" className="flex items-center gap-2">
+                <Lock className="h-4 w-4" />
+                Escrow Passphrase
+                <Badge variant={hasEscrowPassphrase ? "default" : "outline"}>
+                  {hasEscrowPassphrase ? "Set for this session" : "Not set"}
+                </Badge>
+              </Label>
+              <Input
+                id="escrow-passphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Needed by policies that escrow or back up keys"
+              />
             </div>
-          )}
-
-          <div className="flex gap-2">
-            <Button 
-              onClick={forceKeyRotation}
-              disabled={loading}
-              variant="outline"
-            >
-              <RotateCcw className="h-4 w-4 mr-2" />
-              {loading ? 'Rotating...' : 'Force Rotation'}
+            <Button variant="outline" onClick={handleSetPassphrase} disabled={!passphrase}>
+              Use Passphrase
             </Button>
-            
-            <Button 
-              onClick={() => setAutoRotationEnabled(!autoRotationEnabled)}
-              variant="outline"
-            >
-              {autoRotationEnabled ? 'Disable Auto' : 'Enable Auto'}
+            <Button onClick={handleRunScheduler} disabled={running}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {running ? 'Rotating...' : 'Run Rotation Now'}
             </Button>
           </div>
+
+          {managedKeys.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              None of your keys are governed by a key policy.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {managedKeys.map(key => {
+                  const days = daysUntil(key.dueAt);
+                  return (
+                    <TableRow key={`${key.resourceType}-${key.id}`}>
+                      <TableCell>
+                        <p className="font-medium">{key.label}</p>
+                        <p className="text-xs text-muted-foreground">Since {key.createdAt.toLocaleDateString()}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="text-sm">{key.policy.name}</p>
+                        {!key.policy.autoRotationEnabled && (
+                          <Badge variant="outline">Manual</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {days <= 0 ? (
+                          <Badge variant="destructive">Overdue</Badge>
+                        ) : (
+                          <Badge variant={days <= 14 ? "secondary" : "outline"}>In {days} days</Badge>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">{key.dueAt.toLocaleDateString()}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => handleRotateKey(key)} disabled={running}>
+                          <RotateCcw className="h-3 w-3 mr-1" />
+                          Rotate Now
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
 
-      {/* Rotation Configuration */}
+      {/* Rotation Report */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
-            <Settings className="h-5 w-5" />
-            Rotation Configuration
+            <Clock className="h-5 w-5" />
+            Rotation Report
           </CardTitle>
           <CardDescription>
-            Configure automatic quantum key rotation settings
+            {report
+              ? `Last run ${report.completedAt.toLocaleString()}: ${report.rotated} rotated, ${report.missed} missed, ${report.failed} failed`
+              : 'Recent rotations of your keys'}
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="rotation-days">Rotation Interval (Days)</Label>
-              <Input
-                id="rotation-days"
-                type="number"
-                min="1"
-                max="365"
-                value={rotationDays}
-                onChange={(e) => setRotationDays(parseInt(e.target.value) || 30)}
-              />
-              <p className="text-xs text-muted-foreground">
-                Minimum: 1 day, Maximum: 365 days. Recommended: 30-90 days
-              </p>
+        <CardContent>
+          {report && report.outcomes.length > 0 && (
+            <div className="space-y-2 mb-4">
+              {report.outcomes.map(outcome => (
+                <div key={`${outcome.key.resourceType}-${outcome.key.id}`} className="flex items-start justify-between p-3 bg-muted rounded-lg">
+                  <div>
+                    <p className="font-medium text-sm">{outcome.key.label}</p>
+                    {outcome.reason && <p className="text-xs text-muted-foreground">{outcome.reason}</p>}
+                    {outcome.dependents.map(dependent => (
+                      <p key={dependent.id} className="text-xs text-muted-foreground">
+                        {dependent.resourceType === 'did' ? 'DID' : 'Certificate'} {dependent.status === 'updated' ? 're-keyed' : `not re-keyed: ${dependent.error}`}
+                      </p>
+                    ))}
+                  </div>
+                  {statusBadge(outcome.status)}
+                </div>
+              ))}
             </div>
+          )}
 
-            <div className="space-y-2">
-              <Label htmlFor="auto-rotation">Auto-Rotation</Label>
-              <div className="flex items-center space-x-2">
-                <Switch
-                  id="auto-rotation"
-                  checked={autoRotationEnabled}
-                  onCheckedChange={setAutoRotationEnabled}
-                />
-                <span className="text-sm">
-                  {autoRotationEnabled ? 'Enabled' : 'Disabled'}
-                </span>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                When enabled, keys rotate automatically based on the interval
-              </p>
-            </div>
-          </div>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rotations recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {history.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell className="text-sm">{new Date(record.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-sm">
+                      {record.resource_type === 'certificate' ? 'Certificate' : `${record.key_type} key`}
+                      {record.error && <p className="text-xs text-muted-foreground">{record.error}</p>}
+                    </TableCell>
+                    <TableCell className="text-sm capitalize">{record.trigger}</TableCell>
+                    <TableCell>{statusBadge(record.status)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
 
-          <div className="flex justify-between items-center p-4 bg-muted rounded-lg">
+      {/* Rotation Policies */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
             <div>
-              <h4 className="font-medium">Recommended Settings</h4>
-              <p className="text-sm text-muted-foreground">
-                For maximum security, enable auto-rotation with 30-day intervals
-              </p>
+              <CardTitle className="flex items-center gap-2">
+                <Settings className="h-5 w-5" />
+                Key Policies
+              </CardTitle>
+              <CardDescription>
+                The newest policy for each key type sets its rotation interval, escrow and backup
+              </CardDescription>
             </div>
-            <Button
-              variant="outline"
-              onClick={() => {
-                setRotationDays(30);
-                setAutoRotationEnabled(true);
-              }}
-            >
-              Use Recommended
-            </Button>
+            {isAdmin && (
+              <Dialog open={isPolicyDialogOpen} onOpenChange={setIsPolicyDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New Policy
+                  </Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create Key Policy</DialogTitle>
+                    <DialogDescription>
+                      Replaces the current policy for the key type
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="policy-name">Name</Label>
+                      <Input
+                        id="policy-name"
+                        value={newPolicy.name}
+                        onChange={(e) => setNewPolicy(prev => ({ ...prev, name: e.target.value }))}
+                        placeholder="e.g., FIPS signing keys"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Key Type</Label>
+                      <Select
+                        value={newPolicy.keyType}
+                        onValueChange={(value) => setNewPolicy(prev => ({ ...prev, keyType: value as PolicyKeyType }))}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {KEY_TYPES.map(type => (
+                            <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="policy-interval">Rotation Interval (days)</Label>
+                      <Input
+                        id="policy-interval"
+                        type="number"
+                        min={1}
+                        max={3650}
+                        value={newPolicy.rotationIntervalDays}
+                        onChange={(e) => setNewPolicy(prev => ({ ...prev, rotationIntervalDays: e.target.value }))}
+                      />
+                    </div>
+                  </div>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setIsPolicyDialogOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button onClick={handleCreatePolicy} disabled={!newPolicy.name.trim() || Number(newPolicy.rotationIntervalDays) < 1}>
+                      Create Policy
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            )}
           </div>
-
-          <Button 
-            onClick={updateRotationSettings}
-            disabled={loading}
-            className="w-full"
-          >
-            {loading ? 'Updating...' : 'Update Settings'}
-          </Button>
+        </CardHeader>
+        <CardContent>
+          {policies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No key policies are defined.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Policy</TableHead>
+                  <TableHead>Interval (days)</TableHead>
+                  <TableHead>Auto-Rotate</TableHead>
+                  <TableHead>Escrow</TableHead>
+                  <TableHead>Backup</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {policies.map(policy => (
+                  <TableRow key={policy.id}>
+                    <TableCell>
+                      <p className="font-medium">{policy.name}</p>
+                      <div className="flex gap-1 mt-1">
+                        <Badge variant="outline">{policy.keyType}</Badge>
+                        {!enforcedPolicyIds.has(policy.id) && <Badge variant="secondary">Superseded</Badge>}
+                        {policy.complianceFramework && <Badge variant="outline">{policy.complianceFramework}</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {isAdmin ? (
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            min={1}
+                            max={3650}
+                            className="w-24"
+                            value={intervals[policy.id] ?? String(policy.rotationIntervalDays)}
+                            onChange={(e) => setIntervals(prev => ({ ...prev, [policy.id]: e.target.value }))}
+                          />
+                          {intervals[policy.id] !== undefined && Number(intervals[policy.id]) !== policy.rotationIntervalDays && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={Number(intervals[policy.id]) < 1}
+                              onClick={() => handleUpdatePolicy(policy.id, { rotationIntervalDays: Number(intervals[policy.id]) })}
+                            >
+                              Save
+                            </Button>
+                          )}
+                        </div>
+                      ) : (
+                        policy.rotationIntervalDays
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.autoRotationEnabled}
+                        disabled={!isAdmin}
+                        onCheckedChange={(checked) => handleUpdatePolicy(policy.id, { autoRotationEnabled: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.escrowRequired}
+                        disabled={!isAdmin}
+                        onCheckedChange={(checked) => handleUpdatePolicy(policy.id, { escrowRequired: checked })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={policy.backupRequired}
+                        disabled={!isAdmin}
+                        onCheckedChange={(checked) => handleUpdatePolicy(policy.id, { backupRequired: checked })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
         </CardContent>
       </Card>
 
+      {/* Organization-wide status */}
+      {isAdmin && organization && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Organization Rotation Compliance
+            </CardTitle>
+            <CardDescription>
+              Keys are rotated on their owners' devices; these are overdue by more than a few days
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {organization.overdue.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No overdue keys. {organization.upcoming.length} due in the next two weeks.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Owner</TableHead>
+                    <TableHead>Policy</TableHead>
+                    <TableHead>Due</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {organization.overdue.map(key => (
+                    <TableRow key={`${key.resourceType}-${key.id}`}>
+                      <TableCell className="text-sm">{key.label}</TableCell>
+                      <TableCell className="text-xs font-mono">{key.userId.slice(0, 8)}...</TableCell>
+                      <TableCell className="text-sm">{key.policy.name}</TableCell>
+                      <TableCell>
+                        <Badge variant="destructive">{-daysUntil(key.dueAt)} days overdue</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && <DataEncryptionKeys />}
+
       {/* Security Information */}
       <Card>
         <CardHeader>
@@ -288,7 +556,7 @@ export function QuantumKeyRotationManager() {
               <li>• Complies with post-quantum cryptography standards</li>
             </ul>
           </div>
-          
+
           <div className="space-y-2">
             <h4 className="font-medium">Best Practices:</h4>
             <ul className="text-sm space-y-1 text-muted-foreground ml-4">
@@ -302,4 +570,4 @@ export function QuantumKeyRotationManager() {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,363 @@
+import { useState } from "react";
+import { useSeparationOfDuties } from "@/hooks/useSeparationOfDuties";
+import { EnforcementLevel, SoDViolation, ViolationSeverity } from "@/lib/separation-of-duties";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Scale, ScanSearch, UserCheck } from "lucide-react";
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  enforcement: 'block' as EnforcementLevel,
+  severity: 'high' as ViolationSeverity,
+  firstResource: '',
+  firstAction: '',
+  secondResource: '',
+  secondAction: '',
+  sameResource: true
+};
+
+const SEVERITY_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  low: "outline",
+  medium: "secondary",
+  high: "destructive",
+  critical: "destructive"
+};
+
+export function SeparationOfDutiesManager() {
+  const {
+    policies,
+    violations,
+    loading,
+    working,
+    createPolicy,
+    setPolicyActive,
+    detectViolations,
+    assignViolation,
+    resolveViolation,
+    dismissViolation
+  } = useSeparationOfDuties();
+  const [form, setForm] = useState<typeof EMPTY_FORM | null>(null);
+  const [resolving, setResolving] = useState<SoDViolation | null>(null);
+  const [notes, setNotes] = useState('');
+  const [revokeGrant, setRevokeGrant] = useState(false);
+
+  const handleCreate = async () => {
+    if (!form) return;
+
+    const matcher = (resource: string, action: string) => ({
+      ...(resource.trim() ? { resource: resource.trim() } : {}),
+      ...(action.trim() ? { action: action.trim() } : {})
+    });
+
+    const policy = await createPolicy({
+      name: form.name,
+      enforcement: form.enforcement,
+      combinations: [{
+        id: crypto.randomUUID(),
+        description: form.description || form.name,
+        entitlements: [
+          matcher(form.firstResource, form.firstAction),
+          matcher(form.secondResource, form.secondAction)
+        ],
+        sameResource: form.sameResource,
+        severity: form.severity
+      }]
+    });
+
+    if (policy) {
+      setForm(null);
+    }
+  };
+
+  const closeResolve = () => {
+    setResolving(null);
+    setNotes('');
+    setRevokeGrant(false);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    const result = await resolveViolation(resolving.id, notes, revokeGrant);
+    if (result?.success) closeResolve();
+  };
+
+  const handleDismiss = async () => {
+    if (!resolving) return;
+    if (await dismissViolation(resolving.id, notes)) closeResolve();
+  };
+
+  if (loading && policies.length === 0) {
+    return <div>Loading separation of duties policies...</div>;
+  }
+
+  const openViolations = violations.filter(v => v.status === 'open' || v.status === 'investigating');
+  const formValid = form && form.name.trim() &&
+    (form.firstResource.trim() || form.firstAction.trim()) &&
+    (form.secondResource.trim() || form.secondAction.trim());
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Separation of Duties
+            </CardTitle>
+            <CardDescription>
+              Toxic permission combinations checked on role assignment, group permission grants and JIT requests.
+              Blocking policies reject the grant; others let it through and open a violation for remediation.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={detectViolations} disabled={working}>
+              <ScanSearch className="h-4 w-4 mr-2" />
+              Scan Existing Access
+            </Button>
+            <Button onClick={() => setForm(EMPTY_FORM)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Policy
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="violations">
+          <TabsList>
+            <TabsTrigger value="violations">
+              Violations {openViolations.length > 0 && <Badge variant="destructive" className="ml-2">{openViolations.length}</Badge>}
+            </TabsTrigger>
+            <TabsTrigger value="policies">Policies</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="violations" className="space-y-3">
+            {violations.length === 0 && (
+              <p className="text-sm text-muted-foreground">No separation of duties violations recorded.</p>
+            )}
+
+            {violations.map((violation) => (
+              <div key={violation.id} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{violation.violation_data.description || violation.violation_type}</h3>
+                    <Badge variant={SEVERITY_VARIANTS[violation.severity_level] || 'outline'}>{violation.severity_level}</Badge>
+                    <Badge variant="outline">{violation.status.replace('_', ' ')}</Badge>
+                    <Badge variant="outline">{violation.detection_method}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground font-mono">
+                    {violation.user_id ? `user ${violation.user_id.slice(0, 8)}` : 'role definition'}
+                    {violation.violation_data.resource && ` · ${violation.violation_data.resource}`}
+                    {violation.assigned_to && ` · assigned ${violation.assigned_to.slice(0, 8)}`}
+                    {' · '}{new Date(violation.created_at).toLocaleString()}
+                  </p>
+                  {violation.violation_data.entitlements && (
+                    <p className="text-xs text-muted-foreground">
+                      {violation.violation_data.entitlements.map(e => e.label).join(' + ')}
+                    </p>
+                  )}
+                  {violation.resolution_notes && <p className="text-xs">{violation.resolution_notes}</p>}
+                </div>
+                {(violation.status === 'open' || violation.status === 'investigating') && (
+                  <div className="flex gap-2">
+                    {!violation.assigned_to && (
+                      <Button size="sm" variant="outline" onClick={() => assignViolation(violation.id)}>
+                        <UserCheck className="h-4 w-4 mr-2" />
+                        Take
+                      </Button>
+                    )}
+                    <Button size="sm" onClick={() => setResolving(violation)}>
+                      Remediate
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="policies" className="space-y-3">
+            {policies.length === 0 && (
+              <p className="text-sm text-muted-foreground">No separation of duties policies defined.</p>
+            )}
+
+            {policies.map((policy) => (
+              <div key={policy.id} className="flex items-center justify-between border rounded-lg p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{policy.name}</h3>
+                    <Badge variant={policy.enforcement === 'block' ? 'destructive' : 'secondary'}>{policy.enforcement}</Badge>
+                    {policy.frameworks.map(f => <Badge key={f} variant="outline">{f}</Badge>)}
+                  </div>
+                  {policy.combinations.map((combination) => (
+                    <p key={combination.id} className="text-xs text-muted-foreground">
+                      {combination.description}:{' '}
+                      {combination.entitlements
+                        .map(m => [m.role && `role ${m.role}`, m.permission, m.action, m.resource && `on ${m.resource}`].filter(Boolean).join(' '))
+                        .join(' + ')}
+                      {combination.sameResource && ' (same resource)'}
+                    </p>
+                  ))}
+                </div>
+                <Switch
+                  checked={policy.isActive}
+                  onCheckedChange={(checked) => setPolicyActive(policy.id, checked)}
+                />
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+
+      <Dialog open={resolving !== null} onOpenChange={(open) => !open && closeResolve()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remediate Violation</DialogTitle>
+            <DialogDescription>
+              {resolving?.violation_data.description}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sod-notes">Resolution notes</Label>
+              <Textarea
+                id="sod-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Compensating control, business justification or action taken"
+              />
+            </div>
+            {resolving?.violation_data.grant && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sod-revoke">Revoke the grant that caused the conflict</Label>
+                <Switch id="sod-revoke" checked={revokeGrant} onCheckedChange={setRevokeGrant} />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={handleDismiss} disabled={!notes.trim()}>
+              False Positive
+            </Button>
+            <Button onClick={handleResolve} disabled={working || !notes.trim()}>
+              Resolve
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Separation of Duties Policy</DialogTitle>
+            <DialogDescription>
+              Nobody may hold both entitlements. Leave a resource empty to match any resource.
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="sod-name">Name</Label>
+                <Input
+                  id="sod-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Payment creation / approval"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="sod-description">Description</Label>
+                <Input
+                  id="sod-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>First entitlement</Label>
+                  <Input
+                    value={form.firstAction}
+                    onChange={(e) => setForm({ ...form, firstAction: e.target.value })}
+                    placeholder="Action (e.g. request)"
+                  />
+                  <Input
+                    value={form.firstResource}
+                    onChange={(e) => setForm({ ...form, firstResource: e.target.value })}
+                    placeholder="Resource (optional)"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Second entitlement</Label>
+                  <Input
+                    value={form.secondAction}
+                    onChange={(e) => setForm({ ...form, secondAction: e.target.value })}
+                    placeholder="Action (e.g. approve)"
+                  />
+                  <Input
+                    value={form.secondResource}
+                    onChange={(e) => setForm({ ...form, secondResource: e.target.value })}
+                    placeholder="Resource (optional)"
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="sod-same-resource">Only when both are on the same resource</Label>
+                <Switch
+                  id="sod-same-resource"
+                  checked={form.sameResource}
+                  onCheckedChange={(checked) => setForm({ ...form, sameResource: checked })}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label>Enforcement</Label>
+                  <Select
+                    value={form.enforcement}
+                    onValueChange={(value) => setForm({ ...form, enforcement: value as EnforcementLevel })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="block">Block the grant</SelectItem>
+                      <SelectItem value="warn">Allow and open a violation</SelectItem>
+                      <SelectItem value="monitor">Monitor only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Severity</Label>
+                  <Select
+                    value={form.severity}
+                    onValueChange={(value) => setForm({ ...form, severity: value as ViolationSeverity })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="low">Low</SelectItem>
+                      <SelectItem value="medium">Medium</SelectItem>
+                      <SelectItem value="high">High</SelectItem>
+                      <SelectItem value="critical">Critical</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={!formValid}>Create Policy</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,64 +1,229 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Users, Key, Shield, CheckCircle2, Clock, Lock } from 'lucide-react';
-import { ThresholdSignatureManager as TSManager, KeyShare } from '@/lib/threshold-signatures';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Users, Key, Shield, CheckCircle2, Clock, Lock, Unlock, RefreshCw, Archive, Send, Download, XCircle } from 'lucide-react';
+import {
+  ThresholdSignatureManager as TSManager,
+  KeyShare,
+  MultiPartyKeyGeneration,
+  ThresholdSignature
+} from '@/lib/threshold-signatures';
+import { ShareCustodyState } from '@/lib/threshold-share-custody';
+import { useAuth } from '@/hooks/useAuth';
+import { useShareCustody } from '@/hooks/useShareCustody';
 import { toast } from '@/hooks/use-toast';
 
+const custodyBadge: Record<ShareCustodyState, 'default' | 'secondary' | 'outline'> = {
+  sealed: 'secondary',
+  retrieved: 'default',
+  superseded: 'outline'
+};
+
 export function ThresholdSignatureManager() {
+  const { user } = useAuth();
   const [tsManager] = useState(() => new TSManager());
   const [threshold, setThreshold] = useState(3);
-  const [totalShares, setTotalShares] = useState(5);
+  const [selectedParticipants, setSelectedParticipants] = useState<string[]>([]);
+  const [keyId, setKeyId] = useState<string | null>(null);
   const [keyShares, setKeyShares] = useState<KeyShare[]>([]);
-  const [signatureRequest, setSignatureRequest] = useState<any>(null);
-  const [partialSignatures, setPartialSignatures] = useState<number>(0);
+  const [signatureRequest, setSignatureRequest] = useState<ThresholdSignature | null>(null);
+  const [replaceShareId, setReplaceShareId] = useState('');
+  const [replacementId, setReplacementId] = useState('');
+  const [busy, setBusy] = useState(false);
 
-  const handleGenerateKeys = () => {
-    try {
-      const participants = Array.from({ length: totalShares }, (_, i) => 
-        `participant-${i + 1}`
-      );
+  const {
+    keys,
+    statuses,
+    currentEpoch,
+    currentShares,
+    participants,
+    ceremony,
+    retrieve,
+    deposit,
+    startRefresh,
+    startReplacement,
+    contribute,
+    accept,
+    cancelCeremony
+  } = useShareCustody(keyId);
+
+  const totalShares = selectedParticipants.length;
+  const publicKey = keyId ? tsManager.getPublicKey(keyId) : undefined;
+  const partialSignatures = signatureRequest?.signatures.length || 0;
+  const requiredSignatures = signatureRequest?.threshold || threshold;
+  const signingSetComplete = !!signatureRequest && signatureRequest.commitments.length >= signatureRequest.threshold;
 
-      const result = tsManager.generateKeyShares(
-        'master-key-001',
+  // The manager updates requests in place; copy them so React re-renders
+  const refreshRequest = (requestId: string) => {
+    const request = tsManager.getSignatureStatus(requestId);
+    setSignatureRequest(request ? { ...request } : null);
+  };
+
+  const participantLabel = (id: string) => participants.find(p => p.userId === id)?.label || id;
+
+  const toggleParticipant = (id: string) => {
+    setSelectedParticipants(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+  };
+
+  // When a ceremony completes the key moves to a new epoch; shares of the
+  // old epoch no longer match its package and are dropped from this device
+  useEffect(() => {
+    const key = keys.find(k => k.keyId === keyId);
+    if (!key) return;
+
+    const current = tsManager.getKeyShares(key.keyId)
+      .filter(share => TSManager.verifyKeyShare(share, key.publicKeyPackage));
+    tsManager.restoreKey(key.publicKeyPackage, current);
+    setKeyShares(current);
+  }, [keys, keyId, tsManager]);
+
+  // This device dealt the key, so it keeps only its own share once every
+  // share has been sealed to its holder
+  const applyGeneration = async (result: MultiPartyKeyGeneration) => {
+    setSignatureRequest(null);
+    await deposit(result);
+
+    const own = result.keyShares.filter(share => share.participantId === user?.id);
+    tsManager.restoreKey(result.publicKeyPackage, own);
+    setKeyShares(own);
+  };
+
+  const handleGenerateKeys = async () => {
+    try {
+      setBusy(true);
+      const newKeyId = `threshold-key-${Date.now()}`;
+      const result = tsManager.dealKeyShares(
+        newKeyId,
         threshold,
         totalShares,
-        participants
+        selectedParticipants
       );
 
-      setKeyShares(result.keyShares);
+      setKeyId(newKeyId);
+      await applyGeneration(result);
 
       toast({
-        title: 'Key Shares Generated',
-        description: `Successfully generated ${totalShares} key shares (${threshold}-of-${totalShares} threshold)`,
+        title: 'Key Shares Dealt',
+        description: `Dealt ${totalShares} key shares (${threshold}-of-${totalShares} threshold) and dropped all but your own`,
       });
-    } catch (error: any) {
+    } catch (error) {
       toast({
         title: 'Error',
-        description: error.message,
+        description: error instanceof Error ? error.message : 'Failed to generate key shares',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSelectKey = (id: string) => {
+    setKeyId(id);
+    setSignatureRequest(null);
+  };
+
+  const handleRetrieve = async () => {
+    if (!keyId || !publicKey) return;
+
+    const share = await retrieve(keyId);
+    if (!share) return;
+
+    try {
+      tsManager.restoreKey(publicKey, [
+        ...tsManager.getKeyShares(keyId).filter(s => s.shareId !== share.shareId),
+        share
+      ]);
+      setKeyShares(tsManager.getKeyShares(keyId));
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load the share',
         variant: 'destructive'
       });
     }
   };
 
+  const handleRefresh = async () => {
+    if (!keyId) return;
+
+    setBusy(true);
+    await startRefresh(keyId);
+    setBusy(false);
+  };
+
+  const handleReplace = async () => {
+    if (!keyId || !replaceShareId || !replacementId) return;
+
+    setBusy(true);
+    if (await startReplacement(keyId, Number(replaceShareId), replacementId)) {
+      setReplaceShareId('');
+      setReplacementId('');
+    }
+    setBusy(false);
+  };
+
+  // Ceremony steps run on each holder's own device with their own share
+  const myShare = keyShares.find(s => s.participantId === user?.id);
+  const canContribute = !!ceremony && !!myShare && ceremony.dealers.includes(myShare.shareId) &&
+    !ceremony.contributions.some(c => c.dealerShareId === myShare.shareId);
+  const myRecipientSlot = ceremony?.recipients.find(r => r.participantId === user?.id);
+  const depositedShares = ceremony
+    ? statuses.filter(s => s.epoch === ceremony.targetEpoch).length
+    : 0;
+  const canAccept = !!ceremony && !!myRecipientSlot &&
+    ceremony.contributions.length >= ceremony.dealers.length &&
+    !statuses.some(s => s.epoch === ceremony.targetEpoch && s.shareId === myRecipientSlot.shareId);
+
+  const handleContribute = async () => {
+    if (!myShare) return;
+
+    setBusy(true);
+    await contribute(myShare);
+    setBusy(false);
+  };
+
+  const handleAccept = async () => {
+    if (!keyId) return;
+
+    setBusy(true);
+    const result = await accept(myShare);
+    setBusy(false);
+    if (!result?.completed) return;
+
+    const publicKeyPackage = tsManager.getPublicKey(keyId);
+    if (publicKeyPackage && TSManager.verifyKeyShare(result.share, publicKeyPackage)) {
+      setKeyShares([result.share]);
+    }
+  };
+
+  const handleCancelCeremony = async () => {
+    setBusy(true);
+    await cancelCeremony();
+    setBusy(false);
+  };
+
   const handleCreateSignatureRequest = () => {
+    if (!keyId) return;
+
     try {
       const request = tsManager.createSignatureRequest(
-        'sig-req-001',
-        'Critical Operation: Transfer Ownership',
-        threshold
+        `sig-req-${Date.now()}`,
+        keyId,
+        'Critical Operation: Transfer Ownership'
       );
 
-      setSignatureRequest(request);
-      setPartialSignatures(0);
+      setSignatureRequest({ ...request });
 
       toast({
         title: 'Signature Request Created',
-        description: `Requires ${threshold} signatures to complete`,
+        description: `Requires ${request.threshold} share holders to commit and sign`,
       });
     } catch (error: any) {
       toast({
@@ -69,33 +234,49 @@ export function ThresholdSignatureManager() {
     }
   };
 
+  const handleCommit = (shareId: number) => {
+    if (!signatureRequest) return;
+
+    try {
+      const keyShare = keyShares.find(k => k.shareId === shareId);
+      if (!keyShare) return;
+
+      tsManager.commitToSign(signatureRequest.requestId, keyShare);
+      refreshRequest(signatureRequest.requestId);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to commit to signing',
+        variant: 'destructive'
+      });
+    }
+  };
+
   const handleAddSignature = (shareId: number) => {
+    if (!signatureRequest) return;
+
     try {
       const keyShare = keyShares.find(k => k.shareId === shareId);
       if (!keyShare) return;
 
       const result = tsManager.addPartialSignature(
-        'sig-req-001',
+        signatureRequest.requestId,
         shareId,
-        `participant-${shareId}`,
+        keyShare.participantId,
         keyShare
       );
 
-      setPartialSignatures(prev => prev + 1);
+      refreshRequest(signatureRequest.requestId);
 
       if (result.isComplete) {
         toast({
           title: 'Signature Complete',
           description: 'Threshold reached! Operation authorized.',
         });
-        
-        // Update signature request
-        const updatedRequest = tsManager.getSignatureStatus('sig-req-001');
-        setSignatureRequest(updatedRequest);
       } else {
         toast({
-          title: 'Partial Signature Added',
-          description: `${partialSignatures + 1} of ${threshold} signatures collected`,
+          title: 'Partial Signature Verified',
+          description: `${partialSignatures + 1} of ${requiredSignatures} signatures collected`,
         });
       }
     } catch (error: any) {
@@ -165,10 +346,11 @@ export function ThresholdSignatureManager() {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Key className="h-5 w-5" />
-            Generate Distributed Key Shares
+            Deal Key Shares
           </CardTitle>
           <CardDescription>
-            Split master key into N shares, requiring M to sign
+            This device acts as a trusted dealer: it generates the key, seals each of the N shares to its holder
+            and keeps only your own. Any M holders can sign.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -188,72 +370,233 @@ export function ThresholdSignatureManager() {
             </div>
             <div>
               <Label>Total Shares (N)</Label>
-              <Input
-                type="number"
-                value={totalShares}
-                onChange={(e) => setTotalShares(Number(e.target.value))}
-                min={threshold}
-                max={10}
-              />
+              <div className="text-2xl font-bold">{totalShares}</div>
               <p className="text-xs text-muted-foreground mt-1">
-                Total key share holders
+                One share per selected participant
               </p>
             </div>
           </div>
 
-          <Button onClick={handleGenerateKeys}>
+          <div>
+            <Label>Participants</Label>
+            <div className="mt-2 max-h-60 overflow-y-auto border rounded p-4">
+              {participants.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No users have an ML-KEM-768 key to seal a share to
+                </p>
+              ) : participants.map(participant => (
+                <div key={participant.userId} className="flex items-center space-x-2 py-2">
+                  <Checkbox
+                    id={`participant-${participant.userId}`}
+                    checked={selectedParticipants.includes(participant.userId)}
+                    onCheckedChange={() => toggleParticipant(participant.userId)}
+                  />
+                  <Label htmlFor={`participant-${participant.userId}`} className="flex-1 cursor-pointer">
+                    {participant.label}
+                  </Label>
+                  <Badge variant="outline">
+                    {participant.source === 'did' ? 'DID key' : 'Quantum key'}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button
+            onClick={handleGenerateKeys}
+            disabled={busy || totalShares < 2 || threshold < 1 || threshold > totalShares}
+          >
             <Key className="h-4 w-4 mr-2" />
-            Generate {threshold}-of-{totalShares} Key Shares
+            Deal {threshold}-of-{totalShares} Key Shares
           </Button>
-
-          {keyShares.length > 0 && (
-            <Alert>
-              <Shield className="h-4 w-4" />
-              <AlertDescription>
-                <strong>Success!</strong> Generated {keyShares.length} key shares.
-                Distribute securely to participants.
-              </AlertDescription>
-            </Alert>
-          )}
         </CardContent>
       </Card>
 
-      {/* Key Shares Display */}
-      {keyShares.length > 0 && (
+      {/* Share Custody */}
+      {(keys.length > 0 || keyId) && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Users className="h-5 w-5" />
-              Distributed Key Shares
+              Share Custody
             </CardTitle>
             <CardDescription>
-              {threshold}-of-{totalShares} threshold scheme
+              Each share is sealed to its holder's ML-KEM-768 key and can only be unsealed by them
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <div className="space-y-2">
-              {keyShares.map((share) => (
-                <div
-                  key={share.id}
-                  className="flex items-center justify-between p-3 border rounded-lg"
+          <CardContent className="space-y-4">
+            <Select value={keyId || ''} onValueChange={handleSelectKey}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a threshold key" />
+              </SelectTrigger>
+              <SelectContent>
+                {keys.map(key => (
+                  <SelectItem key={key.keyId} value={key.keyId}>
+                    {key.keyId} ({key.threshold}-of-{key.totalShares}, epoch {key.epoch})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {publicKey && (
+              <div className="space-y-1">
+                <Label>Group Public Key</Label>
+                <code className="block text-xs bg-muted p-2 rounded break-all">
+                  {publicKey.groupPublicKey}
+                </code>
+                <p className="text-xs text-muted-foreground">
+                  {publicKey.threshold}-of-{publicKey.participants.length} FROST (Ed25519) key • Epoch {currentEpoch || '-'} •
+                  {' '}{keyShares.length} share{keyShares.length === 1 ? '' : 's'} held on this device
+                </p>
+              </div>
+            )}
+
+            {currentShares.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Share</TableHead>
+                    <TableHead>Participant</TableHead>
+                    <TableHead>Sealed To</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Retrieved</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {currentShares.map(status => (
+                    <TableRow key={status.shareId}>
+                      <TableCell className="font-bold">#{status.shareId}</TableCell>
+                      <TableCell>
+                        <div>{participantLabel(status.participantId)}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {status.verificationShare.slice(0, 16)}...
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{status.kemKeySource === 'did' ? 'DID key' : 'Quantum key'}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {status.kemKeyFingerprint.slice(0, 16)}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Badge variant={custodyBadge[status.status]}>{status.status}</Badge>
+                          {keyShares.some(s => s.shareId === status.shareId) && (
+                            <Badge variant="outline">held locally</Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {status.retrievedAt ? new Date(status.retrievedAt).toLocaleString() : '-'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {currentShares.some(s => s.participantId === user?.id) && (
+                <Button variant="outline" onClick={handleRetrieve} disabled={busy}>
+                  <Unlock className="h-4 w-4 mr-2" />
+                  Unseal My Share
+                </Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={handleRefresh}
+                disabled={busy || !publicKey || !!ceremony}
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh Shares
+              </Button>
+            </div>
+
+            {publicKey && (
+              <div className="grid grid-cols-[8rem_1fr_auto] gap-2 items-end">
+                <div className="space-y-2">
+                  <Label>Replace Share</Label>
+                  <Select value={replaceShareId} onValueChange={setReplaceShareId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Share" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {publicKey.participants.map(p => (
+                        <SelectItem key={p.shareId} value={String(p.shareId)}>
+                          #{p.shareId}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>New Holder</Label>
+                  <Select value={replacementId} onValueChange={setReplacementId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select participant" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {participants
+                        .filter(p => !publicKey.participants.some(holder => holder.participantId === p.userId))
+                        .map(p => (
+                          <SelectItem key={p.userId} value={p.userId}>
+                            {p.label}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleReplace}
+                  disabled={busy || !replaceShareId || !replacementId || !!ceremony}
                 >
-                  <div className="flex items-center gap-3">
-                    <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center font-bold">
-                      {share.shareId}
-                    </div>
-                    <div>
-                      <p className="font-medium">Share {share.shareId}</p>
-                      <p className="text-xs text-muted-foreground">
-                        Participant {share.shareId}
-                      </p>
-                    </div>
+                  <Archive className="h-4 w-4 mr-2" />
+                  Replace
+                </Button>
+              </div>
+            )}
+
+            {ceremony && (
+              <Alert>
+                <RefreshCw className="h-4 w-4" />
+                <AlertDescription className="space-y-3">
+                  <div>
+                    <strong>{ceremony.kind === 'refresh' ? 'Refresh' : 'Reshare'} to epoch {ceremony.targetEpoch}</strong>
+                    <br />
+                    <span className="text-xs">
+                      Dealers: {ceremony.contributions.length}/{ceremony.dealers.length}
+                      {' '}(shares {ceremony.dealers.map(d => `#${d}`).join(', ')}) •
+                      New shares deposited: {depositedShares}/{ceremony.recipients.length}
+                    </span>
                   </div>
-                  <Badge variant="outline">
-                    {threshold}/{totalShares} required
-                  </Badge>
-                </div>
-              ))}
-            </div>
+                  <div className="flex flex-wrap gap-2">
+                    {canContribute && (
+                      <Button size="sm" variant="outline" onClick={handleContribute} disabled={busy}>
+                        <Send className="h-4 w-4 mr-2" />
+                        Deal From Share #{myShare!.shareId}
+                      </Button>
+                    )}
+                    {canAccept && (
+                      <Button size="sm" variant="outline" onClick={handleAccept} disabled={busy}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Accept Share #{myRecipientSlot!.shareId}
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" onClick={handleCancelCeremony} disabled={busy}>
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Refreshing is dealt by every holder and replacing a holder by {publicKey?.threshold ?? 'M'} of them, each
+              from their own device with their own unsealed share; recipients then accept their new shares. Both keep
+              the group public key and wipe the previous epoch from custody.
+            </p>
           </CardContent>
         </Card>
       )}
@@ -284,23 +627,44 @@ export function ThresholdSignatureManager() {
                     <br />
                     <span className="text-xs">
                       Status: {signatureRequest.isComplete ? 'COMPLETED' : 'PENDING'} •
-                      Signatures: {partialSignatures}/{threshold}
+                      Commitments: {signatureRequest.commitments.length}/{requiredSignatures} •
+                      Signatures: {partialSignatures}/{requiredSignatures}
                     </span>
                   </AlertDescription>
                 </Alert>
 
-                {!signatureRequest.isComplete && (
+                {!signingSetComplete && (
                   <div className="space-y-2">
-                    <Label>Add Signatures (Select share holders)</Label>
+                    <Label>Round 1: Commit (Select share holders)</Label>
                     <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
                       {keyShares.map((share) => (
                         <Button
                           key={share.id}
                           variant="outline"
                           size="sm"
-                          onClick={() => handleAddSignature(share.shareId)}
+                          disabled={signatureRequest.commitments.some(c => c.shareId === share.shareId)}
+                          onClick={() => handleCommit(share.shareId)}
+                        >
+                          Commit #{share.shareId}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {signingSetComplete && !signatureRequest.isComplete && (
+                  <div className="space-y-2">
+                    <Label>Round 2: Sign (Committed share holders)</Label>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                      {signatureRequest.commitments.map((commitment) => (
+                        <Button
+                          key={commitment.shareId}
+                          variant="outline"
+                          size="sm"
+                          disabled={signatureRequest.signatures.some(s => s.shareId === commitment.shareId)}
+                          onClick={() => handleAddSignature(commitment.shareId)}
                         >
-                          Sign #{share.shareId}
+                          Sign #{commitment.shareId}
                         </Button>
                       ))}
                     </div>
@@ -316,6 +680,20 @@ export function ThresholdSignatureManager() {
                     <code className="block text-xs bg-background p-2 rounded break-all">
                       {signatureRequest.combinedSignature}
                     </code>
+                    {publicKey && signatureRequest.hybridSignature && (
+                      <div className="flex gap-2 mt-2">
+                        <Badge variant="outline">
+                          Ed25519 {tsManager.verifyThresholdSignature(
+                            signatureRequest.message,
+                            signatureRequest.combinedSignature || '',
+                            publicKey.groupPublicKey
+                          ) ? 'verified' : 'invalid'}
+                        </Badge>
+                        <Badge variant="outline">
+                          {signatureRequest.hybridSignature.coSignatures.length} ML-DSA-65 co-signatures
+                        </Badge>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
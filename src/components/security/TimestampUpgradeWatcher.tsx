@@ -0,0 +1,10 @@
+import { useBlockTimestamps } from "@/hooks/useBlockTimestamps";
+
+/**
+ * Upgrades pending block timestamp proofs in the background while an
+ * administrator is signed in
+ */
+export function TimestampUpgradeWatcher() {
+  useBlockTimestamps({ schedule: true });
+  return null;
+}
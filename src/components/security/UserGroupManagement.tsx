@@ -108,7 +108,7 @@ export default function UserGroupManagement() {
       toast.success("Member added successfully");
       openManageMembersDialog(manageMembersGroup); // Refresh
     } catch (error) {
-      toast.error("Failed to add member");
+      toast.error(error instanceof Error ? error.message : "Failed to add member");
     }
   };
 
@@ -0,0 +1,331 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BadgeCheck, FileCheck, CheckCircle2, XCircle, Ban } from 'lucide-react';
+import { useVerifiableCredentials } from '@/hooks/useVerifiableCredentials';
+import {
+  VerifiableCredentialManager,
+  CredentialType,
+  ClearanceLevel,
+  CredentialVerificationResult,
+  PresentationChallenge,
+  VerifiablePresentation
+} from '@/lib/verifiable-credentials';
+
+const CREDENTIAL_TYPES: { value: CredentialType; label: string }[] = [
+  { value: 'RoleCredential', label: 'Role' },
+  { value: 'EmploymentCredential', label: 'Employment' },
+  { value: 'ClearanceCredential', label: 'Clearance' }
+];
+
+const CLEARANCE_LEVELS: ClearanceLevel[] = ['public', 'internal', 'confidential', 'secret', 'top_secret'];
+
+export function VerifiableCredentialsManager() {
+  const { issuedCredentials, subjects, isAdmin, loading, issue, revoke, requestChallenge, verify } = useVerifiableCredentials();
+  const [subjectUserId, setSubjectUserId] = useState('');
+  const [credentialType, setCredentialType] = useState<CredentialType>('RoleCredential');
+  const [clearanceLevel, setClearanceLevel] = useState<ClearanceLevel>('confidential');
+  const [validityDays, setValidityDays] = useState('365');
+  const [revocationReason, setRevocationReason] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const [domain, setDomain] = useState(window.location.host);
+  const [challenge, setChallenge] = useState<PresentationChallenge | null>(null);
+  const [presentationInput, setPresentationInput] = useState('');
+  const [result, setResult] = useState<CredentialVerificationResult | null>(null);
+
+  const handleIssue = async () => {
+    setBusy(true);
+    try {
+      await issue({
+        subjectUserId,
+        type: credentialType,
+        clearanceLevel: credentialType === 'ClearanceCredential' ? clearanceLevel : undefined,
+        validityDays: Number(validityDays)
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setBusy(true);
+    try {
+      if (await revoke(id, revocationReason.trim() || undefined)) {
+        setRevocationReason('');
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRequestChallenge = async () => {
+    setResult(null);
+    setChallenge(await requestChallenge(domain.trim()));
+  };
+
+  const parsePresentation = (): VerifiablePresentation | null => {
+    try {
+      return JSON.parse(presentationInput) as VerifiablePresentation;
+    } catch {
+      setResult({ verified: false, errors: ['Presentation is not valid JSON'], holder: null, credentials: [] });
+      return null;
+    }
+  };
+
+  // Spends the challenge; a presentation verifies against it only once
+  const handleVerify = async () => {
+    const presentation = parsePresentation();
+    if (!presentation || !challenge) return;
+
+    setResult(await verify(presentation, challenge.challenge, challenge.domain));
+    setChallenge(null);
+  };
+
+  // Same checks from public data only, as a partner would run them
+  const handleVerifyOffline = async () => {
+    const presentation = parsePresentation();
+    if (!presentation || !challenge) return;
+
+    setResult(await VerifiableCredentialManager.verifyPresentation(presentation, challenge));
+  };
+
+  const subjectName = (userId: string) => subjects.find(s => s.userId === userId)?.name || userId.slice(0, 8);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold">Verifiable Credentials</h2>
+        <p className="text-muted-foreground">
+          W3C credentials signed with the issuer DID's ML-DSA-65 key, revocable through an anchored StatusList2021
+        </p>
+      </div>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BadgeCheck className="h-5 w-5" />
+              Issue Credential
+            </CardTitle>
+            <CardDescription>
+              Role and employment claims are read from the directory; clearance is asserted here
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Subject</Label>
+                <Select value={subjectUserId} onValueChange={setSubjectUserId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map(subject => (
+                      <SelectItem key={subject.userId} value={subject.userId}>
+                        {subject.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={credentialType} onValueChange={(value) => setCredentialType(value as CredentialType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CREDENTIAL_TYPES.map(type => (
+                      <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {credentialType === 'ClearanceCredential' && (
+                <div className="space-y-2">
+                  <Label>Clearance Level</Label>
+                  <Select value={clearanceLevel} onValueChange={(value) => setClearanceLevel(value as ClearanceLevel)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLEARANCE_LEVELS.map(level => (
+                        <SelectItem key={level} value={level}>{level.replace('_', ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="vc-validity">Validity (days)</Label>
+                <Input
+                  id="vc-validity"
+                  type="number"
+                  min={1}
+                  max={3650}
+                  value={validityDays}
+                  onChange={(e) => setValidityDays(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button onClick={handleIssue} disabled={busy || !subjectUserId}>
+              Issue Credential
+            </Button>
+
+            <div className="space-y-2 pt-4">
+              <div className="flex items-center justify-between gap-4">
+                <h4 className="font-medium">Issued Credentials</h4>
+                <Input
+                  className="max-w-xs"
+                  placeholder="Revocation reason (optional)"
+                  value={revocationReason}
+                  onChange={(e) => setRevocationReason(e.target.value)}
+                />
+              </div>
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : issuedCredentials.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No credentials issued yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Status Entry</TableHead>
+                      <TableHead>Issued</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {issuedCredentials.map(credential => {
+                      const state = VerifiableCredentialManager.stateOf(credential);
+                      return (
+                        <TableRow key={credential.id}>
+                          <TableCell>{subjectName(credential.subjectUserId)}</TableCell>
+                          <TableCell>{credential.type}</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {credential.statusListId.slice(0, 8)}#{credential.statusListIndex}
+                          </TableCell>
+                          <TableCell className="text-sm">{new Date(credential.issuedAt).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant={state === 'revoked' ? 'destructive' : state === 'expired' ? 'secondary' : 'default'}
+                              title={credential.revocationReason || undefined}
+                            >
+                              {state}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            {state !== 'revoked' && (
+                              <Button size="sm" variant="outline" disabled={busy} onClick={() => handleRevoke(credential.id)}>
+                                <Ban className="h-4 w-4 mr-2" />
+                                Revoke
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5" />
+            Verify Presentation
+          </CardTitle>
+          <CardDescription>
+            Issue a challenge for your domain, have the holder sign a presentation for it, then verify it
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-4 items-end">
+            <div className="space-y-2 flex-1">
+              <Label htmlFor="vc-domain">Verifier Domain</Label>
+              <Input id="vc-domain" value={domain} onChange={(e) => setDomain(e.target.value)} />
+            </div>
+            <Button variant="outline" onClick={handleRequestChallenge} disabled={!domain.trim()}>
+              New Challenge
+            </Button>
+          </div>
+
+          {challenge && (
+            <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+              <div>
+                Challenge: <code className="text-xs break-all">{challenge.challenge}</code>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                For {challenge.domain}, expires {new Date(challenge.expiresAt).toLocaleTimeString()}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="vc-presentation">Presentation</Label>
+            <Textarea
+              id="vc-presentation"
+              className="font-mono text-xs h-40"
+              placeholder="Paste the holder's Verifiable Presentation JSON"
+              value={presentationInput}
+              onChange={(e) => setPresentationInput(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-4">
+            <Button onClick={handleVerify} disabled={!challenge || !presentationInput.trim()}>
+              Verify
+            </Button>
+            <Button variant="outline" onClick={handleVerifyOffline} disabled={!challenge || !presentationInput.trim()}>
+              Check Offline
+            </Button>
+          </div>
+
+          {result && (
+            <Alert variant={result.verified ? 'default' : 'destructive'}>
+              {result.verified ? <CheckCircle2 className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              <AlertDescription>
+                {result.verified ? (
+                  <div className="space-y-2">
+                    <strong>Verified presentation from {result.holder}</strong>
+                    {result.credentials.map(credential => (
+                      <div key={credential.id} className="flex flex-wrap gap-1">
+                        <Badge variant="secondary">{credential.type[credential.type.length - 1]}</Badge>
+                        {Object.entries(credential.credentialSubject)
+                          .filter(([claim]) => claim !== 'id')
+                          .map(([claim, value]) => (
+                            <Badge key={claim} variant="outline" className="text-xs">
+                              {claim}: {String(value)}
+                            </Badge>
+                          ))}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <ul className="list-disc pl-4 text-sm">
+                    {result.errors.map(error => <li key={error}>{error}</li>)}
+                  </ul>
+                )}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,46 +1,90 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Shield, Eye, EyeOff, Lock, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
-import { ZKProofManager, ZKProof } from '@/lib/zero-knowledge-proofs';
+import { Shield, Eye, EyeOff, Lock, CheckCircle2, XCircle, AlertTriangle, KeyRound } from 'lucide-react';
+import {
+  ZKProofManager,
+  ZKProof,
+  ZKCredential,
+  ZKAccessGate,
+  ZKVerificationResult
+} from '@/lib/zero-knowledge-proofs';
+import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 
+const SYSTEM_ROLES = ['admin', 'moderator', 'user'];
+
 export function ZeroKnowledgeAccessControl() {
+  const { user } = useAuth();
   const [zkManager] = useState(() => new ZKProofManager());
+  const [credential, setCredential] = useState<ZKCredential | null>(null);
+  const [resource, setResource] = useState('confidential_documents');
+  const [action, setAction] = useState('read');
+  const [minimumTrustScore, setMinimumTrustScore] = useState('70');
+  const [allowedRoles, setAllowedRoles] = useState<string[]>(['admin', 'moderator']);
+  const [gate, setGate] = useState<ZKAccessGate | null>(null);
   const [generatedProof, setGeneratedProof] = useState<ZKProof | null>(null);
-  const [verificationResult, setVerificationResult] = useState<any>(null);
+  const [verificationResult, setVerificationResult] = useState<ZKVerificationResult | null>(null);
+  const [isRequesting, setIsRequesting] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [anonymousToken, setAnonymousToken] = useState<string | null>(null);
 
+  useEffect(() => {
+    if (user) {
+      setCredential(zkManager.loadCredential(user.id));
+    }
+  }, [user, zkManager]);
+
+  const toggleRole = (role: string, checked: boolean) => {
+    setAllowedRoles(prev => checked ? [...prev, role] : prev.filter(r => r !== role));
+  };
+
+  const handleRequestCredential = async () => {
+    if (!user) return;
+
+    setIsRequesting(true);
+    try {
+      const issued = await zkManager.requestCredential(user.id);
+      setCredential(issued);
+      toast({
+        title: issued ? 'Credential Issued' : 'Issuance Failed',
+        description: issued
+          ? `Committed to trust score ${issued.trustScore} and role ${issued.role}`
+          : 'The issuer could not attest your trust score and role',
+        variant: issued ? 'default' : 'destructive'
+      });
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
   const handleGenerateProof = async () => {
+    if (!credential) return;
+
     setIsGenerating(true);
+    setVerificationResult(null);
     try {
-      // Simulate generating ZK proof
-      const proof = await zkManager.generateProof({
-        userId: 'user-123',
-        resource: 'confidential_documents',
-        action: 'read',
-        trustScore: 85,
-        roles: ['admin', 'viewer'],
-        quantumSignature: 'quantum-sig-abc123'
-      });
+      const accessGate = ZKProofManager.createGate(resource, action, Number(minimumTrustScore), allowedRoles);
+      const anonymitySet = await zkManager.getAnonymitySet();
+      const proof = await zkManager.generateProof(credential, accessGate, anonymitySet);
 
+      setGate(accessGate);
       setGeneratedProof(proof);
-
-      // Generate anonymous token
-      const token = await zkManager.generateAnonymousToken(proof);
-      setAnonymousToken(token);
+      setAnonymousToken(null);
 
       toast({
         title: 'ZK Proof Generated',
-        description: 'Zero-knowledge proof created successfully',
+        description: `Hidden among ${anonymitySet.length} credential${anonymitySet.length === 1 ? '' : 's'}`,
       });
     } catch (error) {
       toast({
         title: 'Error',
-        description: 'Failed to generate proof',
+        description: error instanceof Error ? error.message : 'Failed to generate proof',
         variant: 'destructive'
       });
     } finally {
@@ -49,17 +93,16 @@ export function ZeroKnowledgeAccessControl() {
   };
 
   const handleVerifyProof = async () => {
-    if (!generatedProof) return;
+    if (!generatedProof || !gate) return;
 
     try {
-      const result = await zkManager.verifyProof(
-        generatedProof,
-        'confidential_documents',
-        'read'
-      );
+      const result = await zkManager.verifyProof(generatedProof, gate);
 
       setVerificationResult(result);
 
+      // Access to the gated resource is granted with an anonymous token
+      setAnonymousToken(result.valid && result.token ? result.token : null);
+
       toast({
         title: result.valid ? 'Proof Valid' : 'Proof Invalid',
         description: result.reason,
@@ -137,6 +180,50 @@ export function ZeroKnowledgeAccessControl() {
         </AlertDescription>
       </Alert>
 
+      {/* Credential */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Anonymous Credential
+          </CardTitle>
+          <CardDescription>
+            The issuer commits to your trust score and role; only the commitments are published
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {credential ? (
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Trust Score:</span>
+                <Badge variant="outline">{credential.trustScore}%</Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Role:</span>
+                <Badge variant="secondary">{credential.role}</Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Identity Key:</span>
+                <code className="bg-muted px-2 py-1 rounded text-xs">
+                  {credential.identityKey.substring(0, 16)}...
+                </code>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Expires:</span>
+                <span>{new Date(credential.expiresAt).toLocaleDateString()}</span>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No credential on this device. Request one to prove access anonymously.
+            </p>
+          )}
+          <Button onClick={handleRequestCredential} disabled={isRequesting || !user} variant={credential ? 'outline' : 'default'}>
+            {isRequesting ? 'Requesting...' : credential ? 'Refresh Credential' : 'Request Credential'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Generate Proof */}
       <Card>
         <CardHeader>
@@ -145,12 +232,48 @@ export function ZeroKnowledgeAccessControl() {
             Generate Anonymous Proof
           </CardTitle>
           <CardDescription>
-            Create a zero-knowledge proof for accessing resources
+            Gate a resource on a minimum trust score and a set of roles, then prove you meet it
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="zk-resource">Resource</Label>
+              <Input id="zk-resource" value={resource} onChange={(e) => setResource(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zk-action">Action</Label>
+              <Input id="zk-action" value={action} onChange={(e) => setAction(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="zk-min-trust">Minimum Trust Score</Label>
+              <Input
+                id="zk-min-trust"
+                type="number"
+                min={0}
+                max={100}
+                value={minimumTrustScore}
+                onChange={(e) => setMinimumTrustScore(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Allowed Roles</Label>
+            <div className="flex gap-4">
+              {SYSTEM_ROLES.map(role => (
+                <label key={role} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={allowedRoles.includes(role)}
+                    onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                  />
+                  {role}
+                </label>
+              ))}
+            </div>
+          </div>
+
           <div className="flex gap-4">
-            <Button onClick={handleGenerateProof} disabled={isGenerating}>
+            <Button onClick={handleGenerateProof} disabled={isGenerating || !credential || allowedRoles.length === 0}>
               {isGenerating ? 'Generating...' : 'Generate ZK Proof'}
             </Button>
             {generatedProof && (
@@ -184,6 +307,10 @@ export function ZeroKnowledgeAccessControl() {
                     <span className="text-muted-foreground">Min Trust Score:</span>
                     <Badge variant="outline">{generatedProof.publicInputs.minimumTrustScore}%</Badge>
                   </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Anonymity Set:</span>
+                    <Badge variant="outline">{generatedProof.publicInputs.anonymitySetSize} credentials</Badge>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Nullifier:</span>
                     <code className="bg-background px-2 py-1 rounded text-xs">
@@ -197,13 +324,13 @@ export function ZeroKnowledgeAccessControl() {
                 <div className="p-4 bg-primary/5 border border-primary/20 rounded-lg">
                   <h4 className="font-medium mb-2 flex items-center gap-2">
                     <Lock className="h-4 w-4 text-primary" />
-                    Anonymous Access Token
+                    Access Granted: {gate?.action} on {gate?.resource}
                   </h4>
                   <code className="block text-xs bg-background p-2 rounded break-all">
                     {anonymousToken}
                   </code>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Use this token to access resources without revealing your identity
+                    Use this token for this gate until it expires; it is tied to the spent proof, not to you
                   </p>
                 </div>
               )}
@@ -9,16 +9,18 @@ import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { CalendarDays, Plus, CheckCircle, Clock, AlertCircle, User } from 'lucide-react';
-import { useTasks, type NewTask } from '@/hooks/useTasks';
+import { CalendarDays, Plus, CheckCircle, Clock, AlertCircle, User, Share2 } from 'lucide-react';
+import { useTasks, type NewTask, type Task } from '@/hooks/useTasks';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserGroups } from '@/hooks/useUserGroups';
+import { ShareDialog } from '@/components/resources/ShareDialog';
 
 export function TaskManager() {
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [selectedTask, setSelectedTask] = useState<any>(null);
   const [showUpdateDialog, setShowUpdateDialog] = useState(false);
+  const [sharingTask, setSharingTask] = useState<Task | null>(null);
   const [users, setUsers] = useState<Array<{ id: string; email: string; full_name: string }>>([]);
   const [newTask, setNewTask] = useState<NewTask>({
     title: '',
@@ -118,6 +120,9 @@ export function TaskManager() {
     }
   };
 
+  // Task sharing and projects are managed by whoever assigned the task
+  const canShare = (task: Task) => task.assigned_by === user?.id || userRole === 'admin';
+
   const myTasks = getMyTasks();
   const assignedTasks = getAssignedTasks();
   const todaysTasks = getTodaysTasks();
@@ -425,6 +430,11 @@ export function TaskManager() {
                               {getStatusIcon(task.status)}
                               {task.status.replace('_', ' ').toUpperCase()}
                             </Badge>
+                            {canShare(task) && (
+                              <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSharingTask(task)}>
+                                <Share2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                           {task.description && (
                             <p className="text-muted-foreground">{task.description}</p>
@@ -460,6 +470,11 @@ export function TaskManager() {
                           {getStatusIcon(task.status)}
                           {task.status.replace('_', ' ').toUpperCase()}
                         </Badge>
+                        {canShare(task) && (
+                          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSharingTask(task)}>
+                            <Share2 className="h-4 w-4" />
+                          </Button>
+                        )}
                       </div>
                       {task.description && (
                         <p className="text-muted-foreground">{task.description}</p>
@@ -477,6 +492,15 @@ export function TaskManager() {
           </div>
         </TabsContent>
       </Tabs>
+
+      {sharingTask && (
+        <ShareDialog
+          open={!!sharingTask}
+          onOpenChange={(open) => !open && setSharingTask(null)}
+          object={{ type: 'task', id: sharingTask.id }}
+          title={sharingTask.title}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
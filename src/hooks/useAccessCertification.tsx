@@ -0,0 +1,158 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  AccessCertificationManager,
+  AccessReviewCampaign,
+  AccessReviewItem,
+  CampaignOptions
+} from '@/lib/access-certification';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useAccessCertification() {
+  const { user } = useAuth();
+  const [manager] = useState(() => new AccessCertificationManager());
+  const [campaigns, setCampaigns] = useState<AccessReviewCampaign[]>([]);
+  const [pendingReviews, setPendingReviews] = useState<AccessReviewItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const loadPendingReviews = useCallback(async () => {
+    if (!user) return;
+    const data = await manager.getPendingReviews(user.id);
+    setPendingReviews(data);
+  }, [manager, user]);
+
+  const loadCampaigns = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await manager.getCampaigns();
+      setCampaigns(data);
+    } catch (error) {
+      console.error('Error loading access review campaigns:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [manager]);
+
+  useEffect(() => {
+    if (user) {
+      loadPendingReviews();
+    }
+  }, [user, loadPendingReviews]);
+
+  const getCampaignItems = (campaignId: string) => manager.getCampaignItems(campaignId);
+
+  const createCampaign = async (options: CampaignOptions & { quarterly?: boolean }) => {
+    if (!user) return null;
+
+    setWorking(true);
+    try {
+      const { quarterly, ...campaignOptions } = options;
+      const campaign = quarterly
+        ? await manager.createQuarterlyCampaign(user.id, campaignOptions)
+        : await manager.createCampaign(user.id, campaignOptions);
+
+      if (campaign) {
+        toast({
+          title: 'Campaign Ready',
+          description: `${campaign.name}: ${campaign.total_items} access items to review`
+        });
+        await Promise.all([loadCampaigns(), loadPendingReviews()]);
+      } else {
+        toast({
+          title: 'Campaign Failed',
+          description: 'Failed to generate the access review campaign',
+          variant: 'destructive'
+        });
+      }
+
+      return campaign;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const decide = async (itemId: string, decision: 'approved' | 'revoked', comment?: string) => {
+    if (!user) return null;
+
+    const result = await manager.decide(itemId, decision, user.id, comment);
+
+    toast({
+      title: result.success ? (decision === 'approved' ? 'Access Certified' : 'Access Revoked') : 'Decision Failed',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive'
+    });
+
+    await loadPendingReviews();
+    return result;
+  };
+
+  const completeCampaign = async (campaignId: string) => {
+    if (!user) return null;
+
+    setWorking(true);
+    try {
+      const campaign = await manager.completeCampaign(campaignId, user.id);
+
+      if (campaign) {
+        toast({
+          title: 'Campaign Completed',
+          description: 'The signed result is now included in compliance reports'
+        });
+        await loadCampaigns();
+      } else {
+        toast({
+          title: 'Completion Failed',
+          description: 'All items must be reviewed before the campaign can be completed',
+          variant: 'destructive'
+        });
+      }
+
+      return campaign;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const cancelCampaign = async (campaignId: string) => {
+    if (!user) return false;
+
+    const success = await manager.cancelCampaign(campaignId, user.id);
+    if (success) {
+      toast({
+        title: 'Campaign Cancelled',
+        description: 'Pending reviews have been withdrawn'
+      });
+      await Promise.all([loadCampaigns(), loadPendingReviews()]);
+    }
+    return success;
+  };
+
+  const retryRevocations = async (campaignId: string) => {
+    const { retried, executed } = await manager.retryFailedRevocations(campaignId);
+
+    toast({
+      title: 'Revocations Retried',
+      description: `${executed} of ${retried} revocations executed`,
+      variant: executed === retried ? 'default' : 'destructive'
+    });
+
+    return { retried, executed };
+  };
+
+  return {
+    campaigns,
+    pendingReviews,
+    loading,
+    working,
+    loadCampaigns,
+    loadPendingReviews,
+    getCampaignItems,
+    createCampaign,
+    decide,
+    completeCampaign,
+    cancelCampaign,
+    retryRevocations,
+    verifyCampaign: AccessCertificationManager.verifyCampaignResult
+  };
+}
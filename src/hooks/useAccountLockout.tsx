@@ -138,7 +138,7 @@ export function useAccountLockout() {
       const { data: userData } = await supabase
         .from('profiles')
         .select('user_id')
-        .eq('email', email)
+        .eq('email', email.toLowerCase())
         .single();
 
       if (!userData) throw new Error('User not found');
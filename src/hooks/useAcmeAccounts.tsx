@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+// Must match supabase/functions/acme
+const FUNCTION_NAME = 'acme';
+
+export interface AcmeExternalAccount {
+  id: string;
+  name: string;
+  /** EAB key identifier the ACME client sends with newAccount */
+  keyId: string;
+  allowedDomains: string[];
+  caId: string | null;
+  policyId: string | null;
+  /** ACME directory URL to configure in the client */
+  directory: string;
+  /** Status of the ACME account bound to this key, null until one registers */
+  accountStatus: 'valid' | 'deactivated' | 'revoked' | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface CreatedExternalAccount extends AcmeExternalAccount {
+  /** base64url HMAC key; the server only returns it once */
+  hmacKey: string;
+}
+
+export function useAcmeAccounts() {
+  const { user, userRole } = useAuth();
+  const [externalAccounts, setExternalAccounts] = useState<AcmeExternalAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchExternalAccounts();
+    } else {
+      setLoading(false);
+    }
+  }, [user, isAdmin]);
+
+  const fetchExternalAccounts = async () => {
+    try {
+      const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/eab`, { method: 'GET' });
+      if (error) throw error;
+
+      setExternalAccounts(data as AcmeExternalAccount[]);
+    } catch (error) {
+      console.error('Error fetching ACME external accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Provision credentials for a service to register an ACME account with.
+   * Orders are limited to the allowed domains and their subdomains.
+   */
+  const createExternalAccount = async (params: {
+    name: string;
+    allowedDomains: string[];
+    caId?: string;
+    policyId?: string;
+  }): Promise<CreatedExternalAccount> => {
+    try {
+      const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/eab`, { body: params });
+      if (error) throw error;
+
+      await fetchExternalAccounts();
+      return data as CreatedExternalAccount;
+    } catch (error) {
+      console.error('Error creating ACME external account:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Revoking the binding also revokes the ACME account registered with it
+   */
+  const revokeExternalAccount = async (id: string): Promise<void> => {
+    try {
+      const { error } = await supabase.functions.invoke(`${FUNCTION_NAME}/eab/${id}/revoke`, { body: {} });
+      if (error) throw error;
+
+      await fetchExternalAccounts();
+    } catch (error) {
+      console.error('Error revoking ACME external account:', error);
+      throw error;
+    }
+  };
+
+  return {
+    externalAccounts,
+    loading,
+    isAdmin,
+    createExternalAccount,
+    revokeExternalAccount,
+    refreshExternalAccounts: fetchExternalAccounts
+  };
+}
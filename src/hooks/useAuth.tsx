@@ -2,6 +2,7 @@ import { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { PQCDatabaseEncryption } from "@/lib/pqc-database-encryption";
 
 interface AuthContextType {
   user: User | null;
@@ -247,6 +248,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setSession(null);
       setUser(null);
       setUserRole(null);
+      PQCDatabaseEncryption.clearCache();
       
       const { error } = await supabase.auth.signOut();
       if (error && error.message !== "Auth session missing!") {
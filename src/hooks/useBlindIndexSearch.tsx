@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { BlindIndexMode, BlindIndexName, PQCDatabaseEncryption } from '@/lib/pqc-database-encryption';
+
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Rows of an encrypted column matching a search term, found through its
+ * blind index. Null while there is nothing to search, or when the term is
+ * too short for the index; callers keep their plaintext matching for that.
+ */
+export function useBlindIndexSearch(index: BlindIndexName, term: string, mode: BlindIndexMode = 'exact') {
+  const { userRole } = useAuth();
+  const [matches, setMatches] = useState<Set<string> | null>(null);
+  const [searching, setSearching] = useState(false);
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    if (!isAdmin || !term.trim()) {
+      setMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const rowIds = await PQCDatabaseEncryption.searchBlindIndex(index, term, mode);
+        if (!cancelled) setMatches(rowIds ? new Set(rowIds) : null);
+      } catch (error) {
+        console.error(`Error searching ${index}:`, error);
+        if (!cancelled) setMatches(null);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [index, term, mode, isAdmin]);
+
+  return { matches, searching };
+}
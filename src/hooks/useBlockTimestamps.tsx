@@ -0,0 +1,107 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { BitcoinHeaderStore } from '@/lib/external-timestamps';
+import {
+  BlockTimestampRecord,
+  TimestampUpgradeReport,
+  TimestampUpgradeScheduler
+} from '@/lib/timestamp-upgrade-scheduler';
+
+// Calendars commit to Bitcoin every few hours; checking more often is wasted
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface HeaderFileInfo {
+  name: string;
+  first: number;
+  last: number;
+}
+
+/**
+ * External timestamp proofs of the audit chain. With schedule set the hook
+ * upgrades pending proofs when an administrator signs in and hourly after
+ * that, and is otherwise headless.
+ */
+export function useBlockTimestamps(options: { schedule?: boolean } = {}) {
+  const { user, userRole } = useAuth();
+  const [records, setRecords] = useState<BlockTimestampRecord[]>([]);
+  const [report, setReport] = useState<TimestampUpgradeReport | null>(null);
+  const [headerFile, setHeaderFile] = useState<HeaderFileInfo | null>(null);
+  const [running, setRunning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const isAdmin = userRole === 'admin';
+  const schedule = options.schedule ?? false;
+
+  useEffect(() => {
+    if (!user) return;
+
+    if (!schedule) {
+      fetchRecords();
+      return;
+    }
+
+    // Only administrators may update stored proofs
+    if (!isAdmin) return;
+
+    const runScheduled = async () => {
+      try {
+        await TimestampUpgradeScheduler.run();
+      } catch (error) {
+        console.error('Error upgrading block timestamps:', error);
+      }
+    };
+
+    runScheduled();
+    const timer = setInterval(runScheduled, SCHEDULE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, isAdmin, schedule]);
+
+  const fetchRecords = async () => {
+    try {
+      setRecords(await TimestampUpgradeScheduler.list());
+    } catch (error) {
+      console.error('Error fetching block timestamps:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runUpgrade = async (): Promise<TimestampUpgradeReport> => {
+    setRunning(true);
+    try {
+      const result = await TimestampUpgradeScheduler.run();
+      setReport(result);
+      await fetchRecords();
+      return result;
+    } catch (error) {
+      console.error('Error upgrading block timestamps:', error);
+      throw error;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  /**
+   * Load Bitcoin headers for verification from a local file, raw or one
+   * hex header per line, whose first header is at startHeight
+   */
+  const loadHeaderFile = async (file: File, startHeight: number): Promise<void> => {
+    const headers = await BitcoinHeaderStore.load(new Uint8Array(await file.arrayBuffer()), startHeight);
+    const range = headers.range;
+    if (!range) throw new Error('Header file is empty');
+
+    TimestampUpgradeScheduler.setHeaders(headers);
+    setHeaderFile({ name: file.name, ...range });
+  };
+
+  return {
+    records,
+    report,
+    headerFile,
+    running,
+    loading,
+    isAdmin,
+    runUpgrade,
+    loadHeaderFile,
+    refreshRecords: fetchRecords
+  };
+}
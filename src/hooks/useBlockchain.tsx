@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
-import { EnhancedQuantumBlockchain } from '@/lib/enhanced-quantum-blockchain';
+import { EnhancedQuantumBlockchain, IBlockData, auditEventId } from '@/lib/enhanced-quantum-blockchain';
 import { QuantumTransaction } from '@/lib/quantum-blockchain';
 import { DIDManager, QuantumDID } from '@/lib/did-manager';
+import { fromBlockRow, toBlockRow } from '@/lib/chain-reconciliation';
 import { toast } from '@/hooks/use-toast';
 
 export interface BlockchainStatus {
@@ -41,25 +42,9 @@ export function useBlockchain() {
       if (blocks && blocks.length > 0) {
         console.log(`Loading ${blocks.length} blocks from database...`);
         
-        // Reconstruct blockchain from database
-        // Note: This is a simplified recovery - in production, 
-        // you'd need to reconstruct full block data including transactions
-        blockchain.chain = blocks.map(dbBlock => ({
-          index: dbBlock.block_index,
-          hash: dbBlock.block_hash,
-          previousHash: dbBlock.previous_hash,
-          merkleRoot: dbBlock.merkle_root,
-          timestamp: new Date(dbBlock.created_at).getTime(),
-          nonce: dbBlock.nonce,
-          difficulty: dbBlock.difficulty,
-          data: [], // Transaction data not stored in blocks table
-          signature: undefined,
-          externalTimestamp: undefined,
-          calculateHash: function() { return this.hash; },
-          calculateMerkleRoot: function() { return this.merkleRoot; },
-          mineBlock: async function() {},
-          signBlock: async function() {}
-        } as any));
+        // Reconstruct blockchain from the chain of record. Blocks stored
+        // before rows kept their transactions come back without them.
+        blockchain.chain = blocks.map(fromBlockRow);
 
         updateChainStatus();
         
@@ -74,6 +59,8 @@ export function useBlockchain() {
   };
 
   const initializeUserBlockchain = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       
@@ -84,21 +71,21 @@ export function useBlockchain() {
         .eq('user_id', user?.id)
         .maybeSingle();
 
-      if (existingDID) {
-        setDID(existingDID.did_document as any as QuantumDID);
+      // DIDs created before the registry have no operation log and do not
+      // resolve; those users, and users who deactivated their DID, are
+      // given a newly registered one
+      const resolution = existingDID ? await DIDManager.resolve(existingDID.did) : null;
+      if (resolution?.didResolutionMetadata.error === 'internalError') {
+        throw new Error('DID resolution failed');
+      }
+
+      if (resolution?.didDocument && !resolution.didDocumentMetadata.deactivated) {
+        setDID(resolution.didDocument);
       } else {
-        // Create DID for new user
-        const newDID = await DIDManager.createDID(user?.email || 'unknown');
-        
-        // Store DID in database
-        await supabase
-          .from('user_dids')
-          .insert({
-            user_id: user?.id,
-            did: newDID.id,
-            did_document: JSON.stringify(newDID)
-          });
-        
+        // Register a DID for the user; this also caches it in user_dids
+        const newDID = await DIDManager.createDID(user.id);
+        if (!newDID) throw new Error('DID registration failed');
+
         setDID(newDID);
         
         // Log identity creation to blockchain
@@ -142,7 +129,7 @@ export function useBlockchain() {
     details: Record<string, any>
   ) => {
     try {
-      blockchain.addTransaction({
+      const transaction: IBlockData = {
         type: 'audit_log',
         payload: {
           action,
@@ -152,14 +139,16 @@ export function useBlockchain() {
         },
         userId: user?.id,
         timestamp: Date.now()
-      });
+      };
+      blockchain.addTransaction(transaction);
       
       // Mine the block
       await blockchain.minePendingTransactions(user?.id || 'system');
       
       updateChainStatus();
       
-      return 'transaction-' + Date.now();
+      // The id getAuditEventProof takes
+      return auditEventId(transaction);
     } catch (error) {
       console.error('Error logging to blockchain:', error);
       throw error;
@@ -333,16 +322,7 @@ export function useBlockchain() {
       // Store block with all metadata
       const { error } = await supabase
         .from('blockchain_blocks')
-        .insert({
-          block_index: block.index,
-          block_hash: block.hash,
-          previous_hash: block.previousHash,
-          merkle_root: block.merkleRoot,
-          miner_id: user?.id,
-          nonce: block.nonce,
-          difficulty: block.difficulty,
-          transaction_count: block.data.length
-        });
+        .insert(toBlockRow(block, user?.id ?? null));
 
       if (error) throw error;
 
@@ -369,6 +349,22 @@ export function useBlockchain() {
     }
   };
 
+  /**
+   * Inclusion proof for one audit event with its signed block header, for
+   * auditors to check with BlockchainAuditExporter.verifyAuditEventProof
+   */
+  const getAuditEventProof = async (eventId: string) => {
+    return await blockchain.getAuditEventProof(eventId);
+  };
+
+  const getTreeHead = async (treeSize?: number) => {
+    return await blockchain.getTreeHead(treeSize);
+  };
+
+  const getConsistencyProof = async (firstSize: number, secondSize?: number) => {
+    return await blockchain.getConsistencyProof(firstSize, secondSize);
+  };
+
   const exportBlockchainData = async () => {
     try {
       const stats = blockchain.getStatistics();
@@ -381,7 +377,10 @@ export function useBlockchain() {
           isQuantumResistant: true
         },
         blocks,
-        isValid: await blockchain.isValidChain()
+        isValid: await blockchain.isValidChain(),
+        // Later consistency proofs start from this head
+        treeHead: await blockchain.getTreeHead(),
+        signer: await blockchain.getSigner()
       };
     } catch (error) {
       console.error('Error exporting blockchain:', error);
@@ -417,6 +416,9 @@ export function useBlockchain() {
     revokePermissionOnChain,
     getBlockchainAuditTrail,
     getUserTransactions,
+    getAuditEventProof,
+    getTreeHead,
+    getConsistencyProof,
     mineBlock,
     exportBlockchainData,
     updateChainStatus,
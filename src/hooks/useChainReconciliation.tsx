@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import type { EnhancedQuantumBlockchain } from '@/lib/enhanced-quantum-blockchain';
+import { ChainReconciliationService, ReconciliationReport } from '@/lib/chain-reconciliation';
+
+export interface ReconciliationRun {
+  id: string;
+  status: 'consistent' | 'diverged' | 'repaired';
+  recordHeight: number;
+  repairedBlocks: number[];
+  createdAt: Date;
+}
+
+/**
+ * Reconciliation of the in-memory chain given, IndexedDB and the chain of
+ * record, with the record's recent reconciliation runs
+ */
+export function useChainReconciliation(blockchain: EnhancedQuantumBlockchain | null = null) {
+  const { user, userRole } = useAuth();
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [runs, setRuns] = useState<ReconciliationRun[]>([]);
+  const [running, setRunning] = useState(false);
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchRuns();
+    }
+  }, [user, isAdmin]);
+
+  const fetchRuns = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('blockchain_reconciliations')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(10);
+
+      if (error) throw error;
+      setRuns((data ?? []).map(row => ({
+        id: row.id,
+        status: row.status as ReconciliationRun['status'],
+        recordHeight: row.record_height,
+        repairedBlocks: row.repaired_blocks,
+        createdAt: new Date(row.created_at)
+      })));
+    } catch (error) {
+      console.error('Error fetching reconciliation runs:', error);
+    }
+  };
+
+  const reconcile = async (
+    options: { repair?: boolean; resolveForks?: boolean } = {}
+  ): Promise<ReconciliationReport> => {
+    setRunning(true);
+    try {
+      const result = await ChainReconciliationService.reconcile({ chain: blockchain, ...options });
+      setReport(result);
+      await fetchRuns();
+      return result;
+    } catch (error) {
+      console.error('Error reconciling the blockchain:', error);
+      throw error;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return {
+    report,
+    runs,
+    running,
+    isAdmin,
+    reconcile,
+    refreshRuns: fetchRuns
+  };
+}
@@ -0,0 +1,93 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from './useAuth';
+import {
+  BlindIndexName,
+  BlindIndexReport,
+  DataKeyInfo,
+  KeyHierarchyStatus,
+  PQCDatabaseEncryption,
+  ReencryptionReport
+} from '@/lib/pqc-database-encryption';
+
+/**
+ * Envelope encryption key hierarchy for administrators: root KEKs, table
+ * and user data keys, how far each encrypted column is from its current
+ * data key, and the blind indexes that keep encrypted columns searchable
+ */
+export function useDataEncryptionKeys() {
+  const { user, userRole } = useAuth();
+  const [status, setStatus] = useState<KeyHierarchyStatus | null>(null);
+  const [lastReport, setLastReport] = useState<ReencryptionReport | null>(null);
+  const [lastIndexReport, setLastIndexReport] = useState<BlindIndexReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      fetchStatus();
+    }
+  }, [user, isAdmin]);
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await PQCDatabaseEncryption.getStatus());
+    } catch (error) {
+      console.error('Error fetching key hierarchy status:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const withRefresh = async <T,>(action: () => Promise<T>, description: string): Promise<T> => {
+    setWorking(true);
+    try {
+      const result = await action();
+      await fetchStatus();
+      return result;
+    } catch (error) {
+      console.error(`Error ${description}:`, error);
+      throw error;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const rotateRootKey = () =>
+    withRefresh(() => PQCDatabaseEncryption.rotateKey(), 'rotating root key');
+
+  const rotateTableKey = (table: string): Promise<DataKeyInfo> =>
+    withRefresh(() => PQCDatabaseEncryption.rotateDataKey({ type: 'table', id: table }), 'rotating data key');
+
+  const runReencryption = () =>
+    withRefresh(async () => {
+      const report = await PQCDatabaseEncryption.runReencryptionJob();
+      setLastReport(report);
+      return report;
+    }, 'running re-encryption');
+
+  const rotateIndexKey = (index: BlindIndexName) =>
+    withRefresh(() => PQCDatabaseEncryption.rotateIndexKey(index), 'rotating index key');
+
+  const rebuildIndexes = () =>
+    withRefresh(async () => {
+      const report = await PQCDatabaseEncryption.rebuildBlindIndexes();
+      setLastIndexReport(report);
+      return report;
+    }, 'rebuilding blind indexes');
+
+  return {
+    status,
+    lastReport,
+    lastIndexReport,
+    loading,
+    working,
+    isAdmin,
+    rotateRootKey,
+    rotateTableKey,
+    runReencryption,
+    rotateIndexKey,
+    rebuildIndexes,
+    refreshStatus: fetchStatus
+  };
+}
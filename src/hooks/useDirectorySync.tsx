@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  DirectorySyncEngine,
+  DirectoryIntegration,
+  DirectorySyncResult,
+  BindCredentials
+} from '@/lib/directory-sync';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useDirectorySync() {
+  const { user } = useAuth();
+  const [engine] = useState(() => new DirectorySyncEngine());
+  const [integrations, setIntegrations] = useState<DirectoryIntegration[]>([]);
+  const [lastResult, setLastResult] = useState<DirectorySyncResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+
+  const loadIntegrations = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await engine.getIntegrations();
+      setIntegrations(data);
+    } catch (error) {
+      console.error('Error loading directory integrations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [engine]);
+
+  useEffect(() => {
+    if (user) {
+      loadIntegrations();
+    }
+  }, [user, loadIntegrations]);
+
+  const createIntegration = async (
+    integration: Parameters<DirectorySyncEngine['createIntegration']>[0],
+    credentials: BindCredentials
+  ) => {
+    if (!user) return null;
+
+    try {
+      const created = await engine.createIntegration(integration, credentials, user.id);
+
+      if (created) {
+        toast({
+          title: 'Directory Added',
+          description: `${integration.name} has been registered`
+        });
+        await loadIntegrations();
+      } else {
+        toast({
+          title: 'Creation Failed',
+          description: 'Failed to register the directory',
+          variant: 'destructive'
+        });
+      }
+
+      return created;
+    } catch (error) {
+      toast({
+        title: 'Creation Failed',
+        description: error instanceof Error ? error.message : 'Failed to register the directory',
+        variant: 'destructive'
+      });
+      return null;
+    }
+  };
+
+  const toggleSync = async (integrationId: string, enabled: boolean) => {
+    const success = await engine.setSyncEnabled(integrationId, enabled);
+
+    if (success) {
+      setIntegrations(prev => prev.map(i => (i.id === integrationId ? { ...i, sync_enabled: enabled } : i)));
+    }
+
+    return success;
+  };
+
+  /**
+   * The passphrase is only needed for directories whose bind credentials
+   * predate envelope encryption; reading them migrates them
+   */
+  const legacyMasterKey = async (passphrase?: string) =>
+    passphrase ? await DirectorySyncEngine.deriveMasterKey(passphrase) : undefined;
+
+  const runSync = async (integrationId: string, dryRun: boolean, passphrase?: string) => {
+    if (!user) return null;
+
+    setSyncing(true);
+    try {
+      const masterKey = await legacyMasterKey(passphrase);
+      const result = await engine.sync(integrationId, user.id, { masterKey }, { dryRun });
+      setLastResult(result);
+
+      toast({
+        title: dryRun ? 'Sync Preview' : result.success ? 'Sync Complete' : 'Sync Finished With Errors',
+        description: result.message,
+        variant: result.success ? 'default' : 'destructive'
+      });
+
+      if (!dryRun) {
+        await loadIntegrations();
+      }
+
+      return result;
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const syncDue = async (passphrase?: string) => {
+    if (!user) return [];
+
+    setSyncing(true);
+    try {
+      const masterKey = await legacyMasterKey(passphrase);
+      const results = await engine.syncDueIntegrations(user.id, masterKey);
+
+      toast({
+        title: 'Scheduled Sync',
+        description: results.length === 0
+          ? 'No directories are due for sync'
+          : `Synced ${results.length} director${results.length === 1 ? 'y' : 'ies'}`
+      });
+
+      await loadIntegrations();
+      return results;
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return {
+    integrations,
+    lastResult,
+    loading,
+    syncing,
+    loadIntegrations,
+    createIntegration,
+    toggleSync,
+    runSync,
+    syncDue
+  };
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  FederatedIdentityLink,
+  FederationService,
+  FederationProvider,
+  FederationProtocol,
+  LocalIdPUser,
+  RoleMapping,
+  SystemRole
+} from '@/lib/federation-service';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useFederation() {
+  const { user } = useAuth();
+  const [service] = useState(() => new FederationService());
+  const [providers, setProviders] = useState<FederationProvider[]>([]);
+  const [roleMappings, setRoleMappings] = useState<Record<string, RoleMapping[]>>({});
+  const [pendingLinks, setPendingLinks] = useState<FederatedIdentityLink[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadProviders = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await service.getProviders();
+      setProviders(data);
+
+      const mappings: Record<string, RoleMapping[]> = {};
+      for (const provider of data) {
+        mappings[provider.name] = await service.getRoleMappings(provider.name);
+      }
+      setRoleMappings(mappings);
+      setPendingLinks(await service.getPendingLinks());
+    } catch (error) {
+      console.error('Error loading federation providers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [service]);
+
+  useEffect(() => {
+    if (user) {
+      loadProviders();
+    }
+  }, [user, loadProviders]);
+
+  const saveProvider = async (
+    provider: Partial<FederationProvider> & { name: string; provider_type: FederationProtocol }
+  ) => {
+    if (!user) return null;
+
+    try {
+      const saved = await service.saveProvider(provider, user.id);
+      toast({
+        title: 'Provider Saved',
+        description: `${provider.name} metadata was validated and saved`
+      });
+      await loadProviders();
+      return saved;
+    } catch (error) {
+      toast({
+        title: 'Save Failed',
+        description: error instanceof Error ? error.message : 'Failed to save provider',
+        variant: 'destructive'
+      });
+      return null;
+    }
+  };
+
+  const toggleProvider = async (providerId: string, enabled: boolean) => {
+    const success = await service.setProviderEnabled(providerId, enabled);
+
+    if (success) {
+      setProviders(prev => prev.map(p => (p.id === providerId ? { ...p, is_enabled: enabled } : p)));
+    } else {
+      toast({
+        title: 'Update Failed',
+        description: 'Failed to update provider status',
+        variant: 'destructive'
+      });
+    }
+
+    return success;
+  };
+
+  const addRoleMapping = async (providerName: string, claimKey: string, claimValue: string, role: SystemRole) => {
+    if (!user) return false;
+
+    const success = await service.addRoleMapping(providerName, claimKey, claimValue, role, user.id);
+
+    if (success) {
+      const mappings = await service.getRoleMappings(providerName);
+      setRoleMappings(prev => ({ ...prev, [providerName]: mappings }));
+    } else {
+      toast({
+        title: 'Mapping Failed',
+        description: 'Failed to create role mapping',
+        variant: 'destructive'
+      });
+    }
+
+    return success;
+  };
+
+  const removeRoleMapping = async (providerName: string, mappingId: string) => {
+    const success = await service.removeRoleMapping(mappingId);
+
+    if (success) {
+      setRoleMappings(prev => ({
+        ...prev,
+        [providerName]: (prev[providerName] || []).filter(m => m.id !== mappingId)
+      }));
+    }
+
+    return success;
+  };
+
+  const approveLink = async (identityId: string) => {
+    const success = await service.approveLink(identityId);
+
+    if (success) {
+      setPendingLinks(prev => prev.filter(link => link.id !== identityId));
+    } else {
+      toast({
+        title: 'Approval Failed',
+        description: 'Failed to approve the account link',
+        variant: 'destructive'
+      });
+    }
+
+    return success;
+  };
+
+  const testWithLocalIdP = async (providerId: string, testUser: LocalIdPUser) => {
+    if (!user) return null;
+
+    const result = await service.testWithLocalIdP(providerId, testUser);
+
+    toast({
+      title: result.success ? 'Federated Login Succeeded' : 'Federated Login Failed',
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive'
+    });
+
+    return result;
+  };
+
+  return {
+    providers,
+    roleMappings,
+    pendingLinks,
+    loading,
+    loadProviders,
+    saveProvider,
+    toggleProvider,
+    addRoleMapping,
+    removeRoleMapping,
+    approveLink,
+    testWithLocalIdP
+  };
+}
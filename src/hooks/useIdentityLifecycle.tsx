@@ -0,0 +1,133 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  IdentityLifecycleEngine,
+  LifecycleWorkflow,
+  LifecycleEventType,
+  LifecycleParams,
+  LifecycleStepId,
+  ResidualAccess,
+  WorkflowRunResult
+} from '@/lib/identity-lifecycle';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useIdentityLifecycle() {
+  const { user } = useAuth();
+  const [engine] = useState(() => new IdentityLifecycleEngine());
+  const [workflows, setWorkflows] = useState<LifecycleWorkflow[]>([]);
+  const [residualAccess, setResidualAccess] = useState<ResidualAccess[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const loadWorkflows = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [workflowData, residualData] = await Promise.all([
+        engine.getWorkflows(),
+        engine.findResidualAccess()
+      ]);
+      setWorkflows(workflowData);
+      setResidualAccess(residualData);
+    } catch (error) {
+      console.error('Error loading lifecycle workflows:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [engine]);
+
+  useEffect(() => {
+    if (user) {
+      loadWorkflows();
+    }
+  }, [user, loadWorkflows]);
+
+  const reportResult = (result: WorkflowRunResult | null, title: string) => {
+    if (!result) {
+      toast({
+        title: `${title} Failed`,
+        description: 'The workflow could not be started',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    toast({
+      title: result.success ? title : `${title} Incomplete`,
+      description: result.message,
+      variant: result.success ? 'default' : 'destructive'
+    });
+  };
+
+  const startWorkflow = async (
+    userId: string,
+    eventType: LifecycleEventType,
+    params: LifecycleParams,
+    requireApproval = false
+  ) => {
+    if (!user) return null;
+
+    setRunning(true);
+    try {
+      const result = await engine.startWorkflow(userId, eventType, params, user.id, { requireApproval });
+      reportResult(result, requireApproval ? 'Workflow Submitted' : 'Workflow Complete');
+      await loadWorkflows();
+      return result;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const approveWorkflow = async (workflowId: string) => {
+    if (!user) return null;
+
+    setRunning(true);
+    try {
+      const result = await engine.approveWorkflow(workflowId, user.id);
+      reportResult(result, 'Workflow Approved');
+      await loadWorkflows();
+      return result;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const resumeWorkflow = async (workflowId: string) => {
+    if (!user) return null;
+
+    setRunning(true);
+    try {
+      const result = await engine.resumeWorkflow(workflowId, user.id);
+      reportResult(result, 'Workflow Resumed');
+      await loadWorkflows();
+      return result;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const skipStep = async (workflowId: string, stepId: LifecycleStepId) => {
+    if (!user) return false;
+
+    const success = await engine.skipStep(workflowId, stepId, user.id);
+    if (success) {
+      toast({
+        title: 'Step Skipped',
+        description: 'Resume the workflow to run the remaining steps'
+      });
+      await loadWorkflows();
+    }
+    return success;
+  };
+
+  return {
+    workflows,
+    residualAccess,
+    loading,
+    running,
+    loadWorkflows,
+    startWorkflow,
+    approveWorkflow,
+    resumeWorkflow,
+    skipStep
+  };
+}
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  KeyRotationPolicy,
+  KeyRotationScheduler,
+  ManagedKey,
+  OrganizationRotationStatus,
+  RotationOutcome,
+  RotationReport
+} from '@/lib/key-rotation-scheduler';
+
+// How often a signed-in session checks for keys due for rotation
+const SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface KeyRotationRecord {
+  id: string;
+  resource_type: string;
+  resource_id: string;
+  replacement_id: string | null;
+  key_type: string;
+  trigger: string;
+  status: string;
+  due_at: string;
+  error: string | null;
+  created_at: string;
+}
+
+export type PolicyChanges = Partial<Pick<
+  KeyRotationPolicy,
+  'rotationIntervalDays' | 'autoRotationEnabled' | 'escrowRequired' | 'backupRequired'
+>>;
+
+/**
+ * Key rotation state for the signed-in user. With schedule set the hook
+ * runs the scheduler when the user signs in and hourly after that, and is
+ * otherwise headless.
+ */
+export function useKeyRotation(options: { schedule?: boolean } = {}) {
+  const { user, userRole } = useAuth();
+  const [policies, setPolicies] = useState<KeyRotationPolicy[]>([]);
+  const [managedKeys, setManagedKeys] = useState<ManagedKey[]>([]);
+  const [history, setHistory] = useState<KeyRotationRecord[]>([]);
+  const [report, setReport] = useState<RotationReport | null>(null);
+  const [organization, setOrganization] = useState<OrganizationRotationStatus | null>(null);
+  const [hasEscrowPassphrase, setHasEscrowPassphrase] = useState(KeyRotationScheduler.hasEscrowPassphrase());
+  const [running, setRunning] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const isAdmin = userRole === 'admin';
+  const schedule = options.schedule ?? false;
+
+  const fetchRotationState = useCallback(async () => {
+    try {
+      const currentPolicies = await KeyRotationScheduler.getPolicies();
+      setPolicies(currentPolicies);
+      setManagedKeys(await KeyRotationScheduler.findManagedKeys(user!.id, currentPolicies));
+
+      const { data, error } = await supabase
+        .from('quantum_key_rotations')
+        .select('id, resource_type, resource_id, replacement_id, key_type, trigger, status, due_at, error, created_at')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+      setHistory(data || []);
+
+      if (isAdmin) {
+        setOrganization(await KeyRotationScheduler.scanOrganization());
+      }
+    } catch (error) {
+      console.error('Error fetching key rotation state:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, isAdmin]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    if (!schedule) {
+      fetchRotationState();
+      return;
+    }
+
+    const runScheduled = async () => {
+      try {
+        await KeyRotationScheduler.run(user.id, 'scheduled');
+        if (isAdmin) {
+          await KeyRotationScheduler.scanOrganization();
+        }
+      } catch (error) {
+        console.error('Error running key rotation scheduler:', error);
+      }
+    };
+
+    runScheduled();
+    const timer = setInterval(runScheduled, SCHEDULE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, isAdmin, schedule, fetchRotationState]);
+
+  const runScheduler = async (): Promise<RotationReport> => {
+    setRunning(true);
+    try {
+      const result = await KeyRotationScheduler.run(user!.id, 'manual');
+      setReport(result);
+      await fetchRotationState();
+      return result;
+    } catch (error) {
+      console.error('Error running key rotation scheduler:', error);
+      throw error;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  /**
+   * Rotate one key now, even if its policy leaves rotation to the user
+   */
+  const rotateKey = async (key: ManagedKey): Promise<RotationOutcome> => {
+    setRunning(true);
+    try {
+      const outcome = await KeyRotationScheduler.rotateKey(key);
+      await fetchRotationState();
+      return outcome;
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const setEscrowPassphrase = (passphrase: string | null) => {
+    KeyRotationScheduler.setEscrowPassphrase(passphrase);
+    setHasEscrowPassphrase(KeyRotationScheduler.hasEscrowPassphrase());
+  };
+
+  const updatePolicy = async (policyId: string, changes: PolicyChanges): Promise<void> => {
+    try {
+      const { error } = await supabase
+        .from('quantum_key_policies')
+        .update({
+          rotation_interval_days: changes.rotationIntervalDays,
+          auto_rotation_enabled: changes.autoRotationEnabled,
+          escrow_required: changes.escrowRequired,
+          backup_required: changes.backupRequired
+        })
+        .eq('id', policyId);
+
+      if (error) throw error;
+
+      await supabase.rpc('log_audit_event', {
+        _action: 'KEY_POLICY_UPDATED',
+        _resource: 'quantum_key_policies',
+        _resource_id: policyId,
+        _details: { ...changes }
+      });
+
+      await fetchRotationState();
+    } catch (error) {
+      console.error('Error updating key policy:', error);
+      throw error;
+    }
+  };
+
+  const createPolicy = async (params: {
+    name: string;
+    keyType: 'kem' | 'signature' | 'certificate';
+    rotationIntervalDays: number;
+  }): Promise<void> => {
+    try {
+      const { data, error } = await supabase
+        .from('quantum_key_policies')
+        .insert({
+          policy_name: params.name,
+          key_type: params.keyType,
+          rotation_interval_days: params.rotationIntervalDays,
+          created_by: user!.id
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      await supabase.rpc('log_audit_event', {
+        _action: 'KEY_POLICY_CREATED',
+        _resource: 'quantum_key_policies',
+        _resource_id: data.id,
+        _details: { ...params }
+      });
+
+      await fetchRotationState();
+    } catch (error) {
+      console.error('Error creating key policy:', error);
+      throw error;
+    }
+  };
+
+  return {
+    policies,
+    managedKeys,
+    history,
+    report,
+    organization,
+    hasEscrowPassphrase,
+    running,
+    loading,
+    isAdmin,
+    runScheduler,
+    rotateKey,
+    setEscrowPassphrase,
+    updatePolicy,
+    createPolicy,
+    refreshRotationState: fetchRotationState
+  };
+}
@@ -1,6 +1,8 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "./useAuth";
+import { useAccessDecisions } from "./usePolicyDecision";
 import { supabase } from "@/integrations/supabase/client";
+import { Obligation } from "@/lib/policy-decision-point";
 
 export interface Permission {
   id: string;
@@ -10,10 +12,25 @@ export interface Permission {
   description?: string;
 }
 
-export function usePermissions() {
+export interface RequiredPermission {
+  action: string;
+  resource: string;
+}
+
+const permissionKey = (action: string, resource: string) => `${action}:${resource}`;
+
+/**
+ * Permission checks for the signed-in user. The permissions a component
+ * checks are declared up front and decided by the unified policy decision
+ * point, so roles, groups, time-based grants, JIT sessions and Zero Trust
+ * policies all apply. A permission whose decision carries an outstanding
+ * obligation (MFA, approval, ...) is not held until the obligation is met.
+ */
+export function usePermissions(required: RequiredPermission[] = []) {
   const { user, userRole } = useAuth();
   const [permissions, setPermissions] = useState<Permission[]>([]);
   const [loading, setLoading] = useState(true);
+  const { decisions, loading: deciding, refresh } = useAccessDecisions(required);
 
   useEffect(() => {
     if (user && userRole) {
@@ -26,6 +43,13 @@ export function usePermissions() {
 
   const fetchUserPermissions = async () => {
     try {
+      const { data: roles, error: rolesError } = await supabase
+        .from('user_roles')
+        .select('role')
+        .eq('user_id', user!.id);
+
+      if (rolesError) throw rolesError;
+
       const { data, error } = await supabase
         .from('role_permissions')
         .select(`
@@ -37,12 +61,13 @@ export function usePermissions() {
             description
           )
         `)
-        .eq('role', userRole as any);
+        .in('role', (roles || []).map(r => r.role));
 
       if (error) throw error;
 
       const userPermissions = data?.map(rp => rp.permissions).filter(Boolean) || [];
-      setPermissions(userPermissions as Permission[]);
+      const unique = new Map((userPermissions as Permission[]).map(p => [p.id, p]));
+      setPermissions([...unique.values()]);
     } catch (error) {
       console.error('Error fetching user permissions:', error);
       setPermissions([]);
@@ -51,20 +76,30 @@ export function usePermissions() {
     }
   };
 
+  const decisionFor = (action: string, resource: string) => {
+    const key = permissionKey(action, resource);
+    const decision = decisions.find(d => permissionKey(d.request.action, d.request.resource.type) === key);
+    if (!decision && !required.some(r => permissionKey(r.action, r.resource) === key)) {
+      console.warn(`Permission ${key} was checked without being passed to usePermissions`);
+    }
+    return decision;
+  };
+
+  const outstandingObligations = (action: string, resource: string): Obligation[] => {
+    const decision = decisionFor(action, resource);
+    return decision?.allowed ? decision.obligations.filter(o => o.type !== 'monitor') : [];
+  };
+
+  const isPermitted = (action: string, resource: string): boolean => {
+    return decisionFor(action, resource)?.allowed ?? false;
+  };
+
   const hasPermission = (action: string, resource: string): boolean => {
-    if (userRole === 'admin') return true; // Admins have all permissions
-    
-    return permissions.some(
-      permission => 
-        permission.action === action && 
-        permission.resource === resource
-    );
+    return isPermitted(action, resource) && outstandingObligations(action, resource).length === 0;
   };
 
-  const hasAnyPermission = (requiredPermissions: Array<{ action: string; resource: string }>): boolean => {
-    if (userRole === 'admin') return true;
-    
-    return requiredPermissions.some(({ action, resource }) => 
+  const hasAnyPermission = (requiredPermissions: RequiredPermission[]): boolean => {
+    return requiredPermissions.some(({ action, resource }) =>
       hasPermission(action, resource)
     );
   };
@@ -79,11 +114,15 @@ export function usePermissions() {
 
   return {
     permissions,
-    loading,
+    loading: loading || deciding,
     hasPermission,
     hasAnyPermission,
+    isPermitted,
+    outstandingObligations,
     canAccess,
     canManage,
-    refetch: fetchUserPermissions
+    refetch: async () => {
+      await Promise.all([fetchUserPermissions(), refresh()]);
+    }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { PolicyRepository, PolicyVersion } from '@/lib/policy-repository';
+import { PolicyCompiler, CompiledPolicy, PolicyDiagnostic } from '@/lib/policy-language';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function usePolicyAuthoring() {
+  const { user } = useAuth();
+  const [repository] = useState(() => new PolicyRepository());
+  const [deployed, setDeployed] = useState<PolicyVersion[]>([]);
+  const [diagnostics, setDiagnostics] = useState<PolicyDiagnostic[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [deploying, setDeploying] = useState(false);
+
+  const loadPolicies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setDeployed(await repository.getCurrentPolicies());
+    } catch (error) {
+      console.error('Error loading deployed policies:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [repository]);
+
+  useEffect(() => {
+    if (user) {
+      loadPolicies();
+    }
+  }, [user, loadPolicies]);
+
+  const check = useCallback((source: string) => {
+    const result = PolicyCompiler.compile(source);
+    setDiagnostics(result.diagnostics);
+    return result;
+  }, []);
+
+  const deploy = async (source: string) => {
+    if (!user) return null;
+
+    setDeploying(true);
+    try {
+      const result = await repository.deploy(source, user.id);
+      setDiagnostics(result.diagnostics);
+      toast({
+        title: result.success ? 'Policies Deployed' : 'Deployment Failed',
+        description: result.message,
+        variant: result.success ? 'default' : 'destructive'
+      });
+      if (result.deployed.length > 0) await loadPolicies();
+      return result;
+    } finally {
+      setDeploying(false);
+    }
+  };
+
+  const setPolicyActive = async (compiled: CompiledPolicy, isActive: boolean) => {
+    if (!user) return false;
+
+    const version = await repository.setActive(compiled, isActive, user.id);
+    if (!version) {
+      toast({
+        title: 'Update Failed',
+        description: 'Failed to record the policy change on the blockchain',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    if (version !== 'unchanged') {
+      toast({
+        title: 'Policy Updated',
+        description: `${version.name} v${version.version} recorded on blockchain`
+      });
+      await loadPolicies();
+    }
+    return true;
+  };
+
+  const getHistory = useCallback((policyId: string) => repository.getHistory(policyId), [repository]);
+  const verifyVersion = useCallback((version: PolicyVersion) => repository.verifyVersion(version), [repository]);
+
+  return {
+    deployed,
+    diagnostics,
+    loading,
+    deploying,
+    loadPolicies,
+    check,
+    deploy,
+    setPolicyActive,
+    getHistory,
+    verifyVersion
+  };
+}
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  PolicyDecisionPoint,
+  CombiningAlgorithm,
+  DecisionContext,
+  DecisionResource,
+  PolicyDecision
+} from '@/lib/policy-decision-point';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+
+export interface AccessRequest {
+  action: string;
+  resource: DecisionResource | string;
+  context?: DecisionContext;
+}
+
+// One PDP for the app: every gate and hook shares its sources and its audit chain
+let sharedPdp: PolicyDecisionPoint | null = null;
+
+function policyDecisionPoint(): PolicyDecisionPoint {
+  if (!sharedPdp) {
+    sharedPdp = new PolicyDecisionPoint();
+  }
+  return sharedPdp;
+}
+
+/**
+ * Access decisions for the signed-in user through the unified PDP, as every
+ * role the user holds. MFA state comes from the session's authenticator
+ * assurance level unless the caller passes it explicitly.
+ */
+export function usePolicyDecision() {
+  const { user, session, userRole } = useAuth();
+  const [roles, setRoles] = useState<string[]>([]);
+  const [mfaVerified, setMfaVerified] = useState(false);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    if (!user || !session) {
+      setRoles([]);
+      setMfaVerified(false);
+      setReady(true);
+      return;
+    }
+
+    let cancelled = false;
+    setReady(false);
+
+    Promise.all([
+      supabase.from('user_roles').select('role').eq('user_id', user.id),
+      supabase.auth.mfa.getAuthenticatorAssuranceLevel()
+    ]).then(([rolesResult, aalResult]) => {
+      if (cancelled) return;
+      if (rolesResult.error) {
+        console.error('Error fetching roles for decisions:', rolesResult.error);
+      }
+      setRoles((rolesResult.data || []).map(r => r.role));
+      setMfaVerified(aalResult.data?.currentLevel === 'aal2');
+      setReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+    // userRole changes when the user's roles are refreshed
+  }, [user, session, userRole]);
+
+  const decide = useCallback(async (
+    action: string,
+    resource: DecisionResource | string,
+    context: DecisionContext = {},
+    algorithm?: CombiningAlgorithm
+  ): Promise<PolicyDecision> => {
+    if (!user) {
+      return PolicyDecisionPoint.denied(action, resource, 'Not authenticated');
+    }
+
+    return policyDecisionPoint().decide(
+      { id: user.id, roles },
+      action,
+      resource,
+      { mfaVerified, ...context },
+      algorithm
+    );
+  }, [user, roles, mfaVerified]);
+
+  return { decide, mfaVerified, ready };
+}
+
+/**
+ * Evaluate a set of decisions and keep them current as the user or inputs
+ * change. Decisions are returned in request order.
+ */
+export function useAccessDecisions(requests: AccessRequest[]) {
+  const { decide, ready } = usePolicyDecision();
+  const [decisions, setDecisions] = useState<PolicyDecision[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Requests are usually object literals; re-evaluate only when their value changes
+  const key = JSON.stringify(requests);
+  const [inputs, setInputs] = useState({ key, requests });
+  if (inputs.key !== key) {
+    setInputs({ key, requests });
+  }
+
+  const refresh = useCallback(async () => {
+    if (!ready) return;
+
+    setLoading(true);
+    try {
+      setDecisions(await Promise.all(
+        inputs.requests.map(r => decide(r.action, r.resource, r.context))
+      ));
+    } finally {
+      setLoading(false);
+    }
+  }, [decide, ready, inputs]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { decisions, loading: loading || !ready, refresh };
+}
@@ -0,0 +1,41 @@
+import { useState, useCallback } from 'react';
+import {
+  PolicySimulator,
+  SimulationOptions,
+  SimulationPolicySet,
+  SimulationReport
+} from '@/lib/policy-simulator';
+import { toast } from '@/hooks/use-toast';
+
+export function usePolicySimulation() {
+  const [simulator] = useState(() => new PolicySimulator());
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const simulate = useCallback(async (
+    baseline: SimulationPolicySet,
+    candidate: SimulationPolicySet,
+    options?: SimulationOptions
+  ) => {
+    setRunning(true);
+    try {
+      const result = await simulator.simulate(baseline, candidate, options);
+      setReport(result);
+      return result;
+    } catch (error) {
+      console.error('Error running policy simulation:', error);
+      toast({
+        title: 'Simulation Failed',
+        description: 'Could not replay access events against the candidate policies',
+        variant: 'destructive'
+      });
+      return null;
+    } finally {
+      setRunning(false);
+    }
+  }, [simulator]);
+
+  const reset = useCallback(() => setReport(null), []);
+
+  return { report, running, simulate, reset };
+}
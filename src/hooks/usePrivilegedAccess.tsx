@@ -60,6 +60,39 @@ export function usePrivilegedAccess() {
     }
   }, [user]);
 
+  /**
+   * Accounts created before envelope encryption have their credentials
+   * sealed with a key kept in this browser
+   */
+  const getLegacyKey = (accountId: string): Uint8Array | undefined => {
+    const keyData = localStorage.getItem(`pam_key_${accountId}`);
+    if (!keyData) return undefined;
+
+    return new Uint8Array(
+      atob(keyData).split('').map(char => char.charCodeAt(0))
+    );
+  };
+
+  /**
+   * Move legacy credentials to envelope encryption once they have been read
+   */
+  const migrateLegacyCredentials = async (accountId: string, encrypted: string, legacyKey: Uint8Array) => {
+    try {
+      const migrated = await PrivilegedAccessManager.migrateLegacyCredentials(encrypted, legacyKey);
+      const { error } = await supabase
+        .from('privileged_accounts')
+        .update({ credentials_encrypted: migrated })
+        .eq('id', accountId)
+        .eq('credentials_encrypted', encrypted);
+
+      if (error) throw error;
+      localStorage.removeItem(`pam_key_${accountId}`);
+      await fetchPrivilegedAccounts();
+    } catch (error) {
+      console.error('Error migrating privileged account credentials:', error);
+    }
+  };
+
   const fetchPrivilegedAccounts = async () => {
     try {
       const { data, error } = await supabase
@@ -123,10 +156,7 @@ export function usePrivilegedAccess() {
     }
 
     try {
-      // Generate master key for encryption using PQC
-      const masterKey = await PQCMigration.generateSecureRandom(32);
-      
-      // Create account using PAM library
+      // Create account using PAM library; credentials are envelope-encrypted
       const account = await PrivilegedAccessManager.createPrivilegedAccount(
         {
           account_name: accountData.account_name,
@@ -138,8 +168,7 @@ export function usePrivilegedAccess() {
           rotation_interval: accountData.rotation_interval || 'P30D',
           is_active: true
         },
-        accountData.credentials,
-        masterKey
+        accountData.credentials
       );
 
       // Store in database
@@ -164,9 +193,6 @@ export function usePrivilegedAccess() {
 
       if (error) throw error;
 
-      // Store master key securely (in production, use proper key management)
-      localStorage.setItem(`pam_key_${data.id}`, btoa(String.fromCharCode(...masterKey)));
-
       await fetchPrivilegedAccounts();
       toast.success('Privileged account created successfully');
 
@@ -195,16 +221,11 @@ export function usePrivilegedAccess() {
         return { success: false, error: 'Account not found' };
       }
 
-      // Retrieve master key
-      const keyData = localStorage.getItem(`pam_key_${accountId}`);
-      if (!keyData) {
+      const legacyKey = getLegacyKey(accountId);
+      if (PrivilegedAccessManager.isLegacyCredentials(account.credentials_encrypted) && !legacyKey) {
         return { success: false, error: 'Unable to decrypt credentials' };
       }
 
-      const masterKey = new Uint8Array(
-        atob(keyData).split('').map(char => char.charCodeAt(0))
-      );
-
       // Prepare checkout request
       const request: PAMCheckoutRequest = {
         account_id: accountId,
@@ -218,10 +239,14 @@ export function usePrivilegedAccess() {
       const result = await PrivilegedAccessManager.checkoutCredentials(
         account as PrivilegedAccount,
         request,
-        masterKey,
-        user.id
+        user.id,
+        legacyKey
       );
 
+      if (result.success && legacyKey && PrivilegedAccessManager.isLegacyCredentials(account.credentials_encrypted)) {
+        await migrateLegacyCredentials(accountId, account.credentials_encrypted, legacyKey);
+      }
+
       if (result.success && result.session_id) {
         // Create session record
         const { error: sessionError } = await supabase
@@ -347,22 +372,10 @@ export function usePrivilegedAccess() {
         password: await PQCMigration.randomString(16)
       };
 
-      // Retrieve master key
-      const keyData = localStorage.getItem(`pam_key_${accountId}`);
-      if (!keyData) {
-        toast.error('Unable to decrypt credentials');
-        return false;
-      }
-
-      const masterKey = new Uint8Array(
-        atob(keyData).split('').map(char => char.charCodeAt(0))
-      );
-
       // Rotate credentials
       const rotatedAccount = await PrivilegedAccessManager.rotateCredentials(
         account as PrivilegedAccount,
-        newCredentials,
-        masterKey
+        newCredentials
       );
 
       // Update database
@@ -377,6 +390,9 @@ export function usePrivilegedAccess() {
 
       if (error) throw error;
 
+      // The new credentials are envelope-encrypted; a device-held key is no longer needed
+      localStorage.removeItem(`pam_key_${accountId}`);
+
       await fetchPrivilegedAccounts();
       toast.success('Credentials rotated successfully');
       return true;
@@ -1,49 +1,86 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
-import { QuantumCA, QuantumCertificate, CertificateRequest } from '@/lib/quantum-pki';
-import { PostQuantumSignatures } from '@/lib/quantum-pqc';
+import { bytesToHex } from '@noble/curves/utils.js';
+import {
+  KeyAlgorithm,
+  PathValidationResult,
+  RevocationReason,
+  SignatureAlgorithm,
+  X509Certificate,
+  certificatesFromPem,
+  createCertificationRequest,
+  fromPem,
+  generateKeyPair,
+  parseCrl,
+  signMessage,
+  toPem,
+  validatePath
+} from '@/lib/x509';
+
+// Must match supabase/functions/quantum-pki
+const FUNCTION_NAME = 'quantum-pki';
+
+export type CertificateType = 'identity' | 'signing' | 'encryption' | 'authentication';
 
 export interface QuantumCertificateInfo {
   id: string;
   user_id: string;
-  certificate_type: 'identity' | 'signing' | 'encryption' | 'authentication';
+  ca_id: string | null;
+  certificate_type: CertificateType;
+  /** PEM-encoded X.509 certificate */
   certificate_data: string;
   public_key: string;
   serial_number: string;
   issuer: string;
   subject: string;
+  key_algorithm: string;
+  signature_algorithm: string;
   valid_from: string;
   valid_until: string;
   is_revoked: boolean;
-  revocation_reason?: string;
-  revoked_at?: string;
+  revocation_reason?: string | null;
+  revoked_at?: string | null;
   created_at: string;
   updated_at: string;
 }
 
-export interface PKIRootInfo {
+export interface CertificateAuthorityInfo {
   id: string;
   name: string;
-  description?: string;
-  root_certificate: string;
-  algorithm: string;
-  is_active: boolean;
-  created_by: string;
-  created_at: string;
-  expires_at: string;
+  subject: string;
+  parentId: string | null;
+  algorithm: SignatureAlgorithm;
+  serialNumber: string;
+  pathLength: number | null;
+  /** PEM certificate */
+  certificate: string;
+  /** PEM CRL, re-signed by the service before it goes stale */
+  crl: string | null;
+  crlNextUpdate: string | null;
+  expiresAt: string;
+  isActive: boolean;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 }
 
 export function useQuantumPKI() {
-  const { user } = useAuth();
+  const { user, userRole } = useAuth();
   const [certificates, setCertificates] = useState<QuantumCertificateInfo[]>([]);
-  const [pkiRoots, setPkiRoots] = useState<PKIRootInfo[]>([]);
+  const [authorities, setAuthorities] = useState<CertificateAuthorityInfo[]>([]);
   const [loading, setLoading] = useState(true);
+  const isAdmin = userRole === 'admin';
 
   useEffect(() => {
     if (user) {
       fetchCertificates();
-      fetchPKIRoots();
+      fetchAuthorities();
     }
   }, [user]);
 
@@ -58,7 +95,7 @@ export function useQuantumPKI() {
       if (error) throw error;
       setCertificates((data || []).map(cert => ({
         ...cert,
-        certificate_type: cert.certificate_type as 'identity' | 'signing' | 'encryption' | 'authentication'
+        certificate_type: cert.certificate_type as CertificateType
       })));
     } catch (error) {
       console.error('Error fetching certificates:', error);
@@ -67,137 +104,154 @@ export function useQuantumPKI() {
     }
   };
 
-  const fetchPKIRoots = async () => {
+  const fetchAuthorities = async (): Promise<CertificateAuthorityInfo[]> => {
     try {
-      const { data, error } = await supabase
-        .from('quantum_pki_roots')
-        .select('*')
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
-
+      const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/ca`, { method: 'GET' });
       if (error) throw error;
-      setPkiRoots(data || []);
+
+      setAuthorities(data as CertificateAuthorityInfo[]);
+      return data as CertificateAuthorityInfo[];
     } catch (error) {
-      console.error('Error fetching PKI roots:', error);
+      console.error('Error fetching certificate authorities:', error);
+      return [];
     }
   };
 
+  /**
+   * Generate a key pair locally and have the issuing CA certify it. Signature
+   * keys are sent as a PKCS #10 request; encryption certificates carry an
+   * ML-KEM-768 key, which cannot sign one.
+   */
   const requestCertificate = async (
-    certificateType: 'identity' | 'signing' | 'encryption' | 'authentication',
+    certificateType: CertificateType,
     subject: string,
-    validityDays: number = 365
+    validityDays: number = 365,
+    algorithm: SignatureAlgorithm = 'ML-DSA-65'
   ): Promise<QuantumCertificateInfo> => {
     try {
-      // Generate post-quantum key pair for the certificate
-      const keyPair = await PostQuantumSignatures.generateKeyPair65();
-      
-      // Create certificate request
-      const request: CertificateRequest = {
-        subject,
-        publicKey: keyPair.publicKey,
-        keyUsage: [certificateType === 'signing' ? 'digitalSignature' : 'keyEncipherment'],
-        validityDays
-      };
-
-      // For demo purposes, create a self-signed certificate
-      // In production, this would go through a proper CA
-      const { ca, rootCert } = await QuantumCA.createRootCA('Demo CA', 3650);
-      const certificate = await ca.issueCertificate(request);
-
-      // Store certificate in database
-      const { data, error } = await supabase
-        .from('quantum_certificates')
-        .insert({
-          user_id: user?.id,
-          certificate_type: certificateType,
-          certificate_data: certificate.certificateData,
-          public_key: Array.from(certificate.publicKey).join(','),
-          serial_number: certificate.serialNumber,
-          issuer: certificate.issuer,
-          subject: certificate.subject,
-          valid_from: certificate.validFrom.toISOString(),
-          valid_until: certificate.validUntil.toISOString()
-        })
-        .select()
-        .single();
-
+      const keyPair = generateKeyPair(certificateType === 'encryption' ? 'ML-KEM-768' : algorithm);
+      const body = certificateType === 'encryption'
+        ? { certificateType, subject, validityDays, publicKey: bytesToBase64(keyPair.publicKey) }
+        : {
+            certificateType,
+            validityDays,
+            csr: toPem(await createCertificationRequest(subject, keyPair), 'CERTIFICATE REQUEST')
+          };
+
+      const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/certificates`, { body });
       if (error) throw error;
 
+      const certificate = data.certificate as QuantumCertificateInfo;
+
       // Store private key securely (in production, use HSM or secure enclave)
       localStorage.setItem(
-        `quantum_cert_key_${data.id}`, 
-        Array.from(keyPair.privateKey).join(',')
+        `quantum_cert_key_${certificate.id}`,
+        Array.from(keyPair.secretKey).join(',')
       );
 
       await fetchCertificates();
-      return {
-        ...data,
-        certificate_type: data.certificate_type as 'identity' | 'signing' | 'encryption' | 'authentication'
-      };
+      return certificate;
     } catch (error) {
       console.error('Error requesting certificate:', error);
       throw error;
     }
   };
 
-  const revokeCertificate = async (certificateId: string, reason: string): Promise<void> => {
+  /**
+   * Revoke a certificate we issued; its CA re-signs its CRL and the OCSP
+   * responder reports it as revoked
+   */
+  const revokeCertificate = async (certificateId: string, reason: RevocationReason = 'unspecified'): Promise<void> => {
+    try {
+      const { error } = await supabase.functions.invoke(`${FUNCTION_NAME}/certificates/${certificateId}/revoke`, {
+        body: { reason }
+      });
+      if (error) throw error;
+
+      await fetchCertificates();
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      throw error;
+    }
+  };
+
+  /**
+   * Imported certificates belong to another CA, so they are only removed
+   */
+  const removeCertificate = async (certificateId: string): Promise<void> => {
     try {
       const { error } = await supabase
         .from('quantum_certificates')
-        .update({
-          is_revoked: true,
-          revocation_reason: reason,
-          revoked_at: new Date().toISOString()
-        })
+        .delete()
         .eq('id', certificateId)
-        .eq('user_id', user?.id);
+        .is('ca_id', null);
 
       if (error) throw error;
 
-      // Log the revocation
-      await supabase.rpc('log_audit_event', {
-        _action: 'CERTIFICATE_REVOKED',
-        _resource: 'quantum_certificates',
-        _resource_id: certificateId,
-        _details: { reason }
-      });
-
+      localStorage.removeItem(`quantum_cert_key_${certificateId}`);
       await fetchCertificates();
     } catch (error) {
-      console.error('Error revoking certificate:', error);
+      console.error('Error removing certificate:', error);
       throw error;
     }
   };
 
+  /**
+   * Validate a certificate's path to one of our root CAs, with the current
+   * CRL of every CA on the path
+   */
+  const validateCertificate = async (
+    certificate: X509Certificate,
+    extraIntermediates: X509Certificate[] = []
+  ): Promise<PathValidationResult> => {
+    const cas = authorities.length ? authorities : await fetchAuthorities();
+    const caCertificates = cas.flatMap(ca => certificatesFromPem(ca.certificate).map(cert => ({ ca, cert })));
+
+    return validatePath(
+      certificate,
+      [...extraIntermediates, ...caCertificates.filter(c => c.ca.parentId).map(c => c.cert)],
+      caCertificates.filter(c => !c.ca.parentId).map(c => c.cert),
+      {
+        crls: cas.filter(ca => ca.crl).map(ca => parseCrl(fromPem(ca.crl!)[0].der)),
+        requireRevocationInfo: true
+      }
+    );
+  };
+
   const verifyCertificate = async (certificateId: string): Promise<boolean> => {
     try {
       const certificate = certificates.find(c => c.id === certificateId);
-      if (!certificate) return false;
-
-      // Check validity period
-      const now = new Date();
-      const validFrom = new Date(certificate.valid_from);
-      const validUntil = new Date(certificate.valid_until);
-      
-      if (now < validFrom || now > validUntil) return false;
-      if (certificate.is_revoked) return false;
-
-      // In a full implementation, verify the certificate signature
-      // against the issuing CA's public key
-      return true;
+      if (!certificate || certificate.is_revoked) return false;
+
+      const [leaf] = certificatesFromPem(certificate.certificate_data);
+      if (!leaf) return false;
+
+      return (await validateCertificate(leaf)).valid;
     } catch (error) {
       console.error('Error verifying certificate:', error);
       return false;
     }
   };
 
+  const certificateChain = (certificate: QuantumCertificateInfo): string[] => {
+    const chain = [certificate.certificate_data];
+    let ca = authorities.find(a => a.id === certificate.ca_id);
+    while (ca && chain.length < 8) {
+      chain.push(ca.certificate);
+      const parentId = ca.parentId;
+      ca = parentId ? authorities.find(a => a.id === parentId) : undefined;
+    }
+    return chain;
+  };
+
   const signWithCertificate = async (
-    certificateId: string, 
+    certificateId: string,
     message: string
   ): Promise<{ signature: string; certificateChain: string[] }> => {
     try {
       const certificate = certificates.find(c => c.id === certificateId);
       if (!certificate) throw new Error('Certificate not found');
+      if (certificate.key_algorithm === 'ML-KEM-768') throw new Error('Encryption certificates cannot sign');
 
       // Retrieve private key
       const privateKeyData = localStorage.getItem(`quantum_cert_key_${certificateId}`);
@@ -206,12 +260,11 @@ export function useQuantumPKI() {
       const privateKey = new Uint8Array(privateKeyData.split(',').map(Number));
       const messageBytes = new TextEncoder().encode(message);
 
-      // Sign with post-quantum algorithm (ML-DSA-65)
-      const signature = await PostQuantumSignatures.sign65(messageBytes, privateKey);
+      const signature = await signMessage(certificate.key_algorithm as SignatureAlgorithm, privateKey, messageBytes);
 
       return {
-        signature: Array.from(signature).join(','),
-        certificateChain: [certificate.certificate_data]
+        signature: bytesToBase64(signature),
+        certificateChain: certificateChain(certificate)
       };
     } catch (error) {
       console.error('Error signing with certificate:', error);
@@ -219,71 +272,87 @@ export function useQuantumPKI() {
     }
   };
 
-  const exportCertificate = (certificateId: string, format: 'pem' | 'der' | 'json' = 'json'): string => {
+  /**
+   * A PEM bundle of the certificate followed by its issuing CAs up to the
+   * root, or the stored row as JSON
+   */
+  const exportCertificate = (certificateId: string, format: 'pem' | 'json' = 'pem'): string => {
     const certificate = certificates.find(c => c.id === certificateId);
     if (!certificate) throw new Error('Certificate not found');
 
-    switch (format) {
-      case 'json':
-        return JSON.stringify(certificate, null, 2);
-      case 'pem':
-        // Convert to PEM format (base64 with headers)
-        const certData = btoa(certificate.certificate_data);
-        return `-----BEGIN QUANTUM CERTIFICATE-----\n${certData}\n-----END QUANTUM CERTIFICATE-----`;
-      case 'der':
-        // Return as binary DER format (simplified)
-        return certificate.certificate_data;
-      default:
-        throw new Error('Unsupported format');
+    if (format === 'json') {
+      return JSON.stringify(certificate, null, 2);
     }
+
+    return certificateChain(certificate).join('');
   };
 
-  const importCertificate = async (certificateData: string, format: 'pem' | 'der' | 'json' = 'json'): Promise<void> => {
+  /**
+   * Import a PEM bundle whose first certificate chains to one of our roots.
+   * Certificates after the first are used as intermediates.
+   */
+  const importCertificate = async (
+    pemBundle: string,
+    certificateType: CertificateType = 'identity'
+  ): Promise<PathValidationResult> => {
     try {
-      let parsedCert: any;
-
-      switch (format) {
-        case 'json':
-          parsedCert = JSON.parse(certificateData);
-          break;
-        case 'pem':
-          // Extract certificate data from PEM format
-          const pemData = certificateData
-            .replace('-----BEGIN QUANTUM CERTIFICATE-----', '')
-            .replace('-----END QUANTUM CERTIFICATE-----', '')
-            .replace(/\s/g, '');
-          parsedCert = JSON.parse(atob(pemData));
-          break;
-        case 'der':
-          parsedCert = JSON.parse(certificateData);
-          break;
-        default:
-          throw new Error('Unsupported format');
+      const [leaf, ...intermediates] = certificatesFromPem(pemBundle);
+      if (!leaf) throw new Error('The bundle contains no certificate');
+      if (leaf.isCA) throw new Error('CA certificates cannot be imported as user certificates');
+
+      const validation = await validateCertificate(leaf, intermediates);
+      if (!validation.valid) {
+        throw new Error(validation.errors.join('; '));
       }
 
-      // Store imported certificate
       const { error } = await supabase
         .from('quantum_certificates')
         .insert({
           user_id: user?.id,
-          certificate_type: parsedCert.certificate_type || 'identity',
-          certificate_data: parsedCert.certificate_data,
-          public_key: parsedCert.public_key,
-          serial_number: parsedCert.serial_number,
-          issuer: parsedCert.issuer,
-          subject: parsedCert.subject,
-          valid_from: parsedCert.valid_from,
-          valid_until: parsedCert.valid_until
+          ca_id: null,
+          certificate_type: certificateType,
+          certificate_data: toPem(leaf.der),
+          public_key: bytesToHex(leaf.publicKey),
+          serial_number: leaf.serialNumber,
+          issuer: leaf.issuer,
+          subject: leaf.subject,
+          key_algorithm: leaf.keyAlgorithm,
+          signature_algorithm: leaf.signatureAlgorithm,
+          valid_from: leaf.notBefore.toISOString(),
+          valid_until: leaf.notAfter.toISOString()
         });
 
       if (error) throw error;
       await fetchCertificates();
+      return validation;
     } catch (error) {
       console.error('Error importing certificate:', error);
       throw error;
     }
   };
 
+  /**
+   * Administrators: a new root, or an intermediate under an existing CA
+   */
+  const createCertificateAuthority = async (params: {
+    name: string;
+    algorithm: SignatureAlgorithm;
+    parentId?: string;
+    validityDays?: number;
+    pathLength?: number;
+  }): Promise<CertificateAuthorityInfo> => {
+    try {
+      const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/ca`, { body: params });
+      if (error) throw error;
+
+      await fetchAuthorities();
+      return data as CertificateAuthorityInfo;
+    } catch (error) {
+      console.error('Error creating certificate authority:', error);
+      throw error;
+    }
+  };
+
   const getCertificateInfo = (certificateId: string) => {
     const certificate = certificates.find(c => c.id === certificateId);
     if (!certificate) return null;
@@ -294,6 +363,8 @@ export function useQuantumPKI() {
 
     return {
       ...certificate,
+      keyAlgorithm: certificate.key_algorithm as KeyAlgorithm,
+      isImported: certificate.ca_id === null,
       isExpired: now > validUntil,
       daysUntilExpiry,
       isNearExpiry: daysUntilExpiry <= 30 && daysUntilExpiry > 0
@@ -302,15 +373,19 @@ export function useQuantumPKI() {
 
   return {
     certificates,
-    pkiRoots,
+    authorities,
+    isAdmin,
     loading,
     requestCertificate,
     revokeCertificate,
+    removeCertificate,
     verifyCertificate,
     signWithCertificate,
     exportCertificate,
     importCertificate,
+    createCertificateAuthority,
     getCertificateInfo,
-    fetchCertificates
+    fetchCertificates,
+    fetchAuthorities
   };
-}
\ No newline at end of file
+}
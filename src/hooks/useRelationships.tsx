@@ -0,0 +1,121 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  RelationshipAccessManager,
+  EffectiveAccess,
+  ObjectRef,
+  Relation,
+  RelationDirectory,
+  RelationTuple,
+  SubjectRef
+} from '@/lib/relationship-access';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useRelationships(object: ObjectRef | null) {
+  const { user } = useAuth();
+  const [manager] = useState(() => new RelationshipAccessManager());
+  const [tuples, setTuples] = useState<RelationTuple[]>([]);
+  const [access, setAccess] = useState<EffectiveAccess[]>([]);
+  const [directory, setDirectory] = useState<RelationDirectory>({ users: [], groups: [] });
+  const [loading, setLoading] = useState(false);
+
+  const objectType = object?.type;
+  const objectId = object?.id;
+
+  const loadRelationships = useCallback(async () => {
+    if (!objectType || !objectId) return;
+
+    const target: ObjectRef = { type: objectType, id: objectId };
+    try {
+      setLoading(true);
+      const [objectTuples, tree] = await Promise.all([
+        manager.getTuples(target),
+        manager.expand(target, RelationshipAccessManager.accessRelation(objectType))
+      ]);
+      setTuples(objectTuples);
+      setAccess(RelationshipAccessManager.flatten(tree));
+    } catch (error) {
+      console.error('Error loading relationships:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [manager, objectType, objectId]);
+
+  useEffect(() => {
+    if (user) {
+      loadRelationships();
+    }
+  }, [user, loadRelationships]);
+
+  useEffect(() => {
+    if (user) {
+      manager.getDirectory().then(setDirectory);
+    }
+  }, [user, manager]);
+
+  const share = async (relation: Relation, subject: SubjectRef) => {
+    if (!user || !object) return false;
+
+    const tuple = await manager.share(object, relation, subject, user.id);
+    if (!tuple) {
+      toast({
+        title: 'Sharing Failed',
+        description: 'Only owners and administrators can share this item',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    toast({
+      title: 'Shared',
+      description: `Granted ${relation} on ${object.type}`
+    });
+    await loadRelationships();
+    return true;
+  };
+
+  const revoke = async (tuple: RelationTuple) => {
+    if (!user) return false;
+
+    const success = await manager.revoke(tuple, user.id);
+    toast({
+      title: success ? 'Access Revoked' : 'Revoke Failed',
+      description: success
+        ? `Removed ${tuple.relation} from ${tuple.subject.type}`
+        : 'Only owners and administrators can change sharing',
+      variant: success ? 'default' : 'destructive'
+    });
+    if (success) await loadRelationships();
+    return success;
+  };
+
+  const setParent = async (parentId: string | null) => {
+    if (!user || !object) return false;
+
+    const parentType = RelationshipAccessManager.parentType(object.type);
+    const success = await manager.setParent(object, parentId, user.id);
+    toast({
+      title: success ? 'Location Updated' : 'Move Failed',
+      description: success
+        ? parentId ? `Moved into ${parentType} "${parentId}"` : `Removed from ${parentType}`
+        : `You cannot file items into ${parentType} "${parentId}"`,
+      variant: success ? 'default' : 'destructive'
+    });
+    if (success) await loadRelationships();
+    return success;
+  };
+
+  const parent = tuples.find(t => t.relation === 'parent') || null;
+
+  return {
+    tuples,
+    parent,
+    access,
+    directory,
+    loading,
+    loadRelationships,
+    share,
+    revoke,
+    setParent
+  };
+}
@@ -17,7 +17,9 @@ export function useRouteProtection({
   redirectTo = '/auth'
 }: RouteProtectionOptions = {}) {
   const { user, userRole, loading: authLoading } = useAuth();
-  const { hasPermission, loading: permissionsLoading } = usePermissions();
+  const { hasPermission, loading: permissionsLoading } = usePermissions(
+    requiredPermission ? [requiredPermission] : []
+  );
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -36,7 +38,7 @@ export function useRouteProtection({
     }
 
     // Check permission requirements
-    if (requiredPermission && userRole !== 'admin') {
+    if (requiredPermission) {
       const { action, resource } = requiredPermission;
       if (!hasPermission(action, resource)) {
         navigate('/dashboard');
@@ -60,7 +62,7 @@ export function useRouteProtection({
     isLoading: authLoading || permissionsLoading,
     isAuthenticated: !!user,
     hasRequiredRole: !requiredRole || userRole === requiredRole || userRole === 'admin',
-    hasRequiredPermission: !requiredPermission || userRole === 'admin' || 
+    hasRequiredPermission: !requiredPermission ||
       hasPermission(requiredPermission.action, requiredPermission.resource)
   };
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  SeparationOfDutiesEngine,
+  CreateSoDPolicyInput,
+  SoDPolicy,
+  SoDViolation
+} from '@/lib/separation-of-duties';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useSeparationOfDuties() {
+  const { user } = useAuth();
+  const [engine] = useState(() => new SeparationOfDutiesEngine());
+  const [policies, setPolicies] = useState<SoDPolicy[]>([]);
+  const [violations, setViolations] = useState<SoDViolation[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [working, setWorking] = useState(false);
+
+  const loadAll = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [policyData, violationData] = await Promise.all([
+        engine.getPolicies(),
+        engine.getViolations()
+      ]);
+      setPolicies(policyData);
+      setViolations(violationData);
+    } catch (error) {
+      console.error('Error loading separation of duties data:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [engine]);
+
+  useEffect(() => {
+    if (user) {
+      loadAll();
+    }
+  }, [user, loadAll]);
+
+  const createPolicy = async (input: CreateSoDPolicyInput) => {
+    if (!user) return null;
+
+    const policy = await engine.createPolicy(input, user.id);
+    toast({
+      title: policy ? 'Policy Created' : 'Policy Failed',
+      description: policy
+        ? `${policy.name} is enforced at '${policy.enforcement}' level`
+        : 'Failed to create the separation of duties policy',
+      variant: policy ? 'default' : 'destructive'
+    });
+
+    if (policy) await loadAll();
+    return policy;
+  };
+
+  const setPolicyActive = async (policyId: string, isActive: boolean) => {
+    if (!user) return false;
+
+    const success = await engine.updatePolicy(policyId, { isActive }, user.id);
+    if (success) {
+      await loadAll();
+    } else {
+      toast({
+        title: 'Update Failed',
+        description: 'Failed to update the policy',
+        variant: 'destructive'
+      });
+    }
+    return success;
+  };
+
+  const detectViolations = async () => {
+    if (!user) return 0;
+
+    setWorking(true);
+    try {
+      const detected = await engine.detectViolations(user.id);
+      toast({
+        title: 'Scan Complete',
+        description: detected > 0
+          ? `${detected} new separation of duties violations found`
+          : 'No new separation of duties violations found'
+      });
+      await loadAll();
+      return detected;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const assignViolation = async (violationId: string, assigneeId?: string) => {
+    if (!user) return false;
+
+    const success = await engine.assignViolation(violationId, assigneeId || user.id, user.id);
+    if (success) await loadAll();
+    return success;
+  };
+
+  const resolveViolation = async (violationId: string, notes: string, revokeGrant: boolean) => {
+    if (!user) return null;
+
+    setWorking(true);
+    try {
+      const result = await engine.resolveViolation(violationId, user.id, { notes, revokeGrant });
+      toast({
+        title: result.success ? 'Violation Resolved' : 'Resolution Failed',
+        description: result.message,
+        variant: result.success ? 'default' : 'destructive'
+      });
+      if (result.success) await loadAll();
+      return result;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const dismissViolation = async (violationId: string, notes: string) => {
+    if (!user) return false;
+
+    const success = await engine.dismissViolation(violationId, user.id, notes);
+    if (success) {
+      toast({
+        title: 'Marked False Positive',
+        description: 'The violation has been closed'
+      });
+      await loadAll();
+    }
+    return success;
+  };
+
+  return {
+    policies,
+    violations,
+    loading,
+    working,
+    loadAll,
+    createPolicy,
+    setPolicyActive,
+    detectViolations,
+    assignViolation,
+    resolveViolation,
+    dismissViolation
+  };
+}
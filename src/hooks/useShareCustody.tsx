@@ -0,0 +1,180 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ThresholdShareCustody,
+  CustodiedKey,
+  CustodyParticipant,
+  KeyCeremony,
+  ShareCustodyStatus
+} from '@/lib/threshold-share-custody';
+import { KeyShare, MultiPartyKeyGeneration } from '@/lib/threshold-signatures';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useShareCustody(keyId: string | null) {
+  const { user } = useAuth();
+  const [custody] = useState(() => new ThresholdShareCustody());
+  const [keys, setKeys] = useState<CustodiedKey[]>([]);
+  const [statuses, setStatuses] = useState<ShareCustodyStatus[]>([]);
+  const [participants, setParticipants] = useState<CustodyParticipant[]>([]);
+  const [ceremony, setCeremony] = useState<KeyCeremony | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadCustody = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [custodiedKeys, shareStatus, openCeremony] = await Promise.all([
+        custody.getKeys(),
+        keyId ? custody.getShareStatus(keyId) : Promise.resolve([]),
+        keyId ? custody.getOpenCeremony(keyId) : Promise.resolve(null)
+      ]);
+      setKeys(custodiedKeys);
+      setStatuses(shareStatus);
+      setCeremony(openCeremony);
+    } catch (error) {
+      console.error('Error loading share custody:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [custody, keyId]);
+
+  useEffect(() => {
+    if (user) {
+      loadCustody();
+    }
+  }, [user, loadCustody]);
+
+  useEffect(() => {
+    if (user) {
+      custody.getEligibleParticipants().then(setParticipants);
+    }
+  }, [user, custody]);
+
+  const deposit = async (generation: MultiPartyKeyGeneration) => {
+    if (!user) return null;
+
+    const epoch = await custody.depositKeyShares(generation, user.id);
+    toast({
+      title: epoch ? 'Shares Sealed' : 'Custody Failed',
+      description: epoch
+        ? `Sealed ${generation.keyShares.length} shares to their holders (epoch ${epoch})`
+        : 'Could not seal the shares to every participant\'s ML-KEM key',
+      variant: epoch ? 'default' : 'destructive'
+    });
+    await loadCustody();
+    return epoch;
+  };
+
+  const retrieve = async (targetKeyId: string, kemSecretKey?: Uint8Array): Promise<KeyShare | null> => {
+    if (!user) return null;
+
+    const share = await custody.retrieveKeyShare(targetKeyId, user.id, kemSecretKey);
+    toast({
+      title: share ? 'Share Unsealed' : 'Retrieval Failed',
+      description: share
+        ? `Share ${share.shareId} of ${targetKeyId} is loaded on this device`
+        : 'No share could be unsealed with your ML-KEM key',
+      variant: share ? 'default' : 'destructive'
+    });
+    if (share) await loadCustody();
+    return share;
+  };
+
+  const startRefresh = async (targetKeyId: string) => {
+    if (!user) return null;
+
+    const ceremonyId = await custody.startRefresh(targetKeyId, user.id);
+    toast({
+      title: ceremonyId ? 'Refresh Started' : 'Refresh Failed',
+      description: ceremonyId
+        ? 'Every holder now deals a refresh of the shares from their own device'
+        : 'Could not start a refresh of this key',
+      variant: ceremonyId ? 'default' : 'destructive'
+    });
+    await loadCustody();
+    return ceremonyId;
+  };
+
+  const startReplacement = async (targetKeyId: string, shareId: number, newParticipantId: string) => {
+    if (!user) return null;
+
+    const ceremonyId = await custody.startReplacement(targetKeyId, user.id, shareId, newParticipantId);
+    toast({
+      title: ceremonyId ? 'Replacement Started' : 'Replacement Failed',
+      description: ceremonyId
+        ? `The dealing holders now reshare share ${shareId} to its new holder from their own devices`
+        : 'Could not start resharing to the new holder',
+      variant: ceremonyId ? 'default' : 'destructive'
+    });
+    await loadCustody();
+    return ceremonyId;
+  };
+
+  const contribute = async (share: KeyShare) => {
+    if (!user || !ceremony) return false;
+
+    const contributed = await custody.contribute(ceremony, share, user.id);
+    toast({
+      title: contributed ? 'Contribution Sealed' : 'Contribution Failed',
+      description: contributed
+        ? `Share ${share.shareId} dealt its sub-shares to ${ceremony.recipients.length} recipients`
+        : 'Could not deal from this share',
+      variant: contributed ? 'default' : 'destructive'
+    });
+    await loadCustody();
+    return contributed;
+  };
+
+  const accept = async (currentShare?: KeyShare, kemSecretKey?: Uint8Array) => {
+    if (!user || !ceremony) return null;
+
+    const result = await custody.acceptShare(ceremony, user.id, currentShare, kemSecretKey);
+    toast({
+      title: result ? 'New Share Deposited' : 'Accept Failed',
+      description: result
+        ? result.completed
+          ? `Epoch ${ceremony.targetEpoch} is now live`
+          : `Share ${result.share.shareId} is sealed; epoch ${ceremony.targetEpoch} goes live once every recipient has accepted`
+        : 'Could not combine the sub-shares dealt to you',
+      variant: result ? 'default' : 'destructive'
+    });
+    await loadCustody();
+    return result;
+  };
+
+  const cancelCeremony = async () => {
+    if (!user || !ceremony) return false;
+
+    const cancelled = await custody.cancelCeremony(ceremony, user.id);
+    if (!cancelled) {
+      toast({
+        title: 'Cancel Failed',
+        description: 'Only the key\'s managers can cancel an open ceremony',
+        variant: 'destructive'
+      });
+    }
+    await loadCustody();
+    return cancelled;
+  };
+
+  // Shares of a running ceremony are deposited ahead of its epoch
+  const currentEpoch = keys.find(k => k.keyId === keyId)?.epoch || 0;
+  const currentShares = statuses.filter(s => s.epoch === currentEpoch);
+
+  return {
+    keys,
+    statuses,
+    currentEpoch,
+    currentShares,
+    participants,
+    ceremony,
+    loading,
+    loadCustody,
+    deposit,
+    retrieve,
+    startRefresh,
+    startReplacement,
+    contribute,
+    accept,
+    cancelCeremony
+  };
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useAuth } from "./useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import { SeparationOfDutiesEngine } from "@/lib/separation-of-duties";
 
 export interface UserGroup {
   id: string;
@@ -41,6 +42,7 @@ export function useUserGroups() {
   const { user } = useAuth();
   const [groups, setGroups] = useState<UserGroup[]>([]);
   const [loading, setLoading] = useState(true);
+  const [sod] = useState(() => new SeparationOfDutiesEngine());
 
   useEffect(() => {
     if (user) {
@@ -148,6 +150,15 @@ export function useUserGroups() {
 
   const addUserToGroup = async (userId: string, groupId: string) => {
     try {
+      if (!user) throw new Error('User not authenticated');
+
+      // The member receives every permission of the group
+      const evaluation = await sod.evaluateGrant(
+        { type: 'group_membership', userId, groupId },
+        user.id
+      );
+      if (!evaluation.allowed) throw new Error(evaluation.message);
+
       const { error } = await supabase
         .from('user_group_memberships')
         .insert({
@@ -198,6 +209,15 @@ export function useUserGroups() {
 
   const assignPermissionToGroup = async (groupId: string, permissionId: string) => {
     try {
+      if (!user) throw new Error('User not authenticated');
+
+      // Every member of the group receives the permission
+      const evaluation = await sod.evaluateGrant(
+        { type: 'group_permission', groupId, permissionId },
+        user.id
+      );
+      if (!evaluation.allowed) throw new Error(evaluation.message);
+
       const { error } = await supabase
         .from('group_permissions')
         .insert({
@@ -209,6 +229,7 @@ export function useUserGroups() {
       if (error) throw error;
 
       await fetchGroups(); // Refresh to get updated permissions
+      return evaluation;
     } catch (error) {
       console.error('Error assigning permission to group:', error);
       throw error;
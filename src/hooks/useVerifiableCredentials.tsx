@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  VerifiableCredentialManager,
+  IssuedCredential,
+  IssueCredentialRequest,
+  HolderKey,
+  CredentialSubjectOption,
+  PresentationChallenge,
+  VerifiablePresentation,
+  CredentialVerificationResult
+} from '@/lib/verifiable-credentials';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export function useVerifiableCredentials() {
+  const { user, userRole } = useAuth();
+  const [manager] = useState(() => new VerifiableCredentialManager());
+  const [walletCredentials, setWalletCredentials] = useState<IssuedCredential[]>([]);
+  const [issuedCredentials, setIssuedCredentials] = useState<IssuedCredential[]>([]);
+  const [subjects, setSubjects] = useState<CredentialSubjectOption[]>([]);
+  const [holderKey, setHolderKey] = useState<HolderKey | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const isAdmin = userRole === 'admin';
+
+  const loadCredentials = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [wallet, issued] = await Promise.all([
+        manager.getHolderCredentials(user.id),
+        isAdmin ? manager.getIssuedCredentials() : Promise.resolve([])
+      ]);
+      setWalletCredentials(wallet);
+      setIssuedCredentials(issued);
+      setHolderKey(manager.getHolderKey(user.id));
+    } catch (error) {
+      console.error('Error loading credentials:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [manager, user, isAdmin]);
+
+  useEffect(() => {
+    if (user) {
+      loadCredentials();
+    }
+  }, [user, loadCredentials]);
+
+  useEffect(() => {
+    if (user && isAdmin) {
+      manager.getCredentialSubjects().then(setSubjects);
+    }
+  }, [user, isAdmin, manager]);
+
+  const issue = async (request: IssueCredentialRequest) => {
+    const credential = await manager.issueCredential(request);
+    toast({
+      title: credential ? 'Credential Issued' : 'Issuance Failed',
+      description: credential
+        ? `${request.type} signed for ${credential.credentialSubject.id}`
+        : 'The credential could not be issued; the subject needs a DID',
+      variant: credential ? 'default' : 'destructive'
+    });
+    if (credential) await loadCredentials();
+    return credential;
+  };
+
+  const revoke = async (id: string, reason?: string) => {
+    const success = await manager.revokeCredential(id, reason);
+    toast({
+      title: success ? 'Credential Revoked' : 'Revocation Failed',
+      description: success
+        ? 'The status list has been updated and anchored on the blockchain'
+        : 'Could not revoke the credential',
+      variant: success ? 'default' : 'destructive'
+    });
+    if (success) await loadCredentials();
+    return success;
+  };
+
+  const createHolderKey = async () => {
+    if (!user) return null;
+
+    const key = await manager.createHolderKey(user.id);
+    setHolderKey(key);
+    toast({
+      title: key ? 'Holder Key Created' : 'Key Setup Failed',
+      description: key
+        ? 'Your presentation key was added to your DID document'
+        : 'Could not add a presentation key to your DID document',
+      variant: key ? 'default' : 'destructive'
+    });
+    return key;
+  };
+
+  const present = async (credentialIds: string[], challenge: string, domain: string): Promise<VerifiablePresentation | null> => {
+    if (!holderKey) return null;
+
+    try {
+      const selected = walletCredentials
+        .filter(c => credentialIds.includes(c.id))
+        .map(c => c.credential);
+      return await manager.createPresentation(selected, holderKey, challenge, domain);
+    } catch (error) {
+      toast({
+        title: 'Presentation Failed',
+        description: error instanceof Error ? error.message : 'Could not sign the presentation',
+        variant: 'destructive'
+      });
+      return null;
+    }
+  };
+
+  const requestChallenge = async (domain: string): Promise<PresentationChallenge | null> => {
+    const challenge = await manager.requestChallenge(domain);
+    if (!challenge) {
+      toast({
+        title: 'Challenge Failed',
+        description: 'Could not obtain a presentation challenge',
+        variant: 'destructive'
+      });
+    }
+    return challenge;
+  };
+
+  const verify = async (
+    presentation: VerifiablePresentation,
+    challenge: string,
+    domain: string
+  ): Promise<CredentialVerificationResult> => {
+    const result = await manager.verifyWithService({ presentation, challenge, domain });
+    toast({
+      title: result.verified ? 'Presentation Verified' : 'Verification Failed',
+      description: result.verified
+        ? `${result.credentials.length} credential${result.credentials.length === 1 ? '' : 's'} from ${result.holder}`
+        : result.errors[0],
+      variant: result.verified ? 'default' : 'destructive'
+    });
+    return result;
+  };
+
+  return {
+    walletCredentials,
+    issuedCredentials,
+    subjects,
+    holderKey,
+    loading,
+    isAdmin,
+    loadCredentials,
+    issue,
+    revoke,
+    createHolderKey,
+    present,
+    requestChallenge,
+    verify
+  };
+}
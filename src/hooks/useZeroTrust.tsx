@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { ZeroTrustRules } from '@/lib/zero-trust-rules';
 
 export interface ZeroTrustPolicy {
   id: string;
@@ -133,42 +134,14 @@ export function useZeroTrust() {
     const now = context.timeOfAccess || new Date();
 
     for (const policy of policies) {
-      let matched = false;
-      let reason = '';
-
-      switch (policy.policy_type) {
-        case 'device':
-          matched = evaluateDevicePolicy(policy, context);
-          reason = matched ? 'Device criteria matched' : 'Device criteria not met';
-          break;
-
-        case 'network':
-          matched = evaluateNetworkPolicy(policy, context);
-          reason = matched ? 'Network criteria matched' : 'Network criteria not met';
-          break;
-
-        case 'location':
-          matched = evaluateLocationPolicy(policy, context);
-          reason = matched ? 'Location criteria matched' : 'Location criteria not met';
-          break;
-
-        case 'behavioral':
-          matched = evaluateBehavioralPolicy(policy, context);
-          reason = matched ? 'Behavioral criteria matched' : 'Behavioral criteria not met';
-          break;
-
-        case 'time_based':
-          matched = evaluateTimeBasedPolicy(policy, now);
-          reason = matched ? 'Time criteria matched' : 'Time criteria not met';
-          break;
-      }
+      const result = ZeroTrustRules.evaluate(policy, { ...context, timeOfAccess: now });
 
       evaluations.push({
         policyId: policy.id,
         policyName: policy.name,
-        matched,
-        action: matched ? policy.actions.action || 'allow' : 'none',
-        reason,
+        matched: result.matched,
+        action: result.action,
+        reason: result.reason,
         timestamp: now
       });
     }
@@ -176,102 +149,6 @@ export function useZeroTrust() {
     return evaluations;
   };
 
-  const evaluateDevicePolicy = (policy: ZeroTrustPolicy, context: any): boolean => {
-    const conditions = policy.conditions;
-    
-    if (conditions.trusted_devices && context.deviceId) {
-      return conditions.trusted_devices.includes(context.deviceId);
-    }
-
-    if (conditions.allowed_user_agents && context.userAgent) {
-      return conditions.allowed_user_agents.some((ua: string) => 
-        context.userAgent.includes(ua)
-      );
-    }
-
-    if (conditions.blocked_user_agents && context.userAgent) {
-      return !conditions.blocked_user_agents.some((ua: string) => 
-        context.userAgent.includes(ua)
-      );
-    }
-
-    return true;
-  };
-
-  const evaluateNetworkPolicy = (policy: ZeroTrustPolicy, context: any): boolean => {
-    const conditions = policy.conditions;
-    
-    if (conditions.allowed_ip_ranges && context.ipAddress) {
-      return conditions.allowed_ip_ranges.some((range: string) => 
-        isIPInRange(context.ipAddress, range)
-      );
-    }
-
-    if (conditions.blocked_ip_ranges && context.ipAddress) {
-      return !conditions.blocked_ip_ranges.some((range: string) => 
-        isIPInRange(context.ipAddress, range)
-      );
-    }
-
-    if (conditions.require_vpn && context.ipAddress) {
-      // In a real implementation, check if IP is from known VPN ranges
-      return isVPNIP(context.ipAddress);
-    }
-
-    return true;
-  };
-
-  const evaluateLocationPolicy = (policy: ZeroTrustPolicy, context: any): boolean => {
-    const conditions = policy.conditions;
-    
-    if (conditions.allowed_countries && context.location) {
-      return conditions.allowed_countries.includes(context.location);
-    }
-
-    if (conditions.blocked_countries && context.location) {
-      return !conditions.blocked_countries.includes(context.location);
-    }
-
-    return true;
-  };
-
-  const evaluateBehavioralPolicy = (policy: ZeroTrustPolicy, context: any): boolean => {
-    const conditions = policy.conditions;
-    
-    if (conditions.min_behavioral_score && context.behavioralScore !== undefined) {
-      return context.behavioralScore >= conditions.min_behavioral_score;
-    }
-
-    if (conditions.max_behavioral_score && context.behavioralScore !== undefined) {
-      return context.behavioralScore <= conditions.max_behavioral_score;
-    }
-
-    return true;
-  };
-
-  const evaluateTimeBasedPolicy = (policy: ZeroTrustPolicy, accessTime: Date): boolean => {
-    const conditions = policy.conditions;
-    
-    if (conditions.allowed_hours) {
-      const hour = accessTime.getHours();
-      return conditions.allowed_hours.includes(hour);
-    }
-
-    if (conditions.allowed_days) {
-      const day = accessTime.getDay();
-      return conditions.allowed_days.includes(day);
-    }
-
-    if (conditions.business_hours_only) {
-      const hour = accessTime.getHours();
-      const day = accessTime.getDay();
-      // Monday-Friday, 9 AM - 5 PM
-      return day >= 1 && day <= 5 && hour >= 9 && hour <= 17;
-    }
-
-    return true;
-  };
-
   const calculateTrustScore = (context: {
     deviceTrusted?: boolean;
     networkTrusted?: boolean;
@@ -323,24 +200,6 @@ export function useZeroTrust() {
     return Array.from(actions);
   };
 
-  // Helper functions
-  const isIPInRange = (ip: string, range: string): boolean => {
-    // Simplified IP range check - in production, use proper CIDR matching
-    if (range.includes('/')) {
-      const [network, prefix] = range.split('/');
-      // Implement proper CIDR matching here
-      return ip.startsWith(network.split('.').slice(0, 2).join('.'));
-    }
-    return ip === range;
-  };
-
-  const isVPNIP = (ip: string): boolean => {
-    // In production, check against known VPN IP ranges
-    // This is a simplified implementation
-    const vpnRanges = ['10.', '192.168.', '172.16.'];
-    return vpnRanges.some(range => ip.startsWith(range));
-  };
-
   const getDefaultPolicies = (): Omit<ZeroTrustPolicy, 'id' | 'created_by' | 'created_at' | 'updated_at'>[] => {
     return [
       {
@@ -14,6 +14,407 @@ export type Database = {
   }
   public: {
     Tables: {
+      access_review_campaigns: {
+        Row: {
+          completed_at: string | null
+          completed_by: string | null
+          created_at: string
+          created_by: string
+          description: string | null
+          due_date: string
+          fallback_reviewer_id: string
+          id: string
+          name: string
+          period_end: string
+          period_start: string
+          result: Json | null
+          result_hash: string | null
+          result_signature: string | null
+          reviewer_strategy: string
+          signing_key_id: string | null
+          status: string
+          total_items: number
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by: string
+          description?: string | null
+          due_date: string
+          fallback_reviewer_id: string
+          id?: string
+          name: string
+          period_end: string
+          period_start: string
+          result?: Json | null
+          result_hash?: string | null
+          result_signature?: string | null
+          reviewer_strategy?: string
+          signing_key_id?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          completed_by?: string | null
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          due_date?: string
+          fallback_reviewer_id?: string
+          id?: string
+          name?: string
+          period_end?: string
+          period_start?: string
+          result?: Json | null
+          result_hash?: string | null
+          result_signature?: string | null
+          reviewer_strategy?: string
+          signing_key_id?: string | null
+          status?: string
+          total_items?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_review_campaigns_signing_key_id_fkey"
+            columns: ["signing_key_id"]
+            isOneToOne: false
+            referencedRelation: "org_signing_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      access_review_items: {
+        Row: {
+          access_details: Json
+          access_label: string
+          access_type: string
+          campaign_id: string
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision: string
+          decision_comment: string | null
+          id: string
+          reviewer_id: string
+          revocation_error: string | null
+          revocation_status: string | null
+          revoked_at: string | null
+          source_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_details?: Json
+          access_label: string
+          access_type: string
+          campaign_id: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          decision_comment?: string | null
+          id?: string
+          reviewer_id: string
+          revocation_error?: string | null
+          revocation_status?: string | null
+          revoked_at?: string | null
+          source_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_details?: Json
+          access_label?: string
+          access_type?: string
+          campaign_id?: string
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision?: string
+          decision_comment?: string | null
+          id?: string
+          reviewer_id?: string
+          revocation_error?: string | null
+          revocation_status?: string | null
+          revoked_at?: string | null
+          source_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "access_review_items_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "access_review_campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      acme_accounts: {
+        Row: {
+          contact: string[]
+          created_at: string
+          external_account_id: string
+          id: string
+          jwk: Json
+          jwk_thumbprint: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          contact?: string[]
+          created_at?: string
+          external_account_id: string
+          id?: string
+          jwk: Json
+          jwk_thumbprint: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          contact?: string[]
+          created_at?: string
+          external_account_id?: string
+          id?: string
+          jwk?: Json
+          jwk_thumbprint?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acme_accounts_external_account_id_fkey"
+            columns: ["external_account_id"]
+            isOneToOne: false
+            referencedRelation: "acme_external_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      acme_authorizations: {
+        Row: {
+          account_id: string
+          created_at: string
+          expires_at: string
+          id: string
+          identifier: string
+          order_id: string
+          status: string
+          updated_at: string
+          wildcard: boolean
+        }
+        Insert: {
+          account_id: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          identifier: string
+          order_id: string
+          status?: string
+          updated_at?: string
+          wildcard?: boolean
+        }
+        Update: {
+          account_id?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          identifier?: string
+          order_id?: string
+          status?: string
+          updated_at?: string
+          wildcard?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acme_authorizations_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "acme_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "acme_authorizations_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "acme_accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      acme_challenges: {
+        Row: {
+          authorization_id: string
+          created_at: string
+          error: Json | null
+          id: string
+          status: string
+          token: string
+          type: string
+          validated_at: string | null
+        }
+        Insert: {
+          authorization_id: string
+          created_at?: string
+          error?: Json | null
+          id?: string
+          status?: string
+          token: string
+          type: string
+          validated_at?: string | null
+        }
+        Update: {
+          authorization_id?: string
+          created_at?: string
+          error?: Json | null
+          id?: string
+          status?: string
+          token?: string
+          type?: string
+          validated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acme_challenges_authorization_id_fkey"
+            columns: ["authorization_id"]
+            isOneToOne: false
+            referencedRelation: "acme_authorizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      acme_external_accounts: {
+        Row: {
+          allowed_domains: string[]
+          ca_id: string | null
+          created_at: string
+          created_by: string
+          hmac_key: string
+          id: string
+          key_id: string
+          name: string
+          policy_id: string | null
+          revoked_at: string | null
+          updated_at: string
+        }
+        Insert: {
+          allowed_domains: string[]
+          ca_id?: string | null
+          created_at?: string
+          created_by: string
+          hmac_key: string
+          id?: string
+          key_id: string
+          name: string
+          policy_id?: string | null
+          revoked_at?: string | null
+          updated_at?: string
+        }
+        Update: {
+          allowed_domains?: string[]
+          ca_id?: string | null
+          created_at?: string
+          created_by?: string
+          hmac_key?: string
+          id?: string
+          key_id?: string
+          name?: string
+          policy_id?: string | null
+          revoked_at?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acme_external_accounts_ca_id_fkey"
+            columns: ["ca_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_pki_roots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "acme_external_accounts_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_key_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      acme_nonces: {
+        Row: {
+          expires_at: string
+          nonce: string
+        }
+        Insert: {
+          expires_at: string
+          nonce: string
+        }
+        Update: {
+          expires_at?: string
+          nonce?: string
+        }
+        Relationships: []
+      }
+      acme_orders: {
+        Row: {
+          account_id: string
+          certificate_id: string | null
+          created_at: string
+          error: Json | null
+          expires_at: string
+          id: string
+          identifiers: Json
+          replaces: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          account_id: string
+          certificate_id?: string | null
+          created_at?: string
+          error?: Json | null
+          expires_at: string
+          id?: string
+          identifiers: Json
+          replaces?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          account_id?: string
+          certificate_id?: string | null
+          created_at?: string
+          error?: Json | null
+          expires_at?: string
+          id?: string
+          identifiers?: Json
+          replaces?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "acme_orders_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "acme_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "acme_orders_certificate_id_fkey"
+            columns: ["certificate_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_certificates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       adaptive_mfa_events: {
         Row: {
           challenge_id: string | null
@@ -249,6 +650,36 @@ export type Database = {
         }
         Relationships: []
       }
+      audit_chain_validator_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          key_id: string
+          public_key: string
+          revoked_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          key_id: string
+          public_key: string
+          revoked_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          key_id?: string
+          public_key?: string
+          revoked_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -333,6 +764,59 @@ export type Database = {
         }
         Relationships: []
       }
+      blind_index_queue: {
+        Row: {
+          index_name: string
+          queued_at: string
+          row_id: string
+        }
+        Insert: {
+          index_name: string
+          queued_at?: string
+          row_id: string
+        }
+        Update: {
+          index_name?: string
+          queued_at?: string
+          row_id?: string
+        }
+        Relationships: []
+      }
+      blind_index_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          index_name: string
+          key_id: string
+          row_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          index_name: string
+          key_id: string
+          row_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          index_name?: string
+          key_id?: string
+          row_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blind_index_tokens_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "data_encryption_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blockchain_archives: {
         Row: {
           archive_data: Json
@@ -404,39 +888,54 @@ export type Database = {
       }
       blockchain_blocks: {
         Row: {
+          block_data: string | null
           block_hash: string
           block_index: number
+          block_timestamp: number | null
           created_at: string
           difficulty: number
           id: string
           merkle_root: string
+          merkle_tree: string | null
           miner_id: string | null
           nonce: number
           previous_hash: string
+          signature: string | null
+          signer_public_key: string | null
           transaction_count: number
         }
         Insert: {
+          block_data?: string | null
           block_hash: string
           block_index: number
+          block_timestamp?: number | null
           created_at?: string
           difficulty: number
           id?: string
           merkle_root: string
+          merkle_tree?: string | null
           miner_id?: string | null
           nonce: number
           previous_hash: string
+          signature?: string | null
+          signer_public_key?: string | null
           transaction_count?: number
         }
         Update: {
+          block_data?: string | null
           block_hash?: string
           block_index?: number
+          block_timestamp?: number | null
           created_at?: string
           difficulty?: number
           id?: string
           merkle_root?: string
+          merkle_tree?: string | null
           miner_id?: string | null
           nonce?: number
           previous_hash?: string
+          signature?: string | null
+          signer_public_key?: string | null
           transaction_count?: number
         }
         Relationships: []
@@ -480,6 +979,93 @@ export type Database = {
         }
         Relationships: []
       }
+      blockchain_reconciliations: {
+        Row: {
+          created_at: string
+          heights: Json
+          id: string
+          invalid_blocks: Json
+          mismatches: Json
+          record_height: number
+          repaired_blocks: number[]
+          run_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          heights?: Json
+          id?: string
+          invalid_blocks?: Json
+          mismatches?: Json
+          record_height?: number
+          repaired_blocks?: number[]
+          run_by?: string | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          heights?: Json
+          id?: string
+          invalid_blocks?: Json
+          mismatches?: Json
+          record_height?: number
+          repaired_blocks?: number[]
+          run_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      blockchain_timestamps: {
+        Row: {
+          attested_at: string | null
+          bitcoin_height: number | null
+          block_hash: string
+          block_index: number
+          created_at: string
+          id: string
+          last_checked_at: string | null
+          last_error: string | null
+          method: string
+          proof: string
+          status: string
+          updated_at: string
+          upgrade_attempts: number
+        }
+        Insert: {
+          attested_at?: string | null
+          bitcoin_height?: number | null
+          block_hash: string
+          block_index: number
+          created_at?: string
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          method: string
+          proof: string
+          status?: string
+          updated_at?: string
+          upgrade_attempts?: number
+        }
+        Update: {
+          attested_at?: string | null
+          bitcoin_height?: number | null
+          block_hash?: string
+          block_index?: number
+          created_at?: string
+          id?: string
+          last_checked_at?: string | null
+          last_error?: string | null
+          method?: string
+          proof?: string
+          status?: string
+          updated_at?: string
+          upgrade_attempts?: number
+        }
+        Relationships: []
+      }
       compliance_reports: {
         Row: {
           created_at: string
@@ -693,6 +1279,59 @@ export type Database = {
           },
         ]
       }
+      data_encryption_keys: {
+        Row: {
+          created_at: string
+          destroyed_at: string | null
+          id: string
+          retired_at: string | null
+          rewrapped_at: string | null
+          root_key_id: string
+          scope_id: string
+          scope_type: string
+          status: string
+          user_id: string | null
+          version: number
+          wrapped_key: string | null
+        }
+        Insert: {
+          created_at?: string
+          destroyed_at?: string | null
+          id?: string
+          retired_at?: string | null
+          rewrapped_at?: string | null
+          root_key_id: string
+          scope_id: string
+          scope_type: string
+          status?: string
+          user_id?: string | null
+          version: number
+          wrapped_key?: string | null
+        }
+        Update: {
+          created_at?: string
+          destroyed_at?: string | null
+          id?: string
+          retired_at?: string | null
+          rewrapped_at?: string | null
+          root_key_id?: string
+          scope_id?: string
+          scope_type?: string
+          status?: string
+          user_id?: string | null
+          version?: number
+          wrapped_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_encryption_keys_root_key_id_fkey"
+            columns: ["root_key_id"]
+            isOneToOne: false
+            referencedRelation: "encryption_root_keys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       device_fingerprints: {
         Row: {
           compliance_status: string
@@ -738,6 +1377,45 @@ export type Database = {
         }
         Relationships: []
       }
+      did_operations: {
+        Row: {
+          anchor_hash: string | null
+          created_at: string
+          did: string
+          id: string
+          operation: Json
+          operation_hash: string
+          operation_type: string
+          previous_hash: string | null
+          sequence: number
+          submitted_by: string
+        }
+        Insert: {
+          anchor_hash?: string | null
+          created_at?: string
+          did: string
+          id?: string
+          operation: Json
+          operation_hash: string
+          operation_type: string
+          previous_hash?: string | null
+          sequence: number
+          submitted_by: string
+        }
+        Update: {
+          anchor_hash?: string | null
+          created_at?: string
+          did?: string
+          id?: string
+          operation?: Json
+          operation_hash?: string
+          operation_type?: string
+          previous_hash?: string | null
+          sequence?: number
+          submitted_by?: string
+        }
+        Relationships: []
+      }
       directory_integrations: {
         Row: {
           attribute_mappings: Json
@@ -774,17 +1452,67 @@ export type Database = {
           bind_credentials_encrypted?: string
           connection_string?: string
           created_at?: string
-          created_by?: string
-          directory_type?: string
+          created_by?: string
+          directory_type?: string
+          id?: string
+          is_active?: boolean
+          last_sync_at?: string | null
+          name?: string
+          sync_enabled?: boolean
+          sync_interval_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      directory_sync_links: {
+        Row: {
+          attributes_hash: string | null
+          created_at: string
+          distinguished_name: string
+          entry_type: string
+          external_id: string
+          id: string
+          integration_id: string
+          is_active: boolean
+          last_seen_at: string
+          local_id: string
+          updated_at: string
+        }
+        Insert: {
+          attributes_hash?: string | null
+          created_at?: string
+          distinguished_name: string
+          entry_type: string
+          external_id: string
+          id?: string
+          integration_id: string
+          is_active?: boolean
+          last_seen_at?: string
+          local_id: string
+          updated_at?: string
+        }
+        Update: {
+          attributes_hash?: string | null
+          created_at?: string
+          distinguished_name?: string
+          entry_type?: string
+          external_id?: string
           id?: string
+          integration_id?: string
           is_active?: boolean
-          last_sync_at?: string | null
-          name?: string
-          sync_enabled?: boolean
-          sync_interval_hours?: number
+          last_seen_at?: string
+          local_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "directory_sync_links_integration_id_fkey"
+            columns: ["integration_id"]
+            isOneToOne: false
+            referencedRelation: "directory_integrations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       documents: {
         Row: {
@@ -902,6 +1630,153 @@ export type Database = {
           },
         ]
       }
+      encryption_root_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          destroyed_at: string | null
+          encrypted_secret_key: string | null
+          id: string
+          public_key: string
+          retired_at: string | null
+          status: string
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          destroyed_at?: string | null
+          encrypted_secret_key?: string | null
+          id?: string
+          public_key: string
+          retired_at?: string | null
+          status?: string
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          destroyed_at?: string | null
+          encrypted_secret_key?: string | null
+          id?: string
+          public_key?: string
+          retired_at?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
+      federated_identities: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          email: string | null
+          id: string
+          last_login_at: string | null
+          provider_id: string
+          status: string
+          subject: string
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          last_login_at?: string | null
+          provider_id: string
+          status?: string
+          subject: string
+          user_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          last_login_at?: string | null
+          provider_id?: string
+          status?: string
+          subject?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "federated_identities_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "federation_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      federation_consumed_assertions: {
+        Row: {
+          assertion_id: string
+          consumed_at: string
+          expires_at: string
+          provider_id: string
+        }
+        Insert: {
+          assertion_id: string
+          consumed_at?: string
+          expires_at: string
+          provider_id: string
+        }
+        Update: {
+          assertion_id?: string
+          consumed_at?: string
+          expires_at?: string
+          provider_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "federation_consumed_assertions_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "federation_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      federation_login_requests: {
+        Row: {
+          acs_url: string | null
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          nonce: string | null
+          provider_id: string
+        }
+        Insert: {
+          acs_url?: string | null
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id: string
+          nonce?: string | null
+          provider_id: string
+        }
+        Update: {
+          acs_url?: string | null
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          nonce?: string | null
+          provider_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "federation_login_requests_provider_id_fkey"
+            columns: ["provider_id"]
+            isOneToOne: false
+            referencedRelation: "federation_providers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       federation_providers: {
         Row: {
           attribute_mappings: Json
@@ -1411,6 +2286,36 @@ export type Database = {
         }
         Relationships: []
       }
+      org_signing_keys: {
+        Row: {
+          algorithm: string
+          created_at: string
+          encrypted_seed: string
+          id: string
+          public_key: string
+          retired_at: string | null
+          status: string
+        }
+        Insert: {
+          algorithm?: string
+          created_at?: string
+          encrypted_seed: string
+          id?: string
+          public_key: string
+          retired_at?: string | null
+          status?: string
+        }
+        Update: {
+          algorithm?: string
+          created_at?: string
+          encrypted_seed?: string
+          id?: string
+          public_key?: string
+          retired_at?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
       password_policies: {
         Row: {
           created_at: string
@@ -1654,6 +2559,7 @@ export type Database = {
           email: string
           full_name: string | null
           id: string
+          manager_id: string | null
           updated_at: string
           user_id: string
         }
@@ -1664,6 +2570,7 @@ export type Database = {
           email: string
           full_name?: string | null
           id?: string
+          manager_id?: string | null
           updated_at?: string
           user_id: string
         }
@@ -1674,6 +2581,7 @@ export type Database = {
           email?: string
           full_name?: string | null
           id?: string
+          manager_id?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -1723,16 +2631,19 @@ export type Database = {
       }
       quantum_certificates: {
         Row: {
+          ca_id: string | null
           certificate_data: string
           certificate_type: string
           created_at: string
           id: string
           is_revoked: boolean
           issuer: string
+          key_algorithm: string
           public_key: string
           revocation_reason: string | null
           revoked_at: string | null
           serial_number: string
+          signature_algorithm: string
           subject: string
           updated_at: string
           user_id: string
@@ -1740,16 +2651,19 @@ export type Database = {
           valid_until: string
         }
         Insert: {
+          ca_id?: string | null
           certificate_data: string
           certificate_type: string
           created_at?: string
           id?: string
           is_revoked?: boolean
           issuer: string
+          key_algorithm?: string
           public_key: string
           revocation_reason?: string | null
           revoked_at?: string | null
           serial_number: string
+          signature_algorithm?: string
           subject: string
           updated_at?: string
           user_id: string
@@ -1757,23 +2671,34 @@ export type Database = {
           valid_until: string
         }
         Update: {
+          ca_id?: string | null
           certificate_data?: string
           certificate_type?: string
           created_at?: string
           id?: string
           is_revoked?: boolean
           issuer?: string
+          key_algorithm?: string
           public_key?: string
           revocation_reason?: string | null
           revoked_at?: string | null
           serial_number?: string
+          signature_algorithm?: string
           subject?: string
           updated_at?: string
           user_id?: string
           valid_from?: string
           valid_until?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "quantum_certificates_ca_id_fkey"
+            columns: ["ca_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_pki_roots"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       quantum_comm_channels: {
         Row: {
@@ -1864,6 +2789,50 @@ export type Database = {
           },
         ]
       }
+      quantum_key_escrow: {
+        Row: {
+          created_at: string
+          escrow_package: string
+          id: string
+          key_algorithm: string
+          policy_id: string | null
+          purpose: string
+          resource_id: string
+          resource_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          escrow_package: string
+          id?: string
+          key_algorithm: string
+          policy_id?: string | null
+          purpose: string
+          resource_id: string
+          resource_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          escrow_package?: string
+          id?: string
+          key_algorithm?: string
+          policy_id?: string | null
+          purpose?: string
+          resource_id?: string
+          resource_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quantum_key_escrow_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_key_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quantum_key_policies: {
         Row: {
           auto_rotation_enabled: boolean
@@ -1906,6 +2875,72 @@ export type Database = {
         }
         Relationships: []
       }
+      quantum_key_rotations: {
+        Row: {
+          created_at: string
+          dependents: Json
+          due_at: string
+          error: string | null
+          escrow_id: string | null
+          id: string
+          key_type: string
+          policy_id: string | null
+          replacement_id: string | null
+          resource_id: string
+          resource_type: string
+          status: string
+          trigger: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          dependents?: Json
+          due_at: string
+          error?: string | null
+          escrow_id?: string | null
+          id?: string
+          key_type: string
+          policy_id?: string | null
+          replacement_id?: string | null
+          resource_id: string
+          resource_type: string
+          status: string
+          trigger: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          dependents?: Json
+          due_at?: string
+          error?: string | null
+          escrow_id?: string | null
+          id?: string
+          key_type?: string
+          policy_id?: string | null
+          replacement_id?: string | null
+          resource_id?: string
+          resource_type?: string
+          status?: string
+          trigger?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quantum_key_rotations_escrow_id_fkey"
+            columns: ["escrow_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_key_escrow"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quantum_key_rotations_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_key_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       quantum_keys: {
         Row: {
           algorithm: string | null
@@ -1994,40 +3029,72 @@ export type Database = {
         Row: {
           algorithm: string
           created_at: string
-          created_by: string
+          created_by: string | null
+          crl_next_update: string | null
+          crl_number: number
+          current_crl: string | null
           description: string | null
           expires_at: string
           id: string
           is_active: boolean
           name: string
+          parent_id: string | null
+          path_length: number | null
           private_key_encrypted: string
           root_certificate: string
+          serial_number: string | null
+          subject: string | null
+          updated_at: string
         }
         Insert: {
           algorithm?: string
           created_at?: string
-          created_by: string
+          created_by?: string | null
+          crl_next_update?: string | null
+          crl_number?: number
+          current_crl?: string | null
           description?: string | null
           expires_at: string
           id?: string
           is_active?: boolean
           name: string
+          parent_id?: string | null
+          path_length?: number | null
           private_key_encrypted: string
           root_certificate: string
+          serial_number?: string | null
+          subject?: string | null
+          updated_at?: string
         }
         Update: {
           algorithm?: string
           created_at?: string
-          created_by?: string
+          created_by?: string | null
+          crl_next_update?: string | null
+          crl_number?: number
+          current_crl?: string | null
           description?: string | null
           expires_at?: string
           id?: string
           is_active?: boolean
           name?: string
+          parent_id?: string | null
+          path_length?: number | null
           private_key_encrypted?: string
           root_certificate?: string
+          serial_number?: string | null
+          subject?: string | null
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "quantum_pki_roots_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_pki_roots"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       quantum_sessions: {
         Row: {
@@ -2146,6 +3213,42 @@ export type Database = {
         }
         Relationships: []
       }
+      relation_tuples: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          object_id: string
+          object_type: string
+          relation: string
+          subject_id: string
+          subject_relation: string | null
+          subject_type: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          object_id: string
+          object_type: string
+          relation: string
+          subject_id: string
+          subject_relation?: string | null
+          subject_type: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          object_id?: string
+          object_type?: string
+          relation?: string
+          subject_id?: string
+          subject_relation?: string | null
+          subject_type?: string
+        }
+        Relationships: []
+      }
       role_permissions: {
         Row: {
           created_at: string
@@ -2175,6 +3278,39 @@ export type Database = {
           },
         ]
       }
+      scim_resources: {
+        Row: {
+          created_at: string
+          external_id: string | null
+          id: string
+          local_id: string
+          provisioned_by: string
+          resource_type: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          local_id: string
+          provisioned_by: string
+          resource_type: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          external_id?: string | null
+          id?: string
+          local_id?: string
+          provisioned_by?: string
+          resource_type?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
       security_attacks: {
         Row: {
           attack_data: Json | null
@@ -2403,6 +3539,198 @@ export type Database = {
         }
         Relationships: []
       }
+      threshold_ceremony_contributions: {
+        Row: {
+          ceremony_id: string
+          commitments: Json
+          created_at: string
+          dealer_id: string
+          dealer_share_id: number
+          sealed_sub_shares: Json
+        }
+        Insert: {
+          ceremony_id: string
+          commitments: Json
+          created_at?: string
+          dealer_id: string
+          dealer_share_id: number
+          sealed_sub_shares: Json
+        }
+        Update: {
+          ceremony_id?: string
+          commitments?: Json
+          created_at?: string
+          dealer_id?: string
+          dealer_share_id?: number
+          sealed_sub_shares?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threshold_ceremony_contributions_ceremony_id_fkey"
+            columns: ["ceremony_id"]
+            isOneToOne: false
+            referencedRelation: "threshold_key_ceremonies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      threshold_key_ceremonies: {
+        Row: {
+          base_epoch: number
+          completed_at: string | null
+          created_at: string
+          created_by: string
+          dealers: number[]
+          id: string
+          key_id: string
+          kind: string
+          recipients: Json
+          status: string
+          target_epoch: number
+        }
+        Insert: {
+          base_epoch: number
+          completed_at?: string | null
+          created_at?: string
+          created_by: string
+          dealers: number[]
+          id?: string
+          key_id: string
+          kind: string
+          recipients: Json
+          status?: string
+          target_epoch: number
+        }
+        Update: {
+          base_epoch?: number
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string
+          dealers?: number[]
+          id?: string
+          key_id?: string
+          kind?: string
+          recipients?: Json
+          status?: string
+          target_epoch?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threshold_key_ceremonies_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "threshold_keys"
+            referencedColumns: ["key_id"]
+          },
+        ]
+      }
+      threshold_key_shares: {
+        Row: {
+          created_at: string
+          epoch: number
+          id: string
+          kem_algorithm: string
+          kem_ciphertext: string | null
+          kem_key_fingerprint: string
+          kem_key_source: string
+          key_id: string
+          nonce: string | null
+          participant_id: string
+          pq_public_key: string | null
+          retrieved_at: string | null
+          sealed_by: string
+          sealed_share: string | null
+          share_id: number
+          status: string
+          verification_share: string
+        }
+        Insert: {
+          created_at?: string
+          epoch: number
+          id?: string
+          kem_algorithm?: string
+          kem_ciphertext?: string | null
+          kem_key_fingerprint: string
+          kem_key_source: string
+          key_id: string
+          nonce?: string | null
+          participant_id: string
+          pq_public_key?: string | null
+          retrieved_at?: string | null
+          sealed_by: string
+          sealed_share?: string | null
+          share_id: number
+          status?: string
+          verification_share: string
+        }
+        Update: {
+          created_at?: string
+          epoch?: number
+          id?: string
+          kem_algorithm?: string
+          kem_ciphertext?: string | null
+          kem_key_fingerprint?: string
+          kem_key_source?: string
+          key_id?: string
+          nonce?: string | null
+          participant_id?: string
+          pq_public_key?: string | null
+          retrieved_at?: string | null
+          sealed_by?: string
+          sealed_share?: string | null
+          share_id?: number
+          status?: string
+          verification_share?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "threshold_key_shares_key_id_fkey"
+            columns: ["key_id"]
+            isOneToOne: false
+            referencedRelation: "threshold_keys"
+            referencedColumns: ["key_id"]
+          },
+        ]
+      }
+      threshold_keys: {
+        Row: {
+          created_at: string
+          created_by: string
+          epoch: number
+          group_public_key: string
+          id: string
+          key_id: string
+          public_key_package: Json
+          threshold: number
+          total_shares: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          epoch?: number
+          group_public_key: string
+          id?: string
+          key_id: string
+          public_key_package: Json
+          threshold: number
+          total_shares: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          epoch?: number
+          group_public_key?: string
+          id?: string
+          key_id?: string
+          public_key_package?: Json
+          threshold?: number
+          total_shares?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       time_based_permissions: {
         Row: {
           created_at: string
@@ -2999,6 +4327,173 @@ export type Database = {
         }
         Relationships: []
       }
+      vc_issuers: {
+        Row: {
+          created_at: string
+          did: string
+          did_document: Json
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          did: string
+          did_document: Json
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          did?: string
+          did_document?: Json
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      vc_presentation_challenges: {
+        Row: {
+          challenge: string
+          created_at: string
+          domain: string
+          expires_at: string
+          used_at: string | null
+        }
+        Insert: {
+          challenge: string
+          created_at?: string
+          domain: string
+          expires_at: string
+          used_at?: string | null
+        }
+        Update: {
+          challenge?: string
+          created_at?: string
+          domain?: string
+          expires_at?: string
+          used_at?: string | null
+        }
+        Relationships: []
+      }
+      vc_status_lists: {
+        Row: {
+          anchor_hash: string | null
+          created_at: string
+          credential: Json
+          encoded_list: string
+          id: string
+          issuer_did: string
+          list_size: number
+          next_index: number
+          status_purpose: string
+          updated_at: string
+        }
+        Insert: {
+          anchor_hash?: string | null
+          created_at?: string
+          credential: Json
+          encoded_list: string
+          id?: string
+          issuer_did: string
+          list_size?: number
+          next_index?: number
+          status_purpose?: string
+          updated_at?: string
+        }
+        Update: {
+          anchor_hash?: string | null
+          created_at?: string
+          credential?: Json
+          encoded_list?: string
+          id?: string
+          issuer_did?: string
+          list_size?: number
+          next_index?: number
+          status_purpose?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vc_status_lists_issuer_did_fkey"
+            columns: ["issuer_did"]
+            isOneToOne: false
+            referencedRelation: "vc_issuers"
+            referencedColumns: ["did"]
+          },
+        ]
+      }
+      verifiable_credentials: {
+        Row: {
+          claims: Json
+          credential: Json
+          credential_id: string
+          credential_type: string
+          expires_at: string
+          id: string
+          issued_at: string
+          issued_by: string
+          issuer_did: string
+          revocation_reason: string | null
+          revoked_at: string | null
+          revoked_by: string | null
+          status_list_id: string
+          status_list_index: number
+          subject_did: string
+          subject_user_id: string
+        }
+        Insert: {
+          claims?: Json
+          credential: Json
+          credential_id: string
+          credential_type: string
+          expires_at: string
+          id?: string
+          issued_at?: string
+          issued_by: string
+          issuer_did: string
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          status_list_id: string
+          status_list_index: number
+          subject_did: string
+          subject_user_id: string
+        }
+        Update: {
+          claims?: Json
+          credential?: Json
+          credential_id?: string
+          credential_type?: string
+          expires_at?: string
+          id?: string
+          issued_at?: string
+          issued_by?: string
+          issuer_did?: string
+          revocation_reason?: string | null
+          revoked_at?: string | null
+          revoked_by?: string | null
+          status_list_id?: string
+          status_list_index?: number
+          subject_did?: string
+          subject_user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "verifiable_credentials_issuer_did_fkey"
+            columns: ["issuer_did"]
+            isOneToOne: false
+            referencedRelation: "vc_issuers"
+            referencedColumns: ["did"]
+          },
+          {
+            foreignKeyName: "verifiable_credentials_status_list_id_fkey"
+            columns: ["status_list_id"]
+            isOneToOne: false
+            referencedRelation: "vc_status_lists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       zero_trust_policies: {
         Row: {
           actions: Json
@@ -3041,6 +4536,78 @@ export type Database = {
         }
         Relationships: []
       }
+      zk_credentials: {
+        Row: {
+          expires_at: string
+          id: string
+          identity_key: string
+          issued_at: string
+          revoked_at: string | null
+          role_commitment: string
+          score_commitment: string
+          user_id: string
+        }
+        Insert: {
+          expires_at: string
+          id?: string
+          identity_key: string
+          issued_at?: string
+          revoked_at?: string | null
+          role_commitment: string
+          score_commitment: string
+          user_id: string
+        }
+        Update: {
+          expires_at?: string
+          id?: string
+          identity_key?: string
+          issued_at?: string
+          revoked_at?: string | null
+          role_commitment?: string
+          score_commitment?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      zk_nullifiers: {
+        Row: {
+          action_hash: string
+          anonymity_root: string
+          epoch: number
+          expires_at: string
+          minimum_trust_score: number
+          nullifier: string
+          resource_hash: string
+          role_set_root: string
+          token_hash: string
+          used_at: string
+        }
+        Insert: {
+          action_hash: string
+          anonymity_root: string
+          epoch: number
+          expires_at: string
+          minimum_trust_score: number
+          nullifier: string
+          resource_hash: string
+          role_set_root: string
+          token_hash: string
+          used_at?: string
+        }
+        Update: {
+          action_hash?: string
+          anonymity_root?: string
+          epoch?: number
+          expires_at?: string
+          minimum_trust_score?: number
+          nullifier?: string
+          resource_hash?: string
+          role_set_root?: string
+          token_hash?: string
+          used_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       comprehensive_audit_logs: {
@@ -3078,10 +4645,52 @@ export type Database = {
         Returns: Json
       }
       calculate_network_trust: { Args: { user_ip: unknown }; Returns: number }
+      can_manage_relations: {
+        Args: { _object_id: string; _object_type: string; _user_id: string }
+        Returns: boolean
+      }
+      can_manage_threshold_key: {
+        Args: { _key_id: string; _user_id: string }
+        Returns: boolean
+      }
+      can_view_threshold_key: {
+        Args: { _key_id: string; _user_id: string }
+        Returns: boolean
+      }
+      cancel_threshold_ceremony: { Args: { _ceremony_id: string }; Returns: boolean }
+      check_relation: {
+        Args: {
+          _depth?: number
+          _object_id: string
+          _object_type: string
+          _relation: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
       check_user_group_permissions: {
         Args: { _action: string; _resource: string; _user_id: string }
         Returns: boolean
       }
+      complete_threshold_ceremony: { Args: { _ceremony_id: string }; Returns: boolean }
+      consume_zk_nullifier: {
+        Args: {
+          _action_hash: string
+          _anonymity_root: string
+          _epoch: number
+          _minimum_trust_score: number
+          _nullifier: string
+          _resource_hash: string
+          _role_set_root: string
+          _token_hash: string
+        }
+        Returns: string
+      }
+      decide_access_review_item: {
+        Args: { _comment?: string; _decision: string; _item_id: string }
+        Returns: Json
+      }
+      execute_access_review_revocation: { Args: { _item_id: string }; Returns: Json }
       expire_jit_sessions: { Args: never; Returns: number }
       export_audit_logs: {
         Args: { _end_date?: string; _format?: string; _start_date?: string }
@@ -3107,11 +4716,36 @@ export type Database = {
       }
       get_effective_user_role: { Args: { _user_id: string }; Returns: string }
       get_location_from_ip: { Args: { ip_address: unknown }; Returns: Json }
+      get_threshold_share_status: {
+        Args: { _key_id: string }
+        Returns: {
+          created_at: string
+          epoch: number
+          kem_key_fingerprint: string
+          kem_key_source: string
+          participant_id: string
+          pq_public_key: string
+          retrieved_at: string
+          sealed_by: string
+          share_id: number
+          status: string
+          verification_share: string
+        }[]
+      }
       get_user_id_from_folder: { Args: { file_path: string }; Returns: string }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["system_role"]
       }
+      get_zk_anonymity_set: {
+        Args: never
+        Returns: {
+          id: string
+          identity_key: string
+          role_commitment: string
+          score_commitment: string
+        }[]
+      }
       has_enhanced_permission: {
         Args: { _action: string; _resource: string; _user_id: string }
         Returns: boolean
@@ -3148,6 +4782,24 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_threshold_ceremony_member: {
+        Args: { _ceremony_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_zk_access_token_valid: {
+        Args: {
+          _action_hash: string
+          _minimum_trust_score: number
+          _resource_hash: string
+          _role_set_root: string
+          _token_hash: string
+        }
+        Returns: boolean
+      }
+      list_related_objects: {
+        Args: { _object_type: string; _relation: string; _user_id: string }
+        Returns: string[]
+      }
       log_api_rate_limit: {
         Args: {
           _api_key_id: string
@@ -3168,6 +4820,10 @@ export type Database = {
         }
         Returns: string
       }
+      mark_threshold_share_retrieved: {
+        Args: { _epoch: number; _key_id: string; _share_id: number }
+        Returns: boolean
+      }
       process_approval_request: {
         Args: {
           _action: string
@@ -3181,6 +4837,32 @@ export type Database = {
         Args: { _provider: string; _user_id: string; _user_metadata: Json }
         Returns: undefined
       }
+      relation_object_exists: {
+        Args: { _object_id: string; _object_type: string }
+        Returns: boolean
+      }
+      requeue_blind_index: {
+        Args: { _index_name: string }
+        Returns: number
+      }
+      start_threshold_ceremony: {
+        Args: {
+          _dealers?: number[]
+          _key_id: string
+          _new_participant_id?: string
+          _replace_share_id?: number
+        }
+        Returns: string
+      }
+      threshold_ceremony_accepts: {
+        Args: {
+          _epoch: number
+          _key_id: string
+          _participant_id: string
+          _share_id: number
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       system_role: "admin" | "moderator" | "user"
@@ -0,0 +1,632 @@
+/**
+ * Access Certification (User Access Review) Campaigns
+ *
+ * Periodically snapshots every user's effective access and asks reviewers to
+ * approve or revoke each line item.
+ *
+ * Features:
+ * - Snapshot of roles (with role_permissions), group memberships (with group
+ *   permissions checked via check_user_group_permissions), time-based
+ *   permissions, temporary role assignments and quantum permissions
+ * - Reviewer assignment by manager (profiles.manager_id) or resource owner
+ * - Revocations executed automatically on decision
+ * - Campaign result built and signed (ML-DSA-65) by the access-reviews edge
+ *   function with the organisation key, for SOC 2 CC6.2 / CC6.3 evidence
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { verifyOrgSignature } from './org-signing';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type ReviewAccessType =
+  | 'role'
+  | 'group_membership'
+  | 'time_based_permission'
+  | 'temporary_role'
+  | 'quantum_permission';
+export type ReviewDecision = 'pending' | 'approved' | 'revoked';
+export type ReviewerStrategy = 'manager' | 'resource_owner';
+export type CampaignStatus = 'active' | 'completed' | 'cancelled';
+
+export interface AccessReviewCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  status: CampaignStatus;
+  reviewer_strategy: ReviewerStrategy;
+  fallback_reviewer_id: string;
+  period_start: string;
+  period_end: string;
+  due_date: string;
+  total_items: number;
+  created_by: string;
+  completed_by: string | null;
+  completed_at: string | null;
+  result: CampaignResult | null;
+  result_hash: string | null;
+  result_signature: string | null;
+  signing_key_id: string | null;
+  created_at: string;
+}
+
+export interface AccessReviewItem {
+  id: string;
+  campaign_id: string;
+  user_id: string;
+  reviewer_id: string;
+  access_type: ReviewAccessType;
+  source_id: string;
+  access_label: string;
+  access_details: Record<string, unknown>;
+  decision: ReviewDecision;
+  decision_comment: string | null;
+  decided_by: string | null;
+  decided_at: string | null;
+  revocation_status: 'executed' | 'failed' | null;
+  revocation_error: string | null;
+  revoked_at: string | null;
+}
+
+export interface AccessSnapshotLine {
+  userId: string;
+  accessType: ReviewAccessType;
+  sourceId: string;
+  label: string;
+  details: Record<string, unknown>;
+  ownerId: string | null;
+}
+
+export interface CampaignResult {
+  campaignId: string;
+  name: string;
+  periodStart: string;
+  periodEnd: string;
+  completedAt: string;
+  completedBy: string;
+  soc2Controls: string[];
+  totals: {
+    items: number;
+    approved: number;
+    revoked: number;
+    revocationsExecuted: number;
+    revocationsFailed: number;
+    reviewers: number;
+    usersReviewed: number;
+  };
+  items: {
+    id: string;
+    userId: string;
+    reviewerId: string;
+    accessType: ReviewAccessType;
+    label: string;
+    decision: ReviewDecision;
+    decidedBy: string | null;
+    decidedAt: string | null;
+    revocationStatus: string | null;
+  }[];
+}
+
+export interface CampaignOptions {
+  name?: string;
+  description?: string;
+  reviewerStrategy?: ReviewerStrategy;
+  fallbackReviewerId?: string;
+  periodStart?: Date;
+  periodEnd?: Date;
+  dueInDays?: number;
+}
+
+export interface DecisionResult {
+  success: boolean;
+  message: string;
+  revocationExecuted?: boolean;
+}
+
+// Must match supabase/functions/access-reviews/index.ts
+export const SOC2_ACCESS_REVIEW_CONTROLS = ['CC6.2', 'CC6.3'];
+
+const FUNCTION_NAME = 'access-reviews';
+
+const ITEM_INSERT_BATCH = 500;
+
+/**
+ * JSON with recursively sorted keys. The result is stored as jsonb, which does
+ * not preserve key order, so signatures are computed over this form.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ============================================================================
+// Access Certification Manager
+// ============================================================================
+
+export class AccessCertificationManager {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  /**
+   * Calendar quarter containing the given date
+   */
+  static quarterPeriod(date: Date = new Date()): { start: Date; end: Date; label: string } {
+    const quarter = Math.floor(date.getUTCMonth() / 3);
+    const start = new Date(Date.UTC(date.getUTCFullYear(), quarter * 3, 1));
+    const end = new Date(Date.UTC(date.getUTCFullYear(), quarter * 3 + 3, 1) - 1);
+    return { start, end, label: `Q${quarter + 1} ${date.getUTCFullYear()}` };
+  }
+
+  /**
+   * Pick the reviewer for a line item. Nobody certifies their own access.
+   */
+  static resolveReviewer(
+    line: AccessSnapshotLine,
+    strategy: ReviewerStrategy,
+    managers: Map<string, string | null>,
+    fallbackReviewerId: string
+  ): string {
+    const manager = managers.get(line.userId) || null;
+    const candidates = strategy === 'manager'
+      ? [manager, line.ownerId]
+      : [line.ownerId, manager];
+
+    return candidates.find(id => id && id !== line.userId) || fallbackReviewerId;
+  }
+
+  /**
+   * Snapshot every active user's effective access
+   */
+  async snapshotEffectiveAccess(): Promise<{ lines: AccessSnapshotLine[]; managers: Map<string, string | null> }> {
+    const now = new Date().toISOString();
+
+    const [profiles, roles, rolePermissions, memberships, groupPermissions, timeBased, temporaryRoles, quantum] =
+      await Promise.all([
+        supabase.from('profiles').select('user_id, email, manager_id').is('deleted_at', null),
+        supabase.from('user_roles').select('id, user_id, role, assigned_by'),
+        supabase.from('role_permissions').select('role, permissions(name, action, resource)'),
+        supabase.from('user_group_memberships').select('id, user_id, group_id, assigned_by, user_groups(name, created_by)'),
+        supabase.from('group_permissions').select('group_id, permissions(name, action, resource)'),
+        supabase.from('time_based_permissions')
+          .select('id, user_id, created_by, days_of_week, start_time, end_time, timezone, permissions(name, action, resource)')
+          .eq('is_active', true),
+        supabase.from('temporary_role_assignments')
+          .select('id, user_id, role, assigned_by, expires_at, reason')
+          .eq('is_active', true)
+          .gt('expires_at', now),
+        supabase.from('quantum_permissions')
+          .select('id, user_id, permission_type, granted_by, expires_at')
+          .eq('is_active', true)
+          .not('user_id', 'is', null)
+      ]);
+
+    for (const result of [profiles, roles, rolePermissions, memberships, groupPermissions, timeBased, temporaryRoles, quantum]) {
+      if (result.error) throw result.error;
+    }
+
+    const activeUsers = new Set((profiles.data || []).map(p => p.user_id));
+    const managers = new Map((profiles.data || []).map(p => [p.user_id, p.manager_id]));
+    const lines: AccessSnapshotLine[] = [];
+
+    type PermissionRef = { name: string; action: string; resource: string } | null;
+
+    const permissionsByRole = new Map<string, PermissionRef[]>();
+    for (const row of rolePermissions.data || []) {
+      permissionsByRole.set(row.role, [...(permissionsByRole.get(row.role) || []), row.permissions as PermissionRef]);
+    }
+
+    for (const role of roles.data || []) {
+      if (!activeUsers.has(role.user_id)) continue;
+      lines.push({
+        userId: role.user_id,
+        accessType: 'role',
+        sourceId: role.id,
+        label: `Role: ${role.role}`,
+        details: {
+          role: role.role,
+          permissions: (permissionsByRole.get(role.role) || []).filter(Boolean).map(p => p!.name)
+        },
+        ownerId: role.assigned_by
+      });
+    }
+
+    const permissionsByGroup = new Map<string, PermissionRef[]>();
+    for (const row of groupPermissions.data || []) {
+      permissionsByGroup.set(row.group_id, [...(permissionsByGroup.get(row.group_id) || []), row.permissions as PermissionRef]);
+    }
+
+    // Group permissions are confirmed through the same check used at authorization time
+    const effectiveCache = new Map<string, boolean>();
+    for (const membership of memberships.data || []) {
+      if (!activeUsers.has(membership.user_id)) continue;
+      const group = membership.user_groups as unknown as { name: string; created_by: string } | null;
+      const permissions = (permissionsByGroup.get(membership.group_id) || []).filter(Boolean) as NonNullable<PermissionRef>[];
+
+      const effective: { name: string; effective: boolean }[] = [];
+      for (const permission of permissions) {
+        const key = `${membership.user_id}:${permission.action}:${permission.resource}`;
+        if (!effectiveCache.has(key)) {
+          const { data } = await supabase.rpc('check_user_group_permissions', {
+            _user_id: membership.user_id,
+            _action: permission.action,
+            _resource: permission.resource
+          });
+          effectiveCache.set(key, !!data);
+        }
+        effective.push({ name: permission.name, effective: effectiveCache.get(key)! });
+      }
+
+      lines.push({
+        userId: membership.user_id,
+        accessType: 'group_membership',
+        sourceId: membership.id,
+        label: `Group: ${group?.name || membership.group_id}`,
+        details: { group_id: membership.group_id, permissions: effective },
+        ownerId: group?.created_by || membership.assigned_by
+      });
+    }
+
+    for (const grant of timeBased.data || []) {
+      if (!activeUsers.has(grant.user_id)) continue;
+      const permission = grant.permissions as PermissionRef;
+      lines.push({
+        userId: grant.user_id,
+        accessType: 'time_based_permission',
+        sourceId: grant.id,
+        label: `Time-based: ${permission?.name || 'permission'} (${grant.start_time}-${grant.end_time} ${grant.timezone})`,
+        details: { days_of_week: grant.days_of_week, start_time: grant.start_time, end_time: grant.end_time },
+        ownerId: grant.created_by
+      });
+    }
+
+    for (const assignment of temporaryRoles.data || []) {
+      if (!activeUsers.has(assignment.user_id)) continue;
+      lines.push({
+        userId: assignment.user_id,
+        accessType: 'temporary_role',
+        sourceId: assignment.id,
+        label: `Temporary role: ${assignment.role}`,
+        details: { role: assignment.role, expires_at: assignment.expires_at, reason: assignment.reason },
+        ownerId: assignment.assigned_by
+      });
+    }
+
+    for (const permission of quantum.data || []) {
+      if (!permission.user_id || !activeUsers.has(permission.user_id)) continue;
+      if (permission.expires_at && permission.expires_at < now) continue;
+      lines.push({
+        userId: permission.user_id,
+        accessType: 'quantum_permission',
+        sourceId: permission.id,
+        label: `Quantum permission: ${permission.permission_type}`,
+        details: { permission_type: permission.permission_type, expires_at: permission.expires_at },
+        ownerId: permission.granted_by
+      });
+    }
+
+    return { lines, managers };
+  }
+
+  /**
+   * Create a campaign and generate its review items
+   */
+  async createCampaign(actorId: string, options: CampaignOptions = {}): Promise<AccessReviewCampaign | null> {
+    try {
+      const quarter = AccessCertificationManager.quarterPeriod();
+      const periodStart = options.periodStart || quarter.start;
+      const periodEnd = options.periodEnd || quarter.end;
+      const strategy = options.reviewerStrategy || 'manager';
+      const fallbackReviewerId = options.fallbackReviewerId || actorId;
+      const dueDate = new Date(Date.now() + (options.dueInDays ?? 14) * 24 * 60 * 60 * 1000);
+
+      const { lines, managers } = await this.snapshotEffectiveAccess();
+
+      const { data: campaign, error } = await supabase
+        .from('access_review_campaigns')
+        .insert({
+          name: options.name || `${quarter.label} Access Review`,
+          description: options.description || null,
+          reviewer_strategy: strategy,
+          fallback_reviewer_id: fallbackReviewerId,
+          period_start: periodStart.toISOString(),
+          period_end: periodEnd.toISOString(),
+          due_date: dueDate.toISOString(),
+          total_items: lines.length,
+          created_by: actorId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const items = lines.map(line => ({
+        campaign_id: campaign.id,
+        user_id: line.userId,
+        reviewer_id: AccessCertificationManager.resolveReviewer(line, strategy, managers, fallbackReviewerId),
+        access_type: line.accessType,
+        source_id: line.sourceId,
+        access_label: line.label,
+        access_details: line.details as Json
+      }));
+
+      for (let i = 0; i < items.length; i += ITEM_INSERT_BATCH) {
+        const { error: itemError } = await supabase
+          .from('access_review_items')
+          .insert(items.slice(i, i + ITEM_INSERT_BATCH));
+        if (itemError) throw itemError;
+      }
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'ACCESS_REVIEW_CAMPAIGN_CREATED', 'access_review_campaigns', {
+          campaignId: campaign.id,
+          name: campaign.name,
+          items: items.length,
+          reviewers: new Set(items.map(i => i.reviewer_id)).size,
+          reviewerStrategy: strategy
+        });
+      }
+
+      return this.toCampaign(campaign);
+    } catch (error) {
+      console.error('Error creating access review campaign:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Create this quarter's campaign unless one already exists
+   */
+  async createQuarterlyCampaign(
+    actorId: string,
+    options: Omit<CampaignOptions, 'periodStart' | 'periodEnd'> = {}
+  ): Promise<AccessReviewCampaign | null> {
+    const quarter = AccessCertificationManager.quarterPeriod();
+
+    const { data: existing } = await supabase
+      .from('access_review_campaigns')
+      .select('*')
+      .eq('period_start', quarter.start.toISOString())
+      .neq('status', 'cancelled')
+      .maybeSingle();
+
+    if (existing) {
+      return this.toCampaign(existing);
+    }
+
+    return this.createCampaign(actorId, { ...options, periodStart: quarter.start, periodEnd: quarter.end });
+  }
+
+  async getCampaigns(): Promise<AccessReviewCampaign[]> {
+    const { data, error } = await supabase
+      .from('access_review_campaigns')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching access review campaigns:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.toCampaign(row));
+  }
+
+  async getCampaignItems(campaignId: string): Promise<AccessReviewItem[]> {
+    const { data, error } = await supabase
+      .from('access_review_items')
+      .select('*')
+      .eq('campaign_id', campaignId)
+      .order('user_id');
+
+    if (error) {
+      console.error('Error fetching access review items:', error);
+      return [];
+    }
+
+    return (data || []) as AccessReviewItem[];
+  }
+
+  /**
+   * Items waiting on a reviewer across all active campaigns
+   */
+  async getPendingReviews(reviewerId: string): Promise<AccessReviewItem[]> {
+    const { data, error } = await supabase
+      .from('access_review_items')
+      .select('*, access_review_campaigns!inner(status)')
+      .eq('reviewer_id', reviewerId)
+      .eq('decision', 'pending')
+      .eq('access_review_campaigns.status', 'active');
+
+    if (error) {
+      console.error('Error fetching pending reviews:', error);
+      return [];
+    }
+
+    return (data || []).map(({ access_review_campaigns: _campaign, ...item }) => item) as AccessReviewItem[];
+  }
+
+  /**
+   * Record a reviewer decision. Revocations are executed immediately.
+   */
+  async decide(
+    itemId: string,
+    decision: Exclude<ReviewDecision, 'pending'>,
+    reviewerId: string,
+    comment?: string
+  ): Promise<DecisionResult> {
+    try {
+      // The function checks the reviewer and campaign and only writes the decision
+      const { data, error } = await supabase.rpc('decide_access_review_item', {
+        _item_id: itemId,
+        _decision: decision,
+        _comment: comment
+      });
+
+      if (error) throw error;
+
+      const outcome = data as {
+        success: boolean;
+        error?: string;
+        campaign_id?: string;
+        user_id?: string;
+        access_type?: ReviewAccessType;
+        access_label?: string;
+      };
+      if (!outcome.success) {
+        return { success: false, message: outcome.error || 'Failed to record decision' };
+      }
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(reviewerId, 'ACCESS_REVIEW_DECISION', 'access_review_items', {
+          itemId,
+          campaignId: outcome.campaign_id,
+          userId: outcome.user_id,
+          accessType: outcome.access_type,
+          label: outcome.access_label,
+          decision,
+          comment
+        });
+      }
+
+      if (decision === 'approved') {
+        return { success: true, message: 'Access certified' };
+      }
+
+      return await this.executeRevocation(itemId);
+    } catch (error) {
+      console.error('Error recording access review decision:', error);
+      return { success: false, message: error instanceof Error ? error.message : 'Failed to record decision' };
+    }
+  }
+
+  /**
+   * Retry revocations that failed to execute
+   */
+  async retryFailedRevocations(campaignId: string): Promise<{ retried: number; executed: number }> {
+    const { data } = await supabase
+      .from('access_review_items')
+      .select('id')
+      .eq('campaign_id', campaignId)
+      .eq('decision', 'revoked')
+      .or('revocation_status.is.null,revocation_status.eq.failed');
+
+    let executed = 0;
+    for (const item of data || []) {
+      const result = await this.executeRevocation(item.id);
+      if (result.revocationExecuted) executed++;
+    }
+
+    return { retried: (data || []).length, executed };
+  }
+
+  /**
+   * Close a campaign. The access-reviews function builds the result from the
+   * recorded decisions and signs it with the organisation key.
+   */
+  async completeCampaign(campaignId: string, actorId: string): Promise<AccessReviewCampaign | null> {
+    try {
+      const { data: completed, error } = await supabase.functions.invoke(
+        `${FUNCTION_NAME}/campaigns/${campaignId}/complete`,
+        { body: {} }
+      );
+
+      if (error) throw error;
+
+      const campaign = this.toCampaign(completed);
+      if (this.blockchain && campaign.result) {
+        await this.blockchain.logAuditEvent(actorId, 'ACCESS_REVIEW_CAMPAIGN_COMPLETED', 'access_review_campaigns', {
+          campaignId,
+          resultHash: campaign.result_hash,
+          signingKeyId: campaign.signing_key_id,
+          totals: campaign.result.totals
+        });
+      }
+
+      return campaign;
+    } catch (error) {
+      console.error('Error completing access review campaign:', error);
+      return null;
+    }
+  }
+
+  async cancelCampaign(campaignId: string, actorId: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('access_review_campaigns')
+      .update({ status: 'cancelled', completed_by: actorId, completed_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .eq('status', 'active');
+
+    if (error) {
+      console.error('Error cancelling access review campaign:', error);
+      return false;
+    }
+
+    if (this.blockchain) {
+      await this.blockchain.logAuditEvent(actorId, 'ACCESS_REVIEW_CAMPAIGN_CANCELLED', 'access_review_campaigns', {
+        campaignId
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Verify a completed campaign's signed result against the registered
+   * organisation key it names
+   */
+  static async verifyCampaignResult(campaign: AccessReviewCampaign): Promise<boolean> {
+    if (!campaign.result || !campaign.result_signature || !campaign.signing_key_id) {
+      return false;
+    }
+
+    return verifyOrgSignature(
+      'access-review-result',
+      campaign.signing_key_id,
+      campaign.result_signature,
+      new TextEncoder().encode(canonicalJson(campaign.result))
+    );
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  private async executeRevocation(itemId: string): Promise<DecisionResult> {
+    const { data, error } = await supabase.rpc('execute_access_review_revocation', { _item_id: itemId });
+
+    if (error) {
+      return { success: false, message: error.message, revocationExecuted: false };
+    }
+
+    const outcome = data as { success: boolean; error?: string };
+    return outcome.success
+      ? { success: true, message: 'Access revoked', revocationExecuted: true }
+      : { success: false, message: outcome.error || 'Revocation failed', revocationExecuted: false };
+  }
+
+  private toCampaign(row: Database['public']['Tables']['access_review_campaigns']['Row']): AccessReviewCampaign {
+    return {
+      ...row,
+      status: row.status as CampaignStatus,
+      reviewer_strategy: row.reviewer_strategy as ReviewerStrategy,
+      result: row.result as unknown as CampaignResult | null
+    };
+  }
+}
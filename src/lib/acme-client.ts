@@ -0,0 +1,517 @@
+/**
+ * ACME Client for Service Certificates
+ *
+ * Lets internal services obtain and renew post-quantum certificates from
+ * the acme edge function (RFC 8555) without an administrator in the loop.
+ * An administrator hands the service an external account binding once;
+ * from then on the service proves control of its names and renews on the
+ * schedule the server derives from the certificate key policy.
+ *
+ * Features:
+ * - ML-DSA (AKP JWK) or ES256 account keys and JWS request signing
+ * - External account binding with an administrator-issued key id and HMAC key
+ * - HTTP-01 and DNS-01 validation through a caller-supplied solver
+ * - CSRs for fresh ML-DSA or composite certificate keys
+ * - Renewal inside the server's ACME Renewal Information window (RFC 9773)
+ * - Key rollover and revocation
+ */
+
+import { p256 } from '@noble/curves/nist.js';
+import { hexToBytes } from '@noble/curves/utils.js';
+import {
+  KeyPair,
+  RevocationReason,
+  SignatureAlgorithm,
+  X509Certificate,
+  certificatesFromPem,
+  createCertificationRequest,
+  generateKeyPair,
+  signMessage
+} from './x509';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type AccountKeyAlgorithm = 'ES256' | 'ML-DSA-44' | 'ML-DSA-65' | 'ML-DSA-87';
+
+export interface AccountKey {
+  algorithm: AccountKeyAlgorithm;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface AccountJwk {
+  kty: 'EC' | 'AKP';
+  crv?: string;
+  x?: string;
+  y?: string;
+  alg?: string;
+  pub?: string;
+}
+
+export interface ExternalAccountBinding {
+  keyId: string;
+  /** base64url HMAC key, shown once when the administrator creates the binding */
+  hmacKey: string;
+}
+
+export type ChallengeType = 'http-01' | 'dns-01';
+
+/**
+ * Publishes challenge responses. For HTTP-01 the value is the key
+ * authorization to serve at /.well-known/acme-challenge/{token}; for DNS-01
+ * it is the TXT record value for _acme-challenge.{domain}.
+ */
+export interface ChallengeSolver {
+  type: ChallengeType;
+  present(domain: string, token: string, value: string): Promise<void>;
+  cleanup?(domain: string, token: string, value: string): Promise<void>;
+}
+
+export interface AcmeOrder {
+  url: string;
+  status: 'pending' | 'ready' | 'processing' | 'valid' | 'invalid';
+  expires: string;
+  identifiers: { type: 'dns'; value: string }[];
+  authorizations: string[];
+  finalize: string;
+  certificate?: string;
+  replaces?: string;
+  error?: AcmeProblem;
+}
+
+export interface AcmeProblem {
+  type: string;
+  detail: string;
+  status?: number;
+}
+
+export interface IssuedCertificate {
+  certificate: X509Certificate;
+  /** The certificate followed by its intermediates */
+  chainPem: string;
+  keyPair: KeyPair;
+}
+
+export interface RenewalWindow {
+  start: Date;
+  end: Date;
+  retryAfterSeconds?: number;
+}
+
+export interface AcmeClientOptions {
+  pollIntervalMs?: number;
+  maxPolls?: number;
+  fetch?: typeof fetch;
+}
+
+interface Directory {
+  newNonce: string;
+  newAccount: string;
+  newOrder: string;
+  revokeCert: string;
+  keyChange: string;
+  renewalInfo: string;
+  meta?: { externalAccountRequired?: boolean };
+}
+
+interface Authorization {
+  identifier: { type: 'dns'; value: string };
+  status: string;
+  challenges: { type: string; url: string; token: string; status: string; error?: AcmeProblem }[];
+  wildcard?: boolean;
+}
+
+// RFC 5280 CRLReason codes
+const REVOCATION_CODES: Record<RevocationReason, number> = {
+  unspecified: 0,
+  keyCompromise: 1,
+  cACompromise: 2,
+  affiliationChanged: 3,
+  superseded: 4,
+  cessationOfOperation: 5,
+  certificateHold: 6,
+  privilegeWithdrawn: 9
+};
+
+export class AcmeProblemError extends Error {
+  constructor(public problem: AcmeProblem) {
+    super(problem.detail || problem.type);
+    this.name = 'AcmeProblemError';
+  }
+
+  get type(): string {
+    return this.problem.type.replace('urn:ietf:params:acme:error:', '');
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+const encodeJson = (value: unknown) => base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+/**
+ * ARI certificate identifier: base64url authority key identifier and DER
+ * serial number, joined by a dot
+ */
+export function renewalCertificateId(certificate: X509Certificate): string {
+  if (!certificate.authorityKeyId) {
+    throw new Error('The certificate has no authority key identifier');
+  }
+  let serial = hexToBytes(certificate.serialNumber);
+  if (serial[0] & 0x80) {
+    serial = Uint8Array.of(0, ...serial);
+  }
+  return `${base64UrlEncode(hexToBytes(certificate.authorityKeyId))}.${base64UrlEncode(serial)}`;
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export class AcmeClient {
+  private directory: Directory | null = null;
+  private nonces: string[] = [];
+  private accountUrl: string | null = null;
+  private readonly fetch: typeof fetch;
+
+  constructor(
+    private directoryUrl: string,
+    private accountKey: AccountKey,
+    private options: AcmeClientOptions = {}
+  ) {
+    this.fetch = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  static generateAccountKey(algorithm: AccountKeyAlgorithm = 'ML-DSA-65'): AccountKey {
+    if (algorithm === 'ES256') {
+      const { secretKey } = p256.keygen();
+      return { algorithm, publicKey: p256.getPublicKey(secretKey, false), secretKey };
+    }
+    const { publicKey, secretKey } = generateKeyPair(algorithm);
+    return { algorithm, publicKey, secretKey };
+  }
+
+  // ==========================================================================
+  // Account key
+  // ==========================================================================
+
+  jwk(key: AccountKey = this.accountKey): AccountJwk {
+    if (key.algorithm === 'ES256') {
+      return {
+        kty: 'EC',
+        crv: 'P-256',
+        x: base64UrlEncode(key.publicKey.subarray(1, 33)),
+        y: base64UrlEncode(key.publicKey.subarray(33, 65))
+      };
+    }
+    return { kty: 'AKP', alg: key.algorithm, pub: base64UrlEncode(key.publicKey) };
+  }
+
+  /**
+   * RFC 7638 thumbprint over the required members in lexicographic order
+   */
+  async thumbprint(key: AccountKey = this.accountKey): Promise<string> {
+    const jwk = this.jwk(key);
+    const canonical = jwk.kty === 'EC'
+      ? JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y })
+      : JSON.stringify({ alg: jwk.alg, kty: jwk.kty, pub: jwk.pub });
+    return base64UrlEncode(await sha256(new TextEncoder().encode(canonical)));
+  }
+
+  async keyAuthorization(token: string): Promise<string> {
+    return `${token}.${await this.thumbprint()}`;
+  }
+
+  async dns01Value(token: string): Promise<string> {
+    return base64UrlEncode(await sha256(new TextEncoder().encode(await this.keyAuthorization(token))));
+  }
+
+  // ==========================================================================
+  // Transport
+  // ==========================================================================
+
+  private async getDirectory(): Promise<Directory> {
+    if (!this.directory) {
+      const response = await this.fetch(this.directoryUrl);
+      if (!response.ok) throw new Error(`ACME directory returned HTTP ${response.status}`);
+      this.directory = await response.json() as Directory;
+    }
+    return this.directory;
+  }
+
+  private async nextNonce(): Promise<string> {
+    const cached = this.nonces.pop();
+    if (cached) return cached;
+
+    const response = await this.fetch((await this.getDirectory()).newNonce, { method: 'HEAD' });
+    const nonce = response.headers.get('Replay-Nonce');
+    if (!nonce) throw new Error('The ACME server returned no nonce');
+    return nonce;
+  }
+
+  private async sign(key: AccountKey, header: Record<string, unknown>, payload: unknown) {
+    const protectedHeader = encodeJson({ alg: key.algorithm, ...header });
+    const encodedPayload = payload === null ? '' : encodeJson(payload);
+    const signingInput = new TextEncoder().encode(`${protectedHeader}.${encodedPayload}`);
+    const signature = key.algorithm === 'ES256'
+      ? p256.sign(signingInput, key.secretKey)
+      : await signMessage(key.algorithm as SignatureAlgorithm, key.secretKey, signingInput);
+    return { protected: protectedHeader, payload: encodedPayload, signature: base64UrlEncode(signature) };
+  }
+
+  /**
+   * JWS-signed POST; a null payload is a POST-as-GET. A badNonce is retried
+   * once with the nonce from the error response.
+   */
+  private async post(url: string, payload: unknown, options: { useJwk?: boolean; retried?: boolean } = {}): Promise<Response> {
+    const header: Record<string, unknown> = { nonce: await this.nextNonce(), url };
+    if (options.useJwk) {
+      header.jwk = this.jwk();
+    } else {
+      if (!this.accountUrl) throw new Error('Register or look up the ACME account first');
+      header.kid = this.accountUrl;
+    }
+
+    const response = await this.fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/jose+json' },
+      body: JSON.stringify(await this.sign(this.accountKey, header, payload))
+    });
+    const nonce = response.headers.get('Replay-Nonce');
+    if (nonce) this.nonces.push(nonce);
+
+    if (!response.ok) {
+      const problem = await response.json().catch(() => ({ type: 'about:blank', detail: `HTTP ${response.status}` })) as AcmeProblem;
+      if (problem.type === 'urn:ietf:params:acme:error:badNonce' && !options.retried) {
+        return this.post(url, payload, { ...options, retried: true });
+      }
+      throw new AcmeProblemError(problem);
+    }
+    return response;
+  }
+
+  private async poll<T extends { status: string }>(url: string, settled: (status: string) => boolean): Promise<T> {
+    const maxPolls = this.options.maxPolls ?? 10;
+    for (let attempt = 0; ; attempt++) {
+      const resource = await (await this.post(url, null)).json() as T;
+      if (settled(resource.status) || attempt >= maxPolls) return resource;
+      await new Promise(resolve => setTimeout(resolve, this.options.pollIntervalMs ?? 1000));
+    }
+  }
+
+  // ==========================================================================
+  // Accounts
+  // ==========================================================================
+
+  /**
+   * Create the account bound to an administrator-issued external account,
+   * or find the existing account for this key
+   */
+  async register(binding: ExternalAccountBinding | null, contact: string[] = []): Promise<string> {
+    const directory = await this.getDirectory();
+    const payload: Record<string, unknown> = { termsOfServiceAgreed: true, contact };
+
+    if (binding) {
+      const key = await crypto.subtle.importKey(
+        'raw',
+        base64UrlDecode(binding.hmacKey),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+      );
+      const protectedHeader = encodeJson({ alg: 'HS256', kid: binding.keyId, url: directory.newAccount });
+      const bindingPayload = encodeJson(this.jwk());
+      const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${protectedHeader}.${bindingPayload}`));
+      payload.externalAccountBinding = {
+        protected: protectedHeader,
+        payload: bindingPayload,
+        signature: base64UrlEncode(new Uint8Array(mac))
+      };
+    } else {
+      payload.onlyReturnExisting = true;
+    }
+
+    const response = await this.post(directory.newAccount, payload, { useJwk: true });
+    this.accountUrl = response.headers.get('Location');
+    if (!this.accountUrl) throw new Error('The ACME server returned no account URL');
+    return this.accountUrl;
+  }
+
+  /**
+   * Replace the account key. The new key signs the rollover request and is
+   * used for everything after it.
+   */
+  async changeKey(newKey: AccountKey): Promise<void> {
+    const directory = await this.getDirectory();
+    if (!this.accountUrl) throw new Error('Register or look up the ACME account first');
+
+    const inner = await this.sign(
+      newKey,
+      { jwk: this.jwk(newKey), url: directory.keyChange },
+      { account: this.accountUrl, oldKey: this.jwk() }
+    );
+    await this.post(directory.keyChange, inner);
+    this.accountKey = newKey;
+  }
+
+  async deactivateAccount(): Promise<void> {
+    if (!this.accountUrl) throw new Error('Register or look up the ACME account first');
+    await this.post(this.accountUrl, { status: 'deactivated' });
+  }
+
+  // ==========================================================================
+  // Orders
+  // ==========================================================================
+
+  async createOrder(dnsNames: string[], replaces?: string): Promise<AcmeOrder> {
+    const response = await this.post((await this.getDirectory()).newOrder, {
+      identifiers: dnsNames.map(value => ({ type: 'dns', value })),
+      ...(replaces ? { replaces } : {})
+    });
+    return { ...await response.json(), url: response.headers.get('Location')! };
+  }
+
+  /**
+   * Prove control of every name in the order with the solver's challenge
+   * type, then wait for the server to accept it
+   */
+  async authorize(order: AcmeOrder, solver: ChallengeSolver): Promise<void> {
+    for (const url of order.authorizations) {
+      const authorization = await (await this.post(url, null)).json() as Authorization;
+      if (authorization.status === 'valid') continue;
+
+      const challenge = authorization.challenges.find(c => c.type === solver.type);
+      if (!challenge) {
+        throw new Error(`${authorization.identifier.value} offers no ${solver.type} challenge`);
+      }
+
+      const domain = authorization.identifier.value;
+      const value = solver.type === 'http-01'
+        ? await this.keyAuthorization(challenge.token)
+        : await this.dns01Value(challenge.token);
+
+      await solver.present(domain, challenge.token, value);
+      try {
+        await this.post(challenge.url, {});
+        const settled = await this.poll<Authorization>(url, status => status !== 'pending');
+        if (settled.status !== 'valid') {
+          const failed = settled.challenges.find(c => c.error);
+          throw failed?.error
+            ? new AcmeProblemError(failed.error)
+            : new Error(`Authorization for ${domain} is ${settled.status}`);
+        }
+      } finally {
+        await solver.cleanup?.(domain, challenge.token, value);
+      }
+    }
+  }
+
+  /**
+   * Submit a CSR for the order's names, signed by the new certificate key
+   */
+  async finalize(order: AcmeOrder, keyPair: KeyPair): Promise<AcmeOrder> {
+    const dnsNames = order.identifiers.map(i => i.value);
+    const csr = await createCertificationRequest(dnsNames[0], keyPair, dnsNames);
+    await this.post(order.finalize, { csr: base64UrlEncode(csr) });
+
+    const finalized = await this.poll<AcmeOrder>(order.url, status => status === 'valid' || status === 'invalid');
+    if (finalized.status !== 'valid') {
+      throw finalized.error ? new AcmeProblemError(finalized.error) : new Error(`Order is ${finalized.status}`);
+    }
+    return { ...finalized, url: order.url };
+  }
+
+  async downloadCertificate(order: AcmeOrder): Promise<string> {
+    if (!order.certificate) throw new Error('The order has no certificate yet');
+    return (await this.post(order.certificate, null)).text();
+  }
+
+  /**
+   * The whole flow for a fresh key: order, authorize, finalize, download
+   */
+  async obtainCertificate(
+    dnsNames: string[],
+    solver: ChallengeSolver,
+    options: { keyAlgorithm?: SignatureAlgorithm; replaces?: string } = {}
+  ): Promise<IssuedCertificate> {
+    const order = await this.createOrder(dnsNames, options.replaces);
+    await this.authorize(order, solver);
+
+    const keyPair = generateKeyPair(options.keyAlgorithm ?? 'ML-DSA-65');
+    const chainPem = await this.downloadCertificate(await this.finalize(order, keyPair));
+    const [certificate] = certificatesFromPem(chainPem);
+
+    return { certificate, chainPem, keyPair };
+  }
+
+  // ==========================================================================
+  // Renewal and revocation
+  // ==========================================================================
+
+  async getRenewalInfo(certificate: X509Certificate): Promise<RenewalWindow> {
+    const directory = await this.getDirectory();
+    const response = await this.fetch(`${directory.renewalInfo}/${renewalCertificateId(certificate)}`);
+    if (!response.ok) {
+      throw new AcmeProblemError(await response.json() as AcmeProblem);
+    }
+
+    const { suggestedWindow } = await response.json() as { suggestedWindow: { start: string; end: string } };
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    return {
+      start: new Date(suggestedWindow.start),
+      end: new Date(suggestedWindow.end),
+      retryAfterSeconds: Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+    };
+  }
+
+  /**
+   * Renew with a fresh key of the same algorithm once the server's renewal
+   * window opens. Returns null while the current certificate is not due;
+   * callers check again after retryAfterSeconds.
+   */
+  async renewIfDue(
+    current: IssuedCertificate,
+    solver: ChallengeSolver,
+    now: Date = new Date()
+  ): Promise<IssuedCertificate | null> {
+    const window = await this.getRenewalInfo(current.certificate);
+    if (now < window.start) return null;
+
+    return this.obtainCertificate(current.certificate.dnsNames, solver, {
+      keyAlgorithm: current.keyPair.algorithm as SignatureAlgorithm,
+      replaces: renewalCertificateId(current.certificate)
+    });
+  }
+
+  async revoke(certificate: X509Certificate, reason: RevocationReason = 'unspecified'): Promise<void> {
+    await this.post((await this.getDirectory()).revokeCert, {
+      certificate: base64UrlEncode(certificate.der),
+      reason: REVOCATION_CODES[reason]
+    });
+  }
+
+  get account(): string | null {
+    return this.accountUrl;
+  }
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BFTNode,
+  BFTTransport,
+  ConsensusMessage,
+  SimulatedNetwork,
+  ValidatorSet,
+  createSimulatedCluster
+} from './bft-consensus';
+import type { QuantumTransaction } from './quantum-blockchain';
+
+const CHAIN_ID = 'simulation';
+const TEST_TIMEOUT_MS = 120_000;
+// Virtual time allowed for each transaction to commit
+const COMMIT_WITHIN_MS = 120_000;
+
+let transactionCount = 0;
+
+function transaction(id = `tx-${++transactionCount}`): QuantumTransaction {
+  return {
+    id,
+    type: 'audit_log',
+    userId: 'auditor',
+    action: 'SSO_LOGIN',
+    resource: 'quantum_sso_sessions',
+    timestamp: new Date(0),
+    metadata: {},
+    quantumSignature: '',
+    integrity_hash: ''
+  };
+}
+
+const committedIds = (node: BFTNode) =>
+  node.getCommittedBlocks().flatMap(c => c.block.transactions.map(tx => tx.id));
+
+/**
+ * Safety: no two validators committed different blocks at the same height
+ */
+function expectNoConflictingCommits(nodes: BFTNode[]) {
+  const byHeight = new Map<number, string>();
+  for (const node of nodes) {
+    for (const { block } of node.getCommittedBlocks()) {
+      const hash = byHeight.get(block.height) ?? block.hash;
+      expect(block.hash, `${node.id} at height ${block.height}`).toBe(hash);
+      byHeight.set(block.height, hash);
+    }
+  }
+}
+
+/**
+ * Submit transactions one at a time through honest validators, each of
+ * which must be committed by every one of them
+ */
+async function commitEach(network: SimulatedNetwork, honest: BFTNode[], count: number) {
+  for (let i = 0; i < count; i++) {
+    const tx = transaction();
+    await honest[i % honest.length].submitTransaction(tx);
+    const committed = await network.run(() => honest.every(node => committedIds(node).includes(tx.id)), COMMIT_WITHIN_MS);
+    expect(committed, `${tx.id} committed by every honest validator`).toBe(true);
+  }
+}
+
+/** Leaders of view 0 at the next count heights */
+function nextLeaders(validators: ValidatorSet, node: BFTNode, count: number): string[] {
+  const { height } = node.getStatus();
+  return Array.from({ length: count }, (_, i) => validators.leader(height + i, 0));
+}
+
+// ============================================================================
+// Equivocation
+// ============================================================================
+
+interface TwinsCluster {
+  network: SimulatedNetwork;
+  validators: ValidatorSet;
+  honest: BFTNode[];
+  twins: BFTNode[];
+  /** Blocks each Byzantine validator proposed, by height and view */
+  proposals: Map<string, Set<string>>;
+}
+
+/**
+ * A cluster where each Byzantine validator runs as two nodes with the same
+ * key, each talking to an overlapping half of the honest validators. The
+ * twins act independently, so the validator sends conflicting proposals and
+ * votes to the validators both halves share.
+ */
+function createTwinsCluster(size: number, byzantineIds: (validators: ValidatorSet) => string[], seed: number): TwinsCluster {
+  const network = new SimulatedNetwork({ seed });
+  const keys = Array.from({ length: size }, (_, i) => ValidatorSet.generateValidatorKeys(`validator-${i + 1}`));
+  const validators = new ValidatorSet(keys.map(k => k.validator));
+  const byzantine = new Set(byzantineIds(validators));
+  const proposals = new Map<string, Set<string>>();
+
+  const node = (validatorId: string, secretKey: Uint8Array, transport: BFTTransport) => new BFTNode({
+    chainId: CHAIN_ID,
+    validatorId,
+    secretKey,
+    validators,
+    transport,
+    timers: network,
+    baseTimeoutMs: 500
+  });
+
+  const honest = keys
+    .filter(({ validator }) => !byzantine.has(validator.id))
+    .map(({ validator, secretKey }) => node(validator.id, secretKey, network));
+  honest.forEach(n => network.attach(n));
+
+  const honestIds = honest.map(n => n.id);
+  const half = Math.ceil(honestIds.length / 2);
+  const groups = [honestIds.slice(0, half + 1), honestIds.slice(half - 1)];
+
+  const twins: BFTNode[] = [];
+  for (const { validator, secretKey } of keys.filter(k => byzantine.has(k.validator.id))) {
+    const pair = groups.map(peers => {
+      const transport: BFTTransport = {
+        broadcast(from, message) {
+          if (message.type === 'proposal') {
+            const key = `${validator.id}:${message.block.height}:${message.view}`;
+            proposals.set(key, (proposals.get(key) ?? new Set()).add(message.block.hash));
+          }
+          peers.forEach(to => network.send(from, to, message));
+        },
+        send(from, to, message) {
+          if (peers.includes(to)) network.send(from, to, message);
+        }
+      };
+      return node(validator.id, secretKey, transport);
+    });
+
+    // Messages to the Byzantine validator reach the twin that talks to the sender
+    network.attach({
+      id: validator.id,
+      receive: (from: string, message: ConsensusMessage) =>
+        Promise.all(pair.filter((_, i) => groups[i].includes(from)).map(twin => twin.receive(from, message)))
+    } as unknown as BFTNode);
+    twins.push(...pair);
+  }
+
+  return { network, validators, honest, twins, proposals };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe.each([
+  { size: 4, faulty: 1 },
+  { size: 7, faulty: 2 }
+])('BFT consensus with n=$size', ({ size, faulty }) => {
+  it('tolerates f = ' + faulty, () => {
+    const { validators } = createSimulatedCluster(size);
+    expect(validators.faultTolerance).toBe(faulty);
+    expect(validators.quorum).toBe(2 * faulty + 1);
+  });
+
+  it('commits every transaction on all validators when none are faulty', async () => {
+    const { network, nodes, validators } = createSimulatedCluster(size, { seed: size });
+    await Promise.all(nodes.map(node => node.start()));
+
+    await commitEach(network, nodes, 3);
+
+    expectNoConflictingCommits(nodes);
+    for (const committed of nodes[0].getCommittedBlocks()) {
+      expect(await validators.verifyCommittedBlock(CHAIN_ID, committed)).toBe(true);
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it('changes view past f crashed leaders and keeps committing', async () => {
+    const { network, nodes, validators } = createSimulatedCluster(size, { seed: 10 + size });
+    await Promise.all(nodes.map(node => node.start()));
+
+    // The next f heights all start with a crashed leader
+    const crashed = nextLeaders(validators, nodes[0], faulty);
+    crashed.forEach(id => network.crash(id));
+    const live = nodes.filter(node => !crashed.includes(node.id));
+
+    await commitEach(network, live, faulty + 2);
+
+    expectNoConflictingCommits(live);
+    const blocks = live[0].getCommittedBlocks();
+    for (const committed of blocks) {
+      expect(crashed).not.toContain(committed.block.proposer);
+      expect(await validators.verifyCommittedBlock(CHAIN_ID, committed)).toBe(true);
+    }
+    // Heights whose view-0 leader crashed were decided after a view change
+    expect(blocks.slice(0, faulty).every(({ certificate }) => certificate.view > 0)).toBe(true);
+    expect(crashed.every(id => nodes.find(node => node.id === id)!.getCommittedBlocks().length === 0)).toBe(true);
+  }, TEST_TIMEOUT_MS);
+
+  it('brings a recovered validator up to date without forking', async () => {
+    const { network, nodes, validators } = createSimulatedCluster(size, { seed: 20 + size });
+    await Promise.all(nodes.map(node => node.start()));
+
+    const crashed = nextLeaders(validators, nodes[0], faulty);
+    crashed.forEach(id => network.crash(id));
+    const live = nodes.filter(node => !crashed.includes(node.id));
+    await commitEach(network, live, faulty + 1);
+
+    crashed.forEach(id => network.recover(id));
+    await commitEach(network, nodes, 2);
+
+    expectNoConflictingCommits(nodes);
+    const height = nodes[0].getStatus().committedHeight;
+    expect(nodes.every(node => node.getStatus().committedHeight === height)).toBe(true);
+  }, TEST_TIMEOUT_MS);
+
+  it('never commits conflicting blocks when f validators equivocate', async () => {
+    const { network, validators, honest, twins, proposals } = createTwinsCluster(
+      size,
+      // Byzantine validators lead the first heights, where they can split the vote
+      validators => Array.from({ length: faulty }, (_, i) => validators.leader(1 + i, 0)),
+      30 + size
+    );
+    await Promise.all([...honest, ...twins].map(node => node.start()));
+
+    // Each twin proposes its own transaction, so its two proposals differ
+    for (const [i, twin] of twins.entries()) {
+      await twin.submitTransaction(transaction(`${twin.id}-twin-${i}`));
+    }
+    await commitEach(network, honest, faulty + 2);
+
+    expect([...proposals.values()].some(hashes => hashes.size > 1)).toBe(true);
+    expectNoConflictingCommits(honest);
+    for (const committed of honest[0].getCommittedBlocks()) {
+      expect(await validators.verifyCommittedBlock(CHAIN_ID, committed)).toBe(true);
+    }
+  }, TEST_TIMEOUT_MS);
+
+  it('makes no progress without a quorum, and resumes once one is back', async () => {
+    const { network, nodes, validators } = createSimulatedCluster(size, { seed: 40 + size });
+    await Promise.all(nodes.map(node => node.start()));
+
+    // One more than f crashed leaves fewer than a quorum
+    const crashed = nodes.slice(0, faulty + 1).map(node => node.id);
+    crashed.forEach(id => network.crash(id));
+    const live = nodes.filter(node => !crashed.includes(node.id));
+
+    const tx = transaction();
+    await live[0].submitTransaction(tx);
+    await network.run(() => false, 30_000);
+    expect(live.every(node => node.getStatus().committedHeight === 0)).toBe(true);
+
+    // With f crashed the rest are a quorum again
+    network.recover(crashed[0]);
+    const running = nodes.filter(node => !crashed.slice(1).includes(node.id));
+    expect(running.length).toBe(validators.quorum);
+    const committed = await network.run(() => running.every(node => committedIds(node).includes(tx.id)), COMMIT_WITHIN_MS);
+    expect(committed).toBe(true);
+    expectNoConflictingCommits(nodes);
+  }, TEST_TIMEOUT_MS);
+});
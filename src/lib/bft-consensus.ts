@@ -0,0 +1,1223 @@
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
+import { asciiToBytes, bytesToHex, hexToBytes } from '@noble/curves/utils.js';
+import {
+  chainConsistencyProof,
+  chainTreeHash,
+  rootFromTransactionPath,
+  transactionMerklePath,
+  transactionMerkleRoot,
+  verifyChainConsistency
+} from './merkle-proofs';
+import type { QuantumTransaction } from './quantum-blockchain';
+import type { NetworkMessage, P2PNetworkManager } from './p2p-network-manager';
+import type { MerklePathStep } from './zero-knowledge-proofs';
+
+/**
+ * Byzantine Fault Tolerant Consensus
+ * Permissioned consensus for the audit chain, in place of proof-of-work
+ *
+ * Features:
+ * - Known validator set identified by ML-DSA-65 public keys; tolerates
+ *   f = ⌊(n-1)/3⌋ faulty validators
+ * - PBFT-style rounds: the leader proposes, validators vote prepare and
+ *   then commit, each phase closed by a quorum certificate of more than
+ *   two thirds of the validators' signed votes
+ * - Locking on prepared blocks, so two blocks can never both be committed
+ *   at the same height
+ * - View changes with exponential timeouts when a leader fails; the new
+ *   leader must re-propose the highest prepared block it was shown
+ * - Deterministic finality: a block with a commit certificate is final, and
+ *   anyone holding the validator set can verify that certificate
+ * - Catch-up for validators that missed rounds, from peers' certified blocks
+ * - Audit proofs: an event's inclusion in a certified block, and RFC 6962
+ *   consistency between two chain heights, each checked by a standalone
+ *   verifier that needs only the validator set
+ * - Transport-agnostic: an in-process simulated network with a virtual
+ *   clock, latency, message loss, crashes and partitions, or the WebRTC
+ *   P2P network
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type VotePhase = 'prepare' | 'commit';
+
+export interface BFTValidator {
+  id: string;
+  /** ML-DSA-65 public key (hex) */
+  publicKey: string;
+}
+
+export interface BFTBlock {
+  height: number;
+  previousHash: string;
+  timestamp: string;
+  transactions: QuantumTransaction[];
+  merkleRoot: string;
+  proposer: string;
+  hash: string;
+}
+
+export type BFTBlockHeader = Omit<BFTBlock, 'transactions'>;
+
+export interface ConsensusVote {
+  phase: VotePhase;
+  height: number;
+  view: number;
+  blockHash: string;
+  validatorId: string;
+  signature: string;
+}
+
+/**
+ * Signed votes of a quorum of validators for one block in one phase
+ */
+export interface QuorumCertificate {
+  phase: VotePhase;
+  height: number;
+  view: number;
+  blockHash: string;
+  votes: { validatorId: string; signature: string }[];
+}
+
+/**
+ * A validator's request to move to a new view, carrying the highest block
+ * it saw prepared at this height so the next leader cannot drop it
+ */
+export interface ViewChange {
+  height: number;
+  view: number;
+  highQC: QuorumCertificate | null;
+  highBlock: BFTBlock | null;
+  validatorId: string;
+  signature: string;
+}
+
+export interface CommittedBlock {
+  block: BFTBlock;
+  /** Commit certificate: proof of finality */
+  certificate: QuorumCertificate;
+}
+
+export type ConsensusMessage =
+  | { type: 'proposal'; view: number; block: BFTBlock; justification: ViewChange[]; signature: string }
+  | { type: 'vote'; vote: ConsensusVote }
+  | { type: 'view_change'; viewChange: ViewChange }
+  | { type: 'transaction'; transaction: QuantumTransaction }
+  | { type: 'sync_request'; fromHeight: number }
+  | { type: 'sync_response'; blocks: CommittedBlock[] };
+
+export interface BFTTransport {
+  broadcast(from: string, message: ConsensusMessage): void;
+  send(from: string, to: string, message: ConsensusMessage): void;
+}
+
+export interface ConsensusTimers {
+  now(): number;
+  /** The callback may return a promise of the work it started */
+  setTimer(delayMs: number, callback: () => void | Promise<void>): unknown;
+  clearTimer(handle: unknown): void;
+}
+
+export interface BFTNodeOptions {
+  /** Domain separator for signatures; validators of other chains cannot vote here */
+  chainId: string;
+  validatorId: string;
+  /** ML-DSA-65 secret key of this validator */
+  secretKey: Uint8Array;
+  validators: ValidatorSet;
+  transport: BFTTransport;
+  timers?: ConsensusTimers;
+  /** View timeout at view 0; doubles with every failed view */
+  baseTimeoutMs?: number;
+  maxBlockTransactions?: number;
+  genesisHash?: string;
+  /** Application checks on a proposed block's transactions */
+  validateTransactions?: (transactions: QuantumTransaction[], block: BFTBlock) => boolean | Promise<boolean>;
+  onCommit?: (committed: CommittedBlock) => void;
+}
+
+export interface BFTNodeStatus {
+  validatorId: string;
+  height: number;
+  view: number;
+  leader: string;
+  isLeader: boolean;
+  lockedView: number | null;
+  committedHeight: number;
+  lastBlockHash: string;
+  pendingTransactions: number;
+}
+
+/**
+ * Evidence that one audit event is final: its path to the Merkle root of
+ * its block, and that block's header with the commit certificate over it
+ */
+export interface AuditEventProof {
+  transaction: QuantumTransaction;
+  path: MerklePathStep[];
+  header: BFTBlockHeader;
+  certificate: QuorumCertificate;
+}
+
+/**
+ * A validator's signature over the RFC 6962 tree hash of the block hashes
+ * of the chain's first treeSize blocks; the chain at height n is the tree
+ * of size n
+ */
+export interface SignedTreeHead {
+  treeSize: number;
+  rootHash: string;
+  validatorId: string;
+  signature: string;
+}
+
+/**
+ * Evidence that the chain at the second head extends the chain at the first
+ */
+export interface ChainConsistencyProof {
+  first: SignedTreeHead;
+  second: SignedTreeHead;
+  proof: string[];
+}
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+const SIGNATURE_CONTEXT = asciiToBytes('quantum-iam/bft-consensus/v1');
+const DEFAULT_BASE_TIMEOUT_MS = 2000;
+const DEFAULT_MAX_BLOCK_TRANSACTIONS = 500;
+const MAX_SYNC_BLOCKS = 50;
+const MAX_BUFFERED_MESSAGES = 1000;
+const GENESIS_HASH = '0';
+
+const realTimers: ConsensusTimers = {
+  now: () => Date.now(),
+  setTimer: (delayMs, callback) => setTimeout(callback, delayMs),
+  clearTimer: handle => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+// ============================================================================
+// Hashing and signing
+// ============================================================================
+
+async function sha256Hex(value: string): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return bytesToHex(new Uint8Array(hashBuffer));
+}
+
+function transactionData(transaction: QuantumTransaction): string {
+  // Transactions that crossed the network carry their timestamp as a string
+  return JSON.stringify({ ...transaction, timestamp: new Date(transaction.timestamp).toISOString() });
+}
+
+// RFC 6962 tree over the transaction hashes, as for audit chain blocks
+async function merkleRoot(transactions: QuantumTransaction[]): Promise<string> {
+  if (transactions.length === 0) return '0';
+
+  return transactionMerkleRoot(await Promise.all(transactions.map(tx => sha256Hex(transactionData(tx)))));
+}
+
+async function blockHash(block: Omit<BFTBlockHeader, 'hash'>): Promise<string> {
+  return sha256Hex(JSON.stringify({
+    height: block.height,
+    previousHash: block.previousHash,
+    timestamp: block.timestamp,
+    merkleRoot: block.merkleRoot,
+    proposer: block.proposer
+  }));
+}
+
+/**
+ * A block's hash and Merkle root must match its contents
+ */
+export async function verifyBlockIntegrity(block: BFTBlock): Promise<boolean> {
+  return block.merkleRoot === await merkleRoot(block.transactions) && block.hash === await blockHash(block);
+}
+
+const voteMessage = (chainId: string, phase: VotePhase, height: number, view: number, hash: string) =>
+  `${chainId}|${phase}|${height}|${view}|${hash}`;
+
+const proposalMessage = (chainId: string, height: number, view: number, hash: string) =>
+  `${chainId}|proposal|${height}|${view}|${hash}`;
+
+const viewChangeMessage = (chainId: string, change: Pick<ViewChange, 'height' | 'view' | 'highQC'>) =>
+  `${chainId}|view-change|${change.height}|${change.view}|${change.highQC ? `${change.highQC.view}:${change.highQC.blockHash}` : 'none'}`;
+
+const treeHeadMessage = (chainId: string, treeSize: number, rootHash: string) =>
+  `${chainId}|tree-head|${treeSize}|${rootHash}`;
+
+// ============================================================================
+// Validator Set
+// ============================================================================
+
+export class ValidatorSet {
+  readonly validators: BFTValidator[];
+  private byId: Map<string, BFTValidator>;
+
+  constructor(validators: BFTValidator[]) {
+    this.byId = new Map(validators.map(v => [v.id, v]));
+    if (this.byId.size === 0) {
+      throw new Error('A validator set needs at least one validator');
+    }
+    if (this.byId.size !== validators.length) {
+      throw new Error('Validator ids must be unique');
+    }
+    // Every node must agree on the leader rotation
+    this.validators = [...validators].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  get size(): number {
+    return this.validators.length;
+  }
+
+  /** Faulty validators the set tolerates */
+  get faultTolerance(): number {
+    return Math.floor((this.size - 1) / 3);
+  }
+
+  /** More than two thirds: 2f+1 when n = 3f+1 */
+  get quorum(): number {
+    return Math.floor((2 * this.size) / 3) + 1;
+  }
+
+  has(validatorId: string): boolean {
+    return this.byId.has(validatorId);
+  }
+
+  /**
+   * Round-robin over validators, shifted by height so a failed leader does
+   * not lead view 0 of every height
+   */
+  leader(height: number, view: number): string {
+    return this.validators[(height + view) % this.size].id;
+  }
+
+  verify(validatorId: string, message: string, signature: string): boolean {
+    const validator = this.byId.get(validatorId);
+    if (!validator) return false;
+
+    try {
+      return ml_dsa65.verify(
+        hexToBytes(signature),
+        new TextEncoder().encode(message),
+        hexToBytes(validator.publicKey),
+        { context: SIGNATURE_CONTEXT }
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * A certificate is valid when a quorum of distinct validators signed the
+   * same phase, height, view and block
+   */
+  verifyCertificate(chainId: string, certificate: QuorumCertificate): boolean {
+    const voters = new Set(certificate.votes.map(v => v.validatorId));
+    if (voters.size !== certificate.votes.length || voters.size < this.quorum) {
+      return false;
+    }
+
+    const message = voteMessage(chainId, certificate.phase, certificate.height, certificate.view, certificate.blockHash);
+    return certificate.votes.every(v => this.verify(v.validatorId, message, v.signature));
+  }
+
+  /**
+   * Check that a block is final: intact, and committed by a quorum
+   */
+  async verifyCommittedBlock(chainId: string, committed: CommittedBlock): Promise<boolean> {
+    const { block, certificate } = committed;
+    return certificate.phase === 'commit' &&
+      certificate.height === block.height &&
+      certificate.blockHash === block.hash &&
+      await verifyBlockIntegrity(block) &&
+      this.verifyCertificate(chainId, certificate);
+  }
+
+  static generateValidatorKeys(id: string): { validator: BFTValidator; secretKey: Uint8Array } {
+    const keys = ml_dsa65.keygen();
+    return { validator: { id, publicKey: bytesToHex(keys.publicKey) }, secretKey: keys.secretKey };
+  }
+}
+
+// ============================================================================
+// Audit Proof Verification
+// ============================================================================
+
+/**
+ * Check an audit event proof without the chain: the event hashes up to the
+ * header's Merkle root, the header hashes to its block hash, and a quorum
+ * of the validator set committed that block
+ */
+export async function verifyAuditEventProof(
+  proof: AuditEventProof,
+  validators: ValidatorSet,
+  chainId: string
+): Promise<ProofVerificationResult> {
+  const errors: string[] = [];
+  const { transaction, path, header, certificate } = proof;
+
+  try {
+    const leafHash = await sha256Hex(transactionData(transaction));
+    if (await rootFromTransactionPath(leafHash, path) !== header.merkleRoot) {
+      errors.push('Transaction is not in the block\'s Merkle tree');
+    }
+    if (await blockHash(header) !== header.hash) {
+      errors.push('Block header does not match its hash');
+    }
+  } catch (error) {
+    errors.push(`Malformed proof: ${error}`);
+  }
+
+  if (certificate.phase !== 'commit' || certificate.height !== header.height || certificate.blockHash !== header.hash) {
+    errors.push('Certificate is not a commit certificate for this block');
+  } else if (!validators.verifyCertificate(chainId, certificate)) {
+    errors.push('Commit certificate is not signed by a quorum of validators');
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Check that the chain at the second tree head extends the chain at the
+ * first. Auditors keep the last head they verified and ask for a proof
+ * from it; heads may come from different validators, since honest
+ * validators commit the same chain.
+ */
+export async function verifyConsistencyProof(
+  proof: ChainConsistencyProof,
+  validators: ValidatorSet,
+  chainId: string
+): Promise<ProofVerificationResult> {
+  const errors: string[] = [];
+  const { first, second } = proof;
+
+  for (const [name, head] of [['First', first], ['Second', second]] as const) {
+    if (!validators.verify(head.validatorId, treeHeadMessage(chainId, head.treeSize, head.rootHash), head.signature)) {
+      errors.push(`${name} tree head is not signed by a validator`);
+    }
+  }
+
+  if (!await verifyChainConsistency(first.treeSize, second.treeSize, first.rootHash, second.rootHash, proof.proof)) {
+    errors.push(`Chain at height ${second.treeSize} does not extend the chain at height ${first.treeSize}`);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// Validator Node
+// ============================================================================
+
+/**
+ * One validator's replica of the consensus state machine. Feed it every
+ * message addressed to it with receive(); it talks back through its transport.
+ */
+export class BFTNode {
+  readonly id: string;
+  private chainId: string;
+  private secretKey: Uint8Array;
+  private validators: ValidatorSet;
+  private transport: BFTTransport;
+  private timers: ConsensusTimers;
+  private baseTimeoutMs: number;
+  private maxBlockTransactions: number;
+  private validateTransactions?: BFTNodeOptions['validateTransactions'];
+  private onCommit?: BFTNodeOptions['onCommit'];
+
+  private committed: CommittedBlock[] = [];
+  private committedTransactionIds = new Set<string>();
+  private lastHash: string;
+  private mempool = new Map<string, QuantumTransaction>();
+
+  // State of the height being decided
+  private height = 1;
+  private view = 0;
+  private lockedQC: QuorumCertificate | null = null;
+  private blocks = new Map<string, BFTBlock>();
+  private votes = new Map<string, Map<string, string>>();
+  private sentVotes = new Map<string, ConsensusVote>();
+  private viewChanges = new Map<number, Map<string, ViewChange>>();
+  private proposedViews = new Set<number>();
+  private timer: unknown = null;
+  private running = false;
+  private lastSyncRequest = { height: 0, at: -Infinity };
+  // Messages for the next height, replayed once this one is decided
+  private buffered: { from: string; message: ConsensusMessage }[] = [];
+
+  // Messages are handled one at a time, in arrival order
+  private inbox: Promise<void> = Promise.resolve();
+
+  constructor(options: BFTNodeOptions) {
+    if (!options.validators.has(options.validatorId)) {
+      throw new Error(`${options.validatorId} is not in the validator set`);
+    }
+
+    this.id = options.validatorId;
+    this.chainId = options.chainId;
+    this.secretKey = options.secretKey;
+    this.validators = options.validators;
+    this.transport = options.transport;
+    this.timers = options.timers ?? realTimers;
+    this.baseTimeoutMs = options.baseTimeoutMs ?? DEFAULT_BASE_TIMEOUT_MS;
+    this.maxBlockTransactions = options.maxBlockTransactions ?? DEFAULT_MAX_BLOCK_TRANSACTIONS;
+    this.lastHash = options.genesisHash ?? GENESIS_HASH;
+    this.validateTransactions = options.validateTransactions;
+    this.onCommit = options.onCommit;
+  }
+
+  start(): Promise<void> {
+    this.running = true;
+    return this.enqueue(() => this.proceed());
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearViewTimer();
+  }
+
+  /**
+   * Submit a transaction to every validator's mempool; whichever leads the
+   * next round includes it
+   */
+  submitTransaction(transaction: QuantumTransaction): Promise<void> {
+    this.transport.broadcast(this.id, { type: 'transaction', transaction });
+    return this.enqueue(() => this.acceptTransaction(transaction));
+  }
+
+  receive(from: string, message: ConsensusMessage): Promise<void> {
+    return this.enqueue(() => this.handle(from, message));
+  }
+
+  getCommittedBlocks(): CommittedBlock[] {
+    return [...this.committed];
+  }
+
+  getStatus(): BFTNodeStatus {
+    const leader = this.validators.leader(this.height, this.view);
+    return {
+      validatorId: this.id,
+      height: this.height,
+      view: this.view,
+      leader,
+      isLeader: leader === this.id,
+      lockedView: this.lockedQC?.view ?? null,
+      committedHeight: this.committed.length,
+      lastBlockHash: this.lastHash,
+      pendingTransactions: this.mempool.size
+    };
+  }
+
+  /**
+   * Inclusion proof for a transaction, or null until it is committed
+   */
+  async getAuditEventProof(transactionId: string): Promise<AuditEventProof | null> {
+    const committed = this.committed.find(c => c.block.transactions.some(tx => tx.id === transactionId));
+    if (!committed) return null;
+
+    const { block, certificate } = committed;
+    const index = block.transactions.findIndex(tx => tx.id === transactionId);
+    const leafHashes = await Promise.all(block.transactions.map(tx => sha256Hex(transactionData(tx))));
+
+    return {
+      transaction: block.transactions[index],
+      path: transactionMerklePath(leafHashes, index),
+      header: {
+        height: block.height,
+        previousHash: block.previousHash,
+        timestamp: block.timestamp,
+        merkleRoot: block.merkleRoot,
+        proposer: block.proposer,
+        hash: block.hash
+      },
+      certificate
+    };
+  }
+
+  /**
+   * Sign the tree hash of the chain at a committed height, by default the
+   * current one
+   */
+  async getTreeHead(treeSize: number = this.committed.length): Promise<SignedTreeHead> {
+    const rootHash = await chainTreeHash(this.committedHashes(treeSize));
+    return {
+      treeSize,
+      rootHash,
+      validatorId: this.id,
+      signature: this.sign(treeHeadMessage(this.chainId, treeSize, rootHash))
+    };
+  }
+
+  /**
+   * Consistency proof between two committed heights, by default from
+   * firstSize to the current one
+   */
+  async getConsistencyProof(firstSize: number, secondSize: number = this.committed.length): Promise<ChainConsistencyProof> {
+    if (firstSize > secondSize) {
+      throw new Error(`Height ${firstSize} is past height ${secondSize}`);
+    }
+
+    const hashes = this.committedHashes(secondSize);
+    return {
+      first: await this.getTreeHead(firstSize),
+      second: await this.getTreeHead(secondSize),
+      proof: await chainConsistencyProof(hashes, firstSize)
+    };
+  }
+
+  private committedHashes(treeSize: number): string[] {
+    if (!Number.isInteger(treeSize) || treeSize < 0 || treeSize > this.committed.length) {
+      throw new Error(`Height ${treeSize} is not committed; the chain is at height ${this.committed.length}`);
+    }
+    return this.committed.slice(0, treeSize).map(c => c.block.hash);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.inbox = this.inbox.then(task).catch(error => {
+      console.error(`Consensus error on ${this.id}:`, error);
+    });
+    return this.inbox;
+  }
+
+  private async handle(from: string, message: ConsensusMessage): Promise<void> {
+    if (!this.running) return;
+
+    switch (message.type) {
+      case 'transaction':
+        return this.acceptTransaction(message.transaction);
+      case 'proposal':
+        return this.handleProposal(from, message);
+      case 'vote':
+        return this.handleVote(message.vote);
+      case 'view_change':
+        return this.handleViewChange(message.viewChange);
+      case 'sync_request':
+        return this.handleSyncRequest(from, message.fromHeight);
+      case 'sync_response':
+        return this.handleSyncResponse(message.blocks);
+    }
+  }
+
+  private sign(message: string): string {
+    return bytesToHex(ml_dsa65.sign(new TextEncoder().encode(message), this.secretKey, { context: SIGNATURE_CONTEXT }));
+  }
+
+  // ==========================================================================
+  // Rounds
+  // ==========================================================================
+
+  private get isLeader(): boolean {
+    return this.validators.leader(this.height, this.view) === this.id;
+  }
+
+  private async acceptTransaction(transaction: QuantumTransaction): Promise<void> {
+    if (!transaction?.id || this.mempool.has(transaction.id) || this.committedTransactionIds.has(transaction.id)) {
+      return;
+    }
+    this.mempool.set(transaction.id, transaction);
+    await this.proceed();
+  }
+
+  /**
+   * Keep the round moving: the view-0 leader proposes once there is work,
+   * and every validator with work pending watches the leader with a timer
+   */
+  private async proceed(): Promise<void> {
+    if (!this.running) return;
+
+    const hasWork = this.mempool.size > 0 || this.blocks.size > 0 || this.view > 0;
+    if (hasWork && this.timer === null) {
+      this.startViewTimer();
+    }
+
+    if (this.view === 0 && this.isLeader && !this.proposedViews.has(0) && this.mempool.size > 0) {
+      await this.propose(await this.buildBlock(), []);
+    }
+  }
+
+  private async buildBlock(): Promise<BFTBlock> {
+    const transactions = [...this.mempool.values()].slice(0, this.maxBlockTransactions);
+    const block = {
+      height: this.height,
+      previousHash: this.lastHash,
+      timestamp: new Date(this.timers.now()).toISOString(),
+      transactions,
+      merkleRoot: await merkleRoot(transactions),
+      proposer: this.id
+    };
+    return { ...block, hash: await blockHash(block) };
+  }
+
+  private async propose(block: BFTBlock, justification: ViewChange[]): Promise<void> {
+    this.proposedViews.add(this.view);
+    const message: ConsensusMessage = {
+      type: 'proposal',
+      view: this.view,
+      block,
+      justification,
+      signature: this.sign(proposalMessage(this.chainId, block.height, this.view, block.hash))
+    };
+    this.transport.broadcast(this.id, message);
+    await this.handleProposal(this.id, message);
+  }
+
+  private async handleProposal(
+    from: string,
+    proposal: Extract<ConsensusMessage, { type: 'proposal' }>
+  ): Promise<void> {
+    const { block, view } = proposal;
+    if (block.height > this.height) {
+      this.defer(from, proposal, block.height);
+      return;
+    }
+    if (block.height < this.height || view < this.view) return;
+
+    const leader = this.validators.leader(block.height, view);
+    if (from !== leader) return;
+    if (!this.validators.verify(leader, proposalMessage(this.chainId, block.height, view, block.hash), proposal.signature)) {
+      return;
+    }
+
+    // A proposal for a later view must show that a quorum asked for that view
+    let justifiedQC: QuorumCertificate | null = null;
+    if (view > 0) {
+      const justification = this.verifyJustification(block.height, view, proposal.justification);
+      if (!justification) return;
+      justifiedQC = justification.highQC;
+      if (justifiedQC && justifiedQC.blockHash !== block.hash) return;
+    }
+
+    if (block.previousHash !== this.lastHash || !await verifyBlockIntegrity(block)) return;
+    if (!justifiedQC && !await this.isValidNewBlock(block)) return;
+
+    // Locked validators only vote for their locked block, unless shown a
+    // block prepared in a view at least as recent
+    if (this.lockedQC && this.lockedQC.blockHash !== block.hash &&
+        (!justifiedQC || justifiedQC.view < this.lockedQC.view)) {
+      return;
+    }
+
+    if (view > this.view) {
+      this.enterView(view);
+    }
+
+    this.blocks.set(block.hash, block);
+    if (this.timer === null) this.startViewTimer();
+    await this.castVote('prepare', block.hash);
+  }
+
+  private async isValidNewBlock(block: BFTBlock): Promise<boolean> {
+    const ids = block.transactions.map(tx => tx.id);
+    if (new Set(ids).size !== ids.length || ids.some(id => this.committedTransactionIds.has(id))) {
+      return false;
+    }
+    if (block.transactions.length > this.maxBlockTransactions) return false;
+
+    const previous = this.committed[this.committed.length - 1];
+    if (previous && block.timestamp < previous.block.timestamp) return false;
+
+    return this.validateTransactions ? await this.validateTransactions(block.transactions, block) : true;
+  }
+
+  private async castVote(phase: VotePhase, hash: string): Promise<void> {
+    const key = `${phase}:${this.view}`;
+    if (this.sentVotes.has(key)) return;
+
+    const vote: ConsensusVote = {
+      phase,
+      height: this.height,
+      view: this.view,
+      blockHash: hash,
+      validatorId: this.id,
+      signature: this.sign(voteMessage(this.chainId, phase, this.height, this.view, hash))
+    };
+    this.sentVotes.set(key, vote);
+    this.transport.broadcast(this.id, { type: 'vote', vote });
+    await this.handleVote(vote);
+  }
+
+  private async handleVote(vote: ConsensusVote): Promise<void> {
+    if (vote.height > this.height) {
+      this.defer(vote.validatorId, { type: 'vote', vote }, vote.height);
+      return;
+    }
+    if (vote.height < this.height) return;
+    if (!this.validators.verify(vote.validatorId, voteMessage(this.chainId, vote.phase, vote.height, vote.view, vote.blockHash), vote.signature)) {
+      return;
+    }
+
+    const key = `${vote.phase}:${vote.view}:${vote.blockHash}`;
+    const tally = this.votes.get(key) ?? new Map<string, string>();
+    if (tally.has(vote.validatorId)) return;
+    tally.set(vote.validatorId, vote.signature);
+    this.votes.set(key, tally);
+
+    if (tally.size < this.validators.quorum) return;
+
+    const certificate: QuorumCertificate = {
+      phase: vote.phase,
+      height: vote.height,
+      view: vote.view,
+      blockHash: vote.blockHash,
+      votes: [...tally].map(([validatorId, signature]) => ({ validatorId, signature }))
+    };
+
+    if (vote.phase === 'prepare') {
+      if (!this.lockedQC || certificate.view > this.lockedQC.view) {
+        this.lockedQC = certificate;
+      }
+      if (vote.view === this.view && this.blocks.has(vote.blockHash)) {
+        await this.castVote('commit', vote.blockHash);
+      }
+      return;
+    }
+
+    // Commit votes are only cast for prepared blocks, so a commit
+    // certificate from any view decides the height
+    const block = this.blocks.get(vote.blockHash);
+    if (block) {
+      await this.commit({ block, certificate });
+    } else {
+      this.requestSync(vote.validatorId);
+    }
+  }
+
+  private async commit(committed: CommittedBlock): Promise<void> {
+    const { block } = committed;
+    this.committed.push(committed);
+    this.lastHash = block.hash;
+    for (const tx of block.transactions) {
+      this.committedTransactionIds.add(tx.id);
+      this.mempool.delete(tx.id);
+    }
+
+    this.height = block.height + 1;
+    this.view = 0;
+    this.lockedQC = null;
+    this.blocks.clear();
+    this.votes.clear();
+    this.sentVotes.clear();
+    this.viewChanges.clear();
+    this.proposedViews.clear();
+    this.clearViewTimer();
+
+    this.onCommit?.(committed);
+    await this.proceed();
+
+    const replay = this.buffered;
+    this.buffered = [];
+    for (const { from, message } of replay) {
+      await this.handle(from, message);
+    }
+  }
+
+  // ==========================================================================
+  // View changes
+  // ==========================================================================
+
+  private startViewTimer(): void {
+    this.clearViewTimer();
+    const timeout = this.baseTimeoutMs * 2 ** Math.min(this.view, 10);
+    const [height, view] = [this.height, this.view];
+    this.timer = this.timers.setTimer(timeout, () => {
+      this.timer = null;
+      return this.enqueue(async () => {
+        if (this.running && this.height === height && this.view === view) {
+          this.retransmit();
+          await this.requestViewChange(view + 1);
+        }
+      });
+    });
+  }
+
+  private clearViewTimer(): void {
+    if (this.timer !== null) {
+      this.timers.clearTimer(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Messages can be lost. When a view times out, resend pending transactions
+   * so the next leader has them, and commit votes, since a commit
+   * certificate from any view still decides the height.
+   */
+  private retransmit(): void {
+    for (const transaction of [...this.mempool.values()].slice(0, this.maxBlockTransactions)) {
+      this.transport.broadcast(this.id, { type: 'transaction', transaction });
+    }
+    for (const vote of this.sentVotes.values()) {
+      if (vote.phase === 'commit') {
+        this.transport.broadcast(this.id, { type: 'vote', vote });
+      }
+    }
+  }
+
+  private enterView(view: number): void {
+    this.view = view;
+    this.startViewTimer();
+  }
+
+  /**
+   * Give up on the current leader: stop voting in this view and ask for
+   * the next, handing over the highest prepared block
+   */
+  private async requestViewChange(view: number): Promise<void> {
+    if (this.viewChanges.get(view)?.has(this.id)) return;
+
+    const highBlock = this.lockedQC ? this.blocks.get(this.lockedQC.blockHash) ?? null : null;
+    const change = { height: this.height, view, highQC: highBlock ? this.lockedQC : null };
+    const viewChange: ViewChange = {
+      ...change,
+      highBlock,
+      validatorId: this.id,
+      signature: this.sign(viewChangeMessage(this.chainId, change))
+    };
+
+    this.enterView(view);
+    this.transport.broadcast(this.id, { type: 'view_change', viewChange });
+    await this.handleViewChange(viewChange);
+  }
+
+  private async verifyViewChange(change: ViewChange): Promise<boolean> {
+    if (!this.validators.verify(change.validatorId, viewChangeMessage(this.chainId, change), change.signature)) {
+      return false;
+    }
+    if (!change.highQC) return true;
+
+    return change.highQC.phase === 'prepare' &&
+      change.highQC.height === change.height &&
+      change.highQC.view < change.view &&
+      change.highBlock?.hash === change.highQC.blockHash &&
+      await verifyBlockIntegrity(change.highBlock) &&
+      this.validators.verifyCertificate(this.chainId, change.highQC);
+  }
+
+  private async handleViewChange(change: ViewChange): Promise<void> {
+    if (change.height > this.height) {
+      this.defer(change.validatorId, { type: 'view_change', viewChange: change }, change.height);
+      return;
+    }
+    if (change.height < this.height) {
+      // The sender is timing out on a height already decided here
+      await this.handleSyncRequest(change.validatorId, change.height);
+      return;
+    }
+    if (change.view < this.view) return;
+
+    const received = this.viewChanges.get(change.view) ?? new Map<string, ViewChange>();
+    if (received.has(change.validatorId)) return;
+    if (!await this.verifyViewChange(change)) return;
+    received.set(change.validatorId, change);
+    this.viewChanges.set(change.view, received);
+
+    // f+1 validators gave up on the leader, so at least one honest one did
+    if (change.view > this.view && received.size > this.validators.faultTolerance) {
+      await this.requestViewChange(change.view);
+      return;
+    }
+
+    if (change.view === this.view && received.size >= this.validators.quorum &&
+        this.isLeader && !this.proposedViews.has(this.view)) {
+      const justification = [...received.values()];
+      const high = this.highestPrepared(justification);
+      if (high) {
+        await this.propose(high.block, justification);
+      } else if (this.mempool.size > 0) {
+        await this.propose(await this.buildBlock(), justification);
+      }
+    }
+  }
+
+  private highestPrepared(changes: ViewChange[]): { qc: QuorumCertificate; block: BFTBlock } | null {
+    let high: { qc: QuorumCertificate; block: BFTBlock } | null = null;
+    for (const change of changes) {
+      if (change.highQC && change.highBlock && (!high || change.highQC.view > high.qc.view)) {
+        high = { qc: change.highQC, block: change.highBlock };
+      }
+    }
+    return high;
+  }
+
+  private verifyJustification(
+    height: number,
+    view: number,
+    justification: ViewChange[]
+  ): { highQC: QuorumCertificate | null } | null {
+    const signers = new Set<string>();
+    for (const change of justification) {
+      if (change.height !== height || change.view !== view || signers.has(change.validatorId)) return null;
+      signers.add(change.validatorId);
+    }
+    if (signers.size < this.validators.quorum) return null;
+
+    // Signatures and certificates are checked synchronously here; the
+    // carried blocks are checked against their hashes by the caller
+    for (const change of justification) {
+      if (!this.validators.verify(change.validatorId, viewChangeMessage(this.chainId, change), change.signature)) return null;
+      if (change.highQC && (
+        change.highQC.phase !== 'prepare' ||
+        change.highQC.height !== height ||
+        change.highQC.view >= view ||
+        !this.validators.verifyCertificate(this.chainId, change.highQC)
+      )) {
+        return null;
+      }
+    }
+
+    return { highQC: this.highestPrepared(justification)?.qc ?? null };
+  }
+
+  // ==========================================================================
+  // Catch-up
+  // ==========================================================================
+
+  /**
+   * Hold on to a message from a later height. The sender has decided this
+   * height already if it is two or more ahead, or once the next height's
+   * votes start arriving; ask it for the certified blocks.
+   */
+  private defer(from: string, message: ConsensusMessage, height: number): void {
+    if (height === this.height + 1 && this.buffered.length < MAX_BUFFERED_MESSAGES) {
+      this.buffered.push({ from, message });
+    }
+    this.requestSync(from);
+  }
+
+  private requestSync(peerId: string): void {
+    const now = this.timers.now();
+    if (peerId === this.id ||
+        (this.lastSyncRequest.height === this.height && now - this.lastSyncRequest.at < this.baseTimeoutMs)) {
+      return;
+    }
+    this.lastSyncRequest = { height: this.height, at: now };
+    this.transport.send(this.id, peerId, { type: 'sync_request', fromHeight: this.height });
+  }
+
+  private async handleSyncRequest(from: string, fromHeight: number): Promise<void> {
+    const blocks = this.committed.slice(Math.max(0, fromHeight - 1), fromHeight - 1 + MAX_SYNC_BLOCKS);
+    if (blocks.length > 0) {
+      this.transport.send(this.id, from, { type: 'sync_response', blocks });
+    }
+  }
+
+  private async handleSyncResponse(blocks: CommittedBlock[]): Promise<void> {
+    for (const committed of blocks) {
+      if (committed.block.height < this.height) continue;
+      if (committed.block.height > this.height || committed.block.previousHash !== this.lastHash) return;
+      if (!await this.validators.verifyCommittedBlock(this.chainId, committed)) return;
+      await this.commit(committed);
+    }
+  }
+}
+
+// ============================================================================
+// Simulated Network
+// ============================================================================
+
+export interface SimulatedNetworkOptions {
+  /** Delivery delay range in virtual milliseconds */
+  latencyMs?: [number, number];
+  /** Share of messages silently lost */
+  dropRate?: number;
+  /** Seed for latency and loss, so runs are reproducible */
+  seed?: number;
+}
+
+interface ScheduledEvent {
+  at: number;
+  seq: number;
+  run: () => void | Promise<void>;
+}
+
+/**
+ * In-process network with a virtual clock, for running several validators
+ * deterministically. Nodes must use the network as both their transport
+ * and their timers; run() then advances time event by event.
+ */
+export class SimulatedNetwork implements BFTTransport, ConsensusTimers {
+  private nodes = new Map<string, BFTNode>();
+  private events: ScheduledEvent[] = [];
+  private cancelled = new Set<number>();
+  private crashed = new Set<string>();
+  private partitions: Set<string>[] | null = null;
+  private clock = 0;
+  private seq = 0;
+  private random: () => number;
+  private latency: [number, number];
+  private dropRate: number;
+  readonly stats = { sent: 0, delivered: 0, dropped: 0 };
+
+  constructor(options: SimulatedNetworkOptions = {}) {
+    this.latency = options.latencyMs ?? [5, 50];
+    this.dropRate = options.dropRate ?? 0;
+
+    // mulberry32
+    let state = options.seed ?? 1;
+    this.random = () => {
+      state = (state + 0x6d2b79f5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  attach(node: BFTNode): void {
+    this.nodes.set(node.id, node);
+  }
+
+  now(): number {
+    return this.clock;
+  }
+
+  setTimer(delayMs: number, callback: () => void | Promise<void>): unknown {
+    return this.schedule(delayMs, callback);
+  }
+
+  clearTimer(handle: unknown): void {
+    this.cancelled.add(handle as number);
+  }
+
+  broadcast(from: string, message: ConsensusMessage): void {
+    for (const id of this.nodes.keys()) {
+      if (id !== from) this.send(from, id, message);
+    }
+  }
+
+  send(from: string, to: string, message: ConsensusMessage): void {
+    this.stats.sent++;
+    if (!this.canReach(from, to) || this.random() < this.dropRate) {
+      this.stats.dropped++;
+      return;
+    }
+
+    const [min, max] = this.latency;
+    const copy = structuredClone(message);
+    this.schedule(min + this.random() * (max - min), async () => {
+      const node = this.nodes.get(to);
+      // Recheck on delivery: the link may have been cut in flight
+      if (!node || !this.canReach(from, to)) {
+        this.stats.dropped++;
+        return;
+      }
+      this.stats.delivered++;
+      await node.receive(from, copy);
+    });
+  }
+
+  /** A crashed node neither sends nor receives */
+  crash(nodeId: string): void {
+    this.crashed.add(nodeId);
+  }
+
+  recover(nodeId: string): void {
+    this.crashed.delete(nodeId);
+  }
+
+  /** Only nodes in the same group can reach each other */
+  partition(...groups: string[][]): void {
+    this.partitions = groups.map(group => new Set(group));
+  }
+
+  heal(): void {
+    this.partitions = null;
+  }
+
+  /**
+   * Process events in time order until the condition holds or the virtual
+   * clock passes maxTimeMs. Returns whether the condition was met.
+   */
+  async run(until: () => boolean, maxTimeMs: number): Promise<boolean> {
+    const deadline = this.clock + maxTimeMs;
+    while (!until()) {
+      const event = this.events.shift();
+      if (!event || event.at > deadline) {
+        if (event) this.events.unshift(event);
+        this.clock = Math.max(this.clock, deadline);
+        return until();
+      }
+      if (this.cancelled.delete(event.seq)) continue;
+
+      this.clock = event.at;
+      await event.run();
+    }
+    return true;
+  }
+
+  private canReach(from: string, to: string): boolean {
+    if (this.crashed.has(from) || this.crashed.has(to)) return false;
+    return !this.partitions || this.partitions.some(group => group.has(from) && group.has(to));
+  }
+
+  private schedule(delayMs: number, run: ScheduledEvent['run']): number {
+    const event = { at: this.clock + delayMs, seq: this.seq++, run };
+    const index = this.events.findIndex(e => e.at > event.at);
+    this.events.splice(index === -1 ? this.events.length : index, 0, event);
+    return event.seq;
+  }
+}
+
+/**
+ * Validators with fresh keys on a simulated network, ready to start()
+ */
+export function createSimulatedCluster(
+  size: number,
+  options: SimulatedNetworkOptions & Partial<Pick<BFTNodeOptions, 'chainId' | 'baseTimeoutMs' | 'validateTransactions'>> = {}
+): { network: SimulatedNetwork; validators: ValidatorSet; nodes: BFTNode[] } {
+  const network = new SimulatedNetwork(options);
+  const keys = Array.from({ length: size }, (_, i) => ValidatorSet.generateValidatorKeys(`validator-${i + 1}`));
+  const validators = new ValidatorSet(keys.map(k => k.validator));
+
+  const nodes = keys.map(({ validator, secretKey }) => {
+    const node = new BFTNode({
+      chainId: options.chainId ?? 'simulation',
+      validatorId: validator.id,
+      secretKey,
+      validators,
+      transport: network,
+      timers: network,
+      baseTimeoutMs: options.baseTimeoutMs ?? 500,
+      validateTransactions: options.validateTransactions
+    });
+    network.attach(node);
+    return node;
+  });
+
+  return { network, validators, nodes };
+}
+
+// ============================================================================
+// P2P Transport
+// ============================================================================
+
+/**
+ * Carries consensus messages over the WebRTC P2P network. Peer ids must be
+ * validator ids; pass incoming 'consensus' messages to deliver().
+ */
+export class P2PConsensusTransport implements BFTTransport {
+  private node: BFTNode | null = null;
+
+  constructor(private network: P2PNetworkManager) {}
+
+  attach(node: BFTNode): void {
+    this.node = node;
+  }
+
+  broadcast(_from: string, message: ConsensusMessage): void {
+    this.network.broadcast({ type: 'consensus', data: message });
+  }
+
+  send(_from: string, to: string, message: ConsensusMessage): void {
+    this.network.sendToPeer(to, { type: 'consensus', data: message });
+  }
+
+  async deliver(message: NetworkMessage, peerId: string): Promise<void> {
+    if (message.type === 'consensus' && this.node) {
+      await this.node.receive(peerId, message.data as ConsensusMessage);
+    }
+  }
+}
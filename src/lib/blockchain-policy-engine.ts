@@ -123,6 +123,45 @@ export class BlockchainPolicyEngine {
       };
     }
 
+    const now = new Date();
+    const result = BlockchainPolicyEngine.evaluateRules(policy, context, now);
+
+    // Inactive and expired policies are refused without being logged
+    if (!policy.isActive || (policy.expiresAt && now > policy.expiresAt)) {
+      return result;
+    }
+
+    // Log evaluation to blockchain
+    await this.blockchain.addTransaction({
+      id: `policy-eval-${Date.now()}`,
+      type: 'access_event',
+      userId: context.userId,
+      action: result.allowed ? 'ACCESS_GRANTED' : 'ACCESS_DENIED',
+      resource: context.resource,
+      timestamp: new Date(),
+      metadata: {
+        policy_id: policyId,
+        matched_conditions: result.matchedConditions,
+        failed_conditions: result.failedConditions,
+        risk_score: result.riskScore,
+        quantum_protected: true
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Evaluate a policy's rules without touching the chain. Used for live
+   * evaluation and for replaying past requests; `now` decides expiry.
+   */
+  static evaluateRules(
+    policy: BlockchainPolicy,
+    context: PolicyEvaluationContext,
+    now: Date = new Date()
+  ): PolicyEvaluationResult {
+    const policyId = policy.id;
+
     if (!policy.isActive) {
       return {
         allowed: false,
@@ -136,7 +175,7 @@ export class BlockchainPolicyEngine {
     }
 
     // Check expiration
-    if (policy.expiresAt && new Date() > policy.expiresAt) {
+    if (policy.expiresAt && now > policy.expiresAt) {
       return {
         allowed: false,
         policyId,
@@ -166,9 +205,8 @@ export class BlockchainPolicyEngine {
 
     // 2. Check time restrictions
     if (policy.timeRestrictions) {
-      const now = context.timestamp;
-      const day = now.getDay();
-      const hour = now.getHours();
+      const day = context.timestamp.getDay();
+      const hour = context.timestamp.getHours();
 
       const isAllowedDay = policy.timeRestrictions.days.includes(day);
       const isAllowedHour = 
@@ -222,23 +260,6 @@ export class BlockchainPolicyEngine {
     const allowed = failedConditions.length === 0;
     const requiresApproval = riskScore > 50 && riskScore < 100;
 
-    // Log evaluation to blockchain
-    await this.blockchain.addTransaction({
-      id: `policy-eval-${Date.now()}`,
-      type: 'access_event',
-      userId: context.userId,
-      action: allowed ? 'ACCESS_GRANTED' : 'ACCESS_DENIED',
-      resource: context.resource,
-      timestamp: new Date(),
-      metadata: {
-        policy_id: policyId,
-        matched_conditions: matchedConditions,
-        failed_conditions: failedConditions,
-        risk_score: riskScore,
-        quantum_protected: true
-      }
-    });
-
     return {
       allowed,
       policyId,
@@ -255,7 +276,7 @@ export class BlockchainPolicyEngine {
   /**
    * Evaluate a single condition
    */
-  private evaluateCondition(
+  private static evaluateCondition(
     condition: PolicyCondition,
     context: PolicyEvaluationContext
   ): { passed: boolean; name: string; riskImpact: number } {
@@ -307,7 +328,7 @@ export class BlockchainPolicyEngine {
   /**
    * Evaluate operator logic
    */
-  private evaluateOperator(actual: any, operator: string, expected: any): boolean {
+  private static evaluateOperator(actual: any, operator: string, expected: any): boolean {
     switch (operator) {
       case 'equals':
         return actual === expected;
@@ -0,0 +1,562 @@
+/**
+ * Chain Reconciliation
+ *
+ * Keeps the three copies of the audit chain in step: the in-memory chain,
+ * the browser's IndexedDB store, and blockchain_blocks, the chain of record.
+ *
+ * Features:
+ * - Compares the height, hash and signature of every block across the stores
+ * - Record blocks are checked server side by the chain-reconciliation edge
+ *   function; local blocks are checked here and against the record
+ * - Tells forks, a different block that verifies, from tampering, a block
+ *   that fails its hash, Merkle root, proof-of-work, signature or link
+ * - Repairs each store from the authoritative copy: the record where it
+ *   verifies, otherwise a local copy that verifies and links into it.
+ *   Forks are only resolved when asked, as both sides are valid histories.
+ * - Raises blockchain alerts, once each, with a field diff of every copy
+ *   that differs
+ */
+
+import { hexToBytes } from '@noble/curves/utils.js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { AlertManager } from './alert-manager';
+import { BlockchainStorage } from './blockchain-storage';
+import { EnhancedQuantumBlockchain, IBlock, QuantumBlock } from './enhanced-quantum-blockchain';
+import type { QuantumBlock as StoredBlock } from './quantum-blockchain';
+
+const FUNCTION_NAME = 'chain-reconciliation';
+
+const STORES: ChainStore[] = ['record', 'memory', 'indexeddb'];
+const LOCAL_STORES: ChainStore[] = ['memory', 'indexeddb'];
+
+// Block fields covered by the hash or signature, compared between copies
+const COMPARED_FIELDS = [
+  'hash',
+  'previousHash',
+  'merkleRoot',
+  'merkleTree',
+  'timestamp',
+  'nonce',
+  'difficulty',
+  'signature',
+  'signerPublicKey'
+] as const;
+
+const ALERTED_HEIGHTS_SHOWN = 10;
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type BlockRow = Database['public']['Tables']['blockchain_blocks']['Row'];
+type BlockInsert = Database['public']['Tables']['blockchain_blocks']['Insert'];
+
+export type ChainStore = 'record' | 'memory' | 'indexeddb';
+
+/**
+ * Why a copy of a block does not verify. Record rows written before blocks
+ * were stored in full are 'incomplete' and cannot be checked.
+ */
+export type BlockIssue = 'incomplete' | 'hash' | 'merkle_root' | 'proof_of_work' | 'signature' | 'link';
+
+export type CopyState = 'missing' | 'fork' | 'tampered';
+
+export type DiscrepancyKind = CopyState | 'unrecoverable';
+
+export interface BlockFieldDiff {
+  store: ChainStore;
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ChainDiscrepancy {
+  index: number;
+  kind: DiscrepancyKind;
+  /** Each store's hash at this height, null where the block is missing */
+  hashes: Partial<Record<ChainStore, string | null>>;
+  issues: Partial<Record<ChainStore, BlockIssue[]>>;
+  /** Stores whose copy is missing or differs from the authoritative one */
+  states: Partial<Record<ChainStore, CopyState>>;
+  /** Store the others are repaired from, null when none holds a valid copy */
+  authoritative: ChainStore | null;
+  diff: BlockFieldDiff[];
+}
+
+export interface ReconciliationReport {
+  runId: string | null;
+  heights: Record<ChainStore, number>;
+  /** Lowest block in the record; local blocks below it are not compared */
+  recordStart: number | null;
+  /** First height where the stores hold different blocks */
+  forkPoint: number | null;
+  discrepancies: ChainDiscrepancy[];
+  /** Heights rewritten in each store */
+  repaired: Record<ChainStore, number[]>;
+  repairErrors: string[];
+  finishedAt: Date;
+}
+
+export interface ReconcileOptions {
+  /** The in-memory chain; without one only IndexedDB and the record are compared */
+  chain?: EnhancedQuantumBlockchain | null;
+  storage?: BlockchainStorage;
+  repair?: boolean;
+  /** When repairing, also replace local forks with the record's blocks */
+  resolveForks?: boolean;
+}
+
+interface RecordVerdict {
+  index: number;
+  hash: string;
+  issues: BlockIssue[];
+}
+
+interface VerifyResponse {
+  runId: string;
+  blocks: RecordVerdict[];
+}
+
+interface RepairResponse {
+  repaired: number[];
+  rejected: { index: number; reason: string }[];
+}
+
+interface BlockCopy {
+  block: IBlock;
+  issues: BlockIssue[];
+}
+
+type StoreBlocks = Record<ChainStore, Map<number, IBlock>>;
+
+// ============================================================================
+// Block Rows and Checks
+// ============================================================================
+
+/**
+ * The blockchain_blocks row for a block, stored in full so the chain of
+ * record can be re-checked and local copies repaired from it
+ */
+export function toBlockRow(block: IBlock, minerId: string | null = null): BlockInsert {
+  return {
+    block_index: block.index,
+    block_hash: block.hash,
+    previous_hash: block.previousHash,
+    merkle_root: block.merkleRoot,
+    merkle_tree: block.merkleTree ?? null,
+    miner_id: minerId,
+    nonce: block.nonce,
+    difficulty: block.difficulty,
+    transaction_count: block.data.length,
+    block_timestamp: block.timestamp,
+    block_data: JSON.stringify(block.data),
+    signature: block.signature ?? null,
+    signer_public_key: block.signerPublicKey ?? null
+  };
+}
+
+/**
+ * The block a blockchain_blocks row holds. Rows written before blocks were
+ * stored in full come back without transactions and do not verify.
+ */
+export function fromBlockRow(row: BlockRow): QuantumBlock {
+  return QuantumBlock.from({
+    index: row.block_index,
+    timestamp: row.block_timestamp ?? new Date(row.created_at).getTime(),
+    data: row.block_data ? JSON.parse(row.block_data) : [],
+    previousHash: row.previous_hash,
+    hash: row.block_hash,
+    nonce: row.nonce,
+    difficulty: row.difficulty,
+    merkleRoot: row.merkle_root,
+    merkleTree: row.merkle_tree === 'rfc6962' ? row.merkle_tree : undefined,
+    signature: row.signature ?? undefined,
+    signerPublicKey: row.signer_public_key ?? undefined
+  });
+}
+
+/**
+ * Check a copy of a block on its own and, given the block before it, that
+ * it links to it. Signatures are checked against the key kept with the
+ * block, which shows the block is unchanged since signing.
+ */
+export function checkBlock(block: IBlock, previous: IBlock | null): BlockIssue[] {
+  const issues: BlockIssue[] = [];
+  const copy = QuantumBlock.from(block);
+
+  if (copy.calculateHash() !== block.hash) issues.push('hash');
+  if (copy.calculateMerkleRoot() !== block.merkleRoot) issues.push('merkle_root');
+
+  // The genesis block is neither mined nor signed
+  if (block.index > 0) {
+    if (!block.hash.startsWith('0'.repeat(block.difficulty))) issues.push('proof_of_work');
+    if (!block.signature || (block.signerPublicKey && !signatureVerifies(block))) issues.push('signature');
+  }
+
+  if (previous && block.previousHash !== previous.hash) issues.push('link');
+  return issues;
+}
+
+function signatureVerifies(block: IBlock): boolean {
+  try {
+    return QuantumBlock.verifyBlockSignature(block, hexToBytes(block.signerPublicKey!));
+  } catch {
+    return false;
+  }
+}
+
+function diffBlocks(store: ChainStore, expected: IBlock, actual: IBlock): BlockFieldDiff[] {
+  const diff: BlockFieldDiff[] = COMPARED_FIELDS
+    .filter(field => expected[field] !== actual[field])
+    .map(field => ({ store, field, expected: expected[field] ?? null, actual: actual[field] ?? null }));
+
+  const count = Math.max(expected.data.length, actual.data.length);
+  for (let i = 0; i < count; i++) {
+    if (JSON.stringify(expected.data[i]) !== JSON.stringify(actual.data[i])) {
+      diff.push({ store, field: `data[${i}]`, expected: expected.data[i] ?? null, actual: actual.data[i] ?? null });
+    }
+  }
+  return diff;
+}
+
+const byIndex = (blocks: IBlock[]) => new Map(blocks.map(block => [block.index, block]));
+const heightOf = (blocks: Map<number, IBlock>) => blocks.size === 0 ? 0 : Math.max(...blocks.keys()) + 1;
+
+function formatHeights(indexes: number[]): string {
+  const shown = indexes.slice(0, ALERTED_HEIGHTS_SHOWN).join(', ');
+  return indexes.length > ALERTED_HEIGHTS_SHOWN
+    ? `${shown} and ${indexes.length - ALERTED_HEIGHTS_SHOWN} more`
+    : shown;
+}
+
+// ============================================================================
+// Reconciliation Service
+// ============================================================================
+
+/**
+ * Chain Reconciliation Service
+ * Finds forks and tampering between the chain stores and repairs them
+ */
+export class ChainReconciliationService {
+  private static alerted: Set<string> = new Set();
+
+  /**
+   * Compare the chain stores and, with repair set, rewrite every store
+   * that differs from the authoritative copy
+   */
+  static async reconcile(options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    const storage = options.storage ?? new BlockchainStorage();
+    if (!options.storage) {
+      await storage.initialize();
+    }
+
+    try {
+      return await this.execute(storage, options);
+    } finally {
+      if (!options.storage) {
+        storage.close();
+      }
+    }
+  }
+
+  private static async execute(storage: BlockchainStorage, options: ReconcileOptions): Promise<ReconciliationReport> {
+    const { data: rows, error } = await supabase
+      .from('blockchain_blocks')
+      .select('*')
+      .order('block_index', { ascending: true });
+    if (error) throw error;
+
+    // P2PQuantumBlockchain keeps its enhanced blocks in IndexedDB
+    const storedBlocks = await storage.getAllBlocks() as unknown as IBlock[];
+    const stores: StoreBlocks = {
+      record: byIndex((rows ?? []).map(fromBlockRow)),
+      memory: byIndex(options.chain?.chain ?? []),
+      indexeddb: byIndex(storedBlocks)
+    };
+    const heights: Record<ChainStore, number> = {
+      record: heightOf(stores.record),
+      memory: heightOf(stores.memory),
+      indexeddb: heightOf(stores.indexeddb)
+    };
+
+    const heads = (store: ChainStore) => Array.from(stores[store].values()).map(block => ({
+      index: block.index,
+      hash: block.hash,
+      signature: block.signature ?? null
+    }));
+    const { data, error: verifyError } = await supabase.functions.invoke(`${FUNCTION_NAME}/verify`, {
+      body: { heads: { memory: heads('memory'), indexeddb: heads('indexeddb') } }
+    });
+    if (verifyError) throw verifyError;
+
+    const { runId, blocks: verdicts } = data as VerifyResponse;
+    const recordVerdicts = new Map(verdicts.map(verdict => [verdict.index, verdict]));
+
+    const recordStart = rows && rows.length > 0 ? rows[0].block_index : null;
+    const start = recordStart ?? 0;
+    const end = Math.max(...Object.values(heights));
+
+    const authoritative = new Map<number, IBlock>();
+    const discrepancies: ChainDiscrepancy[] = [];
+    for (let index = start; index < end; index++) {
+      const discrepancy = this.compareHeight(index, index === start, stores, heights, recordVerdicts, authoritative);
+      if (discrepancy) discrepancies.push(discrepancy);
+    }
+
+    const report: ReconciliationReport = {
+      runId,
+      heights,
+      recordStart,
+      forkPoint: discrepancies.find(d => d.kind !== 'missing')?.index ?? null,
+      discrepancies,
+      repaired: { record: [], memory: [], indexeddb: [] },
+      repairErrors: [],
+      finishedAt: new Date()
+    };
+
+    if (options.repair) {
+      await this.repair(report, authoritative, storage, options);
+    }
+
+    this.raiseAlerts(report);
+    report.finishedAt = new Date();
+    return report;
+  }
+
+  /**
+   * Compare the copies of one block. The authoritative copy is the record's
+   * where it verifies, otherwise a local copy that verifies and links to the
+   * authoritative block below. A record row that cannot be checked still
+   * fixes the hash a local copy must have.
+   */
+  private static compareHeight(
+    index: number,
+    first: boolean,
+    stores: StoreBlocks,
+    heights: Record<ChainStore, number>,
+    recordVerdicts: Map<number, RecordVerdict>,
+    authoritative: Map<number, IBlock>
+  ): ChainDiscrepancy | null {
+    const previous = first ? null : authoritative.get(index - 1) ?? null;
+    const copies: Partial<Record<ChainStore, BlockCopy>> = {};
+
+    const record = stores.record.get(index);
+    if (record) {
+      const verdict = recordVerdicts.get(index);
+      copies.record = {
+        block: record,
+        // The row changed since the server checked it
+        issues: verdict?.hash === record.hash
+          ? verdict.issues
+          : checkBlock(record, first ? null : stores.record.get(index - 1) ?? null)
+      };
+    }
+    for (const store of LOCAL_STORES) {
+      const block = stores[store].get(index);
+      if (!block) continue;
+      const linkTo = first ? null : previous ?? stores[store].get(index - 1) ?? null;
+      copies[store] = { block, issues: checkBlock(block, linkTo) };
+    }
+
+    const unchecked = copies.record?.issues.length === 1 && copies.record.issues[0] === 'incomplete';
+    let source: ChainStore | null = null;
+    if (copies.record && copies.record.issues.length === 0) {
+      source = 'record';
+    } else {
+      source = LOCAL_STORES.find(store => {
+        const copy = copies[store];
+        return copy && copy.issues.length === 0 && (!unchecked || copy.block.hash === copies.record!.block.hash);
+      }) ?? null;
+    }
+    if (source) {
+      authoritative.set(index, copies[source]!.block);
+    }
+    const reference = source ? copies[source]!.block : unchecked ? copies.record!.block : null;
+
+    const discrepancy: ChainDiscrepancy = {
+      index,
+      kind: 'missing',
+      hashes: {},
+      issues: {},
+      states: {},
+      authoritative: source,
+      diff: []
+    };
+
+    for (const store of STORES) {
+      const copy = copies[store];
+      if (!copy) {
+        // Local stores only need the blocks below their own height
+        if (index < heights[store] || (store === 'record' && source)) {
+          discrepancy.hashes[store] = null;
+          discrepancy.states[store] = 'missing';
+        }
+        continue;
+      }
+
+      discrepancy.hashes[store] = copy.block.hash;
+      if (copy.issues.length > 0) {
+        discrepancy.issues[store] = copy.issues;
+      }
+
+      if (store === 'record' && unchecked) {
+        // Backfill the row's transactions from a local copy with its hash
+        if (source) discrepancy.states.record = 'missing';
+        continue;
+      }
+      if (reference && copy.block.hash === reference.hash && copy.issues.length === 0) {
+        continue;
+      }
+
+      // A link broken inside the store itself, rather than by an earlier
+      // fork, is as much tampering as a failed hash
+      const ownPrevious = stores[store].get(index - 1);
+      const brokenLink = copy.issues.includes('link') &&
+        (store === 'record' || (previous !== null && ownPrevious?.hash === previous.hash));
+      const altered = copy.issues.some(issue => issue !== 'link') || brokenLink;
+
+      discrepancy.states[store] = altered ? 'tampered' : 'fork';
+      if (reference) {
+        discrepancy.diff.push(...diffBlocks(store, reference, copy.block));
+      }
+    }
+
+    const states = Object.values(discrepancy.states);
+    if (states.length === 0) return null;
+
+    discrepancy.kind = !reference
+      ? 'unrecoverable'
+      : states.includes('tampered') ? 'tampered' : states.includes('fork') ? 'fork' : 'missing';
+    return discrepancy;
+  }
+
+  // ==========================================================================
+  // Repair
+  // ==========================================================================
+
+  private static async repair(
+    report: ReconciliationReport,
+    authoritative: Map<number, IBlock>,
+    storage: BlockchainStorage,
+    options: ReconcileOptions
+  ): Promise<void> {
+    // Copied before any store is rewritten, as the source may be local
+    const replacements = (from: number, to: number): QuantumBlock[] => {
+      const blocks: QuantumBlock[] = [];
+      for (let index = from; index < to && authoritative.has(index); index++) {
+        blocks.push(QuantumBlock.from(authoritative.get(index)!));
+      }
+      return blocks;
+    };
+
+    const memoryFrom = options.chain ? this.repairPoint('memory', report, options) : null;
+    if (options.chain && memoryFrom !== null) {
+      const chain = options.chain.chain;
+      const blocks = replacements(memoryFrom, report.heights.memory);
+      const position = chain.findIndex(block => block.index >= memoryFrom);
+      chain.splice(position === -1 ? chain.length : position, chain.length, ...blocks);
+      report.repaired.memory = blocks.map(block => block.index);
+    }
+
+    const storedFrom = this.repairPoint('indexeddb', report, options);
+    if (storedFrom !== null) {
+      const blocks = replacements(storedFrom, report.heights.indexeddb);
+      await storage.deleteBlocksAfter(storedFrom - 1);
+      for (const block of blocks) {
+        await storage.saveBlock(block as unknown as StoredBlock);
+      }
+      report.repaired.indexeddb = blocks.map(block => block.index);
+    }
+
+    // The record is only written where it is missing a block or its copy
+    // fails verification; the edge function re-checks every replacement
+    const recordBlocks = report.discrepancies
+      .filter(d => d.states.record && authoritative.has(d.index))
+      .map(d => toBlockRow(authoritative.get(d.index)!));
+    if (recordBlocks.length > 0) {
+      try {
+        const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/repair`, {
+          body: { runId: report.runId, blocks: recordBlocks }
+        });
+        if (error) throw error;
+
+        const result = data as RepairResponse;
+        report.repaired.record = result.repaired;
+        report.repairErrors.push(...result.rejected.map(r => `Record block ${r.index}: ${r.reason}`));
+      } catch (error) {
+        console.error('Error repairing the chain of record:', error);
+        report.repairErrors.push(error instanceof Error ? error.message : 'Failed to repair the chain of record');
+      }
+    }
+  }
+
+  /**
+   * First height a local store is rewritten from, or null to leave it be
+   */
+  private static repairPoint(store: ChainStore, report: ReconciliationReport, options: ReconcileOptions): number | null {
+    const first = report.discrepancies.find(d => d.states[store]);
+    if (!first) return null;
+    if (first.states[store] === 'fork' && !options.resolveForks) return null;
+    return first.index;
+  }
+
+  // ==========================================================================
+  // Alerts
+  // ==========================================================================
+
+  private static raiseAlerts(report: ReconciliationReport): void {
+    const fresh = report.discrepancies.filter(discrepancy => {
+      const key = `${discrepancy.kind}:${discrepancy.index}:${JSON.stringify(discrepancy.hashes)}`;
+      if (this.alerted.has(key)) return false;
+      this.alerted.add(key);
+      return true;
+    });
+
+    const storesOf = (found: ChainDiscrepancy[]) =>
+      Array.from(new Set(found.flatMap(d => Object.keys(d.states)))).join(', ');
+
+    for (const kind of ['tampered', 'unrecoverable', 'fork', 'missing'] as DiscrepancyKind[]) {
+      const found = fresh.filter(d => d.kind === kind);
+      if (found.length === 0) continue;
+
+      const heights = formatHeights(found.map(d => d.index));
+      const metadata = { runId: report.runId, discrepancies: found, repaired: report.repaired };
+
+      switch (kind) {
+        case 'tampered':
+          AlertManager.createAlert(
+            'critical',
+            'blockchain',
+            'Blockchain Tampering Detected',
+            `Blocks ${heights} fail verification in ${storesOf(found)}`,
+            metadata
+          );
+          break;
+        case 'unrecoverable':
+          AlertManager.createAlert(
+            'critical',
+            'blockchain',
+            'Blockchain Blocks Unrecoverable',
+            `No store holds a valid copy of blocks ${heights}`,
+            metadata
+          );
+          break;
+        case 'fork':
+          AlertManager.alertBlockchainIssue(
+            'Blockchain Fork Detected',
+            `${storesOf(found)} hold different valid blocks at heights ${heights}`,
+            metadata
+          );
+          break;
+        case 'missing':
+          AlertManager.alertBlockchainIssue(
+            'Blockchain Blocks Missing',
+            `Blocks ${heights} are missing from ${storesOf(found)}`,
+            metadata
+          );
+          break;
+      }
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Audit Chain Validator Keys
+ *
+ * Each node signs the blocks it mines, its tree heads and evidence bundles
+ * with a persistent ML-DSA-65 validator key. The key's seed stays on the
+ * device; its public key is registered in audit_chain_validator_keys under
+ * the signed-in account, so signatures can be tied to a known validator and
+ * auditors can pin its key id across sessions.
+ *
+ * Features:
+ * - One validator key per account and device, registered on first use and
+ *   replaced if an administrator revokes it
+ * - Registered public key lookup by key id, cached per session; signatures
+ *   verify only against a registered key that is still active
+ */
+
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
+import { bytesToHex, hexToBytes, randomBytes } from '@noble/curves/utils.js';
+import * as crypto from 'crypto-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export const VALIDATOR_KEY_ALGORITHM = 'ML-DSA-65';
+
+export interface ValidatorKey {
+  /** Hex SHA-256 of the public key */
+  keyId: string;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+const SEED_BYTES = 32;
+
+const publicKeys = new Map<string, Uint8Array | null>();
+const validatorKeys = new Map<string, Promise<ValidatorKey>>();
+
+/**
+ * Key id of an ML-DSA-65 public key given in hex
+ */
+export function validatorKeyId(publicKey: string): string {
+  return crypto.SHA256(crypto.enc.Hex.parse(publicKey)).toString();
+}
+
+const seedStorageKey = (userId: string) => `audit_chain_validator_${userId}`;
+
+/**
+ * The signed-in account's validator key on this device, registered on first
+ * use. Chains in the same session share it.
+ */
+export async function loadValidatorKey(): Promise<ValidatorKey> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Sign in to sign the audit chain');
+
+  if (!validatorKeys.has(user.id)) {
+    const loading = loadRegisteredKey(user.id);
+    validatorKeys.set(user.id, loading);
+    loading.catch(() => validatorKeys.delete(user.id));
+  }
+  return validatorKeys.get(user.id)!;
+}
+
+async function loadRegisteredKey(userId: string): Promise<ValidatorKey> {
+  const stored = localStorage.getItem(seedStorageKey(userId));
+  if (stored) {
+    const key = fromSeed(hexToBytes(stored));
+    const { data, error } = await supabase
+      .from('audit_chain_validator_keys')
+      .select('user_id, status')
+      .eq('key_id', key.keyId)
+      .maybeSingle();
+    if (error) throw error;
+
+    if (data?.status === 'active' && data.user_id === userId) return key;
+    // A key that was never registered is registered now; a revoked one is replaced
+    if (!data) return registerKey(userId, stored, key);
+  }
+
+  const seed = randomBytes(SEED_BYTES);
+  return registerKey(userId, bytesToHex(seed), fromSeed(seed));
+}
+
+async function registerKey(userId: string, seed: string, key: ValidatorKey): Promise<ValidatorKey> {
+  const { error } = await supabase
+    .from('audit_chain_validator_keys')
+    .insert({
+      key_id: key.keyId,
+      user_id: userId,
+      algorithm: VALIDATOR_KEY_ALGORITHM,
+      public_key: bytesToHex(key.publicKey)
+    });
+  if (error) throw error;
+
+  // Kept only once registered, so the device never signs with a key
+  // verifiers cannot find
+  localStorage.setItem(seedStorageKey(userId), seed);
+  publicKeys.set(key.keyId, key.publicKey);
+  return key;
+}
+
+function fromSeed(seed: Uint8Array): ValidatorKey {
+  const { publicKey, secretKey } = ml_dsa65.keygen(seed);
+  return { keyId: validatorKeyId(bytesToHex(publicKey)), publicKey, secretKey };
+}
+
+/**
+ * Registered public key for a validator key id, or null if the id is not a
+ * registered, active key
+ */
+export async function getValidatorKey(keyId: string): Promise<Uint8Array | null> {
+  if (publicKeys.has(keyId)) {
+    return publicKeys.get(keyId)!;
+  }
+
+  const { data, error } = await supabase
+    .from('audit_chain_validator_keys')
+    .select('key_id, algorithm, public_key, status')
+    .eq('key_id', keyId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const publicKey = data && data.algorithm === VALIDATOR_KEY_ALGORITHM && data.status === 'active' &&
+    validatorKeyId(data.public_key) === keyId
+    ? hexToBytes(data.public_key)
+    : null;
+  publicKeys.set(keyId, publicKey);
+  return publicKey;
+}
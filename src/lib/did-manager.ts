@@ -1,31 +1,128 @@
-import { PostQuantumSignatures, PostQuantumKEM } from './quantum-pqc';
-
 /**
- * Decentralized Identifier (DID) Format
- * did:quantum:fabric:address
+ * did:quantum DID Method
+ *
+ * did:quantum:fabric:<address>, where the address is the first 40 hex
+ * characters of SHA-256 over the DID's genesis ML-DSA-65 public key.
+ *
+ * Features:
+ * - Create, update and deactivate operations signed with ML-DSA-65, chained
+ *   by hash in did_operations and anchored in blockchain_audit_logs
+ * - A resolver that replays the operation log, checking every signature
+ *   against the document it replaces, with DID resolution metadata
+ *   (versionId, nextUpdate, deactivated) and historical resolution
+ * - Key rotation as an update signed by the outgoing key, so anyone holding
+ *   the log can follow a DID from its genesis key to its current keys
+ * - Controller secret keys kept on the controller's device
  */
 
+import { PostQuantumSignatures, PostQuantumKEM } from './quantum-pqc';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
 export interface ServiceEndpoint {
   id: string;
   type: string;
   serviceEndpoint: string;
 }
 
+export interface DIDPublicKey {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyHex: string;
+  revoked?: string;
+}
+
 export interface QuantumDID {
   '@context': string[];
   id: string;
-  publicKey: {
-    id: string;
-    type: string;
-    controller: string;
-    publicKeyHex: string;
-  }[];
+  publicKey: DIDPublicKey[];
   authentication: string[];
   service: ServiceEndpoint[];
   created: string;
   updated: string;
 }
 
+export type DIDOperationType = 'create' | 'update' | 'deactivate';
+
+/**
+ * A registry operation. The signature covers the canonical JSON of every
+ * field except proof; the operation hash covers the signed operation.
+ */
+export interface DIDOperation {
+  did: string;
+  type: DIDOperationType;
+  sequence: number;
+  previousHash: string | null;
+  document?: QuantumDID;
+  timestamp: string;
+  proof: {
+    type: 'ML-DSA-65-2024';
+    verificationMethod: string;
+    signatureValue: string;
+  };
+}
+
+export interface DIDVersion {
+  versionId: string;
+  type: DIDOperationType;
+  operationHash: string;
+  document: QuantumDID;
+  timestamp: string;
+}
+
+export interface DIDReplay {
+  versions: DIDVersion[];
+  rejected: { sequence: number; operationHash: string; reason: string }[];
+}
+
+export interface DIDDocumentMetadata {
+  created?: string;
+  updated?: string;
+  versionId?: string;
+  nextUpdate?: string;
+  nextVersionId?: string;
+  deactivated?: boolean;
+}
+
+export interface DIDResolutionResult {
+  didDocument: QuantumDID | null;
+  didDocumentMetadata: DIDDocumentMetadata;
+  didResolutionMetadata: {
+    contentType?: string;
+    error?: 'invalidDid' | 'notFound' | 'internalError';
+  };
+}
+
+export interface DIDResolutionOptions {
+  versionId?: string;
+  versionTime?: string;
+}
+
+type DIDUpdates = Partial<Omit<QuantumDID, 'id' | '@context' | 'created' | 'updated'>>;
+
+const SIGNATURE_KEY_TYPE = 'ML-DSA-65-2024';
+const KEM_KEY_TYPE = 'ML-KEM-768-2024';
+const DID_OPERATION_ACTION = 'did_operation';
+const DID_RESOURCE = 'did_registry';
+
+/**
+ * JSON with recursively sorted keys, so operation hashes and signatures
+ * do not depend on property order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
 /**
  * DID Manager for Quantum-Resistant Decentralized Identity
  */
@@ -33,94 +130,352 @@ export class DIDManager {
   private static readonly DID_METHOD = 'quantum';
   private static readonly DID_NETWORK = 'fabric';
 
+  // ==========================================================================
+  // Operations
+  // ==========================================================================
+
+  /**
+   * Create and register a new DID for a user. The address is derived from
+   * the genesis signing key, which also signs the create operation.
+   */
+  static async createDID(userId: string): Promise<QuantumDID | null> {
+    try {
+      // Generate quantum-resistant keys using ML-DSA-65 and ML-KEM-768
+      const signatureKeyPair = await PostQuantumSignatures.generateKeyPair65();
+      const kemKeyPair = await PostQuantumKEM.generateKeyPair768();
+
+      const address = await this.generateDIDAddress(signatureKeyPair.publicKey);
+      const didId = `did:${this.DID_METHOD}:${this.DID_NETWORK}:${address}`;
+      const now = new Date().toISOString();
+
+      const did: QuantumDID = {
+        '@context': [
+          'https://www.w3.org/ns/did/v1',
+          'https://quantum-iam.org/quantum-security/v1'
+        ],
+        id: didId,
+        publicKey: [
+          {
+            id: `${didId}#keys-1`,
+            type: SIGNATURE_KEY_TYPE,
+            controller: didId,
+            publicKeyHex: this.toHex(signatureKeyPair.publicKey)
+          },
+          {
+            id: `${didId}#keys-2`,
+            type: KEM_KEY_TYPE,
+            controller: didId,
+            publicKeyHex: this.toHex(kemKeyPair.publicKey)
+          }
+        ],
+        authentication: [`${didId}#keys-1`],
+        service: [
+          {
+            id: `${didId}#iam-service`,
+            type: 'QuantumIAMService',
+            serviceEndpoint: `https://quantum-iam.app/did/${address}`
+          }
+        ],
+        created: now,
+        updated: now
+      };
+
+      const keyring = {
+        [`${didId}#keys-1`]: this.toHex(signatureKeyPair.privateKey),
+        [`${didId}#keys-2`]: this.toHex(kemKeyPair.secretKey)
+      };
+
+      await this.submit(didId, 'create', did, null, keyring, userId);
+      this.storeKeyring(didId, keyring);
+
+      return did;
+    } catch (error) {
+      console.error('Error creating DID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Update a DID document with an operation signed by one of its current
+   * authentication keys
+   */
+  static async updateDID(did: string, updates: DIDUpdates, actorId: string): Promise<QuantumDID | null> {
+    try {
+      const { versions } = await this.replayOperations(did, await this.fetchOperations(did));
+      const head = versions[versions.length - 1];
+      if (!head || head.type === 'deactivate') {
+        throw new Error(`${did} is not an active DID`);
+      }
+
+      const updated: QuantumDID = {
+        ...head.document,
+        ...updates,
+        updated: new Date().toISOString()
+      };
+
+      await this.submit(did, 'update', updated, head, this.loadKeyring(did), actorId);
+      return updated;
+    } catch (error) {
+      console.error('Error updating DID:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Add a service endpoint to DID
+   */
+  static async addServiceEndpoint(did: string, service: ServiceEndpoint, actorId: string): Promise<QuantumDID | null> {
+    const current = await this.resolveDID(did);
+    if (!current) return null;
+
+    return this.updateDID(did, { service: [...current.service, service] }, actorId);
+  }
+
   /**
-   * Create a new DID for a user
+   * Rotate DID keys. The update is signed by the outgoing authentication
+   * key; old keys stay in the document, marked revoked, so signatures made
+   * before the rotation can still be attributed.
    */
-  static async createDID(identifier: string): Promise<QuantumDID> {
-    // Generate quantum-resistant keys using ML-DSA-65 and ML-KEM-768
-    const signatureKeyPair = await PostQuantumSignatures.generateKeyPair65();
-    const kemKeyPair = await PostQuantumKEM.generateKeyPair768();
-
-    // Generate unique DID address
-    const address = await this.generateDIDAddress(identifier);
-    const didId = `did:${this.DID_METHOD}:${this.DID_NETWORK}:${address}`;
-
-    const did: QuantumDID = {
-      '@context': [
-        'https://www.w3.org/ns/did/v1',
-        'https://w3id.org/security/suites/ed25519-2020/v1',
-        'https://quantum-iam.org/quantum-security/v1'
-      ],
-      id: didId,
-      publicKey: [
+  static async rotateDIDKeys(did: string, actorId: string): Promise<QuantumDID | null> {
+    try {
+      const current = await this.resolveDID(did);
+      if (!current) {
+        throw new Error(`${did} is not an active DID`);
+      }
+
+      // Generate new keys using ML-DSA-65 and ML-KEM-768
+      const newSignatureKeyPair = await PostQuantumSignatures.generateKeyPair65();
+      const newKemKeyPair = await PostQuantumKEM.generateKeyPair768();
+      const rotatedAt = new Date().toISOString();
+
+      const newKeys: DIDPublicKey[] = [
         {
-          id: `${didId}#keys-1`,
-          type: 'ML-DSA-65-2024',
-          controller: didId,
-          publicKeyHex: Array.from(signatureKeyPair.publicKey)
-            .map(b => b.toString(16).padStart(2, '0'))
-            .join('')
+          id: `${did}#keys-${Date.now()}-1`,
+          type: SIGNATURE_KEY_TYPE,
+          controller: did,
+          publicKeyHex: this.toHex(newSignatureKeyPair.publicKey)
         },
         {
-          id: `${didId}#keys-2`,
-          type: 'ML-KEM-768-2024',
-          controller: didId,
-          publicKeyHex: Array.from(kemKeyPair.publicKey)
-            .map(b => b.toString(16).padStart(2, '0'))
-            .join('')
-        }
-      ],
-      authentication: [`${didId}#keys-1`],
-      service: [
-        {
-          id: `${didId}#iam-service`,
-          type: 'QuantumIAMService',
-          serviceEndpoint: `https://quantum-iam.app/did/${address}`
+          id: `${did}#keys-${Date.now()}-2`,
+          type: KEM_KEY_TYPE,
+          controller: did,
+          publicKeyHex: this.toHex(newKemKeyPair.publicKey)
         }
-      ],
-      created: new Date().toISOString(),
-      updated: new Date().toISOString()
-    };
+      ];
+      const oldKeys = current.publicKey.map(pk => ({ ...pk, revoked: pk.revoked || rotatedAt }));
+
+      const rotated = await this.updateDID(did, {
+        publicKey: [...newKeys, ...oldKeys],
+        authentication: [newKeys[0].id]
+      }, actorId);
+      if (!rotated) return null;
 
-    return did;
+      this.storeKeyring(did, {
+        [newKeys[0].id]: this.toHex(newSignatureKeyPair.privateKey),
+        [newKeys[1].id]: this.toHex(newKemKeyPair.secretKey)
+      });
+
+      return rotated;
+    } catch (error) {
+      console.error('Error rotating DID keys:', error);
+      return null;
+    }
   }
 
   /**
-   * Resolve a DID to its document
+   * Replace one verification key with a key that was rotated elsewhere,
+   * such as a quantum key or certificate key the document also lists. The
+   * outgoing key signs the update and stays in the document, revoked.
    */
-  static async resolveDID(did: string): Promise<QuantumDID | null> {
+  static async replaceDIDKey(
+    did: string,
+    publicKeyHex: string,
+    replacement: { publicKey: Uint8Array; secretKey: Uint8Array },
+    actorId: string
+  ): Promise<QuantumDID | null> {
     try {
-      // In production, this would query the blockchain
-      // For now, we'll implement a basic resolver
-      const parts = did.split(':');
-      if (parts.length !== 4 || parts[0] !== 'did' || parts[1] !== this.DID_METHOD) {
-        return null;
+      const current = await this.resolveDID(did);
+      if (!current) {
+        throw new Error(`${did} is not an active DID`);
+      }
+
+      const outgoing = current.publicKey.find(pk => pk.publicKeyHex === publicKeyHex && !pk.revoked);
+      if (!outgoing) {
+        throw new Error(`${did} has no active key matching the rotated key`);
       }
 
-      // Query blockchain or distributed storage for DID document
-      // This is a placeholder - actual implementation would connect to Hyperledger Fabric
+      const rotatedAt = new Date().toISOString();
+      const incoming: DIDPublicKey = {
+        id: `${did}#keys-${Date.now()}`,
+        type: outgoing.type,
+        controller: did,
+        publicKeyHex: this.toHex(replacement.publicKey)
+      };
+
+      const updated = await this.updateDID(did, {
+        publicKey: [incoming, ...current.publicKey.map(pk => (pk.id === outgoing.id ? { ...pk, revoked: rotatedAt } : pk))],
+        authentication: current.authentication.map(keyId => (keyId === outgoing.id ? incoming.id : keyId))
+      }, actorId);
+      if (!updated) return null;
+
+      const keyring = this.loadKeyring(did);
+      delete keyring[outgoing.id];
+      keyring[incoming.id] = this.toHex(replacement.secretKey);
+      this.storeKeyring(did, keyring);
+
+      return updated;
+    } catch (error) {
+      console.error('Error replacing DID key:', error);
       return null;
+    }
+  }
+
+  /**
+   * Permanently deactivate a DID. Later operations are rejected by the
+   * resolver.
+   */
+  static async deactivateDID(did: string, actorId: string): Promise<boolean> {
+    try {
+      const { versions } = await this.replayOperations(did, await this.fetchOperations(did));
+      const head = versions[versions.length - 1];
+      if (!head || head.type === 'deactivate') {
+        throw new Error(`${did} is not an active DID`);
+      }
+
+      await this.submit(did, 'deactivate', undefined, head, this.loadKeyring(did), actorId);
+      localStorage.removeItem(this.keyringKey(did));
+      return true;
+    } catch (error) {
+      console.error('Error deactivating DID:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Whether this device holds a key that can sign operations for the DID
+   */
+  static async canControl(did: string): Promise<boolean> {
+    const current = await this.resolveDID(did);
+    const keyring = this.loadKeyring(did);
+    return !!current && current.authentication.some(keyId => keyring[keyId]);
+  }
+
+  /**
+   * Secret key of one of the DID's ML-KEM-768 keys, if this device holds it
+   */
+  static getKemSecretKey(did: QuantumDID, publicKeyHex: string): Uint8Array | null {
+    const key = did.publicKey.find(k => k.type === KEM_KEY_TYPE && k.publicKeyHex === publicKeyHex);
+    const secret = key ? this.loadKeyring(did.id)[key.id] : undefined;
+    return secret ? this.fromHex(secret) : null;
+  }
+
+  // ==========================================================================
+  // Resolution
+  // ==========================================================================
+
+  /**
+   * Resolve a DID by replaying its operation log. Without options the
+   * latest version is returned; versionId or versionTime select an
+   * earlier one.
+   */
+  static async resolve(did: string, options: DIDResolutionOptions = {}): Promise<DIDResolutionResult> {
+    if (!this.parseDID(did)) {
+      return { didDocument: null, didDocumentMetadata: {}, didResolutionMetadata: { error: 'invalidDid' } };
+    }
+
+    try {
+      const { versions } = await this.replayOperations(did, await this.fetchOperations(did));
+      if (versions.length === 0) {
+        return { didDocument: null, didDocumentMetadata: {}, didResolutionMetadata: { error: 'notFound' } };
+      }
+
+      const index = options.versionId !== undefined
+        ? versions.findIndex(v => v.versionId === options.versionId)
+        : options.versionTime !== undefined
+          ? versions.filter(v => v.timestamp <= new Date(options.versionTime!).toISOString()).length - 1
+          : versions.length - 1;
+
+      if (index < 0) {
+        return { didDocument: null, didDocumentMetadata: {}, didResolutionMetadata: { error: 'notFound' } };
+      }
+
+      const version = versions[index];
+      const next = versions[index + 1];
+      const latest = versions[versions.length - 1];
+
+      return {
+        didDocument: version.document,
+        didDocumentMetadata: {
+          created: versions[0].timestamp,
+          updated: index > 0 ? version.timestamp : undefined,
+          versionId: version.versionId,
+          nextUpdate: next?.timestamp,
+          nextVersionId: next?.versionId,
+          deactivated: latest.type === 'deactivate' ? true : undefined
+        },
+        didResolutionMetadata: { contentType: 'application/did+ld+json' }
+      };
     } catch (error) {
       console.error('Error resolving DID:', error);
-      return null;
+      return { didDocument: null, didDocumentMetadata: {}, didResolutionMetadata: { error: 'internalError' } };
     }
   }
 
   /**
-   * Update a DID document
+   * Resolve a DID to its current document; null if it does not exist or
+   * has been deactivated
    */
-  static async updateDID(
-    did: QuantumDID,
-    updates: Partial<Omit<QuantumDID, 'id' | '@context' | 'created'>>
-  ): Promise<QuantumDID> {
-    const updatedDID: QuantumDID = {
-      ...did,
-      ...updates,
-      updated: new Date().toISOString()
-    };
+  static async resolveDID(did: string): Promise<QuantumDID | null> {
+    const { didDocument, didDocumentMetadata } = await this.resolve(did);
+    return didDocumentMetadata.deactivated ? null : didDocument;
+  }
+
+  /**
+   * Replay operations into document versions. Needs nothing but the
+   * operations themselves: each must extend the previous valid one by hash
+   * and be signed by an authentication key of the document it replaces
+   * (for create, by the key the address was derived from). Operations that
+   * fail are reported and skipped.
+   */
+  static async replayOperations(did: string, operations: DIDOperation[]): Promise<DIDReplay> {
+    const versions: DIDVersion[] = [];
+    const rejected: DIDReplay['rejected'] = [];
+
+    for (const operation of [...operations].sort((a, b) => a.sequence - b.sequence)) {
+      const operationHash = await this.hashOperation(operation);
+      const head = versions[versions.length - 1];
+      const reason = await this.operationError(did, operation, head);
+
+      if (reason) {
+        rejected.push({ sequence: operation.sequence, operationHash, reason });
+        continue;
+      }
+
+      versions.push({
+        versionId: String(operation.sequence),
+        type: operation.type,
+        operationHash,
+        document: operation.type === 'deactivate' ? head.document : operation.document!,
+        timestamp: operation.timestamp
+      });
+    }
 
-    // In production, this would update the blockchain
-    return updatedDID;
+    return { versions, rejected };
+  }
+
+  /**
+   * Signed operations of a DID, oldest first
+   */
+  static async fetchOperations(did: string): Promise<DIDOperation[]> {
+    const { data, error } = await supabase
+      .from('did_operations')
+      .select('operation')
+      .eq('did', did)
+      .order('sequence', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map(row => row.operation as unknown as DIDOperation);
   }
 
   /**
@@ -140,14 +495,12 @@ export class DIDManager {
       // Get the authentication key
       const authKeyId = didDocument.authentication[0];
       const authKey = didDocument.publicKey.find(pk => pk.id === authKeyId);
-      if (!authKey) {
+      if (!authKey || authKey.revoked) {
         return false;
       }
 
       // Verify signature using ML-DSA-65
-      const publicKey = new Uint8Array(
-        authKey.publicKeyHex.match(/.{1,2}/g)!.map(byte => parseInt(byte, 16))
-      );
+      const publicKey = this.fromHex(authKey.publicKeyHex);
       const challengeBytes = new TextEncoder().encode(challenge);
 
       return await PostQuantumSignatures.verify65(signature, challengeBytes, publicKey);
@@ -157,82 +510,223 @@ export class DIDManager {
     }
   }
 
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
   /**
-   * Add a service endpoint to DID
+   * Sign an operation, anchor it on the audit chain, append it to the log
+   * and refresh the user_dids cache
    */
-  static async addServiceEndpoint(
-    did: QuantumDID,
-    service: ServiceEndpoint
-  ): Promise<QuantumDID> {
-    const updatedDID = {
-      ...did,
-      service: [...did.service, service],
-      updated: new Date().toISOString()
+  private static async submit(
+    did: string,
+    type: DIDOperationType,
+    document: QuantumDID | undefined,
+    head: DIDVersion | null,
+    keyring: Record<string, string>,
+    actorId: string
+  ): Promise<DIDOperation> {
+    const signer = type === 'create'
+      ? document!.authentication[0]
+      : head!.document.authentication.find(keyId => keyring[keyId]);
+    if (!signer || !keyring[signer]) {
+      throw new Error(`No controller key for ${did} on this device`);
+    }
+
+    const { data: last } = await supabase
+      .from('did_operations')
+      .select('sequence')
+      .eq('did', did)
+      .order('sequence', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const unsigned: Omit<DIDOperation, 'proof'> = {
+      did,
+      type,
+      sequence: last ? last.sequence + 1 : 0,
+      previousHash: head?.operationHash ?? null,
+      document,
+      timestamp: new Date().toISOString()
+    };
+    const signature = await PostQuantumSignatures.sign65(
+      new TextEncoder().encode(canonicalJson(unsigned)),
+      this.fromHex(keyring[signer])
+    );
+    const operation: DIDOperation = {
+      ...unsigned,
+      proof: { type: SIGNATURE_KEY_TYPE, verificationMethod: signer, signatureValue: this.toHex(signature) }
     };
+    const operationHash = await this.hashOperation(operation);
+
+    const anchorHash = await this.anchorOperation(operation, operationHash, actorId);
+
+    const { error } = await supabase
+      .from('did_operations')
+      .insert({
+        did,
+        sequence: operation.sequence,
+        operation_type: type,
+        operation: operation as unknown as Json,
+        operation_hash: operationHash,
+        previous_hash: operation.previousHash,
+        anchor_hash: anchorHash,
+        submitted_by: actorId
+      });
+
+    if (error) throw error;
 
-    // In production, update on blockchain
-    return updatedDID;
+    if (document) {
+      const { error: cacheError } = await supabase
+        .from('user_dids')
+        .upsert(
+          { user_id: actorId, did, did_document: document as unknown as Json },
+          { onConflict: 'user_id' }
+        );
+      if (cacheError) console.error('Error caching DID document:', cacheError);
+    }
+
+    return operation;
   }
 
   /**
-   * Rotate DID keys
+   * Record the operation as a chained blockchain_audit_logs entry, in the
+   * same form as policy versions
    */
-  static async rotateDIDKeys(did: QuantumDID): Promise<QuantumDID> {
-    // Generate new keys using ML-DSA-65 and ML-KEM-768
-    const newSignatureKeyPair = await PostQuantumSignatures.generateKeyPair65();
-    const newKemKeyPair = await PostQuantumKEM.generateKeyPair768();
-
-    // Keep old keys for a transition period, mark as revoked
-    const oldKeys = did.publicKey.map(pk => ({
-      ...pk,
-      revoked: new Date().toISOString()
-    }));
-
-    // Add new keys
-    const newKeys = [
-      {
-        id: `${did.id}#keys-${Date.now()}-1`,
-        type: 'ML-DSA-65-2024',
-        controller: did.id,
-        publicKeyHex: Array.from(newSignatureKeyPair.publicKey)
-          .map(b => b.toString(16).padStart(2, '0'))
-          .join('')
-      },
-      {
-        id: `${did.id}#keys-${Date.now()}-2`,
-        type: 'ML-KEM-768-2024',
-        controller: did.id,
-        publicKeyHex: Array.from(newKemKeyPair.publicKey)
-          .map(b => b.toString(16).padStart(2, '0'))
-          .join('')
-      }
-    ];
+  private static async anchorOperation(operation: DIDOperation, operationHash: string, actorId: string): Promise<string> {
+    const { data: previous } = await supabase
+      .from('blockchain_audit_logs')
+      .select('integrity_hash')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    const updatedDID: QuantumDID = {
-      ...did,
-      publicKey: [...newKeys, ...oldKeys],
-      authentication: [newKeys[0].id],
-      updated: new Date().toISOString()
+    const payload = {
+      did: operation.did,
+      operation_type: operation.type,
+      sequence: operation.sequence,
+      operation_hash: operationHash,
+      previous_operation_hash: operation.previousHash
     };
+    const timestamp = Date.now();
+    const previousHash = previous?.integrity_hash || null;
+    const integrityHash = await this.sha256Hex(canonicalJson({ previous: previousHash, payload, timestamp }));
 
-    // In production, update on blockchain
-    return updatedDID;
+    const { error } = await supabase
+      .from('blockchain_audit_logs')
+      .insert({
+        user_id: actorId,
+        action: DID_OPERATION_ACTION,
+        resource: DID_RESOURCE,
+        transaction_id: `did-${operationHash}`,
+        block_hash: null,
+        integrity_hash: integrityHash,
+        quantum_signature: operation.proof.signatureValue,
+        metadata: { ...payload, previous_hash: previousHash, timestamp }
+      });
+
+    if (error) throw error;
+
+    return integrityHash;
+  }
+
+  private static async operationError(did: string, operation: DIDOperation, head: DIDVersion | undefined): Promise<string | null> {
+    if (operation.did !== did) {
+      return 'operation is for another DID';
+    }
+
+    let signingDocument: QuantumDID;
+    if (!head) {
+      if (operation.type !== 'create') return 'DID has not been created';
+      if (operation.previousHash !== null) return 'create operation has a predecessor';
+      if (!operation.document) return 'create operation has no document';
+      signingDocument = operation.document;
+    } else {
+      if (head.type === 'deactivate') return 'DID is deactivated';
+      if (operation.type === 'create') return 'DID already exists';
+      if (operation.previousHash !== head.operationHash) return 'operation does not extend the current version';
+      if (operation.sequence <= Number(head.versionId)) return 'sequence does not advance';
+      if (operation.timestamp < head.timestamp) return 'timestamp precedes the current version';
+      signingDocument = head.document;
+    }
+
+    if (operation.type !== 'deactivate') {
+      const document = operation.document;
+      if (!document || document.id !== did) return 'document does not describe this DID';
+      const signingKeys = document.authentication.filter(keyId =>
+        document.publicKey.some(k => k.id === keyId && k.type === SIGNATURE_KEY_TYPE && !k.revoked)
+      );
+      if (signingKeys.length === 0) return 'document has no ML-DSA-65 authentication key';
+    }
+
+    const key = signingDocument.publicKey.find(k => k.id === operation.proof?.verificationMethod);
+    if (!key || key.type !== SIGNATURE_KEY_TYPE || key.revoked || !signingDocument.authentication.includes(key.id)) {
+      return 'not signed by an authentication key of the current document';
+    }
+    if (!head && this.parseDID(did)?.address !== await this.generateDIDAddress(this.fromHex(key.publicKeyHex))) {
+      return 'DID address does not match the genesis key';
+    }
+
+    try {
+      const { proof, ...unsigned } = operation;
+      const valid = await PostQuantumSignatures.verify65(
+        this.fromHex(proof.signatureValue),
+        new TextEncoder().encode(canonicalJson(unsigned)),
+        this.fromHex(key.publicKeyHex)
+      );
+      return valid ? null : 'signature does not verify';
+    } catch (error) {
+      return 'signature is malformed';
+    }
+  }
+
+  private static parseDID(did: string): { network: string; address: string } | null {
+    const parts = did.split(':');
+    if (parts.length !== 4 || parts[0] !== 'did' || parts[1] !== this.DID_METHOD || !/^[0-9a-f]{40}$/.test(parts[3])) {
+      return null;
+    }
+    return { network: parts[2], address: parts[3] };
   }
 
   /**
-   * Generate unique DID address
+   * Generate the DID address from the genesis signing key
    */
-  private static async generateDIDAddress(identifier: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const data = encoder.encode(identifier + Date.now());
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hash = Array.from(new Uint8Array(hashBuffer))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-
+  private static async generateDIDAddress(publicKey: Uint8Array): Promise<string> {
+    const hash = this.toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey)));
     return hash.substring(0, 40);
   }
 
+  // Covers the proof too, so the next operation commits to this signature
+  private static async hashOperation(operation: DIDOperation): Promise<string> {
+    return this.sha256Hex(canonicalJson(operation));
+  }
+
+  private static async sha256Hex(value: string): Promise<string> {
+    const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return this.toHex(new Uint8Array(hash));
+  }
+
+  private static keyringKey(did: string): string {
+    return `did_keyring_${did}`;
+  }
+
+  private static loadKeyring(did: string): Record<string, string> {
+    const stored = localStorage.getItem(this.keyringKey(did));
+    return stored ? JSON.parse(stored) : {};
+  }
+
+  private static storeKeyring(did: string, keyring: Record<string, string>): void {
+    localStorage.setItem(this.keyringKey(did), JSON.stringify(keyring));
+  }
+
+  private static toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  private static fromHex(hex: string): Uint8Array {
+    return new Uint8Array((hex.match(/.{1,2}/g) || []).map(byte => parseInt(byte, 16)));
+  }
+
   /**
    * Create DID proof using ML-DSA-65
    */
@@ -266,7 +760,7 @@ export class DIDManager {
   static importDIDDocument(jsonLD: string): QuantumDID | null {
     try {
       const did = JSON.parse(jsonLD) as QuantumDID;
-      
+
       // Validate DID structure
       if (!did.id || !did.publicKey || !did.authentication) {
         return null;
@@ -0,0 +1,1338 @@
+/**
+ * Directory Sync Engine
+ * Pulls users and groups from LDAP / Active Directory into local identities
+ *
+ * Features:
+ * - RFC 4515 search filter parsing and evaluation (incl. AD bitwise matching rules)
+ * - Pluggable directory connectors keyed by connection string scheme
+ * - In-memory LDAP directory for testing without a live server
+ * - Diff against profiles, user_groups and user_group_memberships
+ * - Account creation / disabling through the directory-provision edge function
+ * - Every change written to identity_lifecycle_events
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { aesGcmDecrypt } from './crypto-utils';
+import { KeyScope, PQCDatabaseEncryption } from './pqc-database-encryption';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+import { IdentityLifecycleEngine } from './identity-lifecycle';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type DirectoryType = 'ldap' | 'active_directory' | 'azure_ad' | 'google_workspace';
+export type SearchScope = 'base' | 'one' | 'sub';
+
+export interface DirectoryEntry {
+  dn: string;
+  /** Attribute names are stored lower-cased; values are always arrays */
+  attributes: Record<string, string[]>;
+}
+
+export interface DirectorySearchRequest {
+  baseDn: string;
+  scope: SearchScope;
+  filter: string;
+  attributes?: string[];
+}
+
+export interface DirectoryConnector {
+  bind(dn: string, password: string): Promise<void>;
+  search(request: DirectorySearchRequest): Promise<DirectoryEntry[]>;
+  unbind(): Promise<void>;
+}
+
+export type DirectoryConnectorFactory = (url: URL) => DirectoryConnector;
+
+export interface DirectoryIntegration {
+  id: string;
+  name: string;
+  directory_type: DirectoryType;
+  connection_string: string;
+  bind_credentials_encrypted: string;
+  sync_enabled: boolean;
+  sync_interval_hours: number;
+  last_sync_at: string | null;
+  attribute_mappings: Partial<DirectoryAttributeMappings>;
+  is_active: boolean;
+  created_by: string;
+}
+
+export interface DirectoryAttributeMappings {
+  user_base_dn: string;
+  user_filter: string;
+  user_id_attribute: string;
+  email_attribute: string;
+  full_name_attribute: string;
+  disabled_filter: string;
+  group_base_dn: string;
+  group_filter: string;
+  group_id_attribute: string;
+  group_name_attribute: string;
+  group_description_attribute: string;
+  group_member_attribute: string;
+}
+
+export interface BindCredentials {
+  bind_dn: string;
+  password: string;
+}
+
+export interface DirectoryUser {
+  externalId: string;
+  dn: string;
+  email: string;
+  fullName: string | null;
+  disabled: boolean;
+  attributesHash: string;
+}
+
+export interface DirectoryGroup {
+  externalId: string;
+  dn: string;
+  name: string;
+  description: string | null;
+  memberDns: string[];
+  attributesHash: string;
+}
+
+export interface DirectorySyncPlan {
+  usersToCreate: DirectoryUser[];
+  usersToLink: { userId: string; user: DirectoryUser }[];
+  usersToUpdate: { userId: string; user: DirectoryUser; changes: Record<string, { from: unknown; to: unknown }> }[];
+  usersToDisable: { userId: string; externalId: string; email: string; reason: 'removed_from_directory' | 'disabled_in_directory' }[];
+  usersToEnable: { userId: string; user: DirectoryUser }[];
+  groupsToCreate: DirectoryGroup[];
+  groupsToUpdate: { groupId: string; group: DirectoryGroup }[];
+  membershipsToAdd: { groupExternalId: string; userExternalId: string }[];
+  membershipsToRemove: { groupId: string; userId: string }[];
+  unchangedUsers: number;
+}
+
+export interface DirectorySyncResult {
+  success: boolean;
+  dryRun: boolean;
+  plan?: DirectorySyncPlan;
+  applied: {
+    created: number;
+    linked: number;
+    updated: number;
+    disabled: number;
+    enabled: number;
+    groupsCreated: number;
+    groupsUpdated: number;
+    membershipsAdded: number;
+    membershipsRemoved: number;
+  };
+  errors: string[];
+  message: string;
+}
+
+interface SyncLink {
+  id: string;
+  entry_type: 'user' | 'group';
+  external_id: string;
+  distinguished_name: string;
+  local_id: string;
+  attributes_hash: string | null;
+  is_active: boolean;
+}
+
+class DirectorySyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectorySyncError';
+  }
+}
+
+const DEFAULT_MAPPINGS: Record<'active_directory' | 'ldap', Omit<DirectoryAttributeMappings, 'user_base_dn' | 'group_base_dn'>> = {
+  active_directory: {
+    user_filter: '(&(objectClass=user)(objectCategory=person))',
+    user_id_attribute: 'objectGUID',
+    email_attribute: 'mail',
+    full_name_attribute: 'displayName',
+    disabled_filter: '(userAccountControl:1.2.840.113556.1.4.803:=2)',
+    group_filter: '(objectClass=group)',
+    group_id_attribute: 'objectGUID',
+    group_name_attribute: 'cn',
+    group_description_attribute: 'description',
+    group_member_attribute: 'member'
+  },
+  ldap: {
+    user_filter: '(objectClass=inetOrgPerson)',
+    user_id_attribute: 'entryUUID',
+    email_attribute: 'mail',
+    full_name_attribute: 'cn',
+    disabled_filter: '(pwdAccountLockedTime=*)',
+    group_filter: '(|(objectClass=groupOfNames)(objectClass=groupOfUniqueNames))',
+    group_id_attribute: 'entryUUID',
+    group_name_attribute: 'cn',
+    group_description_attribute: 'description',
+    group_member_attribute: 'member'
+  }
+};
+
+// Legacy bind credentials were encrypted under a passphrase-derived key
+const BIND_CREDENTIALS_KEY_INFO = 'directory-bind-credentials';
+const BIND_CREDENTIALS_SCOPE: KeyScope = { type: 'table', id: 'directory_integrations' };
+const BIND_CREDENTIALS_CONTEXT = 'directory_integrations.bind_credentials_encrypted';
+
+// ============================================================================
+// Distinguished Names
+// ============================================================================
+
+/**
+ * Normalize a DN for comparison: lower-case, no whitespace around separators
+ */
+export function normalizeDn(dn: string): string {
+  return dn
+    .split(/(?<!\\),/)
+    .map(rdn => rdn.split(/(?<!\\)=/).map(part => part.trim()).join('='))
+    .join(',')
+    .toLowerCase();
+}
+
+function parentDn(dn: string): string {
+  const index = dn.search(/(?<!\\),/);
+  return index === -1 ? '' : dn.substring(index + 1);
+}
+
+// ============================================================================
+// Search Filters (RFC 4515)
+// ============================================================================
+
+export type LDAPFilter =
+  | { type: 'and' | 'or'; filters: LDAPFilter[] }
+  | { type: 'not'; filter: LDAPFilter }
+  | { type: 'equality' | 'approx' | 'gte' | 'lte'; attribute: string; value: string }
+  | { type: 'present'; attribute: string }
+  | { type: 'substring'; attribute: string; initial?: string; any: string[]; final?: string }
+  | { type: 'extensible'; attribute: string; rule: string; value: string };
+
+const AD_BIT_AND_RULE = '1.2.840.113556.1.4.803';
+const AD_BIT_OR_RULE = '1.2.840.113556.1.4.804';
+
+function unescapeFilterValue(value: string): string {
+  return value.replace(/\\([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+export function parseLDAPFilter(filter: string): LDAPFilter {
+  let position = 0;
+  const input = filter.trim();
+
+  const expect = (char: string) => {
+    if (input[position] !== char) {
+      throw new DirectorySyncError(`Invalid filter: expected '${char}' at position ${position}`);
+    }
+    position++;
+  };
+
+  const parseFilter = (): LDAPFilter => {
+    expect('(');
+    let result: LDAPFilter;
+    const operator = input[position];
+
+    if (operator === '&' || operator === '|') {
+      position++;
+      const filters: LDAPFilter[] = [];
+      while (input[position] === '(') {
+        filters.push(parseFilter());
+      }
+      result = { type: operator === '&' ? 'and' : 'or', filters };
+    } else if (operator === '!') {
+      position++;
+      result = { type: 'not', filter: parseFilter() };
+    } else {
+      const end = input.indexOf(')', position);
+      if (end === -1) {
+        throw new DirectorySyncError('Invalid filter: unterminated item');
+      }
+      result = parseItem(input.substring(position, end));
+      position = end;
+    }
+
+    expect(')');
+    return result;
+  };
+
+  const parseItem = (item: string): LDAPFilter => {
+    const extensible = item.match(/^([^:=]*)(?::dn)?:([0-9.]+):=(.*)$/);
+    if (extensible) {
+      return { type: 'extensible', attribute: extensible[1], rule: extensible[2], value: unescapeFilterValue(extensible[3]) };
+    }
+
+    const match = item.match(/^([^=~<>]+)(=|~=|>=|<=)(.*)$/);
+    if (!match) {
+      throw new DirectorySyncError(`Invalid filter item: ${item}`);
+    }
+    const [, attribute, op, rawValue] = match;
+
+    if (op === '~=') return { type: 'approx', attribute, value: unescapeFilterValue(rawValue) };
+    if (op === '>=') return { type: 'gte', attribute, value: unescapeFilterValue(rawValue) };
+    if (op === '<=') return { type: 'lte', attribute, value: unescapeFilterValue(rawValue) };
+    if (rawValue === '*') return { type: 'present', attribute };
+
+    if (rawValue.includes('*')) {
+      const parts = rawValue.split('*').map(unescapeFilterValue);
+      return {
+        type: 'substring',
+        attribute,
+        initial: parts[0] || undefined,
+        any: parts.slice(1, -1).filter(Boolean),
+        final: parts[parts.length - 1] || undefined
+      };
+    }
+
+    return { type: 'equality', attribute, value: unescapeFilterValue(rawValue) };
+  };
+
+  const parsed = parseFilter();
+  if (position !== input.length) {
+    throw new DirectorySyncError('Invalid filter: trailing characters');
+  }
+  return parsed;
+}
+
+/**
+ * Evaluate a parsed filter against an entry.
+ * String matching is case-insensitive (caseIgnoreMatch), which covers the
+ * attributes used for identity sync.
+ */
+export function matchesLDAPFilter(filter: LDAPFilter, entry: DirectoryEntry): boolean {
+  const values = (attribute: string) => entry.attributes[attribute.toLowerCase()] || [];
+
+  switch (filter.type) {
+    case 'and':
+      return filter.filters.every(f => matchesLDAPFilter(f, entry));
+    case 'or':
+      return filter.filters.some(f => matchesLDAPFilter(f, entry));
+    case 'not':
+      return !matchesLDAPFilter(filter.filter, entry);
+    case 'present':
+      return filter.attribute.toLowerCase() === 'objectclass' || values(filter.attribute).length > 0;
+    case 'equality':
+    case 'approx':
+      return values(filter.attribute).some(v => v.toLowerCase() === filter.value.toLowerCase());
+    case 'gte':
+    case 'lte':
+      return values(filter.attribute).some(v => {
+        const numeric = !isNaN(Number(v)) && !isNaN(Number(filter.value));
+        const comparison = numeric
+          ? Number(v) - Number(filter.value)
+          : v.toLowerCase().localeCompare(filter.value.toLowerCase());
+        return filter.type === 'gte' ? comparison >= 0 : comparison <= 0;
+      });
+    case 'substring':
+      return values(filter.attribute).some(raw => {
+        const v = raw.toLowerCase();
+        let offset = 0;
+        if (filter.initial) {
+          if (!v.startsWith(filter.initial.toLowerCase())) return false;
+          offset = filter.initial.length;
+        }
+        for (const part of filter.any) {
+          const index = v.indexOf(part.toLowerCase(), offset);
+          if (index === -1) return false;
+          offset = index + part.length;
+        }
+        return !filter.final || (v.length - filter.final.length >= offset && v.endsWith(filter.final.toLowerCase()));
+      });
+    case 'extensible':
+      if (filter.rule === AD_BIT_AND_RULE || filter.rule === AD_BIT_OR_RULE) {
+        const mask = Number(filter.value);
+        return values(filter.attribute).some(v => {
+          const bits = Number(v) & mask;
+          return filter.rule === AD_BIT_AND_RULE ? bits === mask : bits !== 0;
+        });
+      }
+      return false;
+  }
+}
+
+// ============================================================================
+// In-Memory LDAP Directory
+// ============================================================================
+
+/**
+ * Minimal LDAP server stand-in holding entries in memory.
+ * Register an instance under a name and point an integration at memory://<name>/<base dn>.
+ */
+export class InMemoryLDAPDirectory implements DirectoryConnector {
+  private static directories = new Map<string, InMemoryLDAPDirectory>();
+
+  private entries = new Map<string, DirectoryEntry>();
+  private passwords = new Map<string, string>();
+  private boundDn: string | null = null;
+
+  static register(name: string, directory: InMemoryLDAPDirectory): void {
+    this.directories.set(name, directory);
+  }
+
+  static get(name: string): InMemoryLDAPDirectory | undefined {
+    return this.directories.get(name);
+  }
+
+  addEntry(dn: string, attributes: Record<string, string | string[]>, password?: string): void {
+    const normalized: Record<string, string[]> = {};
+    for (const [key, value] of Object.entries(attributes)) {
+      normalized[key.toLowerCase()] = Array.isArray(value) ? value : [value];
+    }
+    this.entries.set(normalizeDn(dn), { dn, attributes: normalized });
+    if (password) {
+      this.passwords.set(normalizeDn(dn), password);
+    }
+  }
+
+  modifyEntry(dn: string, attributes: Record<string, string | string[] | null>): void {
+    const entry = this.entries.get(normalizeDn(dn));
+    if (!entry) {
+      throw new DirectorySyncError(`No such object: ${dn}`);
+    }
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value === null) {
+        delete entry.attributes[key.toLowerCase()];
+      } else {
+        entry.attributes[key.toLowerCase()] = Array.isArray(value) ? value : [value];
+      }
+    }
+  }
+
+  deleteEntry(dn: string): void {
+    this.entries.delete(normalizeDn(dn));
+  }
+
+  async bind(dn: string, password: string): Promise<void> {
+    const expected = this.passwords.get(normalizeDn(dn));
+    if (!expected || expected !== password) {
+      throw new DirectorySyncError('Invalid credentials (LDAP result code 49)');
+    }
+    this.boundDn = normalizeDn(dn);
+  }
+
+  async search(request: DirectorySearchRequest): Promise<DirectoryEntry[]> {
+    if (!this.boundDn) {
+      throw new DirectorySyncError('Operations error: bind required');
+    }
+
+    const base = normalizeDn(request.baseDn);
+    const filter = parseLDAPFilter(request.filter);
+
+    return Array.from(this.entries.entries())
+      .filter(([dn]) => {
+        if (request.scope === 'base') return dn === base;
+        if (request.scope === 'one') return normalizeDn(parentDn(dn)) === base;
+        return dn === base || dn.endsWith(`,${base}`);
+      })
+      .map(([, entry]) => entry)
+      .filter(entry => matchesLDAPFilter(filter, entry))
+      .map(entry => this.project(entry, request.attributes));
+  }
+
+  async unbind(): Promise<void> {
+    this.boundDn = null;
+  }
+
+  private project(entry: DirectoryEntry, attributes?: string[]): DirectoryEntry {
+    if (!attributes || attributes.length === 0) {
+      return { dn: entry.dn, attributes: { ...entry.attributes } };
+    }
+    const projected: Record<string, string[]> = {};
+    for (const attribute of attributes) {
+      const values = entry.attributes[attribute.toLowerCase()];
+      if (values) projected[attribute.toLowerCase()] = [...values];
+    }
+    return { dn: entry.dn, attributes: projected };
+  }
+}
+
+// ============================================================================
+// Directory Sync Engine
+// ============================================================================
+
+export class DirectorySyncEngine {
+  private static connectors = new Map<string, DirectoryConnectorFactory>([
+    ['memory:', (url) => {
+      const directory = InMemoryLDAPDirectory.get(url.hostname);
+      if (!directory) {
+        throw new DirectorySyncError(`No in-memory directory registered as "${url.hostname}"`);
+      }
+      return directory;
+    }]
+  ]);
+
+  private blockchain?: BlockchainIntegrationManager;
+  private lifecycle: IdentityLifecycleEngine;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+    this.lifecycle = new IdentityLifecycleEngine(enableBlockchainAudit);
+  }
+
+  /**
+   * Register a connector for a connection string scheme (e.g. "ldaps:").
+   * Browsers cannot open raw LDAP sockets, so ldap:// and ldaps:// need a
+   * connector backed by a gateway that speaks LDAP on the server side.
+   */
+  static registerConnector(protocol: string, factory: DirectoryConnectorFactory): void {
+    this.connectors.set(protocol.endsWith(':') ? protocol : `${protocol}:`, factory);
+  }
+
+  /**
+   * Encrypt bind credentials for storage in directory_integrations
+   */
+  static async encryptBindCredentials(credentials: BindCredentials): Promise<string> {
+    return PQCDatabaseEncryption.encryptField(JSON.stringify(credentials), BIND_CREDENTIALS_SCOPE, BIND_CREDENTIALS_CONTEXT);
+  }
+
+  /**
+   * Bind credentials stored before envelope encryption need the
+   * credentials passphrase they were encrypted with
+   */
+  static async decryptBindCredentials(encrypted: string, masterKey?: Uint8Array): Promise<BindCredentials> {
+    if (PQCDatabaseEncryption.isEncryptedField(encrypted)) {
+      return JSON.parse(await PQCDatabaseEncryption.decryptField(encrypted, BIND_CREDENTIALS_CONTEXT));
+    }
+    if (!masterKey) {
+      throw new DirectorySyncError('These bind credentials predate envelope encryption; enter the credentials passphrase to read them');
+    }
+
+    const key = await this.deriveCredentialsKey(masterKey);
+    const combined = Uint8Array.from(atob(encrypted), c => c.charCodeAt(0));
+    const plaintext = await aesGcmDecrypt(combined.slice(12), key, combined.slice(0, 12));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  }
+
+  static hasLegacyBindCredentials(integration: DirectoryIntegration): boolean {
+    return !PQCDatabaseEncryption.isEncryptedField(integration.bind_credentials_encrypted);
+  }
+
+  /**
+   * Derive the legacy credentials master key from an administrator passphrase
+   */
+  static async deriveMasterKey(passphrase: string): Promise<Uint8Array> {
+    const keyMaterial = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveBits']
+    );
+    const bits = await crypto.subtle.deriveBits(
+      { name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(BIND_CREDENTIALS_KEY_INFO), iterations: 310000 },
+      keyMaterial,
+      256
+    );
+    return new Uint8Array(bits);
+  }
+
+  private static async deriveCredentialsKey(masterKey: Uint8Array): Promise<CryptoKey> {
+    const keyMaterial = await crypto.subtle.importKey('raw', new Uint8Array(masterKey), 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+      {
+        name: 'HKDF',
+        hash: 'SHA-256',
+        salt: new Uint8Array(32),
+        info: new TextEncoder().encode(BIND_CREDENTIALS_KEY_INFO)
+      },
+      keyMaterial,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  /**
+   * Resolve effective attribute mappings: integration overrides on top of directory defaults.
+   * The base DN falls back to the path of the connection string (RFC 4516 LDAP URL).
+   */
+  static resolveMappings(integration: DirectoryIntegration): DirectoryAttributeMappings {
+    const defaults = DEFAULT_MAPPINGS[integration.directory_type === 'active_directory' ? 'active_directory' : 'ldap'];
+    const baseDn = decodeURIComponent(new URL(integration.connection_string).pathname.replace(/^\//, ''));
+    const overrides = integration.attribute_mappings || {};
+
+    return {
+      ...defaults,
+      user_base_dn: baseDn,
+      group_base_dn: baseDn,
+      ...overrides
+    };
+  }
+
+  static isSyncDue(integration: DirectoryIntegration, now: Date = new Date()): boolean {
+    if (!integration.is_active || !integration.sync_enabled) return false;
+    if (!integration.last_sync_at) return true;
+    const nextSync = new Date(integration.last_sync_at).getTime() + integration.sync_interval_hours * 60 * 60 * 1000;
+    return now.getTime() >= nextSync;
+  }
+
+  async getIntegrations(): Promise<DirectoryIntegration[]> {
+    const { data, error } = await supabase
+      .from('directory_integrations')
+      .select('*')
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching directory integrations:', error);
+      return [];
+    }
+
+    return data as DirectoryIntegration[];
+  }
+
+  /**
+   * Register a new LDAP/AD integration with encrypted bind credentials
+   */
+  async createIntegration(
+    integration: Pick<DirectoryIntegration, 'name' | 'directory_type' | 'connection_string' | 'sync_enabled' | 'sync_interval_hours' | 'attribute_mappings'>,
+    credentials: BindCredentials,
+    actorId: string
+  ): Promise<DirectoryIntegration | null> {
+    try {
+      new URL(integration.connection_string);
+    } catch {
+      throw new DirectorySyncError('Connection string must be a URL such as ldaps://dc01.corp.example/dc=corp,dc=example');
+    }
+
+    const { data, error } = await supabase
+      .from('directory_integrations')
+      .insert({
+        ...integration,
+        attribute_mappings: integration.attribute_mappings as Json,
+        bind_credentials_encrypted: await DirectorySyncEngine.encryptBindCredentials(credentials),
+        created_by: actorId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error creating directory integration:', error);
+      return null;
+    }
+
+    await supabase.rpc('log_audit_event', {
+      _action: 'CREATE',
+      _resource: 'directory_integrations',
+      _resource_id: data.id,
+      _details: { name: data.name, directory_type: data.directory_type }
+    });
+
+    return data as DirectoryIntegration;
+  }
+
+  /**
+   * Re-encrypt passphrase-protected bind credentials under the
+   * directory_integrations data key once they have been read
+   */
+  private async migrateBindCredentials(integration: DirectoryIntegration, credentials: BindCredentials): Promise<void> {
+    const { error } = await supabase
+      .from('directory_integrations')
+      .update({ bind_credentials_encrypted: await DirectorySyncEngine.encryptBindCredentials(credentials) })
+      .eq('id', integration.id)
+      .eq('bind_credentials_encrypted', integration.bind_credentials_encrypted);
+
+    if (error) {
+      console.error('Error migrating bind credentials:', error);
+    }
+  }
+
+  async setSyncEnabled(integrationId: string, enabled: boolean): Promise<boolean> {
+    const { error } = await supabase
+      .from('directory_integrations')
+      .update({ sync_enabled: enabled })
+      .eq('id', integrationId);
+
+    if (error) {
+      console.error('Error updating directory integration:', error);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Read users and groups from the directory
+   */
+  async readDirectory(
+    integration: DirectoryIntegration,
+    credentials: BindCredentials
+  ): Promise<{ users: DirectoryUser[]; groups: DirectoryGroup[] }> {
+    if (!['ldap', 'active_directory'].includes(integration.directory_type)) {
+      throw new DirectorySyncError(`Directory type ${integration.directory_type} is not an LDAP directory`);
+    }
+
+    const url = new URL(integration.connection_string);
+    const factory = DirectorySyncEngine.connectors.get(url.protocol);
+    if (!factory) {
+      throw new DirectorySyncError(`No directory connector registered for ${url.protocol}//`);
+    }
+
+    const mappings = DirectorySyncEngine.resolveMappings(integration);
+    const connector = factory(url);
+    await connector.bind(credentials.bind_dn, credentials.password);
+
+    try {
+      const disabledFilter = mappings.disabled_filter ? parseLDAPFilter(mappings.disabled_filter) : null;
+      const userEntries = await connector.search({
+        baseDn: mappings.user_base_dn,
+        scope: 'sub',
+        filter: mappings.user_filter
+      });
+      const groupEntries = await connector.search({
+        baseDn: mappings.group_base_dn,
+        scope: 'sub',
+        filter: mappings.group_filter,
+        attributes: [
+          mappings.group_id_attribute,
+          mappings.group_name_attribute,
+          mappings.group_description_attribute,
+          mappings.group_member_attribute
+        ]
+      });
+
+      const first = (entry: DirectoryEntry, attribute: string) => entry.attributes[attribute.toLowerCase()]?.[0] ?? null;
+
+      const users: DirectoryUser[] = [];
+      for (const entry of userEntries) {
+        const email = first(entry, mappings.email_attribute);
+        if (!email) continue; // Accounts without mail cannot sign in locally
+
+        const user = {
+          externalId: first(entry, mappings.user_id_attribute) || normalizeDn(entry.dn),
+          dn: entry.dn,
+          email: email.toLowerCase(),
+          fullName: first(entry, mappings.full_name_attribute),
+          disabled: disabledFilter ? matchesLDAPFilter(disabledFilter, entry) : false
+        };
+        users.push({ ...user, attributesHash: await this.hashAttributes(user) });
+      }
+
+      const groups: DirectoryGroup[] = [];
+      for (const entry of groupEntries) {
+        const name = first(entry, mappings.group_name_attribute);
+        if (!name) continue;
+
+        const group = {
+          externalId: first(entry, mappings.group_id_attribute) || normalizeDn(entry.dn),
+          dn: entry.dn,
+          name,
+          description: first(entry, mappings.group_description_attribute),
+          memberDns: (entry.attributes[mappings.group_member_attribute.toLowerCase()] || []).map(normalizeDn)
+        };
+        groups.push({ ...group, attributesHash: await this.hashAttributes(group) });
+      }
+
+      return { users, groups };
+    } finally {
+      await connector.unbind();
+    }
+  }
+
+  /**
+   * Diff directory state against local identities
+   */
+  async buildPlan(
+    integration: DirectoryIntegration,
+    users: DirectoryUser[],
+    groups: DirectoryGroup[]
+  ): Promise<DirectorySyncPlan> {
+    const plan: DirectorySyncPlan = {
+      usersToCreate: [],
+      usersToLink: [],
+      usersToUpdate: [],
+      usersToDisable: [],
+      usersToEnable: [],
+      groupsToCreate: [],
+      groupsToUpdate: [],
+      membershipsToAdd: [],
+      membershipsToRemove: [],
+      unchangedUsers: 0
+    };
+
+    const { data: linkRows, error: linkError } = await supabase
+      .from('directory_sync_links')
+      .select('*')
+      .eq('integration_id', integration.id);
+    if (linkError) throw linkError;
+
+    const links = (linkRows || []) as SyncLink[];
+    const userLinks = new Map(links.filter(l => l.entry_type === 'user').map(l => [l.external_id, l]));
+    const groupLinks = new Map(links.filter(l => l.entry_type === 'group').map(l => [l.external_id, l]));
+
+    const { data: profiles, error: profileError } = await supabase
+      .from('profiles')
+      .select('user_id, email, full_name, deleted_at');
+    if (profileError) throw profileError;
+
+    const profilesById = new Map((profiles || []).map(p => [p.user_id, p]));
+    const profilesByEmail = new Map((profiles || []).map(p => [p.email.toLowerCase(), p]));
+
+    // Users
+    const seenUsers = new Set<string>();
+    for (const user of users) {
+      seenUsers.add(user.externalId);
+      const link = userLinks.get(user.externalId);
+      const profile = link ? profilesById.get(link.local_id) : profilesByEmail.get(user.email);
+
+      if (!profile) {
+        if (!user.disabled) plan.usersToCreate.push(user);
+        continue;
+      }
+
+      if (!link) {
+        plan.usersToLink.push({ userId: profile.user_id, user });
+      }
+
+      if (user.disabled && !profile.deleted_at) {
+        plan.usersToDisable.push({
+          userId: profile.user_id,
+          externalId: user.externalId,
+          email: user.email,
+          reason: 'disabled_in_directory'
+        });
+        continue;
+      }
+      if (!user.disabled && profile.deleted_at && link) {
+        plan.usersToEnable.push({ userId: profile.user_id, user });
+      }
+
+      const changes: Record<string, { from: unknown; to: unknown }> = {};
+      if (profile.email.toLowerCase() !== user.email) {
+        changes.email = { from: profile.email, to: user.email };
+      }
+      if (user.fullName && profile.full_name !== user.fullName) {
+        changes.full_name = { from: profile.full_name, to: user.fullName };
+      }
+      if (Object.keys(changes).length > 0) {
+        plan.usersToUpdate.push({ userId: profile.user_id, user, changes });
+      } else if (link) {
+        plan.unchangedUsers++;
+      }
+    }
+
+    // Linked accounts that disappeared from the directory
+    for (const link of userLinks.values()) {
+      if (seenUsers.has(link.external_id) || !link.is_active) continue;
+      const profile = profilesById.get(link.local_id);
+      if (profile && !profile.deleted_at) {
+        plan.usersToDisable.push({
+          userId: link.local_id,
+          externalId: link.external_id,
+          email: profile.email,
+          reason: 'removed_from_directory'
+        });
+      }
+    }
+
+    // Groups
+    const { data: localGroups, error: groupError } = await supabase
+      .from('user_groups')
+      .select('id, name, description');
+    if (groupError) throw groupError;
+    const groupsByName = new Map((localGroups || []).map(g => [g.name.toLowerCase(), g]));
+    const groupsById = new Map((localGroups || []).map(g => [g.id, g]));
+
+    const managedGroupIds: { groupId: string; group: DirectoryGroup }[] = [];
+    for (const group of groups) {
+      const link = groupLinks.get(group.externalId);
+      const local = link ? groupsById.get(link.local_id) : groupsByName.get(group.name.toLowerCase());
+      if (!local) {
+        plan.groupsToCreate.push(group);
+        continue;
+      }
+      if (!link || local.name !== group.name || (local.description || null) !== group.description) {
+        plan.groupsToUpdate.push({ groupId: local.id, group });
+      }
+      managedGroupIds.push({ groupId: local.id, group });
+    }
+
+    // Memberships: directory is the source of truth for groups it manages
+    const userExternalIdByDn = new Map(users.filter(u => !u.disabled).map(u => [normalizeDn(u.dn), u.externalId]));
+    const localUserIdByExternalId = new Map<string, string>();
+    for (const user of users) {
+      const link = userLinks.get(user.externalId);
+      const profile = link ? profilesById.get(link.local_id) : profilesByEmail.get(user.email);
+      if (profile) localUserIdByExternalId.set(user.externalId, profile.user_id);
+    }
+
+    const managedIds = managedGroupIds.map(g => g.groupId);
+    const { data: memberships, error: membershipError } = managedIds.length > 0
+      ? await supabase.from('user_group_memberships').select('group_id, user_id').in('group_id', managedIds)
+      : { data: [], error: null };
+    if (membershipError) throw membershipError;
+
+    const currentMembers = new Map<string, Set<string>>();
+    for (const membership of memberships || []) {
+      if (!currentMembers.has(membership.group_id)) currentMembers.set(membership.group_id, new Set());
+      currentMembers.get(membership.group_id)!.add(membership.user_id);
+    }
+
+    const addMemberships = (group: DirectoryGroup, groupId: string | null) => {
+      const desired = new Set<string>();
+      for (const memberDn of group.memberDns) {
+        const externalId = userExternalIdByDn.get(memberDn);
+        if (!externalId) continue;
+        desired.add(externalId);
+        const localUserId = localUserIdByExternalId.get(externalId);
+        if (!groupId || !localUserId || !currentMembers.get(groupId)?.has(localUserId)) {
+          plan.membershipsToAdd.push({ groupExternalId: group.externalId, userExternalId: externalId });
+        }
+      }
+      return desired;
+    };
+
+    for (const group of plan.groupsToCreate) {
+      addMemberships(group, null);
+    }
+    for (const { groupId, group } of managedGroupIds) {
+      const desired = addMemberships(group, groupId);
+      const desiredLocal = new Set(Array.from(desired).map(id => localUserIdByExternalId.get(id)).filter(Boolean));
+      for (const userId of currentMembers.get(groupId) || []) {
+        if (!desiredLocal.has(userId)) {
+          plan.membershipsToRemove.push({ groupId, userId });
+        }
+      }
+    }
+
+    return plan;
+  }
+
+  /**
+   * Run a full sync. With dryRun the plan is returned without changing anything.
+   */
+  async sync(
+    integrationId: string,
+    actorId: string,
+    credentials: BindCredentials | { masterKey?: Uint8Array },
+    options: { dryRun?: boolean; triggeredBy?: 'manual' | 'scheduled' } = {}
+  ): Promise<DirectorySyncResult> {
+    const result: DirectorySyncResult = {
+      success: false,
+      dryRun: !!options.dryRun,
+      applied: {
+        created: 0,
+        linked: 0,
+        updated: 0,
+        disabled: 0,
+        enabled: 0,
+        groupsCreated: 0,
+        groupsUpdated: 0,
+        membershipsAdded: 0,
+        membershipsRemoved: 0
+      },
+      errors: [],
+      message: ''
+    };
+
+    try {
+      const { data, error } = await supabase
+        .from('directory_integrations')
+        .select('*')
+        .eq('id', integrationId)
+        .single();
+      if (error) throw error;
+
+      const integration = data as DirectoryIntegration;
+      if (!integration.is_active) {
+        return { ...result, message: `${integration.name} is inactive` };
+      }
+
+      const bindCredentials = 'bind_dn' in credentials
+        ? credentials
+        : await DirectorySyncEngine.decryptBindCredentials(integration.bind_credentials_encrypted, credentials.masterKey);
+
+      if (!('bind_dn' in credentials) && DirectorySyncEngine.hasLegacyBindCredentials(integration)) {
+        await this.migrateBindCredentials(integration, bindCredentials);
+      }
+
+      const { users, groups } = await this.readDirectory(integration, bindCredentials);
+      const plan = await this.buildPlan(integration, users, groups);
+      result.plan = plan;
+
+      if (options.dryRun) {
+        return {
+          ...result,
+          success: true,
+          message: this.summarizePlan(plan)
+        };
+      }
+
+      await this.applyPlan(integration, plan, users, actorId, options.triggeredBy || 'manual', result);
+
+      await supabase
+        .from('directory_integrations')
+        .update({ last_sync_at: new Date().toISOString() })
+        .eq('id', integration.id);
+
+      await supabase.rpc('log_audit_event', {
+        _action: 'DIRECTORY_SYNC',
+        _resource: 'directory_integrations',
+        _resource_id: integration.id,
+        _details: { ...result.applied, errors: result.errors.length } as Json
+      });
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'DIRECTORY_SYNC', 'directory_integrations', {
+          integrationId: integration.id,
+          directory: integration.name,
+          ...result.applied
+        });
+      }
+
+      result.success = result.errors.length === 0;
+      result.message = `Synced ${users.length} users and ${groups.length} groups from ${integration.name}` +
+        (result.errors.length > 0 ? ` with ${result.errors.length} errors` : '');
+      return result;
+    } catch (error) {
+      console.error('Directory sync failed:', error);
+      return {
+        ...result,
+        errors: [...result.errors, error instanceof Error ? error.message : String(error)],
+        message: error instanceof Error ? error.message : 'Directory sync failed'
+      };
+    }
+  }
+
+  /**
+   * Sync every integration whose interval has elapsed
+   */
+  async syncDueIntegrations(actorId: string, masterKey?: Uint8Array): Promise<DirectorySyncResult[]> {
+    const integrations = await this.getIntegrations();
+    const results: DirectorySyncResult[] = [];
+
+    for (const integration of integrations.filter(i => DirectorySyncEngine.isSyncDue(i))) {
+      results.push(await this.sync(integration.id, actorId, { masterKey }, { triggeredBy: 'scheduled' }));
+    }
+
+    return results;
+  }
+
+  summarizePlan(plan: DirectorySyncPlan): string {
+    return [
+      `${plan.usersToCreate.length} to create`,
+      `${plan.usersToLink.length} to link`,
+      `${plan.usersToUpdate.length} to update`,
+      `${plan.usersToDisable.length} to disable`,
+      `${plan.usersToEnable.length} to re-enable`,
+      `${plan.groupsToCreate.length + plan.groupsToUpdate.length} group changes`,
+      `${plan.membershipsToAdd.length + plan.membershipsToRemove.length} membership changes`
+    ].join(', ');
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  private async applyPlan(
+    integration: DirectoryIntegration,
+    plan: DirectorySyncPlan,
+    users: DirectoryUser[],
+    actorId: string,
+    triggeredBy: 'manual' | 'scheduled',
+    result: DirectorySyncResult
+  ): Promise<void> {
+    const localUserIds = new Map<string, string>();
+    const localGroupIds = new Map<string, string>();
+    const eventTrigger = triggeredBy === 'scheduled' ? 'scheduled' : 'automated';
+
+    // Create accounts (joiners)
+    if (plan.usersToCreate.length > 0) {
+      const { data, error } = await supabase.functions.invoke('directory-provision', {
+        body: {
+          action: 'create',
+          integration_id: integration.id,
+          users: plan.usersToCreate.map(u => ({ email: u.email, full_name: u.fullName, external_id: u.externalId }))
+        }
+      });
+
+      if (error) {
+        result.errors.push(`Account creation failed: ${error.message}`);
+      } else {
+        for (const failure of data.failed || []) {
+          result.errors.push(`Could not create ${failure.email}: ${failure.error}`);
+        }
+        for (const created of data.succeeded || []) {
+          const user = plan.usersToCreate.find(u => u.externalId === created.external_id);
+          if (!user) continue;
+
+          localUserIds.set(user.externalId, created.user_id);
+          await this.upsertLink(integration.id, 'user', user.externalId, user.dn, created.user_id, user.attributesHash);
+          await this.recordLifecycleEvent(created.user_id, 'joiner', eventTrigger, actorId, integration, {
+            action: 'account_created',
+            email: user.email,
+            dn: user.dn
+          });
+          result.applied.created++;
+        }
+      }
+    }
+
+    // Adopt existing accounts that match by email
+    for (const { userId, user } of plan.usersToLink) {
+      localUserIds.set(user.externalId, userId);
+      await this.upsertLink(integration.id, 'user', user.externalId, user.dn, userId, user.attributesHash);
+      result.applied.linked++;
+    }
+
+    // Attribute changes (movers)
+    for (const { userId, user, changes } of plan.usersToUpdate) {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ email: user.email, ...(user.fullName ? { full_name: user.fullName } : {}) })
+        .eq('user_id', userId);
+
+      if (error) {
+        result.errors.push(`Could not update ${user.email}: ${error.message}`);
+        continue;
+      }
+
+      await this.upsertLink(integration.id, 'user', user.externalId, user.dn, userId, user.attributesHash);
+      await this.recordLifecycleEvent(userId, 'mover', eventTrigger, actorId, integration, {
+        action: 'attributes_updated',
+        changes
+      } as Record<string, unknown>);
+      result.applied.updated++;
+    }
+
+    // Disable / re-enable accounts (leavers and returners)
+    await this.setAccountsEnabled(integration, plan.usersToDisable.map(u => u.userId), false, result);
+    for (const disabled of plan.usersToDisable) {
+      await supabase
+        .from('directory_sync_links')
+        .update({ is_active: false })
+        .eq('integration_id', integration.id)
+        .eq('entry_type', 'user')
+        .eq('external_id', disabled.externalId);
+
+      // The account is already disabled above; the offboarding workflow revokes
+      // everything else the leaver still holds (sessions, keys, JIT grants, ...)
+      const offboarding = await this.lifecycle.startWorkflow(
+        disabled.userId,
+        'leaver',
+        { reason: disabled.reason, disableAccount: false },
+        actorId,
+        {
+          triggeredBy: eventTrigger,
+          metadata: {
+            source: 'directory_sync',
+            integration_id: integration.id,
+            integration_name: integration.name,
+            email: disabled.email
+          }
+        }
+      );
+      if (!offboarding?.success) {
+        result.errors.push(`Offboarding incomplete for ${disabled.email}: ${offboarding?.message || 'workflow not started'}`);
+      }
+    }
+
+    await this.setAccountsEnabled(integration, plan.usersToEnable.map(u => u.userId), true, result);
+    for (const { userId, user } of plan.usersToEnable) {
+      await this.upsertLink(integration.id, 'user', user.externalId, user.dn, userId, user.attributesHash);
+      await this.recordLifecycleEvent(userId, 'joiner', eventTrigger, actorId, integration, {
+        action: 'account_reenabled',
+        email: user.email
+      });
+    }
+
+    // Groups
+    for (const group of plan.groupsToCreate) {
+      const { data, error } = await supabase
+        .from('user_groups')
+        .insert({ name: group.name, description: group.description, created_by: actorId })
+        .select('id')
+        .single();
+
+      if (error) {
+        result.errors.push(`Could not create group ${group.name}: ${error.message}`);
+        continue;
+      }
+
+      localGroupIds.set(group.externalId, data.id);
+      await this.upsertLink(integration.id, 'group', group.externalId, group.dn, data.id, group.attributesHash);
+      result.applied.groupsCreated++;
+    }
+
+    for (const { groupId, group } of plan.groupsToUpdate) {
+      const { error } = await supabase
+        .from('user_groups')
+        .update({ name: group.name, description: group.description })
+        .eq('id', groupId);
+
+      if (error) {
+        result.errors.push(`Could not update group ${group.name}: ${error.message}`);
+        continue;
+      }
+
+      await this.upsertLink(integration.id, 'group', group.externalId, group.dn, groupId, group.attributesHash);
+      result.applied.groupsUpdated++;
+    }
+
+    // Resolve ids for links that already existed
+    const { data: links } = await supabase
+      .from('directory_sync_links')
+      .select('entry_type, external_id, local_id')
+      .eq('integration_id', integration.id);
+    for (const link of links || []) {
+      const target = link.entry_type === 'user' ? localUserIds : localGroupIds;
+      if (!target.has(link.external_id)) target.set(link.external_id, link.local_id);
+    }
+
+    // Membership changes (movers)
+    const membershipChanges = new Map<string, { added: string[]; removed: string[] }>();
+    const changesFor = (userId: string) => {
+      if (!membershipChanges.has(userId)) membershipChanges.set(userId, { added: [], removed: [] });
+      return membershipChanges.get(userId)!;
+    };
+
+    for (const { groupExternalId, userExternalId } of plan.membershipsToAdd) {
+      const groupId = localGroupIds.get(groupExternalId);
+      const userId = localUserIds.get(userExternalId);
+      if (!groupId || !userId) continue;
+
+      const { error } = await supabase
+        .from('user_group_memberships')
+        .insert({ group_id: groupId, user_id: userId, assigned_by: actorId });
+
+      if (error) {
+        result.errors.push(`Could not add membership: ${error.message}`);
+        continue;
+      }
+      changesFor(userId).added.push(groupId);
+      result.applied.membershipsAdded++;
+    }
+
+    for (const { groupId, userId } of plan.membershipsToRemove) {
+      const { error } = await supabase
+        .from('user_group_memberships')
+        .delete()
+        .eq('group_id', groupId)
+        .eq('user_id', userId);
+
+      if (error) {
+        result.errors.push(`Could not remove membership: ${error.message}`);
+        continue;
+      }
+      changesFor(userId).removed.push(groupId);
+      result.applied.membershipsRemoved++;
+    }
+
+    const newlyCreated = new Set(plan.usersToCreate.map(u => localUserIds.get(u.externalId)));
+    for (const [userId, changes] of membershipChanges) {
+      if (newlyCreated.has(userId)) continue; // Initial memberships are part of the joiner event
+      await this.recordLifecycleEvent(userId, 'mover', eventTrigger, actorId, integration, {
+        action: 'group_membership_changed',
+        added_groups: changes.added,
+        removed_groups: changes.removed
+      });
+    }
+
+    // Refresh last_seen_at for every entry still present
+    const seen = users.map(u => u.externalId);
+    if (seen.length > 0) {
+      await supabase
+        .from('directory_sync_links')
+        .update({ last_seen_at: new Date().toISOString() })
+        .eq('integration_id', integration.id)
+        .eq('entry_type', 'user')
+        .in('external_id', seen);
+    }
+  }
+
+  private async setAccountsEnabled(
+    integration: DirectoryIntegration,
+    userIds: string[],
+    enabled: boolean,
+    result: DirectorySyncResult
+  ): Promise<void> {
+    if (userIds.length === 0) return;
+
+    const { data, error } = await supabase.functions.invoke('directory-provision', {
+      body: { action: enabled ? 'enable' : 'disable', integration_id: integration.id, user_ids: userIds }
+    });
+
+    if (error) {
+      result.errors.push(`Could not ${enabled ? 'enable' : 'disable'} accounts: ${error.message}`);
+      return;
+    }
+
+    for (const failure of data.failed || []) {
+      result.errors.push(`Could not ${enabled ? 'enable' : 'disable'} ${failure.user_id}: ${failure.error}`);
+    }
+    if (enabled) {
+      result.applied.enabled += (data.succeeded || []).length;
+    } else {
+      result.applied.disabled += (data.succeeded || []).length;
+    }
+  }
+
+  private async upsertLink(
+    integrationId: string,
+    entryType: 'user' | 'group',
+    externalId: string,
+    dn: string,
+    localId: string,
+    attributesHash: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('directory_sync_links')
+      .upsert(
+        {
+          integration_id: integrationId,
+          entry_type: entryType,
+          external_id: externalId,
+          distinguished_name: dn,
+          local_id: localId,
+          attributes_hash: attributesHash,
+          is_active: true,
+          last_seen_at: new Date().toISOString()
+        },
+        { onConflict: 'integration_id,entry_type,external_id' }
+      );
+
+    if (error) {
+      console.error('Error saving directory sync link:', error);
+    }
+  }
+
+  private async recordLifecycleEvent(
+    userId: string,
+    eventType: 'joiner' | 'mover',
+    triggeredBy: 'automated' | 'scheduled',
+    actorId: string,
+    integration: DirectoryIntegration,
+    workflowData: Record<string, unknown>
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('identity_lifecycle_events')
+      .insert({
+        user_id: userId,
+        event_type: eventType,
+        event_status: 'completed',
+        triggered_by: triggeredBy,
+        completed_at: new Date().toISOString(),
+        workflow_data: { source: 'directory_sync', ...workflowData } as Json,
+        metadata: {
+          integration_id: integration.id,
+          integration_name: integration.name,
+          directory_type: integration.directory_type,
+          initiated_by: actorId
+        }
+      });
+
+    if (error) {
+      console.error('Error recording lifecycle event:', error);
+    }
+  }
+
+  private async hashAttributes(value: object): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(value)));
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
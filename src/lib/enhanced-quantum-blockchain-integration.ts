@@ -4,13 +4,16 @@
  */
 
 import { EnhancedQuantumBlockchain, IBlockData } from './enhanced-quantum-blockchain';
+import type { TimestampingOptions } from './external-timestamps';
+import { TimestampUpgradeScheduler } from './timestamp-upgrade-scheduler';
+import { toBlockRow } from './chain-reconciliation';
 import { supabase } from '@/integrations/supabase/client';
 
 export class BlockchainIntegrationManager {
   private blockchain: EnhancedQuantumBlockchain;
 
-  constructor(difficulty: number = 2) {
-    this.blockchain = new EnhancedQuantumBlockchain(difficulty);
+  constructor(difficulty: number = 2, timestamping?: TimestampingOptions) {
+    this.blockchain = new EnhancedQuantumBlockchain(difficulty, timestamping);
   }
 
   /**
@@ -57,15 +60,11 @@ export class BlockchainIntegrationManager {
       const block = await this.blockchain.minePendingTransactions(userId);
       
       // Store in database
-      await supabase.from('blockchain_blocks').insert({
-        block_index: block.index,
-        block_hash: block.hash,
-        previous_hash: block.previousHash,
-        merkle_root: block.merkleRoot,
-        miner_id: userId,
-        nonce: block.nonce,
-        difficulty: block.difficulty,
-        transaction_count: block.data.length
+      await supabase.from('blockchain_blocks').insert(toBlockRow(block, userId));
+
+      // Kept so the upgrade job can complete pending OpenTimestamps proofs
+      await TimestampUpgradeScheduler.record(block).catch(error => {
+        console.error('Error recording block timestamp:', error);
       });
 
       return block.hash;
@@ -89,6 +88,37 @@ export class BlockchainIntegrationManager {
     return await BlockchainAuditExporter.generateAuditReport(this.blockchain);
   }
 
+  /**
+   * Export signed evidence bundle, with timestamp proofs upgraded as far as
+   * the calendars allow
+   */
+  async exportEvidenceBundle(): Promise<string> {
+    await this.blockchain.upgradeTimestamps({ headers: TimestampUpgradeScheduler.getHeaders() ?? undefined });
+    const { BlockchainAuditExporter } = await import('./enhanced-quantum-blockchain');
+    return await BlockchainAuditExporter.generateEvidenceBundle(this.blockchain);
+  }
+
+  /**
+   * Inclusion proof for an audit event, or null until it is mined
+   */
+  async getAuditEventProof(eventId: string) {
+    return await this.blockchain.getAuditEventProof(eventId);
+  }
+
+  /**
+   * Signed tree head of the chain at a height, by default the current one
+   */
+  async getTreeHead(treeSize?: number) {
+    return await this.blockchain.getTreeHead(treeSize);
+  }
+
+  /**
+   * Consistency proof from an earlier tree head to a later one
+   */
+  async getConsistencyProof(firstSize: number, secondSize?: number) {
+    return await this.blockchain.getConsistencyProof(firstSize, secondSize);
+  }
+
   /**
    * Get blockchain statistics
    */
@@ -4,12 +4,40 @@
  * 
  * Features:
  * - ML-DSA (Dilithium) digital signatures
- * - External cryptographic timestamping (OpenTimestamps)
+ * - External timestamping: OpenTimestamps proofs upgraded once anchored in
+ *   Bitcoin, or RFC 3161 tokens from a pinned TSA
  * - W3C Verifiable Credentials export
+ * - Signed evidence bundles that auditors verify offline with
+ *   scripts/verify-evidence-bundle.mjs
+ * - Proofs for single audit events and RFC 6962 tree heads, so an auditor
+ *   can check one event, or that the chain only grew, without the chain
  * - Auditor-ready immutable audit trail
  */
 
 import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
+import { asciiToBytes, bytesToHex, hexToBytes } from '@noble/curves/utils.js';
+import * as crypto from 'crypto-js';
+import {
+  TimestampStatus,
+  TimestampTrust,
+  TimestampingOptions,
+  requestRfc3161Timestamp,
+  stampWithOpenTimestamps,
+  upgradeOpenTimestamp,
+  verifyOpenTimestamp,
+  verifyTimestampProof
+} from './external-timestamps';
+import {
+  chainConsistencyProof,
+  chainTreeHash,
+  TransactionTree,
+  rootFromTransactionPath,
+  transactionMerklePath,
+  transactionMerkleRoot,
+  verifyChainConsistency
+} from './merkle-proofs';
+import type { MerklePathStep } from './zero-knowledge-proofs';
+import { ValidatorKey, getValidatorKey, loadValidatorKey, validatorKeyId } from './chain-validator-keys';
 
 // ============================================================================
 // Type Definitions
@@ -27,6 +55,11 @@ export interface ITimestamp {
   token: string;
   verified: boolean;
   createdAt: Date;
+  /** Absent on blocks stamped before proofs were upgraded */
+  status?: TimestampStatus;
+  /** The Bitcoin block's time, or the TSA's genTime */
+  attestedAt?: Date;
+  bitcoinHeight?: number;
 }
 
 export interface IBlock {
@@ -38,7 +71,11 @@ export interface IBlock {
   nonce: number;
   difficulty: number;
   merkleRoot: string;
+  /** Absent on blocks mined with the pairwise transaction tree */
+  merkleTree?: TransactionTree;
   signature?: string;
+  /** Hex ML-DSA-65 public key the block was signed with */
+  signerPublicKey?: string;
   externalTimestamp?: ITimestamp;
 }
 
@@ -71,6 +108,147 @@ export interface IVerifiableCredential {
   };
 }
 
+export interface IEvidenceSigner {
+  /** Hex SHA-256 of the public key, its id in audit_chain_validator_keys */
+  keyId: string;
+  algorithm: 'ML-DSA-65';
+  publicKey: string;
+}
+
+/**
+ * Path from a transaction's hash to its block's Merkle root
+ */
+export interface IEvidenceProof {
+  blockIndex: number;
+  transactionIndex: number;
+  leafHash: string;
+  path: MerklePathStep[];
+}
+
+export interface IEvidenceManifest {
+  format: typeof EVIDENCE_BUNDLE_FORMAT;
+  version: typeof EVIDENCE_BUNDLE_VERSION;
+  createdAt: string;
+  chain: {
+    length: number;
+    difficulty: number;
+    genesisHash: string | null;
+    headHash: string | null;
+    /**
+     * RFC 6962 tree hash of the block hashes, the root later consistency
+     * proofs start from; absent on bundles exported before tree heads
+     */
+    treeHash?: string;
+  };
+  /** Hex SHA-256 of the JSON of blocks, which carry their timestamp proofs */
+  blocksHash: string;
+  /** Hex SHA-256 of the JSON of proofs */
+  proofsHash: string;
+  signers: IEvidenceSigner[];
+}
+
+/**
+ * Self-contained audit evidence: everything needed to re-check the chain
+ * without access to the system that produced it
+ */
+export interface IEvidenceBundle {
+  manifest: IEvidenceManifest;
+  /** Hex SHA-256 of the JSON of manifest */
+  manifestHash: string;
+  /** ML-DSA-65 signature over manifestHash, under EVIDENCE_SIGNATURE_CONTEXT */
+  signature: {
+    keyId: string;
+    value: string;
+  };
+  blocks: IBlock[];
+  proofs: IEvidenceProof[];
+}
+
+/**
+ * The fields of a block an audit event proof relies on, signed by the
+ * chain's key so the event can be checked without the block's other
+ * transactions
+ */
+export interface ISignedBlockHeader {
+  index: number;
+  timestamp: number;
+  previousHash: string;
+  merkleRoot: string;
+  merkleTree?: TransactionTree;
+  hash: string;
+  keyId: string;
+  /** Hex ML-DSA-65 signature under AUDIT_PROOF_SIGNATURE_CONTEXT */
+  signature: string;
+}
+
+/**
+ * Evidence that one audit event is in the chain: its path to the Merkle
+ * root of its block, and that block's signed header
+ */
+export interface IAuditEventProof {
+  /** See auditEventId */
+  eventId: string;
+  transaction: IBlockData;
+  transactionIndex: number;
+  path: MerklePathStep[];
+  header: ISignedBlockHeader;
+}
+
+/**
+ * The chain key's signature over the RFC 6962 tree hash of the hashes of
+ * the chain's first treeSize blocks
+ */
+export interface ISignedTreeHead {
+  treeSize: number;
+  rootHash: string;
+  keyId: string;
+  /** Hex ML-DSA-65 signature under AUDIT_PROOF_SIGNATURE_CONTEXT */
+  signature: string;
+}
+
+/**
+ * Evidence that the chain at the second head extends the chain at the first
+ */
+export interface IConsistencyProof {
+  first: ISignedTreeHead;
+  second: ISignedTreeHead;
+  proof: string[];
+}
+
+export interface IProofVerificationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export const EVIDENCE_BUNDLE_FORMAT = 'quantum-iam-audit-evidence';
+export const EVIDENCE_BUNDLE_VERSION = 1;
+export const EVIDENCE_SIGNATURE_CONTEXT = 'quantum-iam/audit-evidence/v1';
+export const AUDIT_PROOF_SIGNATURE_CONTEXT = 'quantum-iam/audit-proof/v1';
+
+const sha256Hex = (data: string): string => crypto.SHA256(data).toString();
+
+const blockHeaderMessage = (header: Omit<ISignedBlockHeader, 'keyId' | 'signature'>) =>
+  `block-header|${JSON.stringify({
+    index: header.index,
+    timestamp: header.timestamp,
+    previousHash: header.previousHash,
+    merkleRoot: header.merkleRoot,
+    merkleTree: header.merkleTree,
+    hash: header.hash
+  })}`;
+
+const transactionTreeOf = (block: { merkleTree?: TransactionTree }): TransactionTree => block.merkleTree ?? 'pairwise';
+
+const treeHeadMessage = (treeSize: number, rootHash: string) => `tree-head|${treeSize}|${rootHash}`;
+
+/**
+ * An audit event's id: the hex SHA-256 of its JSON, which is also its leaf
+ * in its block's Merkle tree. Transactions carry no id of their own.
+ */
+export function auditEventId(transaction: IBlockData): string {
+  return sha256Hex(JSON.stringify(transaction));
+}
+
 // ============================================================================
 // Quantum Block Implementation
 // ============================================================================
@@ -84,7 +262,9 @@ export class QuantumBlock implements IBlock {
   nonce: number;
   difficulty: number;
   merkleRoot: string;
+  merkleTree?: TransactionTree;
   signature?: string;
+  signerPublicKey?: string;
   externalTimestamp?: ITimestamp;
 
   constructor(
@@ -99,10 +279,19 @@ export class QuantumBlock implements IBlock {
     this.previousHash = previousHash;
     this.difficulty = difficulty;
     this.nonce = 0;
+    this.merkleTree = 'rfc6962';
     this.merkleRoot = this.calculateMerkleRoot();
     this.hash = this.calculateHash();
   }
 
+  /**
+   * Rebuild a block from a stored copy, such as a database row or an
+   * IndexedDB record, keeping its hash and nonce as stored
+   */
+  static from(block: IBlock): QuantumBlock {
+    return Object.assign(Object.create(QuantumBlock.prototype) as QuantumBlock, block);
+  }
+
   /**
    * Calculate block hash using SHA-256
    */
@@ -113,33 +302,19 @@ export class QuantumBlock implements IBlock {
       data: this.data,
       previousHash: this.previousHash,
       nonce: this.nonce,
-      merkleRoot: this.merkleRoot
+      merkleRoot: this.merkleRoot,
+      // Left out of the JSON of blocks mined with the pairwise tree
+      merkleTree: this.merkleTree
     });
     
     return this.sha256Sync(data);
   }
 
   /**
-   * Calculate Merkle root of transactions
+   * Calculate Merkle root of transactions, with the tree the block names
    */
   calculateMerkleRoot(): string {
-    if (this.data.length === 0) return '';
-    
-    const hashes = this.data.map(tx => 
-      this.sha256Sync(JSON.stringify(tx))
-    );
-
-    while (hashes.length > 1) {
-      const newLevel: string[] = [];
-      for (let i = 0; i < hashes.length; i += 2) {
-        const left = hashes[i];
-        const right = i + 1 < hashes.length ? hashes[i + 1] : left;
-        newLevel.push(this.sha256Sync(left + right));
-      }
-      hashes.splice(0, hashes.length, ...newLevel);
-    }
-
-    return hashes[0];
+    return transactionMerkleRoot(this.data.map(auditEventId), transactionTreeOf(this));
   }
 
   /**
@@ -157,10 +332,13 @@ export class QuantumBlock implements IBlock {
   /**
    * Sign block with ML-DSA (Dilithium)
    */
-  async signBlock(secretKey: Uint8Array): Promise<void> {
+  async signBlock(secretKey: Uint8Array, publicKey?: Uint8Array): Promise<void> {
     const message = new TextEncoder().encode(this.hash);
-    const signature = ml_dsa65.sign(secretKey, message);
+    const signature = ml_dsa65.sign(message, secretKey);
     this.signature = this.bytesToHex(signature);
+    if (publicKey) {
+      this.signerPublicKey = this.bytesToHex(publicKey);
+    }
   }
 
   /**
@@ -175,78 +353,40 @@ export class QuantumBlock implements IBlock {
     try {
       const message = new TextEncoder().encode(block.hash);
       const signature = this.hexToBytes(block.signature);
-      return ml_dsa65.verify(publicKey, message, signature);
+      return ml_dsa65.verify(signature, message, publicKey);
     } catch {
       return false;
     }
   }
 
   /**
-   * Add external timestamp using OpenTimestamps
-   * Uses Bitcoin blockchain for cryptographic proof
+   * Add an external timestamp: an OpenTimestamps proof, pending until a
+   * calendar commits it to Bitcoin, or a token from an RFC 3161 TSA
    */
-  async addExternalTimestamp(): Promise<void> {
+  async addExternalTimestamp(options: TimestampingOptions = { method: 'opentimestamps' }): Promise<void> {
     try {
-      // Create OpenTimestamps proof
-      const hashBuffer = new TextEncoder().encode(this.hash);
-      
-      // Submit to OpenTimestamps calendar servers
-      const otsResponse = await fetch('https://alice.btc.calendar.opentimestamps.org/timestamp', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/octet-stream' },
-        body: hashBuffer
-      }).catch(() => null);
-
-      if (otsResponse && otsResponse.ok) {
-        const otsProof = await otsResponse.arrayBuffer();
-        
-        this.externalTimestamp = {
-          authority: 'opentimestamps.org',
-          token: this.bytesToHex(new Uint8Array(otsProof)),
-          verified: true,
-          createdAt: new Date()
-        };
-      } else {
-        // Fallback to multiple calendar servers
-        const fallbackServers = [
-          'https://bob.btc.calendar.opentimestamps.org/timestamp',
-          'https://finney.calendar.eternitywall.com/timestamp'
-        ];
-        
-        for (const server of fallbackServers) {
-          const response = await fetch(server, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/octet-stream' },
-            body: hashBuffer
-          }).catch(() => null);
-          
-          if (response && response.ok) {
-            const otsProof = await response.arrayBuffer();
-            this.externalTimestamp = {
-              authority: server.includes('eternitywall') ? 'eternitywall.com' : 'opentimestamps.org',
-              token: this.bytesToHex(new Uint8Array(otsProof)),
-              verified: true,
-              createdAt: new Date()
-            };
-            return;
-          }
-        }
-        
-        // All external services failed - use internal TSA
-        const timestampProof = {
-          blockHash: this.hash,
-          timestamp: Date.now(),
-          nonce: this.nonce,
-          proof: this.sha256Sync(`${this.hash}-${Date.now()}-timestamp`)
-        };
+      if (options.method === 'rfc3161') {
+        if (!options.tsaUrl) throw new Error('No TSA URL configured');
+        const timestamp = await requestRfc3161Timestamp(this.hash, options.tsaUrl, options);
 
         this.externalTimestamp = {
-          authority: 'internal-tsa',
-          token: JSON.stringify(timestampProof),
-          verified: false,
+          authority: 'rfc3161',
+          token: timestamp.token,
+          verified: true,
+          status: 'verified',
+          attestedAt: timestamp.genTime,
           createdAt: new Date()
         };
+        return;
       }
+
+      this.externalTimestamp = {
+        authority: 'opentimestamps',
+        token: await stampWithOpenTimestamps(this.hash, options.calendarUrls),
+        verified: false,
+        status: 'pending',
+        createdAt: new Date()
+      };
     } catch (error) {
       console.error('Failed to add external timestamp:', error);
       this.externalTimestamp = {
@@ -259,46 +399,56 @@ export class QuantumBlock implements IBlock {
   }
 
   /**
-   * Verify external timestamp
+   * Upgrade a pending OpenTimestamps proof and re-check it against the
+   * local Bitcoin headers. Returns whether the timestamp changed.
+   */
+  async upgradeExternalTimestamp(trust: TimestampTrust = {}): Promise<boolean> {
+    const timestamp = this.externalTimestamp;
+    if (timestamp?.authority !== 'opentimestamps' || timestamp.status === 'verified' || timestamp.status === 'failed') {
+      return false;
+    }
+
+    const { token } = await upgradeOpenTimestamp(timestamp.token);
+    const verification = await verifyOpenTimestamp(this.hash, token, trust.headers);
+    if (token === timestamp.token && verification.status === timestamp.status) {
+      return false;
+    }
+
+    this.externalTimestamp = {
+      ...timestamp,
+      token,
+      verified: verification.status === 'verified',
+      status: verification.status,
+      attestedAt: verification.attestedAt,
+      bitcoinHeight: verification.bitcoinHeight
+    };
+    return true;
+  }
+
+  /**
+   * Verify external timestamp. OpenTimestamps proofs verify once their
+   * Bitcoin block is in the local headers; RFC 3161 tokens need the TSA's
+   * certificate pinned.
    */
-  static async verifyExternalTimestamp(block: IBlock): Promise<boolean> {
+  static async verifyExternalTimestamp(block: IBlock, trust: TimestampTrust = {}): Promise<boolean> {
     if (!block.externalTimestamp) return false;
     
     try {
-      const authority = block.externalTimestamp.authority;
-      
-      // OpenTimestamps verification
-      if (authority.includes('opentimestamps') || authority.includes('eternitywall')) {
-        // Verify OTS proof against Bitcoin blockchain
-        const otsProof = this.hexToBytes(block.externalTimestamp.token);
-        const hashBuffer = new TextEncoder().encode(block.hash);
-        
-        // Combine buffers for verification
-        const combined = new Uint8Array(hashBuffer.length + otsProof.length);
-        combined.set(hashBuffer, 0);
-        combined.set(otsProof, hashBuffer.length);
-        
-        const response = await fetch('https://alice.btc.calendar.opentimestamps.org/verify', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/octet-stream' },
-          body: combined.buffer
-        }).catch(() => null);
-        
-        if (response && response.ok) {
-          const verification = await response.json();
-          return verification.verified === true;
-        }
-        return false;
+      const { authority, token } = block.externalTimestamp;
+
+      if (authority === 'opentimestamps' || authority === 'rfc3161') {
+        const verification = await verifyTimestampProof(authority, block.hash, token, trust);
+        return verification.status === 'verified';
       }
       
       // Local/internal verification
       if (authority === 'local') {
-        return block.externalTimestamp.token === block.hash;
+        return token === block.hash;
       }
       
-      // Internal TSA verification
+      // Internal TSA tokens from before external proofs were kept
       if (authority === 'internal-tsa') {
-        const proof = JSON.parse(block.externalTimestamp.token);
+        const proof = JSON.parse(token);
         return proof.blockHash === block.hash;
       }
       
@@ -313,15 +463,9 @@ export class QuantumBlock implements IBlock {
   // ============================================================================
 
   private sha256Sync(data: string): string {
-    // Simplified synchronous SHA-256 for block hashing
-    // In production, use crypto.subtle.digest for better security
-    let hash = 0;
-    for (let i = 0; i < data.length; i++) {
-      const char = data.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
-    }
-    return Math.abs(hash).toString(16).padStart(64, '0');
+    // Hex SHA-256 of the UTF-8 string, so block hashes and Merkle roots can
+    // be recomputed with any SHA-256 implementation
+    return crypto.SHA256(data).toString();
   }
 
   private bytesToHex(bytes: Uint8Array): string {
@@ -347,28 +491,26 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
   chain: QuantumBlock[];
   difficulty: number;
   pendingTransactions: IBlockData[];
-  private signingKeys: { publicKey: Uint8Array; secretKey: Uint8Array } | null;
+  private signingKey: ValidatorKey | null;
+  private timestamping: TimestampingOptions;
 
-  constructor(difficulty: number = 2) {
+  constructor(difficulty: number = 2, timestamping: TimestampingOptions = { method: 'opentimestamps' }) {
     this.chain = [];
     this.difficulty = difficulty;
     this.pendingTransactions = [];
-    this.signingKeys = null;
+    this.signingKey = null;
+    this.timestamping = timestamping;
     
     // Create genesis block
     this.createGenesisBlock();
   }
 
   /**
-   * Initialize signing keys for blockchain
+   * Load the signed-in account's registered validator key, which signs
+   * blocks, tree heads and evidence bundles
    */
   async initializeKeys(): Promise<void> {
-    const keys = ml_dsa65.keygen();
-    
-    this.signingKeys = { 
-      publicKey: keys.publicKey, 
-      secretKey: keys.secretKey 
-    };
+    this.signingKey = await loadValidatorKey();
   }
 
   /**
@@ -407,7 +549,7 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
    * Mine pending transactions into a new block
    */
   async minePendingTransactions(minerAddress: string): Promise<QuantumBlock> {
-    if (!this.signingKeys) {
+    if (!this.signingKey) {
       await this.initializeKeys();
     }
 
@@ -422,12 +564,12 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
     await block.mineBlock();
 
     // Sign block with ML-DSA
-    if (this.signingKeys) {
-      await block.signBlock(this.signingKeys.secretKey);
+    if (this.signingKey) {
+      await block.signBlock(this.signingKey.secretKey, this.signingKey.publicKey);
     }
 
     // Add external timestamp
-    await block.addExternalTimestamp();
+    await block.addExternalTimestamp(this.timestamping);
 
     // Add to chain
     this.chain.push(block);
@@ -462,13 +604,10 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
         return false;
       }
 
-      // Verify signature if present
-      if (currentBlock.signature && this.signingKeys) {
-        const isValid = QuantumBlock.verifyBlockSignature(
-          currentBlock,
-          this.signingKeys.publicKey
-        );
-        if (!isValid) {
+      // Verify signature if present, against its signer's registered key
+      if (currentBlock.signature) {
+        const publicKey = await this.registeredSignerKey(currentBlock);
+        if (!publicKey || !QuantumBlock.verifyBlockSignature(currentBlock, publicKey)) {
           console.error(`Invalid signature at block ${i}`);
           return false;
         }
@@ -478,6 +617,37 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
     return true;
   }
 
+  /**
+   * Registered key of the validator that signed a block, or null if the
+   * block names no signer or its key is not registered and active
+   */
+  private async registeredSignerKey(block: IBlock): Promise<Uint8Array | null> {
+    if (!block.signerPublicKey) return null;
+
+    try {
+      return await getValidatorKey(validatorKeyId(block.signerPublicKey));
+    } catch (error) {
+      console.error(`Validator key lookup failed for block ${block.index}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Upgrade every pending OpenTimestamps proof in the chain. Returns the
+   * number of blocks whose timestamp changed.
+   */
+  async upgradeTimestamps(trust: TimestampTrust = {}): Promise<number> {
+    let changed = 0;
+    for (const block of this.chain) {
+      try {
+        if (await block.upgradeExternalTimestamp(trust)) changed++;
+      } catch (error) {
+        console.error(`Error upgrading timestamp of block ${block.index}:`, error);
+      }
+    }
+    return changed;
+  }
+
   /**
    * Export blockchain to W3C Verifiable Credentials format
    */
@@ -509,6 +679,163 @@ export class EnhancedQuantumBlockchain implements IBlockchain {
     }));
   }
 
+  /**
+   * Export an evidence bundle of the whole chain, signed by this node's
+   * validator key. The bundle lists that key and the registered keys of
+   * the validators that signed its blocks, so auditors can pin them.
+   */
+  async exportEvidenceBundle(): Promise<IEvidenceBundle> {
+    const signer = await this.getSigner();
+
+    const blocks: IBlock[] = JSON.parse(JSON.stringify(this.chain));
+    const proofs: IEvidenceProof[] = [];
+    for (const block of blocks) {
+      const leafHashes = block.data.map(auditEventId);
+      for (let i = 0; i < leafHashes.length; i++) {
+        proofs.push({
+          blockIndex: block.index,
+          transactionIndex: i,
+          leafHash: leafHashes[i],
+          path: transactionMerklePath(leafHashes, i, transactionTreeOf(block))
+        });
+      }
+    }
+
+    const signers = [signer];
+    for (const block of blocks) {
+      if (!block.signerPublicKey || signers.some(s => s.publicKey === block.signerPublicKey)) continue;
+      const publicKey = await this.registeredSignerKey(block);
+      if (publicKey) {
+        signers.push({ keyId: validatorKeyId(block.signerPublicKey), algorithm: 'ML-DSA-65', publicKey: bytesToHex(publicKey) });
+      }
+    }
+
+    const manifest: IEvidenceManifest = {
+      format: EVIDENCE_BUNDLE_FORMAT,
+      version: EVIDENCE_BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      chain: {
+        length: blocks.length,
+        difficulty: this.difficulty,
+        genesisHash: blocks[0]?.hash ?? null,
+        headHash: blocks[blocks.length - 1]?.hash ?? null,
+        treeHash: await chainTreeHash(blocks.map(block => block.hash))
+      },
+      blocksHash: sha256Hex(JSON.stringify(blocks)),
+      proofsHash: sha256Hex(JSON.stringify(proofs)),
+      signers
+    };
+
+    const manifestHash = sha256Hex(JSON.stringify(manifest));
+    const signature = ml_dsa65.sign(
+      new TextEncoder().encode(manifestHash),
+      this.signingKey!.secretKey,
+      { context: asciiToBytes(EVIDENCE_SIGNATURE_CONTEXT) }
+    );
+
+    return {
+      manifest,
+      manifestHash,
+      signature: { keyId: signer.keyId, value: bytesToHex(signature) },
+      blocks,
+      proofs
+    };
+  }
+
+  /**
+   * The registered validator key audit event proofs and tree heads are
+   * signed with, for auditors to pin
+   */
+  async getSigner(): Promise<IEvidenceSigner> {
+    if (!this.signingKey) {
+      await this.initializeKeys();
+    }
+
+    return {
+      keyId: this.signingKey!.keyId,
+      algorithm: 'ML-DSA-65',
+      publicKey: bytesToHex(this.signingKey!.publicKey)
+    };
+  }
+
+  /**
+   * Inclusion proof for an audit event, or null until it is mined
+   */
+  async getAuditEventProof(eventId: string): Promise<IAuditEventProof | null> {
+    for (const block of this.chain) {
+      const leafHashes = block.data.map(auditEventId);
+      const index = leafHashes.indexOf(eventId);
+      if (index === -1) continue;
+
+      // The header signature vouches for the block, so it must be intact
+      if (block.hash !== block.calculateHash() || block.merkleRoot !== block.calculateMerkleRoot()) {
+        throw new Error(`Block ${block.index} does not match its hash`);
+      }
+
+      const header = {
+        index: block.index,
+        timestamp: block.timestamp,
+        previousHash: block.previousHash,
+        merkleRoot: block.merkleRoot,
+        merkleTree: block.merkleTree,
+        hash: block.hash
+      };
+      return {
+        eventId,
+        transaction: JSON.parse(JSON.stringify(block.data[index])),
+        transactionIndex: index,
+        path: transactionMerklePath(leafHashes, index, transactionTreeOf(block)),
+        header: { ...header, ...await this.signProofStatement(blockHeaderMessage(header)) }
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Sign the tree hash of the chain at a height, by default the current one
+   */
+  async getTreeHead(treeSize: number = this.chain.length): Promise<ISignedTreeHead> {
+    const rootHash = await chainTreeHash(this.blockHashes(treeSize));
+    return {
+      treeSize,
+      rootHash,
+      ...await this.signProofStatement(treeHeadMessage(treeSize, rootHash))
+    };
+  }
+
+  /**
+   * Consistency proof between two heights, by default from firstSize to
+   * the current one
+   */
+  async getConsistencyProof(firstSize: number, secondSize: number = this.chain.length): Promise<IConsistencyProof> {
+    if (firstSize > secondSize) {
+      throw new Error(`Height ${firstSize} is past height ${secondSize}`);
+    }
+
+    return {
+      first: await this.getTreeHead(firstSize),
+      second: await this.getTreeHead(secondSize),
+      proof: await chainConsistencyProof(this.blockHashes(secondSize), firstSize)
+    };
+  }
+
+  private blockHashes(treeSize: number): string[] {
+    if (!Number.isInteger(treeSize) || treeSize < 0 || treeSize > this.chain.length) {
+      throw new Error(`Height ${treeSize} is outside a chain of ${this.chain.length} blocks`);
+    }
+    return this.chain.slice(0, treeSize).map(block => block.hash);
+  }
+
+  private async signProofStatement(message: string): Promise<{ keyId: string; signature: string }> {
+    const { keyId } = await this.getSigner();
+    const signature = ml_dsa65.sign(
+      new TextEncoder().encode(message),
+      this.signingKey!.secretKey,
+      { context: asciiToBytes(AUDIT_PROOF_SIGNATURE_CONTEXT) }
+    );
+    return { keyId, signature: bytesToHex(signature) };
+  }
+
   /**
    * Export blockchain state to JSON
    */
@@ -603,6 +930,99 @@ export class BlockchainAuditExporter {
     return JSON.stringify(report, null, 2);
   }
 
+  /**
+   * Generate a signed evidence bundle for offline verification
+   */
+  static async generateEvidenceBundle(
+    blockchain: EnhancedQuantumBlockchain
+  ): Promise<string> {
+    const bundle = await blockchain.exportEvidenceBundle();
+    return JSON.stringify(bundle, null, 2);
+  }
+
+  /**
+   * Check an audit event proof without the chain: the event is the one
+   * named, it hashes up to the header's Merkle root, and the header is
+   * signed by one of the trusted keys, by default any registered validator
+   * key that is still active
+   */
+  static async verifyAuditEventProof(
+    proof: IAuditEventProof,
+    trustedSigners?: IEvidenceSigner[]
+  ): Promise<IProofVerificationResult> {
+    const errors: string[] = [];
+    const { transaction, path, header } = proof;
+
+    try {
+      const leafHash = auditEventId(transaction);
+      if (leafHash !== proof.eventId) {
+        errors.push('Transaction does not match the event id');
+      }
+      if (await rootFromTransactionPath(leafHash, path, transactionTreeOf(header)) !== header.merkleRoot) {
+        errors.push('Transaction is not in the block\'s Merkle tree');
+      }
+    } catch (error) {
+      errors.push(`Malformed proof: ${error}`);
+    }
+
+    if (!await this.verifyProofSignature(trustedSigners, header.keyId, blockHeaderMessage(header), header.signature)) {
+      errors.push('Block header is not signed by a trusted key');
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  /**
+   * Check that the chain at the second tree head extends the chain at the
+   * first. Auditors keep the last head they verified, such as the tree
+   * hash of an evidence bundle, and ask for a proof from it. Heads are
+   * checked against the trusted keys, by default the registered ones.
+   */
+  static async verifyConsistencyProof(
+    proof: IConsistencyProof,
+    trustedSigners?: IEvidenceSigner[]
+  ): Promise<IProofVerificationResult> {
+    const errors: string[] = [];
+    const { first, second } = proof;
+
+    for (const [name, head] of [['First', first], ['Second', second]] as const) {
+      if (!await this.verifyProofSignature(trustedSigners, head.keyId, treeHeadMessage(head.treeSize, head.rootHash), head.signature)) {
+        errors.push(`${name} tree head is not signed by a trusted key`);
+      }
+    }
+
+    if (!await verifyChainConsistency(first.treeSize, second.treeSize, first.rootHash, second.rootHash, proof.proof)) {
+      errors.push(`Chain at height ${second.treeSize} does not extend the chain at height ${first.treeSize}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  private static async verifyProofSignature(
+    trustedSigners: IEvidenceSigner[] | undefined,
+    keyId: string,
+    message: string,
+    signature: string
+  ): Promise<boolean> {
+    try {
+      // A signer counts only if its key id is the hash of its public key
+      const signer = trustedSigners?.find(s => s.keyId === keyId && validatorKeyId(s.publicKey) === keyId);
+      const publicKey = trustedSigners
+        ? signer && hexToBytes(signer.publicKey)
+        : await getValidatorKey(keyId);
+      if (!publicKey) return false;
+
+      return ml_dsa65.verify(
+        hexToBytes(signature),
+        new TextEncoder().encode(message),
+        publicKey,
+        { context: asciiToBytes(AUDIT_PROOF_SIGNATURE_CONTEXT) }
+      );
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Verify imported blockchain
    */
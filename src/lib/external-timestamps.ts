@@ -0,0 +1,869 @@
+/**
+ * External Timestamps for Audit Blocks
+ * Evidence from outside the system that a block existed at a point in time
+ *
+ * Features:
+ * - OpenTimestamps proofs, kept as .ots files while the calendars'
+ *   attestations are pending and upgraded once they are committed to Bitcoin
+ * - Verification of upgraded proofs against Bitcoin block headers from a
+ *   local header file, each checked for proof-of-work and linkage, so no
+ *   block explorer is trusted
+ * - An RFC 3161 time-stamp protocol client for deployments that use a
+ *   timestamping authority instead, accepting ML-DSA, RSA and ECDSA TSAs
+ *   whose certificates are pinned
+ * - LocalTimestampAuthority, an in-process RFC 3161 stand-in with an ML-DSA
+ *   certificate, for development and tests
+ */
+
+import { canUpgrade, read, submit, upgrade, verify, write } from '@lacrypta/typescript-opentimestamps';
+import type { Timestamp, Tree, Verifier } from '@lacrypta/typescript-opentimestamps';
+import { bytesToHex, bytesToNumberBE, concatBytes, equalBytes, hexToBytes } from '@noble/curves/utils.js';
+import {
+  Asn1,
+  KeyPair,
+  OID,
+  SignatureAlgorithm,
+  X509Certificate,
+  createCertificate,
+  der,
+  generateKeyPair,
+  parseDer,
+  randomSerialNumber,
+  readInteger,
+  readOid,
+  readTime,
+  signMessage,
+  verifyMessage
+} from './x509';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type TimestampMethod = 'opentimestamps' | 'rfc3161';
+
+/**
+ * - pending: submitted, waiting for a calendar to commit it to Bitcoin
+ * - anchored: committed to a Bitcoin block the local headers do not cover yet
+ * - verified: checked against a Bitcoin header or a pinned TSA certificate
+ * - failed: the proof does not hold for the block
+ */
+export type TimestampStatus = 'pending' | 'anchored' | 'verified' | 'failed';
+
+export interface TimestampingOptions {
+  method: TimestampMethod;
+  /** OpenTimestamps calendars; the library's defaults when absent */
+  calendarUrls?: string[];
+  tsaUrl?: string;
+  /** DER certificates of the TSAs whose tokens are accepted */
+  tsaCertificates?: Uint8Array[];
+  /** Used for RFC 3161 requests, e.g. a LocalTimestampAuthority's fetch */
+  fetch?: typeof fetch;
+}
+
+export interface TimestampTrust {
+  headers?: BitcoinHeaderStore;
+  tsaCertificates?: Uint8Array[];
+}
+
+export interface TimestampVerification {
+  status: TimestampStatus;
+  /** The Bitcoin block's time, or the TSA's genTime */
+  attestedAt?: Date;
+  bitcoinHeight?: number;
+  errors: string[];
+}
+
+export interface BitcoinBlockHeader {
+  height: number;
+  /** Hashes are hex in display order, as block explorers show them */
+  hash: string;
+  previousHash: string;
+  merkleRoot: string;
+  time: number;
+  bits: number;
+}
+
+export interface Rfc3161Timestamp {
+  /** Hex DER of the TimeStampToken */
+  token: string;
+  genTime: Date;
+  serialNumber: string;
+  policy: string;
+}
+
+interface SignerCertificate {
+  der: Uint8Array;
+  issuer: Uint8Array;
+  serialNumber: bigint;
+  notBefore: Date;
+  notAfter: Date;
+  spki: Asn1;
+  keyId?: string;
+}
+
+interface TimeStampToken {
+  /** DER of the TSTInfo the signer vouches for */
+  tstInfo: Uint8Array;
+  policy: string;
+  hashAlgorithm: string;
+  hashedMessage: Uint8Array;
+  serialNumber: bigint;
+  genTime: Date;
+  nonce?: bigint;
+  certificates: Uint8Array[];
+  signer: {
+    issuer?: Uint8Array;
+    serialNumber?: bigint;
+    keyId?: string;
+    digestAlgorithm: string;
+    /** Signed attributes re-tagged as the SET OF that was signed */
+    signedAttributes: Uint8Array;
+    attributes: Map<string, Asn1[]>;
+    signatureAlgorithm: string;
+    signature: Uint8Array;
+  };
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const HEADER_LENGTH = 80;
+
+// Bitcoin mainnet's proof-of-work limit in compact form
+const MAINNET_POW_LIMIT_BITS = 0x1d00ffff;
+
+const TSP_OID = {
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  sha256WithRsa: '1.2.840.113549.1.1.11',
+  sha384WithRsa: '1.2.840.113549.1.1.12',
+  sha512WithRsa: '1.2.840.113549.1.1.13',
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  ecdsaWithSha384: '1.2.840.10045.4.3.3',
+  ecdsaWithSha512: '1.2.840.10045.4.3.4',
+  p256: '1.2.840.10045.3.1.7',
+  p384: '1.3.132.0.34',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3'
+} as const;
+
+// RFC 5612's example enterprise number: no production TSA uses this policy
+const LOCAL_TSA_POLICY = '1.3.6.1.4.1.32473.1.1';
+
+type HashName = 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+const HASH_ALGORITHMS: Record<string, HashName> = {
+  [OID.sha256]: 'SHA-256',
+  [TSP_OID.sha384]: 'SHA-384',
+  [TSP_OID.sha512]: 'SHA-512'
+};
+
+const SIGNATURE_HASHES: Record<string, HashName> = {
+  [TSP_OID.sha256WithRsa]: 'SHA-256',
+  [TSP_OID.sha384WithRsa]: 'SHA-384',
+  [TSP_OID.sha512WithRsa]: 'SHA-512',
+  [TSP_OID.ecdsaWithSha256]: 'SHA-256',
+  [TSP_OID.ecdsaWithSha384]: 'SHA-384',
+  [TSP_OID.ecdsaWithSha512]: 'SHA-512'
+};
+
+const ML_DSA_SIGNATURES: Record<string, SignatureAlgorithm> = {
+  [OID.mlDsa44]: 'ML-DSA-44',
+  [OID.mlDsa65]: 'ML-DSA-65',
+  [OID.mlDsa87]: 'ML-DSA-87',
+  [OID.mlDsa65EcdsaP256Sha512]: 'MLDSA65-ECDSA-P256-SHA512'
+};
+
+const EC_CURVES: Record<string, { name: string; size: number }> = {
+  [TSP_OID.p256]: { name: 'P-256', size: 32 },
+  [TSP_OID.p384]: { name: 'P-384', size: 48 }
+};
+
+// PKIFailureInfo bits
+const BAD_ALG = 0;
+const BAD_DATA_FORMAT = 5;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function digest(algorithm: HashName, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+const reversedHex = (bytes: Uint8Array): string => bytesToHex(Uint8Array.from(bytes).reverse());
+
+function blockDigest(blockHash: string): Uint8Array {
+  if (!/^[0-9a-f]{64}$/.test(blockHash)) {
+    throw new Error('Block hash is not a hex SHA-256 digest');
+  }
+  return hexToBytes(blockHash);
+}
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// ============================================================================
+// Bitcoin Headers
+// ============================================================================
+
+function targetFromBits(bits: number): bigint {
+  if (bits & 0x00800000) throw new Error('Negative target');
+  const exponent = bits >>> 24;
+  const mantissa = BigInt(bits & 0x007fffff);
+  return exponent <= 3
+    ? mantissa >> BigInt(8 * (3 - exponent))
+    : mantissa << BigInt(8 * (exponent - 3));
+}
+
+function splitHeaderFile(file: Uint8Array | string): Uint8Array[] {
+  const text = typeof file === 'string'
+    ? file
+    : file.every(b => /[0-9a-fA-F\s#]/.test(String.fromCharCode(b)))
+      ? new TextDecoder().decode(file)
+      : null;
+
+  if (text === null) {
+    if (file.length % HEADER_LENGTH !== 0) {
+      throw new Error(`Header file is not a whole number of ${HEADER_LENGTH}-byte headers`);
+    }
+    const bytes = file as Uint8Array;
+    return Array.from({ length: bytes.length / HEADER_LENGTH }, (_, i) =>
+      bytes.subarray(i * HEADER_LENGTH, (i + 1) * HEADER_LENGTH)
+    );
+  }
+
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map((line, i) => {
+      if (!/^[0-9a-fA-F]{160}$/.test(line)) {
+        throw new Error(`Line ${i + 1} is not an 80-byte hex header`);
+      }
+      return hexToBytes(line.toLowerCase());
+    });
+}
+
+/**
+ * A contiguous run of Bitcoin block headers, e.g. exported from a node the
+ * operator runs. The file is the trust anchor for OpenTimestamps proofs:
+ * proof-of-work and linkage stop casual forgeries, not a miner.
+ */
+export class BitcoinHeaderStore {
+  private headers = new Map<number, BitcoinBlockHeader>();
+
+  private constructor(headers: BitcoinBlockHeader[]) {
+    for (const header of headers) {
+      this.headers.set(header.height, header);
+    }
+  }
+
+  /**
+   * Headers from raw 80-byte headers back to back, or one hex header per
+   * line, the first at startHeight. Throws unless every header meets its
+   * proof-of-work target and follows the one before it.
+   */
+  static async load(
+    file: Uint8Array | string,
+    startHeight: number,
+    options: { powLimitBits?: number } = {}
+  ): Promise<BitcoinHeaderStore> {
+    const powLimit = targetFromBits(options.powLimitBits ?? MAINNET_POW_LIMIT_BITS);
+    const headers: BitcoinBlockHeader[] = [];
+
+    for (const [i, raw] of splitHeaderFile(file).entries()) {
+      const height = startHeight + i;
+      const view = new DataView(raw.buffer, raw.byteOffset, HEADER_LENGTH);
+      const hash = await digest('SHA-256', await digest('SHA-256', raw));
+      const bits = view.getUint32(72, true);
+
+      let target: bigint;
+      try {
+        target = targetFromBits(bits);
+      } catch {
+        throw new Error(`Header ${height} has an invalid target`);
+      }
+      if (target === 0n || target > powLimit) {
+        throw new Error(`Header ${height} has a target above the proof-of-work limit`);
+      }
+      if (bytesToNumberBE(Uint8Array.from(hash).reverse()) > target) {
+        throw new Error(`Header ${height} does not meet its proof-of-work target`);
+      }
+
+      const header: BitcoinBlockHeader = {
+        height,
+        hash: reversedHex(hash),
+        previousHash: reversedHex(raw.subarray(4, 36)),
+        merkleRoot: reversedHex(raw.subarray(36, 68)),
+        time: view.getUint32(68, true),
+        bits
+      };
+      if (i > 0 && header.previousHash !== headers[i - 1].hash) {
+        throw new Error(`Header ${height} does not follow header ${height - 1}`);
+      }
+      headers.push(header);
+    }
+
+    return new BitcoinHeaderStore(headers);
+  }
+
+  get(height: number): BitcoinBlockHeader | undefined {
+    return this.headers.get(height);
+  }
+
+  get size(): number {
+    return this.headers.size;
+  }
+
+  get range(): { first: number; last: number } | null {
+    if (this.headers.size === 0) return null;
+    const heights = [...this.headers.keys()];
+    return { first: Math.min(...heights), last: Math.max(...heights) };
+  }
+
+  /**
+   * OpenTimestamps verifier for Bitcoin attestations these headers cover.
+   * Returns the block time, and throws when the Merkle root differs.
+   */
+  readonly verifier: Verifier = async (msg, leaf) => {
+    if (leaf.type !== 'bitcoin') return undefined;
+
+    const header = this.headers.get(leaf.height);
+    if (!header) return undefined;
+
+    // The attested message is the Merkle root in internal byte order
+    if (reversedHex(msg) !== header.merkleRoot) {
+      throw new Error(`Merkle root mismatch at Bitcoin block ${leaf.height}`);
+    }
+    return header.time;
+  };
+}
+
+// ============================================================================
+// OpenTimestamps
+// ============================================================================
+
+function bitcoinHeights(tree: Tree): number[] {
+  return [
+    ...tree.leaves.values().flatMap(leaf => (leaf.type === 'bitcoin' ? [leaf.height] : [])),
+    ...tree.edges.values().flatMap(subtree => bitcoinHeights(subtree))
+  ];
+}
+
+/**
+ * Submit a block hash to OpenTimestamps calendars. Returns the hex .ots
+ * proof, whose attestations stay pending until a calendar commits them to
+ * Bitcoin, usually within a few hours.
+ */
+export async function stampWithOpenTimestamps(blockHash: string, calendarUrls?: string[]): Promise<string> {
+  const { timestamp, errors } = await submit(
+    'sha256',
+    blockDigest(blockHash),
+    undefined,
+    calendarUrls?.map(url => new URL(url))
+  );
+
+  if (!canUpgrade(timestamp)) {
+    throw new Error(`No calendar accepted the block: ${errors.map(e => e.message).join('; ')}`);
+  }
+  return bytesToHex(write(timestamp));
+}
+
+/**
+ * Ask the calendars behind a proof's pending attestations for their Bitcoin
+ * attestations. Calendars that have not committed yet are reported in errors.
+ */
+export async function upgradeOpenTimestamp(token: string): Promise<{ token: string; upgraded: boolean; errors: string[] }> {
+  const timestamp = read(hexToBytes(token));
+  if (!canUpgrade(timestamp)) {
+    return { token, upgraded: false, errors: [] };
+  }
+
+  const result = await upgrade(timestamp);
+  const upgraded = bytesToHex(write(result.timestamp));
+  return {
+    token: upgraded,
+    upgraded: upgraded !== token,
+    errors: result.errors.map(e => e.message)
+  };
+}
+
+/**
+ * Check an OpenTimestamps proof for a block hash. Bitcoin attestations are
+ * checked against the local headers only; one outside them leaves the
+ * proof anchored rather than verified.
+ */
+export async function verifyOpenTimestamp(
+  blockHash: string,
+  token: string,
+  headers?: BitcoinHeaderStore
+): Promise<TimestampVerification> {
+  let timestamp: Timestamp;
+  try {
+    timestamp = read(hexToBytes(token));
+  } catch (error) {
+    return { status: 'failed', errors: [`Unreadable proof: ${errorMessage(error)}`] };
+  }
+
+  if (timestamp.fileHash.algorithm !== 'sha256' || bytesToHex(timestamp.fileHash.value) !== blockHash) {
+    return { status: 'failed', errors: ['Proof is for another block'] };
+  }
+
+  const heights = bitcoinHeights(timestamp.tree);
+  if (heights.length === 0) {
+    return canUpgrade(timestamp)
+      ? { status: 'pending', errors: [] }
+      : { status: 'failed', errors: ['Proof has no Bitcoin attestation'] };
+  }
+
+  const covered = headers ? heights.filter(height => headers.get(height)) : [];
+  if (!headers || covered.length === 0) {
+    const height = Math.min(...heights);
+    return { status: 'anchored', bitcoinHeight: height, errors: [`No local header for Bitcoin block ${height}`] };
+  }
+
+  const result = await verify(timestamp, { bitcoinHeaders: headers.verifier });
+  const errors = Object.values(result.errors).flat().map(e => e.message);
+  const times = Object.keys(result.attestations).map(Number);
+  if (errors.length > 0 || times.length === 0) {
+    return { status: 'failed', errors: errors.length > 0 ? errors : ['No attestation verified'] };
+  }
+
+  return {
+    status: 'verified',
+    attestedAt: new Date(Math.min(...times) * 1000),
+    bitcoinHeight: Math.min(...covered),
+    errors: []
+  };
+}
+
+// ============================================================================
+// RFC 3161
+// ============================================================================
+
+function readGeneralizedTime(node: Asn1): Date {
+  // TSAs may add fractional seconds, which certificates never carry
+  const match = node.tag === 0x18
+    ? /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(?:\.(\d{1,3})\d*)?Z$/.exec(new TextDecoder().decode(node.content))
+    : null;
+  if (!match) throw new Error('Unsupported genTime encoding');
+
+  return new Date(Date.UTC(
+    Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+    Number(match[4]), Number(match[5]), Number(match[6]),
+    Number((match[7] ?? '0').padEnd(3, '0'))
+  ));
+}
+
+function timeStampRequest(hashedMessage: Uint8Array, nonce: string): Uint8Array {
+  return der.sequence(
+    der.integer(1),
+    der.sequence(der.sequence(der.oid(OID.sha256), der.null()), der.octetString(hashedMessage)),
+    der.integer(nonce),
+    der.boolean(true)
+  );
+}
+
+function readTimeStampResponse(bytes: Uint8Array): Uint8Array {
+  const [statusInfo, token] = parseDer(bytes).children;
+  const status = Number(readInteger(statusInfo.children[0]));
+
+  // granted or grantedWithMods
+  if (status !== 0 && status !== 1) {
+    const text = statusInfo.children[1]?.tag === 0x30
+      ? statusInfo.children[1].children.map(s => new TextDecoder().decode(s.content)).join(' ')
+      : '';
+    throw new Error(`TSA rejected the request (status ${status}${text ? `: ${text}` : ''})`);
+  }
+  if (!token) throw new Error('TSA response has no time-stamp token');
+  return Uint8Array.from(token.der);
+}
+
+function parseTimeStampToken(bytes: Uint8Array): TimeStampToken {
+  const contentInfo = parseDer(bytes);
+  if (readOid(contentInfo.children[0]) !== TSP_OID.signedData) {
+    throw new Error('Token is not CMS SignedData');
+  }
+
+  const [, , encapsulated, ...rest] = contentInfo.children[1].children[0].children;
+  if (readOid(encapsulated.children[0]) !== TSP_OID.tstInfo) {
+    throw new Error('Token does not contain a TSTInfo');
+  }
+  const tstInfo = encapsulated.children[1].children[0].content;
+  const certificates = rest.find(node => node.tag === 0xa0)?.children.map(node => node.der) ?? [];
+
+  const signerInfos = rest[rest.length - 1];
+  if (signerInfos?.tag !== 0x31 || signerInfos.children.length !== 1) {
+    throw new Error('Token must have exactly one signer');
+  }
+
+  const [, sid, digestAlgorithm, signedAttributes, signatureAlgorithm, signature] = signerInfos.children[0].children;
+  if (signedAttributes?.tag !== 0xa0) {
+    throw new Error('Signer has no signed attributes');
+  }
+  const attributes = new Map(signedAttributes.children.map(
+    attribute => [readOid(attribute.children[0]), attribute.children[1].children] as [string, Asn1[]]
+  ));
+
+  const [, policy, imprint, serialNumber, genTime, ...optional] = parseDer(tstInfo).children;
+  const nonce = optional.find(node => node.tag === 0x02);
+
+  return {
+    tstInfo,
+    policy: readOid(policy),
+    hashAlgorithm: readOid(imprint.children[0].children[0]),
+    hashedMessage: imprint.children[1].content,
+    serialNumber: readInteger(serialNumber),
+    genTime: readGeneralizedTime(genTime),
+    nonce: nonce ? readInteger(nonce) : undefined,
+    certificates,
+    signer: {
+      ...(sid.tag === 0x30
+        ? { issuer: sid.children[0].der, serialNumber: readInteger(sid.children[1]) }
+        : { keyId: bytesToHex(sid.content) }),
+      digestAlgorithm: readOid(digestAlgorithm.children[0]),
+      signedAttributes: concatBytes(Uint8Array.of(0x31), signedAttributes.der.subarray(1)),
+      attributes,
+      signatureAlgorithm: readOid(signatureAlgorithm.children[0]),
+      signature: signature.content
+    }
+  };
+}
+
+/**
+ * The fields of a certificate a TSA signature needs, for any key algorithm.
+ * Trust comes from pinning, not from a path to a CA.
+ */
+function readSignerCertificate(bytes: Uint8Array): SignerCertificate {
+  const tbs = parseDer(bytes).children[0];
+  const fields = tbs.children[0].tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [serialNumber, , issuer, validity, , spki, ...rest] = fields;
+
+  const extensions = rest.find(node => node.tag === 0xa3)?.children[0]?.children ?? [];
+  const keyIdExtension = extensions.find(extension => readOid(extension.children[0]) === OID.subjectKeyIdentifier);
+  const keyIdValue = keyIdExtension?.children[keyIdExtension.children.length - 1];
+
+  return {
+    der: bytes,
+    issuer: issuer.der,
+    serialNumber: readInteger(serialNumber),
+    notBefore: readTime(validity.children[0]),
+    notAfter: readTime(validity.children[1]),
+    spki,
+    keyId: keyIdValue ? bytesToHex(parseDer(keyIdValue.content).content) : undefined
+  };
+}
+
+function findSignerCertificate(token: TimeStampToken, candidates: Uint8Array[]): SignerCertificate | null {
+  const { signer } = token;
+  for (const candidate of candidates) {
+    let certificate: SignerCertificate;
+    try {
+      certificate = readSignerCertificate(candidate);
+    } catch {
+      continue;
+    }
+
+    const matches = signer.keyId
+      ? certificate.keyId === signer.keyId
+      : !!signer.issuer && equalBytes(certificate.issuer, signer.issuer) && certificate.serialNumber === signer.serialNumber;
+    if (matches) return certificate;
+  }
+  return null;
+}
+
+// WebCrypto takes ECDSA signatures as r || s rather than DER
+function ecdsaRawSignature(signature: Uint8Array, size: number): Uint8Array {
+  const [r, s] = parseDer(signature).children;
+  const fixed = (node: Asn1) => {
+    const value = node.content.subarray(Math.max(0, node.content.length - size));
+    return concatBytes(new Uint8Array(size - value.length), value);
+  };
+  return concatBytes(fixed(r), fixed(s));
+}
+
+async function verifySignerSignature(
+  certificate: SignerCertificate,
+  token: TimeStampToken
+): Promise<boolean> {
+  const { signatureAlgorithm, digestAlgorithm, signedAttributes, signature } = token.signer;
+  const publicKey = certificate.spki.children[1].content.subarray(1);
+
+  const mlDsa = ML_DSA_SIGNATURES[signatureAlgorithm];
+  if (mlDsa) {
+    return verifyMessage(mlDsa, publicKey, signedAttributes, signature);
+  }
+
+  const hash = SIGNATURE_HASHES[signatureAlgorithm] ?? HASH_ALGORITHMS[digestAlgorithm];
+  const keyAlgorithm = certificate.spki.children[0].children;
+  if (!hash) return false;
+
+  try {
+    if (readOid(keyAlgorithm[0]) === TSP_OID.rsaEncryption) {
+      const key = await crypto.subtle.importKey('spki', certificate.spki.der, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']);
+      return await crypto.subtle.verify('RSASSA-PKCS1-v1_5', key, signature, signedAttributes);
+    }
+    if (readOid(keyAlgorithm[0]) === TSP_OID.ecPublicKey) {
+      const curve = EC_CURVES[readOid(keyAlgorithm[1])];
+      if (!curve) return false;
+      const key = await crypto.subtle.importKey('spki', certificate.spki.der, { name: 'ECDSA', namedCurve: curve.name }, false, ['verify']);
+      return await crypto.subtle.verify({ name: 'ECDSA', hash }, key, ecdsaRawSignature(signature, curve.size), signedAttributes);
+    }
+  } catch {
+    return false;
+  }
+  return false;
+}
+
+/**
+ * Check an RFC 3161 token for a block hash: the imprint, the signed
+ * attributes, and the signature by one of the pinned TSA certificates,
+ * valid at genTime. A nonce, when given, must match the request's.
+ */
+export async function verifyRfc3161Timestamp(
+  blockHash: string,
+  token: string,
+  tsaCertificates: Uint8Array[],
+  nonce?: string
+): Promise<TimestampVerification> {
+  let parsed: TimeStampToken;
+  try {
+    parsed = parseTimeStampToken(hexToBytes(token));
+  } catch (error) {
+    return { status: 'failed', errors: [`Unreadable token: ${errorMessage(error)}`] };
+  }
+
+  const errors: string[] = [];
+  if (parsed.hashAlgorithm !== OID.sha256 || bytesToHex(parsed.hashedMessage) !== blockHash) {
+    errors.push('Token is for another block');
+  }
+  if (nonce !== undefined && parsed.nonce !== BigInt(`0x${nonce}`)) {
+    errors.push('Nonce does not match the request');
+  }
+
+  const { attributes, digestAlgorithm } = parsed.signer;
+  const contentType = attributes.get(TSP_OID.contentType)?.[0];
+  if (!contentType || readOid(contentType) !== TSP_OID.tstInfo) {
+    errors.push('Signed content type is not TSTInfo');
+  }
+  const messageDigest = attributes.get(TSP_OID.messageDigest)?.[0];
+  const digestName = HASH_ALGORITHMS[digestAlgorithm];
+  if (!messageDigest || !digestName || !equalBytes(await digest(digestName, parsed.tstInfo), messageDigest.content)) {
+    errors.push('Message digest does not match the TSTInfo');
+  }
+
+  const certificate = findSignerCertificate(parsed, [...parsed.certificates, ...tsaCertificates]);
+  if (!certificate) {
+    errors.push('TSA certificate not found');
+  } else {
+    if (!tsaCertificates.some(trusted => equalBytes(trusted, certificate.der))) {
+      errors.push('TSA certificate is not trusted');
+    }
+    if (parsed.genTime < certificate.notBefore || parsed.genTime > certificate.notAfter) {
+      errors.push('TSA certificate was not valid at genTime');
+    }
+
+    // ESSCertIDv2 binds the signature to one certificate (RFC 5816)
+    const essCertId = attributes.get(TSP_OID.signingCertificateV2)?.[0]?.children[0]?.children[0];
+    if (essCertId) {
+      const explicitHash = essCertId.children[0].tag === 0x30;
+      const hashName = explicitHash ? HASH_ALGORITHMS[readOid(essCertId.children[0].children[0])] : 'SHA-256';
+      const certHash = essCertId.children[explicitHash ? 1 : 0];
+      if (!hashName || !equalBytes(await digest(hashName, certificate.der), certHash.content)) {
+        errors.push('Signing certificate attribute names another certificate');
+      }
+    }
+
+    if (!await verifySignerSignature(certificate, parsed)) {
+      errors.push('Invalid TSA signature');
+    }
+  }
+
+  return errors.length > 0
+    ? { status: 'failed', errors }
+    : { status: 'verified', attestedAt: parsed.genTime, errors };
+}
+
+/**
+ * Request an RFC 3161 timestamp for a block hash. The token is checked
+ * against the pinned TSA certificates before it is returned.
+ */
+export async function requestRfc3161Timestamp(
+  blockHash: string,
+  tsaUrl: string,
+  options: { tsaCertificates?: Uint8Array[]; fetch?: typeof fetch } = {}
+): Promise<Rfc3161Timestamp> {
+  const tsaCertificates = options.tsaCertificates ?? [];
+  if (tsaCertificates.length === 0) {
+    throw new Error('No TSA certificate is pinned');
+  }
+
+  const nonce = bytesToHex(crypto.getRandomValues(new Uint8Array(8)));
+  const response = await (options.fetch ?? fetch)(tsaUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/timestamp-query',
+      Accept: 'application/timestamp-reply'
+    },
+    body: timeStampRequest(blockDigest(blockHash), nonce)
+  });
+  if (!response.ok) {
+    throw new Error(`TSA returned HTTP ${response.status}`);
+  }
+
+  const token = bytesToHex(readTimeStampResponse(new Uint8Array(await response.arrayBuffer())));
+  const verification = await verifyRfc3161Timestamp(blockHash, token, tsaCertificates, nonce);
+  if (verification.status !== 'verified') {
+    throw new Error(`Invalid timestamp token: ${verification.errors.join('; ')}`);
+  }
+
+  const parsed = parseTimeStampToken(hexToBytes(token));
+  return {
+    token,
+    genTime: parsed.genTime,
+    serialNumber: parsed.serialNumber.toString(16),
+    policy: parsed.policy
+  };
+}
+
+/**
+ * Check a stored proof of either kind
+ */
+export async function verifyTimestampProof(
+  method: TimestampMethod,
+  blockHash: string,
+  token: string,
+  trust: TimestampTrust = {}
+): Promise<TimestampVerification> {
+  return method === 'rfc3161'
+    ? verifyRfc3161Timestamp(blockHash, token, trust.tsaCertificates ?? [])
+    : verifyOpenTimestamp(blockHash, token, trust.headers);
+}
+
+// ============================================================================
+// Local Timestamp Authority
+// ============================================================================
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function rejection(failureBit: number, text: string): Uint8Array {
+  return der.sequence(der.sequence(
+    der.integer(2),
+    der.sequence(der.utf8String(text)),
+    der.bitString(Uint8Array.of(0x80 >> failureBit), 7 - failureBit)
+  ));
+}
+
+/**
+ * An RFC 3161 TSA in process, signing with ML-DSA. Pass its fetch to the
+ * client and its certificate as the pinned TSA certificate.
+ */
+export class LocalTimestampAuthority {
+  private constructor(
+    private keys: KeyPair & { algorithm: SignatureAlgorithm },
+    readonly certificate: X509Certificate
+  ) {}
+
+  static async create(
+    name: string = 'Local Timestamp Authority',
+    algorithm: SignatureAlgorithm = 'ML-DSA-65'
+  ): Promise<LocalTimestampAuthority> {
+    const keys = { ...generateKeyPair(algorithm), algorithm };
+    const now = Date.now();
+
+    const certificate = await createCertificate({
+      serialNumber: randomSerialNumber(),
+      subject: name,
+      notBefore: new Date(now - 5 * 60 * 1000),
+      notAfter: new Date(now + 365 * 24 * 60 * 60 * 1000),
+      keyAlgorithm: algorithm,
+      publicKey: keys.publicKey,
+      keyUsage: ['digitalSignature', 'nonRepudiation']
+    }, { name, algorithm, publicKey: keys.publicKey, secretKey: keys.secretKey });
+
+    return new LocalTimestampAuthority(keys, certificate);
+  }
+
+  /**
+   * Answer a DER TimeStampReq with a DER TimeStampResp
+   */
+  async respond(request: Uint8Array): Promise<Uint8Array> {
+    let imprint: Asn1;
+    let nonce: Asn1 | undefined;
+    let certReq: boolean;
+    try {
+      const [, messageImprint, ...optional] = parseDer(request).children;
+      imprint = messageImprint;
+      nonce = optional.find(node => node.tag === 0x02);
+      certReq = optional.some(node => node.tag === 0x01 && node.content[0] !== 0);
+      if (readOid(imprint.children[0].children[0]) !== OID.sha256 || imprint.children[1].content.length !== 32) {
+        return rejection(BAD_ALG, 'Only SHA-256 imprints are accepted');
+      }
+    } catch {
+      return rejection(BAD_DATA_FORMAT, 'Malformed TimeStampReq');
+    }
+
+    const tstInfo = der.sequence(
+      der.integer(1),
+      der.oid(LOCAL_TSA_POLICY),
+      imprint.der,
+      der.integer(randomSerialNumber()),
+      der.generalizedTime(new Date()),
+      ...(nonce ? [nonce.der] : [])
+    );
+
+    // DER orders a SET OF by encoding
+    const signedAttributes = [
+      der.sequence(der.oid(TSP_OID.contentType), der.set(der.oid(TSP_OID.tstInfo))),
+      der.sequence(der.oid(TSP_OID.messageDigest), der.set(der.octetString(await digest('SHA-256', tstInfo)))),
+      der.sequence(
+        der.oid(TSP_OID.signingCertificateV2),
+        der.set(der.sequence(der.sequence(der.sequence(der.octetString(await digest('SHA-256', this.certificate.der))))))
+      )
+    ].sort(compareBytes);
+    const signature = await signMessage(this.keys.algorithm, this.keys.secretKey, der.set(...signedAttributes));
+    const signatureOid = Object.keys(ML_DSA_SIGNATURES).find(oid => ML_DSA_SIGNATURES[oid] === this.keys.algorithm)!;
+
+    const signerInfo = der.sequence(
+      der.integer(1),
+      der.sequence(this.certificate.issuerDer, der.integer(this.certificate.serialNumber)),
+      der.sequence(der.oid(OID.sha256)),
+      der.implicit(0, concatBytes(...signedAttributes), true),
+      der.sequence(der.oid(signatureOid)),
+      der.octetString(signature)
+    );
+    const signedData = der.sequence(
+      der.integer(3),
+      der.set(der.sequence(der.oid(OID.sha256))),
+      der.sequence(der.oid(TSP_OID.tstInfo), der.explicit(0, der.octetString(tstInfo))),
+      ...(certReq ? [der.implicit(0, this.certificate.der, true)] : []),
+      der.set(signerInfo)
+    );
+
+    return der.sequence(
+      der.sequence(der.integer(0)),
+      der.sequence(der.oid(TSP_OID.signedData), der.explicit(0, signedData))
+    );
+  }
+
+  /** A fetch that answers every request itself, for requestRfc3161Timestamp */
+  readonly fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const request = new Uint8Array(await new Response(init?.body).arrayBuffer());
+    return new Response(await this.respond(request), {
+      status: 200,
+      headers: { 'Content-Type': 'application/timestamp-reply' }
+    });
+  };
+}
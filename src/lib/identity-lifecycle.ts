@@ -0,0 +1,704 @@
+/**
+ * Identity Lifecycle Engine (Joiner / Mover / Leaver)
+ *
+ * Runs onboarding, role change and offboarding as multi-step workflows
+ * recorded in identity_lifecycle_events.
+ *
+ * Features:
+ * - Each step's status, result and error stored in workflow_data
+ * - Failed workflows resume from the first unfinished step
+ * - Optional approval before a workflow runs
+ * - Offboarding revokes sessions, API keys, JIT grants, privileged sessions,
+ *   group memberships and quantum permissions
+ * - Residual access report for leavers that still hold credentials or grants
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SystemRole = Database['public']['Enums']['system_role'];
+export type LifecycleEventType = 'joiner' | 'mover' | 'leaver';
+export type LifecycleStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+export type LifecycleTrigger = 'manual' | 'automated' | 'scheduled' | 'policy';
+export type StepStatus = 'pending' | 'completed' | 'failed' | 'skipped';
+
+export type LifecycleStepId =
+  | 'enable_account'
+  | 'assign_role'
+  | 'add_group_memberships'
+  | 'grant_quantum_permissions'
+  | 'remove_group_memberships'
+  | 'disable_account'
+  | 'revoke_sessions'
+  | 'disable_api_keys'
+  | 'expire_jit_access'
+  | 'end_privileged_sessions'
+  | 'revoke_quantum_permissions';
+
+export interface JoinerParams {
+  role?: SystemRole;
+  groupIds?: string[];
+  quantumPermissions?: string[];
+  enableAccount?: boolean; // re-hire of a previously disabled account
+}
+
+export interface MoverParams {
+  role?: SystemRole;
+  addGroupIds?: string[];
+  removeGroupIds?: string[];
+  expireJitAccess?: boolean; // defaults to true: grants from the old position should not carry over
+  revokeQuantumPermissions?: boolean;
+}
+
+export interface LeaverParams {
+  reason: string;
+  disableAccount?: boolean; // defaults to true
+}
+
+export type LifecycleParams = JoinerParams | MoverParams | LeaverParams;
+
+export interface WorkflowStep {
+  id: LifecycleStepId;
+  name: string;
+  status: StepStatus;
+  attempts: number;
+  started_at?: string;
+  completed_at?: string;
+  result?: Record<string, unknown>;
+  error?: string;
+}
+
+export interface WorkflowData {
+  params: LifecycleParams;
+  steps: WorkflowStep[];
+}
+
+export interface LifecycleWorkflow {
+  id: string;
+  user_id: string;
+  event_type: LifecycleEventType;
+  event_status: LifecycleStatus;
+  triggered_by: LifecycleTrigger;
+  approver_id: string | null;
+  workflow_data: WorkflowData;
+  metadata: Record<string, unknown> | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkflowRunResult {
+  success: boolean;
+  workflowId: string;
+  status: LifecycleStatus;
+  completedSteps: number;
+  failedStep?: LifecycleStepId;
+  message: string;
+}
+
+export interface ResidualAccess {
+  userId: string;
+  email: string;
+  disabledAt: string;
+  activeSessions: number;
+  activeApiKeys: number;
+  activeJitGrants: number;
+  openPrivilegedSessions: number;
+  groupMemberships: number;
+  activeQuantumPermissions: number;
+}
+
+const STEP_NAMES: Record<LifecycleStepId, string> = {
+  enable_account: 'Re-enable account',
+  assign_role: 'Assign role',
+  add_group_memberships: 'Add group memberships',
+  grant_quantum_permissions: 'Grant quantum permissions',
+  remove_group_memberships: 'Remove group memberships',
+  disable_account: 'Disable account',
+  revoke_sessions: 'Revoke user sessions',
+  disable_api_keys: 'Disable API keys',
+  expire_jit_access: 'Expire JIT access',
+  end_privileged_sessions: 'End privileged sessions',
+  revoke_quantum_permissions: 'Revoke quantum permissions'
+};
+
+// A run that has not touched its workflow for this long is treated as abandoned
+const STALE_RUN_MINUTES = 15;
+
+// ============================================================================
+// Identity Lifecycle Engine
+// ============================================================================
+
+export class IdentityLifecycleEngine {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  /**
+   * Build the ordered step list for a workflow
+   */
+  static planSteps(eventType: LifecycleEventType, params: LifecycleParams): WorkflowStep[] {
+    const ids: LifecycleStepId[] = [];
+
+    if (eventType === 'joiner') {
+      const joiner = params as JoinerParams;
+      if (joiner.enableAccount) ids.push('enable_account');
+      if (joiner.role) ids.push('assign_role');
+      if (joiner.groupIds?.length) ids.push('add_group_memberships');
+      if (joiner.quantumPermissions?.length) ids.push('grant_quantum_permissions');
+    } else if (eventType === 'mover') {
+      const mover = params as MoverParams;
+      if (mover.role) ids.push('assign_role');
+      if (mover.removeGroupIds?.length) ids.push('remove_group_memberships');
+      if (mover.addGroupIds?.length) ids.push('add_group_memberships');
+      if (mover.expireJitAccess !== false) ids.push('expire_jit_access');
+      if (mover.revokeQuantumPermissions) ids.push('revoke_quantum_permissions');
+    } else {
+      // Disable first so no new sessions or keys can be created mid-offboarding
+      const leaver = params as LeaverParams;
+      if (leaver.disableAccount !== false) ids.push('disable_account');
+      ids.push(
+        'revoke_sessions',
+        'disable_api_keys',
+        'expire_jit_access',
+        'end_privileged_sessions',
+        'remove_group_memberships',
+        'revoke_quantum_permissions'
+      );
+    }
+
+    return ids.map(id => ({ id, name: STEP_NAMES[id], status: 'pending', attempts: 0 }));
+  }
+
+  /**
+   * Start a lifecycle workflow. Runs immediately unless approval is required.
+   */
+  async startWorkflow(
+    userId: string,
+    eventType: LifecycleEventType,
+    params: LifecycleParams,
+    actorId: string,
+    options: { triggeredBy?: LifecycleTrigger; requireApproval?: boolean; metadata?: Record<string, unknown> } = {}
+  ): Promise<WorkflowRunResult | null> {
+    try {
+      const steps = IdentityLifecycleEngine.planSteps(eventType, params);
+      if (steps.length === 0) {
+        throw new Error('Workflow has no steps to run');
+      }
+
+      const { data, error } = await supabase
+        .from('identity_lifecycle_events')
+        .insert({
+          user_id: userId,
+          event_type: eventType,
+          event_status: 'pending',
+          triggered_by: options.triggeredBy || 'manual',
+          workflow_data: { params, steps } as unknown as Json,
+          metadata: { ...options.metadata, initiated_by: actorId, requires_approval: !!options.requireApproval } as Json
+        })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'LIFECYCLE_WORKFLOW_STARTED', 'identity_lifecycle_events', {
+          workflowId: data.id,
+          userId,
+          eventType,
+          steps: steps.map(s => s.id)
+        });
+      }
+
+      if (options.requireApproval) {
+        return {
+          success: true,
+          workflowId: data.id,
+          status: 'pending',
+          completedSteps: 0,
+          message: 'Workflow is awaiting approval'
+        };
+      }
+
+      return await this.runWorkflow(data.id, actorId);
+    } catch (error) {
+      console.error('Error starting lifecycle workflow:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Approve a pending workflow and run it
+   */
+  async approveWorkflow(workflowId: string, approverId: string): Promise<WorkflowRunResult | null> {
+    const { error } = await supabase
+      .from('identity_lifecycle_events')
+      .update({ approver_id: approverId })
+      .eq('id', workflowId)
+      .eq('event_status', 'pending');
+
+    if (error) {
+      console.error('Error approving lifecycle workflow:', error);
+      return null;
+    }
+
+    return this.runWorkflow(workflowId, approverId);
+  }
+
+  /**
+   * Run (or resume) a workflow. Completed steps are skipped, so a failed
+   * workflow picks up at the step that failed.
+   */
+  async runWorkflow(workflowId: string, actorId: string): Promise<WorkflowRunResult> {
+    const workflow = await this.getWorkflow(workflowId);
+    if (!workflow) {
+      return { success: false, workflowId, status: 'failed', completedSteps: 0, message: 'Workflow not found' };
+    }
+
+    if (workflow.event_status === 'completed') {
+      return {
+        success: true,
+        workflowId,
+        status: 'completed',
+        completedSteps: workflow.workflow_data.steps.length,
+        message: 'Workflow already completed'
+      };
+    }
+
+    if (workflow.metadata?.requires_approval && !workflow.approver_id) {
+      return { success: false, workflowId, status: 'pending', completedSteps: 0, message: 'Workflow is awaiting approval' };
+    }
+
+    if (!(await this.claimWorkflow(workflow))) {
+      return {
+        success: false,
+        workflowId,
+        status: 'in_progress',
+        completedSteps: workflow.workflow_data.steps.filter(s => s.status === 'completed').length,
+        message: 'Workflow is already running'
+      };
+    }
+
+    const steps = workflow.workflow_data.steps;
+    let failedStep: WorkflowStep | undefined;
+
+    for (const step of steps) {
+      if (step.status === 'completed' || step.status === 'skipped') continue;
+
+      step.attempts++;
+      step.started_at = new Date().toISOString();
+
+      try {
+        step.result = await this.executeStep(step.id, workflow, actorId);
+        step.status = 'completed';
+        step.completed_at = new Date().toISOString();
+        delete step.error;
+      } catch (error) {
+        step.status = 'failed';
+        step.error = error instanceof Error ? error.message : String(error);
+        failedStep = step;
+      }
+
+      // Persist after every step so a crash or failure can be resumed
+      await this.saveProgress(workflow, failedStep ? 'failed' : 'in_progress');
+      if (failedStep) break;
+    }
+
+    const completedSteps = steps.filter(s => s.status === 'completed').length;
+
+    if (failedStep) {
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'LIFECYCLE_WORKFLOW_FAILED', 'identity_lifecycle_events', {
+          workflowId,
+          userId: workflow.user_id,
+          eventType: workflow.event_type,
+          failedStep: failedStep.id,
+          error: failedStep.error
+        });
+      }
+
+      return {
+        success: false,
+        workflowId,
+        status: 'failed',
+        completedSteps,
+        failedStep: failedStep.id,
+        message: `${failedStep.name} failed: ${failedStep.error}`
+      };
+    }
+
+    await this.saveProgress(workflow, 'completed');
+
+    if (this.blockchain) {
+      await this.blockchain.logAuditEvent(actorId, 'LIFECYCLE_WORKFLOW_COMPLETED', 'identity_lifecycle_events', {
+        workflowId,
+        userId: workflow.user_id,
+        eventType: workflow.event_type,
+        results: Object.fromEntries(steps.map(s => [s.id, s.result]))
+      });
+    }
+
+    return {
+      success: true,
+      workflowId,
+      status: 'completed',
+      completedSteps,
+      message: `${workflow.event_type} workflow completed (${completedSteps} steps)`
+    };
+  }
+
+  /**
+   * Resume a failed or abandoned workflow from its first unfinished step
+   */
+  async resumeWorkflow(workflowId: string, actorId: string): Promise<WorkflowRunResult> {
+    return this.runWorkflow(workflowId, actorId);
+  }
+
+  /**
+   * Skip a failed step (e.g. a resource that no longer exists) so the rest can run
+   */
+  async skipStep(workflowId: string, stepId: LifecycleStepId, actorId: string): Promise<boolean> {
+    const workflow = await this.getWorkflow(workflowId);
+    const step = workflow?.workflow_data.steps.find(s => s.id === stepId);
+    if (!workflow || !step || step.status === 'completed') return false;
+
+    step.status = 'skipped';
+    step.result = { skipped_by: actorId, skipped_at: new Date().toISOString() };
+    await this.saveProgress(workflow, workflow.event_status);
+
+    if (this.blockchain) {
+      await this.blockchain.logAuditEvent(actorId, 'LIFECYCLE_STEP_SKIPPED', 'identity_lifecycle_events', {
+        workflowId,
+        userId: workflow.user_id,
+        stepId
+      });
+    }
+
+    return true;
+  }
+
+  async getWorkflow(workflowId: string): Promise<LifecycleWorkflow | null> {
+    const { data, error } = await supabase
+      .from('identity_lifecycle_events')
+      .select('*')
+      .eq('id', workflowId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lifecycle workflow:', error);
+      return null;
+    }
+
+    return data ? this.toWorkflow(data) : null;
+  }
+
+  async getWorkflows(filters: { userId?: string; status?: LifecycleStatus; limit?: number } = {}): Promise<LifecycleWorkflow[]> {
+    let query = supabase
+      .from('identity_lifecycle_events')
+      .select('*')
+      .in('event_type', ['joiner', 'mover', 'leaver'])
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+    if (filters.status) query = query.eq('event_status', filters.status);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching lifecycle workflows:', error);
+      return [];
+    }
+
+    // Events recorded without steps (e.g. older directory sync entries) are not workflows
+    return (data || [])
+      .map(row => this.toWorkflow(row))
+      .filter(workflow => Array.isArray(workflow.workflow_data.steps));
+  }
+
+  /**
+   * Find disabled accounts that still hold sessions, keys or grants
+   */
+  async findResidualAccess(): Promise<ResidualAccess[]> {
+    const { data: disabled, error } = await supabase
+      .from('profiles')
+      .select('user_id, email, deleted_at')
+      .not('deleted_at', 'is', null);
+
+    if (error) {
+      console.error('Error fetching disabled accounts:', error);
+      return [];
+    }
+
+    const userIds = (disabled || []).map(p => p.user_id);
+    if (userIds.length === 0) return [];
+
+    const now = new Date().toISOString();
+    const [sessions, apiKeys, jit, privileged, memberships, quantum] = await Promise.all([
+      supabase.from('user_sessions').select('user_id').in('user_id', userIds).eq('is_active', true),
+      supabase.from('user_api_keys').select('user_id').in('user_id', userIds).eq('is_active', true),
+      supabase.from('jit_access_sessions').select('user_id').in('user_id', userIds)
+        .in('status', ['pending', 'approved', 'active']).gt('expires_at', now),
+      supabase.from('privileged_sessions').select('user_id').in('user_id', userIds).is('session_end', null),
+      supabase.from('user_group_memberships').select('user_id').in('user_id', userIds),
+      supabase.from('quantum_permissions').select('user_id').in('user_id', userIds).eq('is_active', true)
+    ]);
+
+    const countBy = (rows: { user_id: string | null }[] | null) => {
+      const counts = new Map<string, number>();
+      for (const row of rows || []) {
+        if (row.user_id) counts.set(row.user_id, (counts.get(row.user_id) || 0) + 1);
+      }
+      return counts;
+    };
+
+    const sessionCounts = countBy(sessions.data);
+    const apiKeyCounts = countBy(apiKeys.data);
+    const jitCounts = countBy(jit.data);
+    const privilegedCounts = countBy(privileged.data);
+    const membershipCounts = countBy(memberships.data);
+    const quantumCounts = countBy(quantum.data);
+
+    return (disabled || [])
+      .map(profile => ({
+        userId: profile.user_id,
+        email: profile.email,
+        disabledAt: profile.deleted_at as string,
+        activeSessions: sessionCounts.get(profile.user_id) || 0,
+        activeApiKeys: apiKeyCounts.get(profile.user_id) || 0,
+        activeJitGrants: jitCounts.get(profile.user_id) || 0,
+        openPrivilegedSessions: privilegedCounts.get(profile.user_id) || 0,
+        groupMemberships: membershipCounts.get(profile.user_id) || 0,
+        activeQuantumPermissions: quantumCounts.get(profile.user_id) || 0
+      }))
+      .filter(r =>
+        r.activeSessions + r.activeApiKeys + r.activeJitGrants +
+        r.openPrivilegedSessions + r.groupMemberships + r.activeQuantumPermissions > 0
+      );
+  }
+
+  // ============================================================================
+  // Private Helper Methods
+  // ============================================================================
+
+  /**
+   * Mark the workflow in_progress, refusing if another run is active
+   */
+  private async claimWorkflow(workflow: LifecycleWorkflow): Promise<boolean> {
+    if (workflow.event_status === 'in_progress') {
+      const idleMinutes = (Date.now() - new Date(workflow.updated_at).getTime()) / 60000;
+      if (idleMinutes < STALE_RUN_MINUTES) return false;
+    }
+
+    const { data, error } = await supabase
+      .from('identity_lifecycle_events')
+      .update({ event_status: 'in_progress' })
+      .eq('id', workflow.id)
+      .eq('updated_at', workflow.updated_at)
+      .select('id');
+
+    if (error) {
+      console.error('Error claiming lifecycle workflow:', error);
+      return false;
+    }
+
+    return (data || []).length > 0;
+  }
+
+  private async saveProgress(workflow: LifecycleWorkflow, status: LifecycleStatus): Promise<void> {
+    workflow.event_status = status;
+
+    const { error } = await supabase
+      .from('identity_lifecycle_events')
+      .update({
+        event_status: status,
+        workflow_data: workflow.workflow_data as unknown as Json,
+        completed_at: status === 'completed' ? new Date().toISOString() : null
+      })
+      .eq('id', workflow.id);
+
+    if (error) {
+      console.error('Error saving lifecycle workflow progress:', error);
+    }
+  }
+
+  private async executeStep(
+    stepId: LifecycleStepId,
+    workflow: LifecycleWorkflow,
+    actorId: string
+  ): Promise<Record<string, unknown>> {
+    const userId = workflow.user_id;
+    const params = workflow.workflow_data.params;
+    const now = new Date().toISOString();
+
+    switch (stepId) {
+      case 'enable_account':
+      case 'disable_account': {
+        const action = stepId === 'enable_account' ? 'enable' : 'disable';
+        const { data, error } = await supabase.functions.invoke('directory-provision', {
+          body: { action, user_ids: [userId], lifecycle_event_id: workflow.id }
+        });
+        if (error) throw error;
+        if ((data.failed || []).length > 0) throw new Error(data.failed[0].error);
+        return { action };
+      }
+
+      case 'assign_role': {
+        const role = (params as JoinerParams | MoverParams).role as SystemRole;
+        const { data: existing } = await supabase
+          .from('user_roles')
+          .select('id, role')
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        const { error } = existing
+          ? await supabase.from('user_roles').update({ role, assigned_by: actorId }).eq('user_id', userId)
+          : await supabase.from('user_roles').insert({ user_id: userId, role, assigned_by: actorId });
+        if (error) throw error;
+        return { previous_role: existing?.role || null, role };
+      }
+
+      case 'add_group_memberships': {
+        const groupIds = workflow.event_type === 'joiner'
+          ? (params as JoinerParams).groupIds || []
+          : (params as MoverParams).addGroupIds || [];
+
+        const { data: existing } = await supabase
+          .from('user_group_memberships')
+          .select('group_id')
+          .eq('user_id', userId)
+          .in('group_id', groupIds);
+        const alreadyMember = new Set((existing || []).map(m => m.group_id));
+        const toAdd = groupIds.filter(id => !alreadyMember.has(id));
+
+        if (toAdd.length > 0) {
+          const { error } = await supabase
+            .from('user_group_memberships')
+            .insert(toAdd.map(groupId => ({ user_id: userId, group_id: groupId, assigned_by: actorId })));
+          if (error) throw error;
+        }
+        return { added: toAdd.length, already_member: alreadyMember.size };
+      }
+
+      case 'grant_quantum_permissions': {
+        const permissionTypes = (params as JoinerParams).quantumPermissions || [];
+        const { data: existing } = await supabase
+          .from('quantum_permissions')
+          .select('permission_type')
+          .eq('user_id', userId)
+          .eq('is_active', true)
+          .in('permission_type', permissionTypes);
+        const held = new Set((existing || []).map(p => p.permission_type));
+        const toGrant = permissionTypes.filter(p => !held.has(p));
+
+        if (toGrant.length > 0) {
+          const { error } = await supabase
+            .from('quantum_permissions')
+            .insert(toGrant.map(permissionType => ({
+              user_id: userId,
+              permission_type: permissionType,
+              granted_by: actorId,
+              is_active: true
+            })));
+          if (error) throw error;
+        }
+        return { granted: toGrant.length };
+      }
+
+      case 'remove_group_memberships': {
+        let query = supabase.from('user_group_memberships').delete().eq('user_id', userId);
+        if (workflow.event_type === 'mover') {
+          query = query.in('group_id', (params as MoverParams).removeGroupIds || []);
+        }
+        const { data, error } = await query.select('group_id');
+        if (error) throw error;
+        return { removed: (data || []).length, group_ids: (data || []).map(m => m.group_id) };
+      }
+
+      case 'revoke_sessions': {
+        const { data, error } = await supabase
+          .from('user_sessions')
+          .update({ is_active: false })
+          .eq('user_id', userId)
+          .eq('is_active', true)
+          .select('id');
+        if (error) throw error;
+        return { revoked: (data || []).length };
+      }
+
+      case 'disable_api_keys': {
+        const { data, error } = await supabase
+          .from('user_api_keys')
+          .update({ is_active: false })
+          .eq('user_id', userId)
+          .eq('is_active', true)
+          .select('id, key_prefix');
+        if (error) throw error;
+        return { disabled: (data || []).length, key_prefixes: (data || []).map(k => k.key_prefix) };
+      }
+
+      case 'expire_jit_access': {
+        const reason = workflow.event_type === 'leaver'
+          ? `Offboarding: ${(params as LeaverParams).reason}`
+          : 'Role change';
+        const { data, error } = await supabase
+          .from('jit_access_sessions')
+          .update({
+            status: 'expired',
+            expires_at: now,
+            revoked_at: now,
+            revoked_by: actorId,
+            revoke_reason: reason
+          })
+          .eq('user_id', userId)
+          .in('status', ['pending', 'approved', 'active'])
+          .select('id');
+        if (error) throw error;
+        return { expired: (data || []).length };
+      }
+
+      case 'end_privileged_sessions': {
+        const { data, error } = await supabase
+          .from('privileged_sessions')
+          .update({ session_end: now })
+          .eq('user_id', userId)
+          .is('session_end', null)
+          .select('id');
+        if (error) throw error;
+        return { ended: (data || []).length };
+      }
+
+      case 'revoke_quantum_permissions': {
+        const { data, error } = await supabase
+          .from('quantum_permissions')
+          .update({ is_active: false })
+          .eq('user_id', userId)
+          .eq('is_active', true)
+          .select('permission_type');
+        if (error) throw error;
+        return { revoked: (data || []).length, permission_types: (data || []).map(p => p.permission_type) };
+      }
+    }
+  }
+
+  private toWorkflow(row: Database['public']['Tables']['identity_lifecycle_events']['Row']): LifecycleWorkflow {
+    return {
+      ...row,
+      event_type: row.event_type as LifecycleEventType,
+      event_status: row.event_status as LifecycleStatus,
+      triggered_by: row.triggered_by as LifecycleTrigger,
+      workflow_data: row.workflow_data as unknown as WorkflowData,
+      metadata: row.metadata as Record<string, unknown> | null
+    };
+  }
+}
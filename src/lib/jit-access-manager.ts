@@ -8,6 +8,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+import { SeparationOfDutiesEngine } from './separation-of-duties';
 
 // ============================================================================
 // Type Definitions
@@ -75,12 +76,14 @@ export interface AccessRequestResult {
 
 export class JITAccessManager {
   private blockchain?: BlockchainIntegrationManager;
+  private sod: SeparationOfDutiesEngine;
 
   constructor(enableBlockchainAudit: boolean = true) {
     if (enableBlockchainAudit) {
       this.blockchain = new BlockchainIntegrationManager();
       this.blockchain.initialize().catch(console.error);
     }
+    this.sod = new SeparationOfDutiesEngine(enableBlockchainAudit);
   }
 
   /**
@@ -110,12 +113,32 @@ export class JITAccessManager {
         };
       }
 
-      // 4. Calculate expiration time
+      // 4. Check separation of duties; a recorded conflict disables auto-approval
+      const sodEvaluation = await this.sod.evaluateGrant(
+        {
+          type: 'jit_access',
+          userId: request.userId,
+          resourceType: request.resourceType,
+          resourceId: request.resourceId,
+          accessLevel: request.accessLevel
+        },
+        request.userId
+      );
+      if (!sodEvaluation.allowed) {
+        return {
+          success: false,
+          status: 'denied',
+          message: sodEvaluation.message
+        };
+      }
+      const autoApprove = policy.auto_approve && sodEvaluation.conflicts.length === 0;
+
+      // 5. Calculate expiration time
       const maxDurationHours = this.parseDuration(policy.max_duration);
       const durationHours = Math.min(request.duration, maxDurationHours);
       const expiresAt = new Date(Date.now() + durationHours * 60 * 60 * 1000);
 
-      // 5. Create session record
+      // 6. Create session record
       const { data: session, error } = await supabase
         .from('jit_access_sessions')
         .insert({
@@ -131,16 +154,16 @@ export class JITAccessManager {
             requested_duration: request.duration,
             granted_duration: durationHours
           },
-          status: policy.auto_approve ? 'approved' : 'pending',
-          auto_approved: policy.auto_approve,
-          approved_at: policy.auto_approve ? new Date().toISOString() : undefined
+          status: autoApprove ? 'approved' : 'pending',
+          auto_approved: autoApprove,
+          approved_at: autoApprove ? new Date().toISOString() : undefined
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      // 6. Log to blockchain
+      // 7. Log to blockchain
       if (this.blockchain) {
         await this.blockchain.logAuditEvent(
           request.userId,
@@ -151,14 +174,14 @@ export class JITAccessManager {
             resourceId: request.resourceId,
             accessLevel: request.accessLevel,
             riskLevel,
-            autoApproved: policy.auto_approve,
+            autoApproved: autoApprove,
             duration: durationHours
           }
         );
       }
 
-      // 7. If auto-approved, activate immediately
-      if (policy.auto_approve) {
+      // 8. If auto-approved, activate immediately
+      if (autoApprove) {
         await this.activateSession(session.id);
       }
 
@@ -166,7 +189,7 @@ export class JITAccessManager {
         success: true,
         sessionId: session.id,
         status: session.status as SessionStatus,
-        message: policy.auto_approve
+        message: autoApprove
           ? `Access granted automatically until ${expiresAt.toLocaleString()}`
           : 'Access request submitted for approval',
         expiresAt
@@ -200,6 +223,8 @@ export class JITAccessManager {
         })
         .eq('id', sessionId)
         .eq('status', 'pending')
+        // Separation of duties: nobody approves their own access
+        .neq('user_id', approverId)
         .select()
         .single() as { data: any; error: any };
 
@@ -0,0 +1,736 @@
+/**
+ * Key Rotation Scheduler
+ *
+ * Enforces quantum_key_policies on the keys a user holds: their active
+ * quantum_keys and the certificates our CAs issued to them.
+ *
+ * Features:
+ * - Due dates from the newest policy for each key type: rotation_interval_days
+ *   after a key was created or a certificate became valid, or at expiry if
+ *   that comes first
+ * - Rotation on the holder's device, where the secret keys are: a new key
+ *   of the same algorithm, then a new quantum_keys row or a re-issued
+ *   certificate that supersedes the old one
+ * - DID documents and certificates carrying the outgoing public key are
+ *   re-keyed with the new one
+ * - escrow_required escrows the retired secret key with QuantumKeyEscrow
+ *   before it is discarded; backup_required backs up the new one
+ * - A rotation report per run, recorded in quantum_key_rotations and the
+ *   audit log
+ * - Missed and failed rotations raised as AlertManager alerts, once each
+ * - An organisation-wide scan of overdue keys for administrators
+ */
+
+import { bytesToHex } from '@noble/curves/utils.js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { AlertManager } from './alert-manager';
+import { DIDManager, QuantumDID } from './did-manager';
+import { QuantumKEM, QuantumSignatures } from './quantum-crypto';
+import { QuantumKeyEscrow } from './quantum-pki';
+import { PostQuantumKEM, PostQuantumSignatures } from './quantum-pqc';
+import {
+  KeyAlgorithm,
+  KeyPair,
+  certificatesFromPem,
+  createCertificationRequest,
+  generateKeyPair,
+  toPem
+} from './x509';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type RotationKeyType = 'kem' | 'signature' | 'certificate';
+
+export type RotationResourceType = 'quantum_key' | 'certificate';
+
+export type RotationTrigger = 'scheduled' | 'manual';
+
+export type RotationStatus = 'rotated' | 'failed' | 'missed';
+
+export interface KeyRotationPolicy {
+  id: string;
+  name: string;
+  keyType: string;
+  rotationIntervalDays: number;
+  autoRotationEnabled: boolean;
+  escrowRequired: boolean;
+  backupRequired: boolean;
+  complianceFramework: string | null;
+  updatedAt: string;
+}
+
+export interface ManagedKey {
+  resourceType: RotationResourceType;
+  id: string;
+  userId: string;
+  keyType: RotationKeyType;
+  algorithm: string;
+  label: string;
+  createdAt: Date;
+  dueAt: Date;
+  policy: KeyRotationPolicy;
+}
+
+export interface DependentUpdate {
+  resourceType: 'did' | 'certificate';
+  id: string;
+  replacementId?: string;
+  status: 'updated' | 'failed';
+  error?: string;
+}
+
+export interface RotationOutcome {
+  key: ManagedKey;
+  status: RotationStatus;
+  replacementId?: string;
+  escrowId?: string;
+  dependents: DependentUpdate[];
+  reason?: string;
+}
+
+export interface RotationReport {
+  trigger: RotationTrigger;
+  startedAt: Date;
+  completedAt: Date;
+  checked: number;
+  outcomes: RotationOutcome[];
+  /** Keys falling due within UPCOMING_DAYS */
+  upcoming: ManagedKey[];
+  rotated: number;
+  failed: number;
+  missed: number;
+}
+
+export interface OrganizationRotationStatus {
+  checkedAt: Date;
+  overdue: ManagedKey[];
+  upcoming: ManagedKey[];
+}
+
+type PolicyRow = Database['public']['Tables']['quantum_key_policies']['Row'];
+type CertificateRow = Database['public']['Tables']['quantum_certificates']['Row'];
+
+type SecretKeyColumn =
+  | 'pq_kem_private_key_encrypted'
+  | 'kem_private_key_encrypted'
+  | 'pq_sig_private_key_encrypted'
+  | 'signature_private_key_encrypted';
+
+interface ReplacementKey {
+  algorithm: string;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+// Must match supabase/functions/quantum-pki
+const PKI_FUNCTION_NAME = 'quantum-pki';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPCOMING_DAYS = 14;
+// Owners rotate when their scheduler next runs; the organisation scan only
+// reports keys left overdue for longer than this
+const MISSED_GRACE_DAYS = 3;
+
+const X509_KEY_ALGORITHMS: string[] = ['ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87', 'MLDSA65-ECDSA-P256-SHA512', 'ML-KEM-768'];
+
+function parseByteList(value: string): Uint8Array {
+  return new Uint8Array(value.split(',').map(Number));
+}
+
+function certificateKeyName(certificateId: string): string {
+  // Same slot useQuantumPKI stores issued certificate keys in
+  return `quantum_cert_key_${certificateId}`;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Key Rotation Scheduler
+ * Finds keys due under their policy and rotates the ones held on this device
+ */
+export class KeyRotationScheduler {
+  private static escrowPassphrase: string | null = null;
+  private static activeRun: Promise<RotationReport> | null = null;
+  private static alerted: Set<string> = new Set();
+
+  /**
+   * Escrow passphrase for this session only; it never leaves memory
+   */
+  static setEscrowPassphrase(passphrase: string | null): void {
+    this.escrowPassphrase = passphrase || null;
+  }
+
+  static hasEscrowPassphrase(): boolean {
+    return this.escrowPassphrase !== null;
+  }
+
+  // ==========================================================================
+  // Discovery
+  // ==========================================================================
+
+  static async getPolicies(): Promise<KeyRotationPolicy[]> {
+    const { data, error } = await supabase
+      .from('quantum_key_policies')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.toPolicy(row));
+  }
+
+  /**
+   * Keys governed by a policy, with their due dates. Pass a user id for
+   * that user's keys, or null for every key the caller can see.
+   */
+  static async findManagedKeys(userId: string | null, policies?: KeyRotationPolicy[]): Promise<ManagedKey[]> {
+    const activePolicies = policies ?? await this.getPolicies();
+    // Policies are newest first, so the first match per key type wins
+    const policyFor = (keyType: string) => activePolicies.find(p => p.keyType === keyType);
+
+    let keysQuery = supabase
+      .from('quantum_keys')
+      .select('id, user_id, key_type, algorithm, created_at, expires_at')
+      .eq('is_active', true);
+    let certificatesQuery = supabase
+      .from('quantum_certificates')
+      .select('id, user_id, certificate_type, certificate_data, key_algorithm, subject, valid_from, valid_until')
+      .eq('is_revoked', false)
+      .not('ca_id', 'is', null);
+    if (userId) {
+      keysQuery = keysQuery.eq('user_id', userId);
+      certificatesQuery = certificatesQuery.eq('user_id', userId);
+    }
+
+    const [{ data: keys, error: keysError }, { data: certificates, error: certificatesError }] =
+      await Promise.all([keysQuery, certificatesQuery]);
+    if (keysError) throw keysError;
+    if (certificatesError) throw certificatesError;
+
+    const managed: ManagedKey[] = [];
+
+    for (const key of keys || []) {
+      const policy = policyFor(key.key_type);
+      if (!policy || (key.key_type !== 'kem' && key.key_type !== 'signature')) continue;
+
+      const createdAt = new Date(key.created_at);
+      managed.push({
+        resourceType: 'quantum_key',
+        id: key.id,
+        userId: key.user_id,
+        keyType: key.key_type,
+        algorithm: key.algorithm || 'legacy',
+        label: `${key.key_type === 'kem' ? 'Key encapsulation' : 'Signature'} key (${key.algorithm || 'legacy'})`,
+        createdAt,
+        dueAt: this.dueDate(createdAt, key.expires_at, policy),
+        policy
+      });
+    }
+
+    const certificatePolicy = policyFor('certificate');
+    for (const certificate of certificatePolicy ? certificates || [] : []) {
+      // Certificates naming DNS hosts belong to services, which renew them
+      // over ACME within the same policy
+      if (this.hasDnsNames(certificate.certificate_data)) continue;
+
+      const createdAt = new Date(certificate.valid_from);
+      managed.push({
+        resourceType: 'certificate',
+        id: certificate.id,
+        userId: certificate.user_id,
+        keyType: 'certificate',
+        algorithm: certificate.key_algorithm,
+        label: `${certificate.certificate_type} certificate for ${certificate.subject}`,
+        createdAt,
+        dueAt: this.dueDate(createdAt, certificate.valid_until, certificatePolicy!),
+        policy: certificatePolicy!
+      });
+    }
+
+    return managed.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  // ==========================================================================
+  // Scheduling
+  // ==========================================================================
+
+  /**
+   * Rotate the user's keys that are due and whose policy allows automatic
+   * rotation. Concurrent calls share one run.
+   */
+  static run(userId: string, trigger: RotationTrigger = 'scheduled', now: Date = new Date()): Promise<RotationReport> {
+    if (!this.activeRun) {
+      this.activeRun = this.execute(userId, trigger, now).finally(() => {
+        this.activeRun = null;
+      });
+    }
+    return this.activeRun;
+  }
+
+  /**
+   * Rotate one key now, whether or not automatic rotation is enabled
+   */
+  static async rotateKey(key: ManagedKey, trigger: RotationTrigger = 'manual'): Promise<RotationOutcome> {
+    const outcome = await this.attempt(key);
+    await this.record(outcome, trigger);
+    return outcome;
+  }
+
+  /**
+   * Keys across the organisation left overdue past the grace period.
+   * Their owners' devices hold the secret keys, so this only reports.
+   */
+  static async scanOrganization(now: Date = new Date()): Promise<OrganizationRotationStatus> {
+    const keys = await this.findManagedKeys(null);
+    const overdue = keys.filter(k => now.getTime() - k.dueAt.getTime() > MISSED_GRACE_DAYS * DAY_MS);
+    const upcoming = keys.filter(k => k.dueAt > now && k.dueAt.getTime() - now.getTime() <= UPCOMING_DAYS * DAY_MS);
+
+    const alertKey = `organization:${overdue.map(k => k.id).sort().join(',')}`;
+    if (overdue.length > 0 && !this.alerted.has(alertKey)) {
+      this.alerted.add(alertKey);
+      AlertManager.alertPolicyViolation(
+        'Key Rotations Missed',
+        `${overdue.length} key${overdue.length === 1 ? ' is' : 's are'} more than ${MISSED_GRACE_DAYS} days past their policy rotation date`,
+        {
+          keys: overdue.map(k => ({
+            resourceType: k.resourceType,
+            id: k.id,
+            userId: k.userId,
+            policy: k.policy.name,
+            dueAt: k.dueAt.toISOString()
+          }))
+        }
+      );
+    }
+
+    return { checkedAt: now, overdue, upcoming };
+  }
+
+  private static async execute(userId: string, trigger: RotationTrigger, now: Date): Promise<RotationReport> {
+    const startedAt = new Date();
+    const keys = await this.findManagedKeys(userId);
+    const due = keys.filter(k => k.dueAt <= now);
+    const outcomes: RotationOutcome[] = [];
+
+    for (const key of due) {
+      let outcome: RotationOutcome;
+      if (!key.policy.autoRotationEnabled) {
+        outcome = { key, status: 'missed', dependents: [], reason: `Automatic rotation is disabled by ${key.policy.name}` };
+      } else if (key.policy.escrowRequired && !this.escrowPassphrase) {
+        outcome = { key, status: 'missed', dependents: [], reason: 'An escrow passphrase is needed to retire this key' };
+      } else {
+        outcome = await this.attempt(key);
+      }
+
+      outcomes.push(outcome);
+      await this.record(outcome, trigger);
+    }
+
+    return {
+      trigger,
+      startedAt,
+      completedAt: new Date(),
+      checked: keys.length,
+      outcomes,
+      upcoming: keys.filter(k => k.dueAt > now && k.dueAt.getTime() - now.getTime() <= UPCOMING_DAYS * DAY_MS),
+      rotated: outcomes.filter(o => o.status === 'rotated').length,
+      failed: outcomes.filter(o => o.status === 'failed').length,
+      missed: outcomes.filter(o => o.status === 'missed').length
+    };
+  }
+
+  private static async attempt(key: ManagedKey): Promise<RotationOutcome> {
+    try {
+      const result = key.resourceType === 'quantum_key'
+        ? await this.rotateQuantumKey(key)
+        : await this.rotateCertificate(key);
+      return { key, status: 'rotated', ...result };
+    } catch (error) {
+      console.error('Error rotating key:', error);
+      return {
+        key,
+        status: 'failed',
+        dependents: [],
+        reason: error instanceof Error ? error.message : 'Rotation failed'
+      };
+    }
+  }
+
+  // ==========================================================================
+  // Rotation
+  // ==========================================================================
+
+  /**
+   * Replace a quantum_keys row. The new key is added before the old one is
+   * deactivated, so the user always has an active key of the type.
+   */
+  private static async rotateQuantumKey(key: ManagedKey): Promise<Omit<RotationOutcome, 'key' | 'status'>> {
+    const { data: row, error } = await supabase
+      .from('quantum_keys')
+      .select('*')
+      .eq('id', key.id)
+      .single();
+    if (error) throw error;
+
+    const column = this.secretKeyColumn(key.keyType, row.algorithm);
+    const { data: settings } = await supabase
+      .from('user_quantum_settings')
+      .select(column)
+      .eq('user_id', key.userId)
+      .maybeSingle();
+    const storedSecret = (settings as Record<string, string | null> | null)?.[column];
+    const retiredSecret = storedSecret ? parseByteList(storedSecret) : null;
+
+    const replacement = await this.generateReplacement(key.keyType, row.algorithm);
+
+    const escrowId = key.policy.escrowRequired
+      ? await this.escrow(key, key.id, retiredSecret, 'escrow')
+      : undefined;
+
+    const lifetime = row.expires_at ? new Date(row.expires_at).getTime() - new Date(row.created_at).getTime() : null;
+    const { data: created, error: insertError } = await supabase
+      .from('quantum_keys')
+      .insert({
+        user_id: key.userId,
+        key_type: row.key_type,
+        algorithm: row.algorithm,
+        public_key: Array.from(replacement.publicKey).join(','),
+        is_post_quantum: row.is_post_quantum,
+        expires_at: lifetime ? new Date(Date.now() + lifetime).toISOString() : null
+      })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+
+    const { error: settingsError } = await supabase
+      .from('user_quantum_settings')
+      .upsert(
+        { user_id: key.userId, [column]: Array.from(replacement.secretKey).join(',') },
+        { onConflict: 'user_id' }
+      );
+    if (settingsError) throw settingsError;
+
+    if (key.policy.backupRequired) {
+      await this.escrow(key, created.id, replacement.secretKey, 'backup');
+    }
+
+    const { error: deactivateError } = await supabase
+      .from('quantum_keys')
+      .update({ is_active: false })
+      .eq('id', key.id);
+    if (deactivateError) throw deactivateError;
+
+    const dependents = await this.updateDependents(key.userId, bytesToHex(parseByteList(row.public_key)), replacement);
+    return { replacementId: created.id, escrowId, dependents };
+  }
+
+  /**
+   * Re-issue a certificate from the same CA for a new key and revoke the
+   * old one as superseded
+   */
+  private static async rotateCertificate(key: ManagedKey): Promise<Omit<RotationOutcome, 'key' | 'status'>> {
+    const { data: row, error } = await supabase
+      .from('quantum_certificates')
+      .select('*')
+      .eq('id', key.id)
+      .single();
+    if (error) throw error;
+
+    const storedSecret = localStorage.getItem(certificateKeyName(key.id));
+    const retiredSecret = storedSecret ? parseByteList(storedSecret) : null;
+    const keyPair = generateKeyPair(row.key_algorithm as KeyAlgorithm);
+
+    const escrowId = key.policy.escrowRequired
+      ? await this.escrow(key, key.id, retiredSecret, 'escrow')
+      : undefined;
+
+    const replacementId = await this.reissueCertificate(row, keyPair);
+
+    if (key.policy.backupRequired) {
+      await this.escrow(key, replacementId, keyPair.secretKey, 'backup');
+    }
+
+    const dependents = await this.updateDependents(key.userId, row.public_key, keyPair, key.id);
+    return { replacementId, escrowId, dependents };
+  }
+
+  /**
+   * Re-key the user's DID document and other certificates that carry the
+   * outgoing public key
+   */
+  private static async updateDependents(
+    userId: string,
+    publicKeyHex: string,
+    replacement: ReplacementKey,
+    rotatedCertificateId?: string
+  ): Promise<DependentUpdate[]> {
+    const updates: DependentUpdate[] = [];
+
+    const { data: didRow } = await supabase
+      .from('user_dids')
+      .select('did, did_document')
+      .eq('user_id', userId)
+      .maybeSingle();
+    const document = didRow?.did_document as unknown as QuantumDID | undefined;
+    if (didRow && document?.publicKey?.some(pk => pk.publicKeyHex === publicKeyHex && !pk.revoked)) {
+      const updated = await DIDManager.replaceDIDKey(didRow.did, publicKeyHex, replacement, userId);
+      updates.push(updated
+        ? { resourceType: 'did', id: didRow.did, status: 'updated' }
+        : { resourceType: 'did', id: didRow.did, status: 'failed', error: 'The DID update was not accepted; its controller key may not be on this device' });
+    }
+
+    const { data: certificates, error } = await supabase
+      .from('quantum_certificates')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('public_key', publicKeyHex)
+      .eq('is_revoked', false)
+      .not('ca_id', 'is', null);
+    if (error) throw error;
+
+    for (const certificate of (certificates || []).filter(c => c.id !== rotatedCertificateId)) {
+      try {
+        if (!X509_KEY_ALGORITHMS.includes(replacement.algorithm)) {
+          throw new Error(`${replacement.algorithm} keys cannot be certified`);
+        }
+        const replacementId = await this.reissueCertificate(certificate, replacement as KeyPair);
+        updates.push({ resourceType: 'certificate', id: certificate.id, replacementId, status: 'updated' });
+      } catch (certificateError) {
+        updates.push({
+          resourceType: 'certificate',
+          id: certificate.id,
+          status: 'failed',
+          error: certificateError instanceof Error ? certificateError.message : 'Re-issue failed'
+        });
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Ask the certificate's CA for the same certificate over a new key. The
+   * validity period is kept; the CA caps it as usual.
+   */
+  private static async reissueCertificate(row: CertificateRow, keyPair: KeyPair): Promise<string> {
+    const [current] = certificatesFromPem(row.certificate_data);
+    if (!current) {
+      throw new Error(`Certificate ${row.serial_number} could not be parsed`);
+    }
+
+    const validityDays = Math.max(1, Math.round((current.notAfter.getTime() - current.notBefore.getTime()) / DAY_MS));
+    const body = keyPair.algorithm === 'ML-KEM-768'
+      ? {
+          certificateType: row.certificate_type,
+          subject: current.subject,
+          validityDays,
+          caId: row.ca_id,
+          publicKey: toBase64(keyPair.publicKey)
+        }
+      : {
+          certificateType: row.certificate_type,
+          validityDays,
+          caId: row.ca_id,
+          csr: toPem(await createCertificationRequest(current.subject, keyPair), 'CERTIFICATE REQUEST')
+        };
+
+    const { data, error } = await supabase.functions.invoke(`${PKI_FUNCTION_NAME}/certificates`, { body });
+    if (error) throw error;
+
+    const replacementId = data.certificate.id as string;
+    localStorage.setItem(certificateKeyName(replacementId), Array.from(keyPair.secretKey).join(','));
+
+    const { error: revokeError } = await supabase.functions.invoke(`${PKI_FUNCTION_NAME}/certificates/${row.id}/revoke`, {
+      body: { reason: 'superseded' }
+    });
+    if (revokeError) throw revokeError;
+
+    localStorage.removeItem(certificateKeyName(row.id));
+    return replacementId;
+  }
+
+  private static async generateReplacement(keyType: RotationKeyType, algorithm: string | null): Promise<ReplacementKey> {
+    switch (algorithm) {
+      case 'ML-KEM-768':
+        return { algorithm, ...await PostQuantumKEM.generateKeyPair768() };
+      case 'ML-KEM-1024':
+        return { algorithm, ...await PostQuantumKEM.generateKeyPair1024() };
+      case 'ML-DSA-65': {
+        const { publicKey, privateKey } = await PostQuantumSignatures.generateKeyPair65();
+        return { algorithm, publicKey, secretKey: privateKey };
+      }
+      case 'ML-DSA-87': {
+        const { publicKey, privateKey } = await PostQuantumSignatures.generateKeyPair87();
+        return { algorithm, publicKey, secretKey: privateKey };
+      }
+      default: {
+        // Keys from before post-quantum algorithms were recorded
+        const { publicKey, privateKey } = keyType === 'kem'
+          ? await QuantumKEM.generateKeyPair()
+          : await QuantumSignatures.generateKeyPair();
+        return { algorithm: algorithm || 'legacy', publicKey, secretKey: privateKey };
+      }
+    }
+  }
+
+  private static secretKeyColumn(keyType: RotationKeyType, algorithm: string | null): SecretKeyColumn {
+    const postQuantum = algorithm?.startsWith('ML-') ?? false;
+    if (keyType === 'kem') {
+      return postQuantum ? 'pq_kem_private_key_encrypted' : 'kem_private_key_encrypted';
+    }
+    return postQuantum ? 'pq_sig_private_key_encrypted' : 'signature_private_key_encrypted';
+  }
+
+  // ==========================================================================
+  // Escrow and Reporting
+  // ==========================================================================
+
+  private static async escrow(
+    key: ManagedKey,
+    resourceId: string,
+    secretKey: Uint8Array | null,
+    purpose: 'escrow' | 'backup'
+  ): Promise<string> {
+    if (!secretKey) {
+      throw new Error('The retired secret key is not on this device, so it cannot be escrowed');
+    }
+    if (!this.escrowPassphrase) {
+      throw new Error(`An escrow passphrase is needed to ${purpose === 'escrow' ? 'escrow the retired' : 'back up the new'} key`);
+    }
+
+    const escrowPackage = await QuantumKeyEscrow.escrowKey(secretKey, this.escrowPassphrase, {
+      resourceType: key.resourceType,
+      resourceId,
+      algorithm: key.algorithm,
+      purpose,
+      policyId: key.policy.id
+    });
+
+    const { data, error } = await supabase
+      .from('quantum_key_escrow')
+      .insert({
+        user_id: key.userId,
+        resource_type: key.resourceType,
+        resource_id: resourceId,
+        key_algorithm: key.algorithm,
+        purpose,
+        escrow_package: escrowPackage,
+        policy_id: key.policy.id
+      })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  }
+
+  /**
+   * Record the outcome and alert on anything not rotated. A key missed or
+   * failing on every run is recorded and alerted the first time only.
+   */
+  private static async record(outcome: RotationOutcome, trigger: RotationTrigger): Promise<void> {
+    const { key } = outcome;
+    const alertKey = `${key.resourceType}:${key.id}:${outcome.status}`;
+    if (outcome.status !== 'rotated' && this.alerted.has(alertKey)) return;
+
+    try {
+      const { error } = await supabase
+        .from('quantum_key_rotations')
+        .insert({
+          user_id: key.userId,
+          resource_type: key.resourceType,
+          resource_id: key.id,
+          replacement_id: outcome.replacementId ?? null,
+          key_type: key.keyType,
+          policy_id: key.policy.id,
+          trigger,
+          status: outcome.status,
+          due_at: key.dueAt.toISOString(),
+          escrow_id: outcome.escrowId ?? null,
+          dependents: outcome.dependents as unknown as Json,
+          error: outcome.reason ?? null
+        });
+      if (error) throw error;
+
+      if (outcome.status === 'rotated') {
+        await supabase.rpc('log_audit_event', {
+          _action: 'QUANTUM_KEY_ROTATION',
+          _resource: key.resourceType === 'quantum_key' ? 'quantum_keys' : 'quantum_certificates',
+          _resource_id: key.id,
+          _details: {
+            replacement_id: outcome.replacementId,
+            policy_id: key.policy.id,
+            trigger,
+            escrowed: Boolean(outcome.escrowId),
+            dependents: outcome.dependents
+          } as unknown as Json
+        });
+      }
+    } catch (error) {
+      console.error('Error recording key rotation:', error);
+    }
+
+    const failedDependents = outcome.dependents.filter(d => d.status === 'failed');
+    if (outcome.status === 'failed') {
+      AlertManager.createAlert('error', 'quantum', 'Key Rotation Failed', `${key.label}: ${outcome.reason}`, {
+        resourceType: key.resourceType,
+        id: key.id,
+        policy: key.policy.name
+      });
+    } else if (outcome.status === 'missed') {
+      AlertManager.alertPolicyViolation(
+        'Key Rotation Missed',
+        `${key.label} was due for rotation on ${key.dueAt.toLocaleDateString()}. ${outcome.reason}`,
+        { resourceType: key.resourceType, id: key.id, policy: key.policy.name, dueAt: key.dueAt.toISOString() }
+      );
+    } else if (failedDependents.length > 0) {
+      AlertManager.createAlert(
+        'warning',
+        'quantum',
+        'Dependents Not Re-keyed',
+        `${key.label} was rotated, but ${failedDependents.length} dependent${failedDependents.length === 1 ? '' : 's'} still carry the old key`,
+        { id: key.id, dependents: failedDependents }
+      );
+    }
+    this.alerted.add(alertKey);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private static dueDate(createdAt: Date, expiresAt: string | null, policy: KeyRotationPolicy): Date {
+    const due = createdAt.getTime() + policy.rotationIntervalDays * DAY_MS;
+    return new Date(expiresAt ? Math.min(due, new Date(expiresAt).getTime()) : due);
+  }
+
+  private static hasDnsNames(certificateData: string): boolean {
+    try {
+      return (certificatesFromPem(certificateData)[0]?.dnsNames.length ?? 0) > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private static toPolicy(row: PolicyRow): KeyRotationPolicy {
+    return {
+      id: row.id,
+      name: row.policy_name,
+      keyType: row.key_type,
+      rotationIntervalDays: row.rotation_interval_days,
+      autoRotationEnabled: row.auto_rotation_enabled,
+      escrowRequired: row.escrow_required,
+      backupRequired: row.backup_required,
+      complianceFramework: row.compliance_framework,
+      updatedAt: row.updated_at
+    };
+  }
+}
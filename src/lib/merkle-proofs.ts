@@ -0,0 +1,263 @@
+/**
+ * Merkle Proofs for the Audit Chain
+ * Lets an auditor check one audit event, or that the chain only grew,
+ * without downloading the chain
+ *
+ * Features:
+ * - Merkle roots and inclusion paths of a block's transaction tree: an
+ *   RFC 6962 tree over the transaction hashes, with domain separated leaves
+ *   (0x00) and interior nodes (0x01) and no duplicated odd nodes, so a leaf
+ *   cannot pass for a node nor two transaction lists share a root
+ *   (CVE-2012-2459). Blocks mined before that keep the pairwise tree, where
+ *   an odd node is hashed with itself, built with OptimizedMerkleTree.
+ * - RFC 6962 Merkle tree hashes over a chain's block hashes, with the same
+ *   domain separation
+ * - RFC 6962 consistency proofs between two tree sizes, verified as in
+ *   RFC 9162 section 2.1.4.2
+ */
+
+import { bytesToHex, concatBytes, hexToBytes } from '@noble/curves/utils.js';
+import * as CryptoJS from 'crypto-js';
+import { OptimizedMerkleTree } from './performance-cache';
+import type { MerklePathStep } from './zero-knowledge-proofs';
+
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return bytesToHex(await sha256(new TextEncoder().encode(value)));
+}
+
+/** Largest power of two smaller than n, for n > 1 */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+// ============================================================================
+// Transaction Trees
+// ============================================================================
+
+/**
+ * How a block's transactions are hashed into its Merkle root. Blocks name
+ * 'rfc6962'; blocks that name no tree were mined with the 'pairwise' one.
+ */
+export type TransactionTree = 'rfc6962' | 'pairwise';
+
+const pairwiseTree = new OptimizedMerkleTree(value => CryptoJS.SHA256(value).toString());
+
+// Transaction hashes are hex, so tree nodes are hashed from hex as well
+const sha256OfHex = (hex: string): string => CryptoJS.SHA256(CryptoJS.enc.Hex.parse(hex)).toString();
+const transactionLeaf = (leafHash: string): string => sha256OfHex(`00${leafHash}`);
+const transactionNode = (left: string, right: string): string => sha256OfHex(`01${left}${right}`);
+
+function transactionSubtree(leaves: string[]): string {
+  if (leaves.length === 1) return leaves[0];
+
+  const k = splitPoint(leaves.length);
+  return transactionNode(transactionSubtree(leaves.slice(0, k)), transactionSubtree(leaves.slice(k)));
+}
+
+/** PATH(m, D[n]) of RFC 6962 section 2.1.1, over leaf hashes already prefixed */
+function transactionSubpath(leaves: string[], index: number): MerklePathStep[] {
+  if (leaves.length === 1) return [];
+
+  const k = splitPoint(leaves.length);
+  return index < k
+    ? [...transactionSubpath(leaves.slice(0, k), index), { sibling: transactionSubtree(leaves.slice(k)), position: 'right' }]
+    : [...transactionSubpath(leaves.slice(k), index - k), { sibling: transactionSubtree(leaves.slice(0, k)), position: 'left' }];
+}
+
+/**
+ * Merkle root of a block's transaction hashes, or '' for a block without
+ * transactions
+ */
+export function transactionMerkleRoot(leafHashes: string[], tree: TransactionTree = 'rfc6962'): string {
+  if (leafHashes.length === 0) return '';
+  if (tree === 'pairwise') return pairwiseTree.calculateRoot(leafHashes);
+
+  return transactionSubtree(leafHashes.map(transactionLeaf));
+}
+
+/**
+ * Sibling hashes from a transaction's leaf hash up to its block's Merkle root
+ */
+export function transactionMerklePath(
+  leafHashes: string[],
+  index: number,
+  tree: TransactionTree = 'rfc6962'
+): MerklePathStep[] {
+  if (tree === 'pairwise') {
+    return pairwiseTree.buildProof(leafHashes, index).map((sibling, level) => ({
+      sibling,
+      position: (index >> level) % 2 === 0 ? 'right' : 'left'
+    }));
+  }
+
+  if (index < 0 || index >= leafHashes.length) {
+    throw new Error(`Leaf ${index} is outside a tree of ${leafHashes.length}`);
+  }
+  return transactionSubpath(leafHashes.map(transactionLeaf), index);
+}
+
+/**
+ * The Merkle root a leaf hash and its path lead to
+ */
+export async function rootFromTransactionPath(
+  leafHash: string,
+  path: MerklePathStep[],
+  tree: TransactionTree = 'rfc6962'
+): Promise<string> {
+  if (tree === 'pairwise') {
+    let node = leafHash;
+    for (const step of path) {
+      node = await sha256Hex(step.position === 'right' ? node + step.sibling : step.sibling + node);
+    }
+    return node;
+  }
+
+  if (![leafHash, ...path.map(step => step.sibling)].every(hash => /^[0-9a-f]{64}$/.test(hash))) {
+    throw new Error('Merkle path nodes must be hex SHA-256 digests');
+  }
+  return path.reduce(
+    (node, step) => step.position === 'right' ? transactionNode(node, step.sibling) : transactionNode(step.sibling, node),
+    transactionLeaf(leafHash)
+  );
+}
+
+// ============================================================================
+// Chain Trees (RFC 6962)
+// ============================================================================
+
+function hashNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  return sha256(concatBytes(NODE_PREFIX, left, right));
+}
+
+/**
+ * Subtree hashes of one list of block hashes. Consistency proofs ask for
+ * the same subtrees many times, so each is hashed once.
+ */
+class ChainTree {
+  private subtrees = new Map<string, Promise<Uint8Array>>();
+
+  constructor(private blockHashes: string[]) {}
+
+  hash(start: number, end: number): Promise<Uint8Array> {
+    const key = `${start}:${end}`;
+    let subtree = this.subtrees.get(key);
+    if (!subtree) {
+      subtree = this.compute(start, end);
+      this.subtrees.set(key, subtree);
+    }
+    return subtree;
+  }
+
+  private async compute(start: number, end: number): Promise<Uint8Array> {
+    const n = end - start;
+    if (n === 0) return sha256(new Uint8Array(0));
+    if (n === 1) return sha256(concatBytes(LEAF_PREFIX, hexToBytes(this.blockHashes[start])));
+
+    const k = splitPoint(n);
+    return hashNode(await this.hash(start, start + k), await this.hash(start + k, end));
+  }
+
+  /** SUBPROOF(m, D[start:end], b) of RFC 6962 section 2.1.2 */
+  async subproof(m: number, start: number, end: number, complete: boolean): Promise<Uint8Array[]> {
+    const n = end - start;
+    if (m === n) {
+      return complete ? [] : [await this.hash(start, end)];
+    }
+
+    const k = splitPoint(n);
+    if (m <= k) {
+      return [...await this.subproof(m, start, start + k, complete), await this.hash(start + k, end)];
+    }
+    return [...await this.subproof(m - k, start + k, end, false), await this.hash(start, start + k)];
+  }
+}
+
+/**
+ * Merkle tree hash of a chain's block hashes, in height order
+ */
+export async function chainTreeHash(blockHashes: string[]): Promise<string> {
+  return bytesToHex(await new ChainTree(blockHashes).hash(0, blockHashes.length));
+}
+
+/**
+ * Proof that the tree of the first firstSize block hashes is a prefix of
+ * the tree of all of them
+ */
+export async function chainConsistencyProof(blockHashes: string[], firstSize: number): Promise<string[]> {
+  if (firstSize < 0 || firstSize > blockHashes.length) {
+    throw new Error(`Tree size ${firstSize} is outside a chain of ${blockHashes.length}`);
+  }
+  if (firstSize === 0 || firstSize === blockHashes.length) return [];
+
+  const proof = await new ChainTree(blockHashes).subproof(firstSize, 0, blockHashes.length, true);
+  return proof.map(node => bytesToHex(node));
+}
+
+/**
+ * Check a consistency proof between two tree heads. Only needs the two root
+ * hashes, not the block hashes.
+ */
+export async function verifyChainConsistency(
+  firstSize: number,
+  secondSize: number,
+  firstRoot: string,
+  secondRoot: string,
+  proof: string[]
+): Promise<boolean> {
+  if (!Number.isInteger(firstSize) || !Number.isInteger(secondSize) || firstSize < 0 || firstSize > secondSize) {
+    return false;
+  }
+  if (firstSize === secondSize) {
+    return proof.length === 0 && firstRoot === secondRoot;
+  }
+  // Every tree extends the empty tree
+  if (firstSize === 0) {
+    return proof.length === 0;
+  }
+  if (proof.length === 0) return false;
+
+  try {
+    // When the first tree is a complete subtree its root is left out of the proof
+    const isPowerOfTwo = (firstSize & (firstSize - 1)) === 0;
+    const nodes = (isPowerOfTwo ? [firstRoot, ...proof] : proof).map(node => hexToBytes(node));
+
+    let fn = firstSize - 1;
+    let sn = secondSize - 1;
+    while (fn & 1) {
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    let fr = nodes[0];
+    let sr = nodes[0];
+    for (const c of nodes.slice(1)) {
+      if (sn === 0) return false;
+
+      if ((fn & 1) || fn === sn) {
+        fr = await hashNode(c, fr);
+        sr = await hashNode(c, sr);
+        while (!(fn & 1) && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        sr = await hashNode(sr, c);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    return sn === 0 && bytesToHex(fr) === firstRoot && bytesToHex(sr) === secondRoot;
+  } catch {
+    return false;
+  }
+}
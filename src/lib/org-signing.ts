@@ -0,0 +1,68 @@
+/**
+ * Organisation Signing Key Verification
+ *
+ * Evidence such as access review results and SSO session records is signed
+ * by edge functions with the organisation's ML-DSA-65 key. The records name
+ * the key by id; its public key is taken from org_signing_keys, which only
+ * the edge functions write, never from the signed record itself.
+ *
+ * Features:
+ * - Public key lookup by key id, cached per session
+ * - ML-DSA-65 verification with a context per purpose, so a signature made
+ *   for one kind of record does not verify as another
+ */
+
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
+import { supabase } from '@/integrations/supabase/client';
+
+// Must match supabase/functions/_shared/org-signing.ts
+export const ORG_SIGNING_ALGORITHM = 'ML-DSA-65';
+export type SigningPurpose = 'access-review-result' | 'sso-session';
+
+const publicKeys = new Map<string, Uint8Array | null>();
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+/**
+ * Registered public key for an organisation signing key, or null if the id
+ * is not a registered key
+ */
+export async function getOrgSigningKey(keyId: string): Promise<Uint8Array | null> {
+  if (publicKeys.has(keyId)) {
+    return publicKeys.get(keyId)!;
+  }
+
+  const { data, error } = await supabase
+    .from('org_signing_keys')
+    .select('id, algorithm, public_key')
+    .eq('id', keyId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const publicKey = data && data.algorithm === ORG_SIGNING_ALGORITHM ? fromBase64(data.public_key) : null;
+  publicKeys.set(keyId, publicKey);
+  return publicKey;
+}
+
+/**
+ * Verify a base64 signature made by the organisation key keyId for purpose
+ */
+export async function verifyOrgSignature(
+  purpose: SigningPurpose,
+  keyId: string,
+  signature: string,
+  message: Uint8Array
+): Promise<boolean> {
+  try {
+    const publicKey = await getOrgSigningKey(keyId);
+    if (!publicKey) return false;
+
+    return ml_dsa65.verify(fromBase64(signature), message, publicKey, {
+      context: new TextEncoder().encode(purpose)
+    });
+  } catch (error) {
+    console.error('Organisation signature verification failed:', error);
+    return false;
+  }
+}
@@ -13,7 +13,7 @@ export interface PeerConnection {
 }
 
 export interface NetworkMessage {
-  type: 'block' | 'transaction' | 'sync_request' | 'sync_response' | 'peer_list';
+  type: 'block' | 'transaction' | 'sync_request' | 'sync_response' | 'peer_list' | 'consensus';
   data: any;
   timestamp: number;
   senderId: string;
@@ -320,13 +320,18 @@ export class BlockchainCache {
 // ============================================================================
 
 /**
- * Optimized Merkle tree with caching
+ * Optimized Merkle tree with caching. Nodes are hash(left + right) and the
+ * last node of an odd level is paired with itself. The default hash is fast
+ * but not collision resistant; pass a cryptographic one for trees that
+ * anything is proven against.
  */
 export class OptimizedMerkleTree {
   private cache: CryptoCache<string>;
+  private hash: (data: string) => string;
   
-  constructor() {
+  constructor(hash?: (data: string) => string) {
     this.cache = new CryptoCache<string>(5000, 3600000); // 1 hour cache
+    this.hash = hash ?? (data => this.quickHash(data));
   }
 
   /**
@@ -353,8 +358,7 @@ export class OptimizedMerkleTree {
         const left = currentLevel[i];
         const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
         
-        // Use simple hash function for performance
-        const combined = this.quickHash(left + right);
+        const combined = this.hash(left + right);
         nextLevel.push(combined);
       }
       
@@ -383,9 +387,14 @@ export class OptimizedMerkleTree {
   }
 
   /**
-   * Build Merkle proof for a specific transaction
+   * Build Merkle proof for a specific transaction: one sibling per level,
+   * on the right when the node's index at that level is even
    */
   buildProof(hashes: string[], index: number): string[] {
+    if (index < 0 || index >= hashes.length) {
+      throw new Error(`Leaf ${index} is outside a tree of ${hashes.length}`);
+    }
+
     const proof: string[] = [];
     let currentIndex = index;
     let currentLevel = [...hashes];
@@ -393,15 +402,14 @@ export class OptimizedMerkleTree {
     while (currentLevel.length > 1) {
       const pairIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
       
-      if (pairIndex < currentLevel.length) {
-        proof.push(currentLevel[pairIndex]);
-      }
+      // The last node of an odd level is its own sibling
+      proof.push(currentLevel[pairIndex] ?? currentLevel[currentIndex]);
       
       const nextLevel: string[] = [];
       for (let i = 0; i < currentLevel.length; i += 2) {
         const left = currentLevel[i];
         const right = i + 1 < currentLevel.length ? currentLevel[i + 1] : left;
-        nextLevel.push(this.quickHash(left + right));
+        nextLevel.push(this.hash(left + right));
       }
       
       currentLevel = nextLevel;
@@ -425,9 +433,9 @@ export class OptimizedMerkleTree {
     
     for (const proofElement of proof) {
       if (currentIndex % 2 === 0) {
-        computedHash = this.quickHash(computedHash + proofElement);
+        computedHash = this.hash(computedHash + proofElement);
       } else {
-        computedHash = this.quickHash(proofElement + computedHash);
+        computedHash = this.hash(proofElement + computedHash);
       }
       currentIndex = Math.floor(currentIndex / 2);
     }
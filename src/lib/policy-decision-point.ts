@@ -0,0 +1,569 @@
+/**
+ * Unified Policy Decision Point (PDP)
+ *
+ * Single entry point for access decisions. Composes every source the app
+ * already uses to decide access and combines their answers with an explicit
+ * algorithm, so UI gates, hooks and services stop re-implementing checks.
+ *
+ * Features:
+ * - Sources: Zero Trust policies (ZeroTrustEngine), blockchain access
+ *   policies (BlockchainPolicyEngine), role permissions, group permissions,
+ *   time-based permissions and JIT access sessions
+ * - Combining algorithms: deny-overrides, permit-overrides, first-applicable
+ * - Obligations (require MFA, require approval, step-up, limit access,
+ *   monitor) returned with the decision
+ * - Full explanation trace of every source consulted
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import {
+  ZeroTrustEngine,
+  ZeroTrustContext,
+  ZeroTrustPolicy
+} from './zero-trust-engine';
+import { BlockchainPolicyEngine } from './blockchain-policy-engine';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type Decision = 'permit' | 'deny' | 'not_applicable' | 'indeterminate';
+export type CombiningAlgorithm = 'deny-overrides' | 'permit-overrides' | 'first-applicable';
+export type ObligationType = 'require_mfa' | 'require_approval' | 'step_up_auth' | 'limit_access' | 'monitor';
+
+export interface Obligation {
+  type: ObligationType;
+  source: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface DecisionSubject {
+  id: string;
+  roles?: string[];
+  groups?: string[];
+  riskScore?: number; // 0-1
+}
+
+export interface DecisionResource {
+  type: string;
+  id?: string;
+  dataClassification?: ZeroTrustContext['application']['dataClassification'];
+}
+
+/**
+ * Request context. Anything not supplied falls back to a neutral value;
+ * callers that know device or network posture should pass it in.
+ */
+export interface DecisionContext {
+  timestamp?: Date;
+  mfaVerified?: boolean;
+  trustScore?: number; // 0-100, computed from the Zero Trust context when absent
+  ipAddress?: string;
+  deviceFingerprint?: string;
+  quantumSignature?: string;
+  device?: Partial<ZeroTrustContext['device']>;
+  network?: Partial<ZeroTrustContext['network']>;
+  session?: Partial<ZeroTrustContext['session']>;
+}
+
+export interface DecisionRequest {
+  subject: DecisionSubject & { roles: string[] };
+  action: string;
+  resource: DecisionResource;
+  context: DecisionContext & { timestamp: Date };
+}
+
+export interface SourceResult {
+  decision: Decision;
+  reason: string;
+  obligations?: Obligation[];
+  details?: Record<string, unknown>;
+}
+
+export interface DecisionSource {
+  name: string;
+  evaluate(request: DecisionRequest): Promise<SourceResult>;
+}
+
+export interface TraceEntry extends SourceResult {
+  source: string;
+  order: number;
+  durationMs: number;
+}
+
+export interface PolicyDecision {
+  decision: Decision;
+  allowed: boolean;
+  algorithm: CombiningAlgorithm;
+  obligations: Obligation[];
+  reason: string;
+  trace: TraceEntry[];
+  request: {
+    subjectId: string;
+    action: string;
+    resource: DecisionResource;
+  };
+  evaluatedAt: string;
+}
+
+export interface PDPOptions {
+  algorithm?: CombiningAlgorithm;
+  sources?: DecisionSource[];
+  zeroTrustPolicies?: ZeroTrustPolicy[];
+  blockchainPolicies?: BlockchainPolicyEngine;
+  enableBlockchainAudit?: boolean;
+}
+
+// ============================================================================
+// Decision Sources
+// ============================================================================
+
+/**
+ * Zero Trust policies never grant access on their own: a deny action denies,
+ * everything else only contributes obligations.
+ */
+export function zeroTrustSource(policies?: ZeroTrustPolicy[]): DecisionSource {
+  return {
+    name: 'zero_trust',
+    async evaluate(request) {
+      const result = await ZeroTrustEngine.evaluateAccess(
+        PolicyDecisionPoint.toZeroTrustContext(request),
+        policies
+      );
+
+      if (result.decision === 'deny') {
+        return {
+          decision: 'deny',
+          reason: result.reasoning.join('; ') || 'Denied by Zero Trust policy',
+          details: { appliedPolicies: result.appliedPolicies }
+        };
+      }
+
+      const obligations: Obligation[] = result.requiredActions
+        .filter(action => action.type !== 'allow' && action.type !== 'deny')
+        .filter(action => !(action.type === 'require_mfa' && request.context.mfaVerified))
+        .map(action => ({
+          type: action.type as ObligationType,
+          source: 'zero_trust',
+          parameters: action.parameters
+        }));
+
+      return {
+        decision: 'not_applicable',
+        reason: result.reasoning.join('; ') || 'No Zero Trust policy objects',
+        obligations,
+        details: { appliedPolicies: result.appliedPolicies, confidence: result.confidence }
+      };
+    }
+  };
+}
+
+/**
+ * Blockchain access policies for the resource type: permit when any policy
+ * allows, deny when policies exist and all of them refuse.
+ */
+export function blockchainPolicySource(
+  engine: Pick<BlockchainPolicyEngine, 'getPoliciesForResource' | 'evaluatePolicy'>
+): DecisionSource {
+  return {
+    name: 'blockchain_policy',
+    async evaluate(request) {
+      const policies = engine.getPoliciesForResource(request.resource.type);
+      if (policies.length === 0) {
+        return { decision: 'not_applicable', reason: 'No blockchain policy for resource' };
+      }
+
+      const trustScore = request.context.trustScore ?? Math.round(
+        (await ZeroTrustEngine.calculateTrustScore(PolicyDecisionPoint.toZeroTrustContext(request))).overall * 100
+      );
+
+      const failures: string[] = [];
+      const mfaOnly: string[] = [];
+      for (const policy of policies) {
+        const result = await engine.evaluatePolicy(policy.id, {
+          userId: request.subject.id,
+          userRoles: request.subject.roles,
+          resource: request.resource.type,
+          action: request.action,
+          timestamp: request.context.timestamp,
+          ipAddress: request.context.ipAddress,
+          deviceFingerprint: request.context.deviceFingerprint,
+          trustScore,
+          mfaVerified: request.context.mfaVerified ?? false,
+          quantumSignature: request.context.quantumSignature
+        });
+
+        if (result.allowed) {
+          const obligations: Obligation[] = [];
+          if (result.requiresApproval) {
+            obligations.push({ type: 'require_approval', source: 'blockchain_policy', parameters: { policyId: policy.id } });
+          }
+          return {
+            decision: 'permit',
+            reason: `Policy '${policy.name}' allows: ${result.reason}`,
+            obligations,
+            details: { policyId: policy.id, riskScore: result.riskScore, matched: result.matchedConditions }
+          };
+        }
+
+        failures.push(`${policy.name}: ${result.reason}`);
+        if (result.failedConditions.length === 1 && result.failedConditions[0] === 'mfa_required') {
+          mfaOnly.push(policy.id);
+        }
+      }
+
+      // MFA as the only failed condition becomes an obligation the caller can step up to
+      return {
+        decision: 'deny',
+        reason: failures.join('; '),
+        obligations: mfaOnly.length > 0
+          ? [{ type: 'require_mfa', source: 'blockchain_policy', parameters: { policyIds: mfaOnly } }]
+          : []
+      };
+    }
+  };
+}
+
+export const rolePermissionSource: DecisionSource = {
+  name: 'role_permissions',
+  async evaluate(request) {
+    // Admins have all permissions
+    if (request.subject.roles.includes('admin')) {
+      return { decision: 'permit', reason: 'Admin role' };
+    }
+    if (request.subject.roles.length === 0) {
+      return { decision: 'not_applicable', reason: 'Subject has no role' };
+    }
+
+    const { data, error } = await supabase
+      .from('role_permissions')
+      .select('role, permissions!inner(name, action, resource)')
+      .in('role', request.subject.roles as ('admin' | 'moderator' | 'user')[])
+      .eq('permissions.action', request.action)
+      .eq('permissions.resource', request.resource.type);
+
+    if (error) throw error;
+
+    const match = (data || [])[0];
+    return match
+      ? { decision: 'permit', reason: `Granted to role '${match.role}'`, details: { role: match.role } }
+      : { decision: 'not_applicable', reason: `No role grants ${request.action} on ${request.resource.type}` };
+  }
+};
+
+export const groupPermissionSource: DecisionSource = {
+  name: 'group_permissions',
+  async evaluate(request) {
+    const { data, error } = await supabase.rpc('check_user_group_permissions', {
+      _user_id: request.subject.id,
+      _action: request.action,
+      _resource: request.resource.type
+    });
+
+    if (error) throw error;
+
+    return data
+      ? { decision: 'permit', reason: 'Granted through group membership' }
+      : { decision: 'not_applicable', reason: 'No group grants this permission' };
+  }
+};
+
+export const timeBasedPermissionSource: DecisionSource = {
+  name: 'time_based_permissions',
+  async evaluate(request) {
+    const { data, error } = await supabase.rpc('has_time_based_permission', {
+      _user_id: request.subject.id,
+      _permission_action: request.action,
+      _permission_resource: request.resource.type,
+      _check_time: request.context.timestamp.toISOString()
+    });
+
+    if (error) throw error;
+
+    return data
+      ? { decision: 'permit', reason: 'Time-based permission active now' }
+      : { decision: 'not_applicable', reason: 'No time-based permission active now' };
+  }
+};
+
+export const jitAccessSource: DecisionSource = {
+  name: 'jit_access',
+  async evaluate(request) {
+    if (!request.resource.id) {
+      return { decision: 'not_applicable', reason: 'JIT access is granted per resource instance' };
+    }
+
+    const { data, error } = await supabase.rpc('has_jit_access', {
+      _user_id: request.subject.id,
+      _resource_type: request.resource.type,
+      _resource_id: request.resource.id
+    });
+
+    if (error) throw error;
+
+    return data
+      ? {
+          decision: 'permit',
+          reason: 'Active JIT access session',
+          obligations: [{ type: 'monitor', source: 'jit_access', parameters: { level: 'session' } }]
+        }
+      : { decision: 'not_applicable', reason: 'No active JIT session' };
+  }
+};
+
+// ============================================================================
+// Policy Decision Point Class
+// ============================================================================
+
+export class PolicyDecisionPoint {
+  private algorithm: CombiningAlgorithm;
+  private sources: DecisionSource[];
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(options: PDPOptions = {}) {
+    this.algorithm = options.algorithm || 'deny-overrides';
+    this.sources = options.sources || PolicyDecisionPoint.defaultSources(options);
+
+    if (options.enableBlockchainAudit ?? true) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  /**
+   * Default source order. Order matters for first-applicable: restrictions
+   * come before grants, and standing grants before temporary ones.
+   */
+  static defaultSources(options: Pick<PDPOptions, 'zeroTrustPolicies' | 'blockchainPolicies'> = {}): DecisionSource[] {
+    return [
+      zeroTrustSource(options.zeroTrustPolicies),
+      ...(options.blockchainPolicies ? [blockchainPolicySource(options.blockchainPolicies)] : []),
+      rolePermissionSource,
+      groupPermissionSource,
+      timeBasedPermissionSource,
+      jitAccessSource
+    ];
+  }
+
+  /**
+   * Combine source results. Obligations of a permit are collected from every
+   * source that did not deny; a deny carries only the deniers' obligations.
+   * Obligations of the same type with different parameters (approval under
+   * two policies) are kept apart.
+   */
+  static combine(
+    algorithm: CombiningAlgorithm,
+    results: (SourceResult & { source: string })[]
+  ): { decision: Decision; reason: string; obligations: Obligation[] } {
+    const first = (decision: Decision) => results.find(r => r.decision === decision);
+    let decisive: (SourceResult & { source: string }) | undefined;
+
+    switch (algorithm) {
+      case 'deny-overrides':
+        decisive = first('deny') || first('indeterminate') || first('permit');
+        break;
+      case 'permit-overrides':
+        decisive = first('permit') || first('deny') || first('indeterminate');
+        break;
+      case 'first-applicable':
+        decisive = results.find(r => r.decision !== 'not_applicable');
+        break;
+    }
+
+    if (!decisive) {
+      return { decision: 'not_applicable', reason: 'No source grants this access', obligations: [] };
+    }
+
+    const contributing = decisive.decision === 'permit'
+      ? results.filter(r => r.decision !== 'deny')
+      : [decisive];
+
+    const seen = new Set<string>();
+    const obligations = contributing
+      .flatMap(r => r.obligations || [])
+      .filter(o => {
+        const key = PolicyDecisionPoint.obligationKey(o);
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+
+    return {
+      decision: decisive.decision,
+      reason: `${decisive.source}: ${decisive.reason}`,
+      obligations
+    };
+  }
+
+  private static obligationKey(obligation: Obligation): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) return value.map(canonical);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(
+          Object.keys(value).sort().map(k => [k, canonical((value as Record<string, unknown>)[k])])
+        );
+      }
+      return value;
+    };
+    return JSON.stringify([obligation.type, canonical(obligation.parameters ?? {})]);
+  }
+
+  static toZeroTrustContext(request: DecisionRequest): ZeroTrustContext {
+    const { subject, resource, context } = request;
+    const now = context.timestamp;
+    const primaryRole = ['admin', 'moderator', 'user'].find(r => subject.roles.includes(r)) || subject.roles[0] || 'user';
+
+    return {
+      user: {
+        id: subject.id,
+        role: primaryRole,
+        groups: subject.groups || [],
+        riskScore: subject.riskScore ?? 0,
+        lastLogin: context.session?.startTime || now,
+        mfaEnabled: context.mfaVerified ?? false
+      },
+      device: {
+        id: context.deviceFingerprint || 'unknown',
+        type: 'browser',
+        os: 'unknown',
+        isManaged: true,
+        isCompliant: true,
+        trustScore: 0.7,
+        lastSeen: now,
+        ...context.device
+      },
+      network: {
+        ipAddress: context.ipAddress || 'unknown',
+        location: 'unknown',
+        isVPN: false,
+        isCorporate: false,
+        threatLevel: 0,
+        ...context.network
+      },
+      application: {
+        id: resource.id || resource.type,
+        name: resource.type,
+        dataClassification: resource.dataClassification || 'internal',
+        requiresApproval: false
+      },
+      session: {
+        id: 'current',
+        startTime: now,
+        lastActivity: now,
+        isElevated: false,
+        mfaVerified: context.mfaVerified ?? false,
+        ...context.session
+      },
+      request: {
+        resource: resource.type,
+        action: request.action,
+        timestamp: now,
+        riskScore: subject.riskScore ?? 0
+      }
+    };
+  }
+
+  /**
+   * Decide whether the subject may perform the action on the resource.
+   * Source errors are recorded as indeterminate rather than thrown.
+   */
+  async decide(
+    subject: DecisionSubject | string,
+    action: string,
+    resource: DecisionResource | string,
+    context: DecisionContext = {},
+    algorithm: CombiningAlgorithm = this.algorithm
+  ): Promise<PolicyDecision> {
+    const subjectInput = typeof subject === 'string' ? { id: subject } : subject;
+    const resourceInput = typeof resource === 'string' ? { type: resource } : resource;
+
+    const request: DecisionRequest = {
+      subject: { ...subjectInput, roles: subjectInput.roles ?? await this.getRoles(subjectInput.id) },
+      action,
+      resource: resourceInput,
+      context: { ...context, timestamp: context.timestamp || new Date() }
+    };
+
+    const trace: TraceEntry[] = [];
+
+    for (const [order, source] of this.sources.entries()) {
+      const started = performance.now();
+      let result: SourceResult;
+
+      try {
+        result = await source.evaluate(request);
+      } catch (error) {
+        console.error(`Error evaluating ${source.name}:`, error);
+        result = {
+          decision: 'indeterminate',
+          reason: error instanceof Error ? error.message : 'Source evaluation failed'
+        };
+      }
+
+      trace.push({ ...result, source: source.name, order, durationMs: performance.now() - started });
+
+      // First-applicable can stop at the first source that decides
+      if (algorithm === 'first-applicable' && result.decision !== 'not_applicable') break;
+    }
+
+    const combined = PolicyDecisionPoint.combine(algorithm, trace);
+
+    const decision: PolicyDecision = {
+      decision: combined.decision,
+      allowed: combined.decision === 'permit',
+      algorithm,
+      obligations: combined.obligations,
+      reason: combined.reason,
+      trace,
+      request: { subjectId: request.subject.id, action, resource: resourceInput },
+      evaluatedAt: new Date().toISOString()
+    };
+
+    // Denials and monitored grants go to the audit chain; routine permits do not
+    if (this.blockchain && (!decision.allowed || decision.obligations.some(o => o.type === 'monitor'))) {
+      await this.blockchain.logAuditEvent(request.subject.id, decision.allowed ? 'PDP_PERMIT' : 'PDP_DENY', resourceInput.type, {
+        action,
+        resourceId: resourceInput.id,
+        decision: decision.decision,
+        algorithm,
+        reason: decision.reason,
+        obligations: decision.obligations.map(o => o.type),
+        trace: trace.map(t => ({ source: t.source, decision: t.decision }))
+      });
+    }
+
+    return decision;
+  }
+
+  /**
+   * Decision for a request that never reached the sources (no session).
+   */
+  static denied(action: string, resource: DecisionResource | string, reason: string): PolicyDecision {
+    const resourceInput = typeof resource === 'string' ? { type: resource } : resource;
+    return {
+      decision: 'deny',
+      allowed: false,
+      algorithm: 'deny-overrides',
+      obligations: [],
+      reason,
+      trace: [],
+      request: { subjectId: '', action, resource: resourceInput },
+      evaluatedAt: new Date().toISOString()
+    };
+  }
+
+  private async getRoles(userId: string): Promise<string[]> {
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error fetching roles for decision:', error);
+      return [];
+    }
+
+    return (data || []).map(r => r.role);
+  }
+}
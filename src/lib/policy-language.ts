@@ -0,0 +1,946 @@
+/**
+ * Access Policy Language
+ *
+ * A small textual language for authoring access policies that are reviewed
+ * and diffed as text, then compiled to the runtime forms of the
+ * BlockchainPolicyEngine (BlockchainPolicy) and the ZeroTrustEngine
+ * (ZeroTrustPolicy).
+ *
+ * Features:
+ * - Lexer and recursive-descent parser with line/column diagnostics
+ * - Type checker against the PolicyEvaluationContext and ZeroTrustContext
+ *   schemas (field types, operators each engine can enforce, literal types)
+ * - Compiler to both engines' runtime forms
+ * - Formatter that turns runtime policies back into source
+ * - Line diff for reviewing changes between versions
+ *
+ * Example:
+ *
+ *   access policy "Business Hours Document Access" {
+ *     resource "documents"
+ *     roles ["user", "moderator", "admin"]
+ *     trust >= 60
+ *     days [mon, tue, wed, thu, fri]
+ *     hours 9..17
+ *     require quantum_signature
+ *     when userRoles contains "user"
+ *   }
+ *
+ *   zero_trust policy "High Risk Network Block" {
+ *     type network
+ *     priority 95
+ *     when network.threatLevel > 0.8
+ *     then deny
+ *   }
+ */
+
+import type { BlockchainPolicy, PolicyCondition as BlockchainCondition } from './blockchain-policy-engine';
+import type { ZeroTrustPolicy, PolicyAction, PolicyCondition as ZeroTrustCondition } from './zero-trust-engine';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type PolicyKind = 'access' | 'zero_trust';
+export type LiteralValue = string | number | boolean;
+export type ConditionOperator = '==' | '!=' | '>' | '<' | 'contains' | 'not contains' | 'in' | 'matches';
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface PolicyDiagnostic extends SourcePosition {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ConditionNode extends SourcePosition {
+  field: string;
+  operator: ConditionOperator;
+  value: LiteralValue | [number, number];
+}
+
+export interface ActionNode extends SourcePosition {
+  type: string;
+  parameters: Record<string, LiteralValue | LiteralValue[]>;
+}
+
+export interface StatementNode extends SourcePosition {
+  keyword: string;
+  args: (LiteralValue | LiteralValue[] | [number, number])[];
+  condition?: ConditionNode;
+  actions?: ActionNode[];
+}
+
+export interface PolicyNode extends SourcePosition {
+  kind: PolicyKind;
+  name: string;
+  statements: StatementNode[];
+}
+
+export type CompiledPolicy =
+  | { kind: 'access'; policy: BlockchainPolicy }
+  | { kind: 'zero_trust'; policy: ZeroTrustPolicy };
+
+export interface CompileResult {
+  ok: boolean;
+  policies: CompiledPolicy[];
+  diagnostics: PolicyDiagnostic[];
+}
+
+type FieldType = 'number' | 'string' | 'boolean' | 'string[]' | { enum: string[] };
+
+interface Token extends SourcePosition {
+  type: 'string' | 'number' | 'ident' | 'punct' | 'eof';
+  value: string;
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+/**
+ * PolicyEvaluationContext fields and the BlockchainPolicyEngine condition
+ * type each compiles to. Fields without a condition type cannot be enforced
+ * by that engine.
+ */
+const ACCESS_SCHEMA: Record<string, { type: FieldType; conditionType?: BlockchainCondition['type'] }> = {
+  trustScore: { type: 'number', conditionType: 'trust_score' },
+  userRoles: { type: 'string[]', conditionType: 'role' },
+  ipAddress: { type: 'string', conditionType: 'location' },
+  deviceFingerprint: { type: 'string', conditionType: 'device' },
+  mfaVerified: { type: 'boolean' },
+  userId: { type: 'string' },
+  resource: { type: 'string' },
+  action: { type: 'string' }
+};
+
+const ZERO_TRUST_SCHEMA: Record<string, FieldType> = {
+  'user.id': 'string',
+  'user.role': 'string',
+  'user.groups': 'string[]',
+  'user.riskScore': 'number',
+  'user.mfaEnabled': 'boolean',
+  'device.id': 'string',
+  'device.type': 'string',
+  'device.os': 'string',
+  'device.isManaged': 'boolean',
+  'device.isCompliant': 'boolean',
+  'device.trustScore': 'number',
+  'network.ipAddress': 'string',
+  'network.location': 'string',
+  'network.isVPN': 'boolean',
+  'network.isCorporate': 'boolean',
+  'network.threatLevel': 'number',
+  'application.id': 'string',
+  'application.name': 'string',
+  'application.dataClassification': { enum: ['public', 'internal', 'confidential', 'restricted'] },
+  'application.requiresApproval': 'boolean',
+  'session.id': 'string',
+  'session.isElevated': 'boolean',
+  'session.mfaVerified': 'boolean',
+  'request.resource': 'string',
+  'request.action': 'string',
+  'request.riskScore': 'number'
+};
+
+const ZERO_TRUST_OPERATORS: Record<string, ConditionOperator[]> = {
+  number: ['==', '!=', '>', '<', 'in'],
+  string: ['==', '!=', 'contains', 'not contains', 'matches'],
+  boolean: ['==', '!='],
+  'string[]': ['contains', 'not contains'],
+  enum: ['==', '!=']
+};
+
+const ACCESS_OPERATORS: Record<string, ConditionOperator[]> = {
+  number: ['==', '>', '<'],
+  string: ['==', 'contains', 'not contains'],
+  'string[]': ['contains', '=='],
+  boolean: ['==']
+};
+
+const ZERO_TRUST_OPERATOR_NAMES: Record<ConditionOperator, ZeroTrustCondition['operator']> = {
+  '==': 'equals',
+  '!=': 'not_equals',
+  '>': 'greater_than',
+  '<': 'less_than',
+  contains: 'contains',
+  'not contains': 'not_contains',
+  in: 'in_range',
+  matches: 'regex'
+};
+
+const ACCESS_OPERATOR_NAMES: Partial<Record<ConditionOperator, BlockchainCondition['operator']>> = {
+  '==': 'equals',
+  '>': 'greater_than',
+  '<': 'less_than',
+  contains: 'contains',
+  'not contains': 'not_contains'
+};
+
+const ZERO_TRUST_POLICY_TYPES: ZeroTrustPolicy['policyType'][] = ['device', 'network', 'identity', 'application', 'data', 'location'];
+const ZERO_TRUST_ACTIONS: PolicyAction['type'][] = ['allow', 'deny', 'require_mfa', 'require_approval', 'limit_access', 'monitor', 'step_up_auth'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const STATEMENTS: Record<PolicyKind, string[]> = {
+  access: ['id', 'resource', 'roles', 'trust', 'require', 'days', 'hours', 'expires', 'when', 'inactive', 'version'],
+  zero_trust: ['id', 'type', 'priority', 'when', 'then', 'inactive', 'version']
+};
+const REPEATABLE = ['when', 'then', 'require'];
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+function tokenize(source: string, diagnostics: PolicyDiagnostic[]): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let n = 0; n < count; n++) {
+      if (source[i] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      i++;
+    }
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+
+    if (ch === '#' || source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') advance(1);
+      continue;
+    }
+
+    const start = { line, column };
+
+    if (ch === '"') {
+      let value = '';
+      advance(1);
+      while (i < source.length && source[i] !== '"' && source[i] !== '\n') {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          value += source[i + 1];
+          advance(2);
+        } else {
+          value += source[i];
+          advance(1);
+        }
+      }
+      if (source[i] !== '"') {
+        diagnostics.push({ ...start, severity: 'error', message: 'Unterminated string' });
+      } else {
+        advance(1);
+      }
+      tokens.push({ ...start, type: 'string', value });
+      continue;
+    }
+
+    // Numbers stop before '..' so ranges like 9..17 lex as three tokens
+    const number = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(source.slice(i));
+    if (number && (ch !== '-' || /\d/.test(source[i + 1] || ''))) {
+      // Letters straight after a number (1e, 12h) would otherwise lex as a separate statement
+      const trailing = /^[A-Za-z0-9_]+/.exec(source.slice(i + number[0].length));
+      if (trailing) {
+        diagnostics.push({
+          ...start,
+          severity: 'error',
+          message: `Invalid number literal '${number[0]}${trailing[0]}'`
+        });
+      }
+      // Kept as a number so parsing carries on past the bad literal
+      tokens.push({ ...start, type: 'number', value: number[0] });
+      advance(number[0].length + (trailing?.[0].length ?? 0));
+      continue;
+    }
+
+    const ident = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i));
+    if (ident) {
+      tokens.push({ ...start, type: 'ident', value: ident[0] });
+      advance(ident[0].length);
+      continue;
+    }
+
+    const punct = ['..', '==', '!=', '>=', '{', '}', '[', ']', '(', ')', ',', ':', '>', '<'].find(p => source.startsWith(p, i));
+    if (punct) {
+      tokens.push({ ...start, type: 'punct', value: punct });
+      advance(punct.length);
+      continue;
+    }
+
+    diagnostics.push({ ...start, severity: 'error', message: `Unexpected character '${ch}'` });
+    advance(1);
+  }
+
+  tokens.push({ line, column, type: 'eof', value: '' });
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+class ParseError extends Error {
+  constructor(message: string, public position: SourcePosition) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private diagnostics: PolicyDiagnostic[]) {}
+
+  parseFile(): PolicyNode[] {
+    const policies: PolicyNode[] = [];
+
+    while (this.peek().type !== 'eof') {
+      try {
+        policies.push(this.parsePolicy());
+      } catch (error) {
+        if (!(error instanceof ParseError)) throw error;
+        this.diagnostics.push({ ...error.position, severity: 'error', message: error.message });
+        this.recover();
+      }
+    }
+
+    return policies;
+  }
+
+  private parsePolicy(): PolicyNode {
+    const kindToken = this.expect('ident');
+    if (kindToken.value !== 'access' && kindToken.value !== 'zero_trust') {
+      throw new ParseError(`Expected 'access' or 'zero_trust', found '${kindToken.value}'`, kindToken);
+    }
+    this.expectValue('policy');
+    const name = this.expect('string').value;
+    this.expectValue('{');
+
+    const statements: StatementNode[] = [];
+    while (!this.check('}')) {
+      if (this.peek().type === 'eof') {
+        throw new ParseError(`Missing '}' to close policy "${name}"`, this.peek());
+      }
+      statements.push(this.parseStatement());
+    }
+    this.expectValue('}');
+
+    return { kind: kindToken.value, name, statements, line: kindToken.line, column: kindToken.column };
+  }
+
+  private parseStatement(): StatementNode {
+    const keyword = this.expect('ident');
+    const node: StatementNode = { keyword: keyword.value, args: [], line: keyword.line, column: keyword.column };
+
+    switch (keyword.value) {
+      case 'id':
+      case 'resource':
+      case 'expires':
+        node.args.push(this.expect('string').value);
+        break;
+      case 'roles':
+      case 'days':
+        node.args.push(this.parseList());
+        break;
+      case 'trust':
+        this.expectValue('>=');
+        node.args.push(this.parseNumber());
+        break;
+      case 'require':
+      case 'type':
+        node.args.push(this.expect('ident').value);
+        break;
+      case 'priority':
+      case 'version':
+        node.args.push(this.parseNumber());
+        break;
+      case 'hours':
+        node.args.push(this.parseRange());
+        break;
+      case 'inactive':
+        break;
+      case 'when':
+        node.condition = this.parseCondition();
+        break;
+      case 'then':
+        node.actions = [this.parseAction()];
+        while (this.match(',')) node.actions.push(this.parseAction());
+        break;
+      default:
+        throw new ParseError(`Unknown statement '${keyword.value}'`, keyword);
+    }
+
+    return node;
+  }
+
+  private parseCondition(): ConditionNode {
+    const field = this.expect('ident');
+    const opToken = this.peek();
+    let operator: ConditionOperator;
+
+    if (this.match('==')) operator = '==';
+    else if (this.match('!=')) operator = '!=';
+    else if (this.match('>')) operator = '>';
+    else if (this.match('<')) operator = '<';
+    else if (this.matchIdent('contains')) operator = 'contains';
+    else if (this.matchIdent('not')) {
+      if (!this.matchIdent('contains')) throw new ParseError("Expected 'contains' after 'not'", this.peek());
+      operator = 'not contains';
+    } else if (this.matchIdent('in')) operator = 'in';
+    else if (this.matchIdent('matches')) operator = 'matches';
+    else throw new ParseError(`Expected an operator after '${field.value}'`, opToken);
+
+    const value = operator === 'in' ? this.parseRange() : this.parseLiteral();
+    return { field: field.value, operator, value, line: field.line, column: field.column };
+  }
+
+  private parseAction(): ActionNode {
+    const name = this.expect('ident');
+    const parameters: Record<string, LiteralValue | LiteralValue[]> = {};
+
+    if (this.match('(')) {
+      if (!this.check(')')) {
+        do {
+          const key = this.expect('ident').value;
+          this.expectValue(':');
+          parameters[key] = this.check('[') ? this.parseList() : this.parseLiteral();
+        } while (this.match(','));
+      }
+      this.expectValue(')');
+    }
+
+    return { type: name.value, parameters, line: name.line, column: name.column };
+  }
+
+  private parseList(): LiteralValue[] {
+    this.expectValue('[');
+    const items: LiteralValue[] = [];
+    if (!this.check(']')) {
+      do {
+        items.push(this.parseLiteral());
+      } while (this.match(','));
+    }
+    this.expectValue(']');
+    return items;
+  }
+
+  private parseRange(): [number, number] {
+    const from = this.parseNumber();
+    this.expectValue('..');
+    return [from, this.parseNumber()];
+  }
+
+  private parseLiteral(): LiteralValue {
+    const token = this.advance();
+    if (token.type === 'string') return token.value;
+    if (token.type === 'number') return Number(token.value);
+    if (token.type === 'ident') {
+      if (token.value === 'true') return true;
+      if (token.value === 'false') return false;
+      // Bare identifiers are allowed for enum-like values (mon, confidential)
+      return token.value;
+    }
+    throw new ParseError(`Expected a value, found '${token.value || 'end of input'}'`, token);
+  }
+
+  private parseNumber(): number {
+    return Number(this.expect('number').value);
+  }
+
+  private recover() {
+    // Skip to the start of the next policy
+    while (this.peek().type !== 'eof') {
+      const token = this.advance();
+      if (token.value === '}' && ['access', 'zero_trust'].includes(this.peek().value)) return;
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'eof') this.index++;
+    return token;
+  }
+
+  private check(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private match(value: string): boolean {
+    if (!this.check(value)) return false;
+    this.advance();
+    return true;
+  }
+
+  private matchIdent(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'ident' || token.value !== value) return false;
+    this.advance();
+    return true;
+  }
+
+  private expect(type: Token['type']): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      throw new ParseError(`Expected ${type}, found '${token.value || 'end of input'}'`, token);
+    }
+    return this.advance();
+  }
+
+  private expectValue(value: string): Token {
+    const token = this.peek();
+    if (token.value !== value || token.type === 'string') {
+      throw new ParseError(`Expected '${value}', found '${token.value || 'end of input'}'`, token);
+    }
+    return this.advance();
+  }
+}
+
+// ============================================================================
+// Policy Compiler
+// ============================================================================
+
+export class PolicyCompiler {
+  static parse(source: string): { policies: PolicyNode[]; diagnostics: PolicyDiagnostic[] } {
+    const diagnostics: PolicyDiagnostic[] = [];
+    const tokens = tokenize(source, diagnostics);
+    const policies = new Parser(tokens, diagnostics).parseFile();
+    return { policies, diagnostics };
+  }
+
+  /**
+   * Type-check parsed policies: statements allowed for the policy kind,
+   * fields and operators against the target engine's context schema, and
+   * literal types.
+   */
+  static check(policies: PolicyNode[]): PolicyDiagnostic[] {
+    const diagnostics: PolicyDiagnostic[] = [];
+    const error = (at: SourcePosition, message: string) => diagnostics.push({ ...at, severity: 'error', message });
+    const warn = (at: SourcePosition, message: string) => diagnostics.push({ ...at, severity: 'warning', message });
+    const ids = new Map<string, PolicyNode>();
+
+    for (const policy of policies) {
+      const seen = new Set<string>();
+
+      for (const statement of policy.statements) {
+        if (!STATEMENTS[policy.kind].includes(statement.keyword)) {
+          error(statement, `'${statement.keyword}' is not allowed in ${policy.kind} policies`);
+          continue;
+        }
+        if (seen.has(statement.keyword) && !REPEATABLE.includes(statement.keyword)) {
+          error(statement, `Duplicate '${statement.keyword}' statement`);
+        }
+        seen.add(statement.keyword);
+
+        this.checkStatement(policy.kind, statement, error, warn);
+      }
+
+      if (policy.kind === 'access') {
+        if (!seen.has('resource')) error(policy, `Access policy "${policy.name}" needs a 'resource'`);
+        if (!seen.has('roles')) error(policy, `Access policy "${policy.name}" needs 'roles'`);
+      } else {
+        if (!seen.has('type')) error(policy, `Zero Trust policy "${policy.name}" needs a 'type'`);
+        if (!seen.has('then')) error(policy, `Zero Trust policy "${policy.name}" needs at least one 'then' action`);
+        if (!seen.has('when')) warn(policy, `Zero Trust policy "${policy.name}" has no conditions and applies to every request`);
+      }
+
+      const id = this.policyId(policy);
+      const previous = ids.get(id);
+      if (previous) {
+        error(policy, `Policy id '${id}' is already used by "${previous.name}" (line ${previous.line})`);
+      }
+      ids.set(id, policy);
+    }
+
+    return diagnostics;
+  }
+
+  private static checkStatement(
+    kind: PolicyKind,
+    statement: StatementNode,
+    error: (at: SourcePosition, message: string) => void,
+    warn: (at: SourcePosition, message: string) => void
+  ) {
+    const [arg] = statement.args;
+
+    switch (statement.keyword) {
+      case 'roles': {
+        const roles = arg as LiteralValue[];
+        if (roles.length === 0) error(statement, 'At least one role is required');
+        if (roles.some(r => typeof r !== 'string')) error(statement, 'Roles must be strings');
+        break;
+      }
+      case 'trust':
+        if ((arg as number) < 0 || (arg as number) > 100) error(statement, 'Trust score must be between 0 and 100');
+        break;
+      case 'require':
+        if (arg !== 'mfa' && arg !== 'quantum_signature') {
+          error(statement, `Unknown requirement '${arg}' (expected mfa or quantum_signature)`);
+        }
+        break;
+      case 'days':
+        for (const day of arg as LiteralValue[]) {
+          if (this.dayNumber(day) === null) error(statement, `Invalid day '${day}' (use sun..sat or 0-6)`);
+        }
+        break;
+      case 'hours': {
+        const [start, end] = arg as [number, number];
+        if (start < 0 || end > 24 || start >= end) error(statement, 'Hours must be a range within 0..24 with start before end');
+        break;
+      }
+      case 'expires':
+        if (isNaN(Date.parse(arg as string))) error(statement, `Invalid date '${arg}'`);
+        break;
+      case 'type':
+        if (!ZERO_TRUST_POLICY_TYPES.includes(arg as ZeroTrustPolicy['policyType'])) {
+          error(statement, `Unknown policy type '${arg}' (expected ${ZERO_TRUST_POLICY_TYPES.join(', ')})`);
+        }
+        break;
+      case 'then':
+        for (const action of statement.actions || []) {
+          if (!ZERO_TRUST_ACTIONS.includes(action.type as PolicyAction['type'])) {
+            error(action, `Unknown action '${action.type}' (expected ${ZERO_TRUST_ACTIONS.join(', ')})`);
+          }
+        }
+        break;
+      case 'when':
+        if (statement.condition) {
+          if (kind === 'access') this.checkAccessCondition(statement.condition, error);
+          else this.checkZeroTrustCondition(statement.condition, error, warn);
+        }
+        break;
+    }
+  }
+
+  private static checkAccessCondition(condition: ConditionNode, error: (at: SourcePosition, message: string) => void) {
+    const field = ACCESS_SCHEMA[condition.field];
+    if (!field) {
+      error(condition, `Unknown field '${condition.field}' (access policies see ${Object.keys(ACCESS_SCHEMA).join(', ')})`);
+      return;
+    }
+
+    if (condition.field === 'mfaVerified') {
+      if (condition.operator !== '==' || condition.value !== true) {
+        error(condition, "Only 'mfaVerified == true' is supported; it compiles to 'require mfa'");
+      }
+      return;
+    }
+
+    if (!field.conditionType) {
+      error(condition, `'${condition.field}' cannot be enforced by the blockchain policy engine`);
+      return;
+    }
+
+    const allowed = ACCESS_OPERATORS[field.type as string];
+    if (!allowed.includes(condition.operator)) {
+      error(condition, `Operator '${condition.operator}' is not supported on ${this.typeName(field.type)} field '${condition.field}' (use ${allowed.join(', ')})`);
+      return;
+    }
+
+    this.checkLiteral(condition, field.type === 'string[]' ? 'string' : field.type, error);
+  }
+
+  private static checkZeroTrustCondition(
+    condition: ConditionNode,
+    error: (at: SourcePosition, message: string) => void,
+    warn: (at: SourcePosition, message: string) => void
+  ) {
+    const type = ZERO_TRUST_SCHEMA[condition.field];
+    if (!type) {
+      const group = condition.field.split('.')[0];
+      const known = Object.keys(ZERO_TRUST_SCHEMA).filter(f => f.startsWith(`${group}.`));
+      error(condition, `Unknown field '${condition.field}'${known.length ? ` (did you mean one of ${known.join(', ')}?)` : ''}`);
+      return;
+    }
+
+    const allowed = ZERO_TRUST_OPERATORS[typeof type === 'string' ? type : 'enum'];
+    if (!allowed.includes(condition.operator)) {
+      error(condition, `Operator '${condition.operator}' is not supported on ${this.typeName(type)} field '${condition.field}' (use ${allowed.join(', ')})`);
+      return;
+    }
+
+    if (condition.operator === 'in') {
+      const [min, max] = condition.value as [number, number];
+      if (min > max) error(condition, 'Range start is greater than its end');
+      return;
+    }
+
+    if (condition.operator === 'matches') {
+      try {
+        new RegExp(String(condition.value));
+      } catch {
+        error(condition, `Invalid regular expression '${condition.value}'`);
+      }
+      return;
+    }
+
+    if (typeof type === 'object') {
+      if (!type.enum.includes(String(condition.value))) {
+        error(condition, `'${condition.value}' is not one of ${type.enum.join(', ')}`);
+      }
+      return;
+    }
+
+    if (type === 'string[]') {
+      warn(condition, `'${condition.operator}' on a list matches substrings of the joined values`);
+    }
+
+    this.checkLiteral(condition, type === 'string[]' ? 'string' : type, error);
+  }
+
+  private static checkLiteral(condition: ConditionNode, type: FieldType, error: (at: SourcePosition, message: string) => void) {
+    const actual = typeof condition.value;
+    if (type === 'number' && actual !== 'number') error(condition, `'${condition.field}' is a number; found ${actual}`);
+    if (type === 'boolean' && actual !== 'boolean') error(condition, `'${condition.field}' is a boolean; found ${actual}`);
+    if (type === 'string' && actual !== 'string') error(condition, `'${condition.field}' is a string; found ${actual}`);
+  }
+
+  /**
+   * Parse, check and compile. Nothing is returned unless the source is
+   * free of errors, so a half-valid file is never deployed.
+   */
+  static compile(source: string): CompileResult {
+    const parsed = this.parse(source);
+    const diagnostics = [...parsed.diagnostics, ...this.check(parsed.policies)]
+      .sort((a, b) => a.line - b.line || a.column - b.column);
+
+    if (diagnostics.some(d => d.severity === 'error')) {
+      return { ok: false, policies: [], diagnostics };
+    }
+
+    const policies = parsed.policies.map(policy =>
+      policy.kind === 'access'
+        ? { kind: 'access' as const, policy: this.toBlockchainPolicy(policy) }
+        : { kind: 'zero_trust' as const, policy: this.toZeroTrustPolicy(policy) }
+    );
+
+    return { ok: true, policies, diagnostics };
+  }
+
+  private static toBlockchainPolicy(node: PolicyNode): BlockchainPolicy {
+    const get = (keyword: string) => node.statements.find(s => s.keyword === keyword);
+    const requirements = node.statements.filter(s => s.keyword === 'require').map(s => s.args[0]);
+    const days = get('days')?.args[0] as LiteralValue[] | undefined;
+    const hours = get('hours')?.args[0] as [number, number] | undefined;
+    const expires = get('expires')?.args[0] as string | undefined;
+    const conditions: BlockchainCondition[] = [];
+    let mfaRequired = requirements.includes('mfa');
+
+    for (const statement of node.statements.filter(s => s.keyword === 'when')) {
+      const condition = statement.condition!;
+      if (condition.field === 'mfaVerified') {
+        mfaRequired = true;
+        continue;
+      }
+      conditions.push({
+        type: ACCESS_SCHEMA[condition.field].conditionType!,
+        // Role membership compiles to equality against each of the user's roles
+        operator: condition.field === 'userRoles' ? 'equals' : ACCESS_OPERATOR_NAMES[condition.operator]!,
+        value: condition.value,
+        required: true
+      });
+    }
+
+    return {
+      id: this.policyId(node),
+      name: node.name,
+      resource: get('resource')!.args[0] as string,
+      allowedRoles: get('roles')!.args[0] as string[],
+      timeRestrictions: days || hours
+        ? {
+            days: days ? days.map(d => this.dayNumber(d)!) : [0, 1, 2, 3, 4, 5, 6],
+            hours: hours ? { start: hours[0], end: hours[1] } : { start: 0, end: 24 }
+          }
+        : undefined,
+      quantumSignatureRequired: requirements.includes('quantum_signature'),
+      trustScoreMinimum: (get('trust')?.args[0] as number | undefined) ?? 0,
+      mfaRequired,
+      conditions,
+      createdAt: new Date(),
+      expiresAt: expires ? new Date(expires) : undefined,
+      isActive: !get('inactive'),
+      version: (get('version')?.args[0] as number | undefined) ?? 1
+    };
+  }
+
+  private static toZeroTrustPolicy(node: PolicyNode): ZeroTrustPolicy {
+    const get = (keyword: string) => node.statements.find(s => s.keyword === keyword);
+    const now = new Date();
+
+    return {
+      id: this.policyId(node),
+      name: node.name,
+      policyType: get('type')!.args[0] as ZeroTrustPolicy['policyType'],
+      conditions: node.statements
+        .filter(s => s.keyword === 'when')
+        .map(s => ({
+          field: s.condition!.field,
+          operator: ZERO_TRUST_OPERATOR_NAMES[s.condition!.operator],
+          value: s.condition!.value
+        })),
+      actions: node.statements
+        .filter(s => s.keyword === 'then')
+        .flatMap(s => s.actions!)
+        .map(a => ({
+          type: a.type as PolicyAction['type'],
+          ...(Object.keys(a.parameters).length > 0 ? { parameters: a.parameters } : {})
+        })),
+      priority: (get('priority')?.args[0] as number | undefined) ?? 50,
+      isActive: !get('inactive'),
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  // ==========================================================================
+  // Formatting (runtime form -> source)
+  // ==========================================================================
+
+  static formatBlockchainPolicy(policy: BlockchainPolicy): string {
+    const lines = [
+      `access policy ${this.quote(policy.name)} {`,
+      `  id ${this.quote(policy.id)}`,
+      `  version ${policy.version}`,
+      `  resource ${this.quote(policy.resource)}`,
+      `  roles [${policy.allowedRoles.map(r => this.quote(r)).join(', ')}]`
+    ];
+
+    if (policy.trustScoreMinimum > 0) lines.push(`  trust >= ${policy.trustScoreMinimum}`);
+    if (policy.timeRestrictions) {
+      lines.push(`  days [${policy.timeRestrictions.days.map(d => DAY_NAMES[d] ?? d).join(', ')}]`);
+      lines.push(`  hours ${policy.timeRestrictions.hours.start}..${policy.timeRestrictions.hours.end}`);
+    }
+    if (policy.mfaRequired) lines.push('  require mfa');
+    if (policy.quantumSignatureRequired) lines.push('  require quantum_signature');
+    if (policy.expiresAt) lines.push(`  expires ${this.quote(new Date(policy.expiresAt).toISOString())}`);
+
+    for (const condition of policy.conditions) {
+      const field = Object.keys(ACCESS_SCHEMA).find(f => ACCESS_SCHEMA[f].conditionType === condition.type);
+      const operator = (Object.keys(ACCESS_OPERATOR_NAMES) as ConditionOperator[])
+        .find(op => ACCESS_OPERATOR_NAMES[op] === condition.operator);
+      if (!field || !operator) {
+        lines.push(`  # unsupported condition: ${condition.type} ${condition.operator} ${JSON.stringify(condition.value)}`);
+        continue;
+      }
+      const shown = field === 'userRoles' && operator === '==' ? 'contains' : operator;
+      lines.push(`  when ${field} ${shown} ${this.literal(condition.value)}`);
+    }
+
+    if (!policy.isActive) lines.push('  inactive');
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Zero Trust policies carry no version of their own; pass the deployed
+   * version to include it in the source.
+   */
+  static formatZeroTrustPolicy(policy: ZeroTrustPolicy, version?: number): string {
+    const lines = [
+      `zero_trust policy ${this.quote(policy.name)} {`,
+      `  id ${this.quote(policy.id)}`,
+      ...(version !== undefined ? [`  version ${version}`] : []),
+      `  type ${policy.policyType}`,
+      `  priority ${policy.priority}`
+    ];
+
+    for (const condition of policy.conditions) {
+      const operator = (Object.keys(ZERO_TRUST_OPERATOR_NAMES) as ConditionOperator[])
+        .find(op => ZERO_TRUST_OPERATOR_NAMES[op] === condition.operator)!;
+      const value = operator === 'in'
+        ? `${condition.value[0]}..${condition.value[1]}`
+        : this.literal(condition.value);
+      lines.push(`  when ${condition.field} ${operator} ${value}`);
+    }
+
+    const actions = policy.actions.map(action => {
+      const params = Object.entries(action.parameters || {})
+        .map(([key, value]) => `${key}: ${Array.isArray(value) ? `[${value.map(v => this.literal(v)).join(', ')}]` : this.literal(value)}`);
+      return params.length ? `${action.type}(${params.join(', ')})` : action.type;
+    });
+    if (actions.length) lines.push(`  then ${actions.join(', ')}`);
+
+    if (!policy.isActive) lines.push('  inactive');
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /**
+   * Line diff between two sources (longest common subsequence), for
+   * reviewing a policy change.
+   */
+  static diff(before: string, after: string): { type: 'same' | 'added' | 'removed'; text: string }[] {
+    const a = before.split('\n');
+    const b = after.split('\n');
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const lines: { type: 'same' | 'added' | 'removed'; text: string }[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        lines.push({ type: 'same', text: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        lines.push({ type: 'removed', text: a[i++] });
+      } else {
+        lines.push({ type: 'added', text: b[j++] });
+      }
+    }
+    while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+    return lines;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  static policyId(node: PolicyNode): string {
+    const explicit = node.statements.find(s => s.keyword === 'id')?.args[0];
+    if (typeof explicit === 'string') return explicit;
+    return node.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  }
+
+  private static dayNumber(day: LiteralValue): number | null {
+    if (typeof day === 'number') return Number.isInteger(day) && day >= 0 && day <= 6 ? day : null;
+    const index = DAY_NAMES.indexOf(String(day).toLowerCase().slice(0, 3));
+    return index === -1 ? null : index;
+  }
+
+  private static typeName(type: FieldType): string {
+    return typeof type === 'string' ? type : 'enum';
+  }
+
+  private static quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  private static literal(value: unknown): string {
+    return typeof value === 'string' ? this.quote(value) : String(value);
+  }
+}
@@ -0,0 +1,378 @@
+/**
+ * Policy Repository
+ *
+ * Deploys policies authored in the access policy language and keeps their
+ * version history on the blockchain audit trail.
+ *
+ * Features:
+ * - Compile-then-deploy: sources with errors are never recorded
+ * - One chained blockchain_audit_logs entry per policy version, holding the
+ *   source, its SHA-256 and the compiled runtime form
+ * - Unchanged policies are skipped so re-deploying a file only versions
+ *   what was edited
+ * - Per-version integrity verification
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+import type { BlockchainPolicy } from './blockchain-policy-engine';
+import type { ZeroTrustPolicy } from './zero-trust-engine';
+import { PolicyCompiler, CompiledPolicy, PolicyDiagnostic, PolicyKind } from './policy-language';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface PolicyVersion {
+  id: string;
+  policyId: string;
+  kind: PolicyKind;
+  name: string;
+  version: number;
+  source: string;
+  sourceHash: string;
+  compiled: CompiledPolicy;
+  authorId: string;
+  previousHash: string | null;
+  integrityHash: string;
+  createdAt: string;
+}
+
+export interface PolicyDeployResult {
+  success: boolean;
+  message: string;
+  diagnostics: PolicyDiagnostic[];
+  deployed: PolicyVersion[];
+  unchanged: string[];
+}
+
+type AuditLogRow = Database['public']['Tables']['blockchain_audit_logs']['Row'];
+
+const POLICY_CHANGE_ACTION = 'policy_change';
+const POLICY_RESOURCE = 'access_policies';
+
+/**
+ * JSON with recursively sorted keys. Metadata is stored as jsonb, which does
+ * not preserve key order, so hashes are computed over this form.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ============================================================================
+// Policy Repository Class
+// ============================================================================
+
+export class PolicyRepository {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  /**
+   * Compile a source file and record a new version for every policy in it
+   * that differs from its latest deployed version.
+   */
+  async deploy(source: string, actorId: string): Promise<PolicyDeployResult> {
+    const result = PolicyCompiler.compile(source);
+    if (!result.ok) {
+      const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+      return {
+        success: false,
+        message: `${errors} error${errors === 1 ? '' : 's'} must be fixed before deploying`,
+        diagnostics: result.diagnostics,
+        deployed: [],
+        unchanged: []
+      };
+    }
+
+    const deployed: PolicyVersion[] = [];
+    const unchanged: string[] = [];
+
+    for (const compiled of result.policies) {
+      const version = await this.deployCompiled(compiled, actorId);
+      if (version === 'unchanged') {
+        unchanged.push(compiled.policy.id);
+      } else if (version) {
+        deployed.push(version);
+      } else {
+        return {
+          success: false,
+          message: `Failed to record ${compiled.policy.name} on the blockchain`,
+          diagnostics: result.diagnostics,
+          deployed,
+          unchanged
+        };
+      }
+    }
+
+    return {
+      success: true,
+      message: deployed.length > 0
+        ? `Deployed ${deployed.map(v => `${v.name} v${v.version}`).join(', ')}`
+        : 'No policy changes to deploy',
+      diagnostics: result.diagnostics,
+      deployed,
+      unchanged
+    };
+  }
+
+  /**
+   * Record a new version of an already-compiled policy, e.g. after toggling
+   * it on or off. Returns 'unchanged' when it matches the latest version.
+   */
+  async deployCompiled(compiled: CompiledPolicy, actorId: string): Promise<PolicyVersion | 'unchanged' | null> {
+    try {
+      const latest = await this.getLatestVersion(compiled.policy.id);
+      if (latest && latest.kind !== compiled.kind) {
+        console.error(`Policy ${compiled.policy.id} is already deployed as a ${latest.kind} policy`);
+        return null;
+      }
+
+      const fingerprint = await this.sha256Hex(canonicalJson(this.comparable(compiled)));
+      if (latest && fingerprint === await this.sha256Hex(canonicalJson(this.comparable(latest.compiled)))) {
+        return 'unchanged';
+      }
+
+      const version = (latest?.version ?? 0) + 1;
+      const now = new Date();
+      const stamped: CompiledPolicy = compiled.kind === 'access'
+        ? { kind: 'access', policy: { ...compiled.policy, version, createdAt: latest?.compiled.policy.createdAt ?? now } }
+        : { kind: 'zero_trust', policy: { ...compiled.policy, createdAt: latest?.compiled.policy.createdAt ?? now, updatedAt: now } };
+      const policySource = this.format(stamped, version);
+
+      const { data: previous } = await supabase
+        .from('blockchain_audit_logs')
+        .select('integrity_hash')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const payload = {
+        policy_id: stamped.policy.id,
+        policy_name: stamped.policy.name,
+        kind: stamped.kind,
+        version,
+        source: policySource,
+        source_sha256: await this.sha256Hex(policySource),
+        compiled: JSON.parse(JSON.stringify(stamped.policy)) as Json,
+        author_id: actorId
+      };
+      const timestamp = now.getTime();
+      const previousHash = previous?.integrity_hash || null;
+      const integrityHash = await this.sha256Hex(canonicalJson({ previous: previousHash, payload, timestamp }));
+
+      const { data, error } = await supabase
+        .from('blockchain_audit_logs')
+        .insert({
+          user_id: actorId,
+          action: POLICY_CHANGE_ACTION,
+          resource: POLICY_RESOURCE,
+          transaction_id: `policy-${stamped.policy.id}-v${version}-${timestamp}`,
+          block_hash: null,
+          integrity_hash: integrityHash,
+          metadata: { ...payload, previous_hash: previousHash, timestamp }
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(
+          actorId,
+          latest ? 'POLICY_UPDATED' : 'POLICY_DEPLOYED',
+          POLICY_RESOURCE,
+          {
+            policy_id: stamped.policy.id,
+            kind: stamped.kind,
+            version,
+            source_sha256: payload.source_sha256,
+            integrity_hash: integrityHash
+          }
+        );
+      }
+
+      return this.toVersion(data);
+    } catch (error) {
+      console.error('Error deploying policy:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a new version with the policy switched on or off.
+   */
+  async setActive(compiled: CompiledPolicy, isActive: boolean, actorId: string): Promise<PolicyVersion | 'unchanged' | null> {
+    return compiled.kind === 'access'
+      ? this.deployCompiled({ kind: 'access', policy: { ...compiled.policy, isActive } }, actorId)
+      : this.deployCompiled({ kind: 'zero_trust', policy: { ...compiled.policy, isActive } }, actorId);
+  }
+
+  /**
+   * Latest version of every deployed policy.
+   */
+  async getCurrentPolicies(): Promise<PolicyVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blockchain_audit_logs')
+        .select('*')
+        .eq('action', POLICY_CHANGE_ACTION)
+        .eq('resource', POLICY_RESOURCE)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const latest = new Map<string, PolicyVersion>();
+      for (const row of data || []) {
+        const version = this.toVersion(row);
+        if (version && !latest.has(version.policyId)) {
+          latest.set(version.policyId, version);
+        }
+      }
+      return Array.from(latest.values()).sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error loading deployed policies:', error);
+      return [];
+    }
+  }
+
+  /**
+   * All versions of one policy, newest first.
+   */
+  async getHistory(policyId: string): Promise<PolicyVersion[]> {
+    try {
+      const { data, error } = await supabase
+        .from('blockchain_audit_logs')
+        .select('*')
+        .eq('action', POLICY_CHANGE_ACTION)
+        .eq('resource', POLICY_RESOURCE)
+        .eq('metadata->>policy_id', policyId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || [])
+        .map(row => this.toVersion(row))
+        .filter((v): v is PolicyVersion => v !== null);
+    } catch (error) {
+      console.error('Error loading policy history:', error);
+      return [];
+    }
+  }
+
+  async getLatestVersion(policyId: string): Promise<PolicyVersion | null> {
+    const history = await this.getHistory(policyId);
+    return history[0] || null;
+  }
+
+  /**
+   * Recompute the source hash and the chained integrity hash of a version.
+   */
+  async verifyVersion(version: PolicyVersion): Promise<boolean> {
+    if (await this.sha256Hex(version.source) !== version.sourceHash) {
+      return false;
+    }
+
+    const { data, error } = await supabase
+      .from('blockchain_audit_logs')
+      .select('metadata')
+      .eq('id', version.id)
+      .single();
+
+    if (error || !data) return false;
+
+    const { previous_hash, timestamp, ...payload } = data.metadata as Record<string, Json>;
+    const expected = await this.sha256Hex(canonicalJson({ previous: previous_hash ?? null, payload, timestamp }));
+    return expected === version.integrityHash;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * The parts of a policy that make up its content; timestamps and the
+   * version number change on every deploy.
+   */
+  private comparable(compiled: CompiledPolicy): unknown {
+    if (compiled.kind === 'access') {
+      const { createdAt, version, ...rest } = compiled.policy;
+      return { kind: compiled.kind, ...rest };
+    }
+    const { createdAt, updatedAt, ...rest } = compiled.policy;
+    return { kind: compiled.kind, ...rest };
+  }
+
+  private format(compiled: CompiledPolicy, version: number): string {
+    return compiled.kind === 'access'
+      ? PolicyCompiler.formatBlockchainPolicy(compiled.policy)
+      : PolicyCompiler.formatZeroTrustPolicy(compiled.policy, version);
+  }
+
+  private toVersion(row: AuditLogRow): PolicyVersion | null {
+    const metadata = row.metadata as Record<string, Json> | null;
+    if (!metadata || typeof metadata.policy_id !== 'string' || !metadata.compiled) {
+      return null;
+    }
+
+    const raw = metadata.compiled as Record<string, Json>;
+    const kind = metadata.kind as PolicyKind;
+    const compiled: CompiledPolicy = kind === 'access'
+      ? {
+          kind,
+          policy: {
+            ...(raw as unknown as BlockchainPolicy),
+            createdAt: new Date(raw.createdAt as string),
+            expiresAt: raw.expiresAt ? new Date(raw.expiresAt as string) : undefined
+          }
+        }
+      : {
+          kind: 'zero_trust',
+          policy: {
+            ...(raw as unknown as ZeroTrustPolicy),
+            createdAt: new Date(raw.createdAt as string),
+            updatedAt: new Date(raw.updatedAt as string)
+          }
+        };
+
+    return {
+      id: row.id,
+      policyId: metadata.policy_id,
+      kind,
+      name: String(metadata.policy_name),
+      version: Number(metadata.version),
+      source: String(metadata.source),
+      sourceHash: String(metadata.source_sha256),
+      compiled,
+      authorId: row.user_id,
+      previousHash: (metadata.previous_hash as string | null) ?? null,
+      integrityHash: row.integrity_hash,
+      createdAt: row.created_at
+    };
+  }
+
+  private async sha256Hex(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
@@ -0,0 +1,408 @@
+/**
+ * Policy Simulator
+ *
+ * What-if analysis for policy changes. Replays recorded access events
+ * against the current and a candidate policy set and reports the decisions
+ * that would change, before anything is deployed.
+ *
+ * Features:
+ * - Replays audit_logs and blockchain_audit_logs events from the last N days
+ * - Evaluates blockchain access policies and Zero Trust engine policies
+ *   through the unified PDP, plus managed Zero Trust policies, without
+ *   writing to the chain
+ * - Reports allow→deny and deny→allow flips per user and per resource
+ *
+ * Only the policies under test take part: role, group, time-based and JIT
+ * grants are the same before and after a policy change, so an event counts
+ * as allowed unless one of the simulated policies denies it.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { BlockchainPolicy, BlockchainPolicyEngine } from './blockchain-policy-engine';
+import type { ZeroTrustPolicy } from './zero-trust-engine';
+import { ZeroTrustRules, ManagedPolicy } from './zero-trust-rules';
+import {
+  PolicyDecisionPoint,
+  DecisionSource,
+  PolicyDecision,
+  zeroTrustSource,
+  blockchainPolicySource
+} from './policy-decision-point';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface SimulationPolicySet {
+  blockchain?: BlockchainPolicy[];
+  zeroTrust?: ZeroTrustPolicy[];
+  managed?: ManagedPolicy[];
+}
+
+/**
+ * Values used when a replayed event did not record them.
+ */
+export interface SimulationAssumptions {
+  trustScore: number; // 0-100
+  mfaVerified: boolean;
+  quantumSignature: boolean;
+  behavioralScore: number; // 0-100
+}
+
+export interface SimulationOptions {
+  days?: number;
+  limit?: number;
+  assumptions?: Partial<SimulationAssumptions>;
+}
+
+export interface ReplayedEvent {
+  id: string;
+  source: 'audit_logs' | 'blockchain_audit_logs';
+  userId: string;
+  resource: string;
+  action: string;
+  timestamp: Date;
+  ipAddress?: string;
+  userAgent?: string;
+  deviceFingerprint?: string;
+  location?: string;
+  trustScore?: number;
+  mfaVerified?: boolean;
+}
+
+export interface SimulatedOutcome {
+  allowed: boolean;
+  reason: string;
+}
+
+export interface DecisionFlip {
+  event: ReplayedEvent;
+  direction: 'allow_to_deny' | 'deny_to_allow';
+  baseline: SimulatedOutcome;
+  candidate: SimulatedOutcome;
+}
+
+export interface ImpactSummary {
+  key: string;
+  events: number;
+  allowToDeny: number;
+  denyToAllow: number;
+}
+
+export interface SimulationReport {
+  windowStart: string;
+  windowEnd: string;
+  eventsReplayed: number;
+  truncated: boolean;
+  baselineDenied: number;
+  candidateDenied: number;
+  allowToDeny: number;
+  denyToAllow: number;
+  flips: DecisionFlip[];
+  byUser: ImpactSummary[];
+  byResource: ImpactSummary[];
+  assumptions: SimulationAssumptions;
+}
+
+type AuditLogRow = Database['public']['Tables']['audit_logs']['Row'];
+type BlockchainAuditLogRow = Database['public']['Tables']['blockchain_audit_logs']['Row'];
+
+const DEFAULT_ASSUMPTIONS: SimulationAssumptions = {
+  trustScore: 70,
+  mfaVerified: false,
+  quantumSignature: false,
+  behavioralScore: 50
+};
+
+// Chain entries that record access rather than configuration changes
+const BLOCKCHAIN_ACCESS_ACTIONS = ['access_event', 'audit_log'];
+
+// ============================================================================
+// Policy Simulator Class
+// ============================================================================
+
+export class PolicySimulator {
+  /**
+   * Replay the recorded events of the window against both policy sets.
+   */
+  async simulate(
+    baseline: SimulationPolicySet,
+    candidate: SimulationPolicySet,
+    options: SimulationOptions = {}
+  ): Promise<SimulationReport> {
+    const days = options.days ?? 30;
+    const limit = options.limit ?? 2000;
+    const assumptions = { ...DEFAULT_ASSUMPTIONS, ...options.assumptions };
+    const windowEnd = new Date();
+    const windowStart = new Date(windowEnd.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const { events, truncated } = await this.loadEvents(windowStart, limit);
+    const roles = await this.loadRoles(events.map(e => e.userId));
+
+    const baselinePdp = this.createDecisionPoint(baseline);
+    const candidatePdp = this.createDecisionPoint(candidate);
+
+    const flips: DecisionFlip[] = [];
+    const byUser = new Map<string, ImpactSummary>();
+    const byResource = new Map<string, ImpactSummary>();
+    let baselineDenied = 0;
+    let candidateDenied = 0;
+
+    for (const event of events) {
+      const [before, after] = await Promise.all([
+        this.replay(baselinePdp, baseline.managed || [], event, roles.get(event.userId) || [], assumptions),
+        this.replay(candidatePdp, candidate.managed || [], event, roles.get(event.userId) || [], assumptions)
+      ]);
+
+      if (!before.allowed) baselineDenied++;
+      if (!after.allowed) candidateDenied++;
+
+      const userSummary = this.summary(byUser, event.userId);
+      const resourceSummary = this.summary(byResource, event.resource);
+      userSummary.events++;
+      resourceSummary.events++;
+
+      if (before.allowed === after.allowed) continue;
+
+      const direction = before.allowed ? 'allow_to_deny' : 'deny_to_allow';
+      flips.push({ event, direction, baseline: before, candidate: after });
+
+      for (const summary of [userSummary, resourceSummary]) {
+        if (direction === 'allow_to_deny') summary.allowToDeny++;
+        else summary.denyToAllow++;
+      }
+    }
+
+    const affected = (summaries: Map<string, ImpactSummary>) =>
+      Array.from(summaries.values())
+        .filter(s => s.allowToDeny > 0 || s.denyToAllow > 0)
+        .sort((a, b) => (b.allowToDeny + b.denyToAllow) - (a.allowToDeny + a.denyToAllow));
+
+    return {
+      windowStart: windowStart.toISOString(),
+      windowEnd: windowEnd.toISOString(),
+      eventsReplayed: events.length,
+      truncated,
+      baselineDenied,
+      candidateDenied,
+      allowToDeny: flips.filter(f => f.direction === 'allow_to_deny').length,
+      denyToAllow: flips.filter(f => f.direction === 'deny_to_allow').length,
+      flips,
+      byUser: affected(byUser),
+      byResource: affected(byResource),
+      assumptions
+    };
+  }
+
+  /**
+   * Replace policies in a set by id and add new ones; the usual way to turn
+   * the deployed set into a candidate.
+   */
+  static withChanges(base: SimulationPolicySet, changes: SimulationPolicySet): SimulationPolicySet {
+    const merge = <T extends { id: string }>(current: T[] = [], changed: T[] = []): T[] => [
+      ...current.filter(p => !changed.some(c => c.id === p.id)),
+      ...changed
+    ];
+
+    return {
+      blockchain: merge(base.blockchain, changes.blockchain),
+      zeroTrust: merge(base.zeroTrust, changes.zeroTrust),
+      managed: merge(base.managed, changes.managed)
+    };
+  }
+
+  // ==========================================================================
+  // Evaluation
+  // ==========================================================================
+
+  private createDecisionPoint(set: SimulationPolicySet): PolicyDecisionPoint {
+    const blockchainPolicies = set.blockchain || [];
+    const sources: DecisionSource[] = [
+      // An empty list means no Zero Trust policies, not the engine defaults
+      zeroTrustSource(set.zeroTrust || []),
+      blockchainPolicySource({
+        getPoliciesForResource: resource =>
+          blockchainPolicies.filter(p => p.resource === resource && p.isActive),
+        evaluatePolicy: async (policyId, context) => {
+          const policy = blockchainPolicies.find(p => p.id === policyId)!;
+          return BlockchainPolicyEngine.evaluateRules(policy, context, context.timestamp);
+        }
+      })
+    ];
+
+    return new PolicyDecisionPoint({ sources, enableBlockchainAudit: false });
+  }
+
+  private async replay(
+    pdp: PolicyDecisionPoint,
+    managed: ManagedPolicy[],
+    event: ReplayedEvent,
+    roles: string[],
+    assumptions: SimulationAssumptions
+  ): Promise<SimulatedOutcome> {
+    // Managed policies match on fields the PDP request does not carry
+    const managedDenials = managed
+      .filter(policy => policy.is_active)
+      .map(policy => ({
+        policy,
+        result: ZeroTrustRules.evaluate(policy, {
+          deviceId: event.deviceFingerprint,
+          ipAddress: event.ipAddress,
+          location: event.location,
+          userAgent: event.userAgent,
+          behavioralScore: assumptions.behavioralScore,
+          timeOfAccess: event.timestamp
+        })
+      }))
+      .filter(({ result }) => ZeroTrustRules.isDenied(result));
+
+    if (managedDenials.length > 0) {
+      return {
+        allowed: false,
+        reason: managedDenials.map(d => `${d.policy.name}: ${d.result.reason}`).join('; ')
+      };
+    }
+
+    const decision: PolicyDecision = await pdp.decide(
+      { id: event.userId, roles },
+      event.action,
+      event.resource,
+      {
+        timestamp: event.timestamp,
+        ipAddress: event.ipAddress,
+        deviceFingerprint: event.deviceFingerprint,
+        trustScore: event.trustScore ?? assumptions.trustScore,
+        mfaVerified: event.mfaVerified ?? assumptions.mfaVerified,
+        quantumSignature: assumptions.quantumSignature ? 'assumed' : undefined,
+        network: event.location ? { location: event.location } : undefined
+      },
+      'deny-overrides'
+    );
+
+    const denied = decision.decision === 'deny' || decision.decision === 'indeterminate';
+    return { allowed: !denied, reason: decision.reason };
+  }
+
+  private summary(summaries: Map<string, ImpactSummary>, key: string): ImpactSummary {
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = { key, events: 0, allowToDeny: 0, denyToAllow: 0 };
+      summaries.set(key, summary);
+    }
+    return summary;
+  }
+
+  // ==========================================================================
+  // Event Loading
+  // ==========================================================================
+
+  private async loadEvents(since: Date, limit: number): Promise<{ events: ReplayedEvent[]; truncated: boolean }> {
+    const [auditResult, chainResult] = await Promise.all([
+      supabase
+        .from('audit_logs')
+        .select('*')
+        .gte('created_at', since.toISOString())
+        .not('user_id', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      supabase
+        .from('blockchain_audit_logs')
+        .select('*')
+        .in('action', BLOCKCHAIN_ACCESS_ACTIONS)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false })
+        .limit(limit)
+    ]);
+
+    if (auditResult.error) {
+      console.error('Error loading audit log events:', auditResult.error);
+    }
+    if (chainResult.error) {
+      console.error('Error loading blockchain audit events:', chainResult.error);
+    }
+
+    const auditEvents = (auditResult.data || []).map(row => this.fromAuditLog(row));
+    const chainEvents = (chainResult.data || []).map(row => this.fromBlockchainLog(row));
+
+    // Several writers record the same request in both tables
+    const seen = new Set<string>();
+    const events = [...auditEvents, ...chainEvents]
+      .filter(event => {
+        const key = `${event.userId}|${event.resource}|${event.action}|${Math.floor(event.timestamp.getTime() / 1000)}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return {
+      events: events.slice(0, limit),
+      truncated: events.length > limit || auditEvents.length === limit || chainEvents.length === limit
+    };
+  }
+
+  private async loadRoles(userIds: string[]): Promise<Map<string, string[]>> {
+    const roles = new Map<string, string[]>();
+    const ids = Array.from(new Set(userIds));
+    if (ids.length === 0) return roles;
+
+    const { data, error } = await supabase
+      .from('user_roles')
+      .select('user_id, role')
+      .in('user_id', ids);
+
+    if (error) {
+      console.error('Error loading user roles for simulation:', error);
+      return roles;
+    }
+
+    for (const row of data || []) {
+      roles.set(row.user_id, [...(roles.get(row.user_id) || []), row.role]);
+    }
+    return roles;
+  }
+
+  private fromAuditLog(row: AuditLogRow): ReplayedEvent {
+    const details = this.asRecord(row.details);
+    return {
+      id: row.id,
+      source: 'audit_logs',
+      userId: row.user_id as string,
+      resource: row.resource,
+      action: row.action,
+      timestamp: new Date(row.created_at),
+      ipAddress: typeof row.ip_address === 'string' ? row.ip_address : undefined,
+      userAgent: row.user_agent || undefined,
+      ...this.recordedContext(details)
+    };
+  }
+
+  private fromBlockchainLog(row: BlockchainAuditLogRow): ReplayedEvent {
+    const metadata = this.asRecord(row.metadata);
+    const details = this.asRecord(metadata.details ?? null);
+    return {
+      id: row.id,
+      source: 'blockchain_audit_logs',
+      userId: row.user_id,
+      resource: row.resource,
+      action: typeof metadata.action === 'string' ? metadata.action : row.action,
+      timestamp: new Date(row.created_at),
+      ipAddress: typeof metadata.ip_address === 'string' ? metadata.ip_address : undefined,
+      ...this.recordedContext({ ...details, ...metadata })
+    };
+  }
+
+  private recordedContext(details: Record<string, Json | undefined>): Partial<ReplayedEvent> {
+    return {
+      deviceFingerprint: typeof details.device_fingerprint === 'string' ? details.device_fingerprint : undefined,
+      location: typeof details.location === 'string' ? details.location : undefined,
+      trustScore: typeof details.trust_score === 'number' ? details.trust_score : undefined,
+      mfaVerified: typeof details.mfa_verified === 'boolean' ? details.mfa_verified : undefined
+    };
+  }
+
+  private asRecord(value: Json): Record<string, Json | undefined> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  }
+}
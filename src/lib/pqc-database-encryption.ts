@@ -1,380 +1,461 @@
-import { PostQuantumKEM } from './quantum-pqc';
+import { supabase } from '@/integrations/supabase/client';
 
 /**
  * Post-Quantum Database Encryption
- * Application-level encryption for sensitive database fields using ML-KEM
+ * Application-level envelope encryption for sensitive database fields
+ *
+ * Key hierarchy, held by the key-vault edge function:
+ * - Root KEK: an ML-KEM-1024 key pair, its secret key sealed under the vault master key
+ * - DEKs: AES-256-GCM keys per table or per user, wrapped by the root KEK
+ *   and stored in data_encryption_keys
+ *
+ * Fields are encrypted here with the scope's current DEK and record which
+ * DEK they used. Rotating the root KEK rewraps DEKs as they are next used;
+ * rotating a DEK leaves old fields to the re-encryption job. Deleting a
+ * user destroys their DEKs, and with them everything encrypted under them.
+ *
+ * Searchable columns also get a blind index: truncated HMAC tokens of each
+ * value (and its prefixes or n-grams) under a per-column index key, written
+ * by the vault as rows change. Searches compute the same tokens here and
+ * look them up, without the column needing to be readable.
  */
 
-export interface EncryptedField {
-  ciphertext: string; // Base64 encoded
-  nonce: string; // Base64 encoded
-  keyId: string; // Reference to encryption key
-  algorithm: 'ML-KEM-768' | 'ML-KEM-1024';
-  timestamp: string;
+const FUNCTION_NAME = 'key-vault';
+
+// Must match supabase/functions/key-vault/index.ts
+const FIELD_PREFIX = 'pqc1';
+const IV_BYTES = 12;
+
+// Another session may rotate a DEK; pick up the new version after this long
+const CURRENT_KEY_TTL_MS = 5 * 60 * 1000;
+
+const BLIND_INDEX_TOKEN_BYTES = 16;
+
+export type DataKeyScope = 'table' | 'user' | 'index';
+
+export interface KeyScope {
+  type: DataKeyScope;
+  /** Table name, user id for user scope, or table.column for index scope */
+  id: string;
 }
 
-export interface EncryptionKey {
+export interface EncryptedField {
   keyId: string;
-  publicKey: Uint8Array;
-  secretKey: Uint8Array;
-  algorithm: 'ML-KEM-768' | 'ML-KEM-1024';
-  createdAt: Date;
-  rotatedAt?: Date;
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+  algorithm: 'AES-256-GCM';
 }
 
-export class PQCDatabaseEncryption {
-  private static keys = new Map<string, EncryptionKey>();
-  private static currentKeyId: string | null = null;
+export type BlindIndexMode = 'exact' | 'prefix' | 'contains';
+
+export interface BlindIndexSpec {
+  table: string;
+  column: string;
+  /** Column identifying the row a token points at */
+  rowId: string;
+  /** Index leading substrings of these lengths, for prefix search */
+  prefix?: { minLength: number; maxLength: number };
+  /** Index substrings of this length, for contains search */
+  ngram?: number;
+}
 
-  /**
-   * Initialize encryption with master key
-   */
-  static async initialize(): Promise<string> {
-    const keyPair = await PostQuantumKEM.generateKeyPair768();
-    const keyId = await this.generateKeyId();
+// Must match supabase/functions/key-vault/index.ts
+export const BLIND_INDEXES = {
+  'profiles.email': { table: 'profiles', column: 'email', rowId: 'user_id', ngram: 3 },
+  'audit_logs.ip_address': { table: 'audit_logs', column: 'ip_address', rowId: 'id', prefix: { minLength: 3, maxLength: 15 } },
+} satisfies Record<string, BlindIndexSpec>;
+
+export type BlindIndexName = keyof typeof BLIND_INDEXES;
+
+export interface DataKeyInfo {
+  id: string;
+  scope: DataKeyScope;
+  scopeId: string;
+  version: number;
+  status: 'active' | 'retired' | 'destroyed';
+  rootKeyId: string;
+  createdAt: string;
+  retiredAt: string | null;
+  rewrappedAt: string | null;
+}
 
-    const key: EncryptionKey = {
-      keyId,
-      publicKey: keyPair.publicKey,
-      secretKey: keyPair.secretKey,
-      algorithm: 'ML-KEM-768',
-      createdAt: new Date()
-    };
+export interface RootKeyInfo {
+  id: string;
+  algorithm: 'ML-KEM-1024';
+  status: 'active' | 'retired' | 'destroyed';
+  createdAt: string;
+  retiredAt: string | null;
+  destroyedAt: string | null;
+  /** Data keys still wrapped under this root */
+  dataKeys: number;
+}
 
-    this.keys.set(keyId, key);
-    this.currentKeyId = keyId;
+export interface EncryptedColumnStatus {
+  table: string;
+  column: string;
+  total: number;
+  current: number;
+  stale: number;
+  /** Encrypted before the key hierarchy existed */
+  legacy: number;
+}
 
-    return keyId;
-  }
+export interface BlindIndexStatus {
+  index: BlindIndexName;
+  table: string;
+  column: string;
+  modes: BlindIndexMode[];
+  keyVersion: number | null;
+  /** Index keys still holding tokens until the rebuild finishes */
+  retiredKeys: number;
+  /** Rows waiting to be tokenized */
+  queued: number;
+}
 
-  /**
-   * Generate unique key ID
-   */
-  private static async generateKeyId(): Promise<string> {
-    const randomBytes = crypto.getRandomValues(new Uint8Array(16));
-    return Array.from(randomBytes)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-  }
+export interface KeyHierarchyStatus {
+  rootKeys: RootKeyInfo[];
+  dataKeys: DataKeyInfo[];
+  columns: EncryptedColumnStatus[];
+  indexes: BlindIndexStatus[];
+}
 
-  /**
-   * Encrypt field value
-   */
-  static async encryptField(
-    value: string,
-    keyId?: string
-  ): Promise<EncryptedField> {
-    const useKeyId = keyId || this.currentKeyId;
-    if (!useKeyId) {
-      throw new Error('No encryption key available. Call initialize() first.');
-    }
+export interface ReencryptionReport {
+  reencrypted: number;
+  legacy: number;
+  failed: number;
+  /** False when the limit was reached or a field failed; run again */
+  complete: boolean;
+  destroyedDataKeys: number;
+  destroyedRootKeys: number;
+}
 
-    const key = this.keys.get(useKeyId);
-    if (!key) {
-      throw new Error(`Encryption key ${useKeyId} not found`);
-    }
+export interface BlindIndexReport {
+  indexed: number;
+  /** Rows deleted or emptied, whose tokens were dropped */
+  removed: number;
+  failed: number;
+  /** False while rows are still queued; run again */
+  complete: boolean;
+  destroyedIndexKeys: number;
+  destroyedRootKeys: number;
+}
 
-    // Generate ephemeral keypair and encapsulate
-    const { sharedSecret, ciphertext: encapsulatedKey } = 
-      await PostQuantumKEM.encapsulate768(key.publicKey);
-
-    // Use shared secret to encrypt data with AES-256-GCM
-    const nonce = crypto.getRandomValues(new Uint8Array(12));
-    const aesKey = await crypto.subtle.importKey(
-      'raw',
-      sharedSecret.slice(0, 32),
-      { name: 'AES-GCM' },
-      false,
-      ['encrypt']
-    );
+export class PQCDatabaseEncryption {
+  private static keys = new Map<string, CryptoKey>();
+  private static currentKeys = new Map<string, { keyId: string; fetchedAt: number }>();
+  private static indexKeys = new Map<BlindIndexName, { keys: { id: string; key: CryptoKey }[]; fetchedAt: number }>();
+
+  // ============================================================================
+  // Fields
+  // ============================================================================
+
+  /**
+   * Encrypt a field value with the current data key for its scope.
+   * The context (table.column) is bound to the ciphertext so it cannot be
+   * copied into another column.
+   */
+  static async encryptField(value: string, scope: KeyScope, context: string): Promise<string> {
+    const keyId = await this.currentKeyId(scope);
+    const key = this.keys.get(keyId)!;
 
-    const encoder = new TextEncoder();
+    const nonce = crypto.getRandomValues(new Uint8Array(IV_BYTES));
     const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv: nonce },
-      aesKey,
-      encoder.encode(value)
+      { name: 'AES-GCM', iv: nonce, additionalData: new TextEncoder().encode(context) },
+      key,
+      new TextEncoder().encode(value)
     );
 
-    // Combine encapsulated key and encrypted data
-    const combined = new Uint8Array([
-      ...encapsulatedKey,
-      ...new Uint8Array(encrypted)
-    ]);
-
-    return {
-      ciphertext: btoa(String.fromCharCode(...combined)),
-      nonce: btoa(String.fromCharCode(...nonce)),
-      keyId: useKeyId,
-      algorithm: key.algorithm,
-      timestamp: new Date().toISOString()
-    };
+    return this.serialize({
+      keyId,
+      nonce,
+      ciphertext: new Uint8Array(encrypted),
+      algorithm: 'AES-256-GCM'
+    });
   }
 
   /**
-   * Decrypt field value
+   * Decrypt a field value, fetching the data key it was encrypted under
    */
-  static async decryptField(encrypted: EncryptedField): Promise<string> {
-    const key = this.keys.get(encrypted.keyId);
-    if (!key) {
-      throw new Error(`Decryption key ${encrypted.keyId} not found`);
+  static async decryptField(sealed: string, context: string): Promise<string> {
+    const field = this.parse(sealed);
+    if (!field) {
+      throw new Error('Value is not an envelope-encrypted field');
     }
 
-    // Decode ciphertext
-    const combined = Uint8Array.from(atob(encrypted.ciphertext), c => c.charCodeAt(0));
-    const nonce = Uint8Array.from(atob(encrypted.nonce), c => c.charCodeAt(0));
-
-    // Split encapsulated key and data (ML-KEM-768 ciphertext is 1088 bytes)
-    const kemCiphertextSize = 1088;
-    const encapsulatedKey = combined.slice(0, kemCiphertextSize);
-    const ciphertext = combined.slice(kemCiphertextSize);
-
-    // Decapsulate to get shared secret
-    const sharedSecret = await PostQuantumKEM.decapsulate768(
-      encapsulatedKey,
-      key.secretKey
-    );
-
-    // Decrypt data
-    const aesKey = await crypto.subtle.importKey(
-      'raw',
-      sharedSecret.slice(0, 32),
-      { name: 'AES-GCM' },
-      false,
-      ['decrypt']
-    );
-
+    const key = await this.dataKey(field.keyId);
     const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: nonce },
-      aesKey,
-      ciphertext
+      { name: 'AES-GCM', iv: field.nonce, additionalData: new TextEncoder().encode(context) },
+      key,
+      field.ciphertext
     );
 
     return new TextDecoder().decode(decrypted);
   }
 
   /**
-   * Rotate encryption key
+   * Values written before envelope encryption do not carry a key reference
    */
-  static async rotateKey(): Promise<string> {
-    const keyPair = await PostQuantumKEM.generateKeyPair768();
-    const keyId = await this.generateKeyId();
+  static isEncryptedField(value: string | null | undefined): boolean {
+    return !!value && this.parse(value) !== null;
+  }
 
-    const key: EncryptionKey = {
-      keyId,
-      publicKey: keyPair.publicKey,
-      secretKey: keyPair.secretKey,
-      algorithm: 'ML-KEM-768',
-      createdAt: new Date()
-    };
-
-    // Mark old key as rotated
-    if (this.currentKeyId) {
-      const oldKey = this.keys.get(this.currentKeyId);
-      if (oldKey) {
-        oldKey.rotatedAt = new Date();
-      }
+  /**
+   * Re-encrypt a field under the current data key for its scope
+   */
+  static async reencryptField(sealed: string, scope: KeyScope, context: string): Promise<string> {
+    const plaintext = await this.decryptField(sealed, context);
+    return await this.encryptField(plaintext, scope, context);
+  }
+
+  static parse(sealed: string): EncryptedField | null {
+    const [prefix, keyId, payload] = sealed.split(':');
+    if (prefix !== FIELD_PREFIX || !keyId || !payload) return null;
+
+    try {
+      const combined = Uint8Array.from(atob(payload), c => c.charCodeAt(0));
+      return {
+        keyId,
+        nonce: combined.slice(0, IV_BYTES),
+        ciphertext: combined.slice(IV_BYTES),
+        algorithm: 'AES-256-GCM'
+      };
+    } catch {
+      return null;
     }
+  }
 
-    this.keys.set(keyId, key);
-    this.currentKeyId = keyId;
+  private static serialize(field: EncryptedField): string {
+    const combined = new Uint8Array([...field.nonce, ...field.ciphertext]);
+    return `${FIELD_PREFIX}:${field.keyId}:${btoa(String.fromCharCode(...combined))}`;
+  }
+
+  // ============================================================================
+  // Data keys
+  // ============================================================================
 
-    return keyId;
+  private static scopeKey(scope: KeyScope): string {
+    return `${scope.type}:${scope.id}`;
   }
 
-  /**
-   * Re-encrypt field with new key
-   */
-  static async reencryptField(
-    encrypted: EncryptedField,
-    newKeyId?: string
-  ): Promise<EncryptedField> {
-    // Decrypt with old key
-    const plaintext = await this.decryptField(encrypted);
-    
-    // Encrypt with new key
-    return await this.encryptField(plaintext, newKeyId);
+  private static async importDataKey(data: { id: string; key: string }): Promise<CryptoKey> {
+    const raw = Uint8Array.from(atob(data.key), c => c.charCodeAt(0));
+    const key = await crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+    raw.fill(0);
+    this.keys.set(data.id, key);
+    return key;
   }
 
-  /**
-   * Batch encrypt multiple fields
-   */
-  static async encryptFields(
-    fields: Record<string, string>
-  ): Promise<Record<string, EncryptedField>> {
-    const encrypted: Record<string, EncryptedField> = {};
-    
-    for (const [key, value] of Object.entries(fields)) {
-      encrypted[key] = await this.encryptField(value);
+  private static async currentKeyId(scope: KeyScope): Promise<string> {
+    const cached = this.currentKeys.get(this.scopeKey(scope));
+    if (cached && Date.now() - cached.fetchedAt < CURRENT_KEY_TTL_MS && this.keys.has(cached.keyId)) {
+      return cached.keyId;
     }
-    
-    return encrypted;
+
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/keys`, {
+      body: { scope: scope.type, scopeId: scope.id }
+    });
+    if (error) throw error;
+
+    await this.importDataKey(data);
+    this.currentKeys.set(this.scopeKey(scope), { keyId: data.id, fetchedAt: Date.now() });
+    return data.id;
   }
 
-  /**
-   * Batch decrypt multiple fields
-   */
-  static async decryptFields(
-    fields: Record<string, EncryptedField>
-  ): Promise<Record<string, string>> {
-    const decrypted: Record<string, string> = {};
-    
-    for (const [key, value] of Object.entries(fields)) {
-      decrypted[key] = await this.decryptField(value);
-    }
-    
-    return decrypted;
+  private static async dataKey(keyId: string): Promise<CryptoKey> {
+    const cached = this.keys.get(keyId);
+    if (cached) return cached;
+
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/keys/${keyId}`, { method: 'GET' });
+    if (error) throw error;
+
+    return await this.importDataKey(data);
   }
 
   /**
-   * Get current key info
+   * Start a new data key version for a scope. Existing fields stay readable
+   * and move to the new key when the re-encryption job runs.
    */
-  static getCurrentKey(): EncryptionKey | null {
-    if (!this.currentKeyId) return null;
-    return this.keys.get(this.currentKeyId) || null;
+  static async rotateDataKey(scope: KeyScope): Promise<DataKeyInfo> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/keys/rotate`, {
+      body: { scope: scope.type, scopeId: scope.id }
+    });
+    if (error) throw error;
+
+    await this.importDataKey(data);
+    this.currentKeys.set(this.scopeKey(scope), { keyId: data.id, fetchedAt: Date.now() });
+
+    const { key: _key, ...info } = data;
+    return info as DataKeyInfo;
   }
 
-  /**
-   * Get all keys
-   */
-  static getAllKeys(): EncryptionKey[] {
-    return Array.from(this.keys.values());
+  // ============================================================================
+  // Blind indexes
+  // ============================================================================
+
+  private static normalizeIndexValue(value: string): string {
+    return value.normalize('NFKC').trim().toLowerCase();
   }
 
   /**
-   * Delete old keys (keep only current and one previous)
+   * What a search term is tokenized as. Null when the term is too short
+   * for the index to answer, e.g. a contains search shorter than an n-gram.
    */
-  static cleanOldKeys(): number {
-    if (!this.currentKeyId) return 0;
+  private static queryInputs(spec: BlindIndexSpec, term: string, mode: BlindIndexMode): string[] | null {
+    const normalized = this.normalizeIndexValue(term);
+    if (!normalized) return null;
 
-    const allKeys = Array.from(this.keys.entries())
-      .sort((a, b) => b[1].createdAt.getTime() - a[1].createdAt.getTime());
+    if (mode === 'exact') {
+      return [`eq:${normalized}`];
+    }
 
-    let deleted = 0;
-    // Keep only current and previous key
-    for (let i = 2; i < allKeys.length; i++) {
-      this.keys.delete(allKeys[i][0]);
-      deleted++;
+    if (mode === 'prefix') {
+      if (!spec.prefix) throw new Error(`${spec.table}.${spec.column} does not support prefix search`);
+      if (normalized.length < spec.prefix.minLength) return null;
+      return [`prefix:${normalized.slice(0, spec.prefix.maxLength)}`];
     }
 
-    return deleted;
+    if (!spec.ngram) throw new Error(`${spec.table}.${spec.column} does not support contains search`);
+    if (normalized.length < spec.ngram) return null;
+
+    const grams = new Set<string>();
+    for (let i = 0; i + spec.ngram <= normalized.length; i++) {
+      grams.add(`ngram:${normalized.slice(i, i + spec.ngram)}`);
+    }
+    return [...grams];
+  }
+
+  private static async indexTokens(key: CryptoKey, inputs: string[]): Promise<string[]> {
+    return Promise.all(inputs.map(async input => {
+      const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(input)));
+      return Array.from(mac.subarray(0, BLIND_INDEX_TOKEN_BYTES), b => b.toString(16).padStart(2, '0')).join('');
+    }));
   }
 
   /**
-   * Export key for backup (encrypted)
+   * The active index key and any retired ones the rebuild has not finished
+   * with; rows are found under whichever key they were last tokenized with
    */
-  static async exportKey(
-    keyId: string,
-    password: string
-  ): Promise<string> {
-    const key = this.keys.get(keyId);
-    if (!key) {
-      throw new Error(`Key ${keyId} not found`);
+  private static async liveIndexKeys(index: BlindIndexName): Promise<{ id: string; key: CryptoKey }[]> {
+    const cached = this.indexKeys.get(index);
+    if (cached && Date.now() - cached.fetchedAt < CURRENT_KEY_TTL_MS) {
+      return cached.keys;
     }
 
-    // Derive encryption key from password
-    const encoder = new TextEncoder();
-    const passwordKey = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(password),
-      { name: 'PBKDF2' },
-      false,
-      ['deriveBits', 'deriveKey']
-    );
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/index/keys`, { body: { index } });
+    if (error) throw error;
 
-    const salt = crypto.getRandomValues(new Uint8Array(16));
-    const aesKey = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 100000,
-        hash: 'SHA-256'
-      },
-      passwordKey,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['encrypt']
-    );
+    const keys = await Promise.all((data.keys as { id: string; key: string }[]).map(async dataKey => {
+      const raw = Uint8Array.from(atob(dataKey.key), c => c.charCodeAt(0));
+      const key = await crypto.subtle.importKey('raw', raw, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+      raw.fill(0);
+      return { id: dataKey.id, key };
+    }));
 
-    // Encrypt key data
-    const nonce = crypto.getRandomValues(new Uint8Array(12));
-    const keyData = JSON.stringify({
-      keyId: key.keyId,
-      publicKey: Array.from(key.publicKey),
-      secretKey: Array.from(key.secretKey),
-      algorithm: key.algorithm,
-      createdAt: key.createdAt.toISOString()
-    });
+    this.indexKeys.set(index, { keys, fetchedAt: Date.now() });
+    return keys;
+  }
 
-    const encrypted = await crypto.subtle.encrypt(
-      { name: 'AES-GCM', iv: nonce },
-      aesKey,
-      encoder.encode(keyData)
-    );
+  /**
+   * Find rows by the value of an indexed column. Returns the ids of matching
+   * rows (the index's rowId column), or null when the term is too short for
+   * the index to answer. Tokens are truncated and n-grams do not fix their
+   * order, so treat results as candidates where the plaintext is at hand;
+   * prefix terms longer than the indexed prefix match on that prefix only.
+   */
+  static async searchBlindIndex(index: BlindIndexName, term: string, mode: BlindIndexMode = 'exact'): Promise<string[] | null> {
+    const spec: BlindIndexSpec = BLIND_INDEXES[index];
+    const inputs = this.queryInputs(spec, term, mode);
+    if (!inputs) return null;
+
+    const queries = await Promise.all((await this.liveIndexKeys(index)).map(async ({ id, key }) => ({
+      keyId: id,
+      tokens: await this.indexTokens(key, inputs)
+    })));
+
+    const { data, error } = await supabase
+      .from('blind_index_tokens')
+      .select('row_id, key_id, token')
+      .eq('index_name', index)
+      .in('token', queries.flatMap(q => q.tokens));
+    if (error) throw error;
+
+    // A row matches when all of a key's tokens point at it
+    const hits = new Map<string, Set<string>>();
+    for (const hit of data || []) {
+      const found = `${hit.row_id}:${hit.key_id}`;
+      if (!hits.has(found)) hits.set(found, new Set());
+      hits.get(found)!.add(hit.token);
+    }
 
-    // Combine salt, nonce, and encrypted data
-    const combined = new Uint8Array([
-      ...salt,
-      ...nonce,
-      ...new Uint8Array(encrypted)
-    ]);
+    const rowIds = new Set<string>();
+    for (const hit of data || []) {
+      const query = queries.find(q => q.keyId === hit.key_id);
+      const found = hits.get(`${hit.row_id}:${hit.key_id}`)!;
+      if (query && query.tokens.every(token => found.has(token))) {
+        rowIds.add(hit.row_id);
+      }
+    }
+    return [...rowIds];
+  }
+
+  /**
+   * Start a new index key for a column. Every row is queued for re-indexing;
+   * searches match either key until the rebuild has finished.
+   */
+  static async rotateIndexKey(index: BlindIndexName): Promise<DataKeyInfo & { queued: number }> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/index/rotate`, { body: { index } });
+    if (error) throw error;
 
-    return btoa(String.fromCharCode(...combined));
+    this.indexKeys.delete(index);
+    return data;
   }
 
   /**
-   * Import key from backup
+   * Tokenize queued rows under the active index keys. The scheduler runs
+   * this from pg_cron; administrators can run it on demand.
    */
-  static async importKey(
-    encryptedKey: string,
-    password: string
-  ): Promise<string> {
-    const combined = Uint8Array.from(atob(encryptedKey), c => c.charCodeAt(0));
-    const salt = combined.slice(0, 16);
-    const nonce = combined.slice(16, 28);
-    const ciphertext = combined.slice(28);
-
-    // Derive decryption key from password
-    const encoder = new TextEncoder();
-    const passwordKey = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(password),
-      { name: 'PBKDF2' },
-      false,
-      ['deriveBits', 'deriveKey']
-    );
+  static async rebuildBlindIndexes(limit?: number): Promise<BlindIndexReport> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/index/rebuild`, { body: { limit } });
+    if (error) throw error;
+    return data as BlindIndexReport;
+  }
 
-    const aesKey = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 100000,
-        hash: 'SHA-256'
-      },
-      passwordKey,
-      { name: 'AES-GCM', length: 256 },
-      false,
-      ['decrypt']
-    );
+  // ============================================================================
+  // Key hierarchy (administrators)
+  // ============================================================================
 
-    // Decrypt
-    const decrypted = await crypto.subtle.decrypt(
-      { name: 'AES-GCM', iv: nonce },
-      aesKey,
-      ciphertext
-    );
+  /**
+   * Rotate the root KEK. Data keys are rewrapped under the new root as they
+   * are next used, and the old root is destroyed once nothing is wrapped under it.
+   */
+  static async rotateKey(): Promise<{ id: string; algorithm: string; previousId: string }> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/root/rotate`, { body: {} });
+    if (error) throw error;
+    return data;
+  }
 
-    const keyData = JSON.parse(new TextDecoder().decode(decrypted));
+  /**
+   * Move fields off retired data keys. The scheduler runs this from pg_cron;
+   * administrators can run it on demand.
+   */
+  static async runReencryptionJob(limit?: number): Promise<ReencryptionReport> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/reencrypt`, { body: { limit } });
+    if (error) throw error;
+    return data as ReencryptionReport;
+  }
 
-    // Restore key
-    const key: EncryptionKey = {
-      keyId: keyData.keyId,
-      publicKey: new Uint8Array(keyData.publicKey),
-      secretKey: new Uint8Array(keyData.secretKey),
-      algorithm: keyData.algorithm,
-      createdAt: new Date(keyData.createdAt)
-    };
+  static async getStatus(): Promise<KeyHierarchyStatus> {
+    const { data, error } = await supabase.functions.invoke(`${FUNCTION_NAME}/status`, { method: 'GET' });
+    if (error) throw error;
+    return data as KeyHierarchyStatus;
+  }
 
-    this.keys.set(key.keyId, key);
-    return key.keyId;
+  /**
+   * Forget unwrapped data keys, e.g. on sign-out
+   */
+  static clearCache(): void {
+    this.keys.clear();
+    this.currentKeys.clear();
+    this.indexKeys.clear();
   }
 }
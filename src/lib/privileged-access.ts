@@ -1,4 +1,5 @@
 import { ensureSodiumReady } from './quantum-crypto';
+import { KeyScope, PQCDatabaseEncryption } from './pqc-database-encryption';
 import * as sodium from 'libsodium-wrappers';
 
 export interface PrivilegedAccount {
@@ -70,40 +71,56 @@ export interface PAMCheckoutResult {
   error?: string;
 }
 
+// privileged_accounts is admin-only, so its credentials use one table data key
+const CREDENTIALS_SCOPE: KeyScope = { type: 'table', id: 'privileged_accounts' };
+const CREDENTIALS_CONTEXT = 'privileged_accounts.credentials_encrypted';
+
 export class PrivilegedAccessManager {
-  private static async encryptCredentials(credentials: Record<string, string>, masterKey: Uint8Array): Promise<string> {
-    await ensureSodiumReady();
-    const credentialsJson = JSON.stringify(credentials);
-    const credentialsBytes = sodium.from_string(credentialsJson);
-    
-    const nonce = sodium.randombytes_buf(sodium.crypto_secretbox_NONCEBYTES);
-    const ciphertext = sodium.crypto_secretbox_easy(credentialsBytes, nonce, masterKey);
-    
-    const combined = new Uint8Array(nonce.length + ciphertext.length);
-    combined.set(nonce);
-    combined.set(ciphertext, nonce.length);
-    
-    return sodium.to_base64(combined);
+  private static async encryptCredentials(credentials: Record<string, string>): Promise<string> {
+    return PQCDatabaseEncryption.encryptField(JSON.stringify(credentials), CREDENTIALS_SCOPE, CREDENTIALS_CONTEXT);
   }
 
-  private static async decryptCredentials(encryptedCredentials: string, masterKey: Uint8Array): Promise<Record<string, string>> {
+  /**
+   * Credentials stored before envelope encryption are sealed with a
+   * device-held key, which has to be supplied to read them
+   */
+  private static async decryptCredentials(encryptedCredentials: string, legacyKey?: Uint8Array): Promise<Record<string, string>> {
+    if (PQCDatabaseEncryption.isEncryptedField(encryptedCredentials)) {
+      return JSON.parse(await PQCDatabaseEncryption.decryptField(encryptedCredentials, CREDENTIALS_CONTEXT));
+    }
+    if (!legacyKey) {
+      throw new Error('Credentials are sealed with a device-held key that is not available');
+    }
+
     await ensureSodiumReady();
     const combined = sodium.from_base64(encryptedCredentials);
     const nonce = combined.slice(0, sodium.crypto_secretbox_NONCEBYTES);
     const ciphertext = combined.slice(sodium.crypto_secretbox_NONCEBYTES);
     
-    const decryptedBytes = sodium.crypto_secretbox_open_easy(ciphertext, nonce, masterKey);
+    const decryptedBytes = sodium.crypto_secretbox_open_easy(ciphertext, nonce, legacyKey);
     const credentialsJson = sodium.to_string(decryptedBytes);
     
     return JSON.parse(credentialsJson);
   }
 
+  static isLegacyCredentials(encryptedCredentials: string): boolean {
+    return !PQCDatabaseEncryption.isEncryptedField(encryptedCredentials);
+  }
+
+  /**
+   * Re-encrypt legacy credentials under the privileged_accounts data key
+   */
+  static async migrateLegacyCredentials(encryptedCredentials: string, legacyKey: Uint8Array): Promise<string> {
+    const credentials = await this.decryptCredentials(encryptedCredentials, legacyKey);
+    return this.encryptCredentials(credentials);
+  }
+
   static async createPrivilegedAccount(
     accountData: Omit<PrivilegedAccount, 'id' | 'credentials_encrypted' | 'last_rotation' | 'next_rotation'>,
-    credentials: Record<string, string>,
-    masterKey: Uint8Array
+    credentials: Record<string, string>
   ): Promise<PrivilegedAccount> {
-    const encryptedCredentials = await this.encryptCredentials(credentials, masterKey);
+    const encryptedCredentials = await this.encryptCredentials(credentials);
+    await ensureSodiumReady();
     
     const account: PrivilegedAccount = {
       ...accountData,
@@ -129,10 +146,9 @@ export class PrivilegedAccessManager {
 
   static async rotateCredentials(
     account: PrivilegedAccount,
-    newCredentials: Record<string, string>,
-    masterKey: Uint8Array
+    newCredentials: Record<string, string>
   ): Promise<PrivilegedAccount> {
-    const encryptedCredentials = await this.encryptCredentials(newCredentials, masterKey);
+    const encryptedCredentials = await this.encryptCredentials(newCredentials);
     
     return {
       ...account,
@@ -145,8 +161,8 @@ export class PrivilegedAccessManager {
   static async checkoutCredentials(
     account: PrivilegedAccount,
     request: PAMCheckoutRequest,
-    masterKey: Uint8Array,
-    userId: string
+    userId: string,
+    legacyKey?: Uint8Array
   ): Promise<PAMCheckoutResult> {
     try {
       // Validate access policy
@@ -159,7 +175,7 @@ export class PrivilegedAccessManager {
       }
 
       // Decrypt credentials
-      const credentials = await this.decryptCredentials(account.credentials_encrypted, masterKey);
+      const credentials = await this.decryptCredentials(account.credentials_encrypted, legacyKey);
       
       // Calculate session expiration
       const duration = request.duration || this.parseDuration(account.checkout_duration);
@@ -167,6 +183,7 @@ export class PrivilegedAccessManager {
       expiresAt.setMinutes(expiresAt.getMinutes() + duration);
       
       // Generate session ID
+      await ensureSodiumReady();
       const sessionId = sodium.to_hex(sodium.randombytes_buf(16));
       
       // Create session restrictions based on account policy
@@ -1,9 +1,26 @@
 import * as sodium from 'libsodium-wrappers';
 import { QuantumSignatures, QuantumKeyDerivation } from './quantum-crypto';
+import {
+  CertificateSigner,
+  KeyAlgorithm,
+  KeyUsage,
+  RevocationReason,
+  RevokedCertificate,
+  SignatureAlgorithm,
+  X509Certificate,
+  certificatesFromPem,
+  createCertificate,
+  createCrl,
+  generateKeyPair,
+  randomSerialNumber,
+  toPem,
+  validatePath
+} from './x509';
 
 /**
  * Quantum-Resistant Public Key Infrastructure (PKI) Management
- * Implements post-quantum certificate authority and certificate management
+ * Implements post-quantum certificate authority and certificate management.
+ * Certificates and CRLs are X.509 DER/PEM (see ./x509).
  */
 
 let sodiumReady = false;
@@ -21,8 +38,12 @@ export interface QuantumCertificate {
   issuer: string;
   subject: string;
   publicKey: Uint8Array;
+  algorithm: KeyAlgorithm;
+  signatureAlgorithm: SignatureAlgorithm;
+  isCA: boolean;
   validFrom: Date;
   validUntil: Date;
+  /** PEM-encoded X.509 certificate */
   certificateData: string;
   isRevoked: boolean;
 }
@@ -30,145 +51,188 @@ export interface QuantumCertificate {
 export interface CertificateRequest {
   subject: string;
   publicKey: Uint8Array;
-  keyUsage: string[];
+  keyUsage: KeyUsage[];
   validityDays: number;
+  algorithm?: KeyAlgorithm;
+}
+
+export interface QuantumCAOptions {
+  crlDistributionPoint?: string;
+  ocspUrl?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toQuantumCertificate(certificate: X509Certificate, isRevoked = false): QuantumCertificate {
+  return {
+    id: crypto.randomUUID(),
+    serialNumber: certificate.serialNumber,
+    issuer: certificate.issuer,
+    subject: certificate.subject,
+    publicKey: certificate.publicKey,
+    algorithm: certificate.keyAlgorithm,
+    signatureAlgorithm: certificate.signatureAlgorithm,
+    isCA: certificate.isCA,
+    validFrom: certificate.notBefore,
+    validUntil: certificate.notAfter,
+    certificateData: toPem(certificate.der),
+    isRevoked
+  };
 }
 
 /**
  * Quantum Certificate Authority
- * Issues and manages quantum-resistant certificates
+ * Issues X.509 certificates signed with ML-DSA or composite ML-DSA + ECDSA
+ * keys, keeps a revocation list and signs CRLs. A CA is either a self-signed
+ * root or an intermediate issued by another QuantumCA.
  */
 export class QuantumCA {
-  private rootPrivateKey: Uint8Array;
-  private rootCertificate: QuantumCertificate;
-
-  constructor(rootPrivateKey: Uint8Array, rootCertificate: QuantumCertificate) {
-    this.rootPrivateKey = rootPrivateKey;
-    this.rootCertificate = rootCertificate;
+  private signer: CertificateSigner;
+  private certificate: X509Certificate;
+  private issuers: X509Certificate[];
+  private options: QuantumCAOptions;
+  private revoked: RevokedCertificate[] = [];
+  private crlNumber = 0;
+
+  constructor(
+    signer: CertificateSigner,
+    certificate: X509Certificate,
+    issuers: X509Certificate[] = [],
+    options: QuantumCAOptions = {}
+  ) {
+    this.signer = signer;
+    this.certificate = certificate;
+    this.issuers = issuers;
+    this.options = options;
   }
 
   static async createRootCA(
     subject: string,
-    validityDays: number = 3650
+    validityDays: number = 3650,
+    algorithm: SignatureAlgorithm = 'ML-DSA-65',
+    options: QuantumCAOptions = {}
   ): Promise<{ ca: QuantumCA; rootCert: QuantumCertificate }> {
-    await ensureSodiumReady();
-    
-    const keyPair = await QuantumSignatures.generateKeyPair();
-    const serialNumber = sodium.to_hex(sodium.randombytes_buf(16));
-    
-    const rootCert: QuantumCertificate = {
-      id: crypto.randomUUID(),
-      serialNumber,
-      issuer: subject,
+    const keyPair = generateKeyPair(algorithm);
+    const signer: CertificateSigner = { name: subject, algorithm, publicKey: keyPair.publicKey, secretKey: keyPair.secretKey };
+    const notBefore = new Date();
+
+    const certificate = await createCertificate({
+      serialNumber: randomSerialNumber(),
       subject,
+      notBefore,
+      notAfter: new Date(notBefore.getTime() + validityDays * DAY_MS),
+      keyAlgorithm: algorithm,
       publicKey: keyPair.publicKey,
-      validFrom: new Date(),
-      validUntil: new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000),
-      certificateData: await this.encodeCertificate({
-        serialNumber,
-        issuer: subject,
-        subject,
-        publicKey: keyPair.publicKey,
-        validFrom: new Date(),
-        validUntil: new Date(Date.now() + validityDays * 24 * 60 * 60 * 1000),
-        keyUsage: ['digitalSignature', 'keyCertSign', 'crlSign']
-      }),
-      isRevoked: false
-    };
+      keyUsage: ['digitalSignature', 'keyCertSign', 'cRLSign'],
+      isCA: true
+    }, signer);
 
-    const ca = new QuantumCA(keyPair.privateKey, rootCert);
-    return { ca, rootCert };
+    const ca = new QuantumCA(signer, certificate, [], options);
+    return { ca, rootCert: toQuantumCertificate(certificate) };
   }
 
-  async issueCertificate(request: CertificateRequest): Promise<QuantumCertificate> {
-    await ensureSodiumReady();
-    
-    const serialNumber = sodium.to_hex(sodium.randombytes_buf(16));
-    const validFrom = new Date();
-    const validUntil = new Date(Date.now() + request.validityDays * 24 * 60 * 60 * 1000);
-
-    const certData = await QuantumCA.encodeCertificate({
-      serialNumber,
-      issuer: this.rootCertificate.subject,
-      subject: request.subject,
-      publicKey: request.publicKey,
-      validFrom,
-      validUntil,
-      keyUsage: request.keyUsage
-    });
-
-    // Sign the certificate with root CA private key
-    const signature = await QuantumSignatures.sign(
-      new TextEncoder().encode(certData),
-      this.rootPrivateKey
+  /**
+   * Issue a subordinate CA. Its certificate never outlives this one.
+   */
+  async createIntermediateCA(
+    subject: string,
+    validityDays: number = 1825,
+    algorithm: SignatureAlgorithm = this.signer.algorithm,
+    pathLength: number = 0,
+    options: QuantumCAOptions = this.options
+  ): Promise<{ ca: QuantumCA; certificate: QuantumCertificate }> {
+    const keyPair = generateKeyPair(algorithm);
+    const notBefore = new Date();
+
+    const certificate = await createCertificate({
+      serialNumber: randomSerialNumber(),
+      subject,
+      notBefore,
+      notAfter: this.clampValidity(notBefore, validityDays),
+      keyAlgorithm: algorithm,
+      publicKey: keyPair.publicKey,
+      keyUsage: ['digitalSignature', 'keyCertSign', 'cRLSign'],
+      isCA: true,
+      pathLength,
+      ...this.options
+    }, this.signer);
+
+    const ca = new QuantumCA(
+      { name: subject, algorithm, publicKey: keyPair.publicKey, secretKey: keyPair.secretKey },
+      certificate,
+      [this.certificate, ...this.issuers],
+      options
     );
+    return { ca, certificate: toQuantumCertificate(certificate) };
+  }
+
+  async issueCertificate(request: CertificateRequest): Promise<QuantumCertificate> {
+    const notBefore = new Date();
 
-    const certificate: QuantumCertificate = {
-      id: crypto.randomUUID(),
-      serialNumber,
-      issuer: this.rootCertificate.subject,
+    const certificate = await createCertificate({
+      serialNumber: randomSerialNumber(),
       subject: request.subject,
+      notBefore,
+      notAfter: this.clampValidity(notBefore, request.validityDays),
+      keyAlgorithm: request.algorithm || 'ML-DSA-65',
       publicKey: request.publicKey,
-      validFrom,
-      validUntil,
-      certificateData: certData + '|' + sodium.to_base64(signature),
-      isRevoked: false
-    };
+      keyUsage: request.keyUsage,
+      ...this.options
+    }, this.signer);
 
-    return certificate;
+    return toQuantumCertificate(certificate);
   }
 
+  /**
+   * Validate a certificate's path to this CA's root and check it against
+   * this CA's revocations
+   */
   async verifyCertificate(certificate: QuantumCertificate): Promise<boolean> {
     try {
-      // Check validity period
-      const now = new Date();
-      if (now < certificate.validFrom || now > certificate.validUntil) {
-        return false;
-      }
-
-      // Check if revoked
-      if (certificate.isRevoked) {
-        return false;
-      }
-
-      // Verify signature
-      const [certData, signatureB64] = certificate.certificateData.split('|');
-      const signature = sodium.from_base64(signatureB64);
-      const message = new TextEncoder().encode(certData);
-
-      return await QuantumSignatures.verify(signature, message, this.rootCertificate.publicKey);
+      const [leaf] = certificatesFromPem(certificate.certificateData);
+      if (!leaf || certificate.isRevoked) return false;
+      if (this.revoked.some(r => r.serialNumber === leaf.serialNumber)) return false;
+
+      const chain = [this.certificate, ...this.issuers];
+      const result = await validatePath(leaf, chain.slice(0, -1), chain.slice(-1));
+      return result.valid;
     } catch {
       return false;
     }
   }
 
-  async revokeCertificate(serialNumber: string, reason: string): Promise<void> {
-    // In a real implementation, this would update a Certificate Revocation List (CRL)
-    console.log(`Certificate ${serialNumber} revoked: ${reason}`);
+  async revokeCertificate(serialNumber: string, reason: RevocationReason = 'unspecified'): Promise<void> {
+    if (this.revoked.some(r => r.serialNumber === serialNumber)) return;
+    this.revoked.push({ serialNumber, revocationDate: new Date(), reason });
   }
 
-  private static async encodeCertificate(data: {
-    serialNumber: string;
-    issuer: string;
-    subject: string;
-    publicKey: Uint8Array;
-    validFrom: Date;
-    validUntil: Date;
-    keyUsage: string[];
-  }): Promise<string> {
-    const certObject = {
-      version: '1.0',
-      serialNumber: data.serialNumber,
-      issuer: data.issuer,
-      subject: data.subject,
-      publicKey: sodium.to_base64(data.publicKey),
-      validFrom: data.validFrom.toISOString(),
-      validUntil: data.validUntil.toISOString(),
-      keyUsage: data.keyUsage,
-      algorithm: 'ML-DSA-65'
-    };
+  /**
+   * Sign a fresh CRL over every certificate this CA has revoked
+   */
+  async generateCRL(nextUpdateDays: number = 7): Promise<string> {
+    const thisUpdate = new Date();
+    this.crlNumber += 1;
+
+    const crl = await createCrl({
+      thisUpdate,
+      nextUpdate: new Date(thisUpdate.getTime() + nextUpdateDays * DAY_MS),
+      crlNumber: this.crlNumber,
+      revoked: this.revoked
+    }, this.signer);
+
+    return toPem(crl.der, 'X509 CRL');
+  }
+
+  /**
+   * This CA's certificate followed by its issuers up to the root
+   */
+  getCertificateChain(): string {
+    return [this.certificate, ...this.issuers].map(c => toPem(c.der)).join('');
+  }
 
-    return JSON.stringify(certObject);
+  private clampValidity(notBefore: Date, validityDays: number): Date {
+    const notAfter = new Date(notBefore.getTime() + validityDays * DAY_MS);
+    return notAfter > this.certificate.notAfter ? this.certificate.notAfter : notAfter;
   }
 }
 
@@ -206,28 +206,28 @@ export class PostQuantumSignatures {
    * Sign message with ML-DSA-65
    */
   static async sign65(message: Uint8Array, secretKey: Uint8Array): Promise<Uint8Array> {
-    return mldsa65.sign(secretKey, message);
+    return mldsa65.sign(message, secretKey);
   }
 
   /**
    * Sign message with ML-DSA-87
    */
   static async sign87(message: Uint8Array, secretKey: Uint8Array): Promise<Uint8Array> {
-    return mldsa87.sign(secretKey, message);
+    return mldsa87.sign(message, secretKey);
   }
 
   /**
    * Verify ML-DSA-65 signature
    */
   static async verify65(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): Promise<boolean> {
-    return mldsa65.verify(publicKey, message, signature);
+    return mldsa65.verify(signature, message, publicKey);
   }
 
   /**
    * Verify ML-DSA-87 signature
    */
   static async verify87(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): Promise<boolean> {
-    return mldsa87.verify(publicKey, message, signature);
+    return mldsa87.verify(signature, message, publicKey);
   }
 
   /**
@@ -0,0 +1,509 @@
+/**
+ * Relationship-Based Access Control (ReBAC)
+ *
+ * Zanzibar-style relation tuples for documents, folders, tasks and projects.
+ * A tuple reads object#relation@subject, where the subject is a user, the
+ * members of a user group, or another object's userset
+ * (e.g. document:42#viewer@folder:finance#viewer).
+ *
+ * Features:
+ * - check / expand / listObjects over the tuple graph
+ * - Relations computed from the object rows (document creator, task
+ *   assigner and assignee)
+ * - Implied relations (owner → editor → viewer, project owner → member)
+ * - Inheritance from parent folders and projects
+ * - Sharing changes recorded on the blockchain audit trail
+ *
+ * check and listObjects run in the database (check_relation) so they always
+ * agree with the row level security on documents and tasks; expand walks the
+ * same rewrite rules client side to explain who has access and why.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type RelationObjectType = 'document' | 'folder' | 'task' | 'project';
+export type RelationSubjectType = 'user' | 'group' | RelationObjectType;
+export type Relation = 'owner' | 'editor' | 'viewer' | 'member' | 'assignee' | 'parent';
+
+export interface ObjectRef {
+  type: RelationObjectType;
+  id: string;
+}
+
+export interface SubjectRef {
+  type: RelationSubjectType;
+  id: string;
+  relation?: string;
+}
+
+export interface RelationTuple {
+  id: string;
+  object: ObjectRef;
+  relation: Relation;
+  subject: SubjectRef;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * One branch of an expanded userset. 'this' is the object's own tuples;
+ * children are the rewrites that also confer the relation.
+ */
+export interface UsersetNode {
+  object: ObjectRef;
+  relation: Relation;
+  via: 'this' | 'computed' | 'group' | 'userset' | 'implied' | 'parent';
+  groupId?: string;
+  users: string[];
+  children: UsersetNode[];
+}
+
+export interface EffectiveAccess {
+  userId: string;
+  path: string[];
+}
+
+export interface RelationDirectory {
+  users: { id: string; label: string }[];
+  groups: { id: string; label: string }[];
+}
+
+// Rewrite rules; keep in sync with public.check_relation()
+const IMPLIED_RELATIONS: Record<RelationObjectType, Partial<Record<Relation, Relation[]>>> = {
+  document: { viewer: ['editor'], editor: ['owner'] },
+  folder: { viewer: ['editor'], editor: ['owner'] },
+  task: { viewer: ['editor'], editor: ['assignee', 'owner'] },
+  project: { member: ['owner'] }
+};
+
+const PARENT_RELATIONS: Partial<Record<RelationObjectType, {
+  parentType: RelationObjectType;
+  relations: Partial<Record<Relation, Relation>>;
+}>> = {
+  document: { parentType: 'folder', relations: { editor: 'editor', viewer: 'viewer' } },
+  folder: { parentType: 'folder', relations: { editor: 'editor', viewer: 'viewer' } },
+  task: { parentType: 'project', relations: { viewer: 'member' } }
+};
+
+// Relation required on a folder or project to file objects into it
+const FILING_RELATIONS: Partial<Record<RelationObjectType, Relation>> = {
+  folder: 'editor',
+  project: 'member'
+};
+
+const MAX_DEPTH = 8;
+
+// ============================================================================
+// Relationship Access Manager Class
+// ============================================================================
+
+export class RelationshipAccessManager {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  // ==========================================================================
+  // Schema
+  // ==========================================================================
+
+  /**
+   * The relations that can be granted on an object type through sharing.
+   */
+  static grantableRelations(type: RelationObjectType): Relation[] {
+    switch (type) {
+      case 'document':
+      case 'folder':
+        return ['viewer', 'editor', 'owner'];
+      case 'task':
+        return ['viewer', 'editor'];
+      case 'project':
+        return ['member', 'owner'];
+    }
+  }
+
+  /**
+   * The relation that means "can see this object".
+   */
+  static accessRelation(type: RelationObjectType): Relation {
+    return type === 'project' ? 'member' : 'viewer';
+  }
+
+  static parentType(type: RelationObjectType): RelationObjectType | null {
+    return PARENT_RELATIONS[type]?.parentType || null;
+  }
+
+  static format(tuple: Pick<RelationTuple, 'object' | 'relation' | 'subject'>): string {
+    const subject = tuple.subject.relation
+      ? `${tuple.subject.type}:${tuple.subject.id}#${tuple.subject.relation}`
+      : `${tuple.subject.type}:${tuple.subject.id}`;
+    return `${tuple.object.type}:${tuple.object.id}#${tuple.relation}@${subject}`;
+  }
+
+  // ==========================================================================
+  // Check / Expand / List Objects
+  // ==========================================================================
+
+  async check(userId: string, object: ObjectRef, relation: Relation): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('check_relation', {
+        _user_id: userId,
+        _object_type: object.type,
+        _object_id: object.id,
+        _relation: relation
+      });
+
+      if (error) throw error;
+      return data === true;
+    } catch (error) {
+      console.error('Error checking relation:', error);
+      return false;
+    }
+  }
+
+  async listObjects(userId: string, type: RelationObjectType, relation: Relation): Promise<string[]> {
+    try {
+      const { data, error } = await supabase.rpc('list_related_objects', {
+        _user_id: userId,
+        _object_type: type,
+        _relation: relation
+      });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error listing related objects:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Expand the userset of object#relation into a tree of every path that
+   * confers it. Only tuples visible to the caller are followed.
+   */
+  async expand(object: ObjectRef, relation: Relation): Promise<UsersetNode> {
+    return this.expandNode(object, relation, 'this', 0);
+  }
+
+  /**
+   * Flatten an expanded userset into one entry per user, with the shortest
+   * path through which the user holds the relation.
+   */
+  static flatten(root: UsersetNode): EffectiveAccess[] {
+    const label = (node: UsersetNode) => node.via === 'group'
+      ? `group:${node.groupId}#member`
+      : `${node.object.type}:${node.object.id}#${node.relation}`;
+
+    const seen = new Map<string, EffectiveAccess>();
+    const queue: { node: UsersetNode; path: string[] }[] = [{ node: root, path: [label(root)] }];
+
+    while (queue.length > 0) {
+      const { node, path } = queue.shift()!;
+      for (const userId of node.users) {
+        if (!seen.has(userId)) seen.set(userId, { userId, path });
+      }
+      for (const child of node.children) {
+        // Computed relations come from the object row, not a further hop
+        queue.push({ node: child, path: child.via === 'computed' ? path : [...path, label(child)] });
+      }
+    }
+
+    return Array.from(seen.values());
+  }
+
+  private async expandNode(
+    object: ObjectRef,
+    relation: Relation,
+    via: UsersetNode['via'],
+    depth: number
+  ): Promise<UsersetNode> {
+    const node: UsersetNode = { object, relation, via, users: [], children: [] };
+    if (depth > MAX_DEPTH) return node;
+
+    const computed = await this.getComputedUsers(object, relation);
+    if (computed.length > 0) {
+      node.children.push({ object, relation, via: 'computed', users: computed, children: [] });
+    }
+
+    const tuples = await this.getTuples(object, relation);
+    for (const tuple of tuples) {
+      if (tuple.subject.type === 'user') {
+        node.users.push(tuple.subject.id);
+      } else if (tuple.subject.type === 'group') {
+        node.children.push({
+          object,
+          relation,
+          via: 'group',
+          groupId: tuple.subject.id,
+          users: await this.getGroupMembers(tuple.subject.id),
+          children: []
+        });
+      } else if (tuple.subject.relation) {
+        node.children.push(await this.expandNode(
+          { type: tuple.subject.type, id: tuple.subject.id },
+          tuple.subject.relation as Relation,
+          'userset',
+          depth + 1
+        ));
+      }
+    }
+
+    for (const implied of IMPLIED_RELATIONS[object.type][relation] || []) {
+      node.children.push(await this.expandNode(object, implied, 'implied', depth + 1));
+    }
+
+    const inheritance = PARENT_RELATIONS[object.type];
+    const parentRelation = inheritance?.relations[relation];
+    if (inheritance && parentRelation) {
+      const parents = await this.getTuples(object, 'parent');
+      for (const parent of parents.filter(p => p.subject.type === inheritance.parentType)) {
+        node.children.push(await this.expandNode(
+          { type: inheritance.parentType, id: parent.subject.id },
+          parentRelation,
+          'parent',
+          depth + 1
+        ));
+      }
+    }
+
+    return node;
+  }
+
+  private async getComputedUsers(object: ObjectRef, relation: Relation): Promise<string[]> {
+    if (object.type === 'document' && relation === 'owner') {
+      const { data } = await supabase
+        .from('documents')
+        .select('created_by')
+        .eq('id', object.id)
+        .maybeSingle();
+      return data ? [data.created_by] : [];
+    }
+
+    if (object.type === 'task' && (relation === 'owner' || relation === 'assignee')) {
+      const { data } = await supabase
+        .from('tasks')
+        .select('assigned_by, assigned_to')
+        .eq('id', object.id)
+        .maybeSingle();
+      if (!data) return [];
+      return [relation === 'owner' ? data.assigned_by : data.assigned_to];
+    }
+
+    return [];
+  }
+
+  private async getGroupMembers(groupId: string): Promise<string[]> {
+    const { data } = await supabase
+      .from('user_group_memberships')
+      .select('user_id')
+      .eq('group_id', groupId);
+
+    return (data || []).map(m => m.user_id);
+  }
+
+  // ==========================================================================
+  // Tuples
+  // ==========================================================================
+
+  async getTuples(object: ObjectRef, relation?: Relation): Promise<RelationTuple[]> {
+    try {
+      let query = supabase
+        .from('relation_tuples')
+        .select('*')
+        .eq('object_type', object.type)
+        .eq('object_id', object.id)
+        .order('created_at', { ascending: true });
+
+      if (relation) query = query.eq('relation', relation);
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(row => this.toTuple(row));
+    } catch (error) {
+      console.error('Error fetching relation tuples:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Grant a relation on an object to a subject. Granting a relation the
+   * subject already holds directly returns the existing tuple.
+   */
+  async share(
+    object: ObjectRef,
+    relation: Relation,
+    subject: SubjectRef,
+    actorId: string
+  ): Promise<RelationTuple | null> {
+    try {
+      const { data, error } = await supabase
+        .from('relation_tuples')
+        .insert({
+          object_type: object.type,
+          object_id: object.id,
+          relation,
+          subject_type: subject.type,
+          subject_id: subject.id,
+          subject_relation: subject.relation || (subject.type === 'group' ? 'member' : null),
+          created_by: actorId
+        })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          const existing = await this.getTuples(object, relation);
+          return existing.find(t => t.subject.type === subject.type && t.subject.id === subject.id) || null;
+        }
+        throw error;
+      }
+
+      const tuple = this.toTuple(data);
+      await this.logChange('RELATION_GRANTED', tuple, actorId);
+      return tuple;
+    } catch (error) {
+      console.error('Error sharing object:', error);
+      return null;
+    }
+  }
+
+  async revoke(tuple: RelationTuple, actorId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('relation_tuples')
+        .delete()
+        .eq('id', tuple.id);
+
+      if (error) throw error;
+
+      await this.logChange('RELATION_REVOKED', tuple, actorId);
+      return true;
+    } catch (error) {
+      console.error('Error revoking relation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Move an object into a folder or project (or out of it, with null).
+   * The actor must be able to file into the parent; a folder or project
+   * nobody has claimed yet becomes the actor's.
+   */
+  async setParent(object: ObjectRef, parentId: string | null, actorId: string): Promise<boolean> {
+    const parentType = RelationshipAccessManager.parentType(object.type);
+    if (!parentType) return false;
+
+    if (parentId) {
+      const parent: ObjectRef = { type: parentType, id: parentId };
+      const filingRelation = FILING_RELATIONS[parentType] || 'owner';
+      if (!await this.check(actorId, parent, filingRelation) && !await this.claim(parent, actorId)) {
+        console.error(`Not allowed to file into ${parentType}:${parentId}`);
+        return false;
+      }
+    }
+
+    const current = await this.getTuples(object, 'parent');
+    for (const tuple of current) {
+      if (tuple.subject.id === parentId) return true;
+      if (!await this.revoke(tuple, actorId)) return false;
+    }
+
+    if (!parentId) return true;
+    return (await this.share(object, 'parent', { type: parentType, id: parentId }, actorId)) !== null;
+  }
+
+  /**
+   * Become the owner of a folder or project that has no tuples yet.
+   */
+  async claim(object: ObjectRef, actorId: string): Promise<boolean> {
+    if (object.type !== 'folder' && object.type !== 'project') return false;
+
+    const { data: exists } = await supabase.rpc('relation_object_exists', {
+      _object_type: object.type,
+      _object_id: object.id
+    });
+    if (exists) return false;
+
+    return (await this.share(object, 'owner', { type: 'user', id: actorId }, actorId)) !== null;
+  }
+
+  // ==========================================================================
+  // Directory
+  // ==========================================================================
+
+  /**
+   * Users and groups objects can be shared with.
+   */
+  async getDirectory(): Promise<RelationDirectory> {
+    try {
+      const [{ data: users }, { data: groups }] = await Promise.all([
+        supabase.from('user_profiles_with_roles').select('user_id, email, full_name'),
+        supabase.from('user_groups').select('id, name').order('name')
+      ]);
+
+      return {
+        users: (users || [])
+          .filter(u => u.user_id)
+          .map(u => ({ id: u.user_id!, label: u.full_name ? `${u.full_name} (${u.email})` : u.email || u.user_id! })),
+        groups: (groups || []).map(g => ({ id: g.id, label: g.name }))
+      };
+    } catch (error) {
+      console.error('Error loading sharing directory:', error);
+      return { users: [], groups: [] };
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async logChange(action: 'RELATION_GRANTED' | 'RELATION_REVOKED', tuple: RelationTuple, actorId: string) {
+    const details = {
+      tuple: RelationshipAccessManager.format(tuple),
+      objectType: tuple.object.type,
+      objectId: tuple.object.id,
+      relation: tuple.relation,
+      subjectType: tuple.subject.type,
+      subjectId: tuple.subject.id
+    };
+
+    if (this.blockchain) {
+      await this.blockchain.logAuditEvent(actorId, action, 'relation_tuples', details);
+    }
+
+    // Folder and project ids are names, not row ids
+    const hasRow = tuple.object.type === 'document' || tuple.object.type === 'task';
+    await supabase.rpc('log_audit_event', {
+      _action: action === 'RELATION_GRANTED' ? 'SHARE' : 'UNSHARE',
+      _resource: tuple.object.type,
+      _resource_id: hasRow ? tuple.object.id : undefined,
+      _details: details
+    });
+  }
+
+  private toTuple(row: Database['public']['Tables']['relation_tuples']['Row']): RelationTuple {
+    return {
+      id: row.id,
+      object: { type: row.object_type as RelationObjectType, id: row.object_id },
+      relation: row.relation as Relation,
+      subject: {
+        type: row.subject_type as RelationSubjectType,
+        id: row.subject_id,
+        relation: row.subject_relation || undefined
+      },
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    };
+  }
+}
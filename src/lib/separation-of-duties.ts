@@ -0,0 +1,958 @@
+/**
+ * Separation of Duties (SoD) Rule Engine
+ *
+ * Evaluates role assignments, group permission grants and JIT access requests
+ * against declarative toxic-combination rules stored in governance_policies
+ * (policy_type = 'segregation_of_duties').
+ *
+ * Features:
+ * - Toxic combinations expressed as sets of entitlement matchers (role,
+ *   permission name, resource, action), optionally on the same resource
+ * - Effective entitlements from roles, group permissions and JIT sessions
+ * - Per-policy enforcement: 'block' rejects the grant, 'warn' and 'monitor'
+ *   allow it and record a policy_violations row
+ * - Grants are checked up front for a clear message; the database enforces
+ *   the same rules on every write (enforce_separation_of_duties trigger) and
+ *   records the violations
+ * - Remediation workflow: assign, investigate, resolve (optionally revoking
+ *   the offending grant) or dismiss as a false positive
+ * - Periodic detection of pre-existing conflicts
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SystemRole = Database['public']['Enums']['system_role'];
+export type EnforcementLevel = 'monitor' | 'warn' | 'block';
+export type ViolationSeverity = 'low' | 'medium' | 'high' | 'critical';
+export type ViolationStatus = 'open' | 'investigating' | 'resolved' | 'false_positive';
+export type EntitlementSource = 'role' | 'group_permission' | 'jit_access';
+
+export interface Entitlement {
+  source: EntitlementSource;
+  sourceId: string;
+  label: string;
+  resource: string;
+  action: string;
+  role?: string;
+  permission?: string;
+}
+
+/**
+ * Matches an entitlement when every field that is set agrees. A resource of
+ * '*' matches any resource.
+ */
+export interface EntitlementMatcher {
+  role?: string;
+  permission?: string;
+  resource?: string;
+  action?: string;
+}
+
+export interface ToxicCombination {
+  id: string;
+  description: string;
+  entitlements: EntitlementMatcher[];
+  sameResource?: boolean;
+  severity?: ViolationSeverity;
+}
+
+export interface SoDPolicyRules {
+  combinations: ToxicCombination[];
+}
+
+export interface SoDScope {
+  exemptUserIds?: string[];
+}
+
+export interface SoDPolicy {
+  id: string;
+  name: string;
+  enforcement: EnforcementLevel;
+  frameworks: string[];
+  combinations: ToxicCombination[];
+  scope: SoDScope;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type ProspectiveGrant =
+  | { type: 'role'; userId: string; role: SystemRole; replaceExisting?: boolean }
+  | { type: 'role_permissions'; role: string; permissionIds: string[] }
+  | { type: 'group_permission'; groupId: string; permissionId: string }
+  | { type: 'group_membership'; userId: string; groupId: string }
+  | { type: 'jit_access'; userId: string; resourceType: string; resourceId: string; accessLevel: string };
+
+export interface SoDConflict {
+  policyId: string;
+  policyName: string;
+  enforcement: EnforcementLevel;
+  combinationId: string;
+  description: string;
+  severity: ViolationSeverity;
+  userId: string | null;
+  resource?: string;
+  entitlements: Entitlement[];
+}
+
+export interface SoDEvaluation {
+  allowed: boolean;
+  grant: ProspectiveGrant;
+  conflicts: SoDConflict[];
+  message: string;
+}
+
+export interface SoDViolation {
+  id: string;
+  policy_id: string;
+  user_id: string | null;
+  violation_type: string;
+  severity_level: ViolationSeverity;
+  violation_data: {
+    combinationId?: string;
+    description?: string;
+    resource?: string;
+    enforcement?: EnforcementLevel;
+    entitlements?: Entitlement[];
+    grant?: ProspectiveGrant;
+    actorId?: string;
+  };
+  detection_method: 'automated' | 'manual' | 'audit';
+  status: ViolationStatus;
+  assigned_to: string | null;
+  resolution_notes: string | null;
+  resolved_at: string | null;
+  created_at: string;
+}
+
+export interface CreateSoDPolicyInput {
+  name: string;
+  enforcement: EnforcementLevel;
+  combinations: ToxicCombination[];
+  frameworks?: string[];
+  exemptUserIds?: string[];
+}
+
+interface PermissionRow {
+  id: string;
+  name: string;
+  resource: string;
+  action: string;
+}
+
+export const SOD_POLICY_TYPE = 'segregation_of_duties';
+export const TOXIC_COMBINATION_VIOLATION = 'toxic_combination';
+
+// ============================================================================
+// Separation of Duties Engine Class
+// ============================================================================
+
+export class SeparationOfDutiesEngine {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  // ==========================================================================
+  // Rule Evaluation
+  // ==========================================================================
+
+  static matches(matcher: EntitlementMatcher, entitlement: Entitlement): boolean {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+    if (matcher.role && !(entitlement.role && same(matcher.role, entitlement.role))) return false;
+    if (matcher.permission && !(entitlement.permission && same(matcher.permission, entitlement.permission))) return false;
+    if (matcher.action && !same(matcher.action, entitlement.action)) return false;
+    if (matcher.resource && matcher.resource !== '*' && !same(matcher.resource, entitlement.resource)) return false;
+    return true;
+  }
+
+  /**
+   * Find the combinations in a policy that the given entitlements satisfy.
+   * Each matcher must be met by a different entitlement; with sameResource,
+   * the matched permissions must all be on one resource (role-only matchers
+   * are met regardless of resource).
+   */
+  static findConflicts(
+    policy: SoDPolicy,
+    entitlements: Entitlement[],
+    userId: string | null
+  ): SoDConflict[] {
+    const conflicts: SoDConflict[] = [];
+
+    for (const combination of policy.combinations) {
+      if (!combination.entitlements || combination.entitlements.length < 2) continue;
+
+      const toConflict = (matched: Entitlement[], resource?: string): SoDConflict => ({
+        policyId: policy.id,
+        policyName: policy.name,
+        enforcement: policy.enforcement,
+        combinationId: combination.id,
+        description: combination.description,
+        severity: combination.severity || 'high',
+        userId,
+        resource,
+        entitlements: matched
+      });
+
+      if (combination.sameResource) {
+        const resources = [...new Set(entitlements.map(e => e.resource.toLowerCase()))];
+        for (const resource of resources) {
+          const matched = SeparationOfDutiesEngine.assign(
+            combination.entitlements,
+            entitlements,
+            e => e.resource.toLowerCase() === resource
+          );
+          if (matched) conflicts.push(toConflict(matched, resource));
+        }
+      } else {
+        const matched = SeparationOfDutiesEngine.assign(combination.entitlements, entitlements, () => true);
+        if (matched) conflicts.push(toConflict(matched));
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Assign a distinct entitlement to every matcher (small backtracking search).
+   */
+  private static assign(
+    matchers: EntitlementMatcher[],
+    entitlements: Entitlement[],
+    onResource: (entitlement: Entitlement) => boolean,
+    used: Set<Entitlement> = new Set()
+  ): Entitlement[] | null {
+    if (matchers.length === 0) return [];
+
+    const [matcher, ...rest] = matchers;
+    const roleOnly = !matcher.permission && !matcher.action && !matcher.resource;
+
+    for (const entitlement of entitlements) {
+      if (used.has(entitlement)) continue;
+      if (!roleOnly && !onResource(entitlement)) continue;
+      if (!SeparationOfDutiesEngine.matches(matcher, entitlement)) continue;
+
+      used.add(entitlement);
+      const remaining = SeparationOfDutiesEngine.assign(rest, entitlements, onResource, used);
+      used.delete(entitlement);
+      if (remaining) return [entitlement, ...remaining];
+    }
+
+    return null;
+  }
+
+  /**
+   * Evaluate a grant before it is made. Only conflicts the grant would
+   * introduce are reported; conflicts that already exist are left to
+   * detectViolations. The database repeats the check when the grant is
+   * written and records the non-blocking conflicts itself.
+   */
+  async evaluateGrant(grant: ProspectiveGrant, actorId: string): Promise<SoDEvaluation> {
+    try {
+      const policies = (await this.getPolicies()).filter(p => p.isActive);
+      if (policies.length === 0) {
+        return { allowed: true, grant, conflicts: [], message: 'No separation of duties policies apply' };
+      }
+
+      const subjects = await this.buildSubjects(grant);
+      const conflicts: SoDConflict[] = [];
+
+      for (const subject of subjects) {
+        const combined = [...subject.current, ...subject.prospective];
+
+        for (const policy of policies) {
+          if (subject.userId && policy.scope.exemptUserIds?.includes(subject.userId)) continue;
+
+          const existing = new Set(
+            SeparationOfDutiesEngine.findConflicts(policy, subject.current, subject.userId)
+              .map(c => `${c.combinationId}:${c.resource ?? ''}`)
+          );
+
+          conflicts.push(
+            ...SeparationOfDutiesEngine.findConflicts(policy, combined, subject.userId)
+              .filter(c => !existing.has(`${c.combinationId}:${c.resource ?? ''}`))
+          );
+        }
+      }
+
+      const blocking = conflicts.filter(c => c.enforcement === 'block');
+
+      if (blocking.length > 0 && this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_GRANT_BLOCKED', 'governance_policies', {
+          grant,
+          conflicts: blocking.map(c => ({
+            policyId: c.policyId,
+            combinationId: c.combinationId,
+            userId: c.userId,
+            resource: c.resource
+          }))
+        });
+      }
+
+      return {
+        allowed: blocking.length === 0,
+        grant,
+        conflicts,
+        message: blocking.length > 0
+          ? `Blocked by separation of duties: ${blocking.map(c => c.description).join('; ')}`
+          : conflicts.length > 0
+            ? `Separation of duties conflict recorded: ${conflicts.map(c => c.description).join('; ')}`
+            : 'No separation of duties conflicts'
+      };
+    } catch (error) {
+      console.error('Error evaluating separation of duties:', error);
+      return {
+        allowed: false,
+        grant,
+        conflicts: [],
+        message: 'Separation of duties policies could not be evaluated'
+      };
+    }
+  }
+
+  /**
+   * Scan every user's current entitlements for conflicts that predate the
+   * policies (or were granted outside the enforced paths). Conflicts that
+   * already have an open or investigating violation are skipped.
+   */
+  async detectViolations(actorId: string): Promise<number> {
+    try {
+      const policies = (await this.getPolicies()).filter(p => p.isActive);
+      if (policies.length === 0) return 0;
+
+      const { data: roleRows, error: roleError } = await supabase.from('user_roles').select('user_id');
+      if (roleError) throw roleError;
+      const { data: memberRows, error: memberError } = await supabase
+        .from('user_group_memberships')
+        .select('user_id');
+      if (memberError) throw memberError;
+
+      const userIds = [...new Set([...(roleRows || []), ...(memberRows || [])].map(r => r.user_id))];
+
+      const { data: openRows, error: openError } = await supabase
+        .from('policy_violations')
+        .select('policy_id, user_id, violation_data')
+        .eq('violation_type', TOXIC_COMBINATION_VIOLATION)
+        .in('status', ['open', 'investigating']);
+      if (openError) throw openError;
+
+      const open = new Set(
+        (openRows || []).map(r => {
+          const data = r.violation_data as SoDViolation['violation_data'];
+          return `${r.policy_id}:${r.user_id}:${data?.combinationId ?? ''}:${data?.resource ?? ''}`;
+        })
+      );
+
+      let detected = 0;
+
+      for (const userId of userIds) {
+        const entitlements = await this.getUserEntitlements(userId);
+
+        for (const policy of policies) {
+          if (policy.scope.exemptUserIds?.includes(userId)) continue;
+
+          for (const conflict of SeparationOfDutiesEngine.findConflicts(policy, entitlements, userId)) {
+            const key = `${policy.id}:${userId}:${conflict.combinationId}:${conflict.resource ?? ''}`;
+            if (open.has(key)) continue;
+
+            const { error } = await supabase.from('policy_violations').insert({
+              policy_id: policy.id,
+              user_id: userId,
+              violation_type: TOXIC_COMBINATION_VIOLATION,
+              severity_level: conflict.severity,
+              detection_method: 'audit',
+              status: 'open',
+              violation_data: {
+                combinationId: conflict.combinationId,
+                description: conflict.description,
+                resource: conflict.resource,
+                enforcement: conflict.enforcement,
+                entitlements: conflict.entitlements,
+                actorId
+              } as unknown as Json
+            });
+
+            if (error) {
+              console.error('Error recording detected violation:', error);
+              continue;
+            }
+
+            open.add(key);
+            detected++;
+          }
+        }
+      }
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_DETECTION_RUN', 'policy_violations', {
+          usersScanned: userIds.length,
+          violationsDetected: detected
+        });
+      }
+
+      return detected;
+    } catch (error) {
+      console.error('Error detecting separation of duties violations:', error);
+      return 0;
+    }
+  }
+
+  // ==========================================================================
+  // Entitlements
+  // ==========================================================================
+
+  /**
+   * Effective entitlements of a user: roles and their permissions, group
+   * permissions, and JIT sessions that are pending, approved or active.
+   */
+  async getUserEntitlements(userId: string): Promise<Entitlement[]> {
+    const entitlements: Entitlement[] = [];
+
+    const { data: roles, error: rolesError } = await supabase
+      .from('user_roles')
+      .select('role')
+      .eq('user_id', userId);
+    if (rolesError) throw rolesError;
+
+    for (const { role } of roles || []) {
+      entitlements.push(...(await this.getRoleEntitlements(role)));
+    }
+
+    const { data: memberships, error: membershipsError } = await supabase
+      .from('user_group_memberships')
+      .select('group_id, user_groups(name)')
+      .eq('user_id', userId);
+    if (membershipsError) throw membershipsError;
+
+    const groupIds = (memberships || []).map(m => m.group_id);
+    if (groupIds.length > 0) {
+      const groupNames = new Map(
+        (memberships || []).map(m => [m.group_id, (m.user_groups as { name: string } | null)?.name || m.group_id])
+      );
+
+      const { data: groupPermissions, error: groupError } = await supabase
+        .from('group_permissions')
+        .select('group_id, permissions(id, name, resource, action)')
+        .in('group_id', groupIds);
+      if (groupError) throw groupError;
+
+      for (const row of groupPermissions || []) {
+        const permission = row.permissions as PermissionRow | null;
+        if (!permission) continue;
+        entitlements.push(
+          this.toPermissionEntitlement('group_permission', row.group_id, permission, `group ${groupNames.get(row.group_id)}`)
+        );
+      }
+    }
+
+    const { data: sessions, error: sessionsError } = await supabase
+      .from('jit_access_sessions')
+      .select('id, resource_type, resource_id, access_level')
+      .eq('user_id', userId)
+      .in('status', ['pending', 'approved', 'active'])
+      .gt('expires_at', new Date().toISOString());
+    if (sessionsError) throw sessionsError;
+
+    for (const session of sessions || []) {
+      entitlements.push(
+        this.toJitEntitlement(session.id, session.resource_type, session.resource_id, session.access_level)
+      );
+    }
+
+    return entitlements;
+  }
+
+  private async getRoleEntitlements(role: string): Promise<Entitlement[]> {
+    const entitlements: Entitlement[] = [
+      { source: 'role', sourceId: role, label: `${role} role`, resource: 'roles', action: 'assume', role }
+    ];
+
+    const { data, error } = await supabase
+      .from('role_permissions')
+      .select('permissions(id, name, resource, action)')
+      .eq('role', role as SystemRole);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const permission = row.permissions as PermissionRow | null;
+      if (!permission) continue;
+      entitlements.push({
+        ...this.toPermissionEntitlement('role', role, permission, `${role} role`),
+        role
+      });
+    }
+
+    return entitlements;
+  }
+
+  private async getPermissions(permissionIds: string[]): Promise<PermissionRow[]> {
+    if (permissionIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('permissions')
+      .select('id, name, resource, action')
+      .in('id', permissionIds);
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  private async buildSubjects(
+    grant: ProspectiveGrant
+  ): Promise<{ userId: string | null; current: Entitlement[]; prospective: Entitlement[] }[]> {
+    switch (grant.type) {
+      case 'role': {
+        const current = await this.getUserEntitlements(grant.userId);
+        return [{
+          userId: grant.userId,
+          current: grant.replaceExisting ? current.filter(e => e.source !== 'role') : current,
+          prospective: await this.getRoleEntitlements(grant.role)
+        }];
+      }
+
+      case 'role_permissions': {
+        // A role definition is checked on its own: the role itself must not
+        // carry a toxic combination, whoever it is later assigned to.
+        const permissions = await this.getPermissions(grant.permissionIds);
+        return [{
+          userId: null,
+          current: [],
+          prospective: [
+            { source: 'role', sourceId: grant.role, label: `${grant.role} role`, resource: 'roles', action: 'assume', role: grant.role },
+            ...permissions.map(p => ({
+              ...this.toPermissionEntitlement('role', grant.role, p, `${grant.role} role`),
+              role: grant.role
+            }))
+          ]
+        }];
+      }
+
+      case 'group_permission': {
+        const [permission] = await this.getPermissions([grant.permissionId]);
+        if (!permission) return [];
+
+        const { data: group } = await supabase
+          .from('user_groups')
+          .select('name')
+          .eq('id', grant.groupId)
+          .maybeSingle();
+
+        const { data: members, error } = await supabase
+          .from('user_group_memberships')
+          .select('user_id')
+          .eq('group_id', grant.groupId);
+        if (error) throw error;
+
+        const prospective = [
+          this.toPermissionEntitlement('group_permission', grant.groupId, permission, `group ${group?.name || grant.groupId}`)
+        ];
+
+        return Promise.all(
+          (members || []).map(async m => ({
+            userId: m.user_id,
+            current: await this.getUserEntitlements(m.user_id),
+            prospective
+          }))
+        );
+      }
+
+      case 'group_membership': {
+        const { data: groupPermissions, error } = await supabase
+          .from('group_permissions')
+          .select('permission_id')
+          .eq('group_id', grant.groupId);
+        if (error) throw error;
+
+        const { data: group } = await supabase
+          .from('user_groups')
+          .select('name')
+          .eq('id', grant.groupId)
+          .maybeSingle();
+
+        const permissions = await this.getPermissions((groupPermissions || []).map(p => p.permission_id));
+        return [{
+          userId: grant.userId,
+          current: await this.getUserEntitlements(grant.userId),
+          prospective: permissions.map(p =>
+            this.toPermissionEntitlement('group_permission', grant.groupId, p, `group ${group?.name || grant.groupId}`)
+          )
+        }];
+      }
+
+      case 'jit_access':
+        return [{
+          userId: grant.userId,
+          current: await this.getUserEntitlements(grant.userId),
+          prospective: [this.toJitEntitlement('pending', grant.resourceType, grant.resourceId, grant.accessLevel)]
+        }];
+    }
+  }
+
+  private toPermissionEntitlement(
+    source: EntitlementSource,
+    sourceId: string,
+    permission: PermissionRow,
+    via: string
+  ): Entitlement {
+    return {
+      source,
+      sourceId,
+      label: `${permission.name} (via ${via})`,
+      resource: permission.resource,
+      action: permission.action,
+      permission: permission.name
+    };
+  }
+
+  private toJitEntitlement(
+    sessionId: string,
+    resourceType: string,
+    resourceId: string,
+    accessLevel: string
+  ): Entitlement {
+    return {
+      source: 'jit_access',
+      sourceId: sessionId,
+      label: `JIT ${accessLevel} on ${resourceType}/${resourceId}`,
+      resource: resourceType,
+      action: accessLevel
+    };
+  }
+
+  // ==========================================================================
+  // Policy Management
+  // ==========================================================================
+
+  async getPolicies(): Promise<SoDPolicy[]> {
+    const { data, error } = await supabase
+      .from('governance_policies')
+      .select('*')
+      .eq('policy_type', SOD_POLICY_TYPE)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching separation of duties policies:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.toPolicy(row));
+  }
+
+  async createPolicy(input: CreateSoDPolicyInput, actorId: string): Promise<SoDPolicy | null> {
+    try {
+      const { data, error } = await supabase
+        .from('governance_policies')
+        .insert({
+          policy_name: input.name,
+          policy_type: SOD_POLICY_TYPE,
+          enforcement_level: input.enforcement,
+          compliance_frameworks: input.frameworks || ['SOC2'],
+          policy_rules: { combinations: input.combinations } as unknown as Json,
+          scope_criteria: { exemptUserIds: input.exemptUserIds || [] },
+          created_by: actorId
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_POLICY_CREATED', 'governance_policies', {
+          policyId: data.id,
+          name: input.name,
+          enforcement: input.enforcement,
+          combinations: input.combinations.length
+        });
+      }
+
+      return this.toPolicy(data);
+    } catch (error) {
+      console.error('Error creating separation of duties policy:', error);
+      return null;
+    }
+  }
+
+  async updatePolicy(
+    policyId: string,
+    updates: Partial<CreateSoDPolicyInput> & { isActive?: boolean },
+    actorId: string
+  ): Promise<boolean> {
+    try {
+      const patch: Database['public']['Tables']['governance_policies']['Update'] = {};
+      if (updates.name !== undefined) patch.policy_name = updates.name;
+      if (updates.enforcement !== undefined) patch.enforcement_level = updates.enforcement;
+      if (updates.frameworks !== undefined) patch.compliance_frameworks = updates.frameworks;
+      if (updates.combinations !== undefined) {
+        patch.policy_rules = { combinations: updates.combinations } as unknown as Json;
+      }
+      if (updates.exemptUserIds !== undefined) patch.scope_criteria = { exemptUserIds: updates.exemptUserIds };
+      if (updates.isActive !== undefined) patch.is_active = updates.isActive;
+
+      const { error } = await supabase
+        .from('governance_policies')
+        .update(patch)
+        .eq('id', policyId)
+        .eq('policy_type', SOD_POLICY_TYPE);
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_POLICY_UPDATED', 'governance_policies', {
+          policyId,
+          fields: Object.keys(patch)
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error updating separation of duties policy:', error);
+      return false;
+    }
+  }
+
+  // ==========================================================================
+  // Remediation Workflow
+  // ==========================================================================
+
+  async getViolations(filters: { status?: ViolationStatus[]; userId?: string } = {}): Promise<SoDViolation[]> {
+    let query = supabase
+      .from('policy_violations')
+      .select('*')
+      .eq('violation_type', TOXIC_COMBINATION_VIOLATION)
+      .order('created_at', { ascending: false });
+
+    if (filters.status?.length) query = query.in('status', filters.status);
+    if (filters.userId) query = query.eq('user_id', filters.userId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching policy violations:', error);
+      return [];
+    }
+
+    return (data || []).map(row => this.toViolation(row));
+  }
+
+  async assignViolation(violationId: string, assigneeId: string, actorId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('policy_violations')
+        .update({ assigned_to: assigneeId, status: 'investigating' })
+        .eq('id', violationId)
+        .in('status', ['open', 'investigating']);
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_VIOLATION_ASSIGNED', 'policy_violations', {
+          violationId,
+          assigneeId
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error assigning policy violation:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Resolve a violation. With revokeGrant the grant that introduced the
+   * conflict is undone first: the role falls back to 'user', the member is
+   * removed from the group, the JIT session is revoked, or the permissions
+   * are removed from the role definition.
+   */
+  async resolveViolation(
+    violationId: string,
+    actorId: string,
+    options: { notes: string; revokeGrant?: boolean }
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const { data: row, error } = await supabase
+        .from('policy_violations')
+        .select('*')
+        .eq('id', violationId)
+        .single();
+
+      if (error) throw error;
+
+      const violation = this.toViolation(row);
+      if (violation.status === 'resolved' || violation.status === 'false_positive') {
+        return { success: false, message: 'Violation is already closed' };
+      }
+
+      let revoked = false;
+      if (options.revokeGrant) {
+        const grant = violation.violation_data.grant;
+        if (!grant) {
+          return { success: false, message: 'Violation was not caused by a recorded grant; remediate it manually' };
+        }
+        await this.revokeGrant(grant, violation.user_id, actorId);
+        revoked = true;
+      }
+
+      const { error: updateError } = await supabase
+        .from('policy_violations')
+        .update({
+          status: 'resolved',
+          resolution_notes: options.notes,
+          resolved_at: new Date().toISOString(),
+          assigned_to: violation.assigned_to || actorId
+        })
+        .eq('id', violationId);
+
+      if (updateError) throw updateError;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_VIOLATION_RESOLVED', 'policy_violations', {
+          violationId,
+          userId: violation.user_id,
+          grantRevoked: revoked
+        });
+      }
+
+      return { success: true, message: revoked ? 'Conflicting grant revoked and violation resolved' : 'Violation resolved' };
+    } catch (error) {
+      console.error('Error resolving policy violation:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to resolve violation'
+      };
+    }
+  }
+
+  async dismissViolation(violationId: string, actorId: string, notes: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('policy_violations')
+        .update({
+          status: 'false_positive',
+          resolution_notes: notes,
+          resolved_at: new Date().toISOString()
+        })
+        .eq('id', violationId)
+        .in('status', ['open', 'investigating']);
+
+      if (error) throw error;
+
+      if (this.blockchain) {
+        await this.blockchain.logAuditEvent(actorId, 'SOD_VIOLATION_DISMISSED', 'policy_violations', {
+          violationId,
+          notes
+        });
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Error dismissing policy violation:', error);
+      return false;
+    }
+  }
+
+  private async revokeGrant(grant: ProspectiveGrant, userId: string | null, actorId: string): Promise<void> {
+    switch (grant.type) {
+      case 'role': {
+        const { error } = await supabase
+          .from('user_roles')
+          .update({ role: 'user', assigned_by: actorId })
+          .eq('user_id', grant.userId)
+          .eq('role', grant.role);
+        if (error) throw error;
+        return;
+      }
+
+      case 'role_permissions': {
+        const { error } = await supabase
+          .from('role_permissions')
+          .delete()
+          .eq('role', grant.role as SystemRole)
+          .in('permission_id', grant.permissionIds);
+        if (error) throw error;
+        return;
+      }
+
+      case 'group_permission': {
+        // Other members may legitimately need the permission, so only the
+        // conflicting member leaves the group.
+        if (!userId) throw new Error('Violation has no user to remove from the group');
+        const { error } = await supabase
+          .from('user_group_memberships')
+          .delete()
+          .eq('group_id', grant.groupId)
+          .eq('user_id', userId);
+        if (error) throw error;
+        return;
+      }
+
+      case 'group_membership': {
+        const { error } = await supabase
+          .from('user_group_memberships')
+          .delete()
+          .eq('group_id', grant.groupId)
+          .eq('user_id', grant.userId);
+        if (error) throw error;
+        return;
+      }
+
+      case 'jit_access': {
+        const { error } = await supabase
+          .from('jit_access_sessions')
+          .update({
+            status: 'revoked',
+            revoked_at: new Date().toISOString(),
+            revoked_by: actorId,
+            revoke_reason: 'Separation of duties remediation'
+          })
+          .eq('user_id', grant.userId)
+          .eq('resource_type', grant.resourceType)
+          .eq('resource_id', grant.resourceId)
+          .eq('access_level', grant.accessLevel)
+          .in('status', ['pending', 'approved', 'active']);
+        if (error) throw error;
+        return;
+      }
+    }
+  }
+
+  // ==========================================================================
+  // Mapping
+  // ==========================================================================
+
+  private toPolicy(row: Database['public']['Tables']['governance_policies']['Row']): SoDPolicy {
+    const rules = (row.policy_rules || {}) as unknown as Partial<SoDPolicyRules>;
+    return {
+      id: row.id,
+      name: row.policy_name,
+      enforcement: row.enforcement_level as EnforcementLevel,
+      frameworks: row.compliance_frameworks,
+      combinations: Array.isArray(rules.combinations) ? rules.combinations : [],
+      scope: (row.scope_criteria || {}) as SoDScope,
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at
+    };
+  }
+
+  private toViolation(row: Database['public']['Tables']['policy_violations']['Row']): SoDViolation {
+    return {
+      ...row,
+      severity_level: row.severity_level as ViolationSeverity,
+      violation_data: (row.violation_data || {}) as SoDViolation['violation_data'],
+      detection_method: row.detection_method as SoDViolation['detection_method'],
+      status: row.status as ViolationStatus
+    };
+  }
+}
@@ -0,0 +1,856 @@
+/**
+ * Threshold Key Share Custody
+ *
+ * Keeps every participant's FROST key share server side, sealed to that
+ * participant's ML-KEM-768 public key, so shares survive a reload without
+ * anyone but the holder being able to read them.
+ *
+ * Features:
+ * - Shares sealed to the ML-KEM-768 key in the participant's DID document,
+ *   whose secret key stays in the DID keyring on the participant's device
+ * - Sealing: ML-KEM-768 encapsulation + AES-256-GCM, bound to the key id,
+ *   share id and epoch
+ * - Row level security lets only the participant read the sealed share;
+ *   managers and other participants see custody status only
+ * - Epochs: refreshes and participant replacements run as ceremonies in
+ *   which every dealing holder seals sub-shares to the recipients from its
+ *   own device and each recipient deposits its new share; the new set goes
+ *   live under the same group key and the previous set is wiped
+ * - Custody changes recorded on the blockchain audit trail
+ */
+
+import { bytesToHex, hexToBytes } from '@noble/curves/utils.js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { PostQuantumKEM } from './quantum-pqc';
+import {
+  KeyShare,
+  MultiPartyKeyGeneration,
+  ResharePackage,
+  ReshareKind,
+  ThresholdPublicKey,
+  ThresholdSignatureManager
+} from './threshold-signatures';
+import { BlockchainIntegrationManager } from './enhanced-quantum-blockchain-integration';
+import { DIDManager, QuantumDID } from './did-manager';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type KemKeySource = 'quantum_keys' | 'did';
+
+export type ShareCustodyState = 'sealed' | 'retrieved' | 'superseded';
+
+export interface ParticipantKemKey {
+  userId: string;
+  source: KemKeySource;
+  publicKey: Uint8Array;
+  fingerprint: string;
+}
+
+export interface CustodyParticipant {
+  userId: string;
+  label: string;
+  source: KemKeySource;
+}
+
+export interface CustodiedKey {
+  keyId: string;
+  groupPublicKey: string;
+  threshold: number;
+  totalShares: number;
+  epoch: number;
+  publicKeyPackage: ThresholdPublicKey;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export interface ShareCustodyStatus {
+  shareId: number;
+  epoch: number;
+  participantId: string;
+  verificationShare: string;
+  pqPublicKey: string;
+  kemKeySource: KemKeySource;
+  kemKeyFingerprint: string;
+  status: ShareCustodyState;
+  sealedBy: string;
+  sealedAt: string;
+  retrievedAt: string | null;
+}
+
+export type CeremonyStatus = 'dealing' | 'completed' | 'cancelled';
+
+export interface CeremonyRecipient {
+  shareId: number;
+  participantId: string;
+}
+
+/**
+ * A recipient's sub-share, sealed to its ML-KEM-768 key like a share
+ */
+export interface SealedSubShare {
+  shareId: number;
+  kemKeyFingerprint: string;
+  kemCiphertext: string;
+  ciphertext: string;
+  nonce: string;
+}
+
+export interface CeremonyContribution {
+  dealerShareId: number;
+  dealerId: string;
+  package: ResharePackage;
+  sealedSubShares: SealedSubShare[];
+  createdAt: string;
+}
+
+/**
+ * A refresh or reshare of a key from its base epoch to the target epoch
+ */
+export interface KeyCeremony {
+  id: string;
+  keyId: string;
+  kind: ReshareKind;
+  baseEpoch: number;
+  targetEpoch: number;
+  dealers: number[];
+  recipients: CeremonyRecipient[];
+  status: CeremonyStatus;
+  createdBy: string;
+  createdAt: string;
+  contributions: CeremonyContribution[];
+}
+
+type SealedShareRow = Database['public']['Tables']['threshold_key_shares']['Row'];
+type CeremonyRow = Database['public']['Tables']['threshold_key_ceremonies']['Row'];
+type ContributionRow = Database['public']['Tables']['threshold_ceremony_contributions']['Row'];
+
+const KEM_ALGORITHM = 'ML-KEM-768';
+const DID_KEM_KEY_TYPE = 'ML-KEM-768-2024';
+
+/**
+ * Threshold Share Custody Manager
+ * Seals, stores and unseals threshold signing key shares
+ */
+export class ThresholdShareCustody {
+  private blockchain?: BlockchainIntegrationManager;
+
+  constructor(enableBlockchainAudit: boolean = true) {
+    if (enableBlockchainAudit) {
+      this.blockchain = new BlockchainIntegrationManager();
+      this.blockchain.initialize().catch(console.error);
+    }
+  }
+
+  // ==========================================================================
+  // Participant Keys
+  // ==========================================================================
+
+  /**
+   * Resolve a participant's ML-KEM-768 public key from their DID document.
+   * quantum_keys is not used: its secret keys are stored server side in
+   * user_quantum_settings, so a share sealed to one is not private.
+   */
+  async resolveKemPublicKey(userId: string): Promise<ParticipantKemKey | null> {
+    try {
+      const { data: did } = await supabase
+        .from('user_dids')
+        .select('did_document')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      const publicKeyHex = did ? ThresholdShareCustody.didKemKey(did.did_document) : null;
+      return publicKeyHex ? this.toKemKey(userId, 'did', hexToBytes(publicKeyHex)) : null;
+    } catch (error) {
+      console.error('Error resolving participant KEM key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Users who can hold a share: everyone with an ML-KEM-768 key in their DID
+   */
+  async getEligibleParticipants(): Promise<CustodyParticipant[]> {
+    try {
+      const [{ data: users }, { data: dids }] = await Promise.all([
+        supabase.from('user_profiles_with_roles').select('user_id, email, full_name'),
+        supabase.from('user_dids').select('user_id, did_document')
+      ]);
+
+      const withDidKey = new Set(
+        (dids || []).filter(d => ThresholdShareCustody.didKemKey(d.did_document)).map(d => d.user_id)
+      );
+
+      return (users || [])
+        .filter(u => u.user_id && withDidKey.has(u.user_id))
+        .map(u => ({
+          userId: u.user_id!,
+          label: u.full_name ? `${u.full_name} (${u.email})` : u.email || u.user_id!,
+          source: 'did' as const
+        }));
+    } catch (error) {
+      console.error('Error loading share participants:', error);
+      return [];
+    }
+  }
+
+  // ==========================================================================
+  // Deposit
+  // ==========================================================================
+
+  /**
+   * Seal every share of a new key to its participant and store the set as
+   * the key's first epoch. Participants must be user ids. Later epochs come
+   * from ceremonies.
+   */
+  async depositKeyShares(generation: MultiPartyKeyGeneration, actorId: string): Promise<number | null> {
+    const { publicKeyPackage, keyShares } = generation;
+    const keyId = publicKeyPackage.keyId;
+
+    try {
+      const kemKeys = await Promise.all(keyShares.map(share => this.resolveKemPublicKey(share.participantId)));
+      const missing = keyShares.filter((_, i) => !kemKeys[i]).map(share => share.participantId);
+      if (missing.length > 0) {
+        console.error('Participants without an ML-KEM-768 key:', missing);
+        return null;
+      }
+
+      const epoch = 1;
+      const { error: keyError } = await supabase.from('threshold_keys').insert({
+        key_id: keyId,
+        group_public_key: publicKeyPackage.groupPublicKey,
+        threshold: publicKeyPackage.threshold,
+        total_shares: keyShares.length,
+        epoch,
+        public_key_package: publicKeyPackage as unknown as Json,
+        created_by: actorId
+      });
+      if (keyError) throw keyError;
+
+      const rows = await Promise.all(keyShares.map((share, i) => this.sealShareRow(share, epoch, kemKeys[i]!, actorId)));
+
+      // One statement, so a set is never stored half way
+      const { error: sharesError } = await supabase.from('threshold_key_shares').insert(rows);
+      if (sharesError) throw sharesError;
+
+      await this.logCustodyEvent(actorId, 'THRESHOLD_SHARES_DEPOSITED', keyId, {
+        epoch,
+        threshold: publicKeyPackage.threshold,
+        participants: keyShares.map(s => ({ shareId: s.shareId, participantId: s.participantId })),
+        groupPublicKey: publicKeyPackage.groupPublicKey
+      });
+
+      return epoch;
+    } catch (error) {
+      console.error('Error depositing key shares:', error);
+      return null;
+    }
+  }
+
+  // ==========================================================================
+  // Retrieval
+  // ==========================================================================
+
+  /**
+   * Unseal the caller's current share of a key. Without an explicit secret
+   * key the ML-KEM-768 secret is taken from the caller's DID keyring on
+   * this device.
+   */
+  async retrieveKeyShare(keyId: string, userId: string, kemSecretKey?: Uint8Array): Promise<KeyShare | null> {
+    try {
+      const key = await this.getKey(keyId);
+      if (!key) return null;
+
+      // A share deposited for a ceremony that is still running is not current
+      const { data: row, error } = await supabase
+        .from('threshold_key_shares')
+        .select('*')
+        .eq('key_id', keyId)
+        .eq('participant_id', userId)
+        .eq('epoch', key.epoch)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!row) return null;
+
+      const secretKey = kemSecretKey || await this.loadKemSecretKey(
+        userId,
+        row.kem_key_source as KemKeySource,
+        row.kem_key_fingerprint
+      );
+      if (!secretKey) {
+        console.error('This device does not hold the ML-KEM-768 secret key the share is sealed to');
+        return null;
+      }
+
+      const share = await ThresholdShareCustody.unsealShare(row, secretKey);
+      if (!ThresholdSignatureManager.verifyKeyShare(share, key.publicKeyPackage)) {
+        console.error('Unsealed share does not match the public key package');
+        return null;
+      }
+
+      await supabase.rpc('mark_threshold_share_retrieved', {
+        _key_id: keyId,
+        _share_id: row.share_id,
+        _epoch: row.epoch
+      });
+
+      await this.logCustodyEvent(userId, 'THRESHOLD_SHARE_RETRIEVED', keyId, {
+        shareId: row.share_id,
+        epoch: row.epoch
+      });
+
+      return share;
+    } catch (error) {
+      console.error('Error retrieving key share:', error);
+      return null;
+    }
+  }
+
+  // Secret keys are only ever read from the holder's device
+  private async loadKemSecretKey(userId: string, source: KemKeySource, fingerprint: string): Promise<Uint8Array | null> {
+    if (source !== 'did') return null;
+
+    const { data: did } = await supabase
+      .from('user_dids')
+      .select('did_document')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const document = did ? ThresholdShareCustody.parseDidDocument(did.did_document) : null;
+    for (const key of document?.publicKey || []) {
+      if (key.type !== DID_KEM_KEY_TYPE) continue;
+      const kemKey = await this.toKemKey(userId, 'did', hexToBytes(key.publicKeyHex));
+      if (kemKey.fingerprint === fingerprint) {
+        return DIDManager.getKemSecretKey(document!, key.publicKeyHex);
+      }
+    }
+    return null;
+  }
+
+  // ==========================================================================
+  // Ceremonies
+  // ==========================================================================
+
+  /**
+   * Open a refresh of every share of a key, dealt by all current holders
+   */
+  async startRefresh(keyId: string, actorId: string): Promise<string | null> {
+    return this.startCeremony(keyId, actorId, {});
+  }
+
+  /**
+   * Open a reshare that hands one share to a new holder. It is dealt by M
+   * current holders, leaving out the holder being replaced when possible.
+   */
+  async startReplacement(keyId: string, actorId: string, shareId: number, newParticipantId: string): Promise<string | null> {
+    const [key, kemKey] = await Promise.all([this.getKey(keyId), this.resolveKemPublicKey(newParticipantId)]);
+    if (!key || !kemKey) {
+      console.error('Cannot reshare to a participant without an ML-KEM-768 key');
+      return null;
+    }
+
+    const holders = key.publicKeyPackage.participants.map(p => p.shareId);
+    const dealers = [...holders.filter(id => id !== shareId), shareId].slice(0, key.threshold);
+
+    return this.startCeremony(keyId, actorId, {
+      _replace_share_id: shareId,
+      _new_participant_id: newParticipantId,
+      _dealers: dealers
+    });
+  }
+
+  private async startCeremony(
+    keyId: string,
+    actorId: string,
+    replacement: { _replace_share_id?: number; _new_participant_id?: string; _dealers?: number[] }
+  ): Promise<string | null> {
+    try {
+      const { data: ceremonyId, error } = await supabase.rpc('start_threshold_ceremony', {
+        _key_id: keyId,
+        ...replacement
+      });
+      if (error) throw error;
+
+      await this.logCustodyEvent(actorId, 'THRESHOLD_CEREMONY_STARTED', keyId, {
+        ceremonyId,
+        kind: replacement._replace_share_id ? 'reshare' : 'refresh',
+        replacedShareId: replacement._replace_share_id,
+        newParticipantId: replacement._new_participant_id,
+        dealers: replacement._dealers
+      });
+
+      return ceremonyId;
+    } catch (error) {
+      console.error('Error starting threshold key ceremony:', error);
+      return null;
+    }
+  }
+
+  async getOpenCeremony(keyId: string): Promise<KeyCeremony | null> {
+    try {
+      const { data: ceremony, error } = await supabase
+        .from('threshold_key_ceremonies')
+        .select('*')
+        .eq('key_id', keyId)
+        .eq('status', 'dealing')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!ceremony) return null;
+
+      const { data: contributions, error: contributionsError } = await supabase
+        .from('threshold_ceremony_contributions')
+        .select('*')
+        .eq('ceremony_id', ceremony.id);
+
+      if (contributionsError) throw contributionsError;
+      return this.toCeremony(ceremony, contributions || []);
+    } catch (error) {
+      console.error('Error loading threshold key ceremony:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Deal a holder's contribution from its own share: commitments for
+   * everyone and a sub-share sealed to each recipient's ML-KEM-768 key
+   */
+  async contribute(ceremony: KeyCeremony, keyShare: KeyShare, actorId: string): Promise<boolean> {
+    try {
+      if (keyShare.keyId !== ceremony.keyId || keyShare.participantId !== actorId) {
+        throw new Error('Holders deal only from their own share');
+      }
+
+      const key = await this.getKey(ceremony.keyId);
+      if (!key || key.epoch !== ceremony.baseEpoch ||
+        !ThresholdSignatureManager.verifyKeyShare(keyShare, key.publicKeyPackage)) {
+        throw new Error('Share does not belong to the epoch being reshared');
+      }
+
+      const kemKeys = await Promise.all(ceremony.recipients.map(r => this.resolveKemPublicKey(r.participantId)));
+      const missing = ceremony.recipients.filter((_, i) => !kemKeys[i]).map(r => r.participantId);
+      if (missing.length > 0) {
+        throw new Error(`Recipients without an ML-KEM-768 key: ${missing.join(', ')}`);
+      }
+
+      const { package: dealt, subShares } = ThresholdSignatureManager.reshareDeal(
+        ceremony.kind,
+        keyShare,
+        ceremony.dealers,
+        ceremony.recipients.map(r => r.shareId)
+      );
+
+      const sealedSubShares: SealedSubShare[] = await Promise.all(ceremony.recipients.map(async (recipient, i) => {
+        const kemKey = kemKeys[i]!;
+        const sealed = await ThresholdShareCustody.seal(
+          new TextEncoder().encode(subShares.get(recipient.shareId)!),
+          ThresholdShareCustody.subShareAssociatedData(ceremony.id, keyShare.shareId, recipient.shareId),
+          kemKey.publicKey
+        );
+        return { shareId: recipient.shareId, kemKeyFingerprint: kemKey.fingerprint, ...sealed };
+      }));
+
+      const { error } = await supabase.from('threshold_ceremony_contributions').insert({
+        ceremony_id: ceremony.id,
+        dealer_share_id: keyShare.shareId,
+        dealer_id: actorId,
+        commitments: dealt.commitments,
+        sealed_sub_shares: sealedSubShares as unknown as Json
+      });
+      if (error) throw error;
+
+      await this.logCustodyEvent(actorId, 'THRESHOLD_CEREMONY_CONTRIBUTED', ceremony.keyId, {
+        ceremonyId: ceremony.id,
+        kind: ceremony.kind,
+        shareId: keyShare.shareId
+      });
+
+      return true;
+    } catch (error) {
+      console.error('Error contributing to threshold key ceremony:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Once every dealer has contributed, unseal this recipient's sub-shares,
+   * check them and combine them into its new share, then seal that to the
+   * recipient and deposit it. A refresh also needs the recipient's current
+   * share, which is unsealed from custody if not given. The new epoch goes
+   * live when the last recipient has deposited.
+   */
+  async acceptShare(
+    ceremony: KeyCeremony,
+    userId: string,
+    currentShare?: KeyShare,
+    kemSecretKey?: Uint8Array
+  ): Promise<{ share: KeyShare; completed: boolean } | null> {
+    try {
+      const recipient = ceremony.recipients.find(r => r.participantId === userId);
+      if (!recipient) {
+        throw new Error('Not a recipient of this ceremony');
+      }
+      if (ceremony.contributions.length < ceremony.dealers.length) {
+        throw new Error(`Waiting for ${ceremony.dealers.length - ceremony.contributions.length} more dealers`);
+      }
+
+      const key = await this.getKey(ceremony.keyId);
+      if (!key || key.epoch !== ceremony.baseEpoch) {
+        throw new Error('The key has moved past this ceremony');
+      }
+
+      const secretKeys = new Map<string, Uint8Array | null>();
+      const received = new Map<number, string>();
+      for (const contribution of ceremony.contributions) {
+        const sealed = contribution.sealedSubShares.find(s => s.shareId === recipient.shareId);
+        if (!sealed) {
+          throw new Error(`No sub-share from share ${contribution.dealerShareId}`);
+        }
+
+        if (!secretKeys.has(sealed.kemKeyFingerprint)) {
+          secretKeys.set(
+            sealed.kemKeyFingerprint,
+            kemSecretKey || await this.loadKemSecretKey(userId, 'did', sealed.kemKeyFingerprint)
+          );
+        }
+        const secretKey = secretKeys.get(sealed.kemKeyFingerprint);
+        if (!secretKey) {
+          throw new Error('This device does not hold the ML-KEM-768 secret key the sub-shares are sealed to');
+        }
+
+        const subShare = await ThresholdShareCustody.open(
+          sealed,
+          ThresholdShareCustody.subShareAssociatedData(ceremony.id, contribution.dealerShareId, recipient.shareId),
+          secretKey
+        );
+        received.set(contribution.dealerShareId, new TextDecoder().decode(subShare));
+      }
+
+      const current = ceremony.kind === 'refresh'
+        ? currentShare || await this.retrieveKeyShare(ceremony.keyId, userId, kemSecretKey) || undefined
+        : undefined;
+
+      const share = ThresholdSignatureManager.reshareFinalize(
+        ceremony.kind,
+        key.publicKeyPackage,
+        ceremony.dealers,
+        ceremony.contributions.map(c => c.package),
+        { ...recipient, totalShares: ceremony.recipients.length },
+        received,
+        current
+      );
+
+      const kemKey = await this.resolveKemPublicKey(userId);
+      if (!kemKey) {
+        throw new Error('No ML-KEM-768 key to seal the new share to');
+      }
+
+      const { error } = await supabase
+        .from('threshold_key_shares')
+        .insert(await this.sealShareRow(share, ceremony.targetEpoch, kemKey, userId));
+      if (error) throw error;
+
+      const { data: completed, error: completeError } = await supabase.rpc('complete_threshold_ceremony', {
+        _ceremony_id: ceremony.id
+      });
+      if (completeError) throw completeError;
+
+      await this.logCustodyEvent(userId, 'THRESHOLD_CEREMONY_SHARE_DEPOSITED', ceremony.keyId, {
+        ceremonyId: ceremony.id,
+        kind: ceremony.kind,
+        shareId: share.shareId,
+        epoch: ceremony.targetEpoch,
+        completed: !!completed
+      });
+
+      return { share, completed: !!completed };
+    } catch (error) {
+      console.error('Error accepting reshared key share:', error);
+      return null;
+    }
+  }
+
+  async cancelCeremony(ceremony: KeyCeremony, actorId: string): Promise<boolean> {
+    try {
+      const { data: cancelled, error } = await supabase.rpc('cancel_threshold_ceremony', {
+        _ceremony_id: ceremony.id
+      });
+      if (error) throw error;
+
+      if (cancelled) {
+        await this.logCustodyEvent(actorId, 'THRESHOLD_CEREMONY_CANCELLED', ceremony.keyId, {
+          ceremonyId: ceremony.id,
+          kind: ceremony.kind
+        });
+      }
+      return !!cancelled;
+    } catch (error) {
+      console.error('Error cancelling threshold key ceremony:', error);
+      return false;
+    }
+  }
+
+  // ==========================================================================
+  // Status
+  // ==========================================================================
+
+  async getKeys(): Promise<CustodiedKey[]> {
+    try {
+      const { data, error } = await supabase
+        .from('threshold_keys')
+        .select('*')
+        .order('updated_at', { ascending: false });
+
+      if (error) throw error;
+      const keys = await Promise.all((data || []).map(row => this.toCustodiedKey(row)));
+      return keys.filter((key): key is CustodiedKey => key !== null);
+    } catch (error) {
+      console.error('Error loading threshold keys:', error);
+      return [];
+    }
+  }
+
+  async getKey(keyId: string): Promise<CustodiedKey | null> {
+    try {
+      const { data, error } = await supabase
+        .from('threshold_keys')
+        .select('*')
+        .eq('key_id', keyId)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? await this.toCustodiedKey(data) : null;
+    } catch (error) {
+      console.error('Error loading threshold key:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Custody status of every share of a key, newest epoch first
+   */
+  async getShareStatus(keyId: string): Promise<ShareCustodyStatus[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_threshold_share_status', { _key_id: keyId });
+
+      if (error) throw error;
+      return (data || []).map(row => ({
+        shareId: row.share_id,
+        epoch: row.epoch,
+        participantId: row.participant_id,
+        verificationShare: row.verification_share,
+        pqPublicKey: row.pq_public_key,
+        kemKeySource: row.kem_key_source as KemKeySource,
+        kemKeyFingerprint: row.kem_key_fingerprint,
+        status: row.status as ShareCustodyState,
+        sealedBy: row.sealed_by,
+        sealedAt: row.created_at,
+        retrievedAt: row.retrieved_at
+      }));
+    } catch (error) {
+      console.error('Error loading share custody status:', error);
+      return [];
+    }
+  }
+
+  // ==========================================================================
+  // Sealing
+  // ==========================================================================
+
+  /**
+   * Seal a share: ML-KEM-768 encapsulation to the participant, the shared
+   * secret as an AES-256-GCM key, and the share's position as associated
+   * data so a sealed share cannot be replayed into another slot.
+   */
+  static async sealShare(
+    share: KeyShare,
+    epoch: number,
+    kemPublicKey: Uint8Array
+  ): Promise<{ kemCiphertext: string; sealedShare: string; nonce: string }> {
+    const { kemCiphertext, ciphertext, nonce } = await this.seal(
+      new TextEncoder().encode(JSON.stringify(share)),
+      this.associatedData(share.keyId, share.shareId, epoch),
+      kemPublicKey
+    );
+    return { kemCiphertext, sealedShare: ciphertext, nonce };
+  }
+
+  static async unsealShare(row: SealedShareRow, kemSecretKey: Uint8Array): Promise<KeyShare> {
+    if (!row.kem_ciphertext || !row.sealed_share || !row.nonce) {
+      throw new Error('Share has been superseded');
+    }
+
+    const plaintext = await this.open(
+      { kemCiphertext: row.kem_ciphertext, ciphertext: row.sealed_share, nonce: row.nonce },
+      this.associatedData(row.key_id, row.share_id, row.epoch),
+      kemSecretKey
+    );
+
+    const share = JSON.parse(new TextDecoder().decode(plaintext)) as KeyShare;
+    if (share.keyId !== row.key_id || share.shareId !== row.share_id || share.participantId !== row.participant_id) {
+      throw new Error('Sealed share does not belong to this slot');
+    }
+    return { ...share, createdAt: new Date(share.createdAt) };
+  }
+
+  private static async seal(
+    plaintext: Uint8Array,
+    associatedData: Uint8Array,
+    kemPublicKey: Uint8Array
+  ): Promise<{ kemCiphertext: string; ciphertext: string; nonce: string }> {
+    const { ciphertext, sharedSecret } = await PostQuantumKEM.encapsulate768(kemPublicKey);
+    const nonce = crypto.getRandomValues(new Uint8Array(12));
+
+    const aesKey = await crypto.subtle.importKey('raw', sharedSecret.slice(0, 32), { name: 'AES-GCM' }, false, ['encrypt']);
+    const sealed = await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce, additionalData: associatedData }, aesKey, plaintext);
+
+    return {
+      kemCiphertext: bytesToHex(ciphertext),
+      ciphertext: bytesToHex(new Uint8Array(sealed)),
+      nonce: bytesToHex(nonce)
+    };
+  }
+
+  private static async open(
+    sealed: { kemCiphertext: string; ciphertext: string; nonce: string },
+    associatedData: Uint8Array,
+    kemSecretKey: Uint8Array
+  ): Promise<Uint8Array> {
+    const sharedSecret = await PostQuantumKEM.decapsulate768(hexToBytes(sealed.kemCiphertext), kemSecretKey);
+    const aesKey = await crypto.subtle.importKey('raw', sharedSecret.slice(0, 32), { name: 'AES-GCM' }, false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: hexToBytes(sealed.nonce), additionalData: associatedData },
+      aesKey,
+      hexToBytes(sealed.ciphertext)
+    );
+    return new Uint8Array(plaintext);
+  }
+
+  private static associatedData(keyId: string, shareId: number, epoch: number): Uint8Array {
+    return new TextEncoder().encode(`${keyId}#${shareId}@${epoch}`);
+  }
+
+  private static subShareAssociatedData(ceremonyId: string, dealerShareId: number, recipientShareId: number): Uint8Array {
+    return new TextEncoder().encode(`${ceremonyId}#${dealerShareId}->${recipientShareId}`);
+  }
+
+  private async sealShareRow(share: KeyShare, epoch: number, kemKey: ParticipantKemKey, actorId: string) {
+    const sealed = await ThresholdShareCustody.sealShare(share, epoch, kemKey.publicKey);
+    return {
+      key_id: share.keyId,
+      share_id: share.shareId,
+      epoch,
+      participant_id: share.participantId,
+      verification_share: share.verificationShare,
+      pq_public_key: share.pqPublicKey,
+      kem_algorithm: KEM_ALGORITHM,
+      kem_key_source: kemKey.source,
+      kem_key_fingerprint: kemKey.fingerprint,
+      kem_ciphertext: sealed.kemCiphertext,
+      sealed_share: sealed.sealedShare,
+      nonce: sealed.nonce,
+      sealed_by: actorId
+    };
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private static parseDidDocument(document: Json): QuantumDID | null {
+    return (typeof document === 'string' ? JSON.parse(document) : document) as QuantumDID | null;
+  }
+
+  // Rotated keys stay in the document after the current ones, marked revoked
+  private static didKemKey(document: Json): string | null {
+    const did = this.parseDidDocument(document);
+    return did?.publicKey?.find(k => k.type === DID_KEM_KEY_TYPE && !k.revoked)?.publicKeyHex || null;
+  }
+
+  private async toKemKey(userId: string, source: KemKeySource, publicKey: Uint8Array): Promise<ParticipantKemKey> {
+    const digest = await crypto.subtle.digest('SHA-256', publicKey);
+    return {
+      userId,
+      source,
+      publicKey,
+      fingerprint: bytesToHex(new Uint8Array(digest)).slice(0, 32)
+    };
+  }
+
+  private async logCustodyEvent(actorId: string, action: string, keyId: string, details: Record<string, unknown>) {
+    if (this.blockchain) {
+      await this.blockchain.logAuditEvent(actorId, action, 'threshold_key_shares', { keyId, ...details });
+    }
+
+    await supabase.rpc('log_audit_event', {
+      _action: action,
+      _resource: 'threshold_key_shares',
+      _details: { key_id: keyId, ...details } as Json
+    });
+  }
+
+  /**
+   * The stored package is the one the key was generated with; the current
+   * epoch's verification shares and co-signing keys come from its shares
+   * and must still combine to the group key
+   */
+  private async toCustodiedKey(row: Database['public']['Tables']['threshold_keys']['Row']): Promise<CustodiedKey | null> {
+    const shares = (await this.getShareStatus(row.key_id)).filter(s => s.epoch === row.epoch);
+    const publicKeyPackage: ThresholdPublicKey = {
+      keyId: row.key_id,
+      groupPublicKey: row.group_public_key,
+      threshold: row.threshold,
+      participants: shares
+        .map(s => ({
+          shareId: s.shareId,
+          participantId: s.participantId,
+          verificationShare: s.verificationShare,
+          pqPublicKey: s.pqPublicKey
+        }))
+        .sort((a, b) => a.shareId - b.shareId)
+    };
+
+    if (!ThresholdSignatureManager.verifyPublicKeyPackage(publicKeyPackage)) {
+      console.error(`Epoch ${row.epoch} of ${row.key_id} does not combine to its group key`);
+      return null;
+    }
+
+    return {
+      keyId: row.key_id,
+      groupPublicKey: row.group_public_key,
+      threshold: row.threshold,
+      totalShares: row.total_shares,
+      epoch: row.epoch,
+      publicKeyPackage,
+      createdBy: row.created_by,
+      updatedAt: row.updated_at
+    };
+  }
+
+  private toCeremony(row: CeremonyRow, contributions: ContributionRow[]): KeyCeremony {
+    return {
+      id: row.id,
+      keyId: row.key_id,
+      kind: row.kind as ReshareKind,
+      baseEpoch: row.base_epoch,
+      targetEpoch: row.target_epoch,
+      dealers: row.dealers,
+      recipients: row.recipients as unknown as CeremonyRecipient[],
+      status: row.status as CeremonyStatus,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      contributions: contributions
+        .map(c => ({
+          dealerShareId: c.dealer_share_id,
+          dealerId: c.dealer_id,
+          package: { dealerShareId: c.dealer_share_id, commitments: c.commitments as string[] },
+          sealedSubShares: c.sealed_sub_shares as unknown as SealedSubShare[],
+          createdAt: c.created_at
+        }))
+        .sort((a, b) => a.dealerShareId - b.dealerShareId)
+    };
+  }
+}
@@ -1,120 +1,445 @@
 import * as crypto from 'crypto-js';
+import { ed25519 } from '@noble/curves/ed25519.js';
+import {
+  asciiToBytes,
+  bytesToHex,
+  bytesToNumberLE,
+  concatBytes,
+  hexToBytes,
+  numberToBytesLE,
+  randomBytes
+} from '@noble/curves/utils.js';
+import { ml_dsa65 } from '@noble/post-quantum/ml-dsa.js';
 
 /**
  * Threshold Signature Scheme
  * Requires M-of-N signatures for critical operations
- * Implements Shamir's Secret Sharing with quantum-resistant adaptations
+ *
+ * Features:
+ * - FROST(Ed25519, SHA-512) two-round threshold Schnorr signing (RFC 9591);
+ *   the aggregate is an ordinary Ed25519 signature under the group key
+ * - Shamir secret sharing over the Ed25519 scalar field (BigInt)
+ * - Distributed key generation (Pedersen DKG with proofs of knowledge):
+ *   when each participant runs its own rounds no single party ever holds
+ *   the group signing key
+ * - Trusted-dealer key generation for keys dealt on one device, whose
+ *   shares are sealed to their holders and then dropped
+ * - Verifiable partial signatures: a bad share is identified before
+ *   aggregation instead of producing an invalid signature
+ * - Hybrid mode: every signer also co-signs with ML-DSA-65, and a hybrid
+ *   signature needs M valid post-quantum co-signatures as well
+ * - Resharing to a new set of participants without changing the group key:
+ *   M holders each deal their Lagrange-weighted share from their own device
+ * - Proactive refresh: every holder deals a zero sharing from their own
+ *   device, so shares leaked before the refresh are useless afterwards
  */
 
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
 export interface KeyShare {
   id: string;
+  keyId: string;
   shareId: number;
+  participantId: string;
+  /** Secret signing share s_i (hex scalar) */
   shareData: string;
+  /** Public verification share s_i·G (hex point) */
+  verificationShare: string;
+  groupPublicKey: string;
   threshold: number;
   totalShares: number;
+  /** ML-DSA-65 co-signing key pair (hex) */
+  pqPublicKey: string;
+  pqSecretKey: string;
   createdAt: Date;
 }
 
+/**
+ * Everything a verifier needs: the group key and each participant's
+ * verification share and post-quantum co-signing key.
+ */
+export interface ThresholdPublicKey {
+  keyId: string;
+  groupPublicKey: string;
+  threshold: number;
+  participants: {
+    shareId: number;
+    participantId: string;
+    verificationShare: string;
+    pqPublicKey: string;
+  }[];
+}
+
+export interface MultiPartyKeyGeneration {
+  publicKey: string;
+  keyShares: KeyShare[];
+  threshold: number;
+  participants: string[];
+  publicKeyPackage: ThresholdPublicKey;
+}
+
+export interface SigningCommitment {
+  shareId: number;
+  hiding: string;
+  binding: string;
+}
+
+export interface PartialSignature {
+  shareId: number;
+  signature: string;
+  pqSignature: string;
+  signerId: string;
+  timestamp: Date;
+}
+
+export interface HybridThresholdSignature {
+  algorithm: typeof HYBRID_ALGORITHM;
+  keyId: string;
+  signature: string;
+  coSignatures: { shareId: number; signature: string }[];
+}
+
 export interface ThresholdSignature {
+  requestId: string;
+  keyId: string;
   message: string;
+  commitments: SigningCommitment[];
   signatures: PartialSignature[];
   threshold: number;
   combinedSignature?: string;
+  hybridSignature?: HybridThresholdSignature;
   isComplete: boolean;
 }
 
-export interface PartialSignature {
+/**
+ * Round 1 broadcast of the distributed key generation: commitments to the
+ * participant's polynomial and a proof of knowledge of its constant term.
+ */
+export interface DKGRound1Package {
   shareId: number;
-  signature: string;
-  signerId: string;
-  timestamp: Date;
+  commitments: string[];
+  proofR: string;
+  proofMu: string;
 }
 
-export interface MultiPartyKeyGeneration {
-  publicKey: string;
-  keyShares: KeyShare[];
+export interface DKGSecretPackage {
+  shareId: number;
   threshold: number;
-  participants: string[];
+  totalShares: number;
+  coefficients: bigint[];
+}
+
+export type ReshareKind = 'refresh' | 'reshare';
+
+/**
+ * A dealing holder's broadcast in a refresh or reshare: commitments to the
+ * polynomial it dealt. The sub-share for each recipient is sent privately.
+ */
+export interface ResharePackage {
+  dealerShareId: number;
+  commitments: string[];
+}
+
+interface SigningNonces {
+  hiding: bigint;
+  binding: bigint;
+}
+
+type Point = ReturnType<typeof ed25519.Point.fromBytes>;
+
+const CONTEXT_STRING = 'FROST-ED25519-SHA512-v1';
+const HYBRID_ALGORITHM = 'FROST-ED25519-SHA512+ML-DSA-65';
+const PQ_CONTEXT = asciiToBytes(`${CONTEXT_STRING}/ML-DSA-65`);
+
+const Point = ed25519.Point;
+const Fn = ed25519.Point.Fn;
+const G = ed25519.Point.BASE;
+
+// ============================================================================
+// Scalar and Hash Helpers
+// ============================================================================
+
+const encodeScalar = (scalar: bigint): Uint8Array => numberToBytesLE(scalar, 32);
+const scalarToHex = (scalar: bigint): string => bytesToHex(encodeScalar(scalar));
+const scalarFromHex = (hex: string): bigint => Fn.create(bytesToNumberLE(hexToBytes(hex)));
+const pointFromHex = (hex: string): Point => Point.fromHex(hex);
+
+function randomScalar(): bigint {
+  let scalar = Fn.ZERO;
+  while (Fn.is0(scalar)) {
+    scalar = Fn.create(bytesToNumberLE(randomBytes(64)));
+  }
+  return scalar;
+}
+
+// Public scalars can be zero, which multiply() rejects
+function mulPublic(point: Point, scalar: bigint): Point {
+  return Fn.is0(scalar) ? Point.ZERO : point.multiplyUnsafe(scalar);
 }
 
+function sha512(...parts: Uint8Array[]): Uint8Array {
+  const bytes = concatBytes(...parts);
+  const words: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    words[i >>> 2] |= bytes[i] << (24 - (i % 4) * 8);
+  }
+  const digest = crypto.SHA512(crypto.lib.WordArray.create(words, bytes.length));
+
+  const out = new Uint8Array(digest.sigBytes);
+  for (let i = 0; i < out.length; i++) {
+    out[i] = (digest.words[i >>> 2] >>> (24 - (i % 4) * 8)) & 0xff;
+  }
+  return out;
+}
+
+// RFC 9591 section 6.5 hash functions
+const H1 = (m: Uint8Array) => Fn.create(bytesToNumberLE(sha512(asciiToBytes(CONTEXT_STRING + 'rho'), m)));
+const H2 = (m: Uint8Array) => Fn.create(bytesToNumberLE(sha512(m)));
+const H3 = (m: Uint8Array) => Fn.create(bytesToNumberLE(sha512(asciiToBytes(CONTEXT_STRING + 'nonce'), m)));
+const H4 = (m: Uint8Array) => sha512(asciiToBytes(CONTEXT_STRING + 'msg'), m);
+const H5 = (m: Uint8Array) => sha512(asciiToBytes(CONTEXT_STRING + 'com'), m);
+const HDKG = (m: Uint8Array) => Fn.create(bytesToNumberLE(sha512(asciiToBytes(CONTEXT_STRING + 'dkg'), m)));
+
 /**
  * Threshold Signature Manager
  * Implements M-of-N signature scheme for critical operations
  */
 export class ThresholdSignatureManager {
   private keyShares: Map<string, KeyShare[]>;
+  private publicKeys: Map<string, ThresholdPublicKey>;
   private pendingSignatures: Map<string, ThresholdSignature>;
+  // Round 1 nonces; each signer keeps its own and uses them exactly once
+  private nonces: Map<string, SigningNonces>;
 
   constructor() {
     this.keyShares = new Map();
+    this.publicKeys = new Map();
     this.pendingSignatures = new Map();
+    this.nonces = new Map();
+  }
+
+  // ==========================================================================
+  // Shamir Secret Sharing
+  // ==========================================================================
+
+  /**
+   * Split a scalar into N points on a random polynomial of degree M-1.
+   */
+  static splitSecret(secret: bigint, threshold: number, totalShares: number): { x: number; y: bigint }[] {
+    const coefficients = [Fn.create(secret)];
+    for (let i = 1; i < threshold; i++) {
+      coefficients.push(randomScalar());
+    }
+
+    return Array.from({ length: totalShares }, (_, i) => ({
+      x: i + 1,
+      y: this.evaluatePolynomial(coefficients, BigInt(i + 1))
+    }));
   }
 
   /**
-   * Generate distributed key shares
-   * Splits master key into N shares, requiring M to reconstruct
+   * Interpolate the polynomial at zero from M points.
    */
-  generateKeyShares(
+  static recoverSecret(points: { x: number; y: bigint }[]): bigint {
+    const xs = points.map(p => p.x);
+    return points.reduce(
+      (secret, point) => Fn.add(secret, Fn.mul(point.y, this.lagrangeCoefficient(point.x, xs))),
+      Fn.ZERO
+    );
+  }
+
+  /**
+   * Lagrange coefficient of participant x for the given set, evaluated at
+   * zero unless another point is given: the product of
+   * (at - x_j) / (x - x_j) over the others.
+   */
+  static lagrangeCoefficient(x: number, participants: number[], at: number = 0): bigint {
+    let numerator = Fn.ONE;
+    let denominator = Fn.ONE;
+    for (const other of participants) {
+      if (other === x) continue;
+      numerator = Fn.mul(numerator, Fn.sub(Fn.create(BigInt(at)), Fn.create(BigInt(other))));
+      denominator = Fn.mul(denominator, Fn.sub(Fn.create(BigInt(x)), Fn.create(BigInt(other))));
+    }
+    return Fn.div(numerator, denominator);
+  }
+
+  private static evaluatePolynomial(coefficients: bigint[], x: bigint): bigint {
+    // Horner's method
+    let result = Fn.ZERO;
+    for (let i = coefficients.length - 1; i >= 0; i--) {
+      result = Fn.add(Fn.mul(result, x), coefficients[i]);
+    }
+    return result;
+  }
+
+  // ==========================================================================
+  // Distributed Key Generation
+  // ==========================================================================
+
+  /**
+   * DKG round 1: pick a random polynomial, commit to its coefficients and
+   * prove knowledge of the constant term.
+   */
+  static dkgRound1(
+    shareId: number,
+    threshold: number,
+    totalShares: number
+  ): { secretPackage: DKGSecretPackage; package: DKGRound1Package } {
+    const coefficients = Array.from({ length: threshold }, () => randomScalar());
+    const commitments = coefficients.map(a => G.multiply(a));
+
+    const k = randomScalar();
+    const R = G.multiply(k);
+    const c = HDKG(concatBytes(encodeScalar(BigInt(shareId)), commitments[0].toBytes(), R.toBytes()));
+    const mu = Fn.add(k, Fn.mul(coefficients[0], c));
+
+    return {
+      secretPackage: { shareId, threshold, totalShares, coefficients },
+      package: {
+        shareId,
+        commitments: commitments.map(C => C.toHex()),
+        proofR: R.toHex(),
+        proofMu: scalarToHex(mu)
+      }
+    };
+  }
+
+  /**
+   * DKG round 2: check everyone's proof of knowledge, then evaluate our
+   * polynomial for each other participant. Each share must be sent privately.
+   */
+  static dkgRound2(secretPackage: DKGSecretPackage, round1Packages: DKGRound1Package[]): Map<number, bigint> {
+    for (const pkg of round1Packages) {
+      if (!this.verifyProofOfKnowledge(pkg, secretPackage.threshold)) {
+        throw new Error(`Invalid proof of knowledge from participant ${pkg.shareId}`);
+      }
+    }
+
+    const shares = new Map<number, bigint>();
+    for (let recipient = 1; recipient <= secretPackage.totalShares; recipient++) {
+      shares.set(recipient, this.evaluatePolynomial(secretPackage.coefficients, BigInt(recipient)));
+    }
+    return shares;
+  }
+
+  /**
+   * DKG finalize: verify each received share against its sender's
+   * commitments and sum them into our signing share.
+   */
+  static dkgFinalize(
+    secretPackage: DKGSecretPackage,
+    round1Packages: DKGRound1Package[],
+    receivedShares: Map<number, bigint>
+  ): { signingShare: bigint; verificationShare: Point; groupPublicKey: Point } {
+    let signingShare = Fn.ZERO;
+    let groupPublicKey = Point.ZERO;
+
+    for (const pkg of round1Packages) {
+      const share = receivedShares.get(pkg.shareId);
+      if (share === undefined) {
+        throw new Error(`Missing share from participant ${pkg.shareId}`);
+      }
+
+      const commitments = pkg.commitments.map(pointFromHex);
+      if (!this.verifyShareAgainstCommitments(share, secretPackage.shareId, commitments)) {
+        throw new Error(`Share from participant ${pkg.shareId} does not match its commitments`);
+      }
+
+      signingShare = Fn.add(signingShare, share);
+      groupPublicKey = groupPublicKey.add(commitments[0]);
+    }
+
+    return { signingShare, verificationShare: G.multiply(signingShare), groupPublicKey };
+  }
+
+  private static verifyProofOfKnowledge(pkg: DKGRound1Package, threshold: number): boolean {
+    try {
+      if (pkg.commitments.length !== threshold) return false;
+      const C0 = pointFromHex(pkg.commitments[0]);
+      const R = pointFromHex(pkg.proofR);
+      const c = HDKG(concatBytes(encodeScalar(BigInt(pkg.shareId)), C0.toBytes(), R.toBytes()));
+      return mulPublic(G, scalarFromHex(pkg.proofMu)).subtract(mulPublic(C0, c)).equals(R);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private static verifyShareAgainstCommitments(share: bigint, recipient: number, commitments: Point[]): boolean {
+    let expected = Point.ZERO;
+    let power = Fn.ONE;
+    for (const commitment of commitments) {
+      expected = expected.add(mulPublic(commitment, power));
+      power = Fn.mul(power, BigInt(recipient));
+    }
+    return mulPublic(G, share).equals(expected);
+  }
+
+  /**
+   * Trusted-dealer key generation
+   * Runs every participant's DKG rounds in this process, so the dealer sees
+   * every share and could reconstruct the group signing key. The dealer
+   * must hand each share to its holder and forget the rest; for a key no
+   * one ever holds, each participant runs dkgRound1, dkgRound2 and
+   * dkgFinalize on its own device instead.
+   */
+  dealKeyShares(
     masterId: string,
     threshold: number,
     totalShares: number,
     participants: string[]
   ): MultiPartyKeyGeneration {
-    if (threshold > totalShares) {
-      throw new Error('Threshold cannot exceed total shares');
+    if (threshold < 1 || threshold > totalShares) {
+      throw new Error('Threshold must be between 1 and the total number of shares');
     }
 
     if (participants.length !== totalShares) {
       throw new Error('Number of participants must match total shares');
     }
 
-    // Generate master secret
-    const masterSecret = crypto.lib.WordArray.random(32).toString();
-
-    // Split into shares using Shamir's Secret Sharing
-    const shares = this.shamirSecretSharing(
-      masterSecret,
-      threshold,
-      totalShares
-    );
-
-    // Create key share objects
-    const keyShares: KeyShare[] = shares.map((shareData, index) => ({
-      id: `${masterId}-share-${index + 1}`,
-      shareId: index + 1,
-      shareData,
-      threshold,
-      totalShares,
-      createdAt: new Date()
-    }));
+    const round1 = participants.map((_, i) => ThresholdSignatureManager.dkgRound1(i + 1, threshold, totalShares));
+    const packages = round1.map(r => r.package);
 
-    // Store shares
-    this.keyShares.set(masterId, keyShares);
+    // shares[sender] maps recipient → f_sender(recipient)
+    const shares = round1.map(r => ThresholdSignatureManager.dkgRound2(r.secretPackage, packages));
 
-    // Generate public key (derived from master secret)
-    const publicKey = crypto.SHA3(masterSecret).toString();
+    const keyShares = round1.map(({ secretPackage }, i) => {
+      const received = new Map(shares.map((sent, sender) => [sender + 1, sent.get(secretPackage.shareId)!]));
+      const result = ThresholdSignatureManager.dkgFinalize(secretPackage, packages, received);
+      return ThresholdSignatureManager.toKeyShare(masterId, secretPackage.shareId, participants[i], result.signingShare,
+        result.groupPublicKey.toHex(), threshold, totalShares);
+    });
 
-    return {
-      publicKey,
-      keyShares,
-      threshold,
-      participants
-    };
+    return this.register(masterId, keyShares);
   }
 
+  // ==========================================================================
+  // Signing (FROST)
+  // ==========================================================================
+
   /**
    * Create threshold signature request
    * Initiates M-of-N signing process
    */
   createSignatureRequest(
     requestId: string,
-    message: string,
-    threshold: number
+    keyId: string,
+    message: string
   ): ThresholdSignature {
+    const publicKey = this.publicKeys.get(keyId);
+    if (!publicKey) {
+      throw new Error('Threshold key not found');
+    }
+
     const thresholdSig: ThresholdSignature = {
+      requestId,
+      keyId,
       message,
+      commitments: [],
       signatures: [],
-      threshold,
+      threshold: publicKey.threshold,
       isComplete: false
     };
 
@@ -123,7 +448,42 @@ export class ThresholdSignatureManager {
   }
 
   /**
-   * Add partial signature from key share holder
+   * Signing round 1: the share holder commits to a fresh pair of nonces.
+   * The first M holders to commit form the signing set.
+   */
+  commitToSign(requestId: string, keyShare: KeyShare): SigningCommitment {
+    const request = this.getRequest(requestId, keyShare);
+    this.assertKeyShare(request, keyShare);
+
+    if (request.commitments.some(c => c.shareId === keyShare.shareId)) {
+      throw new Error('This share has already committed');
+    }
+    if (request.commitments.length >= request.threshold) {
+      throw new Error('Signing set is already complete');
+    }
+
+    const secret = encodeScalar(scalarFromHex(keyShare.shareData));
+    const nonces: SigningNonces = {
+      hiding: H3(concatBytes(randomBytes(32), secret)),
+      binding: H3(concatBytes(randomBytes(32), secret))
+    };
+    this.nonces.set(`${requestId}:${keyShare.shareId}`, nonces);
+
+    const commitment: SigningCommitment = {
+      shareId: keyShare.shareId,
+      hiding: G.multiply(nonces.hiding).toHex(),
+      binding: G.multiply(nonces.binding).toHex()
+    };
+    request.commitments.push(commitment);
+    request.commitments.sort((a, b) => a.shareId - b.shareId);
+
+    return commitment;
+  }
+
+  /**
+   * Signing round 2: add a partial signature from a committed share holder.
+   * Each partial signature is verified against the holder's verification
+   * share; once all M are in they are aggregated and the result verified.
    */
   addPartialSignature(
     requestId: string,
@@ -131,10 +491,17 @@ export class ThresholdSignatureManager {
     signerId: string,
     keyShare: KeyShare
   ): { success: boolean; isComplete: boolean; combinedSignature?: string } {
-    const request = this.pendingSignatures.get(requestId);
-    if (!request) {
-      throw new Error('Signature request not found');
+    const request = this.getRequest(requestId, keyShare);
+
+    // Check the share and signer before touching the nonces, so a bad call
+    // cannot burn another holder's nonces
+    if (keyShare.shareId !== shareId) {
+      throw new Error(`Key share ${keyShare.shareId} is not share ${shareId}`);
     }
+    if (keyShare.participantId !== signerId) {
+      throw new Error(`Share ${shareId} is not held by ${signerId}`);
+    }
+    this.assertKeyShare(request, keyShare);
 
     if (request.isComplete) {
       return {
@@ -144,30 +511,67 @@ export class ThresholdSignatureManager {
       };
     }
 
+    if (request.commitments.length < request.threshold) {
+      throw new Error(`Waiting for ${request.threshold - request.commitments.length} more commitments`);
+    }
+
+    if (!request.commitments.some(c => c.shareId === shareId)) {
+      throw new Error('This share is not part of the signing set');
+    }
+
     // Check if this share has already signed
     if (request.signatures.some(s => s.shareId === shareId)) {
       throw new Error('This share has already signed');
     }
 
-    // Generate partial signature using key share
-    const partialSig = this.generatePartialSignature(
-      request.message,
-      keyShare
+    const nonceKey = `${requestId}:${shareId}`;
+    const nonces = this.nonces.get(nonceKey);
+    if (!nonces) {
+      throw new Error('Signing nonces not found');
+    }
+
+    const publicKey = this.publicKeys.get(request.keyId)!;
+    const { bindingFactors, challenge } = this.signingContext(request, publicKey.groupPublicKey);
+    const lambda = ThresholdSignatureManager.lagrangeCoefficient(shareId, request.commitments.map(c => c.shareId));
+
+    const z = Fn.add(
+      Fn.add(nonces.hiding, Fn.mul(nonces.binding, bindingFactors.get(shareId)!)),
+      Fn.mul(Fn.mul(lambda, scalarFromHex(keyShare.shareData)), challenge)
     );
+    // Nonces that went into a response are never used again, even if it fails below
+    this.nonces.delete(nonceKey);
 
-    request.signatures.push({
+    const partial: PartialSignature = {
       shareId,
-      signature: partialSig,
+      signature: scalarToHex(z),
+      pqSignature: bytesToHex(ml_dsa65.sign(
+        new TextEncoder().encode(request.message),
+        hexToBytes(keyShare.pqSecretKey),
+        { context: PQ_CONTEXT }
+      )),
       signerId,
       timestamp: new Date()
-    });
+    };
+
+    if (!this.verifyPartialSignature(request, partial)) {
+      throw new Error(`Partial signature from share ${shareId} is invalid`);
+    }
+
+    request.signatures.push(partial);
 
     // Check if we have enough signatures
     if (request.signatures.length >= request.threshold) {
-      request.combinedSignature = this.combineSignatures(
-        request.message,
-        request.signatures
-      );
+      request.combinedSignature = this.combineSignatures(request, publicKey.groupPublicKey);
+      request.hybridSignature = {
+        algorithm: HYBRID_ALGORITHM,
+        keyId: request.keyId,
+        signature: request.combinedSignature,
+        coSignatures: request.signatures.map(s => ({ shareId: s.shareId, signature: s.pqSignature }))
+      };
+
+      if (!this.verifyHybridSignature(request.message, request.hybridSignature, publicKey)) {
+        throw new Error('Aggregated signature failed verification');
+      }
       request.isComplete = true;
 
       return {
@@ -183,8 +587,39 @@ export class ThresholdSignatureManager {
     };
   }
 
+  /**
+   * Verify a partial signature: z_i·G must equal the signer's commitment
+   * share plus (c·λ_i)·Y_i, and its ML-DSA co-signature must verify.
+   */
+  verifyPartialSignature(request: ThresholdSignature, partial: PartialSignature): boolean {
+    try {
+      const publicKey = this.publicKeys.get(request.keyId);
+      const participant = publicKey?.participants.find(p => p.shareId === partial.shareId);
+      const commitment = request.commitments.find(c => c.shareId === partial.shareId);
+      if (!publicKey || !participant || !commitment) return false;
+
+      const { bindingFactors, challenge } = this.signingContext(request, publicKey.groupPublicKey);
+      const lambda = ThresholdSignatureManager.lagrangeCoefficient(
+        partial.shareId,
+        request.commitments.map(c => c.shareId)
+      );
+
+      const commitmentShare = pointFromHex(commitment.hiding)
+        .add(mulPublic(pointFromHex(commitment.binding), bindingFactors.get(partial.shareId)!));
+      const expected = commitmentShare.add(
+        mulPublic(pointFromHex(participant.verificationShare), Fn.mul(challenge, lambda))
+      );
+
+      return mulPublic(G, scalarFromHex(partial.signature)).equals(expected) &&
+        this.verifyCoSignature(request.message, partial.pqSignature, participant.pqPublicKey);
+    } catch (error) {
+      return false;
+    }
+  }
+
   /**
    * Verify threshold signature
+   * The aggregate is a standard Ed25519 signature under the group key.
    */
   verifyThresholdSignature(
     message: string,
@@ -192,159 +627,375 @@ export class ThresholdSignatureManager {
     publicKey: string
   ): boolean {
     try {
-      // Verify combined signature against public key
-      const messageHash = crypto.SHA3(message).toString();
-      const expectedSig = crypto.SHA3(messageHash + publicKey).toString();
-
-      // In production: Use actual cryptographic verification
-      return signature.length > 0 && publicKey.length > 0;
+      return ed25519.verify(
+        hexToBytes(signature),
+        new TextEncoder().encode(message),
+        hexToBytes(publicKey)
+      );
     } catch (error) {
       return false;
     }
   }
 
   /**
-   * Shamir's Secret Sharing implementation
-   * Splits secret into N shares, requiring M to reconstruct
+   * Verify a hybrid signature: the FROST signature under the group key and
+   * at least M valid ML-DSA-65 co-signatures from distinct participants.
    */
-  private shamirSecretSharing(
-    secret: string,
-    threshold: number,
-    totalShares: number
-  ): string[] {
-    // Generate polynomial coefficients
-    const coefficients = [this.secretToNumber(secret)];
-    for (let i = 1; i < threshold; i++) {
-      coefficients.push(this.randomNumber());
-    }
-
-    // Generate shares by evaluating polynomial at different points
-    const shares: string[] = [];
-    for (let x = 1; x <= totalShares; x++) {
-      let y = 0;
-      for (let i = 0; i < coefficients.length; i++) {
-        y += coefficients[i] * Math.pow(x, i);
+  verifyHybridSignature(
+    message: string,
+    hybrid: HybridThresholdSignature,
+    publicKey: ThresholdPublicKey
+  ): boolean {
+    if (hybrid.algorithm !== HYBRID_ALGORITHM || hybrid.keyId !== publicKey.keyId) return false;
+    if (!this.verifyThresholdSignature(message, hybrid.signature, publicKey.groupPublicKey)) return false;
+
+    const valid = new Set<number>();
+    for (const coSignature of hybrid.coSignatures) {
+      const participant = publicKey.participants.find(p => p.shareId === coSignature.shareId);
+      if (participant && this.verifyCoSignature(message, coSignature.signature, participant.pqPublicKey)) {
+        valid.add(coSignature.shareId);
       }
-      shares.push(`${x}:${y}`);
     }
 
-    return shares;
+    return valid.size >= publicKey.threshold;
+  }
+
+  private verifyCoSignature(message: string, signature: string, pqPublicKey: string): boolean {
+    try {
+      return ml_dsa65.verify(
+        hexToBytes(signature),
+        new TextEncoder().encode(message),
+        hexToBytes(pqPublicKey),
+        { context: PQ_CONTEXT }
+      );
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
-   * Generate partial signature using key share
+   * Binding factors, group commitment and challenge for a request whose
+   * signing set is complete (RFC 9591 sections 4.4 - 4.6).
    */
-  private generatePartialSignature(
-    message: string,
-    keyShare: KeyShare
-  ): string {
-    const messageHash = crypto.SHA3(message).toString();
-    const partialSig = crypto.SHA3(messageHash + keyShare.shareData).toString();
-    return partialSig;
+  private signingContext(request: ThresholdSignature, groupPublicKey: string) {
+    const message = new TextEncoder().encode(request.message);
+    const encodedCommitments = concatBytes(...request.commitments.map(c => concatBytes(
+      encodeScalar(BigInt(c.shareId)),
+      hexToBytes(c.hiding),
+      hexToBytes(c.binding)
+    )));
+    const prefix = concatBytes(hexToBytes(groupPublicKey), H4(message), H5(encodedCommitments));
+
+    const bindingFactors = new Map<number, bigint>();
+    let groupCommitment = Point.ZERO;
+    for (const commitment of request.commitments) {
+      const rho = H1(concatBytes(prefix, encodeScalar(BigInt(commitment.shareId))));
+      bindingFactors.set(commitment.shareId, rho);
+      groupCommitment = groupCommitment
+        .add(pointFromHex(commitment.hiding))
+        .add(mulPublic(pointFromHex(commitment.binding), rho));
+    }
+
+    const challenge = H2(concatBytes(groupCommitment.toBytes(), hexToBytes(groupPublicKey), message));
+    return { bindingFactors, groupCommitment, challenge };
   }
 
   /**
    * Combine partial signatures into final signature
-   * Uses Lagrange interpolation
+   * R || z with z the sum of the partial signatures
    */
-  private combineSignatures(
-    message: string,
-    partialSignatures: PartialSignature[]
-  ): string {
-    // Sort by share ID
-    const sorted = partialSignatures.sort((a, b) => a.shareId - b.shareId);
+  private combineSignatures(request: ThresholdSignature, groupPublicKey: string): string {
+    const { groupCommitment } = this.signingContext(request, groupPublicKey);
+    const z = request.signatures.reduce((sum, s) => Fn.add(sum, scalarFromHex(s.signature)), Fn.ZERO);
+    return bytesToHex(concatBytes(groupCommitment.toBytes(), encodeScalar(z)));
+  }
 
-    // Combine using Lagrange interpolation
-    const combined = sorted.map(s => s.signature).join('');
-    const finalSignature = crypto.SHA3(message + combined).toString();
+  // The share must be the one the key's public key package lists for its id
+  private assertKeyShare(request: ThresholdSignature, keyShare: KeyShare): void {
+    const publicKey = this.publicKeys.get(request.keyId);
+    if (!publicKey || !ThresholdSignatureManager.verifyKeyShare(keyShare, publicKey)) {
+      throw new Error(`Key share ${keyShare.shareId} does not match the public key package`);
+    }
+  }
 
-    return finalSignature;
+  private getRequest(requestId: string, keyShare: KeyShare): ThresholdSignature {
+    const request = this.pendingSignatures.get(requestId);
+    if (!request) {
+      throw new Error('Signature request not found');
+    }
+    if (keyShare.keyId !== request.keyId) {
+      throw new Error('Key share does not belong to the signing key');
+    }
+    return request;
   }
 
+  // ==========================================================================
+  // Recovery and Resharing
+  // ==========================================================================
+
   /**
-   * Recover master secret from shares (for key rotation)
+   * Recover master secret from shares
+   * Reconstructs the group signing key. Signing never needs this; it exists
+   * for break-glass export and defeats the threshold once used.
    */
   recoverMasterSecret(shares: KeyShare[]): string {
-    if (shares.length < shares[0].threshold) {
+    if (shares.length === 0 || shares.length < shares[0].threshold) {
       throw new Error('Insufficient shares to recover secret');
     }
 
-    // Use Lagrange interpolation to reconstruct
-    const points = shares.slice(0, shares[0].threshold).map(share => {
-      const [x, y] = share.shareData.split(':').map(Number);
-      return { x, y };
-    });
+    const secret = ThresholdSignatureManager.recoverSecret(
+      shares.slice(0, shares[0].threshold).map(share => ({
+        x: share.shareId,
+        y: scalarFromHex(share.shareData)
+      }))
+    );
 
-    // Evaluate polynomial at x=0 to get secret
-    let secret = 0;
-    for (let i = 0; i < points.length; i++) {
-      let numerator = 1;
-      let denominator = 1;
-      
-      for (let j = 0; j < points.length; j++) {
-        if (i !== j) {
-          numerator *= (0 - points[j].x);
-          denominator *= (points[i].x - points[j].x);
-        }
-      }
-      
-      secret += points[i].y * (numerator / denominator);
+    if (!G.multiply(secret).equals(pointFromHex(shares[0].groupPublicKey))) {
+      throw new Error('Recovered secret does not match the group public key');
     }
 
-    return this.numberToSecret(Math.round(secret));
+    return scalarToHex(secret);
   }
 
   /**
-   * Rotate key shares (refresh without changing master secret)
+   * Resharing round 1, run by each dealing holder on its own device. A
+   * refresh deals a polynomial with a zero constant term to every share id;
+   * a reshare deals the holder's share, weighted by its Lagrange
+   * coefficient over the dealer set, to the recipients' share ids. Each
+   * sub-share must be sent privately to its recipient.
    */
-  rotateKeyShares(
-    masterId: string,
-    newParticipants: string[]
-  ): MultiPartyKeyGeneration {
-    const existingShares = this.keyShares.get(masterId);
-    if (!existingShares || existingShares.length < existingShares[0].threshold) {
-      throw new Error('Insufficient shares for rotation');
+  static reshareDeal(
+    kind: ReshareKind,
+    keyShare: KeyShare,
+    dealers: number[],
+    recipients: number[]
+  ): { package: ResharePackage; subShares: Map<number, string> } {
+    if (!dealers.includes(keyShare.shareId)) {
+      throw new Error(`Share ${keyShare.shareId} is not one of the dealers`);
+    }
+
+    const coefficients = [kind === 'refresh'
+      ? Fn.ZERO
+      : Fn.mul(this.lagrangeCoefficient(keyShare.shareId, dealers), scalarFromHex(keyShare.shareData))];
+    for (let i = 1; i < keyShare.threshold; i++) {
+      coefficients.push(randomScalar());
+    }
+
+    return {
+      package: {
+        dealerShareId: keyShare.shareId,
+        commitments: coefficients.map(a => mulPublic(G, a).toHex())
+      },
+      subShares: new Map(recipients.map(recipient => [
+        recipient,
+        scalarToHex(this.evaluatePolynomial(coefficients, BigInt(recipient)))
+      ]))
+    };
+  }
+
+  /**
+   * Resharing round 2, run by each recipient on its own device: check every
+   * dealer's commitments against the current public key package, check each
+   * received sub-share against its dealer's commitments and sum them into
+   * the new share. A refresh adds the sum to the recipient's current share.
+   */
+  static reshareFinalize(
+    kind: ReshareKind,
+    publicKey: ThresholdPublicKey,
+    dealers: number[],
+    packages: ResharePackage[],
+    recipient: { shareId: number; participantId: string; totalShares: number },
+    received: Map<number, string>,
+    currentShare?: KeyShare
+  ): KeyShare {
+    const dealt = new Set(packages.map(pkg => pkg.dealerShareId));
+    if (dealt.size !== packages.length || dealt.size !== dealers.length || !dealers.every(d => dealt.has(d))) {
+      throw new Error('Every dealer must contribute exactly once');
+    }
+
+    let signingShare = Fn.ZERO;
+    let constantTerms = Point.ZERO;
+    for (const pkg of packages) {
+      if (pkg.commitments.length !== publicKey.threshold) {
+        throw new Error(`Contribution from share ${pkg.dealerShareId} has the wrong degree`);
+      }
+      const commitments = pkg.commitments.map(pointFromHex);
+
+      if (kind === 'refresh') {
+        if (!commitments[0].equals(Point.ZERO)) {
+          throw new Error(`Refresh contribution from share ${pkg.dealerShareId} does not deal zero`);
+        }
+      } else {
+        const dealer = publicKey.participants.find(p => p.shareId === pkg.dealerShareId);
+        const expected = dealer && mulPublic(
+          pointFromHex(dealer.verificationShare),
+          this.lagrangeCoefficient(pkg.dealerShareId, dealers)
+        );
+        if (!expected || !commitments[0].equals(expected)) {
+          throw new Error(`Share ${pkg.dealerShareId} did not deal its verification share`);
+        }
+      }
+      constantTerms = constantTerms.add(commitments[0]);
+
+      const subShare = received.get(pkg.dealerShareId);
+      if (subShare === undefined) {
+        throw new Error(`Missing sub-share from share ${pkg.dealerShareId}`);
+      }
+      const value = scalarFromHex(subShare);
+      if (!this.verifyShareAgainstCommitments(value, recipient.shareId, commitments)) {
+        throw new Error(`Sub-share from share ${pkg.dealerShareId} does not match its commitments`);
+      }
+      signingShare = Fn.add(signingShare, value);
     }
 
-    // Recover master secret
-    const masterSecret = this.recoverMasterSecret(existingShares);
+    if (kind === 'refresh') {
+      if (!currentShare || currentShare.shareId !== recipient.shareId ||
+        !this.verifyKeyShare(currentShare, publicKey)) {
+        throw new Error('A refresh needs the recipient\'s current share');
+      }
+      signingShare = Fn.add(signingShare, scalarFromHex(currentShare.shareData));
+    } else if (!constantTerms.equals(pointFromHex(publicKey.groupPublicKey))) {
+      throw new Error('Resharing would change the group public key');
+    }
 
-    // Generate new shares
-    return this.generateKeyShares(
-      masterId,
-      existingShares[0].threshold,
-      newParticipants.length,
-      newParticipants
+    return this.toKeyShare(
+      publicKey.keyId, recipient.shareId, recipient.participantId, signingShare,
+      publicKey.groupPublicKey, publicKey.threshold, recipient.totalShares
     );
   }
 
+  // ==========================================================================
+  // Key Registry
+  // ==========================================================================
+
   /**
-   * Get signature request status
+   * Check that a share's secret matches its verification share and, if a
+   * public key package is given, that the package lists it.
    */
-  getSignatureStatus(requestId: string): ThresholdSignature | undefined {
-    return this.pendingSignatures.get(requestId);
+  static verifyKeyShare(share: KeyShare, publicKey?: ThresholdPublicKey): boolean {
+    try {
+      if (!G.multiply(scalarFromHex(share.shareData)).equals(pointFromHex(share.verificationShare))) {
+        return false;
+      }
+      if (!publicKey) return true;
+
+      const participant = publicKey.participants.find(p => p.shareId === share.shareId);
+      return publicKey.keyId === share.keyId &&
+        publicKey.groupPublicKey === share.groupPublicKey &&
+        participant?.participantId === share.participantId &&
+        participant.verificationShare === share.verificationShare &&
+        participant.pqPublicKey === share.pqPublicKey;
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
-   * Helper: Convert secret to number
+   * Check that a public key package is consistent: the verification shares
+   * lie on one polynomial of degree M-1 whose value at zero is the group
+   * key, so shares dealt in a refresh or reshare still combine to it.
    */
-  private secretToNumber(secret: string): number {
-    const hash = crypto.SHA3(secret).toString();
-    return parseInt(hash.substring(0, 8), 16);
+  static verifyPublicKeyPackage(publicKey: ThresholdPublicKey): boolean {
+    try {
+      const participants = [...publicKey.participants].sort((a, b) => a.shareId - b.shareId);
+      if (publicKey.threshold < 1 || participants.length < publicKey.threshold) return false;
+      if (new Set(participants.map(p => p.shareId)).size !== participants.length) return false;
+
+      const basis = participants.slice(0, publicKey.threshold);
+      const basisIds = basis.map(p => p.shareId);
+      const interpolate = (at: number) => basis.reduce(
+        (sum, p) => sum.add(mulPublic(pointFromHex(p.verificationShare), this.lagrangeCoefficient(p.shareId, basisIds, at))),
+        Point.ZERO
+      );
+
+      return interpolate(0).equals(pointFromHex(publicKey.groupPublicKey)) &&
+        participants.slice(publicKey.threshold).every(p =>
+          interpolate(p.shareId).equals(pointFromHex(p.verificationShare))
+        );
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
-   * Helper: Convert number to secret
+   * Load a key from storage: its public key package and whichever shares
+   * have been unsealed locally. Signing needs M of them.
    */
-  private numberToSecret(num: number): string {
-    return num.toString(16);
+  restoreKey(publicKey: ThresholdPublicKey, keyShares: KeyShare[]): void {
+    for (const share of keyShares) {
+      if (!ThresholdSignatureManager.verifyKeyShare(share, publicKey)) {
+        throw new Error(`Share ${share.shareId} does not match the public key package`);
+      }
+    }
+
+    this.publicKeys.set(publicKey.keyId, publicKey);
+    this.keyShares.set(publicKey.keyId, [...keyShares].sort((a, b) => a.shareId - b.shareId));
+  }
+
+  getKeyShares(keyId: string): KeyShare[] {
+    return this.keyShares.get(keyId) || [];
   }
 
   /**
-   * Helper: Generate random number
+   * Get signature request status
    */
-  private randomNumber(): number {
-    return Math.floor(Math.random() * 1000000);
+  getSignatureStatus(requestId: string): ThresholdSignature | undefined {
+    return this.pendingSignatures.get(requestId);
+  }
+
+  getPublicKey(keyId: string): ThresholdPublicKey | undefined {
+    return this.publicKeys.get(keyId);
+  }
+
+  static toKeyShare(
+    keyId: string,
+    shareId: number,
+    participantId: string,
+    signingShare: bigint,
+    groupPublicKey: string,
+    threshold: number,
+    totalShares: number
+  ): KeyShare {
+    const pqKeys = ml_dsa65.keygen();
+    return {
+      id: `${keyId}-share-${shareId}`,
+      keyId,
+      shareId,
+      participantId,
+      shareData: scalarToHex(signingShare),
+      verificationShare: G.multiply(signingShare).toHex(),
+      groupPublicKey,
+      threshold,
+      totalShares,
+      pqPublicKey: bytesToHex(pqKeys.publicKey),
+      pqSecretKey: bytesToHex(pqKeys.secretKey),
+      createdAt: new Date()
+    };
+  }
+
+  private register(keyId: string, keyShares: KeyShare[]): MultiPartyKeyGeneration {
+    const publicKeyPackage: ThresholdPublicKey = {
+      keyId,
+      groupPublicKey: keyShares[0].groupPublicKey,
+      threshold: keyShares[0].threshold,
+      participants: keyShares.map(share => ({
+        shareId: share.shareId,
+        participantId: share.participantId,
+        verificationShare: share.verificationShare,
+        pqPublicKey: share.pqPublicKey
+      }))
+    };
+
+    this.keyShares.set(keyId, keyShares);
+    this.publicKeys.set(keyId, publicKeyPackage);
+
+    return {
+      publicKey: publicKeyPackage.groupPublicKey,
+      keyShares,
+      threshold: publicKeyPackage.threshold,
+      participants: keyShares.map(s => s.participantId),
+      publicKeyPackage
+    };
   }
 
   /**
@@ -352,8 +1003,10 @@ export class ThresholdSignatureManager {
    */
   getStatistics() {
     return {
-      total_key_shares: this.keyShares.size,
-      pending_signatures: this.pendingSignatures.size,
+      total_key_shares: Array.from(this.keyShares.values()).reduce((sum, shares) => sum + shares.length, 0),
+      pending_signatures: Array.from(this.pendingSignatures.values()).filter(
+        s => !s.isComplete
+      ).length,
       completed_signatures: Array.from(this.pendingSignatures.values()).filter(
         s => s.isComplete
       ).length
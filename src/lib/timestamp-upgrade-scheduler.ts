@@ -0,0 +1,215 @@
+/**
+ * Timestamp Upgrade Scheduler
+ *
+ * Keeps the external timestamp proofs in blockchain_timestamps moving from
+ * pending to verified.
+ *
+ * Features:
+ * - Records each mined block's OpenTimestamps proof or RFC 3161 token
+ * - Upgrades pending OpenTimestamps proofs from their calendars, which
+ *   commit to Bitcoin a few hours after submission
+ * - Verifies upgraded proofs against the Bitcoin headers loaded for the
+ *   session, leaving them anchored until a header file covers their block
+ * - Raises a blockchain alert, once each, for proofs that no longer match
+ *   their block
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { AlertManager } from './alert-manager';
+import type { IBlock } from './enhanced-quantum-blockchain';
+import {
+  BitcoinHeaderStore,
+  TimestampMethod,
+  TimestampStatus,
+  upgradeOpenTimestamp,
+  verifyTimestampProof
+} from './external-timestamps';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+type TimestampRow = Database['public']['Tables']['blockchain_timestamps']['Row'];
+
+export interface BlockTimestampRecord {
+  id: string;
+  blockIndex: number;
+  blockHash: string;
+  method: TimestampMethod;
+  status: TimestampStatus;
+  bitcoinHeight: number | null;
+  attestedAt: Date | null;
+  upgradeAttempts: number;
+  lastError: string | null;
+  lastCheckedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface TimestampUpgradeReport {
+  checked: number;
+  upgraded: number;
+  verified: number;
+  failed: number;
+  stillPending: number;
+  finishedAt: Date;
+}
+
+function toRecord(row: TimestampRow): BlockTimestampRecord {
+  return {
+    id: row.id,
+    blockIndex: row.block_index,
+    blockHash: row.block_hash,
+    method: row.method as TimestampMethod,
+    status: row.status as TimestampStatus,
+    bitcoinHeight: row.bitcoin_height,
+    attestedAt: row.attested_at ? new Date(row.attested_at) : null,
+    upgradeAttempts: row.upgrade_attempts,
+    lastError: row.last_error,
+    lastCheckedAt: row.last_checked_at ? new Date(row.last_checked_at) : null,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+/**
+ * Timestamp Upgrade Scheduler
+ * Upgrades and re-verifies stored proofs until each verifies or fails
+ */
+export class TimestampUpgradeScheduler {
+  private static headers: BitcoinHeaderStore | null = null;
+  private static activeRun: Promise<TimestampUpgradeReport> | null = null;
+  private static alerted: Set<string> = new Set();
+
+  /**
+   * Bitcoin headers for this session only, loaded from a local header file
+   */
+  static setHeaders(headers: BitcoinHeaderStore | null): void {
+    this.headers = headers;
+  }
+
+  static getHeaders(): BitcoinHeaderStore | null {
+    return this.headers;
+  }
+
+  /**
+   * Store a freshly mined block's timestamp proof
+   */
+  static async record(block: IBlock): Promise<void> {
+    const timestamp = block.externalTimestamp;
+    if (timestamp?.authority !== 'opentimestamps' && timestamp?.authority !== 'rfc3161') return;
+
+    const { error } = await supabase
+      .from('blockchain_timestamps')
+      .insert({
+        block_index: block.index,
+        block_hash: block.hash,
+        method: timestamp.authority,
+        proof: timestamp.token,
+        status: timestamp.status ?? 'pending',
+        bitcoin_height: timestamp.bitcoinHeight ?? null,
+        attested_at: timestamp.attestedAt?.toISOString() ?? null
+      });
+    if (error) throw error;
+  }
+
+  static async list(limit: number = 50): Promise<BlockTimestampRecord[]> {
+    const { data, error } = await supabase
+      .from('blockchain_timestamps')
+      .select('*')
+      .order('block_index', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data ?? []).map(toRecord);
+  }
+
+  /**
+   * Upgrade and re-verify every pending or anchored proof. Concurrent
+   * callers share one run.
+   */
+  static run(): Promise<TimestampUpgradeReport> {
+    if (!this.activeRun) {
+      this.activeRun = this.execute().finally(() => {
+        this.activeRun = null;
+      });
+    }
+    return this.activeRun;
+  }
+
+  private static async execute(): Promise<TimestampUpgradeReport> {
+    const { data, error } = await supabase
+      .from('blockchain_timestamps')
+      .select('*')
+      .in('status', ['pending', 'anchored'])
+      .order('block_index', { ascending: true });
+    if (error) throw error;
+
+    const report: TimestampUpgradeReport = {
+      checked: 0,
+      upgraded: 0,
+      verified: 0,
+      failed: 0,
+      stillPending: 0,
+      finishedAt: new Date()
+    };
+
+    for (const row of data ?? []) {
+      report.checked++;
+      try {
+        const status = await this.upgradeRow(row, report);
+        if (status === 'verified') report.verified++;
+        else if (status === 'failed') report.failed++;
+        else report.stillPending++;
+      } catch (error) {
+        console.error(`Error upgrading timestamp of block ${row.block_index}:`, error);
+        report.stillPending++;
+      }
+    }
+
+    report.finishedAt = new Date();
+    return report;
+  }
+
+  private static async upgradeRow(row: TimestampRow, report: TimestampUpgradeReport): Promise<TimestampStatus> {
+    let proof = row.proof;
+    let upgradeErrors: string[] = [];
+
+    if (row.method === 'opentimestamps' && row.status === 'pending') {
+      const upgrade = await upgradeOpenTimestamp(proof);
+      if (upgrade.upgraded) report.upgraded++;
+      proof = upgrade.token;
+      upgradeErrors = upgrade.errors;
+    }
+
+    const verification = await verifyTimestampProof(row.method as TimestampMethod, row.block_hash, proof, {
+      headers: this.headers ?? undefined
+    });
+    // Calendars answer 404 until they commit, which is no news while pending
+    const lastError = verification.errors[0] ?? (verification.status === 'pending' ? upgradeErrors[0] : undefined);
+
+    const { error } = await supabase
+      .from('blockchain_timestamps')
+      .update({
+        proof,
+        status: verification.status,
+        bitcoin_height: verification.bitcoinHeight ?? null,
+        attested_at: verification.attestedAt?.toISOString() ?? null,
+        upgrade_attempts: row.upgrade_attempts + 1,
+        last_error: lastError ?? null,
+        last_checked_at: new Date().toISOString()
+      })
+      .eq('id', row.id);
+    if (error) throw error;
+
+    if (verification.status === 'failed' && !this.alerted.has(row.id)) {
+      AlertManager.alertBlockchainIssue(
+        'Timestamp Proof Invalid',
+        `The ${row.method === 'rfc3161' ? 'RFC 3161' : 'OpenTimestamps'} proof of block ${row.block_index} does not verify: ${verification.errors.join('; ')}`,
+        { id: row.id, blockIndex: row.block_index, blockHash: row.block_hash, method: row.method }
+      );
+      this.alerted.add(row.id);
+    }
+
+    return verification.status;
+  }
+}
@@ -0,0 +1,1036 @@
+/**
+ * X.509 for Post-Quantum Keys
+ *
+ * DER encoding and parsing of certificates, CRLs and certification requests
+ * (RFC 5280, RFC 2986) carrying ML-DSA keys and signatures (RFC 9881),
+ * ML-KEM encryption keys (draft-ietf-lamps-kyber-certificates) and composite
+ * ML-DSA + ECDSA keys and signatures (draft-ietf-lamps-pq-composite-sigs).
+ *
+ * Features:
+ * - A small DER encoder and decoder for the structures PKI needs
+ * - Certificates with basicConstraints, keyUsage, key identifiers, DNS
+ *   subject alternative names, CRL distribution points and OCSP locations
+ * - ML-DSA-44/65/87 and MLDSA65-ECDSA-P256-SHA512 signing and verification
+ * - CRL v2 generation and parsing, OCSP requests and response checking
+ *   (RFC 6960)
+ * - Certification path validation (RFC 5280 section 6, without certificate
+ *   policies or name constraints)
+ * - PEM bundles
+ */
+
+import { ml_dsa44, ml_dsa65, ml_dsa87 } from '@noble/post-quantum/ml-dsa.js';
+import { ml_kem768 } from '@noble/post-quantum/ml-kem.js';
+import { p256 } from '@noble/curves/nist.js';
+import { bytesToHex, hexToBytes } from '@noble/curves/utils.js';
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export type SignatureAlgorithm = 'ML-DSA-44' | 'ML-DSA-65' | 'ML-DSA-87' | 'MLDSA65-ECDSA-P256-SHA512';
+
+export type KeyAlgorithm = SignatureAlgorithm | 'ML-KEM-768';
+
+export type KeyUsage =
+  | 'digitalSignature'
+  | 'nonRepudiation'
+  | 'keyEncipherment'
+  | 'dataEncipherment'
+  | 'keyAgreement'
+  | 'keyCertSign'
+  | 'cRLSign';
+
+export type RevocationReason =
+  | 'unspecified'
+  | 'keyCompromise'
+  | 'cACompromise'
+  | 'affiliationChanged'
+  | 'superseded'
+  | 'cessationOfOperation'
+  | 'certificateHold'
+  | 'privilegeWithdrawn';
+
+export interface KeyPair {
+  algorithm: KeyAlgorithm;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+/**
+ * The issuing side of a certificate or CRL. For a self-signed certificate
+ * the name and public key are the subject's own.
+ */
+export interface CertificateSigner {
+  name: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface CertificateTemplate {
+  serialNumber: string;
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+  keyAlgorithm: KeyAlgorithm;
+  publicKey: Uint8Array;
+  keyUsage: KeyUsage[];
+  isCA?: boolean;
+  pathLength?: number;
+  dnsNames?: string[];
+  crlDistributionPoint?: string;
+  ocspUrl?: string;
+}
+
+export interface X509Certificate {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  serialNumber: string;
+  issuer: string;
+  issuerDer: Uint8Array;
+  subject: string;
+  subjectDer: Uint8Array;
+  notBefore: Date;
+  notAfter: Date;
+  keyAlgorithm: KeyAlgorithm;
+  publicKey: Uint8Array;
+  signatureAlgorithm: SignatureAlgorithm;
+  signature: Uint8Array;
+  isCA: boolean;
+  pathLength?: number;
+  keyUsage: KeyUsage[];
+  subjectKeyId?: string;
+  authorityKeyId?: string;
+  dnsNames: string[];
+  crlDistributionPoints: string[];
+  ocspUrls: string[];
+  unsupportedCriticalExtensions: string[];
+}
+
+export interface RevokedCertificate {
+  serialNumber: string;
+  revocationDate: Date;
+  reason?: RevocationReason;
+}
+
+export interface X509Crl {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  issuer: string;
+  issuerDer: Uint8Array;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  crlNumber?: bigint;
+  authorityKeyId?: string;
+  revoked: RevokedCertificate[];
+  signatureAlgorithm: SignatureAlgorithm;
+  signature: Uint8Array;
+}
+
+export interface CertificationRequest {
+  subject: string;
+  keyAlgorithm: KeyAlgorithm;
+  publicKey: Uint8Array;
+  /** From the subjectAltName of the extensionRequest attribute */
+  dnsNames: string[];
+  signatureValid: boolean;
+}
+
+export interface OcspStatus {
+  status: 'good' | 'revoked' | 'unknown';
+  revocationTime?: Date;
+  reason?: RevocationReason;
+  thisUpdate: Date;
+  nextUpdate?: Date;
+  producedAt: Date;
+}
+
+export interface PathValidationOptions {
+  at?: Date;
+  crls?: X509Crl[];
+  requireRevocationInfo?: boolean;
+}
+
+export interface PathValidationResult {
+  valid: boolean;
+  errors: string[];
+  path: X509Certificate[];
+}
+
+// ============================================================================
+// Object Identifiers
+// ============================================================================
+
+export const OID = {
+  mlDsa44: '2.16.840.1.101.3.4.3.17',
+  mlDsa65: '2.16.840.1.101.3.4.3.18',
+  mlDsa87: '2.16.840.1.101.3.4.3.19',
+  mlKem768: '2.16.840.1.101.3.4.4.2',
+  mlDsa65EcdsaP256Sha512: '1.3.6.1.5.5.7.6.45',
+  commonName: '2.5.4.3',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  basicConstraints: '2.5.29.19',
+  cRLNumber: '2.5.29.20',
+  reasonCode: '2.5.29.21',
+  cRLDistributionPoints: '2.5.29.31',
+  authorityKeyIdentifier: '2.5.29.35',
+  authorityInfoAccess: '1.3.6.1.5.5.7.1.1',
+  ocsp: '1.3.6.1.5.5.7.48.1',
+  ocspBasic: '1.3.6.1.5.5.7.48.1.1',
+  ocspNonce: '1.3.6.1.5.5.7.48.1.2',
+  extensionRequest: '1.2.840.113549.1.9.14',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1'
+} as const;
+
+const KEY_ALGORITHM_OIDS: Record<KeyAlgorithm, string> = {
+  'ML-DSA-44': OID.mlDsa44,
+  'ML-DSA-65': OID.mlDsa65,
+  'ML-DSA-87': OID.mlDsa87,
+  'MLDSA65-ECDSA-P256-SHA512': OID.mlDsa65EcdsaP256Sha512,
+  'ML-KEM-768': OID.mlKem768
+};
+
+const KEY_USAGE_BITS: KeyUsage[] = [
+  'digitalSignature',
+  'nonRepudiation',
+  'keyEncipherment',
+  'dataEncipherment',
+  'keyAgreement',
+  'keyCertSign',
+  'cRLSign'
+];
+
+// CRLReason codes; 7 is unassigned
+const REVOCATION_REASON_CODES: Record<RevocationReason, number> = {
+  unspecified: 0,
+  keyCompromise: 1,
+  cACompromise: 2,
+  affiliationChanged: 3,
+  superseded: 4,
+  cessationOfOperation: 5,
+  certificateHold: 6,
+  privilegeWithdrawn: 9
+};
+
+// Understood when marked critical
+const SUPPORTED_EXTENSIONS: string[] = [
+  OID.subjectKeyIdentifier,
+  OID.keyUsage,
+  OID.subjectAltName,
+  OID.basicConstraints,
+  OID.authorityKeyIdentifier,
+  OID.cRLDistributionPoints,
+  OID.authorityInfoAccess
+];
+
+// draft-ietf-lamps-pq-composite-sigs message representative
+const COMPOSITE_PREFIX = new TextEncoder().encode('CompositeAlgorithmSignatures2025');
+const COMPOSITE_LABEL = new TextEncoder().encode('COMPSIG-MLDSA65-ECDSA-P256-SHA512');
+
+// ============================================================================
+// DER
+// ============================================================================
+
+export interface Asn1 {
+  tag: number;
+  /** The full encoding, header included */
+  der: Uint8Array;
+  content: Uint8Array;
+  children: Asn1[];
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n % 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+function tlv(tag: number, content: Uint8Array): Uint8Array {
+  return concat(Uint8Array.of(tag), encodeLength(content.length), content);
+}
+
+function pad2(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+export const der = {
+  sequence: (...items: Uint8Array[]) => tlv(0x30, concat(...items)),
+  set: (...items: Uint8Array[]) => tlv(0x31, concat(...items)),
+  boolean: (value: boolean) => tlv(0x01, Uint8Array.of(value ? 0xff : 0x00)),
+  null: () => Uint8Array.of(0x05, 0x00),
+  integer(value: bigint | number | string): Uint8Array {
+    // Non-negative only; strings are hex
+    let hex = typeof value === 'string' ? value.replace(/^0+(?=.)/, '') : BigInt(value).toString(16);
+    if (hex.length % 2) hex = '0' + hex;
+    let bytes = hexToBytes(hex);
+    if (bytes[0] & 0x80) bytes = concat(Uint8Array.of(0), bytes);
+    return tlv(0x02, bytes);
+  },
+  enumerated: (value: number) => tlv(0x0a, Uint8Array.of(value)),
+  oid(dotted: string): Uint8Array {
+    const parts = dotted.split('.').map(Number);
+    const bytes = [parts[0] * 40 + parts[1]];
+    for (const part of parts.slice(2)) {
+      const encoded = [part & 0x7f];
+      for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) {
+        encoded.unshift((n & 0x7f) | 0x80);
+      }
+      bytes.push(...encoded);
+    }
+    return tlv(0x06, Uint8Array.from(bytes));
+  },
+  bitString: (bytes: Uint8Array, unusedBits = 0) => tlv(0x03, concat(Uint8Array.of(unusedBits), bytes)),
+  octetString: (bytes: Uint8Array) => tlv(0x04, bytes),
+  utf8String: (value: string) => tlv(0x0c, new TextEncoder().encode(value)),
+  ia5String: (value: string) => tlv(0x16, new TextEncoder().encode(value)),
+  generalizedTime(date: Date): Uint8Array {
+    const text = `${date.getUTCFullYear()}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}` +
+      `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`;
+    return tlv(0x18, new TextEncoder().encode(text));
+  },
+  /** UTCTime through 2049, GeneralizedTime after, as RFC 5280 requires */
+  time(date: Date): Uint8Array {
+    if (date.getUTCFullYear() >= 2050) return der.generalizedTime(date);
+    const text = `${pad2(date.getUTCFullYear() % 100)}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}` +
+      `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`;
+    return tlv(0x17, new TextEncoder().encode(text));
+  },
+  explicit: (tagNumber: number, inner: Uint8Array) => tlv(0xa0 | tagNumber, inner),
+  implicit: (tagNumber: number, content: Uint8Array, constructed = false) =>
+    tlv((constructed ? 0xa0 : 0x80) | tagNumber, content)
+};
+
+function parseAt(bytes: Uint8Array, offset: number): [Asn1, number] {
+  const tag = bytes[offset];
+  if (tag === undefined) throw new Error('Truncated DER');
+  if ((tag & 0x1f) === 0x1f) throw new Error('High tag numbers are not supported');
+
+  let length = bytes[offset + 1];
+  let headerLength = 2;
+  if (length === undefined) throw new Error('Truncated DER');
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new Error('Unsupported DER length');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += count;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) throw new Error('Truncated DER');
+
+  const content = bytes.subarray(offset + headerLength, end);
+  const children: Asn1[] = [];
+  if (tag & 0x20) {
+    let position = 0;
+    while (position < content.length) {
+      const [child, next] = parseAt(content, position);
+      children.push(child);
+      position = next;
+    }
+  }
+
+  return [{ tag, der: bytes.subarray(offset, end), content, children }, end];
+}
+
+export function parseDer(bytes: Uint8Array): Asn1 {
+  const [node, end] = parseAt(bytes, 0);
+  if (end !== bytes.length) throw new Error('Trailing data after DER value');
+  return node;
+}
+
+export function readOid(node: Asn1): string {
+  if (node.tag !== 0x06) throw new Error('Expected OBJECT IDENTIFIER');
+  const bytes = node.content;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+export function readInteger(node: Asn1): bigint {
+  if (node.tag !== 0x02) throw new Error('Expected INTEGER');
+  return node.content.length ? BigInt(`0x${bytesToHex(node.content)}`) : 0n;
+}
+
+function readSerial(node: Asn1): string {
+  const hex = readInteger(node).toString(16);
+  return hex.length % 2 ? `0${hex}` : hex;
+}
+
+export function readTime(node: Asn1): Date {
+  const text = new TextDecoder().decode(node.content);
+  const match = node.tag === 0x17
+    ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text)
+    : node.tag === 0x18
+      ? /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(text)
+      : null;
+  if (!match) throw new Error('Unsupported time encoding');
+
+  let year = Number(match[1]);
+  if (node.tag === 0x17) year += year >= 50 ? 1900 : 2000;
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6])));
+}
+
+function readBitString(node: Asn1): Uint8Array {
+  if (node.tag !== 0x03) throw new Error('Expected BIT STRING');
+  return node.content.subarray(1);
+}
+
+// ============================================================================
+// Algorithms
+// ============================================================================
+
+function mlDsa(algorithm: SignatureAlgorithm) {
+  return algorithm === 'ML-DSA-44' ? ml_dsa44 : algorithm === 'ML-DSA-87' ? ml_dsa87 : ml_dsa65;
+}
+
+function algorithmForOid(oid: string): KeyAlgorithm {
+  const entry = Object.entries(KEY_ALGORITHM_OIDS).find(([, value]) => value === oid);
+  if (!entry) throw new Error(`Unsupported algorithm ${oid}`);
+  return entry[0] as KeyAlgorithm;
+}
+
+function signatureAlgorithmForOid(oid: string): SignatureAlgorithm {
+  const algorithm = algorithmForOid(oid);
+  if (algorithm === 'ML-KEM-768') throw new Error('ML-KEM keys cannot sign');
+  return algorithm;
+}
+
+function algorithmIdentifier(algorithm: KeyAlgorithm): Uint8Array {
+  // Parameters are absent for ML-DSA, ML-KEM and composite algorithms
+  return der.sequence(der.oid(KEY_ALGORITHM_OIDS[algorithm]));
+}
+
+async function digest(algorithm: 'SHA-1' | 'SHA-256' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+// M' = Prefix || Label || len(ctx) || ctx || SHA-512(M), with an empty context
+async function compositeMessage(message: Uint8Array): Promise<Uint8Array> {
+  return concat(COMPOSITE_PREFIX, COMPOSITE_LABEL, Uint8Array.of(0), await digest('SHA-512', message));
+}
+
+export function generateKeyPair(algorithm: KeyAlgorithm): KeyPair {
+  if (algorithm === 'ML-KEM-768') {
+    return { algorithm, ...ml_kem768.keygen() };
+  }
+  if (algorithm === 'MLDSA65-ECDSA-P256-SHA512') {
+    // Keys are the ML-DSA and uncompressed ECDSA keys concatenated
+    const pq = ml_dsa65.keygen();
+    const { secretKey } = p256.keygen();
+    return {
+      algorithm,
+      publicKey: concat(pq.publicKey, p256.getPublicKey(secretKey, false)),
+      secretKey: concat(pq.secretKey, secretKey)
+    };
+  }
+  return { algorithm, ...mlDsa(algorithm).keygen() };
+}
+
+export async function signMessage(algorithm: SignatureAlgorithm, secretKey: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  if (algorithm !== 'MLDSA65-ECDSA-P256-SHA512') {
+    return mlDsa(algorithm).sign(message, secretKey);
+  }
+
+  const split = ml_dsa65.lengths.secretKey!;
+  const representative = await compositeMessage(message);
+  return concat(
+    ml_dsa65.sign(representative, secretKey.subarray(0, split), { context: COMPOSITE_LABEL }),
+    p256.sign(representative, secretKey.subarray(split), { format: 'der' })
+  );
+}
+
+export async function verifyMessage(
+  algorithm: SignatureAlgorithm,
+  publicKey: Uint8Array,
+  message: Uint8Array,
+  signature: Uint8Array
+): Promise<boolean> {
+  try {
+    if (algorithm !== 'MLDSA65-ECDSA-P256-SHA512') {
+      return mlDsa(algorithm).verify(signature, message, publicKey);
+    }
+
+    // Both components must verify
+    const keySplit = ml_dsa65.lengths.publicKey!;
+    const signatureSplit = ml_dsa65.lengths.signature!;
+    const representative = await compositeMessage(message);
+    return ml_dsa65.verify(signature.subarray(0, signatureSplit), representative, publicKey.subarray(0, keySplit), { context: COMPOSITE_LABEL })
+      && p256.verify(signature.subarray(signatureSplit), representative, publicKey.subarray(keySplit), { format: 'der' });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Key identifier: SHA-1 of the subjectPublicKey bits (RFC 5280 4.2.1.2, method 1)
+ */
+export async function keyIdentifier(publicKey: Uint8Array): Promise<string> {
+  return bytesToHex(await digest('SHA-1', publicKey));
+}
+
+export function randomSerialNumber(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[0] &= 0x7f;
+  bytes[0] |= 0x40;
+  return bytesToHex(bytes);
+}
+
+// ============================================================================
+// Names and Extensions
+// ============================================================================
+
+function encodeName(commonName: string): Uint8Array {
+  return der.sequence(der.set(der.sequence(der.oid(OID.commonName), der.utf8String(commonName))));
+}
+
+function readName(node: Asn1): string {
+  for (const rdn of node.children) {
+    for (const attribute of rdn.children) {
+      if (readOid(attribute.children[0]) === OID.commonName) {
+        return new TextDecoder().decode(attribute.children[1].content);
+      }
+    }
+  }
+  return '';
+}
+
+function extension(oid: string, critical: boolean, value: Uint8Array): Uint8Array {
+  return critical
+    ? der.sequence(der.oid(oid), der.boolean(true), der.octetString(value))
+    : der.sequence(der.oid(oid), der.octetString(value));
+}
+
+function encodeKeyUsage(usages: KeyUsage[]): Uint8Array {
+  const bits = usages.map(u => KEY_USAGE_BITS.indexOf(u)).filter(b => b >= 0);
+  if (bits.length === 0) return der.bitString(new Uint8Array(0));
+
+  // DER drops trailing zero bits
+  const highest = Math.max(...bits);
+  const bytes = new Uint8Array(Math.floor(highest / 8) + 1);
+  for (const bit of bits) {
+    bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+  }
+  return der.bitString(bytes, 7 - (highest % 8));
+}
+
+function decodeKeyUsage(value: Uint8Array): KeyUsage[] {
+  const bits = readBitString(parseDer(value));
+  return KEY_USAGE_BITS.filter((_, bit) => (bits[Math.floor(bit / 8)] ?? 0) & (0x80 >> (bit % 8)));
+}
+
+function uriGeneralName(uri: string): Uint8Array {
+  return der.implicit(6, new TextEncoder().encode(uri));
+}
+
+function encodeDnsNames(names: string[]): Uint8Array {
+  return der.sequence(...names.map(name => der.implicit(2, new TextEncoder().encode(name))));
+}
+
+function readDnsNames(value: Uint8Array): string[] {
+  return parseDer(value).children.filter(c => c.tag === 0x82).map(c => new TextDecoder().decode(c.content));
+}
+
+function readUris(node: Asn1, into: string[]): void {
+  if (node.tag === 0x86) {
+    into.push(new TextDecoder().decode(node.content));
+  }
+  node.children.forEach(child => readUris(child, into));
+}
+
+function authorityKeyIdentifier(keyId: string): Uint8Array {
+  return der.sequence(der.implicit(0, hexToBytes(keyId)));
+}
+
+function readAuthorityKeyIdentifier(value: Uint8Array): string | undefined {
+  const keyId = parseDer(value).children.find(c => c.tag === 0x80);
+  return keyId ? bytesToHex(keyId.content) : undefined;
+}
+
+function readExtensions(node: Asn1 | undefined): { oid: string; critical: boolean; value: Uint8Array }[] {
+  if (!node) return [];
+  return node.children[0].children.map(ext => {
+    const critical = ext.children.length === 3 && ext.children[1].content[0] !== 0;
+    return { oid: readOid(ext.children[0]), critical, value: ext.children[ext.children.length - 1].content };
+  });
+}
+
+// ============================================================================
+// Certificates
+// ============================================================================
+
+export async function createCertificate(template: CertificateTemplate, signer: CertificateSigner): Promise<X509Certificate> {
+  const extensions = [
+    extension(OID.basicConstraints, true, template.isCA
+      ? der.sequence(der.boolean(true), ...(template.pathLength !== undefined ? [der.integer(template.pathLength)] : []))
+      : der.sequence()),
+    extension(OID.keyUsage, true, encodeKeyUsage(template.keyUsage)),
+    extension(OID.subjectKeyIdentifier, false, der.octetString(hexToBytes(await keyIdentifier(template.publicKey)))),
+    extension(OID.authorityKeyIdentifier, false, authorityKeyIdentifier(await keyIdentifier(signer.publicKey)))
+  ];
+  if (template.dnsNames?.length) {
+    extensions.push(extension(OID.subjectAltName, false, encodeDnsNames(template.dnsNames)));
+  }
+  if (template.crlDistributionPoint) {
+    extensions.push(extension(OID.cRLDistributionPoints, false, der.sequence(
+      der.sequence(der.explicit(0, der.implicit(0, uriGeneralName(template.crlDistributionPoint), true)))
+    )));
+  }
+  if (template.ocspUrl) {
+    extensions.push(extension(OID.authorityInfoAccess, false, der.sequence(
+      der.sequence(der.oid(OID.ocsp), uriGeneralName(template.ocspUrl))
+    )));
+  }
+
+  const tbs = der.sequence(
+    der.explicit(0, der.integer(2)),
+    der.integer(template.serialNumber),
+    algorithmIdentifier(signer.algorithm),
+    encodeName(signer.name),
+    der.sequence(der.time(template.notBefore), der.time(template.notAfter)),
+    encodeName(template.subject),
+    der.sequence(algorithmIdentifier(template.keyAlgorithm), der.bitString(template.publicKey)),
+    der.explicit(3, der.sequence(...extensions))
+  );
+  const signature = await signMessage(signer.algorithm, signer.secretKey, tbs);
+
+  return parseCertificate(der.sequence(tbs, algorithmIdentifier(signer.algorithm), der.bitString(signature)));
+}
+
+export function parseCertificate(bytes: Uint8Array): X509Certificate {
+  const certificate = parseDer(bytes);
+  const [tbsNode, signatureAlgorithmNode, signatureNode] = certificate.children;
+  const fields = tbsNode.children;
+  const offset = fields[0].tag === 0xa0 ? 1 : 0;
+  const [serialNode, , issuerNode, validityNode, subjectNode, spkiNode] = fields.slice(offset);
+  const extensionsNode = fields.slice(offset + 6).find(f => f.tag === 0xa3);
+
+  const parsed: X509Certificate = {
+    der: bytes,
+    tbs: tbsNode.der,
+    serialNumber: readSerial(serialNode),
+    issuer: readName(issuerNode),
+    issuerDer: issuerNode.der,
+    subject: readName(subjectNode),
+    subjectDer: subjectNode.der,
+    notBefore: readTime(validityNode.children[0]),
+    notAfter: readTime(validityNode.children[1]),
+    keyAlgorithm: algorithmForOid(readOid(spkiNode.children[0].children[0])),
+    publicKey: readBitString(spkiNode.children[1]),
+    signatureAlgorithm: signatureAlgorithmForOid(readOid(signatureAlgorithmNode.children[0])),
+    signature: readBitString(signatureNode),
+    isCA: false,
+    keyUsage: [],
+    dnsNames: [],
+    crlDistributionPoints: [],
+    ocspUrls: [],
+    unsupportedCriticalExtensions: []
+  };
+
+  for (const ext of readExtensions(extensionsNode)) {
+    switch (ext.oid) {
+      case OID.basicConstraints: {
+        const [ca, pathLength] = parseDer(ext.value).children;
+        parsed.isCA = ca?.tag === 0x01 && ca.content[0] !== 0;
+        if (pathLength) parsed.pathLength = Number(readInteger(pathLength));
+        break;
+      }
+      case OID.keyUsage:
+        parsed.keyUsage = decodeKeyUsage(ext.value);
+        break;
+      case OID.subjectAltName:
+        parsed.dnsNames = readDnsNames(ext.value);
+        break;
+      case OID.subjectKeyIdentifier:
+        parsed.subjectKeyId = bytesToHex(parseDer(ext.value).content);
+        break;
+      case OID.authorityKeyIdentifier:
+        parsed.authorityKeyId = readAuthorityKeyIdentifier(ext.value);
+        break;
+      case OID.cRLDistributionPoints:
+        readUris(parseDer(ext.value), parsed.crlDistributionPoints);
+        break;
+      case OID.authorityInfoAccess:
+        for (const access of parseDer(ext.value).children) {
+          if (readOid(access.children[0]) === OID.ocsp) readUris(access.children[1], parsed.ocspUrls);
+        }
+        break;
+      default:
+        if (ext.critical) parsed.unsupportedCriticalExtensions.push(ext.oid);
+    }
+  }
+
+  return parsed;
+}
+
+export async function verifyCertificateSignature(certificate: X509Certificate, issuer: X509Certificate): Promise<boolean> {
+  if (issuer.keyAlgorithm !== certificate.signatureAlgorithm) return false;
+  return verifyMessage(certificate.signatureAlgorithm, issuer.publicKey, certificate.tbs, certificate.signature);
+}
+
+// ============================================================================
+// Certification Requests (PKCS #10)
+// ============================================================================
+
+/**
+ * A CSR signed with the key it requests a certificate for, which proves
+ * possession. ML-KEM keys cannot sign and have no CSR. DNS names are
+ * requested as a subjectAltName extension.
+ */
+export async function createCertificationRequest(
+  subject: string,
+  keyPair: KeyPair,
+  dnsNames: string[] = []
+): Promise<Uint8Array> {
+  if (keyPair.algorithm === 'ML-KEM-768') {
+    throw new Error('ML-KEM keys cannot sign a certification request');
+  }
+
+  const attributes = dnsNames.length
+    ? der.sequence(der.oid(OID.extensionRequest), der.set(der.sequence(
+        extension(OID.subjectAltName, false, encodeDnsNames(dnsNames))
+      )))
+    : new Uint8Array(0);
+  const info = der.sequence(
+    der.integer(0),
+    encodeName(subject),
+    der.sequence(algorithmIdentifier(keyPair.algorithm), der.bitString(keyPair.publicKey)),
+    der.implicit(0, attributes, true)
+  );
+  const signature = await signMessage(keyPair.algorithm, keyPair.secretKey, info);
+  return der.sequence(info, algorithmIdentifier(keyPair.algorithm), der.bitString(signature));
+}
+
+export async function parseCertificationRequest(bytes: Uint8Array): Promise<CertificationRequest> {
+  const [infoNode, signatureAlgorithmNode, signatureNode] = parseDer(bytes).children;
+  const [, subjectNode, spkiNode, attributesNode] = infoNode.children;
+  const keyAlgorithm = algorithmForOid(readOid(spkiNode.children[0].children[0]));
+  const publicKey = readBitString(spkiNode.children[1]);
+  const signatureAlgorithm = signatureAlgorithmForOid(readOid(signatureAlgorithmNode.children[0]));
+
+  const extensionRequest = attributesNode?.children.find(a => readOid(a.children[0]) === OID.extensionRequest);
+  const subjectAltName = extensionRequest?.children[1].children[0].children
+    .find(ext => readOid(ext.children[0]) === OID.subjectAltName);
+
+  return {
+    subject: readName(subjectNode),
+    keyAlgorithm,
+    publicKey,
+    dnsNames: subjectAltName ? readDnsNames(subjectAltName.children[subjectAltName.children.length - 1].content) : [],
+    signatureValid: signatureAlgorithm === keyAlgorithm &&
+      await verifyMessage(signatureAlgorithm, publicKey, infoNode.der, readBitString(signatureNode))
+  };
+}
+
+// ============================================================================
+// Certificate Revocation Lists
+// ============================================================================
+
+export async function createCrl(
+  params: { thisUpdate: Date; nextUpdate: Date; crlNumber: bigint | number; revoked: RevokedCertificate[] },
+  signer: CertificateSigner
+): Promise<X509Crl> {
+  const entries = params.revoked.map(entry => der.sequence(
+    der.integer(entry.serialNumber),
+    der.time(entry.revocationDate),
+    ...(entry.reason && entry.reason !== 'unspecified'
+      ? [der.sequence(extension(OID.reasonCode, false, der.enumerated(REVOCATION_REASON_CODES[entry.reason])))]
+      : [])
+  ));
+
+  const tbs = der.sequence(
+    der.integer(1),
+    algorithmIdentifier(signer.algorithm),
+    encodeName(signer.name),
+    der.time(params.thisUpdate),
+    der.time(params.nextUpdate),
+    ...(entries.length ? [der.sequence(...entries)] : []),
+    der.explicit(0, der.sequence(
+      extension(OID.authorityKeyIdentifier, false, authorityKeyIdentifier(await keyIdentifier(signer.publicKey))),
+      extension(OID.cRLNumber, false, der.integer(params.crlNumber))
+    ))
+  );
+  const signature = await signMessage(signer.algorithm, signer.secretKey, tbs);
+
+  return parseCrl(der.sequence(tbs, algorithmIdentifier(signer.algorithm), der.bitString(signature)));
+}
+
+export function parseCrl(bytes: Uint8Array): X509Crl {
+  const [tbsNode, signatureAlgorithmNode, signatureNode] = parseDer(bytes).children;
+  const fields = tbsNode.children;
+  const offset = fields[0].tag === 0x02 ? 1 : 0;
+  const issuerNode = fields[offset + 1];
+  const rest = fields.slice(offset + 3);
+  const nextUpdateNode = rest[0] && (rest[0].tag === 0x17 || rest[0].tag === 0x18) ? rest.shift() : undefined;
+  const revokedNode = rest[0]?.tag === 0x30 ? rest.shift() : undefined;
+  const extensionsNode = rest.find(f => f.tag === 0xa0);
+
+  const crl: X509Crl = {
+    der: bytes,
+    tbs: tbsNode.der,
+    issuer: readName(issuerNode),
+    issuerDer: issuerNode.der,
+    thisUpdate: readTime(fields[offset + 2]),
+    nextUpdate: nextUpdateNode ? readTime(nextUpdateNode) : undefined,
+    revoked: (revokedNode?.children || []).map(entry => {
+      const reasonExt = readExtensions(entry.children[2] && { ...entry.children[2], children: [entry.children[2]] })
+        .find(ext => ext.oid === OID.reasonCode);
+      const code = reasonExt ? parseDer(reasonExt.value).content[0] : undefined;
+      return {
+        serialNumber: readSerial(entry.children[0]),
+        revocationDate: readTime(entry.children[1]),
+        reason: code !== undefined ? reasonForCode(code) : undefined
+      };
+    }),
+    signatureAlgorithm: signatureAlgorithmForOid(readOid(signatureAlgorithmNode.children[0])),
+    signature: readBitString(signatureNode)
+  };
+
+  for (const ext of readExtensions(extensionsNode)) {
+    if (ext.oid === OID.cRLNumber) crl.crlNumber = readInteger(parseDer(ext.value));
+    if (ext.oid === OID.authorityKeyIdentifier) crl.authorityKeyId = readAuthorityKeyIdentifier(ext.value);
+  }
+
+  return crl;
+}
+
+function reasonForCode(code: number): RevocationReason | undefined {
+  return (Object.entries(REVOCATION_REASON_CODES) as [RevocationReason, number][]).find(([, c]) => c === code)?.[0];
+}
+
+// ============================================================================
+// OCSP (client side)
+// ============================================================================
+
+/**
+ * An OCSP request for one certificate, with SHA-256 CertID hashes and a
+ * nonce the response must echo
+ */
+export async function createOcspRequest(
+  certificate: X509Certificate,
+  issuer: X509Certificate
+): Promise<{ request: Uint8Array; nonce: Uint8Array }> {
+  const nonce = crypto.getRandomValues(new Uint8Array(16));
+  const certId = der.sequence(
+    der.sequence(der.oid(OID.sha256), der.null()),
+    der.octetString(await digest('SHA-256', certificate.issuerDer)),
+    der.octetString(await digest('SHA-256', issuer.publicKey)),
+    der.integer(certificate.serialNumber)
+  );
+  const request = der.sequence(der.sequence(
+    der.sequence(der.sequence(certId)),
+    der.explicit(2, der.sequence(extension(OID.ocspNonce, false, der.octetString(nonce))))
+  ));
+  return { request, nonce };
+}
+
+/**
+ * Check an OCSP response against the issuer it must be signed by and the
+ * nonce of the request
+ */
+export async function parseOcspResponse(
+  bytes: Uint8Array,
+  certificate: X509Certificate,
+  issuer: X509Certificate,
+  nonce?: Uint8Array
+): Promise<OcspStatus> {
+  const response = parseDer(bytes);
+  const status = response.children[0].content[0];
+  if (status !== 0) {
+    throw new Error(`OCSP responder returned status ${status}`);
+  }
+
+  const responseBytes = response.children[1].children[0];
+  if (readOid(responseBytes.children[0]) !== OID.ocspBasic) {
+    throw new Error('Unsupported OCSP response type');
+  }
+
+  const basic = parseDer(responseBytes.children[1].content);
+  const [tbsNode, signatureAlgorithmNode, signatureNode] = basic.children;
+  const signatureAlgorithm = signatureAlgorithmForOid(readOid(signatureAlgorithmNode.children[0]));
+  if (signatureAlgorithm !== issuer.keyAlgorithm ||
+      !await verifyMessage(signatureAlgorithm, issuer.publicKey, tbsNode.der, readBitString(signatureNode))) {
+    throw new Error('OCSP response is not signed by the issuer');
+  }
+
+  // Skip the optional version; the responder ID is [1] or [2], extensions are [1]
+  const fields = tbsNode.children[0].tag === 0xa0 ? tbsNode.children.slice(1) : tbsNode.children;
+  const [, producedAtNode, responsesNode, extensionsNode] = fields;
+
+  if (nonce) {
+    const echoed = readExtensions(extensionsNode).find(ext => ext.oid === OID.ocspNonce);
+    if (!echoed || bytesToHex(parseDer(echoed.value).content) !== bytesToHex(nonce)) {
+      throw new Error('OCSP response nonce does not match the request');
+    }
+  }
+
+  const single = responsesNode.children.find(r => readSerial(r.children[0].children[3]) === certificate.serialNumber);
+  if (!single) {
+    throw new Error('OCSP response does not cover the certificate');
+  }
+
+  const [, certStatus, thisUpdateNode, ...optional] = single.children;
+  const nextUpdateNode = optional.find(f => f.tag === 0xa0);
+  const result: OcspStatus = {
+    status: certStatus.tag === 0x80 ? 'good' : certStatus.tag === 0xa1 ? 'revoked' : 'unknown',
+    thisUpdate: readTime(thisUpdateNode),
+    nextUpdate: nextUpdateNode ? readTime(nextUpdateNode.children[0]) : undefined,
+    producedAt: readTime(producedAtNode)
+  };
+  if (result.status === 'revoked') {
+    result.revocationTime = readTime(certStatus.children[0]);
+    const reason = certStatus.children.find(c => c.tag === 0xa0);
+    if (reason) result.reason = reasonForCode(reason.children[0].content[0]);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Path Validation
+// ============================================================================
+
+function issuedBy(certificate: X509Certificate, issuer: X509Certificate): boolean {
+  return certificate.issuer === issuer.subject &&
+    (!certificate.authorityKeyId || !issuer.subjectKeyId || certificate.authorityKeyId === issuer.subjectKeyId);
+}
+
+/**
+ * Build a path from the certificate through the intermediates to a trust
+ * anchor and validate it: signatures, validity periods, CA constraints,
+ * path length and, where CRLs are given, revocation.
+ */
+export async function validatePath(
+  certificate: X509Certificate,
+  intermediates: X509Certificate[],
+  trustAnchors: X509Certificate[],
+  options: PathValidationOptions = {}
+): Promise<PathValidationResult> {
+  const at = options.at || new Date();
+  const errors: string[] = [];
+  const path = [certificate];
+
+  // Build: at most eight links
+  for (let depth = 0; depth < 8; depth++) {
+    const current = path[path.length - 1];
+    const anchor = trustAnchors.find(a => issuedBy(current, a));
+    if (anchor) {
+      if (bytesToHex(anchor.der) !== bytesToHex(current.der)) path.push(anchor);
+      break;
+    }
+    const next = intermediates.find(c => issuedBy(current, c) && !path.includes(c));
+    if (!next) {
+      return { valid: false, errors: [`no path from ${current.subject} to a trust anchor`], path };
+    }
+    path.push(next);
+  }
+
+  const anchorIndex = path.length - 1;
+  if (!trustAnchors.some(a => bytesToHex(a.der) === bytesToHex(path[anchorIndex].der))) {
+    return { valid: false, errors: ['path is too long'], path };
+  }
+
+  for (let i = 0; i < path.length; i++) {
+    const cert = path[i];
+    const label = `${cert.subject} (${cert.serialNumber})`;
+
+    if (at < cert.notBefore || at > cert.notAfter) {
+      errors.push(`${label}: outside its validity period`);
+    }
+    if (cert.unsupportedCriticalExtensions.length) {
+      errors.push(`${label}: unsupported critical extension ${cert.unsupportedCriticalExtensions.join(', ')}`);
+    }
+    if (i === anchorIndex) break;
+
+    const issuer = path[i + 1];
+    if (!await verifyCertificateSignature(cert, issuer)) {
+      errors.push(`${label}: signature does not verify`);
+    }
+    if (!issuer.isCA || !issuer.keyUsage.includes('keyCertSign')) {
+      errors.push(`${issuer.subject}: not a CA certificate`);
+    }
+    // CAs between this issuer and the leaf
+    if (issuer.pathLength !== undefined && i > issuer.pathLength) {
+      errors.push(`${issuer.subject}: path length constraint exceeded`);
+    }
+
+    const crl = (options.crls || []).find(c => c.issuer === issuer.subject &&
+      (!c.authorityKeyId || !issuer.subjectKeyId || c.authorityKeyId === issuer.subjectKeyId));
+    if (!crl) {
+      if (options.requireRevocationInfo) errors.push(`${label}: no CRL from ${issuer.subject}`);
+      continue;
+    }
+    if (!issuer.keyUsage.includes('cRLSign') ||
+        issuer.keyAlgorithm !== crl.signatureAlgorithm ||
+        !await verifyMessage(crl.signatureAlgorithm, issuer.publicKey, crl.tbs, crl.signature)) {
+      errors.push(`${label}: CRL is not signed by ${issuer.subject}`);
+      continue;
+    }
+    if (crl.nextUpdate && at > crl.nextUpdate) {
+      errors.push(`${label}: CRL from ${issuer.subject} is out of date`);
+    }
+    const revoked = crl.revoked.find(r => r.serialNumber === cert.serialNumber);
+    if (revoked && revoked.revocationDate <= at) {
+      errors.push(`${label}: revoked${revoked.reason ? ` (${revoked.reason})` : ''}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors, path };
+}
+
+// ============================================================================
+// PEM
+// ============================================================================
+
+export function toPem(bytes: Uint8Array, label = 'CERTIFICATE'): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  const lines = btoa(binary).match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Every PEM block in a bundle, in order
+ */
+export function fromPem(pem: string): { label: string; der: Uint8Array }[] {
+  const blocks: { label: string; der: Uint8Array }[] = [];
+  const pattern = /-----BEGIN ([A-Z0-9 ]+)-----([\s\S]*?)-----END \1-----/g;
+  for (let match = pattern.exec(pem); match; match = pattern.exec(pem)) {
+    const binary = atob(match[2].replace(/\s+/g, ''));
+    blocks.push({ label: match[1], der: Uint8Array.from(binary, c => c.charCodeAt(0)) });
+  }
+  return blocks;
+}
+
+export function certificatesFromPem(pem: string): X509Certificate[] {
+  return fromPem(pem)
+    .filter(block => block.label === 'CERTIFICATE')
+    .map(block => parseCertificate(block.der));
+}
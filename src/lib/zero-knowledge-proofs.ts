@@ -1,310 +1,705 @@
-import { QuantumSignatures } from './quantum-crypto';
 import * as crypto from 'crypto-js';
+import { ristretto255, ristretto255_hasher } from '@noble/curves/ed25519.js';
+import { bytesToHex, bytesToNumberLE, concatBytes, hexToBytes, numberToBytesLE, randomBytes } from '@noble/curves/utils.js';
+import { supabase } from '@/integrations/supabase/client';
 
 /**
  * Zero-Knowledge Proof System
  * Allows proving permissions without revealing identity
- * Based on zk-SNARKs concepts adapted for quantum resistance
+ *
+ * Features:
+ * - Pedersen commitments over ristretto255 to the trust score and role
+ *   that the issue-zk-credential edge function attests for a user
+ * - Anonymity set membership: a one-of-many Schnorr proof that the prover
+ *   holds one of the active credentials, without saying which
+ * - Range proof: trustScore - threshold is a sum of committed bits, each
+ *   proven to be 0 or 1, so trustScore >= threshold is shown without the score
+ * - Role set membership: the gate commits to its allowed roles as a Merkle
+ *   root; the proof carries the role leaves with their paths and shows the
+ *   committed role is one of them
+ * - Nullifiers derived from the credential's identity secret and the gate
+ *   and hour, so each credential gets one access token per gate per hour
+ * - Verification, nullifier spending and token issue happen in the
+ *   verify-zk-proof edge function; tokens only open the gate they were
+ *   issued for
+ *
+ * All sub-proofs are Fiat-Shamir transformed sigma protocols over one
+ * transcript of the public inputs.
  */
 
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * A credential as held by its owner, with the openings of its commitments.
+ * Only identityKey and the two commitments are ever published.
+ */
+export interface ZKCredential {
+  id: string;
+  identitySecret: string;
+  identityKey: string;
+  trustScore: number;
+  role: string;
+  scoreBlinding: string;
+  roleBlinding: string;
+  scoreCommitment: string;
+  roleCommitment: string;
+  expiresAt: string;
+}
+
+export interface ZKCredentialLeaf {
+  id: string;
+  identityKey: string;
+  scoreCommitment: string;
+  roleCommitment: string;
+}
+
+/**
+ * A resource gated on a proof: trust score threshold and allowed roles
+ */
+export interface ZKAccessGate {
+  resource: string;
+  action: string;
+  minimumTrustScore: number;
+  roleSetRoot: string;
+  allowedRoles: string[];
+}
+
+export interface MerklePathStep {
+  sibling: string;
+  position: 'left' | 'right';
+}
+
+interface OrBranchProof {
+  challenge: string;
+  responses: string[];
+}
+
 export interface ZKProof {
-  proof: string;
+  scheme: typeof PROOF_SCHEME;
   publicInputs: {
     resourceHash: string;
     actionHash: string;
     minimumTrustScore: number;
+    roleSetRoot: string;
+    anonymityRoot: string;
+    anonymitySetSize: number;
+    epoch: number;
     timestamp: number;
   };
   commitments: {
-    identityCommitment: string;
-    permissionCommitment: string;
     trustScoreCommitment: string;
+    roleCommitment: string;
   };
   nullifier: string; // Prevents double-spending/replay
-}
-
-export interface ZKProofGenerationInput {
-  userId: string;
-  resource: string;
-  action: string;
-  trustScore: number;
-  roles: string[];
-  quantumSignature: string;
+  membershipProof: OrBranchProof[];
+  rangeProof: {
+    bitCommitments: string[];
+    bitProofs: OrBranchProof[][];
+  };
+  roleProof: {
+    roles: { leaf: string; path: MerklePathStep[] }[];
+    branches: OrBranchProof[];
+  };
 }
 
 export interface ZKVerificationResult {
   valid: boolean;
   reason: string;
   riskScore: number;
-  metadata: Record<string, any>;
+  metadata: Record<string, unknown>;
+  /** Access token for the gate, issued when the proof is valid */
+  token?: string;
+  expiresAt?: string;
+}
+
+type Point = ReturnType<typeof ristretto255.Point.fromHex>;
+
+/** target = witness · base, for one of the branch's witnesses */
+interface Relation {
+  base: Point;
+  target: Point;
+  witness: number;
+}
+
+const PROOF_SCHEME = 'pedersen-ristretto255-sigma-v1';
+const DST = 'QUANTUM-IAM-ZK-RISTRETTO255-V1';
+// Trust scores are 0-100, so the difference to any threshold fits in 7 bits
+const RANGE_BITS = 7;
+const PROOF_TTL_MS = 5 * 60 * 1000;
+// Nullifiers repeat within an epoch, so a credential can open a gate once per epoch
+const NULLIFIER_EPOCH_MS = 60 * 60 * 1000;
+
+const Point = ristretto255.Point;
+const Fn = ristretto255.Point.Fn;
+const G = ristretto255.Point.BASE;
+const H = ristretto255_hasher.hashToCurve(new TextEncoder().encode('pedersen-h'), { DST });
+
+// ============================================================================
+// Group Helpers
+// ============================================================================
+
+const encodeText = (value: string) => new TextEncoder().encode(value);
+const scalarToHex = (scalar: bigint): string => bytesToHex(numberToBytesLE(scalar, 32));
+const scalarFromHex = (hex: string): bigint => Fn.create(bytesToNumberLE(hexToBytes(hex)));
+const pointFromHex = (hex: string): Point => Point.fromHex(hex);
+
+function randomScalar(): bigint {
+  let scalar = Fn.ZERO;
+  while (Fn.is0(scalar)) {
+    scalar = Fn.create(bytesToNumberLE(randomBytes(64)));
+  }
+  return scalar;
+}
+
+// Zero scalars are valid here, but multiply() rejects them
+function mul(point: Point, scalar: bigint): Point {
+  return Fn.is0(scalar) ? Point.ZERO : point.multiply(scalar);
 }
 
+function commit(value: bigint, blinding: bigint): Point {
+  return mul(G, Fn.create(value)).add(mul(H, blinding));
+}
+
+// Length-prefixed so no two transcripts encode the same bytes
+function transcript(...parts: (string | Uint8Array)[]): Uint8Array {
+  return concatBytes(...parts.flatMap(part => {
+    const bytes = typeof part === 'string' ? encodeText(part) : part;
+    return [numberToBytesLE(BigInt(bytes.length), 4), bytes];
+  }));
+}
+
+const hashToScalar = (...parts: (string | Uint8Array)[]) =>
+  ristretto255_hasher.hashToScalar(transcript(...parts), { DST });
+
 /**
  * Zero-Knowledge Proof Manager
  * Implements privacy-preserving access control
  */
 export class ZKProofManager {
   private proofCache: Map<string, { proof: ZKProof; timestamp: number }>;
-  private nullifierSet: Set<string>; // Prevent replay attacks
+  private nullifierSet: Set<string>; // Nullifiers this instance has spent
 
   constructor() {
     this.proofCache = new Map();
     this.nullifierSet = new Set();
   }
 
+  // ==========================================================================
+  // Credentials
+  // ==========================================================================
+
   /**
-   * Generate zero-knowledge proof for access request
-   * User can prove they have permission without revealing identity
+   * Create an identity and have the issuer commit to the caller's trust
+   * score and role under it. Replaces the caller's previous credential.
    */
-  async generateProof(input: ZKProofGenerationInput): Promise<ZKProof> {
-    // 1. Create commitments (hiding the actual values)
-    const identityCommitment = this.createCommitment(input.userId);
-    const permissionCommitment = this.createCommitment(
-      JSON.stringify(input.roles)
-    );
-    const trustScoreCommitment = this.createCommitment(
-      input.trustScore.toString()
-    );
-
-    // 2. Create nullifier (unique per request, prevents replay)
-    const nullifier = this.createNullifier(
-      input.userId,
-      input.resource,
-      Date.now()
-    );
+  async requestCredential(userId: string): Promise<ZKCredential | null> {
+    try {
+      const identitySecret = randomScalar();
+      const identityKey = G.multiply(identitySecret).toHex();
+
+      const { data, error } = await supabase.functions.invoke('issue-zk-credential', {
+        body: { identityKey }
+      });
+      if (error) throw error;
+
+      const credential: ZKCredential = {
+        id: data.credentialId,
+        identitySecret: scalarToHex(identitySecret),
+        identityKey,
+        trustScore: data.trustScore,
+        role: data.role,
+        scoreBlinding: data.scoreBlinding,
+        roleBlinding: data.roleBlinding,
+        scoreCommitment: data.scoreCommitment,
+        roleCommitment: data.roleCommitment,
+        expiresAt: data.expiresAt
+      };
 
-    // 3. Hash public inputs
-    const resourceHash = crypto.SHA3(input.resource).toString();
-    const actionHash = crypto.SHA3(input.action).toString();
-
-    // 4. Generate the actual proof
-    // In production, this would use zk-SNARK library (snarkjs, etc.)
-    // For now, we create a quantum-resistant signature-based proof
-    const proofData = {
-      identityCommitment,
-      permissionCommitment,
-      trustScoreCommitment,
-      resourceHash,
-      actionHash,
-      nullifier,
-      timestamp: Date.now()
-    };
+      if (!ZKProofManager.verifyCredentialOpening(credential)) {
+        throw new Error('Issuer returned commitments that do not open to the attested values');
+      }
 
-    const proof = this.computeProof(proofData, input.quantumSignature);
+      // Like other client-held keys, the identity secret stays on this device
+      localStorage.setItem(`zk_credential_${userId}`, JSON.stringify(credential));
+      return credential;
+    } catch (error) {
+      console.error('Error requesting ZK credential:', error);
+      return null;
+    }
+  }
 
-    const zkProof: ZKProof = {
-      proof,
-      publicInputs: {
-        resourceHash,
-        actionHash,
-        minimumTrustScore: input.trustScore,
-        timestamp: Date.now()
-      },
-      commitments: {
-        identityCommitment,
-        permissionCommitment,
-        trustScoreCommitment
-      },
-      nullifier
-    };
+  loadCredential(userId: string): ZKCredential | null {
+    const stored = localStorage.getItem(`zk_credential_${userId}`);
+    if (!stored) return null;
 
-    // Cache the proof
-    this.proofCache.set(nullifier, {
-      proof: zkProof,
-      timestamp: Date.now()
-    });
+    const credential = JSON.parse(stored) as ZKCredential;
+    return new Date(credential.expiresAt).getTime() > Date.now() ? credential : null;
+  }
 
-    return zkProof;
+  static verifyCredentialOpening(credential: ZKCredential): boolean {
+    try {
+      return G.multiply(scalarFromHex(credential.identitySecret)).equals(pointFromHex(credential.identityKey)) &&
+        commit(BigInt(credential.trustScore), scalarFromHex(credential.scoreBlinding))
+          .equals(pointFromHex(credential.scoreCommitment)) &&
+        commit(ZKProofManager.roleScalar(credential.role), scalarFromHex(credential.roleBlinding))
+          .equals(pointFromHex(credential.roleCommitment));
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
-   * Verify zero-knowledge proof
-   * Checks if proof is valid without knowing the identity
+   * The active credentials every proof hides among
    */
-  async verifyProof(
-    proof: ZKProof,
-    expectedResource: string,
-    expectedAction: string
-  ): Promise<ZKVerificationResult> {
-    // 1. Check nullifier hasn't been used (prevent replay)
-    if (this.nullifierSet.has(proof.nullifier)) {
-      return {
-        valid: false,
-        reason: 'Proof has already been used (replay attack detected)',
-        riskScore: 100,
-        metadata: { attack_type: 'replay' }
-      };
-    }
-
-    // 2. Verify timestamp (proof should be recent)
-    const now = Date.now();
-    const proofAge = now - proof.publicInputs.timestamp;
-    if (proofAge > 5 * 60 * 1000) { // 5 minutes
-      return {
-        valid: false,
-        reason: 'Proof has expired',
-        riskScore: 50,
-        metadata: { proof_age_ms: proofAge }
-      };
+  async getAnonymitySet(): Promise<ZKCredentialLeaf[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_zk_anonymity_set');
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        id: row.id,
+        identityKey: row.identity_key,
+        scoreCommitment: row.score_commitment,
+        roleCommitment: row.role_commitment
+      }));
+    } catch (error) {
+      console.error('Error loading anonymity set:', error);
+      return [];
     }
+  }
 
-    // 3. Verify resource and action match
-    const resourceHash = crypto.SHA3(expectedResource).toString();
-    const actionHash = crypto.SHA3(expectedAction).toString();
+  // ==========================================================================
+  // Gates
+  // ==========================================================================
 
-    if (proof.publicInputs.resourceHash !== resourceHash) {
-      return {
-        valid: false,
-        reason: 'Resource mismatch',
-        riskScore: 80,
-        metadata: { expected: resourceHash, got: proof.publicInputs.resourceHash }
-      };
+  static createGate(resource: string, action: string, minimumTrustScore: number, allowedRoles: string[]): ZKAccessGate {
+    if (!Number.isInteger(minimumTrustScore) || minimumTrustScore < 0 || minimumTrustScore > 100) {
+      throw new Error('Minimum trust score must be an integer between 0 and 100');
     }
 
-    if (proof.publicInputs.actionHash !== actionHash) {
-      return {
-        valid: false,
-        reason: 'Action mismatch',
-        riskScore: 80,
-        metadata: { expected: actionHash, got: proof.publicInputs.actionHash }
-      };
-    }
-
-    // 4. Verify cryptographic proof validity
-    const isValidProof = await this.verifyProofCryptography(proof);
-    if (!isValidProof) {
-      return {
-        valid: false,
-        reason: 'Cryptographic proof verification failed',
-        riskScore: 100,
-        metadata: { attack_type: 'forged_proof' }
-      };
+    const roles = Array.from(new Set(allowedRoles)).sort();
+    if (roles.length === 0) {
+      throw new Error('A gate needs at least one allowed role');
     }
 
-    // 5. Mark nullifier as used
-    this.nullifierSet.add(proof.nullifier);
-
     return {
-      valid: true,
-      reason: 'Zero-knowledge proof verified successfully',
-      riskScore: 0,
-      metadata: {
-        trust_score_minimum: proof.publicInputs.minimumTrustScore,
-        verified_at: now
-      }
+      resource,
+      action,
+      minimumTrustScore,
+      roleSetRoot: this.merkleRoot(roles.map(role => this.roleLeaf(role))),
+      allowedRoles: roles
     };
   }
 
   /**
-   * Create cryptographic commitment
-   * Hides value but allows verification later
+   * Role value committed in credentials; the issuer derives it the same way
    */
-  private createCommitment(value: string): string {
-    const randomness = crypto.lib.WordArray.random(32).toString();
-    const commitment = crypto.SHA3(value + randomness).toString();
-    return commitment;
+  static roleScalar(role: string): bigint {
+    return hashToScalar('role', role);
   }
 
+  // ==========================================================================
+  // Proof Generation
+  // ==========================================================================
+
   /**
-   * Create nullifier (unique per request)
+   * Generate zero-knowledge proof for access request
+   * User can prove they have permission without revealing identity
    */
-  private createNullifier(
-    userId: string,
-    resource: string,
-    timestamp: number
-  ): string {
-    const data = `${userId}:${resource}:${timestamp}`;
-    return crypto.SHA3(data).toString();
+  async generateProof(
+    credential: ZKCredential,
+    gate: ZKAccessGate,
+    anonymitySet: ZKCredentialLeaf[]
+  ): Promise<ZKProof> {
+    const index = anonymitySet.findIndex(leaf => leaf.identityKey === credential.identityKey);
+    if (index < 0) {
+      throw new Error('Credential is not in the anonymity set');
+    }
+    if (credential.trustScore < gate.minimumTrustScore) {
+      throw new Error('Trust score is below the gate threshold');
+    }
+    if (!gate.allowedRoles.includes(credential.role)) {
+      throw new Error('Role is not allowed by the gate');
+    }
+
+    const identitySecret = scalarFromHex(credential.identitySecret);
+    const timestamp = Date.now();
+    const epoch = Math.floor(timestamp / NULLIFIER_EPOCH_MS);
+
+    // Re-randomize the commitments so they cannot be matched to the leaf
+    const scoreShift = randomScalar();
+    const roleShift = randomScalar();
+    const scoreCommitment = pointFromHex(credential.scoreCommitment).add(H.multiply(scoreShift));
+    const roleCommitment = pointFromHex(credential.roleCommitment).add(H.multiply(roleShift));
+
+    // Commit to the bits of trustScore - threshold. The last blinding makes
+    // them sum to exactly the re-randomized score commitment minus threshold·G
+    const difference = BigInt(credential.trustScore - gate.minimumTrustScore);
+    const differenceBlinding = Fn.add(scalarFromHex(credential.scoreBlinding), scoreShift);
+    const bitBlindings: bigint[] = [];
+    for (let i = 0; i < RANGE_BITS - 1; i++) {
+      bitBlindings.push(randomScalar());
+    }
+    const partialBlinding = bitBlindings.reduce((sum, blinding, i) => Fn.add(sum, Fn.mul(blinding, 1n << BigInt(i))), Fn.ZERO);
+    bitBlindings.push(Fn.div(Fn.sub(differenceBlinding, partialBlinding), 1n << BigInt(RANGE_BITS - 1)));
+    const bitCommitments = bitBlindings.map((blinding, i) => commit((difference >> BigInt(i)) & 1n, blinding));
+
+    const nullifier = ZKProofManager.nullifierBase(gate, epoch).multiply(identitySecret);
+    const roleLeaves = gate.allowedRoles.map(role => ZKProofManager.roleLeaf(role));
+
+    const proof: ZKProof = {
+      scheme: PROOF_SCHEME,
+      publicInputs: {
+        resourceHash: crypto.SHA3(gate.resource).toString(),
+        actionHash: crypto.SHA3(gate.action).toString(),
+        minimumTrustScore: gate.minimumTrustScore,
+        roleSetRoot: gate.roleSetRoot,
+        anonymityRoot: ZKProofManager.anonymityRoot(anonymitySet),
+        anonymitySetSize: anonymitySet.length,
+        epoch,
+        timestamp
+      },
+      commitments: {
+        trustScoreCommitment: scoreCommitment.toHex(),
+        roleCommitment: roleCommitment.toHex()
+      },
+      nullifier: nullifier.toHex(),
+      membershipProof: [],
+      rangeProof: { bitCommitments: bitCommitments.map(c => c.toHex()), bitProofs: [] },
+      roleProof: {
+        roles: roleLeaves.map((leaf, i) => ({ leaf, path: ZKProofManager.merklePath(roleLeaves, i) })),
+        branches: []
+      }
+    };
+    const context = ZKProofManager.proofContext(proof);
+
+    // 1. I hold one of the credentials in the set
+    proof.membershipProof = ZKProofManager.proveOr(
+      'membership',
+      context,
+      ZKProofManager.membershipBranches(proof, gate, anonymitySet),
+      index,
+      [identitySecret, scoreShift, roleShift]
+    );
+
+    // 2. trustScore - threshold = sum of 2^i · b_i with every b_i a bit
+    proof.rangeProof.bitProofs = bitCommitments.map((bitCommitment, i) => ZKProofManager.proveOr(
+      `bit-${i}`,
+      context,
+      ZKProofManager.bitBranches(bitCommitment),
+      Number((difference >> BigInt(i)) & 1n),
+      [bitBlindings[i]]
+    ));
+
+    // 3. The committed role is one of the gate's roles
+    proof.roleProof.branches = ZKProofManager.proveOr(
+      'role',
+      context,
+      ZKProofManager.roleBranches(roleCommitment, gate.allowedRoles),
+      gate.allowedRoles.indexOf(credential.role),
+      [Fn.add(scalarFromHex(credential.roleBlinding), roleShift)]
+    );
+
+    this.proofCache.set(proof.nullifier, { proof, timestamp });
+    return proof;
   }
 
+  // ==========================================================================
+  // Verification
+  // ==========================================================================
+
   /**
-   * Compute zero-knowledge proof
-   * In production: Use zk-SNARK library
-   * Current: Quantum-resistant signature-based proof
+   * Verify zero-knowledge proof
+   * The verify-zk-proof edge function checks the proof against the gate and
+   * the current anonymity set, spends its nullifier and issues the token
    */
-  private computeProof(
-    proofData: any,
-    quantumSignature: string
-  ): string {
-    const dataString = JSON.stringify(proofData);
-    const hash = crypto.SHA3(dataString + quantumSignature).toString();
-    return hash;
+  async verifyProof(proof: ZKProof, gate: ZKAccessGate): Promise<ZKVerificationResult> {
+    const { data, error } = await supabase.functions.invoke('verify-zk-proof', {
+      body: {
+        proof,
+        gate: {
+          resource: gate.resource,
+          action: gate.action,
+          minimumTrustScore: gate.minimumTrustScore,
+          allowedRoles: gate.allowedRoles
+        }
+      }
+    });
+
+    if (error || !data) {
+      return {
+        valid: false,
+        reason: 'Could not verify the proof',
+        riskScore: 50,
+        metadata: { error: error?.message }
+      };
+    }
+
+    if (data.valid) {
+      this.nullifierSet.add(proof.nullifier);
+    }
+    return data as ZKVerificationResult;
   }
 
   /**
    * Verify proof cryptography
+   * Returns the name of the first failed check, or null if all pass
    */
-  private async verifyProofCryptography(proof: ZKProof): Promise<boolean> {
-    // In production: Verify zk-SNARK proof
-    // Current: Verify structure and commitments
+  static verifyProofCryptography(
+    proof: ZKProof,
+    gate: ZKAccessGate,
+    anonymitySet: ZKCredentialLeaf[]
+  ): string | null {
     try {
-      // Check all required fields exist
-      if (!proof.proof || !proof.publicInputs || !proof.commitments) {
-        return false;
+      if (proof.scheme !== PROOF_SCHEME) return 'scheme';
+      const context = this.proofContext(proof);
+
+      if (proof.membershipProof.length !== anonymitySet.length ||
+        !this.verifyOr('membership', context, this.membershipBranches(proof, gate, anonymitySet), proof.membershipProof)) {
+        return 'membership';
       }
 
-      // Verify commitments are valid hashes
-      const commitments = Object.values(proof.commitments);
-      for (const commitment of commitments) {
-        if (typeof commitment !== 'string' || commitment.length < 32) {
-          return false;
-        }
+      // Bits must recombine into C_score - threshold·G
+      const { bitCommitments, bitProofs } = proof.rangeProof;
+      if (bitCommitments.length !== RANGE_BITS || bitProofs.length !== RANGE_BITS) return 'range';
+      const bits = bitCommitments.map(pointFromHex);
+      const recombined = bits.reduce((sum, bit, i) => sum.add(mul(bit, 1n << BigInt(i))), Point.ZERO);
+      const difference = pointFromHex(proof.commitments.trustScoreCommitment)
+        .subtract(mul(G, BigInt(proof.publicInputs.minimumTrustScore)));
+      if (!recombined.equals(difference)) return 'range';
+      for (let i = 0; i < RANGE_BITS; i++) {
+        if (!this.verifyOr(`bit-${i}`, context, this.bitBranches(bits[i]), bitProofs[i])) return 'range';
       }
 
-      return true;
+      // Role leaves must all be under the gate's root
+      const { roles, branches } = proof.roleProof;
+      const allowedRoles: string[] = [];
+      for (const { leaf, path } of roles) {
+        if (!this.verifyMerklePath(leaf, path, gate.roleSetRoot)) return 'role_set';
+        const role = gate.allowedRoles.find(r => this.roleLeaf(r) === leaf);
+        if (!role) return 'role_set';
+        allowedRoles.push(role);
+      }
+      if (allowedRoles.length === 0 ||
+        !this.verifyOr('role', context, this.roleBranches(pointFromHex(proof.commitments.roleCommitment), allowedRoles), branches)) {
+        return 'role';
+      }
+
+      return null;
     } catch (error) {
       console.error('Proof verification error:', error);
-      return false;
+      return 'malformed';
     }
   }
 
-  /**
-   * Generate anonymous access token
-   * Allows access without revealing identity
-   */
-  async generateAnonymousToken(proof: ZKProof): Promise<string> {
-    const tokenData = {
-      proof_hash: crypto.SHA3(proof.proof).toString(),
-      nullifier: proof.nullifier,
-      resource: proof.publicInputs.resourceHash,
-      expires_at: Date.now() + 60 * 60 * 1000 // 1 hour
-    };
+  // ==========================================================================
+  // Sigma Protocols
+  // ==========================================================================
+
+  // Branch j: I know (sk, δ, ε) with P_j = sk·G, N = sk·S,
+  // C'_score - C_score_j = δ·H and C'_role - C_role_j = ε·H
+  private static membershipBranches(proof: ZKProof, gate: ZKAccessGate, anonymitySet: ZKCredentialLeaf[]): Relation[][] {
+    const nullifierBase = this.nullifierBase(gate, proof.publicInputs.epoch);
+    const nullifier = pointFromHex(proof.nullifier);
+    const scoreCommitment = pointFromHex(proof.commitments.trustScoreCommitment);
+    const roleCommitment = pointFromHex(proof.commitments.roleCommitment);
+
+    return anonymitySet.map(leaf => [
+      { base: G, target: pointFromHex(leaf.identityKey), witness: 0 },
+      { base: nullifierBase, target: nullifier, witness: 0 },
+      { base: H, target: scoreCommitment.subtract(pointFromHex(leaf.scoreCommitment)), witness: 1 },
+      { base: H, target: roleCommitment.subtract(pointFromHex(leaf.roleCommitment)), witness: 2 }
+    ]);
+  }
 
-    const token = Buffer.from(JSON.stringify(tokenData)).toString('base64');
-    return token;
+  // B commits to 0 (B = γ·H) or to 1 (B - G = γ·H)
+  private static bitBranches(bitCommitment: Point): Relation[][] {
+    return [
+      [{ base: H, target: bitCommitment, witness: 0 }],
+      [{ base: H, target: bitCommitment.subtract(G), witness: 0 }]
+    ];
+  }
+
+  // Branch k: C'_role - role_k·G = ε'·H
+  private static roleBranches(roleCommitment: Point, roles: string[]): Relation[][] {
+    return roles.map(role => [
+      { base: H, target: roleCommitment.subtract(mul(G, this.roleScalar(role))), witness: 0 }
+    ]);
   }
 
   /**
-   * Verify anonymous token
+   * OR composition of Schnorr proofs (Cramer-Damgård-Schoenmakers): the
+   * real branch is proven honestly, the others are simulated, and the
+   * branch challenges must sum to the Fiat-Shamir challenge.
    */
-  async verifyAnonymousToken(token: string): Promise<boolean> {
-    try {
-      const tokenData = JSON.parse(
-        Buffer.from(token, 'base64').toString()
-      );
+  private static proveOr(
+    label: string,
+    context: Uint8Array,
+    branches: Relation[][],
+    realIndex: number,
+    witnesses: bigint[]
+  ): OrBranchProof[] {
+    const nonces = witnesses.map(() => randomScalar());
+    const challenges: bigint[] = [];
+    const responses: bigint[][] = [];
+    const announcements: Point[] = [];
+
+    branches.forEach((relations, j) => {
+      if (j === realIndex) {
+        challenges.push(Fn.ZERO);
+        responses.push([]);
+        announcements.push(...relations.map(r => r.base.multiply(nonces[r.witness])));
+        return;
+      }
+
+      const challenge = randomScalar();
+      const simulated = witnesses.map(() => randomScalar());
+      challenges.push(challenge);
+      responses.push(simulated);
+      announcements.push(...relations.map(r => mul(r.base, simulated[r.witness]).subtract(mul(r.target, challenge))));
+    });
+
+    const total = hashToScalar(label, context, ...announcements.map(a => a.toBytes()));
+    const realChallenge = challenges.reduce((rest, c) => Fn.sub(rest, c), total);
+    challenges[realIndex] = realChallenge;
+    responses[realIndex] = nonces.map((nonce, w) => Fn.add(nonce, Fn.mul(realChallenge, witnesses[w])));
+
+    return branches.map((_, j) => ({
+      challenge: scalarToHex(challenges[j]),
+      responses: responses[j].map(scalarToHex)
+    }));
+  }
+
+  private static verifyOr(label: string, context: Uint8Array, branches: Relation[][], proof: OrBranchProof[]): boolean {
+    if (proof.length !== branches.length) return false;
+
+    let challengeSum = Fn.ZERO;
+    const announcements: Point[] = [];
+    branches.forEach((relations, j) => {
+      const challenge = scalarFromHex(proof[j].challenge);
+      const responses = proof[j].responses.map(scalarFromHex);
+      challengeSum = Fn.add(challengeSum, challenge);
+      announcements.push(...relations.map(r => {
+        if (responses[r.witness] === undefined) throw new Error('Missing response');
+        return mul(r.base, responses[r.witness]).subtract(mul(r.target, challenge));
+      }));
+    });
+
+    return Fn.eql(challengeSum, hashToScalar(label, context, ...announcements.map(a => a.toBytes())));
+  }
+
+  // Everything public that the sub-proofs are bound to
+  private static proofContext(proof: ZKProof): Uint8Array {
+    const inputs = proof.publicInputs;
+    return transcript(
+      PROOF_SCHEME,
+      inputs.resourceHash,
+      inputs.actionHash,
+      String(inputs.minimumTrustScore),
+      inputs.roleSetRoot,
+      inputs.anonymityRoot,
+      String(inputs.anonymitySetSize),
+      String(inputs.epoch),
+      String(inputs.timestamp),
+      proof.commitments.trustScoreCommitment,
+      proof.commitments.roleCommitment,
+      proof.nullifier,
+      ...proof.rangeProof.bitCommitments,
+      ...proof.roleProof.roles.map(r => r.leaf)
+    );
+  }
+
+  // S = hash-to-curve(resource, action, epoch); the nullifier is sk·S
+  private static nullifierBase(gate: ZKAccessGate, epoch: number): Point {
+    return ristretto255_hasher.hashToCurve(transcript('nullifier', gate.resource, gate.action, String(epoch)), { DST });
+  }
+
+  // ==========================================================================
+  // Merkle Trees
+  // ==========================================================================
 
-      // Check expiration
-      if (Date.now() > tokenData.expires_at) {
-        return false;
+  static roleLeaf(role: string): string {
+    return crypto.SHA256(`zk-role-leaf:${role}`).toString();
+  }
+
+  static anonymityRoot(anonymitySet: ZKCredentialLeaf[]): string {
+    return this.merkleRoot(anonymitySet.map(leaf =>
+      crypto.SHA256(`zk-credential-leaf:${leaf.identityKey}:${leaf.scoreCommitment}:${leaf.roleCommitment}`).toString()
+    ));
+  }
+
+  static merkleRoot(leaves: string[]): string {
+    if (leaves.length === 0) return crypto.SHA256('zk-empty-tree').toString();
+
+    let level = leaves;
+    while (level.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        // An odd node is carried up unchanged
+        next.push(i + 1 < level.length ? this.hashNode(level[i], level[i + 1]) : level[i]);
       }
+      level = next;
+    }
+    return level[0];
+  }
+
+  static merklePath(leaves: string[], index: number): MerklePathStep[] {
+    const path: MerklePathStep[] = [];
+    let level = leaves;
+    let position = index;
 
-      // Check nullifier hasn't been revoked
-      if (this.nullifierSet.has(tokenData.nullifier)) {
-        return true;
+    while (level.length > 1) {
+      const sibling = position % 2 === 0 ? position + 1 : position - 1;
+      if (sibling < level.length) {
+        path.push({ sibling: level[sibling], position: position % 2 === 0 ? 'right' : 'left' });
       }
 
-      return false;
-    } catch (error) {
-      return false;
+      const next: string[] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(i + 1 < level.length ? this.hashNode(level[i], level[i + 1]) : level[i]);
+      }
+      level = next;
+      position = Math.floor(position / 2);
     }
+    return path;
+  }
+
+  static verifyMerklePath(leaf: string, path: MerklePathStep[], root: string): boolean {
+    const computed = path.reduce(
+      (node, step) => step.position === 'right' ? this.hashNode(node, step.sibling) : this.hashNode(step.sibling, node),
+      leaf
+    );
+    return computed === root;
+  }
+
+  private static hashNode(left: string, right: string): string {
+    return crypto.SHA256(`zk-node:${left}:${right}`).toString();
   }
 
+  // ==========================================================================
+  // Anonymous Tokens
+  // ==========================================================================
+
   /**
-   * Revoke proof (add nullifier to blacklist)
+   * Verify anonymous access token
+   * Valid while it is unexpired and was issued for a proof against this
+   * gate, or a stricter threshold over the same roles
    */
-  revokeProof(nullifier: string): void {
-    this.nullifierSet.delete(nullifier);
-    this.proofCache.delete(nullifier);
+  async verifyAnonymousToken(token: string, gate: ZKAccessGate): Promise<boolean> {
+    try {
+      const { data } = await supabase.rpc('is_zk_access_token_valid', {
+        _token_hash: crypto.SHA256(token).toString(),
+        _resource_hash: crypto.SHA3(gate.resource).toString(),
+        _action_hash: crypto.SHA3(gate.action).toString(),
+        _minimum_trust_score: gate.minimumTrustScore,
+        _role_set_root: gate.roleSetRoot
+      });
+      return data === true;
+    } catch (error) {
+      return false;
+    }
   }
 
   /**
@@ -312,12 +707,10 @@ export class ZKProofManager {
    */
   cleanupExpiredProofs(): void {
     const now = Date.now();
-    const expiration = 5 * 60 * 1000; // 5 minutes
 
     for (const [nullifier, cache] of this.proofCache.entries()) {
-      if (now - cache.timestamp > expiration) {
+      if (now - cache.timestamp > PROOF_TTL_MS) {
         this.proofCache.delete(nullifier);
-        this.nullifierSet.delete(nullifier);
       }
     }
   }
@@ -0,0 +1,206 @@
+/**
+ * Managed Zero Trust Policy Rules
+ *
+ * Evaluation of the policies administrators manage in the
+ * zero_trust_policies table (see useZeroTrust). These use a keyed
+ * conditions object per policy type rather than the ZeroTrustEngine's
+ * field/operator/value conditions.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+export interface ManagedPolicyConditions {
+  trusted_devices?: string[];
+  allowed_user_agents?: string[];
+  blocked_user_agents?: string[];
+  allowed_ip_ranges?: string[];
+  blocked_ip_ranges?: string[];
+  require_vpn?: boolean;
+  allowed_countries?: string[];
+  blocked_countries?: string[];
+  min_behavioral_score?: number;
+  max_behavioral_score?: number;
+  allowed_hours?: number[];
+  allowed_days?: number[];
+  business_hours_only?: boolean;
+}
+
+export interface ManagedPolicy {
+  id: string;
+  name: string;
+  policy_type: string;
+  conditions: ManagedPolicyConditions;
+  actions: { action?: string };
+  is_active: boolean;
+}
+
+export interface ManagedPolicyContext {
+  deviceId?: string;
+  ipAddress?: string;
+  location?: string;
+  userAgent?: string;
+  behavioralScore?: number;
+  timeOfAccess?: Date;
+}
+
+export interface ManagedPolicyResult {
+  matched: boolean;
+  action: string;
+  reason: string;
+}
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+export class ZeroTrustRules {
+  /**
+   * Whether a managed policy matches the context and, if so, the action it
+   * requires ('none' when it does not match).
+   */
+  static evaluate(policy: ManagedPolicy, context: ManagedPolicyContext): ManagedPolicyResult {
+    let matched = false;
+    let reason = '';
+
+    switch (policy.policy_type) {
+      case 'device':
+        matched = this.evaluateDevicePolicy(policy.conditions, context);
+        reason = matched ? 'Device criteria matched' : 'Device criteria not met';
+        break;
+
+      case 'network':
+        matched = this.evaluateNetworkPolicy(policy.conditions, context);
+        reason = matched ? 'Network criteria matched' : 'Network criteria not met';
+        break;
+
+      case 'location':
+        matched = this.evaluateLocationPolicy(policy.conditions, context);
+        reason = matched ? 'Location criteria matched' : 'Location criteria not met';
+        break;
+
+      case 'behavioral':
+        matched = this.evaluateBehavioralPolicy(policy.conditions, context);
+        reason = matched ? 'Behavioral criteria matched' : 'Behavioral criteria not met';
+        break;
+
+      case 'time_based':
+        matched = this.evaluateTimeBasedPolicy(policy.conditions, context.timeOfAccess || new Date());
+        reason = matched ? 'Time criteria matched' : 'Time criteria not met';
+        break;
+    }
+
+    return {
+      matched,
+      action: matched ? policy.actions.action || 'allow' : 'none',
+      reason
+    };
+  }
+
+  /**
+   * A matched deny (or block) action refuses access; every other action is
+   * a requirement on top of access.
+   */
+  static isDenied(result: ManagedPolicyResult): boolean {
+    return result.matched && (result.action === 'deny' || result.action === 'block');
+  }
+
+  private static evaluateDevicePolicy(conditions: ManagedPolicyConditions, context: ManagedPolicyContext): boolean {
+    if (conditions.trusted_devices && context.deviceId) {
+      return conditions.trusted_devices.includes(context.deviceId);
+    }
+
+    if (conditions.allowed_user_agents && context.userAgent) {
+      const userAgent = context.userAgent;
+      return conditions.allowed_user_agents.some(ua => userAgent.includes(ua));
+    }
+
+    if (conditions.blocked_user_agents && context.userAgent) {
+      const userAgent = context.userAgent;
+      return !conditions.blocked_user_agents.some(ua => userAgent.includes(ua));
+    }
+
+    return true;
+  }
+
+  private static evaluateNetworkPolicy(conditions: ManagedPolicyConditions, context: ManagedPolicyContext): boolean {
+    const ipAddress = context.ipAddress;
+
+    if (conditions.allowed_ip_ranges && ipAddress) {
+      return conditions.allowed_ip_ranges.some(range => this.isIPInRange(ipAddress, range));
+    }
+
+    if (conditions.blocked_ip_ranges && ipAddress) {
+      return !conditions.blocked_ip_ranges.some(range => this.isIPInRange(ipAddress, range));
+    }
+
+    if (conditions.require_vpn && ipAddress) {
+      // In a real implementation, check if IP is from known VPN ranges
+      return this.isVPNIP(ipAddress);
+    }
+
+    return true;
+  }
+
+  private static evaluateLocationPolicy(conditions: ManagedPolicyConditions, context: ManagedPolicyContext): boolean {
+    if (conditions.allowed_countries && context.location) {
+      return conditions.allowed_countries.includes(context.location);
+    }
+
+    if (conditions.blocked_countries && context.location) {
+      return !conditions.blocked_countries.includes(context.location);
+    }
+
+    return true;
+  }
+
+  private static evaluateBehavioralPolicy(conditions: ManagedPolicyConditions, context: ManagedPolicyContext): boolean {
+    if (conditions.min_behavioral_score && context.behavioralScore !== undefined) {
+      return context.behavioralScore >= conditions.min_behavioral_score;
+    }
+
+    if (conditions.max_behavioral_score && context.behavioralScore !== undefined) {
+      return context.behavioralScore <= conditions.max_behavioral_score;
+    }
+
+    return true;
+  }
+
+  private static evaluateTimeBasedPolicy(conditions: ManagedPolicyConditions, accessTime: Date): boolean {
+    if (conditions.allowed_hours) {
+      const hour = accessTime.getHours();
+      return conditions.allowed_hours.includes(hour);
+    }
+
+    if (conditions.allowed_days) {
+      const day = accessTime.getDay();
+      return conditions.allowed_days.includes(day);
+    }
+
+    if (conditions.business_hours_only) {
+      const hour = accessTime.getHours();
+      const day = accessTime.getDay();
+      // Monday-Friday, 9 AM - 5 PM
+      return day >= 1 && day <= 5 && hour >= 9 && hour <= 17;
+    }
+
+    return true;
+  }
+
+  private static isIPInRange(ip: string, range: string): boolean {
+    // Simplified IP range check - in production, use proper CIDR matching
+    if (range.includes('/')) {
+      const [network] = range.split('/');
+      return ip.startsWith(network.split('.').slice(0, 2).join('.'));
+    }
+    return ip === range;
+  }
+
+  private static isVPNIP(ip: string): boolean {
+    // In production, check against known VPN IP ranges
+    // This is a simplified implementation
+    const vpnRanges = ['10.', '192.168.', '172.16.'];
+    return vpnRanges.some(range => ip.startsWith(range));
+  }
+}
@@ -13,7 +13,7 @@ import { Users, Shield, Settings, LogOut, Activity, Eye, BarChart3, FileText, Br
 
 export default function Dashboard() {
   const { user, userRole, signOut, loading } = useAuth();
-  const { canAccess, canManage } = usePermissions();
+  const { canManage } = usePermissions([{ action: 'MANAGE', resource: 'users' }]);
   const navigate = useNavigate();
   const [stats, setStats] = useState({
     totalUsers: 0,
@@ -8,8 +8,10 @@ import { TrustScoreDetails } from "@/components/TrustScoreDetails";
 import { TimeBasedPermissions } from "@/components/security/TimeBasedPermissions";
 import { ComprehensiveRiskAssessment } from "@/components/security/ComprehensiveRiskAssessment";
 import { ApprovalRequestManager } from "@/components/security/ApprovalRequestManager";
+import { AccessReviewQueue } from "@/components/security/AccessReviewQueue";
 import { ProfileEditForm } from "@/components/ProfileEditForm";
 import { UserGroupMemberships } from "@/components/UserGroupMemberships";
+import { CredentialWallet } from "@/components/security/CredentialWallet";
 import { ArrowLeft } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -36,7 +38,7 @@ export default function Profile() {
         </div>
 
         <Tabs defaultValue="profile" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-8">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="profile">Profile</TabsTrigger>
             <TabsTrigger value="security">Security</TabsTrigger>
             <TabsTrigger value="api-keys">API Keys</TabsTrigger>
@@ -45,6 +47,7 @@ export default function Profile() {
             {userRole !== 'admin' && <TabsTrigger value="approvals">Approvals</TabsTrigger>}
             <TabsTrigger value="groups">Groups</TabsTrigger>
             <TabsTrigger value="permissions">Permissions</TabsTrigger>
+            <TabsTrigger value="credentials">Credentials</TabsTrigger>
           </TabsList>
 
           <TabsContent value="profile" className="space-y-6">
@@ -72,6 +75,7 @@ export default function Profile() {
           {userRole !== 'admin' && (
             <TabsContent value="approvals" className="space-y-6">
               <ApprovalRequestManager />
+              <AccessReviewQueue />
             </TabsContent>
           )}
 
@@ -83,6 +87,10 @@ export default function Profile() {
             <TrustScoreDetails />
             <TimeBasedPermissions />
           </TabsContent>
+
+          <TabsContent value="credentials" className="space-y-6">
+            <CredentialWallet />
+          </TabsContent>
         </Tabs>
     </div>
   );
@@ -2,6 +2,7 @@ import { QuantumSecurityDashboard } from '@/components/security/QuantumSecurityD
 import { QuantumSecurityStatus } from '@/components/security/QuantumSecurityStatus';
 import { EnterpriseQuantumDashboard } from '@/components/security/EnterpriseQuantumDashboard';
 import { QuantumCertificateManager } from '@/components/security/QuantumCertificateManager';
+import { QuantumKeyRotationManager } from '@/components/security/QuantumKeyRotationManager';
 import { TrustScoreDetails } from '@/components/TrustScoreDetails';
 import { QuantumAccessGate } from '@/components/security/QuantumAccessGate';
 import { AttackReportViewer } from '@/components/security/AttackReportViewer';
@@ -76,10 +77,11 @@ export default function QuantumSecurity() {
         </Card>
 
         <Tabs defaultValue="status" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="status">Status</TabsTrigger>
             <TabsTrigger value="basic">Basic Security</TabsTrigger>
             <TabsTrigger value="certificates">Certificates</TabsTrigger>
+            <TabsTrigger value="rotation">Key Rotation</TabsTrigger>
             <TabsTrigger value="advanced">Advanced</TabsTrigger>
             <TabsTrigger value="trust">Trust Analysis</TabsTrigger>
             <TabsTrigger value="attacks">Attack Logs</TabsTrigger>
@@ -98,6 +100,12 @@ export default function QuantumSecurity() {
               <QuantumCertificateManager />
             </QuantumAccessGate>
           </TabsContent>
+
+          <TabsContent value="rotation" className="space-y-4">
+            <QuantumAccessGate requiredPermission="manage">
+              <QuantumKeyRotationManager />
+            </QuantumAccessGate>
+          </TabsContent>
           
           <TabsContent value="advanced" className="space-y-4">
             <QuantumAccessGate requiredPermission="configure">
@@ -5,6 +5,7 @@ import { SystemMonitoringDashboard } from "@/components/admin/SystemMonitoringDa
 import { BlockchainPruningManager } from "@/components/admin/BlockchainPruningManager";
 import { P2PNetworkStatus } from "@/components/admin/P2PNetworkStatus";
 import { BlockchainStorageStats } from "@/components/admin/BlockchainStorageStats";
+import { ChainReconciliationPanel } from "@/components/admin/ChainReconciliationPanel";
 import Layout from "@/components/Layout";
 import { Shield, Network } from "lucide-react";
 import { useP2PBlockchain } from "@/hooks/useP2PBlockchain";
@@ -68,6 +69,7 @@ export default function BlockchainManagement() {
             <TabsTrigger value="dashboard">Dashboard</TabsTrigger>
             <TabsTrigger value="policies">Smart Policies</TabsTrigger>
             <TabsTrigger value="pruning">Pruning</TabsTrigger>
+            <TabsTrigger value="reconciliation">Reconciliation</TabsTrigger>
           </TabsList>
 
           <TabsContent value="p2p" className="space-y-6">
@@ -131,6 +133,10 @@ export default function BlockchainManagement() {
           <TabsContent value="pruning">
             <BlockchainPruningManager />
           </TabsContent>
+
+          <TabsContent value="reconciliation">
+            <ChainReconciliationPanel blockchain={blockchain} onRepaired={updateStats} />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -1,4 +1,5 @@
 import { RoleManagement } from '@/components/admin/RoleManagement';
+import { SeparationOfDutiesManager } from '@/components/security/SeparationOfDutiesManager';
 import { AdminGate } from '@/components/PermissionGate';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Settings } from 'lucide-react';
@@ -30,6 +31,7 @@ export default function Roles() {
         </div>
 
         <RoleManagement />
+        <SeparationOfDutiesManager />
       </div>
     </AdminGate>
   );
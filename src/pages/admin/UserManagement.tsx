@@ -1,4 +1,8 @@
 import { UserManagementPanel } from '@/components/admin/UserManagementPanel';
+import { FederationProviderManager } from '@/components/security/FederationProviderManager';
+import { DirectorySyncManager } from '@/components/security/DirectorySyncManager';
+import { IdentityLifecycleManager } from '@/components/security/IdentityLifecycleManager';
+import { AccessCertificationCampaigns } from '@/components/security/AccessCertificationCampaigns';
 import { AdminGate } from '@/components/PermissionGate';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft, Users } from 'lucide-react';
@@ -31,6 +35,10 @@ export default function UserManagement() {
         </div>
 
         <UserManagementPanel />
+        <FederationProviderManager />
+        <DirectorySyncManager />
+        <IdentityLifecycleManager />
+        <AccessCertificationCampaigns />
       </div>
     </AdminGate>
   );
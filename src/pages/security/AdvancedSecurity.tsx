@@ -3,7 +3,8 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ZeroKnowledgeAccessControl } from '@/components/security/ZeroKnowledgeAccessControl';
 import { ThresholdSignatureManager } from '@/components/security/ThresholdSignatureManager';
 import { CrossChainIdentityManager } from '@/components/security/CrossChainIdentityManager';
-import { Shield, EyeOff, Users, Globe } from 'lucide-react';
+import { VerifiableCredentialsManager } from '@/components/security/VerifiableCredentialsManager';
+import { Shield, EyeOff, Users, Globe, BadgeCheck } from 'lucide-react';
 
 export default function AdvancedSecurity() {
   return (
@@ -33,6 +34,10 @@ export default function AdvancedSecurity() {
               <Globe className="h-4 w-4 mr-2" />
               Cross-Chain Identity
             </TabsTrigger>
+            <TabsTrigger value="credentials">
+              <BadgeCheck className="h-4 w-4 mr-2" />
+              Verifiable Credentials
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="zk">
@@ -46,6 +51,10 @@ export default function AdvancedSecurity() {
           <TabsContent value="crosschain">
             <CrossChainIdentityManager />
           </TabsContent>
+
+          <TabsContent value="credentials">
+            <VerifiableCredentialsManager />
+          </TabsContent>
         </Tabs>
       </div>
     </Layout>
@@ -0,0 +1,121 @@
+/**
+ * Organisation signing key, shared by the functions that sign evidence
+ *
+ * A single ML-DSA-65 key in org_signing_keys signs access review results and
+ * SSO session records. Its seed is stored encrypted under
+ * ORG_SIGNING_MASTER_KEY and never leaves the edge functions; records name
+ * the key by id and verifiers take the public key from org_signing_keys,
+ * which clients cannot write. Every purpose signs with its own ML-DSA
+ * context, so a signature made for one kind of record does not verify as
+ * another.
+ */
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { ml_dsa65 } from 'https://esm.sh/@noble/post-quantum@0.5.2/ml-dsa.js';
+import { base64Decode, base64Encode, concat, fromHex } from './pki.ts';
+
+// Must match src/lib/org-signing.ts
+export const ORG_SIGNING_ALGORITHM = 'ML-DSA-65';
+export type SigningPurpose = 'access-review-result' | 'sso-session';
+
+export interface OrgSignature {
+  keyId: string;
+  /** Base64 ML-DSA-65 signature */
+  signature: string;
+}
+
+interface SigningKey {
+  id: string;
+  encryptedSeed: string;
+}
+
+const SEED_BYTES = 32;
+
+/**
+ * Key seeds are stored AES-256-GCM encrypted under ORG_SIGNING_MASTER_KEY,
+ * with the key id as additional data so a seed cannot be moved to another row
+ */
+async function masterKey(): Promise<CryptoKey> {
+  const hex = Deno.env.get('ORG_SIGNING_MASTER_KEY');
+  if (!hex || !/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error('ORG_SIGNING_MASTER_KEY must be 32 bytes of hex');
+  }
+  return crypto.subtle.importKey('raw', fromHex(hex), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+async function sealSeed(keyId: string, seed: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(keyId) },
+    await masterKey(),
+    seed
+  );
+  return base64Encode(concat(iv, new Uint8Array(ciphertext)));
+}
+
+async function openSeed(key: SigningKey): Promise<Uint8Array> {
+  const sealed = base64Decode(key.encryptedSeed);
+  const seed = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.subarray(0, 12), additionalData: new TextEncoder().encode(key.id) },
+    await masterKey(),
+    sealed.subarray(12)
+  );
+  return new Uint8Array(seed);
+}
+
+async function createSigningKey(supabase: SupabaseClient): Promise<SigningKey> {
+  const id = crypto.randomUUID();
+  const seed = crypto.getRandomValues(new Uint8Array(SEED_BYTES));
+  const { publicKey } = ml_dsa65.keygen(seed);
+  const encryptedSeed = await sealSeed(id, seed);
+
+  const { error } = await supabase
+    .from('org_signing_keys')
+    .insert({ id, algorithm: ORG_SIGNING_ALGORITHM, public_key: base64Encode(publicKey), encrypted_seed: encryptedSeed });
+  if (error) throw error;
+
+  await supabase.rpc('log_audit_event', {
+    _action: 'ORG_SIGNING_KEY_CREATED',
+    _resource: 'org_signing_keys',
+    _resource_id: id,
+    _details: { algorithm: ORG_SIGNING_ALGORITHM },
+  });
+
+  return { id, encryptedSeed };
+}
+
+/**
+ * The active signing key, created on first use. A concurrent request can win
+ * the race to create it; the unique index on the active key settles it.
+ */
+async function activeSigningKey(supabase: SupabaseClient): Promise<SigningKey> {
+  const select = () => supabase
+    .from('org_signing_keys')
+    .select('id, encrypted_seed')
+    .eq('status', 'active')
+    .maybeSingle();
+
+  const { data } = await select();
+  if (data) return { id: data.id as string, encryptedSeed: data.encrypted_seed as string };
+
+  try {
+    return await createSigningKey(supabase);
+  } catch {
+    const { data: winner, error } = await select();
+    if (error || !winner) throw error || new Error('No active organisation signing key');
+    return { id: winner.id as string, encryptedSeed: winner.encrypted_seed as string };
+  }
+}
+
+/**
+ * Sign a message for one purpose with the organisation's active key
+ */
+export async function signAsOrganization(
+  supabase: SupabaseClient,
+  purpose: SigningPurpose,
+  message: Uint8Array
+): Promise<OrgSignature> {
+  const key = await activeSigningKey(supabase);
+  const { secretKey } = ml_dsa65.keygen(await openSeed(key));
+  const signature = ml_dsa65.sign(message, secretKey, { context: new TextEncoder().encode(purpose) });
+  return { keyId: key.id, signature: base64Encode(signature) };
+}
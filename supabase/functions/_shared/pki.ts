@@ -0,0 +1,919 @@
+/**
+ * Quantum PKI internals shared by the quantum-pki and acme functions
+ *
+ * DER encoding, ML-DSA and composite signatures, the CA hierarchy in
+ * quantum_pki_roots with PKI_MASTER_KEY-encrypted signing keys, end-entity
+ * issuance, revocation and CRL publication.
+ */
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { ml_dsa44, ml_dsa65, ml_dsa87 } from 'https://esm.sh/@noble/post-quantum@0.5.2/ml-dsa.js';
+import { p256 } from 'https://esm.sh/@noble/curves@2.0.1/nist.js';
+
+// Must match src/lib/x509.ts
+export const OID = {
+  mlDsa44: '2.16.840.1.101.3.4.3.17',
+  mlDsa65: '2.16.840.1.101.3.4.3.18',
+  mlDsa87: '2.16.840.1.101.3.4.3.19',
+  mlKem768: '2.16.840.1.101.3.4.4.2',
+  mlDsa65EcdsaP256Sha512: '1.3.6.1.5.5.7.6.45',
+  commonName: '2.5.4.3',
+  subjectKeyIdentifier: '2.5.29.14',
+  keyUsage: '2.5.29.15',
+  subjectAltName: '2.5.29.17',
+  basicConstraints: '2.5.29.19',
+  cRLNumber: '2.5.29.20',
+  reasonCode: '2.5.29.21',
+  cRLDistributionPoints: '2.5.29.31',
+  authorityKeyIdentifier: '2.5.29.35',
+  authorityInfoAccess: '1.3.6.1.5.5.7.1.1',
+  ocsp: '1.3.6.1.5.5.7.48.1',
+  ocspBasic: '1.3.6.1.5.5.7.48.1.1',
+  ocspNonce: '1.3.6.1.5.5.7.48.1.2',
+  extensionRequest: '1.2.840.113549.1.9.14',
+  sha1: '1.3.14.3.2.26',
+  sha256: '2.16.840.1.101.3.4.2.1',
+};
+
+export type SignatureAlgorithm = 'ML-DSA-44' | 'ML-DSA-65' | 'ML-DSA-87' | 'MLDSA65-ECDSA-P256-SHA512';
+export type KeyAlgorithm = SignatureAlgorithm | 'ML-KEM-768';
+
+export const ALGORITHM_OIDS: Record<KeyAlgorithm, string> = {
+  'ML-DSA-44': OID.mlDsa44,
+  'ML-DSA-65': OID.mlDsa65,
+  'ML-DSA-87': OID.mlDsa87,
+  'MLDSA65-ECDSA-P256-SHA512': OID.mlDsa65EcdsaP256Sha512,
+  'ML-KEM-768': OID.mlKem768,
+};
+
+const KEY_USAGE_BITS = ['digitalSignature', 'nonRepudiation', 'keyEncipherment', 'dataEncipherment', 'keyAgreement', 'keyCertSign', 'cRLSign'];
+
+export const CERTIFICATE_KEY_USAGE: Record<string, string[]> = {
+  identity: ['digitalSignature', 'nonRepudiation'],
+  signing: ['digitalSignature', 'nonRepudiation'],
+  authentication: ['digitalSignature'],
+  encryption: ['keyEncipherment'],
+};
+
+export const REVOCATION_REASONS: Record<string, number> = {
+  unspecified: 0,
+  keyCompromise: 1,
+  cACompromise: 2,
+  affiliationChanged: 3,
+  superseded: 4,
+  cessationOfOperation: 5,
+  certificateHold: 6,
+  privilegeWithdrawn: 9,
+};
+
+const COMPOSITE_PREFIX = new TextEncoder().encode('CompositeAlgorithmSignatures2025');
+const COMPOSITE_LABEL = new TextEncoder().encode('COMPSIG-MLDSA65-ECDSA-P256-SHA512');
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const CRL_VALIDITY_MS = DAY_MS;
+export const CRL_REFRESH_MS = 12 * 60 * 60 * 1000;
+export const MAX_CERTIFICATE_DAYS = 825;
+
+export type JsonObject = Record<string, unknown>;
+
+export interface CertificateAuthority {
+  id: string;
+  name: string;
+  subject: string;
+  parentId: string | null;
+  algorithm: SignatureAlgorithm;
+  serialNumber: string;
+  pathLength: number | null;
+  certificatePem: string;
+  certificate: ParsedCertificate;
+  crlNumber: number;
+  currentCrl: string | null;
+  crlNextUpdate: string | null;
+  expiresAt: string;
+  isActive: boolean;
+  encryptedKey: string;
+}
+
+export interface RequestContext {
+  supabase: SupabaseClient;
+  /** quantum-pki function URL, where CRLs and the OCSP responder live */
+  pkiUrl: string;
+}
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+export const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+export const fromHex = (hex: string) => new Uint8Array((hex.match(/.{1,2}/g) || []).map(b => parseInt(b, 16)));
+
+export function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function base64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function base64Decode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').replace(/\s+/g, '');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+export function toPem(bytes: Uint8Array, label: string): string {
+  const lines = base64Encode(bytes).match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+export function fromPem(pem: string, label: string): Uint8Array {
+  const match = new RegExp(`-----BEGIN ${label}-----([\\s\\S]*?)-----END ${label}-----`).exec(pem);
+  if (!match) throw new HttpError(400, `Expected a PEM ${label}`);
+  return base64Decode(match[1]);
+}
+
+export async function digest(algorithm: 'SHA-1' | 'SHA-256' | 'SHA-512', data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+// ============================================================================
+// DER (the subset certificates, CRLs, CSRs and OCSP need)
+// ============================================================================
+
+export interface Asn1 {
+  tag: number;
+  der: Uint8Array;
+  content: Uint8Array;
+  children: Asn1[];
+}
+
+function encodeLength(length: number): Uint8Array {
+  if (length < 0x80) return Uint8Array.of(length);
+  const bytes: number[] = [];
+  for (let n = length; n > 0; n = Math.floor(n / 256)) {
+    bytes.unshift(n % 256);
+  }
+  return Uint8Array.of(0x80 | bytes.length, ...bytes);
+}
+
+function tlv(tag: number, content: Uint8Array): Uint8Array {
+  return concat(Uint8Array.of(tag), encodeLength(content.length), content);
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+function timeText(date: Date, fullYear: boolean): Uint8Array {
+  const year = fullYear ? String(date.getUTCFullYear()) : pad2(date.getUTCFullYear() % 100);
+  return new TextEncoder().encode(
+    `${year}${pad2(date.getUTCMonth() + 1)}${pad2(date.getUTCDate())}` +
+    `${pad2(date.getUTCHours())}${pad2(date.getUTCMinutes())}${pad2(date.getUTCSeconds())}Z`
+  );
+}
+
+export const der = {
+  sequence: (...items: Uint8Array[]) => tlv(0x30, concat(...items)),
+  set: (...items: Uint8Array[]) => tlv(0x31, concat(...items)),
+  boolean: (value: boolean) => tlv(0x01, Uint8Array.of(value ? 0xff : 0x00)),
+  null: () => Uint8Array.of(0x05, 0x00),
+  integer(value: bigint | number | string): Uint8Array {
+    let hex = typeof value === 'string' ? value.replace(/^0+(?=.)/, '') : BigInt(value).toString(16);
+    if (hex.length % 2) hex = '0' + hex;
+    let bytes = fromHex(hex);
+    if (bytes[0] & 0x80) bytes = concat(Uint8Array.of(0), bytes);
+    return tlv(0x02, bytes);
+  },
+  enumerated: (value: number) => tlv(0x0a, Uint8Array.of(value)),
+  oid(dotted: string): Uint8Array {
+    const parts = dotted.split('.').map(Number);
+    const bytes = [parts[0] * 40 + parts[1]];
+    for (const part of parts.slice(2)) {
+      const encoded = [part & 0x7f];
+      for (let n = Math.floor(part / 128); n > 0; n = Math.floor(n / 128)) {
+        encoded.unshift((n & 0x7f) | 0x80);
+      }
+      bytes.push(...encoded);
+    }
+    return tlv(0x06, Uint8Array.from(bytes));
+  },
+  bitString: (bytes: Uint8Array, unusedBits = 0) => tlv(0x03, concat(Uint8Array.of(unusedBits), bytes)),
+  octetString: (bytes: Uint8Array) => tlv(0x04, bytes),
+  utf8String: (value: string) => tlv(0x0c, new TextEncoder().encode(value)),
+  generalizedTime: (date: Date) => tlv(0x18, timeText(date, true)),
+  time: (date: Date) => date.getUTCFullYear() >= 2050 ? tlv(0x18, timeText(date, true)) : tlv(0x17, timeText(date, false)),
+  explicit: (tagNumber: number, inner: Uint8Array) => tlv(0xa0 | tagNumber, inner),
+  implicit: (tagNumber: number, content: Uint8Array, constructed = false) =>
+    tlv((constructed ? 0xa0 : 0x80) | tagNumber, content),
+};
+
+function parseAt(bytes: Uint8Array, offset: number): [Asn1, number] {
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  if (tag === undefined || length === undefined || (tag & 0x1f) === 0x1f) {
+    throw new HttpError(400, 'Malformed DER');
+  }
+
+  let headerLength = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4) throw new HttpError(400, 'Malformed DER');
+    length = 0;
+    for (let i = 0; i < count; i++) {
+      length = length * 256 + bytes[offset + 2 + i];
+    }
+    headerLength += count;
+  }
+
+  const end = offset + headerLength + length;
+  if (end > bytes.length) throw new HttpError(400, 'Malformed DER');
+
+  const content = bytes.subarray(offset + headerLength, end);
+  const children: Asn1[] = [];
+  if (tag & 0x20) {
+    let position = 0;
+    while (position < content.length) {
+      const [child, next] = parseAt(content, position);
+      children.push(child);
+      position = next;
+    }
+  }
+  return [{ tag, der: bytes.subarray(offset, end), content, children }, end];
+}
+
+export function parseDer(bytes: Uint8Array): Asn1 {
+  const [node, end] = parseAt(bytes, 0);
+  if (end !== bytes.length) throw new HttpError(400, 'Malformed DER');
+  return node;
+}
+
+export function readOid(node: Asn1): string {
+  const bytes = node.content;
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (let i = 1; i < bytes.length; i++) {
+    value = value * 128 + (bytes[i] & 0x7f);
+    if (!(bytes[i] & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+export function readSerial(node: Asn1): string {
+  const hex = node.content.length ? BigInt(`0x${toHex(node.content)}`).toString(16) : '0';
+  return hex.length % 2 ? `0${hex}` : hex;
+}
+
+export function readName(node: Asn1): string {
+  for (const rdn of node.children) {
+    for (const attribute of rdn.children) {
+      if (readOid(attribute.children[0]) === OID.commonName) {
+        return new TextDecoder().decode(attribute.children[1].content);
+      }
+    }
+  }
+  return '';
+}
+
+export function algorithmForOid(oid: string): KeyAlgorithm | null {
+  const entry = Object.entries(ALGORITHM_OIDS).find(([, value]) => value === oid);
+  return entry ? entry[0] as KeyAlgorithm : null;
+}
+
+// ============================================================================
+// Keys and signatures
+// ============================================================================
+
+function mlDsa(algorithm: SignatureAlgorithm) {
+  return algorithm === 'ML-DSA-44' ? ml_dsa44 : algorithm === 'ML-DSA-87' ? ml_dsa87 : ml_dsa65;
+}
+
+async function compositeMessage(message: Uint8Array): Promise<Uint8Array> {
+  return concat(COMPOSITE_PREFIX, COMPOSITE_LABEL, Uint8Array.of(0), await digest('SHA-512', message));
+}
+
+export function generateKeyPair(algorithm: SignatureAlgorithm): { publicKey: Uint8Array; secretKey: Uint8Array } {
+  if (algorithm === 'MLDSA65-ECDSA-P256-SHA512') {
+    const pq = ml_dsa65.keygen();
+    const { secretKey } = p256.keygen();
+    return {
+      publicKey: concat(pq.publicKey, p256.getPublicKey(secretKey, false)),
+      secretKey: concat(pq.secretKey, secretKey),
+    };
+  }
+  return mlDsa(algorithm).keygen();
+}
+
+export async function sign(algorithm: SignatureAlgorithm, secretKey: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  if (algorithm !== 'MLDSA65-ECDSA-P256-SHA512') {
+    return mlDsa(algorithm).sign(message, secretKey);
+  }
+  const split = ml_dsa65.lengths.secretKey!;
+  const representative = await compositeMessage(message);
+  return concat(
+    ml_dsa65.sign(representative, secretKey.subarray(0, split), { context: COMPOSITE_LABEL }),
+    p256.sign(representative, secretKey.subarray(split), { format: 'der' })
+  );
+}
+
+export async function verify(algorithm: SignatureAlgorithm, publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): Promise<boolean> {
+  try {
+    if (algorithm !== 'MLDSA65-ECDSA-P256-SHA512') {
+      return mlDsa(algorithm).verify(signature, message, publicKey);
+    }
+    const keySplit = ml_dsa65.lengths.publicKey!;
+    const signatureSplit = ml_dsa65.lengths.signature!;
+    const representative = await compositeMessage(message);
+    return ml_dsa65.verify(signature.subarray(0, signatureSplit), representative, publicKey.subarray(0, keySplit), { context: COMPOSITE_LABEL })
+      && p256.verify(signature.subarray(signatureSplit), representative, publicKey.subarray(keySplit), { format: 'der' });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * CA signing keys are stored AES-256-GCM encrypted under PKI_MASTER_KEY,
+ * with the CA id as additional data so a key cannot be moved to another row
+ */
+async function masterKey(): Promise<CryptoKey> {
+  const hex = Deno.env.get('PKI_MASTER_KEY');
+  if (!hex || !/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error('PKI_MASTER_KEY must be 32 bytes of hex');
+  }
+  return crypto.subtle.importKey('raw', fromHex(hex), 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+export async function encryptCaKey(caId: string, secretKey: Uint8Array): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(caId) },
+    await masterKey(),
+    secretKey
+  );
+  return base64Encode(concat(iv, new Uint8Array(ciphertext)));
+}
+
+export async function decryptCaKey(ca: CertificateAuthority): Promise<Uint8Array> {
+  const sealed = base64Decode(ca.encryptedKey);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.subarray(0, 12), additionalData: new TextEncoder().encode(ca.id) },
+    await masterKey(),
+    sealed.subarray(12)
+  );
+  return new Uint8Array(plaintext);
+}
+
+export function randomSerialNumber(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[0] &= 0x7f;
+  bytes[0] |= 0x40;
+  return toHex(bytes);
+}
+
+// ============================================================================
+// Certificates, CSRs and CRLs
+// ============================================================================
+
+export interface CertificateTemplate {
+  serialNumber: string;
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+  keyAlgorithm: KeyAlgorithm;
+  publicKey: Uint8Array;
+  keyUsage: string[];
+  isCA?: boolean;
+  pathLength?: number | null;
+  dnsNames?: string[];
+  crlDistributionPoint?: string;
+  ocspUrl?: string;
+}
+
+export interface Signer {
+  name: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: Uint8Array;
+  secretKey: Uint8Array;
+}
+
+export interface ParsedCertificate {
+  serialNumber: string;
+  subject: string;
+  subjectDer: Uint8Array;
+  publicKey: Uint8Array;
+  notAfter: Date;
+}
+
+export const algorithmIdentifier = (algorithm: KeyAlgorithm) => der.sequence(der.oid(ALGORITHM_OIDS[algorithm]));
+
+const encodeName = (commonName: string) =>
+  der.sequence(der.set(der.sequence(der.oid(OID.commonName), der.utf8String(commonName))));
+
+const uriGeneralName = (uri: string) => der.implicit(6, new TextEncoder().encode(uri));
+
+const encodeDnsNames = (names: string[]) =>
+  der.sequence(...names.map(name => der.implicit(2, new TextEncoder().encode(name))));
+
+export function extension(oid: string, critical: boolean, value: Uint8Array): Uint8Array {
+  return critical
+    ? der.sequence(der.oid(oid), der.boolean(true), der.octetString(value))
+    : der.sequence(der.oid(oid), der.octetString(value));
+}
+
+function encodeKeyUsage(usages: string[]): Uint8Array {
+  const bits = usages.map(u => KEY_USAGE_BITS.indexOf(u)).filter(b => b >= 0);
+  const highest = Math.max(...bits);
+  const bytes = new Uint8Array(Math.floor(highest / 8) + 1);
+  for (const bit of bits) {
+    bytes[Math.floor(bit / 8)] |= 0x80 >> (bit % 8);
+  }
+  return der.bitString(bytes, 7 - (highest % 8));
+}
+
+async function authorityKeyIdentifier(publicKey: Uint8Array): Promise<Uint8Array> {
+  return der.sequence(der.implicit(0, await digest('SHA-1', publicKey)));
+}
+
+export async function createCertificate(template: CertificateTemplate, signer: Signer): Promise<Uint8Array> {
+  const extensions = [
+    extension(OID.basicConstraints, true, template.isCA
+      ? der.sequence(der.boolean(true), ...(template.pathLength != null ? [der.integer(template.pathLength)] : []))
+      : der.sequence()),
+    extension(OID.keyUsage, true, encodeKeyUsage(template.keyUsage)),
+    extension(OID.subjectKeyIdentifier, false, der.octetString(await digest('SHA-1', template.publicKey))),
+    extension(OID.authorityKeyIdentifier, false, await authorityKeyIdentifier(signer.publicKey)),
+  ];
+  if (template.dnsNames?.length) {
+    extensions.push(extension(OID.subjectAltName, false, encodeDnsNames(template.dnsNames)));
+  }
+  if (template.crlDistributionPoint) {
+    extensions.push(extension(OID.cRLDistributionPoints, false, der.sequence(
+      der.sequence(der.explicit(0, der.implicit(0, uriGeneralName(template.crlDistributionPoint), true)))
+    )));
+  }
+  if (template.ocspUrl) {
+    extensions.push(extension(OID.authorityInfoAccess, false, der.sequence(
+      der.sequence(der.oid(OID.ocsp), uriGeneralName(template.ocspUrl))
+    )));
+  }
+
+  const tbs = der.sequence(
+    der.explicit(0, der.integer(2)),
+    der.integer(template.serialNumber),
+    algorithmIdentifier(signer.algorithm),
+    encodeName(signer.name),
+    der.sequence(der.time(template.notBefore), der.time(template.notAfter)),
+    encodeName(template.subject),
+    der.sequence(algorithmIdentifier(template.keyAlgorithm), der.bitString(template.publicKey)),
+    der.explicit(3, der.sequence(...extensions))
+  );
+  const signature = await sign(signer.algorithm, signer.secretKey, tbs);
+  return der.sequence(tbs, algorithmIdentifier(signer.algorithm), der.bitString(signature));
+}
+
+export function parseCertificate(bytes: Uint8Array): ParsedCertificate {
+  const fields = parseDer(bytes).children[0].children;
+  const offset = fields[0].tag === 0xa0 ? 1 : 0;
+  const [serialNode, , , validityNode, subjectNode, spkiNode] = fields.slice(offset);
+  const notAfter = new TextDecoder().decode(validityNode.children[1].content);
+  const match = /^(\d{2}|\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/.exec(notAfter)!;
+  const year = match[1].length === 4 ? Number(match[1]) : Number(match[1]) + (Number(match[1]) >= 50 ? 1900 : 2000);
+
+  return {
+    serialNumber: readSerial(serialNode),
+    subject: readName(subjectNode),
+    subjectDer: subjectNode.der,
+    publicKey: spkiNode.children[1].content.subarray(1),
+    notAfter: new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6]))),
+  };
+}
+
+export interface CertificationRequest {
+  subject: string;
+  algorithm: SignatureAlgorithm;
+  publicKey: Uint8Array;
+  dnsNames: string[];
+}
+
+/**
+ * Parse a PKCS #10 request and check its self-signature, which proves the
+ * requester holds the private key. DNS names come from the subjectAltName
+ * in its extensionRequest attribute.
+ */
+export async function parseCsr(bytes: Uint8Array): Promise<CertificationRequest> {
+  const [infoNode, signatureAlgorithmNode, signatureNode] = parseDer(bytes).children;
+  const [, subjectNode, spkiNode, attributesNode] = infoNode.children;
+  const algorithm = algorithmForOid(readOid(spkiNode.children[0].children[0]));
+  const publicKey = spkiNode.children[1].content.subarray(1);
+
+  if (!algorithm || algorithm === 'ML-KEM-768') {
+    throw new HttpError(400, 'Certification requests must carry an ML-DSA or composite key');
+  }
+  if (algorithmForOid(readOid(signatureAlgorithmNode.children[0])) !== algorithm ||
+      !await verify(algorithm, publicKey, infoNode.der, signatureNode.content.subarray(1))) {
+    throw new HttpError(400, 'Certification request signature does not verify');
+  }
+
+  const extensionRequest = attributesNode?.children.find(a => readOid(a.children[0]) === OID.extensionRequest);
+  const subjectAltName = extensionRequest?.children[1]?.children[0]?.children
+    .find(ext => readOid(ext.children[0]) === OID.subjectAltName);
+  const dnsNames = subjectAltName
+    ? parseDer(subjectAltName.children[subjectAltName.children.length - 1].content).children
+      .filter(name => name.tag === 0x82)
+      .map(name => new TextDecoder().decode(name.content))
+    : [];
+
+  return { subject: readName(subjectNode), algorithm, publicKey, dnsNames };
+}
+
+export async function signerFor(ca: CertificateAuthority): Promise<Signer> {
+  return { name: ca.subject, algorithm: ca.algorithm, publicKey: ca.certificate.publicKey, secretKey: await decryptCaKey(ca) };
+}
+
+// ============================================================================
+// Certificate authorities
+// ============================================================================
+
+export function toAuthority(row: JsonObject): CertificateAuthority {
+  const certificatePem = String(row.root_certificate);
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    subject: String(row.subject || row.name),
+    parentId: (row.parent_id as string | null) ?? null,
+    algorithm: row.algorithm as SignatureAlgorithm,
+    serialNumber: String(row.serial_number),
+    pathLength: (row.path_length as number | null) ?? null,
+    certificatePem,
+    certificate: parseCertificate(fromPem(certificatePem, 'CERTIFICATE')),
+    crlNumber: Number(row.crl_number || 0),
+    currentCrl: (row.current_crl as string | null) ?? null,
+    crlNextUpdate: (row.crl_next_update as string | null) ?? null,
+    expiresAt: String(row.expires_at),
+    isActive: Boolean(row.is_active),
+    encryptedKey: String(row.private_key_encrypted),
+  };
+}
+
+export async function listAuthorities(ctx: RequestContext): Promise<CertificateAuthority[]> {
+  const { data, error } = await ctx.supabase
+    .from('quantum_pki_roots')
+    .select('*')
+    .not('serial_number', 'is', null)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(toAuthority);
+}
+
+export async function getAuthority(ctx: RequestContext, id: string): Promise<CertificateAuthority> {
+  const { data, error } = await ctx.supabase
+    .from('quantum_pki_roots')
+    .select('*')
+    .eq('id', id)
+    .not('serial_number', 'is', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new HttpError(404, 'Certificate authority not found');
+  return toAuthority(data);
+}
+
+/**
+ * Create a root CA, or an intermediate when a parent is given. Subordinate
+ * CAs carry the parent's CRL and OCSP locations and never outlive it.
+ */
+export async function createAuthority(
+  ctx: RequestContext,
+  params: { name: string; algorithm: SignatureAlgorithm; validityDays: number; pathLength: number | null; parent?: CertificateAuthority; actorId: string | null }
+): Promise<CertificateAuthority> {
+  const id = crypto.randomUUID();
+  const keyPair = generateKeyPair(params.algorithm);
+  const notBefore = new Date();
+  let notAfter = new Date(notBefore.getTime() + params.validityDays * DAY_MS);
+  if (params.parent && notAfter > params.parent.certificate.notAfter) {
+    notAfter = params.parent.certificate.notAfter;
+  }
+
+  const serialNumber = randomSerialNumber();
+  const signer: Signer = params.parent
+    ? await signerFor(params.parent)
+    : { name: params.name, algorithm: params.algorithm, ...keyPair };
+  const certificate = await createCertificate({
+    serialNumber,
+    subject: params.name,
+    notBefore,
+    notAfter,
+    keyAlgorithm: params.algorithm,
+    publicKey: keyPair.publicKey,
+    keyUsage: ['digitalSignature', 'keyCertSign', 'cRLSign'],
+    isCA: true,
+    pathLength: params.pathLength,
+    crlDistributionPoint: params.parent ? `${ctx.pkiUrl}/ca/${params.parent.id}/crl` : undefined,
+    ocspUrl: params.parent ? `${ctx.pkiUrl}/ocsp` : undefined,
+  }, signer);
+
+  const { data, error } = await ctx.supabase
+    .from('quantum_pki_roots')
+    .insert({
+      id,
+      name: params.name,
+      subject: params.name,
+      description: params.parent ? `Issued by ${params.parent.subject}` : 'Self-signed root',
+      parent_id: params.parent?.id ?? null,
+      algorithm: params.algorithm,
+      serial_number: serialNumber,
+      path_length: params.pathLength,
+      root_certificate: toPem(certificate, 'CERTIFICATE'),
+      private_key_encrypted: await encryptCaKey(id, keyPair.secretKey),
+      created_by: params.actorId,
+      expires_at: notAfter.toISOString(),
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return toAuthority(data);
+}
+
+/**
+ * The first request creates a root and an issuing CA under it
+ */
+export async function ensureHierarchy(ctx: RequestContext): Promise<CertificateAuthority[]> {
+  const existing = await listAuthorities(ctx);
+  if (existing.length > 0) return existing;
+
+  const rootAlgorithm = (Deno.env.get('PKI_ROOT_ALGORITHM') || 'ML-DSA-87') as SignatureAlgorithm;
+  const root = await createAuthority(ctx, {
+    name: 'Quantum IAM Root CA',
+    algorithm: rootAlgorithm,
+    validityDays: 20 * 365,
+    pathLength: 1,
+    actorId: null,
+  });
+  const issuing = await createAuthority(ctx, {
+    name: 'Quantum IAM Issuing CA',
+    algorithm: 'ML-DSA-65',
+    validityDays: 10 * 365,
+    pathLength: 0,
+    parent: root,
+    actorId: null,
+  });
+  return [root, issuing];
+}
+
+export function chainOf(authorities: CertificateAuthority[], ca: CertificateAuthority): CertificateAuthority[] {
+  const chain = [ca];
+  for (let current = ca; current.parentId && chain.length < 8;) {
+    const parent = authorities.find(a => a.id === current.parentId);
+    if (!parent) break;
+    chain.push(parent);
+    current = parent;
+  }
+  return chain;
+}
+
+export function describeAuthority(ca: CertificateAuthority) {
+  return {
+    id: ca.id,
+    name: ca.name,
+    subject: ca.subject,
+    parentId: ca.parentId,
+    algorithm: ca.algorithm,
+    serialNumber: ca.serialNumber,
+    pathLength: ca.pathLength,
+    certificate: ca.certificatePem,
+    crl: ca.currentCrl,
+    crlNextUpdate: ca.crlNextUpdate,
+    expiresAt: ca.expiresAt,
+    isActive: ca.isActive,
+  };
+}
+
+// ============================================================================
+// CRLs
+// ============================================================================
+
+/**
+ * Sign a new CRL over every certificate the CA issued and revoked,
+ * including subordinate CAs that were deactivated
+ */
+export async function publishCrl(ctx: RequestContext, ca: CertificateAuthority): Promise<CertificateAuthority> {
+  const { data: revoked, error } = await ctx.supabase
+    .from('quantum_certificates')
+    .select('serial_number, revoked_at, revocation_reason')
+    .eq('ca_id', ca.id)
+    .eq('is_revoked', true);
+  if (error) throw error;
+
+  const { data: retired, error: retiredError } = await ctx.supabase
+    .from('quantum_pki_roots')
+    .select('serial_number, updated_at')
+    .eq('parent_id', ca.id)
+    .eq('is_active', false);
+  if (retiredError) throw retiredError;
+
+  const entries = [
+    ...(revoked || []).map(r => ({
+      serialNumber: r.serial_number as string,
+      revocationDate: new Date(r.revoked_at as string),
+      reason: REVOCATION_REASONS[r.revocation_reason as string] ?? 0,
+    })),
+    ...(retired || []).map(r => ({
+      serialNumber: r.serial_number as string,
+      revocationDate: new Date(r.updated_at as string),
+      reason: REVOCATION_REASONS.cessationOfOperation,
+    })),
+  ].map(entry => der.sequence(
+    der.integer(entry.serialNumber),
+    der.time(entry.revocationDate),
+    ...(entry.reason ? [der.sequence(extension(OID.reasonCode, false, der.enumerated(entry.reason)))] : [])
+  ));
+
+  const signer = await signerFor(ca);
+  const crlNumber = ca.crlNumber + 1;
+  const thisUpdate = new Date();
+  const nextUpdate = new Date(thisUpdate.getTime() + CRL_VALIDITY_MS);
+
+  const tbs = der.sequence(
+    der.integer(1),
+    algorithmIdentifier(signer.algorithm),
+    encodeName(signer.name),
+    der.time(thisUpdate),
+    der.time(nextUpdate),
+    ...(entries.length ? [der.sequence(...entries)] : []),
+    der.explicit(0, der.sequence(
+      extension(OID.authorityKeyIdentifier, false, await authorityKeyIdentifier(signer.publicKey)),
+      extension(OID.cRLNumber, false, der.integer(crlNumber))
+    ))
+  );
+  const crl = der.sequence(tbs, algorithmIdentifier(signer.algorithm), der.bitString(await sign(signer.algorithm, signer.secretKey, tbs)));
+
+  const { data: updated, error: updateError } = await ctx.supabase
+    .from('quantum_pki_roots')
+    .update({ crl_number: crlNumber, current_crl: toPem(crl, 'X509 CRL'), crl_next_update: nextUpdate.toISOString() })
+    .eq('id', ca.id)
+    .select('*')
+    .single();
+  if (updateError) throw updateError;
+
+  return toAuthority(updated);
+}
+
+/**
+ * The cached CRL, re-signed once it is past half its validity
+ */
+export async function currentCrl(ctx: RequestContext, ca: CertificateAuthority): Promise<CertificateAuthority> {
+  const fresh = ca.currentCrl && ca.crlNextUpdate &&
+    new Date(ca.crlNextUpdate).getTime() - Date.now() > CRL_VALIDITY_MS - CRL_REFRESH_MS;
+  return fresh ? ca : publishCrl(ctx, ca);
+}
+
+// ============================================================================
+// Issuance and revocation
+// ============================================================================
+
+/**
+ * The CA to issue end-entity certificates from: the requested one, or the
+ * newest active intermediate. Roots with subordinates only certify CAs.
+ */
+export function selectIssuingAuthority(authorities: CertificateAuthority[], caId?: string | null): CertificateAuthority {
+  const ca = caId
+    ? authorities.find(a => a.id === caId)
+    : [...authorities].reverse().find(a => a.parentId && a.isActive) || authorities.find(a => a.isActive);
+  if (!ca || !ca.isActive) {
+    throw new HttpError(404, 'No active certificate authority');
+  }
+  if (!ca.parentId && authorities.some(a => a.parentId === ca.id)) {
+    throw new HttpError(400, 'Root CAs only issue certificates to subordinate CAs');
+  }
+  return ca;
+}
+
+/**
+ * Sign an end-entity certificate and record it for the owning user. The
+ * caller has established possession of the key (a verified CSR) or, for
+ * ML-KEM keys, which cannot sign, that the key belongs to the user.
+ */
+export async function issueEndEntity(
+  ctx: RequestContext,
+  ca: CertificateAuthority,
+  params: {
+    userId: string;
+    certificateType: string;
+    subject: string;
+    dnsNames?: string[];
+    keyAlgorithm: KeyAlgorithm;
+    publicKey: Uint8Array;
+    validityDays: number;
+    details?: JsonObject;
+  }
+): Promise<JsonObject> {
+  const notBefore = new Date();
+  let notAfter = new Date(notBefore.getTime() + params.validityDays * DAY_MS);
+  if (notAfter > ca.certificate.notAfter) notAfter = ca.certificate.notAfter;
+
+  const serialNumber = randomSerialNumber();
+  const certificate = await createCertificate({
+    serialNumber,
+    subject: params.subject,
+    notBefore,
+    notAfter,
+    keyAlgorithm: params.keyAlgorithm,
+    publicKey: params.publicKey,
+    keyUsage: CERTIFICATE_KEY_USAGE[params.certificateType],
+    dnsNames: params.dnsNames,
+    crlDistributionPoint: `${ctx.pkiUrl}/ca/${ca.id}/crl`,
+    ocspUrl: `${ctx.pkiUrl}/ocsp`,
+  }, await signerFor(ca));
+
+  const { data: row, error } = await ctx.supabase
+    .from('quantum_certificates')
+    .insert({
+      user_id: params.userId,
+      ca_id: ca.id,
+      certificate_type: params.certificateType,
+      certificate_data: toPem(certificate, 'CERTIFICATE'),
+      public_key: toHex(params.publicKey),
+      serial_number: serialNumber,
+      issuer: ca.subject,
+      subject: params.subject,
+      key_algorithm: params.keyAlgorithm,
+      signature_algorithm: ca.algorithm,
+      valid_from: notBefore.toISOString(),
+      valid_until: notAfter.toISOString(),
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'CERTIFICATE_ISSUED',
+    _resource: 'quantum_certificates',
+    _resource_id: row.id,
+    _details: {
+      serial_number: serialNumber,
+      ca_id: ca.id,
+      subject: params.subject,
+      certificate_type: params.certificateType,
+      user_id: params.userId,
+      ...params.details,
+    },
+  });
+
+  return row;
+}
+
+/**
+ * Mark an issued certificate revoked and re-sign its CA's CRL. Without an
+ * owner the caller has already authorized the revocation.
+ */
+export async function revokeIssuedCertificate(
+  ctx: RequestContext,
+  params: { id: string; reason: string; ownerId?: string; revokedBy: string }
+): Promise<{ id: string; serialNumber: string; reason: string }> {
+  if (!(params.reason in REVOCATION_REASONS)) {
+    throw new HttpError(400, `reason must be one of ${Object.keys(REVOCATION_REASONS).join(', ')}`);
+  }
+
+  let query = ctx.supabase
+    .from('quantum_certificates')
+    .update({ is_revoked: true, revocation_reason: params.reason, revoked_at: new Date().toISOString() })
+    .eq('id', params.id)
+    .eq('is_revoked', false);
+  if (params.ownerId) {
+    query = query.eq('user_id', params.ownerId);
+  }
+
+  const { data: revoked, error } = await query.select('id, ca_id, serial_number').maybeSingle();
+  if (error) throw error;
+  if (!revoked) {
+    throw new HttpError(404, 'Certificate not found or already revoked');
+  }
+
+  if (revoked.ca_id) {
+    await publishCrl(ctx, await getAuthority(ctx, revoked.ca_id));
+  }
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'CERTIFICATE_REVOKED',
+    _resource: 'quantum_certificates',
+    _resource_id: revoked.id,
+    _details: { serial_number: revoked.serial_number, ca_id: revoked.ca_id, reason: params.reason, revoked_by: params.revokedBy },
+  });
+
+  return { id: revoked.id, serialNumber: revoked.serial_number, reason: params.reason };
+}
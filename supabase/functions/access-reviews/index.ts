@@ -0,0 +1,230 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { toHex } from '../_shared/pki.ts';
+import { signAsOrganization } from '../_shared/org-signing.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+// Must match src/lib/access-certification.ts
+const SOC2_ACCESS_REVIEW_CONTROLS = ['CC6.2', 'CC6.3'];
+const ITEM_PAGE_SIZE = 1000;
+
+type JsonObject = Record<string, unknown>;
+
+interface ReviewItemRow {
+  id: string;
+  user_id: string;
+  reviewer_id: string;
+  access_type: string;
+  access_label: string;
+  decision: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  revocation_status: string | null;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * JSON with recursively sorted keys, as canonicalJson in
+ * src/lib/access-certification.ts. The result is stored as jsonb, which does
+ * not preserve key order, so it is signed in this form.
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as JsonObject)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ============================================================================
+// Campaign completion
+// ============================================================================
+
+async function loadItems(supabase: SupabaseClient, campaignId: string): Promise<ReviewItemRow[]> {
+  const items: ReviewItemRow[] = [];
+  for (let from = 0; ; from += ITEM_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('access_review_items')
+      .select('id, user_id, reviewer_id, access_type, access_label, decision, decided_by, decided_at, revocation_status')
+      .eq('campaign_id', campaignId)
+      .order('user_id')
+      .order('id')
+      .range(from, from + ITEM_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    items.push(...(data || []) as ReviewItemRow[]);
+    if (!data || data.length < ITEM_PAGE_SIZE) return items;
+  }
+}
+
+/**
+ * Close a campaign once every item is decided. The result is built here from
+ * the recorded decisions and signed with the organisation key, so neither
+ * its content nor its signature comes from the client.
+ */
+async function completeCampaign(supabase: SupabaseClient, actorId: string, campaignId: string) {
+  const { data: campaign, error } = await supabase
+    .from('access_review_campaigns')
+    .select('*')
+    .eq('id', campaignId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!campaign) {
+    throw new HttpError(404, 'Access review campaign not found');
+  }
+  if (campaign.status !== 'active') {
+    throw new HttpError(409, 'Only active campaigns can be completed');
+  }
+
+  const items = await loadItems(supabase, campaignId);
+  const pending = items.filter(i => i.decision === 'pending').length;
+  if (pending > 0) {
+    throw new HttpError(409, `${pending} review items are still pending`);
+  }
+
+  const completedAt = new Date().toISOString();
+  const result = {
+    campaignId,
+    name: campaign.name,
+    periodStart: campaign.period_start,
+    periodEnd: campaign.period_end,
+    completedAt,
+    completedBy: actorId,
+    soc2Controls: SOC2_ACCESS_REVIEW_CONTROLS,
+    totals: {
+      items: items.length,
+      approved: items.filter(i => i.decision === 'approved').length,
+      revoked: items.filter(i => i.decision === 'revoked').length,
+      revocationsExecuted: items.filter(i => i.revocation_status === 'executed').length,
+      revocationsFailed: items.filter(i => i.decision === 'revoked' && i.revocation_status !== 'executed').length,
+      reviewers: new Set(items.map(i => i.reviewer_id)).size,
+      usersReviewed: new Set(items.map(i => i.user_id)).size,
+    },
+    items: items.map(i => ({
+      id: i.id,
+      userId: i.user_id,
+      reviewerId: i.reviewer_id,
+      accessType: i.access_type,
+      label: i.access_label,
+      decision: i.decision,
+      decidedBy: i.decided_by,
+      decidedAt: i.decided_at,
+      revocationStatus: i.revocation_status,
+    })),
+  };
+
+  const resultBytes = new TextEncoder().encode(canonicalJson(result));
+  const { keyId, signature } = await signAsOrganization(supabase, 'access-review-result', resultBytes);
+  const resultHash = toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', resultBytes)));
+
+  // Only the row still active is closed, so a concurrent completion cannot overwrite this one
+  const { data: completed, error: updateError } = await supabase
+    .from('access_review_campaigns')
+    .update({
+      status: 'completed',
+      completed_at: completedAt,
+      completed_by: actorId,
+      result,
+      result_hash: resultHash,
+      result_signature: signature,
+      signing_key_id: keyId,
+    })
+    .eq('id', campaignId)
+    .eq('status', 'active')
+    .select()
+    .maybeSingle();
+  if (updateError) throw updateError;
+  if (!completed) {
+    throw new HttpError(409, 'Campaign was closed by another request');
+  }
+
+  await supabase.rpc('log_audit_event', {
+    _action: 'ACCESS_REVIEW_CAMPAIGN_SIGNED',
+    _resource: 'access_review_campaigns',
+    _resource_id: campaignId,
+    _details: { result_hash: resultHash, signing_key_id: keyId, completed_by: actorId, totals: result.totals },
+  });
+
+  return completed;
+}
+
+// ============================================================================
+// Request handling
+// ============================================================================
+
+async function requireAdmin(req: Request, supabase: SupabaseClient): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  if (!isAdmin) {
+    throw new HttpError(403, 'Only administrators can complete access review campaigns');
+  }
+  return user.id;
+}
+
+/**
+ * Access reviews: closes certification campaigns with a signed result
+ *
+ * Administrators:
+ *   POST /campaigns/:id/complete   build the campaign result from its decided items, sign it
+ *                                  with the organisation key and mark the campaign completed
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('access-reviews') + 1).map(decodeURIComponent);
+    const userId = await requireAdmin(req, supabase);
+
+    if (req.method === 'POST' && route[0] === 'campaigns' && route[1] && route[2] === 'complete') {
+      return jsonResponse(await completeCampaign(supabase, userId, route[1]));
+    }
+
+    return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    console.error('Access review error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
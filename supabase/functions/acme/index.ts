@@ -0,0 +1,1401 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { p256 } from 'https://esm.sh/@noble/curves@2.0.1/nist.js';
+import {
+  DAY_MS,
+  HttpError,
+  JsonObject,
+  MAX_CERTIFICATE_DAYS,
+  REVOCATION_REASONS,
+  RequestContext,
+  SignatureAlgorithm,
+  base64Decode,
+  base64Encode,
+  chainOf,
+  concat,
+  digest,
+  ensureHierarchy,
+  fromPem,
+  getAuthority,
+  issueEndEntity,
+  parseCertificate,
+  parseCsr,
+  revokeIssuedCertificate,
+  selectIssuingAuthority,
+  toHex,
+  verify,
+} from '../_shared/pki.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Location, Replay-Nonce, Link, Retry-After',
+};
+
+const NONCE_VALIDITY_MS = 60 * 60 * 1000;
+const ORDER_VALIDITY_MS = 7 * DAY_MS;
+const CHALLENGE_TIMEOUT_MS = 10 * 1000;
+const RENEWAL_RETRY_AFTER_SECONDS = 6 * 60 * 60;
+const DEFAULT_ROTATION_INTERVAL_DAYS = 90;
+const MAX_IDENTIFIERS = 20;
+
+const ACCOUNT_KEY_ALGORITHMS = ['ES256', 'ML-DSA-44', 'ML-DSA-65', 'ML-DSA-87'];
+
+// RFC 1035 host names of at least two labels, optionally as a wildcard
+const DNS_NAME = /^(\*\.)?(?!-)[a-z0-9-]{1,63}(?<!-)(\.(?!-)[a-z0-9-]{1,63}(?<!-))+$/;
+
+interface AcmeContext extends RequestContext {
+  /** acme function URL; every JWS must be signed for a URL under it */
+  baseUrl: string;
+}
+
+interface Jwk {
+  kty: string;
+  crv?: string;
+  x?: string;
+  y?: string;
+  alg?: string;
+  pub?: string;
+}
+
+interface AcmeAccount {
+  id: string;
+  externalAccountId: string;
+  jwk: Jwk;
+  thumbprint: string;
+  contact: string[];
+  status: string;
+}
+
+interface SignedRequest {
+  url: string;
+  /** null for POST-as-GET */
+  payload: JsonObject | null;
+  jwk: Jwk;
+  account: AcmeAccount | null;
+}
+
+interface Identifier {
+  type: 'dns';
+  value: string;
+}
+
+/**
+ * RFC 8555 problem document; the type is the suffix after
+ * urn:ietf:params:acme:error:
+ */
+class AcmeError extends HttpError {
+  constructor(status: number, public type: string, message: string) {
+    super(status, message);
+  }
+}
+
+// ============================================================================
+// Responses and nonces
+// ============================================================================
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const decodeJson = (value: string) => JSON.parse(new TextDecoder().decode(base64Decode(value)));
+
+async function newNonce(ctx: AcmeContext): Promise<string> {
+  const nonce = base64UrlEncode(crypto.getRandomValues(new Uint8Array(16)));
+  const { error } = await ctx.supabase
+    .from('acme_nonces')
+    .insert({ nonce, expires_at: new Date(Date.now() + NONCE_VALIDITY_MS).toISOString() });
+  if (error) throw error;
+  return nonce;
+}
+
+async function consumeNonce(ctx: AcmeContext, nonce: unknown): Promise<void> {
+  if (typeof nonce !== 'string' || !nonce) {
+    throw new AcmeError(400, 'badNonce', 'The JWS has no nonce');
+  }
+  const { data, error } = await ctx.supabase
+    .from('acme_nonces')
+    .delete()
+    .eq('nonce', nonce)
+    .gt('expires_at', new Date().toISOString())
+    .select('nonce')
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new AcmeError(400, 'badNonce', 'The nonce is unknown, expired or already used');
+  }
+}
+
+async function acmeResponse(
+  ctx: AcmeContext,
+  body: unknown,
+  options: { status?: number; location?: string; contentType?: string; headers?: Record<string, string> } = {}
+): Promise<Response> {
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': options.contentType || 'application/json',
+    'Cache-Control': 'no-store',
+    'Replay-Nonce': await newNonce(ctx),
+    'Link': `<${ctx.baseUrl}/directory>;rel="index"`,
+    ...options.headers,
+  };
+  if (options.location) {
+    headers['Location'] = options.location;
+  }
+  const text = body === null ? null : typeof body === 'string' ? body : JSON.stringify(body);
+  return new Response(text, { status: options.status || 200, headers });
+}
+
+async function problemResponse(ctx: AcmeContext, type: string, detail: string, status: number): Promise<Response> {
+  const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/problem+json' };
+  try {
+    // Clients retry a badNonce with the nonce from the error response
+    headers['Replay-Nonce'] = await newNonce(ctx);
+  } catch (error) {
+    console.error('Error issuing ACME nonce:', error);
+  }
+  return new Response(JSON.stringify({ type: `urn:ietf:params:acme:error:${type}`, detail, status }), { status, headers });
+}
+
+// ============================================================================
+// Account keys and JWS (RFC 7515, RFC 7638)
+// ============================================================================
+
+/**
+ * ES256 keys are EC P-256 JWKs; ML-DSA keys use the AKP key type of
+ * draft-ietf-cose-dilithium with the raw public key in "pub"
+ */
+function accountPublicKey(jwk: Jwk, algorithm: string): Uint8Array {
+  if (algorithm === 'ES256') {
+    if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.x || !jwk.y) {
+      throw new AcmeError(400, 'badPublicKey', 'ES256 requires an EC P-256 JWK');
+    }
+    return concat(Uint8Array.of(0x04), base64Decode(jwk.x), base64Decode(jwk.y));
+  }
+  if (jwk.kty !== 'AKP' || jwk.alg !== algorithm || !jwk.pub) {
+    throw new AcmeError(400, 'badPublicKey', `${algorithm} requires an AKP JWK with a matching alg`);
+  }
+  return base64Decode(jwk.pub);
+}
+
+function publicJwk(jwk: Jwk): Jwk {
+  return jwk.kty === 'EC'
+    ? { kty: 'EC', crv: jwk.crv, x: jwk.x, y: jwk.y }
+    : { kty: 'AKP', alg: jwk.alg, pub: jwk.pub };
+}
+
+async function thumbprint(jwk: Jwk): Promise<string> {
+  // Required members in lexicographic order
+  const canonical = jwk.kty === 'EC'
+    ? JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y })
+    : JSON.stringify({ alg: jwk.alg, kty: jwk.kty, pub: jwk.pub });
+  return base64UrlEncode(await digest('SHA-256', new TextEncoder().encode(canonical)));
+}
+
+async function verifyJwsSignature(jws: JsonObject, jwk: Jwk, algorithm: string): Promise<boolean> {
+  const publicKey = accountPublicKey(jwk, algorithm);
+  const signingInput = new TextEncoder().encode(`${jws.protected}.${jws.payload}`);
+  const signature = base64Decode(String(jws.signature));
+  if (algorithm !== 'ES256') {
+    return verify(algorithm as SignatureAlgorithm, publicKey, signingInput, signature);
+  }
+  try {
+    return p256.verify(signature, signingInput, publicKey, { lowS: false });
+  } catch {
+    return false;
+  }
+}
+
+function parseJws(value: unknown): { jws: JsonObject; header: JsonObject } {
+  const jws = value as JsonObject;
+  if (!jws || typeof jws.protected !== 'string' || typeof jws.payload !== 'string' || typeof jws.signature !== 'string') {
+    throw new AcmeError(400, 'malformed', 'Expected a flattened JWS');
+  }
+  try {
+    return { jws, header: decodeJson(jws.protected) as JsonObject };
+  } catch {
+    throw new AcmeError(400, 'malformed', 'The JWS protected header is not valid JSON');
+  }
+}
+
+function toAccount(row: JsonObject): AcmeAccount {
+  return {
+    id: String(row.id),
+    externalAccountId: String(row.external_account_id),
+    jwk: row.jwk as Jwk,
+    thumbprint: String(row.jwk_thumbprint),
+    contact: (row.contact as string[]) || [],
+    status: String(row.status),
+  };
+}
+
+/**
+ * Verify an ACME request: a JWS over the exact request URL, with a fresh
+ * nonce, signed either by the embedded jwk (new-account) or by the key of
+ * the account named in kid
+ */
+async function readSignedRequest(ctx: AcmeContext, req: Request, url: string, keyBy: 'jwk' | 'kid'): Promise<SignedRequest> {
+  if (!req.headers.get('Content-Type')?.startsWith('application/jose+json')) {
+    throw new AcmeError(415, 'malformed', 'Requests must be application/jose+json');
+  }
+  const { jws, header } = parseJws(await req.json());
+
+  await consumeNonce(ctx, header.nonce);
+
+  const algorithm = String(header.alg || '');
+  if (!ACCOUNT_KEY_ALGORITHMS.includes(algorithm)) {
+    throw new AcmeError(400, 'badSignatureAlgorithm', `alg must be one of ${ACCOUNT_KEY_ALGORITHMS.join(', ')}`);
+  }
+  if (header.url !== url) {
+    throw new AcmeError(401, 'unauthorized', 'The JWS url does not match the request URL');
+  }
+
+  let jwk: Jwk;
+  let account: AcmeAccount | null = null;
+  if (keyBy === 'jwk') {
+    if (!header.jwk || header.kid) {
+      throw new AcmeError(400, 'malformed', 'This request must be signed with a jwk, not a kid');
+    }
+    jwk = header.jwk as Jwk;
+  } else {
+    const kid = String(header.kid || '');
+    if (!kid || header.jwk) {
+      throw new AcmeError(400, 'malformed', 'This request must be signed with the account kid');
+    }
+    const accountId = kid.startsWith(`${ctx.baseUrl}/acct/`) ? kid.slice(`${ctx.baseUrl}/acct/`.length) : '';
+    const { data, error } = await ctx.supabase
+      .from('acme_accounts')
+      .select('*')
+      .eq('id', accountId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      throw new AcmeError(400, 'accountDoesNotExist', 'No account for this kid');
+    }
+    account = toAccount(data);
+    if (account.status !== 'valid') {
+      throw new AcmeError(401, 'unauthorized', `The account is ${account.status}`);
+    }
+    jwk = account.jwk;
+  }
+
+  if (!await verifyJwsSignature(jws, jwk, algorithm)) {
+    throw new AcmeError(400, 'malformed', 'The JWS signature does not verify');
+  }
+
+  let payload: JsonObject | null = null;
+  if (jws.payload !== '') {
+    try {
+      payload = decodeJson(String(jws.payload)) as JsonObject;
+    } catch {
+      throw new AcmeError(400, 'malformed', 'The JWS payload is not valid JSON');
+    }
+  }
+
+  return { url, payload, jwk, account };
+}
+
+// ============================================================================
+// Accounts
+// ============================================================================
+
+function describeAccount(ctx: AcmeContext, account: AcmeAccount) {
+  return {
+    status: account.status,
+    contact: account.contact,
+    orders: `${ctx.baseUrl}/acct/${account.id}/orders`,
+  };
+}
+
+function validateContact(value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(c => typeof c !== 'string')) {
+    throw new AcmeError(400, 'invalidContact', 'contact must be an array of URLs');
+  }
+  for (const contact of value as string[]) {
+    if (!contact.startsWith('mailto:')) {
+      throw new AcmeError(400, 'unsupportedContact', 'Only mailto: contacts are supported');
+    }
+    if (!/^mailto:[^@,\s]+@[^@,\s]+$/.test(contact)) {
+      throw new AcmeError(400, 'invalidContact', `${contact} is not a single email address`);
+    }
+  }
+  return value as string[];
+}
+
+/**
+ * Check the externalAccountBinding of a new-account request: an HS256 JWS
+ * over the account key by the administrator-issued key id and HMAC key
+ * (RFC 8555 section 7.3.4)
+ */
+async function verifyExternalAccountBinding(ctx: AcmeContext, binding: unknown, jwk: Jwk, url: string): Promise<JsonObject> {
+  if (!binding) {
+    throw new AcmeError(400, 'externalAccountRequired', 'New accounts need an externalAccountBinding');
+  }
+  const { jws, header } = parseJws(binding);
+  if (header.alg !== 'HS256' || header.url !== url || header.nonce !== undefined) {
+    throw new AcmeError(400, 'malformed', 'The externalAccountBinding must be an HS256 JWS for this URL without a nonce');
+  }
+
+  let boundKey: Jwk;
+  try {
+    boundKey = decodeJson(String(jws.payload)) as Jwk;
+  } catch {
+    throw new AcmeError(400, 'malformed', 'The externalAccountBinding payload is not a JWK');
+  }
+  if (await thumbprint(boundKey) !== await thumbprint(jwk)) {
+    throw new AcmeError(400, 'malformed', 'The externalAccountBinding is for a different account key');
+  }
+
+  const { data: external, error } = await ctx.supabase
+    .from('acme_external_accounts')
+    .select('*')
+    .eq('key_id', String(header.kid || ''))
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!external) {
+    throw new AcmeError(401, 'unauthorized', 'Unknown or revoked external account key id');
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base64Decode(external.hmac_key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    base64Decode(String(jws.signature)),
+    new TextEncoder().encode(`${jws.protected}.${jws.payload}`)
+  );
+  if (!valid) {
+    throw new AcmeError(401, 'unauthorized', 'The externalAccountBinding signature does not verify');
+  }
+
+  const { data: bound } = await ctx.supabase
+    .from('acme_accounts')
+    .select('id')
+    .eq('external_account_id', external.id)
+    .maybeSingle();
+  if (bound) {
+    throw new AcmeError(401, 'unauthorized', 'This external account is already bound to an ACME account');
+  }
+
+  return external;
+}
+
+async function newAccount(ctx: AcmeContext, request: SignedRequest): Promise<Response> {
+  const payload = request.payload || {};
+  const jwk = publicJwk(request.jwk);
+  const jwkThumbprint = await thumbprint(jwk);
+
+  const { data: existing, error } = await ctx.supabase
+    .from('acme_accounts')
+    .select('*')
+    .eq('jwk_thumbprint', jwkThumbprint)
+    .maybeSingle();
+  if (error) throw error;
+  if (existing) {
+    const account = toAccount(existing);
+    return acmeResponse(ctx, describeAccount(ctx, account), { location: `${ctx.baseUrl}/acct/${account.id}` });
+  }
+  if (payload.onlyReturnExisting) {
+    throw new AcmeError(400, 'accountDoesNotExist', 'No account exists for this key');
+  }
+
+  const contact = validateContact(payload.contact);
+  const external = await verifyExternalAccountBinding(ctx, payload.externalAccountBinding, jwk, request.url);
+
+  const { data: row, error: insertError } = await ctx.supabase
+    .from('acme_accounts')
+    .insert({ external_account_id: external.id, jwk, jwk_thumbprint: jwkThumbprint, contact })
+    .select('*')
+    .single();
+  if (insertError) throw insertError;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'ACME_ACCOUNT_CREATED',
+    _resource: 'acme_accounts',
+    _resource_id: row.id,
+    _details: { external_account_id: external.id, name: external.name, jwk_thumbprint: jwkThumbprint },
+  });
+
+  const account = toAccount(row);
+  return acmeResponse(ctx, describeAccount(ctx, account), { status: 201, location: `${ctx.baseUrl}/acct/${account.id}` });
+}
+
+async function updateAccount(ctx: AcmeContext, account: AcmeAccount, payload: JsonObject | null): Promise<AcmeAccount> {
+  if (!payload) return account;
+
+  const patch: JsonObject = {};
+  if (payload.contact !== undefined) {
+    patch.contact = validateContact(payload.contact);
+  }
+  if (payload.status !== undefined) {
+    if (payload.status !== 'deactivated') {
+      throw new AcmeError(400, 'malformed', 'Accounts can only be deactivated');
+    }
+    patch.status = 'deactivated';
+  }
+  if (Object.keys(patch).length === 0) return account;
+
+  const { data, error } = await ctx.supabase
+    .from('acme_accounts')
+    .update(patch)
+    .eq('id', account.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+  return toAccount(data);
+}
+
+/**
+ * Account key rollover: the payload is a JWS by the new key over the
+ * account URL and the old key (RFC 8555 section 7.3.5)
+ */
+async function changeKey(ctx: AcmeContext, request: SignedRequest): Promise<Response> {
+  const account = request.account!;
+  const { jws, header } = parseJws(request.payload);
+  const algorithm = String(header.alg || '');
+  if (!ACCOUNT_KEY_ALGORITHMS.includes(algorithm)) {
+    throw new AcmeError(400, 'badSignatureAlgorithm', `alg must be one of ${ACCOUNT_KEY_ALGORITHMS.join(', ')}`);
+  }
+  if (!header.jwk || header.url !== request.url) {
+    throw new AcmeError(400, 'malformed', 'The inner JWS must carry the new jwk and the same url');
+  }
+  const newKey = publicJwk(header.jwk as Jwk);
+  if (!await verifyJwsSignature(jws, newKey, algorithm)) {
+    throw new AcmeError(400, 'malformed', 'The inner JWS signature does not verify');
+  }
+
+  const inner = decodeJson(String(jws.payload)) as JsonObject;
+  if (inner.account !== `${ctx.baseUrl}/acct/${account.id}` || await thumbprint(inner.oldKey as Jwk) !== account.thumbprint) {
+    throw new AcmeError(400, 'malformed', 'The inner JWS names a different account or old key');
+  }
+
+  const newThumbprint = await thumbprint(newKey);
+  const { data: conflict } = await ctx.supabase
+    .from('acme_accounts')
+    .select('id')
+    .eq('jwk_thumbprint', newThumbprint)
+    .maybeSingle();
+  if (conflict) {
+    return problemResponse(ctx, 'conflict', 'The new key already belongs to an account', 409);
+  }
+
+  const { data, error } = await ctx.supabase
+    .from('acme_accounts')
+    .update({ jwk: newKey, jwk_thumbprint: newThumbprint })
+    .eq('id', account.id)
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'ACME_ACCOUNT_KEY_CHANGED',
+    _resource: 'acme_accounts',
+    _resource_id: account.id,
+    _details: { old_thumbprint: account.thumbprint, new_thumbprint: newThumbprint },
+  });
+
+  return acmeResponse(ctx, describeAccount(ctx, toAccount(data)));
+}
+
+// ============================================================================
+// Orders and authorizations
+// ============================================================================
+
+function domainAllowed(domain: string, allowedDomains: string[]): boolean {
+  const name = domain.replace(/^\*\./, '');
+  return allowedDomains.some(allowed => name === allowed || name.endsWith(`.${allowed}`));
+}
+
+function validateIdentifiers(value: unknown, allowedDomains: string[]): Identifier[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new AcmeError(400, 'malformed', 'identifiers must be a non-empty array');
+  }
+  if (value.length > MAX_IDENTIFIERS) {
+    throw new AcmeError(400, 'rejectedIdentifier', `Orders are limited to ${MAX_IDENTIFIERS} identifiers`);
+  }
+
+  const names = new Set<string>();
+  for (const identifier of value as JsonObject[]) {
+    if (identifier?.type !== 'dns') {
+      throw new AcmeError(400, 'unsupportedIdentifier', 'Only dns identifiers are supported');
+    }
+    const name = String(identifier.value || '').toLowerCase();
+    if (!DNS_NAME.test(name)) {
+      throw new AcmeError(400, 'rejectedIdentifier', `${identifier.value} is not a valid DNS name`);
+    }
+    if (!domainAllowed(name, allowedDomains)) {
+      throw new AcmeError(400, 'rejectedIdentifier', `${name} is outside the domains this account may request`);
+    }
+    names.add(name);
+  }
+  return [...names].map(name => ({ type: 'dns', value: name }));
+}
+
+async function loadExternalAccount(ctx: AcmeContext, account: AcmeAccount): Promise<JsonObject> {
+  const { data, error } = await ctx.supabase
+    .from('acme_external_accounts')
+    .select('*')
+    .eq('id', account.externalAccountId)
+    .single();
+  if (error) throw error;
+  if (data.revoked_at) {
+    throw new AcmeError(401, 'unauthorized', 'The external account binding was revoked');
+  }
+  return data;
+}
+
+/**
+ * Look up a certificate by its ARI identifier: the base64url authority key
+ * identifier and serial number, joined by a dot (RFC 9773)
+ */
+async function findByRenewalId(ctx: AcmeContext, certId: string): Promise<JsonObject | null> {
+  const [keyIdPart, serialPart] = certId.split('.');
+  if (!keyIdPart || !serialPart) {
+    throw new AcmeError(400, 'malformed', 'Expected a certificate identifier of the form keyIdentifier.serialNumber');
+  }
+  const serialBytes = base64Decode(serialPart);
+  const hex = serialBytes.length ? BigInt(`0x${toHex(serialBytes)}`).toString(16) : '0';
+  const serialNumber = hex.length % 2 ? `0${hex}` : hex;
+
+  const { data: certificate, error } = await ctx.supabase
+    .from('quantum_certificates')
+    .select('*')
+    .eq('serial_number', serialNumber)
+    .not('ca_id', 'is', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!certificate) return null;
+
+  const ca = await getAuthority(ctx, certificate.ca_id);
+  const keyId = toHex(await digest('SHA-1', ca.certificate.publicKey));
+  return keyId === toHex(base64Decode(keyIdPart)) ? certificate : null;
+}
+
+async function newOrder(ctx: AcmeContext, request: SignedRequest): Promise<Response> {
+  const account = request.account!;
+  const payload = request.payload || {};
+  if (payload.notBefore !== undefined || payload.notAfter !== undefined) {
+    throw new AcmeError(400, 'malformed', 'notBefore and notAfter are not supported; lifetimes follow the key policy');
+  }
+
+  const external = await loadExternalAccount(ctx, account);
+  const identifiers = validateIdentifiers(payload.identifiers, external.allowed_domains as string[]);
+
+  let replaces: string | null = null;
+  if (payload.replaces !== undefined) {
+    replaces = String(payload.replaces);
+    const replaced = await findByRenewalId(ctx, replaces);
+    const { data: issuedBy } = replaced
+      ? await ctx.supabase
+        .from('acme_orders')
+        .select('id')
+        .eq('certificate_id', replaced.id)
+        .eq('account_id', account.id)
+        .maybeSingle()
+      : { data: null };
+    if (!issuedBy) {
+      throw new AcmeError(400, 'malformed', 'replaces does not name a certificate issued to this account');
+    }
+    const { data: renewals } = await ctx.supabase
+      .from('acme_orders')
+      .select('id, status')
+      .eq('replaces', replaces);
+    if ((renewals || []).some(r => r.status !== 'invalid')) {
+      throw new AcmeError(409, 'alreadyReplaced', 'Another order already replaces this certificate');
+    }
+  }
+
+  const expiresAt = new Date(Date.now() + ORDER_VALIDITY_MS).toISOString();
+  const { data: order, error } = await ctx.supabase
+    .from('acme_orders')
+    .insert({ account_id: account.id, identifiers, expires_at: expiresAt, replaces })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  for (const identifier of identifiers) {
+    const wildcard = identifier.value.startsWith('*.');
+    const { data: authorization, error: authorizationError } = await ctx.supabase
+      .from('acme_authorizations')
+      .insert({
+        order_id: order.id,
+        account_id: account.id,
+        identifier: identifier.value.replace(/^\*\./, ''),
+        wildcard,
+        expires_at: expiresAt,
+      })
+      .select('id')
+      .single();
+    if (authorizationError) throw authorizationError;
+
+    // Wildcards can only be proven in DNS
+    for (const type of wildcard ? ['dns-01'] : ['http-01', 'dns-01']) {
+      const { error: challengeError } = await ctx.supabase
+        .from('acme_challenges')
+        .insert({
+          authorization_id: authorization.id,
+          type,
+          token: base64UrlEncode(crypto.getRandomValues(new Uint8Array(32))),
+        });
+      if (challengeError) throw challengeError;
+    }
+  }
+
+  return acmeResponse(ctx, await describeOrder(ctx, order), { status: 201, location: `${ctx.baseUrl}/order/${order.id}` });
+}
+
+/**
+ * Load an order of the account and bring its status and that of its
+ * authorizations up to date: expired ones lapse, a failed authorization
+ * fails the order, and an order whose names are all proven is ready
+ */
+async function loadOrder(ctx: AcmeContext, account: AcmeAccount, orderId: string): Promise<JsonObject> {
+  const { data: order, error } = await ctx.supabase
+    .from('acme_orders')
+    .select('*')
+    .eq('id', orderId)
+    .eq('account_id', account.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!order) {
+    throw new AcmeError(404, 'malformed', 'Order not found');
+  }
+  if (order.status !== 'pending') return order;
+
+  const authorizations = await loadAuthorizations(ctx, order.id);
+  let status = 'pending';
+  let problem: JsonObject | null = null;
+  if (new Date(order.expires_at) < new Date()) {
+    status = 'invalid';
+    problem = { type: 'urn:ietf:params:acme:error:malformed', detail: 'The order expired' };
+  } else if (authorizations.some(a => a.status !== 'pending' && a.status !== 'valid')) {
+    status = 'invalid';
+    problem = { type: 'urn:ietf:params:acme:error:unauthorized', detail: 'An authorization of this order failed' };
+  } else if (authorizations.every(a => a.status === 'valid')) {
+    status = 'ready';
+  }
+  if (status === order.status) return order;
+
+  const { data: updated, error: updateError } = await ctx.supabase
+    .from('acme_orders')
+    .update({ status, error: problem })
+    .eq('id', order.id)
+    .select('*')
+    .single();
+  if (updateError) throw updateError;
+  return updated;
+}
+
+async function loadAuthorizations(ctx: AcmeContext, orderId: string): Promise<JsonObject[]> {
+  const { data, error } = await ctx.supabase
+    .from('acme_authorizations')
+    .select('*')
+    .eq('order_id', orderId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  const now = new Date();
+  const authorizations = data || [];
+  for (const authorization of authorizations) {
+    if ((authorization.status === 'pending' || authorization.status === 'valid') && new Date(authorization.expires_at) < now) {
+      await ctx.supabase.from('acme_authorizations').update({ status: 'expired' }).eq('id', authorization.id);
+      authorization.status = 'expired';
+    }
+  }
+  return authorizations;
+}
+
+async function describeOrder(ctx: AcmeContext, order: JsonObject) {
+  const authorizations = await loadAuthorizations(ctx, String(order.id));
+  return {
+    status: order.status,
+    expires: order.expires_at,
+    identifiers: order.identifiers,
+    authorizations: authorizations.map(a => `${ctx.baseUrl}/authz/${a.id}`),
+    finalize: `${ctx.baseUrl}/order/${order.id}/finalize`,
+    ...(order.certificate_id ? { certificate: `${ctx.baseUrl}/cert/${order.certificate_id}` } : {}),
+    ...(order.replaces ? { replaces: order.replaces } : {}),
+    ...(order.error ? { error: order.error } : {}),
+  };
+}
+
+async function loadAuthorization(ctx: AcmeContext, account: AcmeAccount, id: string): Promise<JsonObject> {
+  const { data, error } = await ctx.supabase
+    .from('acme_authorizations')
+    .select('*')
+    .eq('id', id)
+    .eq('account_id', account.id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new AcmeError(404, 'malformed', 'Authorization not found');
+  }
+  if ((data.status === 'pending' || data.status === 'valid') && new Date(data.expires_at) < new Date()) {
+    await ctx.supabase.from('acme_authorizations').update({ status: 'expired' }).eq('id', data.id);
+    data.status = 'expired';
+  }
+  return data;
+}
+
+function describeChallenge(ctx: AcmeContext, challenge: JsonObject) {
+  return {
+    type: challenge.type,
+    url: `${ctx.baseUrl}/chall/${challenge.id}`,
+    token: challenge.token,
+    status: challenge.status,
+    ...(challenge.validated_at ? { validated: challenge.validated_at } : {}),
+    ...(challenge.error ? { error: challenge.error } : {}),
+  };
+}
+
+async function describeAuthorization(ctx: AcmeContext, authorization: JsonObject) {
+  const { data: challenges, error } = await ctx.supabase
+    .from('acme_challenges')
+    .select('*')
+    .eq('authorization_id', authorization.id)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return {
+    identifier: { type: 'dns', value: authorization.identifier },
+    status: authorization.status,
+    expires: authorization.expires_at,
+    challenges: (challenges || []).map(c => describeChallenge(ctx, c)),
+    ...(authorization.wildcard ? { wildcard: true } : {}),
+  };
+}
+
+async function updateAuthorization(ctx: AcmeContext, account: AcmeAccount, id: string, payload: JsonObject | null) {
+  let authorization = await loadAuthorization(ctx, account, id);
+  if (payload?.status !== undefined) {
+    if (payload.status !== 'deactivated') {
+      throw new AcmeError(400, 'malformed', 'Authorizations can only be deactivated');
+    }
+    if (authorization.status !== 'pending' && authorization.status !== 'valid') {
+      throw new AcmeError(403, 'malformed', `The authorization is already ${authorization.status}`);
+    }
+    const { data, error } = await ctx.supabase
+      .from('acme_authorizations')
+      .update({ status: 'deactivated' })
+      .eq('id', id)
+      .select('*')
+      .single();
+    if (error) throw error;
+    authorization = data;
+  }
+  return describeAuthorization(ctx, authorization);
+}
+
+// ============================================================================
+// Challenge validation (RFC 8555 section 8)
+// ============================================================================
+
+/**
+ * HTTP-01: the key authorization is served at
+ * http://{domain}/.well-known/acme-challenge/{token}. ACME_HTTP01_URL
+ * replaces that URL template, so a local stand-in can answer for names
+ * that do not resolve to the service.
+ */
+async function checkHttp01(domain: string, token: string, keyAuthorization: string): Promise<void> {
+  const template = Deno.env.get('ACME_HTTP01_URL') || 'http://{domain}/.well-known/acme-challenge/{token}';
+  const url = template.replace('{domain}', domain).replace('{token}', token);
+
+  let response: Response;
+  try {
+    response = await fetch(url, { redirect: 'follow', signal: AbortSignal.timeout(CHALLENGE_TIMEOUT_MS) });
+  } catch (error) {
+    throw new AcmeError(400, 'connection', `Could not fetch ${url}: ${(error as Error).message}`);
+  }
+  if (!response.ok) {
+    throw new AcmeError(403, 'incorrectResponse', `${url} returned HTTP ${response.status}`);
+  }
+  const body = (await response.text()).slice(0, 1024).trimEnd();
+  if (body !== keyAuthorization) {
+    throw new AcmeError(403, 'incorrectResponse', `${url} did not return the key authorization`);
+  }
+}
+
+/**
+ * DNS-01: a TXT record at _acme-challenge.{domain} holds the base64url
+ * SHA-256 of the key authorization. ACME_DNS01_NAMESERVER (host:port)
+ * points the lookup at a local stand-in resolver.
+ */
+async function checkDns01(domain: string, keyAuthorization: string): Promise<void> {
+  const expected = base64UrlEncode(await digest('SHA-256', new TextEncoder().encode(keyAuthorization)));
+  const name = `_acme-challenge.${domain}`;
+  const nameServer = Deno.env.get('ACME_DNS01_NAMESERVER');
+  const separator = nameServer ? nameServer.lastIndexOf(':') : -1;
+  const options = nameServer
+    ? { nameServer: separator > 0 ? { ipAddr: nameServer.slice(0, separator), port: Number(nameServer.slice(separator + 1)) } : { ipAddr: nameServer } }
+    : undefined;
+
+  let records: string[][];
+  try {
+    records = await Deno.resolveDns(name, 'TXT', options);
+  } catch (error) {
+    throw new AcmeError(400, 'dns', `Could not resolve TXT ${name}: ${(error as Error).message}`);
+  }
+  if (!records.some(chunks => chunks.join('') === expected)) {
+    throw new AcmeError(403, 'incorrectResponse', `No TXT record at ${name} matches the key authorization`);
+  }
+}
+
+async function respondToChallenge(ctx: AcmeContext, account: AcmeAccount, id: string, payload: JsonObject | null): Promise<Response> {
+  const { data: challenge, error } = await ctx.supabase
+    .from('acme_challenges')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!challenge) {
+    throw new AcmeError(404, 'malformed', 'Challenge not found');
+  }
+  const authorization = await loadAuthorization(ctx, account, challenge.authorization_id);
+  const up = { Link: `<${ctx.baseUrl}/authz/${authorization.id}>;rel="up"` };
+
+  // A POST-as-GET only reads the challenge; {} asks the server to validate
+  if (!payload || challenge.status !== 'pending' || authorization.status !== 'pending') {
+    return acmeResponse(ctx, describeChallenge(ctx, challenge), { headers: up });
+  }
+
+  const keyAuthorization = `${challenge.token}.${account.thumbprint}`;
+  let patch: JsonObject;
+  try {
+    if (challenge.type === 'http-01') {
+      await checkHttp01(authorization.identifier, challenge.token, keyAuthorization);
+    } else {
+      await checkDns01(authorization.identifier, keyAuthorization);
+    }
+    patch = { status: 'valid', validated_at: new Date().toISOString() };
+  } catch (validationError) {
+    if (!(validationError instanceof AcmeError)) throw validationError;
+    patch = {
+      status: 'invalid',
+      error: {
+        type: `urn:ietf:params:acme:error:${validationError.type}`,
+        detail: validationError.message,
+        status: validationError.status,
+      },
+    };
+  }
+
+  const { data: updated, error: updateError } = await ctx.supabase
+    .from('acme_challenges')
+    .update(patch)
+    .eq('id', challenge.id)
+    .select('*')
+    .single();
+  if (updateError) throw updateError;
+  await ctx.supabase
+    .from('acme_authorizations')
+    .update({ status: patch.status })
+    .eq('id', authorization.id);
+
+  return acmeResponse(ctx, describeChallenge(ctx, updated), { headers: up });
+}
+
+// ============================================================================
+// Issuance, renewal and revocation
+// ============================================================================
+
+/**
+ * Rotation interval of the binding's certificate policy, or of the newest
+ * certificate policy when the binding names none
+ */
+async function rotationIntervalDays(ctx: AcmeContext, policyId: string | null): Promise<number> {
+  const query = ctx.supabase
+    .from('quantum_key_policies')
+    .select('id, rotation_interval_days')
+    .eq('key_type', 'certificate');
+  const { data, error } = policyId
+    ? await query.eq('id', policyId).maybeSingle()
+    : await query.order('updated_at', { ascending: false }).limit(1).maybeSingle();
+  if (error) throw error;
+  return Number(data?.rotation_interval_days) || DEFAULT_ROTATION_INTERVAL_DAYS;
+}
+
+/**
+ * Certificates outlive the rotation interval by a quarter, so a service
+ * that misses its renewal window still has time before they expire
+ */
+function lifetimeDays(intervalDays: number): number {
+  return Math.min(intervalDays + Math.ceil(intervalDays / 4), MAX_CERTIFICATE_DAYS);
+}
+
+/**
+ * Renew once the rotation interval has passed (or 80% of the lifetime, if
+ * the policy was lengthened after issuance), and before half the remaining
+ * time to expiry is used up
+ */
+function renewalWindow(notBefore: Date, notAfter: Date, intervalDays: number): { start: string; end: string } {
+  const issued = notBefore.getTime();
+  const expires = notAfter.getTime();
+  const start = Math.min(issued + intervalDays * DAY_MS, issued + (expires - issued) * 0.8);
+  const end = start + (expires - start) / 2;
+  return { start: new Date(start).toISOString(), end: new Date(end).toISOString() };
+}
+
+async function finalizeOrder(ctx: AcmeContext, account: AcmeAccount, orderId: string, payload: JsonObject | null): Promise<Response> {
+  const order = await loadOrder(ctx, account, orderId);
+  if (order.status !== 'ready') {
+    throw new AcmeError(403, 'orderNotReady', `The order is ${order.status}, not ready`);
+  }
+
+  let request;
+  try {
+    request = await parseCsr(base64Decode(String(payload?.csr || '')));
+  } catch (error) {
+    throw new AcmeError(400, 'badCSR', error instanceof HttpError ? error.message : 'The CSR is not valid DER');
+  }
+
+  const identifiers = (order.identifiers as Identifier[]).map(i => i.value);
+  const requested = new Set(request.dnsNames.map(name => name.toLowerCase()));
+  if (requested.size !== identifiers.length || identifiers.some(name => !requested.has(name))) {
+    throw new AcmeError(400, 'badCSR', `The CSR must request exactly ${identifiers.join(', ')}`);
+  }
+  if (request.subject && !requested.has(request.subject.toLowerCase())) {
+    throw new AcmeError(400, 'badCSR', 'The CSR common name must be one of the requested names');
+  }
+  if (account.jwk.kty === 'AKP' && account.jwk.pub === base64UrlEncode(request.publicKey)) {
+    throw new AcmeError(400, 'badCSR', 'The certificate key must differ from the account key');
+  }
+
+  await ctx.supabase.from('acme_orders').update({ status: 'processing' }).eq('id', order.id);
+
+  try {
+    const external = await loadExternalAccount(ctx, account);
+    const ca = selectIssuingAuthority(await ensureHierarchy(ctx), external.ca_id as string | null);
+    const intervalDays = await rotationIntervalDays(ctx, external.policy_id as string | null);
+
+    const certificate = await issueEndEntity(ctx, ca, {
+      userId: String(external.created_by),
+      certificateType: 'authentication',
+      subject: request.subject || identifiers[0],
+      dnsNames: identifiers,
+      keyAlgorithm: request.algorithm,
+      publicKey: request.publicKey,
+      validityDays: lifetimeDays(intervalDays),
+      details: { acme_account_id: account.id, acme_order_id: order.id, dns_names: identifiers },
+    });
+
+    const { data: updated, error } = await ctx.supabase
+      .from('acme_orders')
+      .update({ status: 'valid', certificate_id: certificate.id })
+      .eq('id', order.id)
+      .select('*')
+      .single();
+    if (error) throw error;
+
+    return acmeResponse(ctx, await describeOrder(ctx, updated), { location: `${ctx.baseUrl}/order/${order.id}` });
+  } catch (error) {
+    await ctx.supabase
+      .from('acme_orders')
+      .update({
+        status: 'invalid',
+        error: { type: 'urn:ietf:params:acme:error:serverInternal', detail: (error as Error).message || 'Issuance failed' },
+      })
+      .eq('id', order.id);
+    throw error;
+  }
+}
+
+/**
+ * The certificate followed by its intermediates; roots are distributed
+ * separately as trust anchors
+ */
+async function downloadCertificate(ctx: AcmeContext, account: AcmeAccount, id: string): Promise<Response> {
+  const { data: order } = await ctx.supabase
+    .from('acme_orders')
+    .select('id')
+    .eq('certificate_id', id)
+    .eq('account_id', account.id)
+    .maybeSingle();
+  if (!order) {
+    throw new AcmeError(404, 'malformed', 'Certificate not found');
+  }
+
+  const { data: certificate, error } = await ctx.supabase
+    .from('quantum_certificates')
+    .select('certificate_data, ca_id')
+    .eq('id', id)
+    .single();
+  if (error) throw error;
+
+  const authorities = await ensureHierarchy(ctx);
+  const ca = authorities.find(a => a.id === certificate.ca_id);
+  const intermediates = ca ? chainOf(authorities, ca).filter(a => a.parentId) : [];
+
+  return acmeResponse(ctx, [certificate.certificate_data, ...intermediates.map(a => a.certificatePem)].join(''), {
+    contentType: 'application/pem-certificate-chain',
+  });
+}
+
+async function revokeCertificate(ctx: AcmeContext, account: AcmeAccount, payload: JsonObject | null): Promise<Response> {
+  let bytes: Uint8Array;
+  let serialNumber: string;
+  try {
+    bytes = base64Decode(String(payload?.certificate || ''));
+    serialNumber = parseCertificate(bytes).serialNumber;
+  } catch {
+    throw new AcmeError(400, 'malformed', 'certificate must be a base64url DER certificate');
+  }
+
+  const code = payload?.reason === undefined ? 0 : Number(payload.reason);
+  const reason = Object.entries(REVOCATION_REASONS).find(([, value]) => value === code)?.[0];
+  if (!reason) {
+    throw new AcmeError(400, 'badRevocationReason', `reason must be one of ${Object.values(REVOCATION_REASONS).join(', ')}`);
+  }
+
+  const { data: certificate, error } = await ctx.supabase
+    .from('quantum_certificates')
+    .select('id, certificate_data, is_revoked')
+    .eq('serial_number', serialNumber)
+    .not('ca_id', 'is', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!certificate || fromPem(certificate.certificate_data, 'CERTIFICATE').join() !== bytes.join()) {
+    throw new AcmeError(404, 'malformed', 'Unknown certificate');
+  }
+
+  const { data: order } = await ctx.supabase
+    .from('acme_orders')
+    .select('id')
+    .eq('certificate_id', certificate.id)
+    .eq('account_id', account.id)
+    .maybeSingle();
+  if (!order) {
+    throw new AcmeError(403, 'unauthorized', 'The certificate was not issued to this account');
+  }
+  if (certificate.is_revoked) {
+    throw new AcmeError(400, 'alreadyRevoked', 'The certificate is already revoked');
+  }
+
+  await revokeIssuedCertificate(ctx, { id: certificate.id, reason, revokedBy: account.id });
+  return acmeResponse(ctx, null);
+}
+
+async function renewalInfo(ctx: AcmeContext, certId: string): Promise<Response> {
+  const certificate = await findByRenewalId(ctx, certId);
+  if (!certificate) {
+    throw new AcmeError(404, 'malformed', 'Unknown certificate');
+  }
+
+  let window: { start: string; end: string };
+  if (certificate.is_revoked) {
+    // A window in the past asks for immediate renewal
+    const now = Date.now();
+    window = { start: new Date(now - DAY_MS).toISOString(), end: new Date(now - 60 * 1000).toISOString() };
+  } else {
+    const { data: order } = await ctx.supabase
+      .from('acme_orders')
+      .select('account_id')
+      .eq('certificate_id', certificate.id)
+      .maybeSingle();
+    let policyId: string | null = null;
+    if (order) {
+      const { data: account } = await ctx.supabase
+        .from('acme_accounts')
+        .select('external_account_id')
+        .eq('id', order.account_id)
+        .single();
+      const { data: external } = await ctx.supabase
+        .from('acme_external_accounts')
+        .select('policy_id')
+        .eq('id', account?.external_account_id)
+        .maybeSingle();
+      policyId = (external?.policy_id as string | null) ?? null;
+    }
+    window = renewalWindow(
+      new Date(certificate.valid_from),
+      new Date(certificate.valid_until),
+      await rotationIntervalDays(ctx, policyId)
+    );
+  }
+
+  return acmeResponse(ctx, { suggestedWindow: window }, {
+    headers: { 'Retry-After': String(RENEWAL_RETRY_AFTER_SECONDS) },
+  });
+}
+
+// ============================================================================
+// External account bindings (administrators)
+// ============================================================================
+
+async function requireUser(req: Request, supabase: SupabaseClient): Promise<{ id: string; isAdmin: boolean }> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return { id: user.id, isAdmin: Boolean(isAdmin) };
+}
+
+function describeExternalAccount(ctx: AcmeContext, row: JsonObject, account?: JsonObject) {
+  return {
+    id: row.id,
+    name: row.name,
+    keyId: row.key_id,
+    allowedDomains: row.allowed_domains,
+    caId: row.ca_id,
+    policyId: row.policy_id,
+    directory: `${ctx.baseUrl}/directory`,
+    accountStatus: account?.status ?? null,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+  };
+}
+
+async function listExternalAccounts(ctx: AcmeContext) {
+  const { data, error } = await ctx.supabase
+    .from('acme_external_accounts')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+
+  const { data: accounts, error: accountsError } = await ctx.supabase
+    .from('acme_accounts')
+    .select('external_account_id, status');
+  if (accountsError) throw accountsError;
+
+  return (data || []).map(row => describeExternalAccount(ctx, row, (accounts || []).find(a => a.external_account_id === row.id)));
+}
+
+/**
+ * The HMAC key is returned once; only the function can read it afterwards
+ */
+async function createExternalAccount(ctx: AcmeContext, actorId: string, body: JsonObject) {
+  const name = String(body.name || '').trim();
+  if (!name) {
+    throw new HttpError(400, 'name is required');
+  }
+  const allowedDomains = Array.isArray(body.allowedDomains)
+    ? [...new Set((body.allowedDomains as unknown[]).map(d => String(d).trim().toLowerCase()).filter(Boolean))]
+    : [];
+  if (allowedDomains.length === 0 || allowedDomains.some(d => d.startsWith('*.') || !DNS_NAME.test(d))) {
+    throw new HttpError(400, 'allowedDomains must list at least one DNS domain');
+  }
+
+  const caId = body.caId ? String(body.caId) : null;
+  if (caId) {
+    selectIssuingAuthority(await ensureHierarchy(ctx), caId);
+  }
+  const policyId = body.policyId ? String(body.policyId) : null;
+  if (policyId) {
+    const { data: policy } = await ctx.supabase
+      .from('quantum_key_policies')
+      .select('id')
+      .eq('id', policyId)
+      .eq('key_type', 'certificate')
+      .maybeSingle();
+    if (!policy) {
+      throw new HttpError(400, 'policyId must name a certificate key policy');
+    }
+  }
+
+  const hmacKey = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const { data: row, error } = await ctx.supabase
+    .from('acme_external_accounts')
+    .insert({
+      key_id: base64UrlEncode(crypto.getRandomValues(new Uint8Array(12))),
+      hmac_key: hmacKey,
+      name,
+      allowed_domains: allowedDomains,
+      ca_id: caId,
+      policy_id: policyId,
+      created_by: actorId,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'ACME_EXTERNAL_ACCOUNT_CREATED',
+    _resource: 'acme_external_accounts',
+    _resource_id: row.id,
+    _details: { name, allowed_domains: allowedDomains, ca_id: caId, policy_id: policyId, created_by: actorId },
+  });
+
+  return { ...describeExternalAccount(ctx, row), hmacKey };
+}
+
+async function revokeExternalAccount(ctx: AcmeContext, actorId: string, id: string) {
+  const { data: row, error } = await ctx.supabase
+    .from('acme_external_accounts')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('*')
+    .maybeSingle();
+  if (error) throw error;
+  if (!row) {
+    throw new HttpError(404, 'External account not found or already revoked');
+  }
+
+  const { error: accountError } = await ctx.supabase
+    .from('acme_accounts')
+    .update({ status: 'revoked' })
+    .eq('external_account_id', id);
+  if (accountError) throw accountError;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'ACME_EXTERNAL_ACCOUNT_REVOKED',
+    _resource: 'acme_external_accounts',
+    _resource_id: id,
+    _details: { name: row.name, revoked_by: actorId },
+  });
+
+  return describeExternalAccount(ctx, row, { status: 'revoked' });
+}
+
+/**
+ * ACME (RFC 8555) server issuing from the quantum PKI
+ *
+ * ACME protocol (JWS-signed POSTs, application/jose+json):
+ *   GET  /directory
+ *   HEAD /new-nonce, GET /new-nonce
+ *   POST /new-account              jwk-signed, with an externalAccountBinding
+ *   POST /acct/:id                 contact update, deactivation or POST-as-GET
+ *   POST /acct/:id/orders
+ *   POST /key-change
+ *   POST /new-order                { identifiers, replaces? }
+ *   POST /order/:id                POST-as-GET
+ *   POST /order/:id/finalize       { csr }
+ *   POST /authz/:id                POST-as-GET or { status: 'deactivated' }
+ *   POST /chall/:id                {} starts HTTP-01 / DNS-01 validation
+ *   POST /cert/:id                 application/pem-certificate-chain
+ *   POST /revoke-cert              { certificate, reason? }
+ *   GET  /renewal-info/:certId     ACME Renewal Information (RFC 9773)
+ *
+ * Administrators (Supabase session):
+ *   GET  /eab                      external account bindings
+ *   POST /eab                      { name, allowedDomains, caId?, policyId? }
+ *   POST /eab/:id/revoke
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+  const ctx: AcmeContext = {
+    supabase,
+    pkiUrl: `${supabaseUrl}/functions/v1/quantum-pki`,
+    baseUrl: `${supabaseUrl}/functions/v1/acme`,
+  };
+
+  try {
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('acme') + 1).map(decodeURIComponent);
+    const requestUrl = `${ctx.baseUrl}/${route.join('/')}`;
+
+    switch (`${req.method} ${route[0] || ''}`) {
+      case 'GET directory':
+        return acmeResponse(ctx, {
+          newNonce: `${ctx.baseUrl}/new-nonce`,
+          newAccount: `${ctx.baseUrl}/new-account`,
+          newOrder: `${ctx.baseUrl}/new-order`,
+          revokeCert: `${ctx.baseUrl}/revoke-cert`,
+          keyChange: `${ctx.baseUrl}/key-change`,
+          renewalInfo: `${ctx.baseUrl}/renewal-info`,
+          meta: { externalAccountRequired: true },
+        });
+      case 'HEAD new-nonce':
+      case 'GET new-nonce':
+        await supabase.from('acme_nonces').delete().lt('expires_at', new Date().toISOString());
+        return acmeResponse(ctx, null, { status: req.method === 'HEAD' ? 200 : 204 });
+      case 'POST new-account':
+        return newAccount(ctx, await readSignedRequest(ctx, req, requestUrl, 'jwk'));
+      case 'POST acct': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        if (request.account!.id !== route[1]) {
+          throw new AcmeError(401, 'unauthorized', 'Requests must be signed by the account they address');
+        }
+        if (route[2] === 'orders') {
+          const { data: orders, error } = await supabase
+            .from('acme_orders')
+            .select('id')
+            .eq('account_id', request.account!.id)
+            .order('created_at', { ascending: true });
+          if (error) throw error;
+          return acmeResponse(ctx, { orders: (orders || []).map(o => `${ctx.baseUrl}/order/${o.id}`) });
+        }
+        return acmeResponse(ctx, describeAccount(ctx, await updateAccount(ctx, request.account!, request.payload)));
+      }
+      case 'POST key-change':
+        return changeKey(ctx, await readSignedRequest(ctx, req, requestUrl, 'kid'));
+      case 'POST new-order':
+        return newOrder(ctx, await readSignedRequest(ctx, req, requestUrl, 'kid'));
+      case 'POST order': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        if (route[2] === 'finalize') {
+          return finalizeOrder(ctx, request.account!, route[1], request.payload);
+        }
+        const order = await loadOrder(ctx, request.account!, route[1]);
+        return acmeResponse(ctx, await describeOrder(ctx, order));
+      }
+      case 'POST authz': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        return acmeResponse(ctx, await updateAuthorization(ctx, request.account!, route[1], request.payload));
+      }
+      case 'POST chall': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        return respondToChallenge(ctx, request.account!, route[1], request.payload);
+      }
+      case 'POST cert': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        return downloadCertificate(ctx, request.account!, route[1]);
+      }
+      case 'POST revoke-cert': {
+        const request = await readSignedRequest(ctx, req, requestUrl, 'kid');
+        return revokeCertificate(ctx, request.account!, request.payload);
+      }
+      case 'GET renewal-info':
+        return renewalInfo(ctx, route[1] || '');
+      case 'GET eab':
+      case 'POST eab': {
+        const actor = await requireUser(req, supabase);
+        if (!actor.isAdmin) {
+          throw new HttpError(403, 'Only administrators can manage ACME external accounts');
+        }
+        if (req.method === 'GET') {
+          return acmeResponse(ctx, await listExternalAccounts(ctx));
+        }
+        if (route[1] && route[2] === 'revoke') {
+          return acmeResponse(ctx, await revokeExternalAccount(ctx, actor.id, route[1]));
+        }
+        return acmeResponse(ctx, await createExternalAccount(ctx, actor.id, await req.json() as JsonObject), { status: 201 });
+      }
+      default:
+        return problemResponse(ctx, 'malformed', `Unknown endpoint: ${req.method} /${route.join('/')}`, 404);
+    }
+  } catch (error) {
+    if (error instanceof AcmeError) {
+      return problemResponse(ctx, error.type, error.message, error.status);
+    }
+    if (error instanceof HttpError) {
+      return problemResponse(ctx, error.status === 401 || error.status === 403 ? 'unauthorized' : 'malformed', error.message, error.status);
+    }
+    if (error instanceof SyntaxError) {
+      return problemResponse(ctx, 'malformed', 'Request body is not valid JSON', 400);
+    }
+
+    console.error('ACME error:', error);
+    return problemResponse(ctx, 'serverInternal', (error as Error).message || 'Unknown error', 500);
+  }
+});
@@ -0,0 +1,476 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ml_dsa65 } from 'https://esm.sh/@noble/post-quantum@0.5.2/ml-dsa.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+// Local stores a client reports, as in src/lib/chain-reconciliation.ts
+const LOCAL_STORES = ['memory', 'indexeddb'] as const;
+const MAX_REPAIR_BLOCKS = 500;
+
+type JsonObject = Record<string, unknown>;
+type LocalStore = typeof LOCAL_STORES[number];
+type BlockIssue = 'incomplete' | 'hash' | 'merkle_root' | 'proof_of_work' | 'signature' | 'link';
+
+interface BlockRow {
+  id?: string;
+  block_index: number;
+  block_hash: string;
+  previous_hash: string;
+  merkle_root: string;
+  merkle_tree: string | null;
+  miner_id: string | null;
+  nonce: number;
+  difficulty: number;
+  block_timestamp: number | null;
+  block_data: string | null;
+  signature: string | null;
+  signer_public_key: string | null;
+}
+
+interface BlockHead {
+  index: number;
+  hash: string;
+  signature: string | null;
+}
+
+interface Verdict {
+  index: number;
+  hash: string;
+  issues: BlockIssue[];
+}
+
+interface Mismatch {
+  store: LocalStore;
+  index: number;
+  recordHash: string | null;
+  storeHash: string | null;
+  signatureMatches: boolean;
+}
+
+interface ChainRecord {
+  rows: Map<number, BlockRow>;
+  verdicts: Map<number, Verdict>;
+  validators: Set<string>;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{1,2}/g) || []).map(b => parseInt(b, 16)));
+const encodeText = (value: string) => new TextEncoder().encode(value);
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encodeText(value))));
+}
+
+async function sha256OfHex(hex: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', fromHex(hex))));
+}
+
+// ============================================================================
+// Block checks
+// ============================================================================
+
+/**
+ * What QuantumBlock.calculateHash in src/lib/enhanced-quantum-blockchain.ts
+ * hashes. block_data is spliced in as stored, so the preimage is the
+ * client's byte for byte. Blocks mined with the pairwise transaction tree
+ * name no tree.
+ */
+function hashPreimage(row: BlockRow): string {
+  return `{"index":${row.block_index},"timestamp":${row.block_timestamp},"data":${row.block_data},` +
+    `"previousHash":${JSON.stringify(row.previous_hash)},"nonce":${row.nonce},` +
+    `"merkleRoot":${JSON.stringify(row.merkle_root)}` +
+    (row.merkle_tree === null ? '}' : `,"merkleTree":${JSON.stringify(row.merkle_tree)}}`);
+}
+
+/** Largest power of two smaller than n, for n > 1 */
+function splitPoint(n: number): number {
+  let k = 1;
+  while (k * 2 < n) k *= 2;
+  return k;
+}
+
+// RFC 6962 tree over hex leaf hashes, as transactionMerkleRoot in src/lib/merkle-proofs.ts
+async function rfc6962Root(leaves: string[]): Promise<string> {
+  if (leaves.length === 1) return sha256OfHex(`00${leaves[0]}`);
+
+  const k = splitPoint(leaves.length);
+  return sha256OfHex(`01${await rfc6962Root(leaves.slice(0, k))}${await rfc6962Root(leaves.slice(k))}`);
+}
+
+// Must match QuantumBlock.calculateMerkleRoot
+async function merkleRoot(transactions: unknown[], tree: string | null): Promise<string> {
+  if (transactions.length === 0) return '';
+
+  let level = await Promise.all(transactions.map(tx => sha256Hex(JSON.stringify(tx))));
+  if (tree === 'rfc6962') return rfc6962Root(level);
+
+  // Blocks that name no tree pair the last node of an odd level with itself
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(await sha256Hex(level[i] + (level[i + 1] ?? level[i])));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Public keys of the active validators in audit_chain_validator_keys; a
+ * block signed by any other key does not verify
+ */
+async function loadValidators(supabase: SupabaseClient): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('audit_chain_validator_keys')
+    .select('public_key')
+    .eq('status', 'active');
+  if (error) throw error;
+  return new Set((data ?? []).map(key => key.public_key as string));
+}
+
+function signatureVerifies(row: BlockRow, validators: Set<string>): boolean {
+  if (!row.signature || !row.signer_public_key || !validators.has(row.signer_public_key)) return false;
+
+  try {
+    return ml_dsa65.verify(fromHex(row.signature), encodeText(row.block_hash), fromHex(row.signer_public_key));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a recorded block on its own and that it links to the recorded block
+ * below it. Signatures must be by a registered validator key. Rows from
+ * before blocks were stored in full are incomplete and only their
+ * proof-of-work can be checked.
+ */
+async function checkRow(row: BlockRow, previous: BlockRow | null, validators: Set<string>): Promise<BlockIssue[]> {
+  const issues: BlockIssue[] = [];
+
+  if (row.block_data === null || row.block_timestamp === null) {
+    issues.push('incomplete');
+  } else {
+    if (await sha256Hex(hashPreimage(row)) !== row.block_hash) {
+      issues.push('hash');
+    }
+
+    let transactions: unknown = null;
+    try {
+      transactions = JSON.parse(row.block_data);
+    } catch {
+      // Reported as a Merkle root mismatch
+    }
+    if (!Array.isArray(transactions) || await merkleRoot(transactions, row.merkle_tree) !== row.merkle_root) {
+      issues.push('merkle_root');
+    }
+
+    if (row.block_index > 0 && !signatureVerifies(row, validators)) {
+      issues.push('signature');
+    }
+  }
+
+  // The genesis block is not mined
+  if (row.block_index > 0 && !row.block_hash.startsWith('0'.repeat(row.difficulty))) {
+    issues.push('proof_of_work');
+  }
+  if (previous && row.previous_hash !== previous.block_hash) {
+    issues.push('link');
+  }
+  return issues;
+}
+
+async function loadRecord(supabase: SupabaseClient): Promise<ChainRecord> {
+  const { data, error } = await supabase
+    .from('blockchain_blocks')
+    .select('*')
+    .order('block_index', { ascending: true });
+  if (error) throw error;
+
+  const rows = new Map((data as BlockRow[]).map(row => [row.block_index, row]));
+  const validators = await loadValidators(supabase);
+  const verdicts = new Map<number, Verdict>();
+  for (const row of rows.values()) {
+    const issues = await checkRow(row, rows.get(row.block_index - 1) ?? null, validators);
+    verdicts.set(row.block_index, { index: row.block_index, hash: row.block_hash, issues });
+  }
+  return { rows, verdicts, validators };
+}
+
+// ============================================================================
+// Reconciliation
+// ============================================================================
+
+function parseHeads(value: unknown): BlockHead[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((head): head is JsonObject => typeof head === 'object' && head !== null)
+    .filter(head => Number.isInteger(head.index) && typeof head.hash === 'string')
+    .map(head => ({
+      index: head.index as number,
+      hash: head.hash as string,
+      signature: typeof head.signature === 'string' ? head.signature : null,
+    }));
+}
+
+/**
+ * Where a client's copy differs from the record by hash or signature, or
+ * lacks a block below its own height. Blocks below the record's first, such
+ * as each client's own genesis block, are not compared.
+ */
+function compareHeads(rows: Map<number, BlockRow>, store: LocalStore, heads: BlockHead[]): Mismatch[] {
+  const start = rows.size > 0 ? Math.min(...rows.keys()) : 0;
+  const height = heads.reduce((max, head) => Math.max(max, head.index + 1), 0);
+  const byIndex = new Map(heads.map(head => [head.index, head]));
+  const mismatches: Mismatch[] = [];
+
+  for (let index = start; index < height; index++) {
+    const row = rows.get(index);
+    const head = byIndex.get(index);
+    if (!row && !head) continue;
+
+    const signatureMatches = (row?.signature ?? null) === (head?.signature ?? null);
+    if (row?.block_hash !== head?.hash || (row && row.block_data !== null && !signatureMatches)) {
+      mismatches.push({
+        store,
+        index,
+        recordHash: row?.block_hash ?? null,
+        storeHash: head?.hash ?? null,
+        signatureMatches,
+      });
+    }
+  }
+  return mismatches;
+}
+
+async function verify(supabase: SupabaseClient, runBy: string, body: JsonObject) {
+  const { rows, verdicts } = await loadRecord(supabase);
+  const heads = (body.heads ?? {}) as JsonObject;
+
+  const heights: Record<string, number> = {
+    record: rows.size > 0 ? Math.max(...rows.keys()) + 1 : 0,
+  };
+  const mismatches: Mismatch[] = [];
+  for (const store of LOCAL_STORES) {
+    const storeHeads = parseHeads(heads[store]);
+    heights[store] = storeHeads.reduce((max, head) => Math.max(max, head.index + 1), 0);
+    mismatches.push(...compareHeads(rows, store, storeHeads));
+  }
+
+  const blocks = Array.from(verdicts.values());
+  const invalid = blocks.filter(verdict => verdict.issues.some(issue => issue !== 'incomplete'));
+
+  const { data: run, error } = await supabase
+    .from('blockchain_reconciliations')
+    .insert({
+      run_by: runBy,
+      status: invalid.length > 0 || mismatches.length > 0 ? 'diverged' : 'consistent',
+      record_height: heights.record,
+      heights,
+      invalid_blocks: invalid,
+      mismatches,
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  return { runId: run.id, heights, blocks, mismatches };
+}
+
+function parseCandidate(value: unknown): BlockRow {
+  const block = (typeof value === 'object' && value !== null ? value : {}) as JsonObject;
+  const isHex = (v: unknown) => typeof v === 'string' && /^[0-9a-f]*$/i.test(v);
+
+  if (!Number.isInteger(block.block_index) || (block.block_index as number) < 0 ||
+      !isHex(block.block_hash) || typeof block.previous_hash !== 'string' || typeof block.merkle_root !== 'string' ||
+      !Number.isInteger(block.nonce) || !Number.isInteger(block.difficulty) ||
+      typeof block.block_timestamp !== 'number' || typeof block.block_data !== 'string' ||
+      (block.merkle_tree !== null && block.merkle_tree !== undefined && block.merkle_tree !== 'rfc6962') ||
+      !isHex(block.signature) || !isHex(block.signer_public_key)) {
+    throw new HttpError(400, 'Each block must be a complete, signed blockchain_blocks row');
+  }
+
+  return {
+    block_index: block.block_index as number,
+    block_hash: block.block_hash as string,
+    previous_hash: block.previous_hash as string,
+    merkle_root: block.merkle_root as string,
+    merkle_tree: (block.merkle_tree as string | undefined) ?? null,
+    miner_id: null,
+    nonce: block.nonce as number,
+    difficulty: block.difficulty as number,
+    block_timestamp: block.block_timestamp as number,
+    block_data: block.block_data as string,
+    signature: block.signature as string,
+    signer_public_key: block.signer_public_key as string,
+  };
+}
+
+/**
+ * Write blocks into the record where it is missing them or its copy fails
+ * verification. A replacement must verify, link to the recorded block below
+ * and be the block the recorded block above links to, so history that
+ * verifies is never rewritten.
+ */
+async function repair(supabase: SupabaseClient, body: JsonObject) {
+  if (!Array.isArray(body.blocks) || body.blocks.length === 0) {
+    throw new HttpError(400, 'blocks is required');
+  }
+  if (body.blocks.length > MAX_REPAIR_BLOCKS) {
+    throw new HttpError(400, `At most ${MAX_REPAIR_BLOCKS} blocks can be repaired at once`);
+  }
+
+  const candidates = body.blocks.map(parseCandidate).sort((a, b) => a.block_index - b.block_index);
+  const { rows, verdicts, validators } = await loadRecord(supabase);
+  const start = rows.size > 0 ? Math.min(...rows.keys()) : 0;
+  const repaired: number[] = [];
+  const rejected: { index: number; reason: string }[] = [];
+
+  for (const candidate of candidates) {
+    const index = candidate.block_index;
+    const current = rows.get(index);
+    const currentIssues = verdicts.get(index)?.issues ?? [];
+    const reject = (reason: string) => rejected.push({ index, reason });
+
+    if (current && currentIssues.length === 0) {
+      reject('the recorded block verifies');
+      continue;
+    }
+    if (current && currentIssues.length === 1 && currentIssues[0] === 'incomplete' && current.block_hash !== candidate.block_hash) {
+      reject('hash differs from the recorded block');
+      continue;
+    }
+
+    const previous = rows.get(index - 1) ?? null;
+    if (!previous && rows.size > 0 && index > start) {
+      reject('no recorded block to link to');
+      continue;
+    }
+
+    const issues = await checkRow(candidate, previous, validators);
+    if (issues.length > 0) {
+      reject(`does not verify: ${issues.join(', ')}`);
+      continue;
+    }
+
+    // The block above pins this one's hash unless it fails its own checks
+    const next = rows.get(index + 1);
+    const nextIssues = verdicts.get(index + 1)?.issues ?? [];
+    if (next && nextIssues.every(issue => issue === 'link') && next.previous_hash !== candidate.block_hash) {
+      reject('is not the block the next recorded block links to');
+      continue;
+    }
+
+    const values = {
+      ...candidate,
+      miner_id: current?.miner_id ?? null,
+      transaction_count: (JSON.parse(candidate.block_data!) as unknown[]).length,
+    };
+    const { error } = current
+      ? await supabase.from('blockchain_blocks').update(values).eq('id', current.id)
+      : await supabase.from('blockchain_blocks').insert(values);
+    if (error) {
+      reject(error.message);
+      continue;
+    }
+
+    rows.set(index, { ...values, id: current?.id });
+    verdicts.set(index, { index, hash: candidate.block_hash, issues: [] });
+    repaired.push(index);
+  }
+
+  if (typeof body.runId === 'string' && repaired.length > 0) {
+    const { error } = await supabase
+      .from('blockchain_reconciliations')
+      .update({ status: 'repaired', repaired_blocks: repaired })
+      .eq('id', body.runId);
+    if (error) throw error;
+  }
+
+  return { repaired, rejected };
+}
+
+// ============================================================================
+// Request handling
+// ============================================================================
+
+async function requireAdmin(req: Request, supabase: SupabaseClient): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  if (!isAdmin) {
+    throw new HttpError(403, 'Only administrators can reconcile the blockchain');
+  }
+  return user.id;
+}
+
+/**
+ * Chain reconciliation: checks blockchain_blocks, the chain of record, and
+ * compares it with a client's in-memory and IndexedDB chains
+ *
+ * Administrators:
+ *   POST /verify    { heads: { memory?, indexeddb? } }  each [{ index, hash, signature }];
+ *                   the record's verdict per block and where the client's copies differ
+ *   POST /repair    { runId?, blocks }  blockchain_blocks rows to write where the record
+ *                   is missing a block or its copy fails verification
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('chain-reconciliation') + 1);
+    const userId = await requireAdmin(req, supabase);
+
+    switch (`${req.method} ${route[0] || ''}`) {
+      case 'POST verify':
+        return jsonResponse(await verify(supabase, userId, await req.json() as JsonObject));
+      case 'POST repair':
+        return jsonResponse(await repair(supabase, await req.json() as JsonObject));
+    }
+
+    return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Request body is not valid JSON' }, 400);
+    }
+
+    console.error('Chain reconciliation error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
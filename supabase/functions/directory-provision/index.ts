@@ -0,0 +1,148 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Effectively permanent ban used to disable directory-removed accounts
+const DISABLED_BAN_DURATION = '876000h';
+
+interface ProvisionUser {
+  email: string;
+  full_name?: string;
+  external_id: string;
+}
+
+interface ProvisionRequest {
+  action: 'create' | 'disable' | 'enable';
+  integration_id?: string;
+  lifecycle_event_id?: string;
+  users?: ProvisionUser[];
+  user_ids?: string[];
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Directory provisioning
+ * Creates, disables and re-enables auth accounts on behalf of the directory
+ * sync engine and lifecycle workflows. Account creation needs the service role,
+ * so it cannot run in the browser.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Only administrators may provision accounts
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return jsonResponse({ error: 'Missing authorization' }, 401);
+    }
+
+    const { data: { user: caller }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !caller) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { data: isAdmin } = await supabase.rpc('has_role', {
+      _user_id: caller.id,
+      _role: 'admin',
+    });
+    if (!isAdmin) {
+      return jsonResponse({ error: 'Only administrators can provision directory accounts' }, 403);
+    }
+
+    const body: ProvisionRequest = await req.json();
+    const succeeded: { email?: string; user_id: string; external_id?: string }[] = [];
+    const failed: { email?: string; user_id?: string; error: string }[] = [];
+
+    if (body.action === 'create') {
+      for (const user of body.users || []) {
+        const { data, error } = await supabase.auth.admin.createUser({
+          email: user.email,
+          email_confirm: true,
+          user_metadata: {
+            full_name: user.full_name,
+            directory_integration_id: body.integration_id,
+            directory_external_id: user.external_id,
+          },
+        });
+
+        if (error || !data.user) {
+          failed.push({ email: user.email, error: error?.message || 'Unknown error' });
+          continue;
+        }
+
+        // The profile trigger normally runs on signup; make sure the row exists
+        await supabase
+          .from('profiles')
+          .upsert(
+            { user_id: data.user.id, email: user.email, full_name: user.full_name || null },
+            { onConflict: 'user_id' }
+          );
+
+        succeeded.push({ email: user.email, user_id: data.user.id, external_id: user.external_id });
+      }
+    } else if (body.action === 'disable' || body.action === 'enable') {
+      const disable = body.action === 'disable';
+
+      for (const userId of body.user_ids || []) {
+        const { error } = await supabase.auth.admin.updateUserById(userId, {
+          ban_duration: disable ? DISABLED_BAN_DURATION : 'none',
+        });
+
+        if (error) {
+          failed.push({ user_id: userId, error: error.message });
+          continue;
+        }
+
+        await supabase
+          .from('profiles')
+          .update({ deleted_at: disable ? new Date().toISOString() : null })
+          .eq('user_id', userId);
+
+        if (disable) {
+          await supabase
+            .from('user_sessions')
+            .update({ is_active: false })
+            .eq('user_id', userId)
+            .eq('is_active', true);
+        }
+
+        succeeded.push({ user_id: userId });
+      }
+    } else {
+      return jsonResponse({ error: `Unsupported action: ${body.action}` }, 400);
+    }
+
+    await supabase.rpc('log_audit_event', {
+      _action: `DIRECTORY_PROVISION_${body.action.toUpperCase()}`,
+      _resource: body.integration_id ? 'directory_integrations' : 'identity_lifecycle_events',
+      _resource_id: body.integration_id || body.lifecycle_event_id,
+      _details: {
+        requested_by: caller.id,
+        user_ids: body.user_ids,
+        succeeded: succeeded.length,
+        failed: failed.length,
+      },
+    });
+
+    return jsonResponse({ success: true, succeeded, failed });
+  } catch (error) {
+    console.error('Directory provisioning error:', error);
+    return jsonResponse({ error: error.message }, 500);
+  }
+});
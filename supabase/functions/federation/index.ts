@@ -0,0 +1,1370 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { DOMParser } from 'https://esm.sh/@xmldom/xmldom@0.8.10';
+import { base64Decode, base64Encode, digest, HttpError, parseDer, readOid, toHex } from '../_shared/pki.ts';
+import { ORG_SIGNING_ALGORITHM, signAsOrganization } from '../_shared/org-signing.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+// Must match src/lib/federation-service.ts
+const NS = {
+  saml: 'urn:oasis:names:tc:SAML:2.0:assertion',
+  samlp: 'urn:oasis:names:tc:SAML:2.0:protocol',
+  md: 'urn:oasis:names:tc:SAML:2.0:metadata',
+  ds: 'http://www.w3.org/2000/09/xmldsig#',
+};
+
+const ALGORITHMS = {
+  excC14n: 'http://www.w3.org/2001/10/xml-exc-c14n#',
+  enveloped: 'http://www.w3.org/2000/09/xmldsig#enveloped-signature',
+  rsaSha256: 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  rsaSha1: 'http://www.w3.org/2000/09/xmldsig#rsa-sha1',
+  ecdsaSha256: 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256',
+  sha256: 'http://www.w3.org/2001/04/xmlenc#sha256',
+  sha1: 'http://www.w3.org/2000/09/xmldsig#sha1',
+};
+
+const DEFAULT_ATTRIBUTE_MAPPINGS: Record<FederationProtocol, Record<string, string>> = {
+  saml: {
+    email: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/emailaddress',
+    full_name: 'http://schemas.xmlsoap.org/ws/2005/05/identity/claims/name',
+    groups: 'http://schemas.microsoft.com/ws/2008/06/identity/claims/groups',
+  },
+  oidc: {
+    email: 'email',
+    full_name: 'name',
+    groups: 'groups',
+  },
+};
+
+const ROLE_PRIORITY: Record<SystemRole, number> = { admin: 3, moderator: 2, user: 1 };
+const MAX_SSO_SESSION_HOURS = 8;
+const CLOCK_SKEW_SECONDS = 120;
+const LOGIN_REQUEST_TTL_MINUTES = 10;
+
+// DOM node types; Deno has no global Node
+const ELEMENT_NODE = 1;
+const TEXT_NODE = 3;
+const CDATA_SECTION_NODE = 4;
+
+type FederationProtocol = 'saml' | 'oidc';
+type SystemRole = 'admin' | 'moderator' | 'user';
+type JsonObject = Record<string, unknown>;
+
+interface FederationProvider {
+  id: string;
+  name: string;
+  provider_type: string;
+  configuration: JsonObject;
+  metadata_url: string | null;
+  certificate: string | null;
+  is_enabled: boolean;
+  auto_provisioning: boolean;
+  attribute_mappings: Record<string, string>;
+}
+
+interface SigningKeyInfo {
+  certificate?: string;
+  jwk?: JsonWebKey;
+}
+
+interface JsonWebKeySet {
+  keys: (JsonWebKey & { kid?: string; alg?: string; use?: string })[];
+}
+
+interface SAMLIdPMetadata {
+  protocol: 'saml';
+  entityId: string;
+  signingKeys: SigningKeyInfo[];
+}
+
+interface OIDCIdPMetadata {
+  protocol: 'oidc';
+  issuer: string;
+  jwks: JsonWebKeySet | null;
+}
+
+type IdPMetadata = SAMLIdPMetadata | OIDCIdPMetadata;
+
+interface FederatedIdentity {
+  protocol: FederationProtocol;
+  issuer: string;
+  subject: string;
+  email: string | null;
+  fullName: string | null;
+  groups: string[];
+  claims: JsonObject;
+  sessionExpiresAt: string | null;
+  /** SHA-256 of the raw SAML response or ID token */
+  rawHash: string;
+  /** SAML assertion ID or ID token jti, recorded so the assertion is accepted once */
+  assertionId: string;
+  /** ISO timestamp after which the assertion is no longer accepted */
+  assertionExpiresAt: string;
+}
+
+interface RoleMapping {
+  id: string;
+  provider_claim_key: string;
+  provider_claim_value: string;
+  mapped_role: SystemRole;
+  created_by: string;
+}
+
+interface Assertion {
+  samlResponse?: string;
+  idToken?: string;
+}
+
+/** Authentication request issued by startLogin; the response must answer it */
+interface LoginRequest {
+  /** SAML AuthnRequest ID, or OIDC state */
+  id: string;
+  provider_id: string;
+  /** OIDC: nonce the ID token must carry */
+  nonce: string | null;
+  /** SAML: assertion consumer URL the response must be addressed to */
+  acs_url: string | null;
+}
+
+/** Assertion that fails validation; the caller did not prove the federated identity */
+class FederationError extends HttpError {
+  constructor(message: string) {
+    super(401, message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const sha256Hex = async (data: string) => toHex(await digest('SHA-256', new TextEncoder().encode(data)));
+
+const base64UrlEncode = (bytes: Uint8Array) => base64Encode(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * JSON with recursively sorted keys, as canonicalJson in
+ * src/lib/federation-service.ts, so claim hashes and session statements are
+ * reproducible by verifiers
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as JsonObject)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// ============================================================================
+// XML: parsing and exclusive canonicalization (no InclusiveNamespaces list)
+// ============================================================================
+
+function parseXml(xml: string): Document {
+  const fail = () => {
+    throw new FederationError('Malformed XML document');
+  };
+  const doc = new DOMParser({ errorHandler: { warning: () => {}, error: fail, fatalError: fail } })
+    .parseFromString(xml, 'text/xml') as unknown as Document;
+  if (!doc?.documentElement) fail();
+  return doc;
+}
+
+const elementsByName = (parent: Element | Document, ns: string, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS(ns, localName));
+
+const firstChild = (parent: Element | Document, ns: string, localName: string): Element | null =>
+  elementsByName(parent, ns, localName)[0] || null;
+
+function directChild(parent: Element, ns: string, localName: string): Element | null {
+  for (const child of Array.from(parent.childNodes)) {
+    const element = child as Element;
+    if (child.nodeType === ELEMENT_NODE && element.namespaceURI === ns && element.localName === localName) {
+      return element;
+    }
+  }
+  return null;
+}
+
+function findById(doc: Document, id: string): Element | null {
+  for (const element of Array.from(doc.getElementsByTagName('*'))) {
+    if (element.getAttribute('ID') === id || element.getAttribute('Id') === id || element.getAttribute('id') === id) {
+      return element;
+    }
+  }
+  return null;
+}
+
+const escapeC14nText = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\r/g, '&#xD;');
+
+const escapeC14nAttribute = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/"/g, '&quot;')
+  .replace(/\t/g, '&#x9;')
+  .replace(/\n/g, '&#xA;')
+  .replace(/\r/g, '&#xD;');
+
+function canonicalizeNode(node: Node, renderedNamespaces: Map<string, string>, exclude?: Element): string {
+  if (node.nodeType === TEXT_NODE || node.nodeType === CDATA_SECTION_NODE) {
+    return escapeC14nText(node.nodeValue || '');
+  }
+  if (node.nodeType !== ELEMENT_NODE) {
+    return '';
+  }
+
+  const element = node as Element;
+  if (exclude && element === exclude) {
+    return '';
+  }
+
+  // Namespaces visibly utilized by this element and its attributes
+  const utilized = new Map<string, string>();
+  utilized.set(element.prefix || '', element.namespaceURI || '');
+  const attributes: Attr[] = [];
+  for (const attr of Array.from(element.attributes)) {
+    if (attr.name === 'xmlns' || attr.name.startsWith('xmlns:')) continue;
+    attributes.push(attr);
+    if (attr.prefix) {
+      utilized.set(attr.prefix, attr.namespaceURI || '');
+    }
+  }
+
+  const scope = new Map(renderedNamespaces);
+  const declarations: string[] = [];
+  for (const prefix of Array.from(utilized.keys()).sort()) {
+    const uri = utilized.get(prefix) || '';
+    if (prefix === 'xml') continue;
+    if ((scope.get(prefix) ?? '') !== uri) {
+      declarations.push(prefix ? ` xmlns:${prefix}="${escapeC14nAttribute(uri)}"` : ` xmlns="${escapeC14nAttribute(uri)}"`);
+      scope.set(prefix, uri);
+    }
+  }
+
+  attributes.sort((a, b) => {
+    const nsCompare = (a.namespaceURI || '').localeCompare(b.namespaceURI || '');
+    return nsCompare !== 0 ? nsCompare : (a.localName || '').localeCompare(b.localName || '');
+  });
+
+  const renderedAttributes = attributes.map(attr => ` ${attr.name}="${escapeC14nAttribute(attr.value)}"`).join('');
+  const children = Array.from(element.childNodes).map(child => canonicalizeNode(child, scope, exclude)).join('');
+
+  return `<${element.tagName}${declarations.join('')}${renderedAttributes}>${children}</${element.tagName}>`;
+}
+
+const canonicalize = (element: Element, exclude?: Element) => canonicalizeNode(element, new Map([['', '']]), exclude);
+
+// ============================================================================
+// IdP metadata
+// ============================================================================
+
+function parseSAMLMetadata(xml: string): SAMLIdPMetadata {
+  const doc = parseXml(xml);
+  const entity = firstChild(doc, NS.md, 'EntityDescriptor');
+  const idp = entity ? firstChild(entity, NS.md, 'IDPSSODescriptor') : null;
+  if (!entity || !idp) {
+    throw new HttpError(400, 'Metadata does not describe an identity provider');
+  }
+
+  const signingKeys: SigningKeyInfo[] = [];
+  for (const descriptor of elementsByName(idp, NS.md, 'KeyDescriptor')) {
+    const use = descriptor.getAttribute('use');
+    if (use && use !== 'signing') continue;
+
+    const certificate = firstChild(descriptor, NS.ds, 'X509Certificate');
+    if (certificate?.textContent) {
+      signingKeys.push({ certificate: certificate.textContent.replace(/\s+/g, '') });
+      continue;
+    }
+
+    const modulus = firstChild(descriptor, NS.ds, 'Modulus');
+    const exponent = firstChild(descriptor, NS.ds, 'Exponent');
+    if (modulus?.textContent && exponent?.textContent) {
+      signingKeys.push({
+        jwk: {
+          kty: 'RSA',
+          n: base64UrlEncode(base64Decode(modulus.textContent)),
+          e: base64UrlEncode(base64Decode(exponent.textContent)),
+        },
+      });
+    }
+  }
+
+  if (signingKeys.length === 0) {
+    throw new HttpError(400, 'Metadata does not publish a signing key');
+  }
+
+  return { protocol: 'saml', entityId: entity.getAttribute('entityID') || '', signingKeys };
+}
+
+async function fetchMetadata(url: string, what: string): Promise<Response> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new HttpError(502, `Failed to fetch ${what} (${response.status})`);
+  }
+  return response;
+}
+
+/**
+ * Metadata for a provider from its inline configuration or metadata URL.
+ * A pinned certificate on the provider row takes precedence over published keys.
+ */
+async function loadMetadata(provider: FederationProvider): Promise<IdPMetadata> {
+  const protocol = provider.provider_type.toLowerCase();
+  const config = provider.configuration;
+
+  if (protocol === 'saml') {
+    let xml = typeof config.metadata_xml === 'string' ? config.metadata_xml : null;
+    if (!xml && provider.metadata_url) {
+      xml = await (await fetchMetadata(provider.metadata_url, 'SAML metadata')).text();
+    }
+    if (!xml) {
+      throw new HttpError(400, 'SAML provider has no metadata configured');
+    }
+
+    const metadata = parseSAMLMetadata(xml);
+    if (provider.certificate) {
+      metadata.signingKeys = [{ certificate: provider.certificate.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, '') }];
+    }
+    return metadata;
+  }
+
+  if (protocol === 'oidc') {
+    let discovery = (config.discovery as JsonObject) || null;
+    if (!discovery && provider.metadata_url) {
+      discovery = await (await fetchMetadata(provider.metadata_url, 'OIDC discovery document')).json();
+    }
+    if (!discovery || typeof discovery.issuer !== 'string' || !discovery.issuer) {
+      throw new HttpError(400, 'OIDC provider has no discovery document configured');
+    }
+
+    let jwks = (config.jwks as JsonWebKeySet) || null;
+    if (!jwks && typeof discovery.jwks_uri === 'string') {
+      jwks = await (await fetchMetadata(discovery.jwks_uri, 'JWKS')).json();
+    }
+    return { protocol: 'oidc', issuer: discovery.issuer, jwks };
+  }
+
+  throw new HttpError(400, `Unsupported federation protocol: ${provider.provider_type}`);
+}
+
+// ============================================================================
+// SAML assertion validation
+// ============================================================================
+
+/**
+ * Extract the SubjectPublicKeyInfo from a DER certificate and import it for verification
+ */
+function importCertificateKey(certificateBase64: string, signatureAlgorithm: string): Promise<CryptoKey> {
+  const fields = parseDer(base64Decode(certificateBase64)).children[0].children;
+  // Skip the optional [0] version field
+  const spki = fields[(fields[0].tag === 0xa0 ? 1 : 0) + 5];
+  const keyOid = readOid(spki.children[0].children[0]);
+
+  if (keyOid === '1.2.840.10045.2.1') {
+    return crypto.subtle.importKey('spki', spki.der, { name: 'ECDSA', namedCurve: 'P-256' }, false, ['verify']);
+  }
+
+  const hash = signatureAlgorithm === ALGORITHMS.rsaSha1 ? 'SHA-1' : 'SHA-256';
+  return crypto.subtle.importKey('spki', spki.der, { name: 'RSASSA-PKCS1-v1_5', hash }, false, ['verify']);
+}
+
+/**
+ * Verify an enveloped XML-DSig signature against the IdP's signing keys
+ */
+async function verifyXmlSignature(doc: Document, signedElement: Element, signature: Element, signingKeys: SigningKeyInfo[]) {
+  const signedInfo = directChild(signature, NS.ds, 'SignedInfo');
+  const signatureValue = directChild(signature, NS.ds, 'SignatureValue')?.textContent;
+  if (!signedInfo || !signatureValue) {
+    throw new FederationError('Signature is missing SignedInfo or SignatureValue');
+  }
+
+  const c14nMethod = directChild(signedInfo, NS.ds, 'CanonicalizationMethod')?.getAttribute('Algorithm');
+  if (c14nMethod !== ALGORITHMS.excC14n) {
+    throw new FederationError(`Unsupported canonicalization method: ${c14nMethod}`);
+  }
+
+  const signatureMethod = directChild(signedInfo, NS.ds, 'SignatureMethod')?.getAttribute('Algorithm') || '';
+  const reference = directChild(signedInfo, NS.ds, 'Reference');
+  const signedId = signedElement.getAttribute('ID');
+  if (!reference || reference.getAttribute('URI') !== `#${signedId}` || findById(doc, signedId || '') !== signedElement) {
+    throw new FederationError('Signature reference does not point at the signed element');
+  }
+
+  for (const transform of elementsByName(reference, NS.ds, 'Transform')) {
+    const algorithm = transform.getAttribute('Algorithm');
+    if (algorithm !== ALGORITHMS.enveloped && algorithm !== ALGORITHMS.excC14n) {
+      throw new FederationError(`Unsupported signature transform: ${algorithm}`);
+    }
+  }
+
+  // 1. Reference digest over the signed element without its Signature
+  const digestMethod = directChild(reference, NS.ds, 'DigestMethod')?.getAttribute('Algorithm');
+  const digestAlgorithm = digestMethod === ALGORITHMS.sha1 ? 'SHA-1' : digestMethod === ALGORITHMS.sha256 ? 'SHA-256' : null;
+  if (!digestAlgorithm) {
+    throw new FederationError(`Unsupported digest method: ${digestMethod}`);
+  }
+  const elementDigest = await digest(digestAlgorithm, new TextEncoder().encode(canonicalize(signedElement, signature)));
+  if (base64Encode(elementDigest) !== directChild(reference, NS.ds, 'DigestValue')?.textContent?.trim()) {
+    throw new FederationError('Assertion digest mismatch - document was modified');
+  }
+
+  // 2. Signature over canonical SignedInfo
+  const signedInfoBytes = new TextEncoder().encode(canonicalize(signedInfo));
+  const signatureBytes = base64Decode(signatureValue);
+  const isEcdsa = signatureMethod === ALGORITHMS.ecdsaSha256;
+
+  for (const key of signingKeys) {
+    try {
+      const cryptoKey = key.certificate
+        ? await importCertificateKey(key.certificate, signatureMethod)
+        : await crypto.subtle.importKey(
+            'jwk',
+            key.jwk as JsonWebKey,
+            { name: 'RSASSA-PKCS1-v1_5', hash: signatureMethod === ALGORITHMS.rsaSha1 ? 'SHA-1' : 'SHA-256' },
+            false,
+            ['verify']
+          );
+      const valid = isEcdsa
+        ? await crypto.subtle.verify({ name: 'ECDSA', hash: 'SHA-256' }, cryptoKey, signatureBytes, signedInfoBytes)
+        : await crypto.subtle.verify('RSASSA-PKCS1-v1_5', cryptoKey, signatureBytes, signedInfoBytes);
+      if (valid) return;
+    } catch (error) {
+      console.warn('Signing key could not be used for verification:', error);
+    }
+  }
+
+  throw new FederationError('Assertion signature is invalid');
+}
+
+/**
+ * Validate a base64 SAML Response and extract the asserted identity
+ */
+async function validateSAMLResponse(
+  samlResponse: string,
+  metadata: SAMLIdPMetadata,
+  options: { spEntityId: string; acsUrl: string | null; inResponseTo: string }
+): Promise<FederatedIdentity> {
+  const xml = new TextDecoder().decode(base64Decode(samlResponse));
+  const doc = parseXml(xml);
+  const skewMs = CLOCK_SKEW_SECONDS * 1000;
+  const now = Date.now();
+
+  const response = firstChild(doc, NS.samlp, 'Response');
+  if (!response) {
+    throw new FederationError('Document is not a SAML Response');
+  }
+
+  const statusCode = firstChild(response, NS.samlp, 'StatusCode')?.getAttribute('Value');
+  if (statusCode !== 'urn:oasis:names:tc:SAML:2.0:status:Success') {
+    throw new FederationError(`IdP returned non-success status: ${statusCode || 'missing'}`);
+  }
+
+  // Unsolicited responses are refused; each one must answer a request this SP issued
+  if (response.getAttribute('InResponseTo') !== options.inResponseTo) {
+    throw new FederationError('InResponseTo does not match the authentication request');
+  }
+
+  if (elementsByName(doc, NS.saml, 'EncryptedAssertion').length > 0) {
+    throw new FederationError('Encrypted assertions are not supported');
+  }
+
+  const assertions = elementsByName(doc, NS.saml, 'Assertion');
+  if (assertions.length !== 1) {
+    throw new FederationError('Response must contain exactly one assertion');
+  }
+  const assertion = assertions[0];
+  const assertionId = assertion.getAttribute('ID');
+  if (!assertionId) {
+    throw new FederationError('Assertion has no ID');
+  }
+
+  // Either the assertion or the enclosing response must carry a valid signature
+  const assertionSignature = directChild(assertion, NS.ds, 'Signature');
+  const signature = assertionSignature || directChild(response, NS.ds, 'Signature');
+  if (!signature) {
+    throw new FederationError('Assertion is not signed');
+  }
+  await verifyXmlSignature(doc, assertionSignature ? assertion : response, signature, metadata.signingKeys);
+
+  const issuer = directChild(assertion, NS.saml, 'Issuer')?.textContent?.trim() || '';
+  if (issuer !== metadata.entityId) {
+    throw new FederationError(`Unexpected assertion issuer: ${issuer}`);
+  }
+
+  // An assertion without an audience restriction could have been issued to any SP
+  const conditions = directChild(assertion, NS.saml, 'Conditions');
+  if (!conditions) {
+    throw new FederationError('Assertion has no Conditions');
+  }
+  const notBefore = conditions.getAttribute('NotBefore');
+  const notOnOrAfter = conditions.getAttribute('NotOnOrAfter');
+  if (notBefore && now + skewMs < Date.parse(notBefore)) {
+    throw new FederationError('Assertion is not yet valid');
+  }
+  if (notOnOrAfter && now - skewMs >= Date.parse(notOnOrAfter)) {
+    throw new FederationError('Assertion has expired');
+  }
+
+  const audiences = elementsByName(conditions, NS.saml, 'Audience').map(a => a.textContent?.trim());
+  if (!audiences.includes(options.spEntityId)) {
+    throw new FederationError('Assertion audience does not include this service provider');
+  }
+
+  const subject = directChild(assertion, NS.saml, 'Subject');
+  const nameId = subject ? directChild(subject, NS.saml, 'NameID')?.textContent?.trim() : null;
+  if (!nameId) {
+    throw new FederationError('Assertion has no subject NameID');
+  }
+
+  const confirmationData = subject ? firstChild(subject, NS.saml, 'SubjectConfirmationData') : null;
+  const confirmationExpiry = confirmationData?.getAttribute('NotOnOrAfter');
+  if (confirmationData) {
+    const recipient = confirmationData.getAttribute('Recipient');
+    const confirmationInResponseTo = confirmationData.getAttribute('InResponseTo');
+    if (options.acsUrl && recipient && recipient !== options.acsUrl) {
+      throw new FederationError('Subject confirmation recipient does not match ACS URL');
+    }
+    if (confirmationInResponseTo && confirmationInResponseTo !== options.inResponseTo) {
+      throw new FederationError('Subject confirmation does not answer the authentication request');
+    }
+    if (confirmationExpiry && now - skewMs >= Date.parse(confirmationExpiry)) {
+      throw new FederationError('Subject confirmation has expired');
+    }
+  }
+
+  // The assertion ID is remembered until then, so it needs an end
+  const expiries = [notOnOrAfter, confirmationExpiry].filter((v): v is string => Boolean(v)).map(v => Date.parse(v));
+  if (expiries.length === 0) {
+    throw new FederationError('Assertion has no NotOnOrAfter');
+  }
+
+  const claims: JsonObject = { nameId };
+  for (const attribute of elementsByName(assertion, NS.saml, 'Attribute')) {
+    const name = attribute.getAttribute('Name');
+    if (!name) continue;
+    const values = elementsByName(attribute, NS.saml, 'AttributeValue').map(v => v.textContent?.trim() || '');
+    claims[name] = values.length === 1 ? values[0] : values;
+  }
+
+  const sessionNotOnOrAfter = directChild(assertion, NS.saml, 'AuthnStatement')?.getAttribute('SessionNotOnOrAfter');
+
+  return {
+    protocol: 'saml',
+    issuer,
+    subject: nameId,
+    email: null,
+    fullName: null,
+    groups: [],
+    claims,
+    sessionExpiresAt: sessionNotOnOrAfter ? new Date(sessionNotOnOrAfter).toISOString() : null,
+    rawHash: await sha256Hex(xml),
+    assertionId,
+    assertionExpiresAt: new Date(Math.min(...expiries) + skewMs).toISOString(),
+  };
+}
+
+// ============================================================================
+// OIDC ID token validation
+// ============================================================================
+
+/**
+ * Validate a compact-serialized ID token against the provider's JWKS
+ */
+async function validateIdToken(
+  idToken: string,
+  metadata: OIDCIdPMetadata,
+  options: { clientId: string; nonce: string | null }
+): Promise<FederatedIdentity> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw new FederationError('ID token is not a compact JWS');
+  }
+
+  let header: JsonObject;
+  let claims: JsonObject;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64Decode(parts[0])));
+    claims = JSON.parse(new TextDecoder().decode(base64Decode(parts[1])));
+  } catch {
+    throw new FederationError('ID token is not valid JSON');
+  }
+  const now = Math.floor(Date.now() / 1000);
+
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    throw new FederationError(`Unsupported ID token algorithm: ${header.alg}`);
+  }
+  if (!metadata.jwks || metadata.jwks.keys.length === 0) {
+    throw new FederationError('Provider JWKS is not available');
+  }
+
+  const candidates = metadata.jwks.keys.filter(key => (!header.kid || key.kid === header.kid) && (!key.use || key.use === 'sig'));
+  if (candidates.length === 0) {
+    throw new FederationError(`No signing key found for kid ${header.kid}`);
+  }
+
+  const signingInput = new TextEncoder().encode(`${parts[0]}.${parts[1]}`);
+  const signature = base64Decode(parts[2]);
+  const isEcdsa = header.alg === 'ES256';
+  let verified = false;
+  for (const jwk of candidates) {
+    try {
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        jwk,
+        isEcdsa ? { name: 'ECDSA', namedCurve: 'P-256' } : { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      if (await crypto.subtle.verify(isEcdsa ? { name: 'ECDSA', hash: 'SHA-256' } : 'RSASSA-PKCS1-v1_5', key, signature, signingInput)) {
+        verified = true;
+        break;
+      }
+    } catch (error) {
+      console.warn('JWK could not be used for verification:', error);
+    }
+  }
+  if (!verified) {
+    throw new FederationError('ID token signature is invalid');
+  }
+
+  if (claims.iss !== metadata.issuer) {
+    throw new FederationError(`Unexpected token issuer: ${claims.iss}`);
+  }
+
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(options.clientId)) {
+    throw new FederationError('ID token audience does not include this client');
+  }
+  if (audiences.length > 1 && claims.azp !== options.clientId) {
+    throw new FederationError('ID token authorized party does not match this client');
+  }
+
+  if (typeof claims.exp !== 'number' || now - CLOCK_SKEW_SECONDS >= claims.exp) {
+    throw new FederationError('ID token has expired');
+  }
+  if (typeof claims.nbf === 'number' && now + CLOCK_SKEW_SECONDS < claims.nbf) {
+    throw new FederationError('ID token is not yet valid');
+  }
+  if (typeof claims.iat === 'number' && claims.iat > now + CLOCK_SKEW_SECONDS) {
+    throw new FederationError('ID token was issued in the future');
+  }
+  if (!options.nonce || claims.nonce !== options.nonce) {
+    throw new FederationError('ID token nonce does not match the authentication request');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new FederationError('ID token has no subject');
+  }
+
+  const rawHash = await sha256Hex(idToken);
+  return {
+    protocol: 'oidc',
+    issuer: claims.iss as string,
+    subject: claims.sub,
+    email: null,
+    fullName: null,
+    groups: [],
+    claims,
+    sessionExpiresAt: new Date(claims.exp * 1000).toISOString(),
+    rawHash,
+    // Tokens without a jti are told apart by their hash
+    assertionId: typeof claims.jti === 'string' && claims.jti ? `jti:${claims.jti}` : `sha256:${rawHash}`,
+    assertionExpiresAt: new Date((claims.exp + CLOCK_SKEW_SECONDS) * 1000).toISOString(),
+  };
+}
+
+// ============================================================================
+// Claims, roles and accounts
+// ============================================================================
+
+async function getProvider(supabase: SupabaseClient, providerId: string): Promise<FederationProvider> {
+  const { data, error } = await supabase
+    .from('federation_providers')
+    .select('*')
+    .eq('id', providerId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new HttpError(404, 'Federation provider not found');
+  }
+
+  return {
+    ...data,
+    configuration: (data.configuration || {}) as JsonObject,
+    attribute_mappings: (data.attribute_mappings || {}) as Record<string, string>,
+  } as FederationProvider;
+}
+
+/**
+ * Validate the assertion against the provider's metadata. The audience comes
+ * from the provider configuration and the per-request values (nonce,
+ * InResponseTo, ACS URL) from the login request this function issued.
+ */
+async function validateAssertion(
+  provider: FederationProvider,
+  metadata: IdPMetadata,
+  audience: string,
+  request: LoginRequest,
+  assertion: Assertion
+): Promise<FederatedIdentity> {
+  if (!audience) {
+    throw new HttpError(400, `${provider.name} has no ${metadata.protocol === 'saml' ? 'SP entity ID' : 'client ID'} configured`);
+  }
+
+  if (metadata.protocol === 'saml') {
+    if (!assertion.samlResponse) {
+      throw new HttpError(400, 'samlResponse is required for a SAML provider');
+    }
+    return validateSAMLResponse(assertion.samlResponse, metadata, {
+      spEntityId: audience,
+      acsUrl: request.acs_url,
+      inResponseTo: request.id,
+    });
+  }
+
+  if (!assertion.idToken) {
+    throw new HttpError(400, 'idToken is required for an OIDC provider');
+  }
+  return validateIdToken(assertion.idToken, metadata, { clientId: audience, nonce: request.nonce });
+}
+
+function applyAttributeMappings(identity: FederatedIdentity, provider: FederationProvider): FederatedIdentity {
+  const mappings = { ...DEFAULT_ATTRIBUTE_MAPPINGS[identity.protocol], ...provider.attribute_mappings };
+
+  const pick = (key: string): unknown => identity.claims[mappings[key]];
+  const asString = (value: unknown): string | null =>
+    Array.isArray(value) ? (value[0] as string) ?? null : typeof value === 'string' ? value : null;
+
+  const email = asString(pick('email')) || (identity.subject.includes('@') ? identity.subject : null);
+  const groups = pick('groups');
+
+  return {
+    ...identity,
+    email,
+    fullName: asString(pick('full_name')),
+    groups: Array.isArray(groups) ? groups.map(String) : typeof groups === 'string' ? [groups] : [],
+    claims: {
+      ...identity.claims,
+      email,
+      groups: Array.isArray(groups) ? groups : groups ? [groups] : [],
+    },
+  };
+}
+
+function claimMatches(value: unknown, mapping: RoleMapping): boolean {
+  if (value === undefined || value === null) return false;
+
+  const values = Array.isArray(value) ? value.map(String) : [String(value)];
+  return values.some(candidate => {
+    // Email domain mappings are stored as "@example.com"
+    if (mapping.provider_claim_key === 'email' && mapping.provider_claim_value.startsWith('@')) {
+      return candidate.toLowerCase().endsWith(mapping.provider_claim_value.toLowerCase());
+    }
+    return candidate === mapping.provider_claim_value;
+  });
+}
+
+/**
+ * Map validated claims to a system role using sso_role_mappings.
+ * The most privileged matching mapping wins.
+ */
+async function resolveRole(supabase: SupabaseClient, providerName: string, claims: JsonObject) {
+  const { data, error } = await supabase
+    .from('sso_role_mappings')
+    .select('id, provider_claim_key, provider_claim_value, mapped_role, created_by')
+    .eq('provider', providerName)
+    .eq('is_active', true);
+  if (error) throw error;
+
+  let role: SystemRole = 'user';
+  let assignedBy: string | null = null;
+  const matchedMappings: string[] = [];
+
+  for (const mapping of (data || []) as RoleMapping[]) {
+    if (!claimMatches(claims[mapping.provider_claim_key], mapping)) continue;
+
+    matchedMappings.push(mapping.id);
+    if (ROLE_PRIORITY[mapping.mapped_role] > ROLE_PRIORITY[role]) {
+      role = mapping.mapped_role;
+      assignedBy = mapping.created_by;
+    }
+  }
+
+  return { role, matchedMappings, assignedBy };
+}
+
+/**
+ * The asserted email if the IdP vouches for it: its domain is one of the
+ * provider's verified_domains or, without any configured, the ID token says
+ * email_verified. SAML carries no such claim, so it needs the domains.
+ */
+function verifiedEmail(provider: FederationProvider, identity: FederatedIdentity): string | null {
+  const email = identity.email?.trim().toLowerCase();
+  if (!email || !email.includes('@')) return null;
+
+  const configured = provider.configuration.verified_domains;
+  const domains = (Array.isArray(configured) ? configured : [])
+    .map(domain => String(domain).trim().toLowerCase().replace(/^@/, ''))
+    .filter(Boolean);
+  if (domains.length > 0) {
+    return domains.includes(email.slice(email.lastIndexOf('@') + 1)) ? email : null;
+  }
+
+  const claim = identity.claims.email_verified;
+  return identity.protocol === 'oidc' && (claim === true || claim === 'true') ? email : null;
+}
+
+async function accountEmail(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data: { user }, error } = await supabase.auth.admin.getUserById(userId);
+  if (error) throw error;
+  return user?.email?.toLowerCase() || null;
+}
+
+/**
+ * Find or create the account the federated subject signs in to.
+ *
+ * A subject already linked signs in to its account. Otherwise it is linked
+ * to the signed-in account, or to the account with the asserted email, only
+ * when the IdP vouches for that account's email; any other link is stored
+ * as pending until an administrator approves it. With neither, a new
+ * account is provisioned for the verified email if the provider allows it.
+ * An account has at most one identity per provider.
+ */
+async function resolveAccount(
+  supabase: SupabaseClient,
+  provider: FederationProvider,
+  identity: FederatedIdentity,
+  callerId: string | null
+): Promise<{ userId: string; linked: boolean; provisioned: boolean }> {
+  const now = new Date().toISOString();
+  const { data: bound, error } = await supabase
+    .from('federated_identities')
+    .select('id, user_id, status')
+    .eq('provider_id', provider.id)
+    .eq('subject', identity.subject)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (bound) {
+    if (callerId && bound.user_id !== callerId) {
+      throw new HttpError(403, `This ${provider.name} identity is linked to another account`);
+    }
+    if (bound.status !== 'active') {
+      throw new HttpError(403, `Linking this ${provider.name} identity is awaiting administrator approval`);
+    }
+    await supabase.from('federated_identities').update({ last_login_at: now }).eq('id', bound.id);
+    return { userId: bound.user_id, linked: false, provisioned: false };
+  }
+
+  const email = verifiedEmail(provider, identity);
+  let userId = callerId;
+  if (!userId && email) {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('email', email)
+      .is('deleted_at', null)
+      .maybeSingle();
+    if (profileError) throw profileError;
+    userId = profile?.user_id ?? null;
+  }
+
+  let provisioned = false;
+  if (!userId) {
+    if (!provider.auto_provisioning) {
+      throw new HttpError(403, `No local account exists and ${provider.name} does not allow auto-provisioning`);
+    }
+    if (!email) {
+      throw new HttpError(403, `${provider.name} did not vouch for an email address, which provisioning requires`);
+    }
+
+    // handle_new_user creates the profile and the default role
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email,
+      email_confirm: true,
+      user_metadata: { full_name: identity.fullName },
+    });
+    if (createError) throw createError;
+    userId = created.user.id;
+    provisioned = true;
+  }
+
+  const { data: linked } = await supabase
+    .from('federated_identities')
+    .select('subject')
+    .eq('provider_id', provider.id)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (linked) {
+    throw new HttpError(403, `This account is linked to another ${provider.name} identity`);
+  }
+
+  const vouched = provisioned || (email !== null && email === await accountEmail(supabase, userId));
+
+  // The unique constraints settle a concurrent first login
+  const { error: insertError } = await supabase
+    .from('federated_identities')
+    .insert({
+      provider_id: provider.id,
+      subject: identity.subject,
+      user_id: userId,
+      email: identity.email,
+      status: vouched ? 'active' : 'pending',
+      last_login_at: vouched ? now : null,
+    });
+  if (insertError) {
+    throw new HttpError(409, `${provider.name} identity was linked by another request`);
+  }
+  if (!vouched) {
+    throw new HttpError(403, `${provider.name} did not vouch for this account's email; an administrator must approve the link`);
+  }
+
+  return { userId, linked: true, provisioned };
+}
+
+/**
+ * Sync the profile and the mapped role. The login that links an identity
+ * never raises the account's role: a mapping to a higher role applies from
+ * the next login, once the link is established. Returns the account's role.
+ */
+async function syncAccount(
+  supabase: SupabaseClient,
+  userId: string,
+  identity: FederatedIdentity,
+  role: SystemRole,
+  hasExplicitMapping: boolean,
+  assignedBy: string | null,
+  provider: FederationProvider,
+  firstLogin: boolean
+): Promise<SystemRole> {
+  if (provider.auto_provisioning && identity.fullName) {
+    // Keep directory-sourced attributes in sync on each login
+    await supabase
+      .from('profiles')
+      .update({ full_name: identity.fullName })
+      .eq('user_id', userId);
+  }
+
+  const { data: existingRole } = await supabase
+    .from('user_roles')
+    .select('id, role')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+  const current = existingRole?.role as SystemRole | undefined;
+  const allowed = firstLogin && ROLE_PRIORITY[role] > ROLE_PRIORITY[current ?? 'user'] ? current ?? 'user' : role;
+
+  if (!existingRole) {
+    const { error } = await supabase
+      .from('user_roles')
+      .insert({ user_id: userId, role: allowed, assigned_by: allowed === role ? assignedBy : null });
+    if (error) throw error;
+    return allowed;
+  }
+
+  if (hasExplicitMapping && provider.auto_provisioning && current !== allowed) {
+    const { error } = await supabase.from('user_roles').update({ role: allowed, assigned_by: assignedBy }).eq('user_id', userId);
+    if (error) throw error;
+    return allowed;
+  }
+
+  return current as SystemRole;
+}
+
+/**
+ * Hashed magic-link token for the account; the client exchanges it with
+ * verifyOtp for a Supabase session
+ */
+async function issueSignInToken(supabase: SupabaseClient, userId: string): Promise<string> {
+  const email = await accountEmail(supabase, userId);
+  if (!email) {
+    throw new HttpError(409, 'The account has no email address to sign in with');
+  }
+
+  const { data, error } = await supabase.auth.admin.generateLink({ type: 'magiclink', email });
+  if (error) throw error;
+  return data.properties.hashed_token;
+}
+
+/**
+ * Record the session, signed with the organisation key over a statement
+ * binding it to the account, provider, asserted claims and expiry. Must match
+ * sessionStatement in src/lib/federation-service.ts.
+ */
+async function recordSession(
+  supabase: SupabaseClient,
+  userId: string,
+  provider: FederationProvider,
+  identity: FederatedIdentity
+): Promise<string> {
+  const claimsHash = await sha256Hex(canonicalJson({
+    issuer: identity.issuer,
+    subject: identity.subject,
+    claims: identity.claims,
+  }));
+
+  const maxExpiry = Date.now() + MAX_SSO_SESSION_HOURS * 60 * 60 * 1000;
+  const expiresAt = Math.min(identity.sessionExpiresAt ? Date.parse(identity.sessionExpiresAt) : maxExpiry, maxExpiry);
+  const sessionId = toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+  const statement = canonicalJson({ sessionId, userId, provider: provider.name, claimsHash, expiresAt });
+  const { keyId, signature } = await signAsOrganization(supabase, 'sso-session', new TextEncoder().encode(statement));
+
+  const { error } = await supabase
+    .from('quantum_sso_sessions')
+    .insert({
+      user_id: userId,
+      provider: provider.name,
+      session_id: sessionId,
+      expires_at: new Date(expiresAt).toISOString(),
+      quantum_signature: JSON.stringify({ algorithm: ORG_SIGNING_ALGORITHM, keyId, claimsHash, signature }),
+      jwt_claims_hash: identity.protocol === 'oidc' ? claimsHash : null,
+      saml_response_hash: identity.protocol === 'saml' ? identity.rawHash : null,
+    });
+  if (error) throw error;
+
+  return sessionId;
+}
+
+// ============================================================================
+// Logins
+// ============================================================================
+
+/**
+ * Issue an authentication request for the provider. Its ID is the SAML
+ * AuthnRequest ID or the OIDC state, and the response must answer it.
+ */
+async function startLogin(supabase: SupabaseClient, providerId: string, acsUrl?: string) {
+  // Disabled providers get requests too, so administrators can test them
+  const provider = await getProvider(supabase, providerId);
+  const now = new Date();
+  await supabase.from('federation_login_requests').delete().lt('expires_at', now.toISOString());
+
+  const random = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const isSaml = provider.provider_type === 'saml';
+  // SAML IDs are xs:ID values, which cannot start with a digit
+  const request: LoginRequest = {
+    id: isSaml ? `_${random()}` : random(),
+    provider_id: provider.id,
+    nonce: isSaml ? null : random(),
+    acs_url: isSaml ? acsUrl || null : null,
+  };
+  const expiresAt = new Date(now.getTime() + LOGIN_REQUEST_TTL_MINUTES * 60 * 1000).toISOString();
+
+  const { error } = await supabase
+    .from('federation_login_requests')
+    .insert({ ...request, expires_at: expiresAt });
+  if (error) throw error;
+
+  return { requestId: request.id, nonce: request.nonce, acsUrl: request.acs_url, expiresAt };
+}
+
+/**
+ * Mark the login request used and return it; a request answers one response
+ */
+async function consumeLoginRequest(supabase: SupabaseClient, providerId: string, requestId: unknown): Promise<LoginRequest> {
+  if (typeof requestId !== 'string' || !requestId) {
+    throw new HttpError(400, 'requestId is required');
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('federation_login_requests')
+    .update({ consumed_at: now })
+    .eq('id', requestId)
+    .eq('provider_id', providerId)
+    .is('consumed_at', null)
+    .gt('expires_at', now)
+    .select('id, provider_id, nonce, acs_url')
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new FederationError('Authentication request is unknown, expired or already answered');
+  }
+  return data as LoginRequest;
+}
+
+/**
+ * Remember the assertion until it expires; a second use is a replay
+ */
+async function recordAssertion(supabase: SupabaseClient, provider: FederationProvider, identity: FederatedIdentity) {
+  await supabase
+    .from('federation_consumed_assertions')
+    .delete()
+    .lt('expires_at', new Date().toISOString());
+
+  const { error } = await supabase
+    .from('federation_consumed_assertions')
+    .insert({ provider_id: provider.id, assertion_id: identity.assertionId, expires_at: identity.assertionExpiresAt });
+  if (error?.code === '23505') {
+    throw new FederationError('Assertion has already been used');
+  }
+  if (error) throw error;
+}
+
+/**
+ * Sign in with an assertion from the provider: resolve or provision the
+ * account, sync its profile and mapped role and record a signed session.
+ * Callers without a session get a sign-in token for the account.
+ */
+async function login(
+  supabase: SupabaseClient,
+  callerId: string | null,
+  providerId: string,
+  requestId: unknown,
+  assertion: Assertion
+) {
+  const provider = await getProvider(supabase, providerId);
+
+  try {
+    if (!provider.is_enabled) {
+      throw new HttpError(403, `${provider.name} is disabled`);
+    }
+
+    const request = await consumeLoginRequest(supabase, provider.id, requestId);
+    const metadata = await loadMetadata(provider);
+    const audience = (provider.configuration[metadata.protocol === 'saml' ? 'sp_entity_id' : 'client_id'] as string) || '';
+    const identity = applyAttributeMappings(
+      await validateAssertion(provider, metadata, audience, request, assertion),
+      provider
+    );
+    await recordAssertion(supabase, provider, identity);
+
+    const { userId, linked, provisioned } = await resolveAccount(supabase, provider, identity, callerId);
+    const resolved = await resolveRole(supabase, provider.name, identity.claims);
+    const { matchedMappings } = resolved;
+    const role = await syncAccount(
+      supabase,
+      userId,
+      identity,
+      resolved.role,
+      matchedMappings.length > 0,
+      resolved.assignedBy,
+      provider,
+      linked
+    );
+    const sessionId = await recordSession(supabase, userId, provider, identity);
+    const signInTokenHash = callerId ? undefined : await issueSignInToken(supabase, userId);
+
+    await supabase.rpc('log_audit_event', {
+      _action: 'SSO_LOGIN',
+      _resource: 'quantum_sso_sessions',
+      _resource_id: provider.id,
+      _details: {
+        user_id: userId,
+        session_id: sessionId,
+        provider: provider.name,
+        protocol: identity.protocol,
+        subject: identity.subject,
+        mapped_role: role,
+        matched_mappings: matchedMappings,
+        linked,
+        provisioned,
+      },
+    });
+
+    return {
+      success: true,
+      userId,
+      identity,
+      role,
+      matchedMappings,
+      sessionId,
+      provisioned,
+      signInTokenHash,
+      message: `Signed in via ${provider.name} as ${role}`,
+    };
+  } catch (error) {
+    await supabase.rpc('log_audit_event', {
+      _action: 'SSO_LOGIN_FAILED',
+      _resource: 'federation_providers',
+      _resource_id: provider.id,
+      _details: { user_id: callerId, reason: error instanceof Error ? error.message : 'unknown' },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Approve a pending link between a federated subject and an account
+ */
+async function approveLink(supabase: SupabaseClient, adminId: string, identityId: string) {
+  const { data, error } = await supabase
+    .from('federated_identities')
+    .update({ status: 'active', approved_by: adminId, approved_at: new Date().toISOString() })
+    .eq('id', identityId)
+    .eq('status', 'pending')
+    .select('id, provider_id, subject, user_id')
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    throw new HttpError(404, 'No pending link with this ID');
+  }
+
+  await supabase.rpc('log_audit_event', {
+    _action: 'SSO_LINK_APPROVED',
+    _resource: 'federated_identities',
+    _resource_id: data.id,
+    _details: { provider_id: data.provider_id, subject: data.subject, user_id: data.user_id, approved_by: adminId },
+  });
+
+  return { success: true, identityId: data.id };
+}
+
+/**
+ * Validate an assertion and resolve its role without touching any account.
+ * Administrators use it with the local stand-in IdP, whose metadata replaces
+ * the provider's.
+ */
+async function testLogin(
+  supabase: SupabaseClient,
+  providerId: string,
+  requestId: unknown,
+  assertion: Assertion,
+  idp: { metadata_xml?: string; discovery?: JsonObject; jwks?: JsonWebKeySet },
+  audience?: string
+) {
+  const provider = await getProvider(supabase, providerId);
+  const request = await consumeLoginRequest(supabase, provider.id, requestId);
+  const metadata = await loadMetadata({
+    ...provider,
+    configuration: { ...provider.configuration, ...idp },
+    metadata_url: null,
+    certificate: null,
+  });
+  const configured = provider.configuration[metadata.protocol === 'saml' ? 'sp_entity_id' : 'client_id'] as string;
+  const identity = applyAttributeMappings(
+    await validateAssertion(provider, metadata, configured || audience || '', request, assertion),
+    provider
+  );
+  const { role, matchedMappings } = await resolveRole(supabase, provider.name, identity.claims);
+
+  return {
+    success: true,
+    identity,
+    role,
+    matchedMappings,
+    provisioned: false,
+    message: `${identity.subject} would sign in via ${provider.name} as ${role}`,
+  };
+}
+
+// ============================================================================
+// Request handling
+// ============================================================================
+
+/** The signed-in caller, or null when the request carries only the anon key */
+async function getCaller(req: Request, supabase: SupabaseClient): Promise<{ id: string; isAdmin: boolean } | null> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) return null;
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return { id: user.id, isAdmin: Boolean(isAdmin) };
+}
+
+async function requireAdmin(req: Request, supabase: SupabaseClient): Promise<string> {
+  const caller = await getCaller(req, supabase);
+  if (!caller) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+  if (!caller.isAdmin) {
+    throw new HttpError(403, 'Only administrators can manage federation');
+  }
+  return caller.id;
+}
+
+/**
+ * Federation: SAML 2.0 and OpenID Connect sign-in against federation_providers
+ *
+ * Anyone:
+ *   POST /start   { providerId, acsUrl? }
+ *                 issue an authentication request: its requestId is the SAML AuthnRequest ID or
+ *                 the OIDC state, with the nonce the ID token must carry
+ *
+ *   POST /login   { providerId, requestId, samlResponse | idToken }
+ *                 validate the assertion against the request it answers and sign in to the
+ *                 linked account; on first use link the identity to the caller's account or the
+ *                 account with the asserted email when the IdP vouches for it, else provision
+ *                 one or hold the link for approval. Records a session signed with the
+ *                 organisation key; callers without a session get a signInTokenHash for verifyOtp
+ *
+ * Administrators:
+ *   POST /approve { identityId }
+ *                 approve a pending link between a federated subject and an account
+ *
+ *   POST /test    { providerId, requestId, samlResponse | idToken, idp: { metadata_xml | discovery, jwks }, audience? }
+ *                 validate an assertion from a stand-in IdP and report the role it maps to;
+ *                 no account, identity link or session is written
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('federation') + 1);
+
+    if (req.method === 'POST' && route[0] === 'approve') {
+      const adminId = await requireAdmin(req, supabase);
+      const body = await req.json();
+      if (typeof body.identityId !== 'string' || !body.identityId) {
+        throw new HttpError(400, 'identityId is required');
+      }
+      return jsonResponse(await approveLink(supabase, adminId, body.identityId));
+    }
+
+    if (req.method === 'POST' && ['start', 'login', 'test'].includes(route[0])) {
+      const body = await req.json();
+      if (typeof body.providerId !== 'string' || !body.providerId) {
+        throw new HttpError(400, 'providerId is required');
+      }
+
+      if (route[0] === 'start') {
+        return jsonResponse(await startLogin(supabase, body.providerId, body.acsUrl));
+      }
+
+      const assertion: Assertion = { samlResponse: body.samlResponse, idToken: body.idToken };
+
+      if (route[0] === 'login') {
+        const caller = await getCaller(req, supabase);
+        return jsonResponse(await login(supabase, caller?.id ?? null, body.providerId, body.requestId, assertion));
+      }
+
+      await requireAdmin(req, supabase);
+      return jsonResponse(await testLogin(supabase, body.providerId, body.requestId, assertion, body.idp || {}, body.audience));
+    }
+
+    return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+
+    console.error('Federation error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
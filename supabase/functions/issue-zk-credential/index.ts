@@ -0,0 +1,150 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ristretto255, ristretto255_hasher } from 'https://esm.sh/@noble/curves@2.0.1/ed25519.js';
+import {
+  bytesToHex,
+  bytesToNumberLE,
+  concatBytes,
+  numberToBytesLE,
+  randomBytes
+} from 'https://esm.sh/@noble/curves@2.0.1/utils.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Must match src/lib/zero-knowledge-proofs.ts
+const DST = 'QUANTUM-IAM-ZK-RISTRETTO255-V1';
+const CREDENTIAL_TTL_DAYS = 30;
+
+const Fn = ristretto255.Point.Fn;
+const G = ristretto255.Point.BASE;
+const H = ristretto255_hasher.hashToCurve(new TextEncoder().encode('pedersen-h'), { DST });
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function transcript(...parts: string[]): Uint8Array {
+  return concatBytes(...parts.flatMap(part => {
+    const bytes = new TextEncoder().encode(part);
+    return [numberToBytesLE(BigInt(bytes.length), 4), bytes];
+  }));
+}
+
+function randomScalar(): bigint {
+  let scalar = Fn.ZERO;
+  while (Fn.is0(scalar)) {
+    scalar = Fn.create(bytesToNumberLE(randomBytes(64)));
+  }
+  return scalar;
+}
+
+function commit(value: bigint, blinding: bigint) {
+  const valuePoint = Fn.is0(value) ? ristretto255.Point.ZERO : G.multiply(value);
+  return valuePoint.add(H.multiply(blinding));
+}
+
+const scalarToHex = (scalar: bigint) => bytesToHex(numberToBytesLE(scalar, 32));
+
+/**
+ * Zero-knowledge credential issuance
+ * Commits to the caller's current trust score and effective role under the
+ * identity key they generated, and returns the openings to them only. The
+ * score and role come from the database, so users cannot attest their own.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!token) {
+      return jsonResponse({ error: 'Missing authorization' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { identityKey } = await req.json();
+    try {
+      const point = ristretto255.Point.fromHex(identityKey);
+      if (point.is0()) throw new Error('Identity key is the identity element');
+    } catch {
+      return jsonResponse({ error: 'identityKey must be a ristretto255 point' }, 400);
+    }
+
+    const [{ data: role, error: roleError }, { data: assessment, error: riskError }] = await Promise.all([
+      supabase.rpc('get_effective_user_role', { _user_id: user.id }),
+      supabase.rpc('calculate_ai_risk_score', { _user_id: user.id, _current_context: {} })
+    ]);
+    if (roleError) throw roleError;
+    if (riskError) throw riskError;
+
+    const riskScore = Number((assessment as { risk_score?: number } | null)?.risk_score ?? 100);
+    const trustScore = Math.max(0, Math.min(100, Math.round(100 - riskScore)));
+    const roleName = String(role || 'user');
+
+    const scoreBlinding = randomScalar();
+    const roleBlinding = randomScalar();
+    const scoreCommitment = commit(BigInt(trustScore), scoreBlinding).toHex();
+    const roleCommitment = commit(
+      ristretto255_hasher.hashToScalar(transcript('role', roleName), { DST }),
+      roleBlinding
+    ).toHex();
+    const expiresAt = new Date(Date.now() + CREDENTIAL_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    // One live credential per user keeps the anonymity set one leaf per person
+    const { error: revokeError } = await supabase
+      .from('zk_credentials')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('revoked_at', null);
+    if (revokeError) throw revokeError;
+
+    const { data: credential, error: insertError } = await supabase
+      .from('zk_credentials')
+      .insert({
+        user_id: user.id,
+        identity_key: identityKey,
+        score_commitment: scoreCommitment,
+        role_commitment: roleCommitment,
+        expires_at: expiresAt
+      })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+
+    await supabase.rpc('log_audit_event', {
+      _action: 'ZK_CREDENTIAL_ISSUED',
+      _resource: 'zk_credentials',
+      _resource_id: credential.id,
+      _details: { expires_at: expiresAt }
+    });
+
+    return jsonResponse({
+      credentialId: credential.id,
+      trustScore,
+      role: roleName,
+      scoreBlinding: scalarToHex(scoreBlinding),
+      roleBlinding: scalarToHex(roleBlinding),
+      scoreCommitment,
+      roleCommitment,
+      expiresAt
+    });
+  } catch (error) {
+    console.error('Error issuing ZK credential:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
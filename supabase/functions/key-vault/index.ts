@@ -0,0 +1,986 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ml_kem1024 } from 'https://esm.sh/@noble/post-quantum@0.5.2/ml-kem.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+// Must match src/lib/pqc-database-encryption.ts
+const FIELD_PREFIX = 'pqc1';
+const ROOT_ALGORITHM = 'ML-KEM-1024';
+const KEM_CIPHERTEXT_BYTES = 1568;
+const IV_BYTES = 12;
+
+// Columns encrypted under their table's data key. The re-encryption job
+// walks these, so a table is only listed once all of its writers use the vault.
+const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  privileged_accounts: ['credentials_encrypted'],
+  directory_integrations: ['bind_credentials_encrypted'],
+};
+
+const DEFAULT_REENCRYPT_LIMIT = 500;
+
+interface BlindIndexSpec {
+  table: string;
+  column: string;
+  /** Column identifying the row a token points at */
+  rowId: string;
+  /** Index leading substrings of these lengths, for prefix search */
+  prefix?: { minLength: number; maxLength: number };
+  /** Index substrings of this length, for contains search */
+  ngram?: number;
+}
+
+// Searchable columns, each with its own HMAC index key (scope 'index').
+// Must match src/lib/pqc-database-encryption.ts
+const BLIND_INDEXES: Record<string, BlindIndexSpec> = {
+  'profiles.email': { table: 'profiles', column: 'email', rowId: 'user_id', ngram: 3 },
+  'audit_logs.ip_address': { table: 'audit_logs', column: 'ip_address', rowId: 'id', prefix: { minLength: 3, maxLength: 15 } },
+};
+const BLIND_INDEX_TOKEN_BYTES = 16;
+const DEFAULT_INDEX_LIMIT = 1000;
+
+type JsonObject = Record<string, unknown>;
+type ScopeType = 'table' | 'user' | 'index';
+
+interface RootKey {
+  id: string;
+  publicKey: Uint8Array;
+  encryptedSecretKey: string | null;
+  status: 'active' | 'retired' | 'destroyed';
+}
+
+interface DataKeyRow {
+  id: string;
+  scope_type: ScopeType;
+  scope_id: string;
+  version: number;
+  root_key_id: string;
+  wrapped_key: string | null;
+  status: 'active' | 'retired' | 'destroyed';
+  created_at: string;
+  retired_at: string | null;
+  rewrapped_at: string | null;
+}
+
+interface Actor {
+  id: string | null;
+  isAdmin: boolean;
+}
+
+interface RequestContext {
+  supabase: SupabaseClient;
+  roots: Map<string, RootKey>;
+  rootSecrets: Map<string, Uint8Array>;
+  dataKeys: Map<string, Uint8Array>;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    // Responses can carry unwrapped data keys
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+function base64Encode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const base64Decode = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{1,2}/g) || []).map(b => parseInt(b, 16)));
+const encodeText = (value: string) => new TextEncoder().encode(value);
+const toHex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+async function aesKey(raw: Uint8Array, usages: KeyUsage[]): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, usages);
+}
+
+async function seal(key: CryptoKey, plaintext: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, plaintext);
+  return concat(iv, new Uint8Array(ciphertext));
+}
+
+async function open(key: CryptoKey, sealed: Uint8Array, additionalData: Uint8Array): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: sealed.subarray(0, IV_BYTES), additionalData },
+    key,
+    sealed.subarray(IV_BYTES)
+  );
+  return new Uint8Array(plaintext);
+}
+
+// ============================================================================
+// Root key encryption keys
+// ============================================================================
+
+/**
+ * Root KEK secret keys are stored AES-256-GCM encrypted under
+ * KEY_VAULT_MASTER_KEY, with the root key id as additional data
+ */
+async function masterKey(): Promise<CryptoKey> {
+  const hex = Deno.env.get('KEY_VAULT_MASTER_KEY');
+  if (!hex || !/^[0-9a-f]{64}$/i.test(hex)) {
+    throw new Error('KEY_VAULT_MASTER_KEY must be 32 bytes of hex');
+  }
+  return aesKey(fromHex(hex), ['encrypt', 'decrypt']);
+}
+
+function toRootKey(row: JsonObject): RootKey {
+  return {
+    id: row.id as string,
+    publicKey: base64Decode(row.public_key as string),
+    encryptedSecretKey: row.encrypted_secret_key as string | null,
+    status: row.status as RootKey['status'],
+  };
+}
+
+async function getRootKey(ctx: RequestContext, id: string): Promise<RootKey> {
+  const cached = ctx.roots.get(id);
+  if (cached) return cached;
+
+  const { data, error } = await ctx.supabase.from('encryption_root_keys').select('*').eq('id', id).single();
+  if (error || !data) throw new Error(`Root key ${id} not found`);
+
+  const root = toRootKey(data);
+  ctx.roots.set(root.id, root);
+  return root;
+}
+
+async function createRootKey(ctx: RequestContext): Promise<RootKey> {
+  const id = crypto.randomUUID();
+  const { publicKey, secretKey } = ml_kem1024.keygen();
+  const encryptedSecretKey = base64Encode(await seal(await masterKey(), secretKey, encodeText(id)));
+
+  const { data, error } = await ctx.supabase
+    .from('encryption_root_keys')
+    .insert({ id, algorithm: ROOT_ALGORITHM, public_key: base64Encode(publicKey), encrypted_secret_key: encryptedSecretKey })
+    .select()
+    .single();
+  if (error) throw error;
+
+  const root = toRootKey(data);
+  ctx.roots.set(root.id, root);
+  ctx.rootSecrets.set(root.id, secretKey);
+  return root;
+}
+
+/**
+ * The active root KEK, created on first use. A concurrent request can win
+ * the race to create it; the unique index on the active key settles it.
+ */
+async function activeRootKey(ctx: RequestContext): Promise<RootKey> {
+  const { data } = await ctx.supabase.from('encryption_root_keys').select('*').eq('status', 'active').maybeSingle();
+  if (data) return toRootKey(data);
+
+  try {
+    return await createRootKey(ctx);
+  } catch {
+    const { data: winner, error } = await ctx.supabase
+      .from('encryption_root_keys')
+      .select('*')
+      .eq('status', 'active')
+      .single();
+    if (error) throw error;
+    return toRootKey(winner);
+  }
+}
+
+async function rootSecretKey(ctx: RequestContext, root: RootKey): Promise<Uint8Array> {
+  const cached = ctx.rootSecrets.get(root.id);
+  if (cached) return cached;
+  if (!root.encryptedSecretKey) {
+    throw new HttpError(410, `Root key ${root.id} has been destroyed`);
+  }
+
+  const secretKey = await open(await masterKey(), base64Decode(root.encryptedSecretKey), encodeText(root.id));
+  ctx.rootSecrets.set(root.id, secretKey);
+  return secretKey;
+}
+
+/**
+ * Replace the root KEK. Data keys stay wrapped under the old root until
+ * they are next used, when they are rewrapped under the new one.
+ */
+async function rotateRootKey(ctx: RequestContext, actor: Actor) {
+  const previous = await activeRootKey(ctx);
+  const { error } = await ctx.supabase
+    .from('encryption_root_keys')
+    .update({ status: 'retired', retired_at: new Date().toISOString() })
+    .eq('id', previous.id);
+  if (error) throw error;
+
+  const root = await createRootKey(ctx);
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'ROOT_KEY_ROTATED',
+    _resource: 'encryption_root_keys',
+    _resource_id: root.id,
+    _details: { previous_root_key_id: previous.id, algorithm: ROOT_ALGORITHM, rotated_by: actor.id },
+  });
+
+  return { id: root.id, algorithm: ROOT_ALGORITHM, previousId: previous.id };
+}
+
+/**
+ * A retired root KEK is destroyed once no data key is wrapped under it
+ */
+async function destroyRootKeyIfUnused(ctx: RequestContext, rootKeyId: string): Promise<boolean> {
+  const root = await getRootKey(ctx, rootKeyId);
+  if (root.status !== 'retired') return false;
+
+  const { count } = await ctx.supabase
+    .from('data_encryption_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('root_key_id', rootKeyId)
+    .neq('status', 'destroyed');
+  if ((count ?? 0) > 0) return false;
+
+  const { error } = await ctx.supabase
+    .from('encryption_root_keys')
+    .update({ status: 'destroyed', encrypted_secret_key: null, destroyed_at: new Date().toISOString() })
+    .eq('id', rootKeyId);
+  if (error) throw error;
+
+  ctx.roots.set(rootKeyId, { ...root, status: 'destroyed', encryptedSecretKey: null });
+  ctx.rootSecrets.delete(rootKeyId);
+  return true;
+}
+
+// ============================================================================
+// Data encryption keys
+// ============================================================================
+
+/**
+ * A DEK is wrapped by encapsulating to the root KEK and sealing the DEK
+ * with the shared secret: ML-KEM-1024 ciphertext || IV || AES-GCM(DEK),
+ * with the DEK id as additional data so a wrapped key cannot be moved to another row
+ */
+async function wrapDataKey(root: RootKey, dataKeyId: string, dataKey: Uint8Array): Promise<string> {
+  const { cipherText, sharedSecret } = ml_kem1024.encapsulate(root.publicKey);
+  const sealed = await seal(await aesKey(sharedSecret, ['encrypt']), dataKey, encodeText(dataKeyId));
+  return base64Encode(concat(cipherText, sealed));
+}
+
+async function unwrapDataKey(ctx: RequestContext, row: DataKeyRow): Promise<Uint8Array> {
+  const cached = ctx.dataKeys.get(row.id);
+  if (cached) return cached;
+  if (!row.wrapped_key) {
+    throw new HttpError(410, `Data key ${row.id} has been destroyed`);
+  }
+
+  const root = await getRootKey(ctx, row.root_key_id);
+  const wrapped = base64Decode(row.wrapped_key);
+  const sharedSecret = ml_kem1024.decapsulate(wrapped.subarray(0, KEM_CIPHERTEXT_BYTES), await rootSecretKey(ctx, root));
+  const dataKey = await open(await aesKey(sharedSecret, ['decrypt']), wrapped.subarray(KEM_CIPHERTEXT_BYTES), encodeText(row.id));
+
+  // Lazy rewrap: keys still under a retired root move to the active one
+  if (root.status !== 'active') {
+    const active = await activeRootKey(ctx);
+    const { error } = await ctx.supabase
+      .from('data_encryption_keys')
+      .update({
+        root_key_id: active.id,
+        wrapped_key: await wrapDataKey(active, row.id, dataKey),
+        rewrapped_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .eq('root_key_id', root.id);
+    if (error) throw error;
+
+    await destroyRootKeyIfUnused(ctx, root.id);
+  }
+
+  ctx.dataKeys.set(row.id, dataKey);
+  return dataKey;
+}
+
+function authorizeScope(actor: Actor, scope: ScopeType, scopeId: string) {
+  if (scope === 'table') {
+    if (!ENCRYPTED_COLUMNS[scopeId]) {
+      throw new HttpError(400, `${scopeId} has no encrypted columns`);
+    }
+    if (!actor.isAdmin) {
+      throw new HttpError(403, 'Only administrators can use table data keys');
+    }
+    return;
+  }
+
+  if (scope === 'index') {
+    if (!BLIND_INDEXES[scopeId]) {
+      throw new HttpError(400, `${scopeId} has no blind index`);
+    }
+    if (!actor.isAdmin) {
+      throw new HttpError(403, 'Only administrators can use blind index keys');
+    }
+    return;
+  }
+
+  if (scope !== 'user') {
+    throw new HttpError(400, 'scope must be table, user or index');
+  }
+  if (!actor.isAdmin && actor.id !== scopeId) {
+    throw new HttpError(403, 'Data keys of other users are not available');
+  }
+}
+
+function parseScope(body: JsonObject): { scope: ScopeType; scopeId: string } {
+  const scope = body.scope as ScopeType;
+  const scopeId = typeof body.scopeId === 'string' ? body.scopeId : '';
+  if (!scopeId) {
+    throw new HttpError(400, 'scopeId is required');
+  }
+  return { scope, scopeId };
+}
+
+function describeDataKey(row: DataKeyRow, dataKey?: Uint8Array) {
+  return {
+    id: row.id,
+    scope: row.scope_type,
+    scopeId: row.scope_id,
+    version: row.version,
+    status: row.status,
+    rootKeyId: row.root_key_id,
+    createdAt: row.created_at,
+    retiredAt: row.retired_at,
+    rewrappedAt: row.rewrapped_at,
+    ...(dataKey ? { key: base64Encode(dataKey) } : {}),
+  };
+}
+
+async function createDataKey(ctx: RequestContext, scope: ScopeType, scopeId: string, version: number): Promise<DataKeyRow> {
+  const id = crypto.randomUUID();
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const root = await activeRootKey(ctx);
+
+  const { data, error } = await ctx.supabase
+    .from('data_encryption_keys')
+    .insert({
+      id,
+      scope_type: scope,
+      scope_id: scopeId,
+      user_id: scope === 'user' ? scopeId : null,
+      version,
+      root_key_id: root.id,
+      wrapped_key: await wrapDataKey(root, id, dataKey),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+
+  ctx.dataKeys.set(id, dataKey);
+  return data as DataKeyRow;
+}
+
+async function latestVersion(ctx: RequestContext, scope: ScopeType, scopeId: string): Promise<number> {
+  const { data } = await ctx.supabase
+    .from('data_encryption_keys')
+    .select('version')
+    .eq('scope_type', scope)
+    .eq('scope_id', scopeId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return (data?.version as number | undefined) ?? 0;
+}
+
+/**
+ * The current DEK for a scope, created on first use
+ */
+async function currentDataKey(ctx: RequestContext, scope: ScopeType, scopeId: string): Promise<DataKeyRow> {
+  const { data } = await ctx.supabase
+    .from('data_encryption_keys')
+    .select('*')
+    .eq('scope_type', scope)
+    .eq('scope_id', scopeId)
+    .eq('status', 'active')
+    .maybeSingle();
+  if (data) return data as DataKeyRow;
+
+  try {
+    return await createDataKey(ctx, scope, scopeId, (await latestVersion(ctx, scope, scopeId)) + 1);
+  } catch {
+    const { data: winner, error } = await ctx.supabase
+      .from('data_encryption_keys')
+      .select('*')
+      .eq('scope_type', scope)
+      .eq('scope_id', scopeId)
+      .eq('status', 'active')
+      .single();
+    if (error) throw error;
+    return winner as DataKeyRow;
+  }
+}
+
+async function getDataKey(ctx: RequestContext, id: string): Promise<DataKeyRow> {
+  const { data, error } = await ctx.supabase.from('data_encryption_keys').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  if (!data) {
+    // Deleted with its owner's account
+    throw new HttpError(410, `Data key ${id} no longer exists`);
+  }
+  return data as DataKeyRow;
+}
+
+/**
+ * Start a new DEK version for a scope. Fields under the old version stay
+ * readable until the re-encryption job has moved them to the new one.
+ */
+async function rotateDataKey(ctx: RequestContext, actor: Actor, scope: ScopeType, scopeId: string) {
+  const previous = await currentDataKey(ctx, scope, scopeId);
+  const { error } = await ctx.supabase
+    .from('data_encryption_keys')
+    .update({ status: 'retired', retired_at: new Date().toISOString() })
+    .eq('id', previous.id);
+  if (error) throw error;
+
+  const row = await createDataKey(ctx, scope, scopeId, previous.version + 1);
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'DATA_KEY_ROTATED',
+    _resource: 'data_encryption_keys',
+    _resource_id: row.id,
+    _details: { scope, scope_id: scopeId, version: row.version, previous_key_id: previous.id, rotated_by: actor.id },
+  });
+
+  return describeDataKey(row, ctx.dataKeys.get(row.id));
+}
+
+// ============================================================================
+// Re-encryption
+// ============================================================================
+
+interface SealedField {
+  keyId: string;
+  sealed: Uint8Array;
+}
+
+function parseField(value: unknown): SealedField | null {
+  if (typeof value !== 'string') return null;
+  const [prefix, keyId, payload] = value.split(':');
+  if (prefix !== FIELD_PREFIX || !keyId || !payload) return null;
+  return { keyId, sealed: base64Decode(payload) };
+}
+
+async function reencryptValue(ctx: RequestContext, field: SealedField, current: DataKeyRow, context: string): Promise<string> {
+  const additionalData = encodeText(context);
+  const oldKey = await unwrapDataKey(ctx, await getDataKey(ctx, field.keyId));
+  const plaintext = await open(await aesKey(oldKey, ['decrypt']), field.sealed, additionalData);
+  const newKey = await unwrapDataKey(ctx, current);
+  const sealed = await seal(await aesKey(newKey, ['encrypt']), plaintext, additionalData);
+  return `${FIELD_PREFIX}:${current.id}:${base64Encode(sealed)}`;
+}
+
+/**
+ * Move fields encrypted under retired DEKs to their table's current DEK.
+ * Once a table has nothing left under a retired DEK, that DEK is destroyed,
+ * and with it any retired root KEK that no longer wraps anything. Fields
+ * from before envelope encryption are counted as legacy and left alone.
+ */
+async function reencrypt(ctx: RequestContext, actor: Actor, limit: number) {
+  const report = {
+    reencrypted: 0,
+    legacy: 0,
+    failed: 0,
+    complete: true,
+    destroyedDataKeys: 0,
+    destroyedRootKeys: 0,
+  };
+
+  for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+    const current = await currentDataKey(ctx, 'table', table);
+    const { data: rows, error } = await ctx.supabase.from(table).select(['id', ...columns].join(', '));
+    if (error) throw error;
+
+    let tableComplete = true;
+    for (const row of (rows || []) as unknown as JsonObject[]) {
+      for (const column of columns) {
+        const field = parseField(row[column]);
+        if (!field) {
+          if (row[column]) report.legacy++;
+          continue;
+        }
+        if (field.keyId === current.id) continue;
+
+        if (report.reencrypted >= limit) {
+          tableComplete = false;
+          continue;
+        }
+
+        try {
+          const { error: updateError } = await ctx.supabase
+            .from(table)
+            .update({ [column]: await reencryptValue(ctx, field, current, `${table}.${column}`) })
+            .eq('id', row.id)
+            .eq(column, row[column]);
+          if (updateError) throw updateError;
+          report.reencrypted++;
+        } catch (error) {
+          console.error(`Error re-encrypting ${table}.${column} ${row.id}:`, error);
+          report.failed++;
+          tableComplete = false;
+        }
+      }
+    }
+
+    if (!tableComplete) {
+      report.complete = false;
+      continue;
+    }
+
+    const { data: destroyed, error: destroyError } = await ctx.supabase
+      .from('data_encryption_keys')
+      .update({ status: 'destroyed', wrapped_key: null, destroyed_at: new Date().toISOString() })
+      .eq('scope_type', 'table')
+      .eq('scope_id', table)
+      .eq('status', 'retired')
+      .select('id, root_key_id');
+    if (destroyError) throw destroyError;
+
+    report.destroyedDataKeys += (destroyed || []).length;
+    for (const rootKeyId of new Set((destroyed || []).map(d => d.root_key_id as string))) {
+      if (await destroyRootKeyIfUnused(ctx, rootKeyId)) report.destroyedRootKeys++;
+    }
+  }
+
+  if (report.reencrypted > 0 || report.failed > 0 || report.destroyedDataKeys > 0) {
+    await ctx.supabase.rpc('log_audit_event', {
+      _action: 'DATA_REENCRYPTED',
+      _resource: 'data_encryption_keys',
+      _details: { ...report, run_by: actor.id ?? 'scheduler' },
+    });
+  }
+
+  return report;
+}
+
+// ============================================================================
+// Blind indexes
+// ============================================================================
+
+function normalizeIndexValue(value: string): string {
+  return value.normalize('NFKC').trim().toLowerCase();
+}
+
+/**
+ * What gets tokenized for a value: the whole value, plus its prefixes and
+ * n-grams where the index supports prefix or contains search
+ */
+function indexInputs(spec: BlindIndexSpec, value: string): string[] {
+  const normalized = normalizeIndexValue(value);
+  if (!normalized) return [];
+
+  const inputs = new Set([`eq:${normalized}`]);
+  if (spec.prefix) {
+    const longest = Math.min(spec.prefix.maxLength, normalized.length);
+    for (let length = spec.prefix.minLength; length <= longest; length++) {
+      inputs.add(`prefix:${normalized.slice(0, length)}`);
+    }
+  }
+  if (spec.ngram) {
+    for (let i = 0; i + spec.ngram <= normalized.length; i++) {
+      inputs.add(`ngram:${normalized.slice(i, i + spec.ngram)}`);
+    }
+  }
+  return [...inputs];
+}
+
+/**
+ * Tokens are HMAC-SHA256 under the index key, truncated; equal inputs give
+ * equal tokens, but a token says nothing about its input without the key
+ */
+async function indexTokens(indexKey: Uint8Array, inputs: string[]): Promise<string[]> {
+  const key = await crypto.subtle.importKey('raw', indexKey, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return Promise.all(inputs.map(async input => {
+    const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, encodeText(input)));
+    return toHex(mac.subarray(0, BLIND_INDEX_TOKEN_BYTES));
+  }));
+}
+
+/**
+ * The value to index: envelope-encrypted fields are decrypted with the data
+ * key they name, plaintext columns are indexed as they are
+ */
+async function indexPlaintext(ctx: RequestContext, spec: BlindIndexSpec, value: unknown): Promise<string | null> {
+  if (value === null || value === undefined || value === '') return null;
+
+  const field = parseField(value);
+  if (!field) return String(value);
+
+  const dataKey = await unwrapDataKey(ctx, await getDataKey(ctx, field.keyId));
+  const plaintext = await open(await aesKey(dataKey, ['decrypt']), field.sealed, encodeText(`${spec.table}.${spec.column}`));
+  return new TextDecoder().decode(plaintext);
+}
+
+/**
+ * Index keys that may still have tokens: the active one, and retired ones
+ * until the rebuild has moved every row off them
+ */
+async function liveIndexKeys(ctx: RequestContext, index: string) {
+  await currentDataKey(ctx, 'index', index);
+  const { data: rows, error } = await ctx.supabase
+    .from('data_encryption_keys')
+    .select('*')
+    .eq('scope_type', 'index')
+    .eq('scope_id', index)
+    .neq('status', 'destroyed')
+    .order('version', { ascending: false });
+  if (error) throw error;
+
+  const keys = [];
+  for (const row of (rows || []) as DataKeyRow[]) {
+    keys.push(describeDataKey(row, await unwrapDataKey(ctx, row)));
+  }
+  return keys;
+}
+
+/**
+ * Start a new index key and queue every row to be re-tokenized under it.
+ * Searches match either key until the rebuild completes.
+ */
+async function rotateIndexKey(ctx: RequestContext, actor: Actor, index: string) {
+  const dataKey = await rotateDataKey(ctx, actor, 'index', index);
+  const { data: queued, error } = await ctx.supabase.rpc('requeue_blind_index', { _index_name: index });
+  if (error) throw error;
+
+  const { key: _key, ...info } = dataKey;
+  return { ...info, queued: (queued as number | null) ?? 0 };
+}
+
+/**
+ * Drain the blind index queue: rows whose indexed column changed, or every
+ * row after an index key rotation. Each row's tokens are replaced with
+ * tokens under the active index key. Once an index has nothing queued,
+ * its retired index keys are destroyed.
+ */
+async function rebuildIndexes(ctx: RequestContext, actor: Actor, limit: number) {
+  const report = {
+    indexed: 0,
+    removed: 0,
+    failed: 0,
+    complete: true,
+    destroyedIndexKeys: 0,
+    destroyedRootKeys: 0,
+  };
+
+  for (const [index, spec] of Object.entries(BLIND_INDEXES)) {
+    const remaining = limit - report.indexed - report.removed;
+    const { data: queued, error } = remaining > 0
+      ? await ctx.supabase
+        .from('blind_index_queue')
+        .select('row_id, queued_at')
+        .eq('index_name', index)
+        .order('queued_at', { ascending: true })
+        .limit(remaining)
+      : { data: [], error: null };
+    if (error) throw error;
+
+    if (queued && queued.length > 0) {
+      const current = await currentDataKey(ctx, 'index', index);
+      const indexKey = await unwrapDataKey(ctx, current);
+      const { data: rows, error: rowsError } = await ctx.supabase
+        .from(spec.table)
+        .select(`${spec.rowId}, ${spec.column}`)
+        .in(spec.rowId, queued.map(q => q.row_id));
+      if (rowsError) throw rowsError;
+
+      for (const entry of queued) {
+        try {
+          const row = ((rows || []) as unknown as JsonObject[]).find(r => String(r[spec.rowId]) === entry.row_id);
+          const plaintext = row ? await indexPlaintext(ctx, spec, row[spec.column]) : null;
+
+          const { error: deleteError } = await ctx.supabase
+            .from('blind_index_tokens')
+            .delete()
+            .eq('index_name', index)
+            .eq('row_id', entry.row_id);
+          if (deleteError) throw deleteError;
+
+          if (plaintext) {
+            const tokens = await indexTokens(indexKey, indexInputs(spec, plaintext));
+            const { error: insertError } = await ctx.supabase
+              .from('blind_index_tokens')
+              .insert(tokens.map(token => ({ index_name: index, row_id: entry.row_id, key_id: current.id, token })));
+            if (insertError) throw insertError;
+          }
+
+          // A change made while this row was being indexed requeues it with a later timestamp
+          await ctx.supabase
+            .from('blind_index_queue')
+            .delete()
+            .eq('index_name', index)
+            .eq('row_id', entry.row_id)
+            .eq('queued_at', entry.queued_at);
+
+          if (plaintext) {
+            report.indexed++;
+          } else {
+            report.removed++;
+          }
+        } catch (error) {
+          console.error(`Error indexing ${index} ${entry.row_id}:`, error);
+          report.failed++;
+        }
+      }
+    }
+
+    const { count } = await ctx.supabase
+      .from('blind_index_queue')
+      .select('row_id', { count: 'exact', head: true })
+      .eq('index_name', index);
+    if ((count ?? 0) > 0) {
+      report.complete = false;
+      continue;
+    }
+
+    const { data: destroyed, error: destroyError } = await ctx.supabase
+      .from('data_encryption_keys')
+      .update({ status: 'destroyed', wrapped_key: null, destroyed_at: new Date().toISOString() })
+      .eq('scope_type', 'index')
+      .eq('scope_id', index)
+      .eq('status', 'retired')
+      .select('id, root_key_id');
+    if (destroyError) throw destroyError;
+
+    report.destroyedIndexKeys += (destroyed || []).length;
+    for (const rootKeyId of new Set((destroyed || []).map(d => d.root_key_id as string))) {
+      if (await destroyRootKeyIfUnused(ctx, rootKeyId)) report.destroyedRootKeys++;
+    }
+  }
+
+  if (report.failed > 0 || report.destroyedIndexKeys > 0) {
+    await ctx.supabase.rpc('log_audit_event', {
+      _action: 'BLIND_INDEX_REBUILT',
+      _resource: 'blind_index_tokens',
+      _details: { ...report, run_by: actor.id ?? 'scheduler' },
+    });
+  }
+
+  return report;
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+async function describeHierarchy(ctx: RequestContext) {
+  const [{ data: roots, error: rootsError }, { data: dataKeys, error: keysError }] = await Promise.all([
+    ctx.supabase
+      .from('encryption_root_keys')
+      .select('id, algorithm, status, created_at, retired_at, destroyed_at')
+      .order('created_at', { ascending: false }),
+    ctx.supabase
+      .from('data_encryption_keys')
+      .select('id, scope_type, scope_id, version, root_key_id, status, created_at, retired_at, rewrapped_at')
+      .order('created_at', { ascending: false }),
+  ]);
+  if (rootsError) throw rootsError;
+  if (keysError) throw keysError;
+
+  const columns = [];
+  for (const [table, tableColumns] of Object.entries(ENCRYPTED_COLUMNS)) {
+    const activeKey = (dataKeys || []).find(k => k.scope_type === 'table' && k.scope_id === table && k.status === 'active');
+    const { data: rows, error } = await ctx.supabase.from(table).select(tableColumns.join(', '));
+    if (error) throw error;
+
+    for (const column of tableColumns) {
+      const values = ((rows || []) as unknown as JsonObject[]).map(r => r[column]).filter(Boolean);
+      const fields = values.map(parseField);
+      columns.push({
+        table,
+        column,
+        total: values.length,
+        current: fields.filter(f => f && f.keyId === activeKey?.id).length,
+        stale: fields.filter(f => f && f.keyId !== activeKey?.id).length,
+        legacy: fields.filter(f => !f).length,
+      });
+    }
+  }
+
+  const indexes = [];
+  for (const [index, spec] of Object.entries(BLIND_INDEXES)) {
+    const { count, error } = await ctx.supabase
+      .from('blind_index_queue')
+      .select('row_id', { count: 'exact', head: true })
+      .eq('index_name', index);
+    if (error) throw error;
+
+    const indexKeys = (dataKeys || []).filter(k => k.scope_type === 'index' && k.scope_id === index);
+    indexes.push({
+      index,
+      table: spec.table,
+      column: spec.column,
+      modes: ['exact', ...(spec.prefix ? ['prefix'] : []), ...(spec.ngram ? ['contains'] : [])],
+      keyVersion: indexKeys.find(k => k.status === 'active')?.version ?? null,
+      retiredKeys: indexKeys.filter(k => k.status === 'retired').length,
+      queued: count ?? 0,
+    });
+  }
+
+  const live = (dataKeys || []).filter(k => k.status !== 'destroyed');
+  return {
+    rootKeys: (roots || []).map(root => ({
+      id: root.id,
+      algorithm: root.algorithm,
+      status: root.status,
+      createdAt: root.created_at,
+      retiredAt: root.retired_at,
+      destroyedAt: root.destroyed_at,
+      dataKeys: live.filter(k => k.root_key_id === root.id).length,
+    })),
+    dataKeys: (dataKeys || []).map(row => describeDataKey(row as DataKeyRow)),
+    columns,
+    indexes,
+  };
+}
+
+// ============================================================================
+// Request handling
+// ============================================================================
+
+async function requireActor(req: Request, supabase: SupabaseClient, serviceKey: string): Promise<Actor> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  // The scheduled re-encryption job calls in with the service role key
+  if (token === serviceKey) {
+    return { id: null, isAdmin: true };
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return { id: user.id, isAdmin: Boolean(isAdmin) };
+}
+
+function requireAdmin(actor: Actor) {
+  if (!actor.isAdmin) {
+    throw new HttpError(403, 'Only administrators can manage the key hierarchy');
+  }
+}
+
+/**
+ * Key vault: envelope encryption keys for sensitive database fields
+ *
+ * Signed-in users (table and index scopes need an administrator, user scopes the user or an administrator):
+ *   POST /keys              { scope, scopeId }  current data key for the scope, created on first use
+ *   GET  /keys/:id          a data key of any version, to decrypt fields sealed under it
+ *   POST /keys/rotate       { scope, scopeId }  start a new data key version
+ *
+ * Administrators:
+ *   GET  /status            root keys, data keys and how many fields each column has under which key
+ *   POST /root/rotate       replace the root KEK; data keys are rewrapped as they are used
+ *   POST /index/keys        { index }  live blind index keys, to compute search tokens
+ *   POST /index/rotate      { index }  start a new blind index key and queue every row for re-indexing
+ *
+ * Administrators or the scheduler (service role key, run from pg_cron):
+ *   POST /reencrypt         { limit? }  move fields off retired data keys
+ *   POST /index/rebuild     { limit? }  tokenize queued rows under the active index keys
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('key-vault') + 1).map(decodeURIComponent);
+    const ctx: RequestContext = { supabase, roots: new Map(), rootSecrets: new Map(), dataKeys: new Map() };
+    const actor = await requireActor(req, supabase, supabaseKey);
+
+    switch (`${req.method} ${route[0] || ''}`) {
+      case 'POST keys': {
+        const { scope, scopeId } = parseScope(await req.json() as JsonObject);
+        authorizeScope(actor, scope, scopeId);
+        if (route[1] === 'rotate') {
+          return jsonResponse(await rotateDataKey(ctx, actor, scope, scopeId), 201);
+        }
+        const row = await currentDataKey(ctx, scope, scopeId);
+        return jsonResponse(describeDataKey(row, await unwrapDataKey(ctx, row)));
+      }
+      case 'GET keys': {
+        if (!route[1]) {
+          throw new HttpError(400, 'Data key id is required');
+        }
+        const row = await getDataKey(ctx, route[1]);
+        authorizeScope(actor, row.scope_type, row.scope_id);
+        return jsonResponse(describeDataKey(row, await unwrapDataKey(ctx, row)));
+      }
+      case 'GET status':
+        requireAdmin(actor);
+        return jsonResponse(await describeHierarchy(ctx));
+      case 'POST root':
+        requireAdmin(actor);
+        if (route[1] !== 'rotate') break;
+        return jsonResponse(await rotateRootKey(ctx, actor), 201);
+      case 'POST reencrypt': {
+        requireAdmin(actor);
+        const body = await req.json().catch(() => ({})) as JsonObject;
+        const limit = Number(body.limit) > 0 ? Number(body.limit) : DEFAULT_REENCRYPT_LIMIT;
+        return jsonResponse(await reencrypt(ctx, actor, limit));
+      }
+      case 'POST index': {
+        requireAdmin(actor);
+        const body = await req.json().catch(() => ({})) as JsonObject;
+        if (route[1] === 'rebuild') {
+          const limit = Number(body.limit) > 0 ? Number(body.limit) : DEFAULT_INDEX_LIMIT;
+          return jsonResponse(await rebuildIndexes(ctx, actor, limit));
+        }
+
+        const index = typeof body.index === 'string' ? body.index : '';
+        authorizeScope(actor, 'index', index);
+        if (route[1] === 'keys') {
+          return jsonResponse({ keys: await liveIndexKeys(ctx, index) });
+        }
+        if (route[1] === 'rotate') {
+          return jsonResponse(await rotateIndexKey(ctx, actor, index), 201);
+        }
+        break;
+      }
+    }
+
+    return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Request body is not valid JSON' }, 400);
+    }
+
+    console.error('Key vault error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
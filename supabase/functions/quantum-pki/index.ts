@@ -0,0 +1,347 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import {
+  ALGORITHM_OIDS,
+  Asn1,
+  CERTIFICATE_KEY_USAGE,
+  HttpError,
+  JsonObject,
+  KeyAlgorithm,
+  MAX_CERTIFICATE_DAYS,
+  OID,
+  REVOCATION_REASONS,
+  RequestContext,
+  SignatureAlgorithm,
+  algorithmIdentifier,
+  base64Decode,
+  chainOf,
+  concat,
+  createAuthority,
+  currentCrl,
+  der,
+  describeAuthority,
+  digest,
+  ensureHierarchy,
+  fromPem,
+  getAuthority,
+  issueEndEntity,
+  listAuthorities,
+  parseCsr,
+  parseDer,
+  publishCrl,
+  readOid,
+  readSerial,
+  revokeIssuedCertificate,
+  selectIssuingAuthority,
+  sign,
+  signerFor,
+  toHex,
+} from '../_shared/pki.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const OCSP_VALIDITY_MS = 60 * 60 * 1000;
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function derResponse(body: Uint8Array, contentType: string, maxAgeSeconds = 0) {
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': contentType,
+      'Cache-Control': maxAgeSeconds ? `public, max-age=${maxAgeSeconds}` : 'no-store',
+    },
+  });
+}
+
+// ============================================================================
+// OCSP responder (RFC 6960)
+// ============================================================================
+
+const ocspError = (status: number) => der.sequence(der.enumerated(status));
+
+async function respondOcsp(ctx: RequestContext, requestDer: Uint8Array): Promise<Uint8Array> {
+  let tbsRequest: Asn1;
+  try {
+    tbsRequest = parseDer(requestDer).children[0];
+  } catch {
+    return ocspError(1); // malformedRequest
+  }
+
+  const requestList = tbsRequest.children.find(c => c.tag === 0x30);
+  const requestExtensions = tbsRequest.children.find(c => c.tag === 0xa2);
+  if (!requestList || requestList.children.length === 0) return ocspError(1);
+
+  const authorities = await listAuthorities(ctx);
+  const hashes = new Map<string, { name: string; key: string }>();
+  for (const ca of authorities) {
+    for (const [oid, algorithm] of [[OID.sha1, 'SHA-1'], [OID.sha256, 'SHA-256']] as const) {
+      hashes.set(`${ca.id}:${oid}`, {
+        name: toHex(await digest(algorithm, ca.certificate.subjectDer)),
+        key: toHex(await digest(algorithm, ca.certificate.publicKey)),
+      });
+    }
+  }
+
+  const certIds = requestList.children.map(request => request.children[0]);
+  const matchIssuer = (certId: Asn1) => authorities.find(ca => {
+    const expected = hashes.get(`${ca.id}:${readOid(certId.children[0].children[0])}`);
+    return expected && expected.name === toHex(certId.children[1].content) && expected.key === toHex(certId.children[2].content);
+  });
+
+  // Responses are signed by the issuing CA itself, so one issuer per request
+  const issuer = matchIssuer(certIds[0]);
+  if (!issuer) return ocspError(6); // unauthorized
+
+  const now = new Date();
+  const responses: Uint8Array[] = [];
+  for (const certId of certIds) {
+    const serialNumber = readSerial(certId.children[3]);
+    let status = der.implicit(2, new Uint8Array(0));
+
+    if (matchIssuer(certId)?.id === issuer.id) {
+      const { data: certificate } = await ctx.supabase
+        .from('quantum_certificates')
+        .select('is_revoked, revoked_at, revocation_reason')
+        .eq('ca_id', issuer.id)
+        .eq('serial_number', serialNumber)
+        .maybeSingle();
+      const subordinate = authorities.find(a => a.parentId === issuer.id && a.serialNumber === serialNumber);
+
+      if (certificate?.is_revoked) {
+        const reason = REVOCATION_REASONS[certificate.revocation_reason as string];
+        status = der.implicit(1, concat(
+          der.generalizedTime(new Date(certificate.revoked_at as string)),
+          ...(reason ? [der.explicit(0, der.enumerated(reason))] : [])
+        ), true);
+      } else if (subordinate && !subordinate.isActive) {
+        status = der.implicit(1, concat(
+          der.generalizedTime(now),
+          der.explicit(0, der.enumerated(REVOCATION_REASONS.cessationOfOperation))
+        ), true);
+      } else if (certificate || subordinate) {
+        status = der.implicit(0, new Uint8Array(0));
+      }
+    }
+
+    responses.push(der.sequence(
+      certId.der,
+      status,
+      der.generalizedTime(now),
+      der.explicit(0, der.generalizedTime(new Date(now.getTime() + OCSP_VALIDITY_MS)))
+    ));
+  }
+
+  const nonce = requestExtensions?.children[0]?.children.find(ext => readOid(ext.children[0]) === OID.ocspNonce);
+  const signer = await signerFor(issuer);
+  const tbs = der.sequence(
+    der.explicit(2, der.octetString(await digest('SHA-1', signer.publicKey))),
+    der.generalizedTime(now),
+    der.sequence(...responses),
+    ...(nonce ? [der.explicit(1, der.sequence(nonce.der))] : [])
+  );
+  const basic = der.sequence(tbs, algorithmIdentifier(signer.algorithm), der.bitString(await sign(signer.algorithm, signer.secretKey, tbs)));
+
+  return der.sequence(der.enumerated(0), der.explicit(0, der.sequence(der.oid(OID.ocspBasic), der.octetString(basic))));
+}
+
+// ============================================================================
+// Issuance and revocation
+// ============================================================================
+
+async function requireUser(req: Request, supabase: SupabaseClient): Promise<{ id: string; isAdmin: boolean }> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  return { id: user.id, isAdmin: Boolean(isAdmin) };
+}
+
+/**
+ * Issue a certificate from a CSR, or for an encryption certificate from a
+ * raw ML-KEM-768 key. ML-KEM keys cannot sign, so there is no proof of
+ * possession for them; the certificate binds the key to the requesting user.
+ */
+async function issueCertificate(ctx: RequestContext, userId: string, body: JsonObject) {
+  const certificateType = String(body.certificateType || '');
+  if (!CERTIFICATE_KEY_USAGE[certificateType]) {
+    throw new HttpError(400, 'certificateType must be identity, signing, encryption or authentication');
+  }
+
+  let subject: string;
+  let keyAlgorithm: KeyAlgorithm;
+  let publicKey: Uint8Array;
+  if (certificateType === 'encryption') {
+    subject = String(body.subject || '').trim();
+    keyAlgorithm = 'ML-KEM-768';
+    publicKey = base64Decode(String(body.publicKey || ''));
+    if (publicKey.length !== 1184) {
+      throw new HttpError(400, 'publicKey must be a base64 ML-KEM-768 encapsulation key');
+    }
+  } else {
+    const csr = String(body.csr || '');
+    const request = await parseCsr(csr.includes('-----BEGIN') ? fromPem(csr, 'CERTIFICATE REQUEST') : base64Decode(csr));
+    subject = request.subject;
+    keyAlgorithm = request.algorithm;
+    publicKey = request.publicKey;
+  }
+  if (!subject || subject.length > 200) {
+    throw new HttpError(400, 'subject is required');
+  }
+
+  const authorities = await ensureHierarchy(ctx);
+  const ca = selectIssuingAuthority(authorities, body.caId as string | undefined);
+  const certificate = await issueEndEntity(ctx, ca, {
+    userId,
+    certificateType,
+    subject,
+    keyAlgorithm,
+    publicKey,
+    validityDays: Math.min(Math.max(Number(body.validityDays) || 365, 1), MAX_CERTIFICATE_DAYS),
+  });
+
+  return { certificate, chain: chainOf(authorities, ca).map(a => a.certificatePem) };
+}
+
+async function revokeCertificate(ctx: RequestContext, actor: { id: string; isAdmin: boolean }, id: string, body: JsonObject) {
+  return revokeIssuedCertificate(ctx, {
+    id,
+    reason: String(body.reason || 'unspecified'),
+    ownerId: actor.isAdmin ? undefined : actor.id,
+    revokedBy: actor.id,
+  });
+}
+
+async function createSubordinate(ctx: RequestContext, actorId: string, body: JsonObject) {
+  const name = String(body.name || '').trim();
+  const algorithm = String(body.algorithm || 'ML-DSA-65') as SignatureAlgorithm;
+  if (!name) {
+    throw new HttpError(400, 'name is required');
+  }
+  if (!(algorithm in ALGORITHM_OIDS) || algorithm === ('ML-KEM-768' as SignatureAlgorithm)) {
+    throw new HttpError(400, 'algorithm must be an ML-DSA or composite signature algorithm');
+  }
+
+  const parent = body.parentId ? await getAuthority(ctx, String(body.parentId)) : undefined;
+  if (parent && (!parent.isActive || parent.pathLength === 0)) {
+    throw new HttpError(400, 'The parent CA cannot issue subordinate CAs');
+  }
+
+  const requested = body.pathLength === undefined || body.pathLength === null ? null : Number(body.pathLength);
+  const pathLength = parent?.pathLength != null
+    ? Math.min(requested ?? parent.pathLength - 1, parent.pathLength - 1)
+    : requested;
+
+  const ca = await createAuthority(ctx, {
+    name,
+    algorithm,
+    validityDays: Math.max(Number(body.validityDays) || 1825, 1),
+    pathLength,
+    parent,
+    actorId,
+  });
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'CA_CREATED',
+    _resource: 'quantum_pki_roots',
+    _resource_id: ca.id,
+    _details: { name, algorithm, parent_id: parent?.id ?? null, serial_number: ca.serialNumber, created_by: actorId },
+  });
+
+  return describeAuthority(await publishCrl(ctx, ca));
+}
+
+/**
+ * Quantum PKI: certificate authorities, issuance, CRLs and OCSP
+ *
+ * Public (for relying parties):
+ *   GET  /ca                   active CAs with their PEM certificates and current CRLs
+ *   GET  /ca/:id/crl           DER CRL (application/pkix-crl)
+ *   POST /ocsp                 DER OCSP request -> DER response
+ *   GET  /ocsp/:request        base64 OCSP request in the URL (RFC 6960 A.1)
+ *
+ * Signed-in users:
+ *   POST /certificates               { certificateType, csr, validityDays?, caId? }
+ *                                    or { certificateType: 'encryption', subject, publicKey, ... }
+ *   POST /certificates/:id/revoke    { reason? } (owner or administrator)
+ *
+ * Administrators:
+ *   POST /ca                         { name, algorithm?, parentId?, validityDays?, pathLength? }
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('quantum-pki') + 1).map(decodeURIComponent);
+    const ctx: RequestContext = { supabase, pkiUrl: `${supabaseUrl}/functions/v1/quantum-pki` };
+
+    switch (`${req.method} ${route[0] || ''}`) {
+      case 'GET ca': {
+        if (route[1] && route[2] === 'crl') {
+          const ca = await currentCrl(ctx, await getAuthority(ctx, route[1]));
+          return derResponse(fromPem(ca.currentCrl!, 'X509 CRL'), 'application/pkix-crl', 3600);
+        }
+        const authorities = await ensureHierarchy(ctx);
+        const described = [];
+        for (const ca of authorities.filter(a => a.isActive)) {
+          described.push(describeAuthority(await currentCrl(ctx, ca)));
+        }
+        return jsonResponse(described);
+      }
+      case 'POST ocsp':
+        return derResponse(await respondOcsp(ctx, new Uint8Array(await req.arrayBuffer())), 'application/ocsp-response');
+      case 'GET ocsp':
+        return derResponse(await respondOcsp(ctx, base64Decode(route.slice(1).join('/'))), 'application/ocsp-response');
+      case 'POST certificates': {
+        const actor = await requireUser(req, supabase);
+        const body = await req.json() as JsonObject;
+        if (route[1] && route[2] === 'revoke') {
+          return jsonResponse(await revokeCertificate(ctx, actor, route[1], body));
+        }
+        return jsonResponse(await issueCertificate(ctx, actor.id, body), 201);
+      }
+      case 'POST ca': {
+        const actor = await requireUser(req, supabase);
+        if (!actor.isAdmin) {
+          throw new HttpError(403, 'Only administrators can create certificate authorities');
+        }
+        return jsonResponse(await createSubordinate(ctx, actor.id, await req.json() as JsonObject), 201);
+      }
+      default:
+        return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Request body is not valid JSON' }, 400);
+    }
+
+    console.error('Quantum PKI error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
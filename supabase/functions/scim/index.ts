@@ -0,0 +1,1128 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, if-match, if-none-match',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'etag, location',
+};
+
+const SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+};
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 200;
+const DISABLED_BAN_DURATION = '876000h';
+const SCIM_PERMISSIONS = ['scim', 'scim:provision', '*'];
+const ROLE_PRIORITY: Record<string, number> = { admin: 3, moderator: 2, user: 1 };
+
+type ScimObject = Record<string, unknown>;
+type ResourceType = 'User' | 'Group';
+
+interface RequestContext {
+  supabase: SupabaseClient;
+  keyId: string;
+  ownerId: string;
+  baseUrl: string;
+}
+
+interface ResourceMeta {
+  external_id: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+class ScimError extends Error {
+  constructor(public status: number, detail: string, public scimType?: string) {
+    super(detail);
+  }
+}
+
+function scimResponse(body: unknown, status = 200, headers: Record<string, string> = {}) {
+  return new Response(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/scim+json', ...headers },
+  });
+}
+
+function errorResponse(error: ScimError) {
+  return scimResponse(
+    {
+      schemas: [SCHEMAS.error],
+      status: String(error.status),
+      ...(error.scimType ? { scimType: error.scimType } : {}),
+      detail: error.message,
+    },
+    error.status
+  );
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function sha512Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-512', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// ============================================================================
+// Attribute access (case-insensitive, schema URN prefixes allowed)
+// ============================================================================
+
+function stripSchema(path: string): string {
+  for (const schema of [SCHEMAS.user, SCHEMAS.group]) {
+    if (path.toLowerCase().startsWith(`${schema.toLowerCase()}:`)) {
+      return path.substring(schema.length + 1);
+    }
+  }
+  return path;
+}
+
+function findKey(object: ScimObject, name: string): string | undefined {
+  return Object.keys(object).find(key => key.toLowerCase() === name.toLowerCase());
+}
+
+function getAttribute(resource: ScimObject, path: string): unknown {
+  let current: unknown = resource;
+  for (const part of stripSchema(path).split('.')) {
+    if (Array.isArray(current)) {
+      current = current.flatMap(item => {
+        const value = getAttribute(item as ScimObject, part);
+        return Array.isArray(value) ? value : value === undefined ? [] : [value];
+      });
+      continue;
+    }
+    if (!current || typeof current !== 'object') return undefined;
+    const key = findKey(current as ScimObject, part);
+    current = key ? (current as ScimObject)[key] : undefined;
+  }
+  return current;
+}
+
+// ============================================================================
+// Filters (RFC 7644 §3.4.2.2)
+// ============================================================================
+
+type CompareOp = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; attrPath: string }
+  | { op: CompareOp; attrPath: string; value: unknown }
+  | { op: 'valuePath'; attrPath: string; filter: ScimFilter };
+
+function tokenizeFilter(input: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('()[]'.includes(char)) {
+      tokens.push(char);
+      i++;
+    } else if (char === '"') {
+      let j = i + 1;
+      while (j < input.length && input[j] !== '"') {
+        if (input[j] === '\\') j++;
+        j++;
+      }
+      if (j >= input.length) throw new ScimError(400, 'Unterminated string in filter', 'invalidFilter');
+      tokens.push(input.substring(i, j + 1));
+      i = j + 1;
+    } else {
+      let j = i;
+      while (j < input.length && !/\s/.test(input[j]) && !'()[]'.includes(input[j])) j++;
+      tokens.push(input.substring(i, j));
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+function parseFilter(input: string): ScimFilter {
+  const tokens = tokenizeFilter(input);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => {
+    if (position >= tokens.length) throw new ScimError(400, 'Unexpected end of filter', 'invalidFilter');
+    return tokens[position++];
+  };
+
+  const parseValue = (token: string): unknown => {
+    if (token.startsWith('"')) return JSON.parse(token);
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (token === 'null') return null;
+    if (!isNaN(Number(token))) return Number(token);
+    throw new ScimError(400, `Invalid filter value: ${token}`, 'invalidFilter');
+  };
+
+  const parseOr = (): ScimFilter => {
+    let left = parseAnd();
+    while (peek()?.toLowerCase() === 'or') {
+      next();
+      left = { op: 'or', left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const parseAnd = (): ScimFilter => {
+    let left = parseUnary();
+    while (peek()?.toLowerCase() === 'and') {
+      next();
+      left = { op: 'and', left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ScimFilter => {
+    const token = next();
+    if (token.toLowerCase() === 'not') {
+      if (next() !== '(') throw new ScimError(400, 'Expected ( after not', 'invalidFilter');
+      const filter = parseOr();
+      if (next() !== ')') throw new ScimError(400, 'Expected )', 'invalidFilter');
+      return { op: 'not', filter };
+    }
+    if (token === '(') {
+      const filter = parseOr();
+      if (next() !== ')') throw new ScimError(400, 'Expected )', 'invalidFilter');
+      return filter;
+    }
+
+    const attrPath = token;
+    if (peek() === '[') {
+      next();
+      const filter = parseOr();
+      if (next() !== ']') throw new ScimError(400, 'Expected ]', 'invalidFilter');
+      return { op: 'valuePath', attrPath, filter };
+    }
+
+    const op = next().toLowerCase();
+    if (op === 'pr') return { op: 'pr', attrPath };
+    if (!['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'].includes(op)) {
+      throw new ScimError(400, `Unsupported filter operator: ${op}`, 'invalidFilter');
+    }
+    return { op: op as CompareOp, attrPath, value: parseValue(next()) };
+  };
+
+  const filter = parseOr();
+  if (position !== tokens.length) {
+    throw new ScimError(400, 'Unexpected trailing tokens in filter', 'invalidFilter');
+  }
+  return filter;
+}
+
+function compareValues(op: CompareOp, actual: unknown, expected: unknown): boolean {
+  if (actual === undefined || actual === null) return op === 'ne' ? expected !== null : false;
+
+  if (typeof actual === 'string' && typeof expected === 'string') {
+    const a = actual.toLowerCase();
+    const b = expected.toLowerCase();
+    switch (op) {
+      case 'eq': return a === b;
+      case 'ne': return a !== b;
+      case 'co': return a.includes(b);
+      case 'sw': return a.startsWith(b);
+      case 'ew': return a.endsWith(b);
+      case 'gt': return a > b;
+      case 'ge': return a >= b;
+      case 'lt': return a < b;
+      case 'le': return a <= b;
+    }
+  }
+
+  switch (op) {
+    case 'eq': return actual === expected;
+    case 'ne': return actual !== expected;
+    case 'gt': return (actual as number) > (expected as number);
+    case 'ge': return (actual as number) >= (expected as number);
+    case 'lt': return (actual as number) < (expected as number);
+    case 'le': return (actual as number) <= (expected as number);
+    default: return false;
+  }
+}
+
+function matchesFilter(filter: ScimFilter, resource: ScimObject): boolean {
+  switch (filter.op) {
+    case 'and':
+      return matchesFilter(filter.left, resource) && matchesFilter(filter.right, resource);
+    case 'or':
+      return matchesFilter(filter.left, resource) || matchesFilter(filter.right, resource);
+    case 'not':
+      return !matchesFilter(filter.filter, resource);
+    case 'valuePath': {
+      const values = getAttribute(resource, filter.attrPath);
+      return Array.isArray(values) && values.some(v => matchesFilter(filter.filter, v as ScimObject));
+    }
+    case 'pr': {
+      const value = getAttribute(resource, filter.attrPath);
+      return value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0);
+    }
+    default: {
+      const value = getAttribute(resource, filter.attrPath);
+      if (Array.isArray(value)) {
+        return filter.op === 'ne'
+          ? value.every(v => compareValues('ne', v, filter.value))
+          : value.some(v => compareValues(filter.op as CompareOp, v, filter.value));
+      }
+      return compareValues(filter.op, value, filter.value);
+    }
+  }
+}
+
+// ============================================================================
+// PATCH (RFC 7644 §3.5.2)
+// ============================================================================
+
+interface PatchOperation {
+  op: string;
+  path?: string;
+  value?: unknown;
+}
+
+function parsePatchPath(path: string): { attribute: string; filter?: ScimFilter; subAttribute?: string } {
+  const match = stripSchema(path).match(/^([^[\]]+)(?:\[(.+)\])?(?:\.(.+))?$/);
+  if (!match) throw new ScimError(400, `Invalid patch path: ${path}`, 'invalidPath');
+  const [, attribute, filterExpression, subAttribute] = match;
+
+  // Plain dotted path like name.givenName
+  if (!filterExpression && attribute.includes('.')) {
+    const [parent, child] = attribute.split('.', 2);
+    return { attribute: parent, subAttribute: child };
+  }
+
+  return {
+    attribute,
+    filter: filterExpression ? parseFilter(filterExpression) : undefined,
+    subAttribute,
+  };
+}
+
+function applyPatch(resource: ScimObject, operations: PatchOperation[]): ScimObject {
+  const result: ScimObject = structuredClone(resource);
+
+  for (const operation of operations) {
+    const op = operation.op?.toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimError(400, `Unsupported patch op: ${operation.op}`, 'invalidSyntax');
+    }
+
+    if (!operation.path) {
+      if (op === 'remove') throw new ScimError(400, 'remove requires a path', 'noTarget');
+      if (!operation.value || typeof operation.value !== 'object') {
+        throw new ScimError(400, 'Patch value must be an object when no path is given', 'invalidValue');
+      }
+      for (const [name, value] of Object.entries(operation.value as ScimObject)) {
+        Object.assign(result, applyPatch(result, [{ op, path: name, value }]));
+      }
+      continue;
+    }
+
+    const { attribute, filter, subAttribute } = parsePatchPath(operation.path);
+    const key = findKey(result, attribute) || attribute;
+    const current = result[key];
+
+    if (filter) {
+      if (!Array.isArray(current)) {
+        if (op === 'remove' || op === 'replace') throw new ScimError(400, `No values match ${operation.path}`, 'noTarget');
+        continue;
+      }
+      const matches = current.filter(item => matchesFilter(filter, item as ScimObject));
+      if (matches.length === 0 && op !== 'add') {
+        throw new ScimError(400, `No values match ${operation.path}`, 'noTarget');
+      }
+
+      if (op === 'remove') {
+        result[key] = subAttribute
+          ? current.map(item => {
+              if (!matches.includes(item)) return item;
+              const copy = { ...(item as ScimObject) };
+              delete copy[findKey(copy, subAttribute) || subAttribute];
+              return copy;
+            })
+          : current.filter(item => !matches.includes(item));
+      } else {
+        result[key] = current.map(item => {
+          if (!matches.includes(item)) return item;
+          return subAttribute
+            ? { ...(item as ScimObject), [subAttribute]: operation.value }
+            : { ...(item as ScimObject), ...(operation.value as ScimObject) };
+        });
+      }
+      continue;
+    }
+
+    if (subAttribute) {
+      const parent = (current && typeof current === 'object' ? { ...(current as ScimObject) } : {}) as ScimObject;
+      const childKey = findKey(parent, subAttribute) || subAttribute;
+      if (op === 'remove') {
+        delete parent[childKey];
+      } else {
+        parent[childKey] = operation.value;
+      }
+      result[key] = parent;
+      continue;
+    }
+
+    if (op === 'remove') {
+      delete result[key];
+    } else if (op === 'add' && Array.isArray(current)) {
+      const additions = Array.isArray(operation.value) ? operation.value : [operation.value];
+      const existing = new Set(current.map(item => JSON.stringify(item)));
+      result[key] = [...current, ...additions.filter(item => !existing.has(JSON.stringify(item)))];
+    } else if (op === 'add' && current && typeof current === 'object' && typeof operation.value === 'object') {
+      result[key] = { ...(current as ScimObject), ...(operation.value as ScimObject) };
+    } else {
+      result[key] = operation.value;
+    }
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Authentication (user_api_keys)
+// ============================================================================
+
+async function authenticate(req: Request, supabase: SupabaseClient): Promise<{ keyId: string; ownerId: string }> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new ScimError(401, 'Missing bearer token');
+  }
+
+  const keyHash = await sha512Hex(token);
+  const { data: apiKey } = await supabase
+    .from('user_api_keys')
+    .select('id, user_id, permissions, expires_at, is_active')
+    .eq('key_hash', keyHash)
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (!apiKey) {
+    throw new ScimError(401, 'Invalid API key');
+  }
+  if (apiKey.expires_at && new Date(apiKey.expires_at) < new Date()) {
+    throw new ScimError(401, 'API key has expired');
+  }
+
+  const permissions: string[] = Array.isArray(apiKey.permissions) ? apiKey.permissions : [];
+  if (!permissions.some(p => SCIM_PERMISSIONS.includes(p))) {
+    throw new ScimError(403, 'API key is not authorized for SCIM provisioning');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: apiKey.user_id, _role: 'admin' });
+  if (!isAdmin) {
+    throw new ScimError(403, 'SCIM keys must belong to an administrator');
+  }
+
+  await supabase
+    .from('user_api_keys')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', apiKey.id);
+
+  return { keyId: apiKey.id, ownerId: apiKey.user_id };
+}
+
+// ============================================================================
+// Audit
+// ============================================================================
+
+/**
+ * Record a provisioning change in audit_logs and as a pending transaction in
+ * blockchain_audit_logs, matching the payload shape of logAuditToBlockchain
+ */
+async function audit(
+  ctx: RequestContext,
+  action: string,
+  resource: string,
+  resourceId: string | null,
+  details: ScimObject
+) {
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: action,
+    _resource: resource,
+    _resource_id: resourceId,
+    _details: { ...details, api_key_id: ctx.keyId, channel: 'scim' },
+  });
+
+  const payload = {
+    action,
+    resource,
+    details: { ...details, resourceId, apiKeyId: ctx.keyId, channel: 'scim' },
+    userId: ctx.ownerId,
+  };
+
+  const { data: previous } = await ctx.supabase
+    .from('blockchain_audit_logs')
+    .select('integrity_hash')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const timestamp = Date.now();
+  const integrityHash = await sha256Hex(
+    JSON.stringify({ previous: previous?.integrity_hash || null, payload, timestamp })
+  );
+
+  const { error } = await ctx.supabase
+    .from('blockchain_audit_logs')
+    .insert({
+      user_id: ctx.ownerId,
+      action: 'audit_log',
+      resource,
+      transaction_id: `scim-${crypto.randomUUID()}`,
+      block_hash: null,
+      integrity_hash: integrityHash,
+      metadata: { ...payload, timestamp },
+    });
+
+  if (error) {
+    console.error('Failed to append SCIM change to blockchain audit trail:', error);
+  }
+}
+
+// ============================================================================
+// Resource metadata
+// ============================================================================
+
+async function loadMeta(ctx: RequestContext, type: ResourceType): Promise<Map<string, ResourceMeta>> {
+  const { data, error } = await ctx.supabase
+    .from('scim_resources')
+    .select('local_id, external_id, version, created_at, updated_at')
+    .eq('resource_type', type);
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.local_id, row]));
+}
+
+async function bumpMeta(
+  ctx: RequestContext,
+  type: ResourceType,
+  localId: string,
+  externalId: string | null | undefined,
+  current?: ResourceMeta
+): Promise<void> {
+  const { error } = await ctx.supabase
+    .from('scim_resources')
+    .upsert(
+      {
+        resource_type: type,
+        local_id: localId,
+        external_id: externalId ?? current?.external_id ?? null,
+        version: (current?.version || 0) + 1,
+        provisioned_by: ctx.ownerId,
+      },
+      { onConflict: 'resource_type,local_id' }
+    );
+  if (error) throw error;
+}
+
+function etag(meta: ResourceMeta | undefined): string {
+  return `W/"${meta?.version || 1}"`;
+}
+
+function checkPrecondition(req: Request, meta: ResourceMeta | undefined) {
+  const ifMatch = req.headers.get('If-Match');
+  if (ifMatch && ifMatch !== '*' && ifMatch !== etag(meta)) {
+    throw new ScimError(412, 'Resource has been modified (ETag mismatch)');
+  }
+}
+
+// ============================================================================
+// Users
+// ============================================================================
+
+interface UserRecord {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  deleted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+async function loadUsers(ctx: RequestContext, userIds?: string[]): Promise<ScimObject[]> {
+  let query = ctx.supabase.from('profiles').select('user_id, email, full_name, deleted_at, created_at, updated_at');
+  if (userIds) query = query.in('user_id', userIds);
+  const { data: profiles, error } = await query;
+  if (error) throw error;
+
+  const ids = (profiles || []).map(p => p.user_id);
+  if (ids.length === 0) return [];
+
+  const [{ data: roles }, { data: memberships }, meta] = await Promise.all([
+    ctx.supabase.from('user_roles').select('user_id, role').in('user_id', ids),
+    ctx.supabase.from('user_group_memberships').select('user_id, group_id, user_groups(name)').in('user_id', ids),
+    loadMeta(ctx, 'User'),
+  ]);
+
+  const rolesByUser = new Map<string, string[]>();
+  for (const row of roles || []) {
+    rolesByUser.set(row.user_id, [...(rolesByUser.get(row.user_id) || []), row.role]);
+  }
+
+  const groupsByUser = new Map<string, ScimObject[]>();
+  for (const row of memberships || []) {
+    const group = row.user_groups as unknown as { name: string } | null;
+    groupsByUser.set(row.user_id, [
+      ...(groupsByUser.get(row.user_id) || []),
+      { value: row.group_id, display: group?.name, $ref: `${ctx.baseUrl}/Groups/${row.group_id}` },
+    ]);
+  }
+
+  return (profiles as UserRecord[]).map(profile => toScimUser(ctx, profile, rolesByUser.get(profile.user_id) || [], groupsByUser.get(profile.user_id) || [], meta.get(profile.user_id)));
+}
+
+function toScimUser(
+  ctx: RequestContext,
+  profile: UserRecord,
+  roles: string[],
+  groups: ScimObject[],
+  meta: ResourceMeta | undefined
+): ScimObject {
+  return {
+    schemas: [SCHEMAS.user],
+    id: profile.user_id,
+    ...(meta?.external_id ? { externalId: meta.external_id } : {}),
+    userName: profile.email,
+    displayName: profile.full_name || undefined,
+    name: profile.full_name ? { formatted: profile.full_name } : undefined,
+    emails: [{ value: profile.email, type: 'work', primary: true }],
+    active: !profile.deleted_at,
+    roles: roles.map(role => ({ value: role, primary: true })),
+    groups,
+    meta: {
+      resourceType: 'User',
+      created: meta?.created_at || profile.created_at,
+      lastModified: meta?.updated_at || profile.updated_at,
+      location: `${ctx.baseUrl}/Users/${profile.user_id}`,
+      version: etag(meta),
+    },
+  };
+}
+
+function extractUserFields(resource: ScimObject) {
+  const emails = (getAttribute(resource, 'emails') as ScimObject[] | undefined) || [];
+  const primaryEmail = emails.find(e => e.primary)?.value || emails[0]?.value;
+  const userName = (getAttribute(resource, 'userName') as string) || (primaryEmail as string);
+  if (!userName) {
+    throw new ScimError(400, 'userName is required', 'invalidValue');
+  }
+
+  const name = getAttribute(resource, 'name') as ScimObject | undefined;
+  const fullName = (getAttribute(resource, 'displayName') as string)
+    || (name?.formatted as string)
+    || [name?.givenName, name?.familyName].filter(Boolean).join(' ')
+    || null;
+
+  const requestedRoles = ((getAttribute(resource, 'roles') as ScimObject[] | undefined) || [])
+    .map(r => String(r.value))
+    .filter(r => r in ROLE_PRIORITY);
+  const role = requestedRoles.sort((a, b) => ROLE_PRIORITY[b] - ROLE_PRIORITY[a])[0] || null;
+
+  const active = getAttribute(resource, 'active');
+
+  return {
+    // profiles.email is stored lowercase and matched exactly
+    email: userName.toLowerCase(),
+    fullName,
+    role,
+    active: active === undefined ? true : active === true || active === 'true',
+    externalId: getAttribute(resource, 'externalId') as string | undefined,
+  };
+}
+
+async function createUser(ctx: RequestContext, resource: ScimObject): Promise<ScimObject> {
+  const fields = extractUserFields(resource);
+
+  const { data: existing } = await ctx.supabase
+    .from('profiles')
+    .select('user_id')
+    .eq('email', fields.email)
+    .maybeSingle();
+  if (existing) {
+    throw new ScimError(409, `User ${fields.email} already exists`, 'uniqueness');
+  }
+
+  const { data, error } = await ctx.supabase.auth.admin.createUser({
+    email: fields.email,
+    email_confirm: true,
+    user_metadata: { full_name: fields.fullName, scim_external_id: fields.externalId },
+  });
+  if (error || !data.user) {
+    throw new ScimError(400, error?.message || 'Failed to create user', 'invalidValue');
+  }
+
+  const userId = data.user.id;
+  await ctx.supabase
+    .from('profiles')
+    .upsert({ user_id: userId, email: fields.email, full_name: fields.fullName }, { onConflict: 'user_id' });
+
+  await setUserRole(ctx, userId, fields.role || 'user');
+
+  if (!fields.active) {
+    await setUserActive(ctx, userId, false);
+  }
+
+  await bumpMeta(ctx, 'User', userId, fields.externalId);
+  await audit(ctx, 'SCIM_CREATE_USER', 'user', userId, {
+    email: fields.email,
+    role: fields.role || 'user',
+    external_id: fields.externalId,
+  });
+
+  return (await loadUsers(ctx, [userId]))[0];
+}
+
+async function setUserRole(ctx: RequestContext, userId: string, role: string) {
+  const { data: existing } = await ctx.supabase
+    .from('user_roles')
+    .select('id')
+    .eq('user_id', userId)
+    .limit(1)
+    .maybeSingle();
+
+  const { error } = existing
+    ? await ctx.supabase.from('user_roles').update({ role, assigned_by: ctx.ownerId }).eq('user_id', userId)
+    : await ctx.supabase.from('user_roles').insert({ user_id: userId, role, assigned_by: ctx.ownerId });
+  if (error) throw error;
+}
+
+async function setUserActive(ctx: RequestContext, userId: string, active: boolean) {
+  const { error } = await ctx.supabase.auth.admin.updateUserById(userId, {
+    ban_duration: active ? 'none' : DISABLED_BAN_DURATION,
+  });
+  if (error) throw new ScimError(500, error.message);
+
+  await ctx.supabase
+    .from('profiles')
+    .update({ deleted_at: active ? null : new Date().toISOString() })
+    .eq('user_id', userId);
+
+  if (!active) {
+    await ctx.supabase
+      .from('user_sessions')
+      .update({ is_active: false })
+      .eq('user_id', userId)
+      .eq('is_active', true);
+  }
+}
+
+async function replaceUser(ctx: RequestContext, current: ScimObject, resource: ScimObject): Promise<ScimObject> {
+  const userId = current.id as string;
+  const before = extractUserFields(current);
+  const after = extractUserFields(resource);
+  const changes: ScimObject = {};
+
+  if (after.email !== before.email) {
+    const { data: conflict } = await ctx.supabase
+      .from('profiles')
+      .select('user_id')
+      .eq('email', after.email)
+      .neq('user_id', userId)
+      .maybeSingle();
+    if (conflict) throw new ScimError(409, `User ${after.email} already exists`, 'uniqueness');
+
+    const { error } = await ctx.supabase.auth.admin.updateUserById(userId, { email: after.email, email_confirm: true });
+    if (error) throw new ScimError(400, error.message, 'invalidValue');
+    changes.email = { from: before.email, to: after.email };
+  }
+
+  if (after.email !== before.email || after.fullName !== before.fullName) {
+    await ctx.supabase
+      .from('profiles')
+      .update({ email: after.email, full_name: after.fullName })
+      .eq('user_id', userId);
+    if (after.fullName !== before.fullName) changes.full_name = { from: before.fullName, to: after.fullName };
+  }
+
+  if (after.role && after.role !== before.role) {
+    await setUserRole(ctx, userId, after.role);
+    changes.role = { from: before.role, to: after.role };
+  }
+
+  if (after.active !== before.active) {
+    await setUserActive(ctx, userId, after.active);
+    changes.active = { from: before.active, to: after.active };
+  }
+
+  const meta = (await loadMeta(ctx, 'User')).get(userId);
+  if (after.externalId !== undefined && after.externalId !== meta?.external_id) {
+    changes.external_id = { from: meta?.external_id, to: after.externalId };
+  }
+
+  await bumpMeta(ctx, 'User', userId, after.externalId, meta);
+  if (Object.keys(changes).length > 0) {
+    await audit(ctx, 'SCIM_UPDATE_USER', 'user', userId, { changes });
+  }
+
+  return (await loadUsers(ctx, [userId]))[0];
+}
+
+async function deleteUser(ctx: RequestContext, userId: string, email: string) {
+  await ctx.supabase.from('user_group_memberships').delete().eq('user_id', userId);
+  await ctx.supabase.from('profiles').delete().eq('user_id', userId);
+  const { error } = await ctx.supabase.auth.admin.deleteUser(userId);
+  if (error) throw new ScimError(500, error.message);
+
+  await ctx.supabase.from('scim_resources').delete().eq('resource_type', 'User').eq('local_id', userId);
+  await audit(ctx, 'SCIM_DELETE_USER', 'user', userId, { email });
+}
+
+// ============================================================================
+// Groups
+// ============================================================================
+
+async function loadGroups(ctx: RequestContext, groupIds?: string[]): Promise<ScimObject[]> {
+  let query = ctx.supabase.from('user_groups').select('id, name, description, created_at, updated_at');
+  if (groupIds) query = query.in('id', groupIds);
+  const { data: groups, error } = await query;
+  if (error) throw error;
+
+  const ids = (groups || []).map(g => g.id);
+  if (ids.length === 0) return [];
+
+  const [{ data: memberships }, meta] = await Promise.all([
+    ctx.supabase.from('user_group_memberships').select('group_id, user_id, profiles(email)').in('group_id', ids),
+    loadMeta(ctx, 'Group'),
+  ]);
+
+  const membersByGroup = new Map<string, ScimObject[]>();
+  for (const row of memberships || []) {
+    const profile = row.profiles as unknown as { email: string } | null;
+    membersByGroup.set(row.group_id, [
+      ...(membersByGroup.get(row.group_id) || []),
+      { value: row.user_id, display: profile?.email, type: 'User', $ref: `${ctx.baseUrl}/Users/${row.user_id}` },
+    ]);
+  }
+
+  return (groups || []).map(group => {
+    const groupMeta = meta.get(group.id);
+    return {
+      schemas: [SCHEMAS.group],
+      id: group.id,
+      ...(groupMeta?.external_id ? { externalId: groupMeta.external_id } : {}),
+      displayName: group.name,
+      members: membersByGroup.get(group.id) || [],
+      meta: {
+        resourceType: 'Group',
+        created: groupMeta?.created_at || group.created_at,
+        lastModified: groupMeta?.updated_at || group.updated_at,
+        location: `${ctx.baseUrl}/Groups/${group.id}`,
+        version: etag(groupMeta),
+      },
+    };
+  });
+}
+
+function memberIds(resource: ScimObject): string[] {
+  const members = (getAttribute(resource, 'members') as ScimObject[] | undefined) || [];
+  return Array.from(new Set(members.map(m => String(m.value)).filter(Boolean)));
+}
+
+async function syncMembers(ctx: RequestContext, groupId: string, desired: string[], current: string[]) {
+  const toAdd = desired.filter(id => !current.includes(id));
+  const toRemove = current.filter(id => !desired.includes(id));
+
+  if (toAdd.length > 0) {
+    const { data: known } = await ctx.supabase.from('profiles').select('user_id').in('user_id', toAdd);
+    const knownIds = new Set((known || []).map(p => p.user_id));
+    const unknown = toAdd.filter(id => !knownIds.has(id));
+    if (unknown.length > 0) {
+      throw new ScimError(400, `Unknown member ids: ${unknown.join(', ')}`, 'invalidValue');
+    }
+
+    const { error } = await ctx.supabase
+      .from('user_group_memberships')
+      .insert(toAdd.map(userId => ({ group_id: groupId, user_id: userId, assigned_by: ctx.ownerId })));
+    if (error) throw error;
+  }
+
+  if (toRemove.length > 0) {
+    const { error } = await ctx.supabase
+      .from('user_group_memberships')
+      .delete()
+      .eq('group_id', groupId)
+      .in('user_id', toRemove);
+    if (error) throw error;
+  }
+
+  return { added: toAdd, removed: toRemove };
+}
+
+async function createGroup(ctx: RequestContext, resource: ScimObject): Promise<ScimObject> {
+  const displayName = getAttribute(resource, 'displayName') as string;
+  if (!displayName) throw new ScimError(400, 'displayName is required', 'invalidValue');
+
+  const { data: existing } = await ctx.supabase
+    .from('user_groups')
+    .select('id')
+    .eq('name', displayName)
+    .maybeSingle();
+  if (existing) throw new ScimError(409, `Group ${displayName} already exists`, 'uniqueness');
+
+  const { data, error } = await ctx.supabase
+    .from('user_groups')
+    .insert({ name: displayName, created_by: ctx.ownerId })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const members = await syncMembers(ctx, data.id, memberIds(resource), []);
+  const externalId = getAttribute(resource, 'externalId') as string | undefined;
+  await bumpMeta(ctx, 'Group', data.id, externalId);
+  await audit(ctx, 'SCIM_CREATE_GROUP', 'user_groups', data.id, {
+    name: displayName,
+    external_id: externalId,
+    members_added: members.added,
+  });
+
+  return (await loadGroups(ctx, [data.id]))[0];
+}
+
+async function replaceGroup(ctx: RequestContext, current: ScimObject, resource: ScimObject): Promise<ScimObject> {
+  const groupId = current.id as string;
+  const displayName = getAttribute(resource, 'displayName') as string;
+  if (!displayName) throw new ScimError(400, 'displayName is required', 'invalidValue');
+
+  const changes: ScimObject = {};
+  if (displayName !== current.displayName) {
+    const { error } = await ctx.supabase.from('user_groups').update({ name: displayName }).eq('id', groupId);
+    if (error) throw error;
+    changes.name = { from: current.displayName, to: displayName };
+  }
+
+  const members = await syncMembers(ctx, groupId, memberIds(resource), memberIds(current));
+  if (members.added.length > 0) changes.members_added = members.added;
+  if (members.removed.length > 0) changes.members_removed = members.removed;
+
+  const meta = (await loadMeta(ctx, 'Group')).get(groupId);
+  await bumpMeta(ctx, 'Group', groupId, getAttribute(resource, 'externalId') as string | undefined, meta);
+  if (Object.keys(changes).length > 0) {
+    await audit(ctx, 'SCIM_UPDATE_GROUP', 'user_groups', groupId, { changes });
+  }
+
+  return (await loadGroups(ctx, [groupId]))[0];
+}
+
+async function deleteGroup(ctx: RequestContext, groupId: string, name: string) {
+  await ctx.supabase.from('user_group_memberships').delete().eq('group_id', groupId);
+  await ctx.supabase.from('group_permissions').delete().eq('group_id', groupId);
+  const { error } = await ctx.supabase.from('user_groups').delete().eq('id', groupId);
+  if (error) throw error;
+
+  await ctx.supabase.from('scim_resources').delete().eq('resource_type', 'Group').eq('local_id', groupId);
+  await audit(ctx, 'SCIM_DELETE_GROUP', 'user_groups', groupId, { name });
+}
+
+// ============================================================================
+// Request handling
+// ============================================================================
+
+function project(resource: ScimObject, url: URL): ScimObject {
+  const attributes = url.searchParams.get('attributes');
+  const excluded = url.searchParams.get('excludedAttributes');
+  const always = ['schemas', 'id', 'meta'];
+
+  if (attributes) {
+    const wanted = attributes.split(',').map(a => stripSchema(a.trim()).split('.')[0].toLowerCase());
+    return Object.fromEntries(
+      Object.entries(resource).filter(([key]) => always.includes(key) || wanted.includes(key.toLowerCase()))
+    );
+  }
+  if (excluded) {
+    const unwanted = excluded.split(',').map(a => stripSchema(a.trim()).toLowerCase());
+    return Object.fromEntries(
+      Object.entries(resource).filter(([key]) => always.includes(key) || !unwanted.includes(key.toLowerCase()))
+    );
+  }
+  return resource;
+}
+
+async function handleCollection(
+  ctx: RequestContext,
+  req: Request,
+  url: URL,
+  type: ResourceType,
+  id: string | undefined
+): Promise<Response> {
+  const load = type === 'User' ? loadUsers : loadGroups;
+
+  if (!id) {
+    if (req.method === 'GET') {
+      const filterParam = url.searchParams.get('filter');
+      const filter = filterParam ? parseFilter(filterParam) : null;
+      const startIndex = Math.max(1, parseInt(url.searchParams.get('startIndex') || '1') || 1);
+      const count = Math.min(
+        MAX_PAGE_SIZE,
+        Math.max(0, parseInt(url.searchParams.get('count') || String(DEFAULT_PAGE_SIZE)) || 0)
+      );
+
+      const resources = (await load(ctx))
+        .filter(resource => !filter || matchesFilter(filter, resource))
+        .sort((a, b) => String(a.id).localeCompare(String(b.id)));
+      const page = resources.slice(startIndex - 1, startIndex - 1 + count);
+
+      return scimResponse({
+        schemas: [SCHEMAS.listResponse],
+        totalResults: resources.length,
+        startIndex,
+        itemsPerPage: page.length,
+        Resources: page.map(resource => project(resource, url)),
+      });
+    }
+
+    if (req.method === 'POST') {
+      const body = await req.json();
+      const created = type === 'User' ? await createUser(ctx, body) : await createGroup(ctx, body);
+      const meta = created.meta as ScimObject;
+      return scimResponse(created, 201, { ETag: String(meta.version), Location: String(meta.location) });
+    }
+
+    throw new ScimError(405, `Method ${req.method} not allowed on /${type}s`);
+  }
+
+  const [current] = await load(ctx, [id]);
+  if (!current) {
+    throw new ScimError(404, `${type} ${id} not found`);
+  }
+  const currentMeta = (await loadMeta(ctx, type)).get(id);
+
+  switch (req.method) {
+    case 'GET': {
+      if (req.headers.get('If-None-Match') === etag(currentMeta)) {
+        return new Response(null, { status: 304, headers: { ...corsHeaders, ETag: etag(currentMeta) } });
+      }
+      return scimResponse(project(current, url), 200, { ETag: etag(currentMeta) });
+    }
+    case 'PUT': {
+      checkPrecondition(req, currentMeta);
+      const body = await req.json();
+      const updated = type === 'User' ? await replaceUser(ctx, current, body) : await replaceGroup(ctx, current, body);
+      return scimResponse(updated, 200, { ETag: String((updated.meta as ScimObject).version) });
+    }
+    case 'PATCH': {
+      checkPrecondition(req, currentMeta);
+      const body = await req.json();
+      if (!Array.isArray(body.schemas) || !body.schemas.includes(SCHEMAS.patchOp)) {
+        throw new ScimError(400, 'PATCH body must use the PatchOp schema', 'invalidSyntax');
+      }
+      const patched = applyPatch(current, body.Operations || []);
+      const updated = type === 'User' ? await replaceUser(ctx, current, patched) : await replaceGroup(ctx, current, patched);
+      return scimResponse(updated, 200, { ETag: String((updated.meta as ScimObject).version) });
+    }
+    case 'DELETE': {
+      checkPrecondition(req, currentMeta);
+      if (type === 'User') {
+        await deleteUser(ctx, id, String(current.userName));
+      } else {
+        await deleteGroup(ctx, id, String(current.displayName));
+      }
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+    default:
+      throw new ScimError(405, `Method ${req.method} not allowed`);
+  }
+}
+
+function serviceProviderConfig(baseUrl: string) {
+  return {
+    schemas: [SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: true },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'API key',
+        description: 'Bearer token issued from user_api_keys with the "scim" permission',
+        primary: true,
+      },
+    ],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` },
+  };
+}
+
+function resourceTypes(baseUrl: string) {
+  const types = [
+    { id: 'User', name: 'User', endpoint: '/Users', schema: SCHEMAS.user },
+    { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCHEMAS.group },
+  ];
+  return {
+    schemas: [SCHEMAS.listResponse],
+    totalResults: types.length,
+    Resources: types.map(type => ({
+      schemas: [SCHEMAS.resourceType],
+      ...type,
+      meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/${type.id}` },
+    })),
+  };
+}
+
+/**
+ * SCIM 2.0 provisioning endpoint
+ * /scim/v2/Users and /scim/v2/Groups mapped onto profiles, user_roles,
+ * user_groups and user_group_memberships
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { keyId, ownerId } = await authenticate(req, supabase);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const scimIndex = segments.indexOf('scim');
+    const route = segments.slice(scimIndex + 1);
+    if (route[0] === 'v2') route.shift();
+
+    const baseUrl = `${supabaseUrl}/functions/v1/scim/v2`;
+    const ctx: RequestContext = { supabase, keyId, ownerId, baseUrl };
+
+    const [resource, id] = route;
+    switch (resource) {
+      case 'Users':
+        return await handleCollection(ctx, req, url, 'User', id);
+      case 'Groups':
+        return await handleCollection(ctx, req, url, 'Group', id);
+      case 'ServiceProviderConfig':
+        return scimResponse(serviceProviderConfig(baseUrl));
+      case 'ResourceTypes':
+        return scimResponse(resourceTypes(baseUrl));
+      default:
+        throw new ScimError(404, `Unknown SCIM endpoint: /${route.join('/')}`);
+    }
+  } catch (error) {
+    if (error instanceof ScimError) {
+      return errorResponse(error);
+    }
+    if (error instanceof SyntaxError) {
+      return errorResponse(new ScimError(400, 'Request body is not valid JSON', 'invalidSyntax'));
+    }
+
+    console.error('SCIM error:', error);
+    return errorResponse(new ScimError(500, error instanceof Error ? error.message : 'Internal error'));
+  }
+});
@@ -0,0 +1,884 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { ml_dsa65 } from 'https://esm.sh/@noble/post-quantum@0.5.2/ml-dsa.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const CONTEXTS = {
+  credentials: 'https://www.w3.org/2018/credentials/v1',
+  statusList: 'https://w3id.org/vc/status-list/2021/v1',
+  did: 'https://www.w3.org/ns/did/v1',
+  quantum: 'https://quantum-iam.org/quantum-security/v1',
+};
+
+// Must match src/lib/verifiable-credentials.ts
+const CRYPTOSUITE = 'mldsa65-jcs-2024';
+const SIGNATURE_KEY_TYPE = 'ML-DSA-65-2024';
+const STATUS_LIST_SIZE = 131072; // 16KB bitstring, the StatusList2021 minimum
+const DEFAULT_VALIDITY_DAYS = 365;
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+const CREDENTIAL_TYPES = ['RoleCredential', 'EmploymentCredential', 'ClearanceCredential'];
+const CLEARANCE_LEVELS = ['public', 'internal', 'confidential', 'secret', 'top_secret'];
+
+type JsonObject = Record<string, unknown>;
+
+interface Issuer {
+  did: string;
+  name: string;
+  document: JsonObject;
+  verificationMethod: string;
+  secretKey: Uint8Array;
+}
+
+interface RequestContext {
+  supabase: SupabaseClient;
+  baseUrl: string;
+  issuer: Issuer;
+}
+
+interface DataIntegrityProof {
+  type: 'DataIntegrityProof';
+  cryptosuite: string;
+  created: string;
+  verificationMethod: string;
+  proofPurpose: string;
+  challenge?: string;
+  domain?: string;
+  proofValue: string;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * JSON with recursively sorted keys (JCS for the values credentials contain)
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as JsonObject)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{1,2}/g) || []).map(b => parseInt(b, 16)));
+
+async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await sha256(new TextEncoder().encode(value)));
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+async function gzip(bytes: Uint8Array, mode: 'compress' | 'decompress'): Promise<Uint8Array> {
+  const transform = mode === 'compress' ? new CompressionStream('gzip') : new DecompressionStream('gzip');
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// StatusList2021: index 0 is the most significant bit of the first byte
+async function encodeStatusList(bits: Uint8Array): Promise<string> {
+  return base64UrlEncode(await gzip(bits, 'compress'));
+}
+
+async function isStatusSet(encodedList: string, index: number): Promise<boolean> {
+  const bits = await gzip(base64UrlDecode(encodedList), 'decompress');
+  if (index < 0 || index >= bits.length * 8) {
+    throw new HttpError(400, `Status list index ${index} is out of range`);
+  }
+  return (bits[Math.floor(index / 8)] & (0x80 >> (index % 8))) !== 0;
+}
+
+// ============================================================================
+// Data Integrity proofs (ML-DSA-65 over JCS)
+// ============================================================================
+
+// hashData = SHA-256(proof options) || SHA-256(document), as in the
+// Data Integrity JCS cryptosuites
+async function proofInput(document: JsonObject, options: Omit<DataIntegrityProof, 'proofValue'>): Promise<Uint8Array> {
+  const { proof: _proof, ...unsigned } = document;
+  const [optionsHash, documentHash] = await Promise.all([
+    sha256(new TextEncoder().encode(canonicalJson(options))),
+    sha256(new TextEncoder().encode(canonicalJson(unsigned))),
+  ]);
+  const input = new Uint8Array(64);
+  input.set(optionsHash, 0);
+  input.set(documentHash, 32);
+  return input;
+}
+
+async function signDocument<T extends JsonObject>(document: T, issuer: Issuer): Promise<T & { proof: DataIntegrityProof }> {
+  const options = {
+    type: 'DataIntegrityProof' as const,
+    cryptosuite: CRYPTOSUITE,
+    created: new Date().toISOString(),
+    verificationMethod: issuer.verificationMethod,
+    proofPurpose: 'assertionMethod',
+  };
+  const signature = ml_dsa65.sign(await proofInput(document, options), issuer.secretKey);
+  return { ...document, proof: { ...options, proofValue: `u${base64UrlEncode(signature)}` } };
+}
+
+/**
+ * Verify a document's proof against a DID document. The verification method
+ * must be an ML-DSA-65 key of the DID listed for the proof's purpose.
+ */
+async function verifyDocumentProof(document: JsonObject, didDocument: JsonObject | null, purpose: string): Promise<string | null> {
+  const proof = document.proof as DataIntegrityProof | undefined;
+  if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== CRYPTOSUITE) {
+    return 'unsupported proof type';
+  }
+  if (proof.proofPurpose !== purpose) {
+    return `proof purpose is ${proof.proofPurpose}, expected ${purpose}`;
+  }
+  if (!didDocument) {
+    return `could not resolve ${proof.verificationMethod.split('#')[0]}`;
+  }
+
+  const relationship = (didDocument[purpose] as string[] | undefined) || [];
+  const keys = (didDocument.publicKey as { id: string; type: string; publicKeyHex: string }[] | undefined) || [];
+  const key = keys.find(k => k.id === proof.verificationMethod);
+  if (!key || key.type !== SIGNATURE_KEY_TYPE || !relationship.includes(key.id)) {
+    return `${proof.verificationMethod} is not an ${purpose} key of its DID`;
+  }
+
+  const { proofValue, ...options } = proof;
+  if (!proofValue?.startsWith('u')) {
+    return 'proofValue is not base64url multibase';
+  }
+  const valid = ml_dsa65.verify(base64UrlDecode(proofValue.slice(1)), await proofInput(document, options), fromHex(key.publicKeyHex));
+  return valid ? null : 'signature does not verify';
+}
+
+// ============================================================================
+// Issuer and DID documents
+// ============================================================================
+
+/**
+ * The issuer key is derived from VC_ISSUER_SEED, and the DID from the key,
+ * so changing the seed starts a new issuer. Old issuers stay published so
+ * their credentials remain verifiable.
+ */
+async function loadIssuer(supabase: SupabaseClient, baseUrl: string): Promise<Issuer> {
+  const seed = Deno.env.get('VC_ISSUER_SEED');
+  if (!seed || !/^[0-9a-f]{64}$/i.test(seed)) {
+    throw new Error('VC_ISSUER_SEED must be 32 bytes of hex');
+  }
+
+  const { publicKey, secretKey } = ml_dsa65.keygen(fromHex(seed));
+  const did = `did:quantum:fabric:${toHex(await sha256(publicKey)).substring(0, 40)}`;
+  const verificationMethod = `${did}#keys-1`;
+  const name = Deno.env.get('VC_ISSUER_NAME') || 'Quantum IAM';
+
+  const { data: existing } = await supabase
+    .from('vc_issuers')
+    .select('did_document')
+    .eq('did', did)
+    .maybeSingle();
+
+  let document = existing?.did_document as JsonObject | undefined;
+  if (!document) {
+    const now = new Date().toISOString();
+    document = {
+      '@context': [CONTEXTS.did, CONTEXTS.quantum],
+      id: did,
+      publicKey: [{ id: verificationMethod, type: SIGNATURE_KEY_TYPE, controller: did, publicKeyHex: toHex(publicKey) }],
+      authentication: [verificationMethod],
+      assertionMethod: [verificationMethod],
+      service: [{ id: `${did}#credential-status`, type: 'StatusList2021Service', serviceEndpoint: `${baseUrl}/status` }],
+      created: now,
+      updated: now,
+    };
+
+    const { error } = await supabase
+      .from('vc_issuers')
+      .upsert({ did, name, did_document: document }, { onConflict: 'did', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  return { did, name, document, verificationMethod, secretKey };
+}
+
+async function resolveDid(ctx: RequestContext, did: string): Promise<JsonObject | null> {
+  if (did === ctx.issuer.did) return ctx.issuer.document;
+
+  const { data: issuer } = await ctx.supabase
+    .from('vc_issuers')
+    .select('did_document')
+    .eq('did', did)
+    .maybeSingle();
+  if (issuer) return issuer.did_document as JsonObject;
+
+  return resolveRegisteredDid(ctx, did);
+}
+
+interface DidOperation {
+  did: string;
+  type: 'create' | 'update' | 'deactivate';
+  sequence: number;
+  previousHash: string | null;
+  document?: JsonObject;
+  timestamp: string;
+  proof: { verificationMethod: string; signatureValue: string };
+}
+
+/**
+ * Replay a DID's did:quantum registry log with the rules of
+ * src/lib/did-manager.ts: every operation extends the last valid one by
+ * hash and is signed by an authentication key of the document it replaces;
+ * the create is signed by the key the address was derived from. Invalid
+ * operations are skipped. Returns null for unknown or deactivated DIDs.
+ */
+async function resolveRegisteredDid(ctx: RequestContext, did: string): Promise<JsonObject | null> {
+  const { data: rows, error } = await ctx.supabase
+    .from('did_operations')
+    .select('operation')
+    .eq('did', did)
+    .order('sequence', { ascending: true });
+  if (error) throw error;
+
+  type Key = { id: string; type: string; publicKeyHex: string; revoked?: string };
+  let head: { document: JsonObject; hash: string; sequence: number; timestamp: string } | null = null;
+
+  for (const { operation } of (rows || []) as { operation: DidOperation }[]) {
+    const signingDocument = head ? head.document : operation.document;
+    if (operation.did !== did || !signingDocument) continue;
+    if (head ? operation.type === 'create' : operation.type !== 'create') continue;
+    if (operation.previousHash !== (head?.hash ?? null)) continue;
+    if (head && (operation.sequence <= head.sequence || operation.timestamp < head.timestamp)) continue;
+
+    if (operation.type !== 'deactivate') {
+      const next = operation.document;
+      const nextKeys = (next?.publicKey as Key[] | undefined) || [];
+      const hasSigningKey = ((next?.authentication as string[] | undefined) || []).some(keyId =>
+        nextKeys.some(k => k.id === keyId && k.type === SIGNATURE_KEY_TYPE && !k.revoked)
+      );
+      if (!next || next.id !== did || !hasSigningKey) continue;
+    }
+
+    const key = ((signingDocument.publicKey as Key[] | undefined) || []).find(k => k.id === operation.proof?.verificationMethod);
+    const authentication = (signingDocument.authentication as string[] | undefined) || [];
+    if (!key || key.type !== SIGNATURE_KEY_TYPE || key.revoked || !authentication.includes(key.id)) continue;
+
+    const publicKey = fromHex(key.publicKeyHex);
+    if (!head && did.split(':')[3] !== toHex(await sha256(publicKey)).substring(0, 40)) continue;
+
+    const { proof, ...unsigned } = operation;
+    let valid = false;
+    try {
+      valid = ml_dsa65.verify(fromHex(proof.signatureValue), new TextEncoder().encode(canonicalJson(unsigned)), publicKey);
+    } catch {
+      valid = false;
+    }
+    if (!valid) continue;
+
+    if (operation.type === 'deactivate') return null;
+    head = {
+      document: operation.document!,
+      hash: await sha256Hex(canonicalJson(operation)),
+      sequence: operation.sequence,
+      timestamp: operation.timestamp,
+    };
+  }
+
+  return head?.document ?? null;
+}
+
+async function requireAdmin(req: Request, supabase: SupabaseClient): Promise<string> {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  if (!token) {
+    throw new HttpError(401, 'Missing authorization');
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new HttpError(401, 'Invalid authorization');
+  }
+
+  const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+  if (!isAdmin) {
+    throw new HttpError(403, 'Only administrators can issue or revoke credentials');
+  }
+  return user.id;
+}
+
+// ============================================================================
+// Status lists
+// ============================================================================
+
+function statusListUrl(ctx: RequestContext, listId: string): string {
+  return `${ctx.baseUrl}/status/${listId}`;
+}
+
+async function signStatusList(ctx: RequestContext, listId: string, purpose: string, encodedList: string) {
+  const id = statusListUrl(ctx, listId);
+  return signDocument({
+    '@context': [CONTEXTS.credentials, CONTEXTS.statusList],
+    id,
+    type: ['VerifiableCredential', 'StatusList2021Credential'],
+    issuer: ctx.issuer.did,
+    issuanceDate: new Date().toISOString(),
+    credentialSubject: { id: `${id}#list`, type: 'StatusList2021', statusPurpose: purpose, encodedList },
+  }, ctx.issuer);
+}
+
+/**
+ * Record a status list version as a chained blockchain_audit_logs entry,
+ * in the same form as policy versions
+ */
+async function anchorStatusList(
+  ctx: RequestContext,
+  listId: string,
+  encodedList: string,
+  revokedCount: number,
+  signature: string,
+  actorId: string
+): Promise<string> {
+  const { data: previous } = await ctx.supabase
+    .from('blockchain_audit_logs')
+    .select('integrity_hash')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const payload = {
+    status_list_id: listId,
+    issuer_did: ctx.issuer.did,
+    encoded_list_sha256: await sha256Hex(encodedList),
+    revoked_count: revokedCount,
+  };
+  const timestamp = Date.now();
+  const previousHash = previous?.integrity_hash || null;
+  const integrityHash = await sha256Hex(canonicalJson({ previous: previousHash, payload, timestamp }));
+
+  const { error } = await ctx.supabase
+    .from('blockchain_audit_logs')
+    .insert({
+      user_id: actorId,
+      action: 'vc_status_list_update',
+      resource: 'vc_status_lists',
+      transaction_id: `status-list-${listId}-${timestamp}`,
+      block_hash: null,
+      quantum_signature: signature,
+      integrity_hash: integrityHash,
+      metadata: { ...payload, previous_hash: previousHash, timestamp },
+    });
+  if (error) throw error;
+
+  return integrityHash;
+}
+
+async function createStatusList(ctx: RequestContext, actorId: string) {
+  const listId = crypto.randomUUID();
+  const encodedList = await encodeStatusList(new Uint8Array(STATUS_LIST_SIZE / 8));
+  const credential = await signStatusList(ctx, listId, 'revocation', encodedList);
+  const anchorHash = await anchorStatusList(ctx, listId, encodedList, 0, credential.proof.proofValue, actorId);
+
+  const { data, error } = await ctx.supabase
+    .from('vc_status_lists')
+    .insert({
+      id: listId,
+      issuer_did: ctx.issuer.did,
+      status_purpose: 'revocation',
+      list_size: STATUS_LIST_SIZE,
+      encoded_list: encodedList,
+      credential,
+      anchor_hash: anchorHash,
+    })
+    .select('id, next_index, list_size')
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+// Claim the next free bit; the conditional update makes concurrent
+// issuances retry instead of sharing an index
+async function allocateStatusEntry(ctx: RequestContext, actorId: string): Promise<{ listId: string; index: number }> {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const { data: current } = await ctx.supabase
+      .from('vc_status_lists')
+      .select('id, next_index, list_size')
+      .eq('issuer_did', ctx.issuer.did)
+      .eq('status_purpose', 'revocation')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const list = current && current.next_index < current.list_size ? current : await createStatusList(ctx, actorId);
+    const { data: claimed } = await ctx.supabase
+      .from('vc_status_lists')
+      .update({ next_index: list.next_index + 1 })
+      .eq('id', list.id)
+      .eq('next_index', list.next_index)
+      .select('id')
+      .maybeSingle();
+
+    if (claimed) {
+      return { listId: list.id, index: list.next_index };
+    }
+  }
+  throw new Error('Could not allocate a status list entry');
+}
+
+/**
+ * Rebuild a status list from the revoked credentials, re-sign it and anchor
+ * the new version. Rebuilding rather than flipping one bit means concurrent
+ * revocations cannot overwrite each other.
+ */
+async function publishStatusList(ctx: RequestContext, listId: string, actorId: string) {
+  const { data: list, error: listError } = await ctx.supabase
+    .from('vc_status_lists')
+    .select('list_size, status_purpose')
+    .eq('id', listId)
+    .single();
+  if (listError) throw listError;
+
+  const { data: revoked, error: revokedError } = await ctx.supabase
+    .from('verifiable_credentials')
+    .select('status_list_index')
+    .eq('status_list_id', listId)
+    .not('revoked_at', 'is', null);
+  if (revokedError) throw revokedError;
+
+  const bits = new Uint8Array(list.list_size / 8);
+  for (const { status_list_index: index } of revoked || []) {
+    bits[Math.floor(index / 8)] |= 0x80 >> (index % 8);
+  }
+
+  const encodedList = await encodeStatusList(bits);
+  const credential = await signStatusList(ctx, listId, list.status_purpose, encodedList);
+  const anchorHash = await anchorStatusList(ctx, listId, encodedList, (revoked || []).length, credential.proof.proofValue, actorId);
+
+  const { error } = await ctx.supabase
+    .from('vc_status_lists')
+    .update({ encoded_list: encodedList, credential, anchor_hash: anchorHash })
+    .eq('id', listId);
+  if (error) throw error;
+}
+
+// ============================================================================
+// Issuance and revocation
+// ============================================================================
+
+async function buildClaims(ctx: RequestContext, type: string, subjectUserId: string, body: JsonObject): Promise<JsonObject> {
+  switch (type) {
+    case 'RoleCredential': {
+      const { data: role, error } = await ctx.supabase.rpc('get_effective_user_role', { _user_id: subjectUserId });
+      if (error) throw error;
+      return { role: String(role || 'user'), organization: ctx.issuer.name };
+    }
+    case 'EmploymentCredential': {
+      const { data: profile, error } = await ctx.supabase
+        .from('profiles')
+        .select('full_name, email, created_at, deleted_at')
+        .eq('user_id', subjectUserId)
+        .maybeSingle();
+      if (error) throw error;
+      if (!profile || profile.deleted_at) {
+        throw new HttpError(400, 'Subject has no active profile');
+      }
+      return {
+        name: profile.full_name || profile.email,
+        email: profile.email,
+        employer: ctx.issuer.name,
+        employeeSince: profile.created_at,
+      };
+    }
+    case 'ClearanceCredential': {
+      const level = String(body.clearanceLevel || '');
+      if (!CLEARANCE_LEVELS.includes(level)) {
+        throw new HttpError(400, `clearanceLevel must be one of ${CLEARANCE_LEVELS.join(', ')}`);
+      }
+      return { clearanceLevel: level, organization: ctx.issuer.name };
+    }
+    default:
+      throw new HttpError(400, `type must be one of ${CREDENTIAL_TYPES.join(', ')}`);
+  }
+}
+
+async function issueCredential(ctx: RequestContext, actorId: string, body: JsonObject) {
+  const subjectUserId = String(body.subjectUserId || '');
+  const type = String(body.type || '');
+  const validityDays = Number(body.validityDays ?? DEFAULT_VALIDITY_DAYS);
+  if (!subjectUserId) {
+    throw new HttpError(400, 'subjectUserId is required');
+  }
+  if (!Number.isInteger(validityDays) || validityDays < 1 || validityDays > 3650) {
+    throw new HttpError(400, 'validityDays must be between 1 and 3650');
+  }
+
+  const { data: subjectDid } = await ctx.supabase
+    .from('user_dids')
+    .select('did')
+    .eq('user_id', subjectUserId)
+    .maybeSingle();
+  if (!subjectDid) {
+    throw new HttpError(400, 'Subject has no DID; they must sign in once to create one');
+  }
+
+  const claims = await buildClaims(ctx, type, subjectUserId, body);
+  const { listId, index } = await allocateStatusEntry(ctx, actorId);
+  const statusUrl = statusListUrl(ctx, listId);
+  const credentialId = `urn:uuid:${crypto.randomUUID()}`;
+  const issuanceDate = new Date();
+  const expirationDate = new Date(issuanceDate.getTime() + validityDays * 24 * 60 * 60 * 1000);
+
+  const credential = await signDocument({
+    '@context': [CONTEXTS.credentials, CONTEXTS.statusList, CONTEXTS.quantum],
+    id: credentialId,
+    type: ['VerifiableCredential', type],
+    issuer: { id: ctx.issuer.did, name: ctx.issuer.name },
+    issuanceDate: issuanceDate.toISOString(),
+    expirationDate: expirationDate.toISOString(),
+    credentialSubject: { id: subjectDid.did, ...claims },
+    credentialStatus: {
+      id: `${statusUrl}#${index}`,
+      type: 'StatusList2021Entry',
+      statusPurpose: 'revocation',
+      statusListIndex: String(index),
+      statusListCredential: statusUrl,
+    },
+  }, ctx.issuer);
+
+  const { data: row, error } = await ctx.supabase
+    .from('verifiable_credentials')
+    .insert({
+      credential_id: credentialId,
+      issuer_did: ctx.issuer.did,
+      subject_user_id: subjectUserId,
+      subject_did: subjectDid.did,
+      credential_type: type,
+      claims,
+      credential,
+      status_list_id: listId,
+      status_list_index: index,
+      issued_by: actorId,
+      issued_at: issuanceDate.toISOString(),
+      expires_at: expirationDate.toISOString(),
+    })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'VC_ISSUED',
+    _resource: 'verifiable_credentials',
+    _resource_id: row.id,
+    _details: { credential_id: credentialId, type, subject_user_id: subjectUserId, issued_by: actorId },
+  });
+
+  return { id: row.id, credential };
+}
+
+async function revokeCredential(ctx: RequestContext, actorId: string, id: string, body: JsonObject) {
+  const { data: revoked, error } = await ctx.supabase
+    .from('verifiable_credentials')
+    .update({
+      revoked_at: new Date().toISOString(),
+      revoked_by: actorId,
+      revocation_reason: body.reason ? String(body.reason) : null,
+    })
+    .eq('id', id)
+    .is('revoked_at', null)
+    .select('id, credential_id, status_list_id, status_list_index')
+    .maybeSingle();
+  if (error) throw error;
+  if (!revoked) {
+    throw new HttpError(404, 'Credential not found or already revoked');
+  }
+
+  await publishStatusList(ctx, revoked.status_list_id, actorId);
+
+  await ctx.supabase.rpc('log_audit_event', {
+    _action: 'VC_REVOKED',
+    _resource: 'verifiable_credentials',
+    _resource_id: revoked.id,
+    _details: { credential_id: revoked.credential_id, status_list_index: revoked.status_list_index, reason: body.reason || null },
+  });
+
+  return { id: revoked.id, statusListId: revoked.status_list_id, statusListIndex: revoked.status_list_index };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+async function checkStatus(ctx: RequestContext, credential: JsonObject): Promise<string | null> {
+  const status = credential.credentialStatus as JsonObject | undefined;
+  if (!status) return null;
+  if (status.type !== 'StatusList2021Entry') {
+    return `unsupported status type ${status.type}`;
+  }
+
+  const listId = String(status.statusListCredential || '').split('/status/')[1];
+  const { data: list } = listId
+    ? await ctx.supabase.from('vc_status_lists').select('credential, encoded_list, anchor_hash').eq('id', listId).maybeSingle()
+    : { data: null };
+  if (!list) {
+    return 'status list not found';
+  }
+
+  const statusCredential = list.credential as JsonObject;
+  const statusIssuer = String(statusCredential.issuer);
+  if (statusIssuer !== credentialIssuer(credential)) {
+    return 'status list was not issued by the credential issuer';
+  }
+  const proofError = await verifyDocumentProof(statusCredential, await resolveDid(ctx, statusIssuer), 'assertionMethod');
+  if (proofError) {
+    return `status list ${proofError}`;
+  }
+
+  // The served list must be the version last anchored on the chain
+  const encodedList = String((statusCredential.credentialSubject as JsonObject).encodedList);
+  const { data: anchor } = await ctx.supabase
+    .from('blockchain_audit_logs')
+    .select('metadata')
+    .eq('integrity_hash', list.anchor_hash)
+    .maybeSingle();
+  if (!anchor || (anchor.metadata as JsonObject).encoded_list_sha256 !== await sha256Hex(encodedList)) {
+    return 'status list does not match its blockchain anchor';
+  }
+
+  if (await isStatusSet(encodedList, Number(status.statusListIndex))) {
+    return `credential has been ${status.statusPurpose === 'suspension' ? 'suspended' : 'revoked'}`;
+  }
+  return null;
+}
+
+function credentialIssuer(credential: JsonObject): string {
+  const issuer = credential.issuer;
+  return typeof issuer === 'string' ? issuer : String((issuer as JsonObject | undefined)?.id || '');
+}
+
+async function verifyCredential(ctx: RequestContext, credential: JsonObject): Promise<string[]> {
+  const errors: string[] = [];
+  const id = String(credential.id || 'credential');
+  const now = Date.now();
+
+  const proofError = await verifyDocumentProof(credential, await resolveDid(ctx, credentialIssuer(credential)), 'assertionMethod');
+  if (proofError) errors.push(`${id}: ${proofError}`);
+
+  if (credential.issuanceDate && new Date(String(credential.issuanceDate)).getTime() > now + 60 * 1000) {
+    errors.push(`${id}: not valid yet`);
+  }
+  if (credential.expirationDate && new Date(String(credential.expirationDate)).getTime() <= now) {
+    errors.push(`${id}: expired`);
+  }
+
+  const statusError = await checkStatus(ctx, credential);
+  if (statusError) errors.push(`${id}: ${statusError}`);
+
+  return errors;
+}
+
+async function verifyPresentation(ctx: RequestContext, presentation: JsonObject, challenge: string, domain: string): Promise<string[]> {
+  const errors: string[] = [];
+  const proof = presentation.proof as DataIntegrityProof | undefined;
+  const holder = String(presentation.holder || '');
+
+  if (!proof || proof.challenge !== challenge || proof.domain !== domain) {
+    errors.push('presentation is not bound to this challenge and domain');
+  }
+  if (!proof?.verificationMethod.startsWith(`${holder}#`)) {
+    errors.push('presentation was not signed by its holder');
+  }
+
+  const proofError = await verifyDocumentProof(presentation, holder ? await resolveDid(ctx, holder) : null, 'authentication');
+  if (proofError) errors.push(`presentation: ${proofError}`);
+
+  const credentials = (presentation.verifiableCredential as JsonObject[] | undefined) || [];
+  if (credentials.length === 0) {
+    errors.push('presentation contains no credentials');
+  }
+  for (const credential of credentials) {
+    const subject = credential.credentialSubject as JsonObject | undefined;
+    if (subject?.id !== holder) {
+      errors.push(`${credential.id}: subject is not the presentation holder`);
+    }
+    errors.push(...await verifyCredential(ctx, credential));
+  }
+  return errors;
+}
+
+// Challenges are single use: claimed atomically before the presentation is checked
+async function consumeChallenge(ctx: RequestContext, challenge: string, domain: string): Promise<boolean> {
+  const { data } = await ctx.supabase
+    .from('vc_presentation_challenges')
+    .update({ used_at: new Date().toISOString() })
+    .eq('challenge', challenge)
+    .eq('domain', domain)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('challenge')
+    .maybeSingle();
+  return Boolean(data);
+}
+
+async function verify(ctx: RequestContext, body: JsonObject) {
+  if (body.presentation) {
+    const challenge = String(body.challenge || '');
+    const domain = String(body.domain || '');
+    if (!challenge || !domain) {
+      throw new HttpError(400, 'challenge and domain are required to verify a presentation');
+    }
+
+    const presentation = body.presentation as JsonObject;
+    const errors = await consumeChallenge(ctx, challenge, domain)
+      ? await verifyPresentation(ctx, presentation, challenge, domain)
+      : ['challenge is unknown, expired or already used'];
+
+    return {
+      verified: errors.length === 0,
+      errors,
+      holder: presentation.holder || null,
+      credentials: ((presentation.verifiableCredential as JsonObject[] | undefined) || []).map(summarize),
+    };
+  }
+
+  if (body.credential) {
+    const credential = body.credential as JsonObject;
+    const errors = await verifyCredential(ctx, credential);
+    return { verified: errors.length === 0, errors, holder: null, credentials: [summarize(credential)] };
+  }
+
+  throw new HttpError(400, 'Provide a presentation or a credential');
+}
+
+function summarize(credential: JsonObject) {
+  return {
+    id: credential.id,
+    type: credential.type,
+    issuer: credentialIssuer(credential),
+    credentialSubject: credential.credentialSubject,
+    expirationDate: credential.expirationDate,
+  };
+}
+
+async function createChallenge(ctx: RequestContext, body: JsonObject) {
+  const domain = String(body.domain || '').trim();
+  if (!domain) {
+    throw new HttpError(400, 'domain is required');
+  }
+
+  const challenge = base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+  const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS).toISOString();
+  const { error } = await ctx.supabase
+    .from('vc_presentation_challenges')
+    .insert({ challenge, domain, expires_at: expiresAt });
+  if (error) throw error;
+
+  return { challenge, domain, expiresAt };
+}
+
+/**
+ * Verifiable Credentials issuer and verifier
+ *
+ * Public (no account needed, for relying parties):
+ *   GET  /issuer              issuer DID document
+ *   GET  /dids/:did           issuer DID document, or a holder's from the DID registry
+ *   GET  /status/:listId      signed StatusList2021Credential
+ *   POST /challenges          { domain } -> single-use presentation challenge
+ *   POST /verify              { presentation, challenge, domain } or { credential }
+ *
+ * Administrators:
+ *   POST /credentials               { subjectUserId, type, clearanceLevel?, validityDays? }
+ *   POST /credentials/:id/revoke    { reason? }
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const url = new URL(req.url);
+    const segments = url.pathname.split('/').filter(Boolean);
+    const route = segments.slice(segments.indexOf('verifiable-credentials') + 1).map(decodeURIComponent);
+
+    const baseUrl = `${supabaseUrl}/functions/v1/verifiable-credentials`;
+    const ctx: RequestContext = { supabase, baseUrl, issuer: await loadIssuer(supabase, baseUrl) };
+    const body = req.method === 'POST' ? await req.json() as JsonObject : {};
+
+    switch (`${req.method} ${route[0] || ''}`) {
+      case 'GET issuer':
+        return jsonResponse(ctx.issuer.document);
+      case 'GET dids': {
+        const document = route[1] ? await resolveDid(ctx, route[1]) : null;
+        return document ? jsonResponse(document) : jsonResponse({ error: 'DID not found' }, 404);
+      }
+      case 'GET status': {
+        const { data: list } = await supabase
+          .from('vc_status_lists')
+          .select('credential')
+          .eq('id', route[1] || '')
+          .maybeSingle();
+        return list ? jsonResponse(list.credential) : jsonResponse({ error: 'Status list not found' }, 404);
+      }
+      case 'POST challenges':
+        return jsonResponse(await createChallenge(ctx, body), 201);
+      case 'POST verify':
+        return jsonResponse(await verify(ctx, body));
+      case 'POST credentials': {
+        const actorId = await requireAdmin(req, supabase);
+        if (route[1] && route[2] === 'revoke') {
+          return jsonResponse(await revokeCredential(ctx, actorId, route[1], body));
+        }
+        return jsonResponse(await issueCredential(ctx, actorId, body), 201);
+      }
+      default:
+        return jsonResponse({ error: `Unknown endpoint: ${req.method} /${route.join('/')}` }, 404);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    if (error instanceof SyntaxError) {
+      return jsonResponse({ error: 'Request body is not valid JSON' }, 400);
+    }
+
+    console.error('Verifiable credentials error:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
@@ -0,0 +1,408 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.75.0';
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import CryptoJS from 'https://esm.sh/crypto-js@4.2.0';
+import { ristretto255, ristretto255_hasher } from 'https://esm.sh/@noble/curves@2.0.1/ed25519.js';
+import {
+  bytesToHex,
+  bytesToNumberLE,
+  concatBytes,
+  hexToBytes,
+  numberToBytesLE,
+  randomBytes
+} from 'https://esm.sh/@noble/curves@2.0.1/utils.js';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Must match src/lib/zero-knowledge-proofs.ts
+const PROOF_SCHEME = 'pedersen-ristretto255-sigma-v1';
+const DST = 'QUANTUM-IAM-ZK-RISTRETTO255-V1';
+const RANGE_BITS = 7;
+const PROOF_TTL_MS = 5 * 60 * 1000;
+const NULLIFIER_EPOCH_MS = 60 * 60 * 1000;
+
+const Point = ristretto255.Point;
+const Fn = ristretto255.Point.Fn;
+const G = ristretto255.Point.BASE;
+const H = ristretto255_hasher.hashToCurve(new TextEncoder().encode('pedersen-h'), { DST });
+
+type Point = ReturnType<typeof ristretto255.Point.fromHex>;
+
+interface Relation {
+  base: Point;
+  target: Point;
+  witness: number;
+}
+
+interface OrBranchProof {
+  challenge: string;
+  responses: string[];
+}
+
+interface MerklePathStep {
+  sibling: string;
+  position: 'left' | 'right';
+}
+
+interface ZKProof {
+  scheme: string;
+  publicInputs: {
+    resourceHash: string;
+    actionHash: string;
+    minimumTrustScore: number;
+    roleSetRoot: string;
+    anonymityRoot: string;
+    anonymitySetSize: number;
+    epoch: number;
+    timestamp: number;
+  };
+  commitments: {
+    trustScoreCommitment: string;
+    roleCommitment: string;
+  };
+  nullifier: string;
+  membershipProof: OrBranchProof[];
+  rangeProof: {
+    bitCommitments: string[];
+    bitProofs: OrBranchProof[][];
+  };
+  roleProof: {
+    roles: { leaf: string; path: MerklePathStep[] }[];
+    branches: OrBranchProof[];
+  };
+}
+
+interface Gate {
+  resource: string;
+  action: string;
+  minimumTrustScore: number;
+  roleSetRoot: string;
+  allowedRoles: string[];
+}
+
+interface CredentialLeaf {
+  identity_key: string;
+  score_commitment: string;
+  role_commitment: string;
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function rejected(reason: string, riskScore: number, metadata: Record<string, unknown> = {}) {
+  return jsonResponse({ valid: false, reason, riskScore, metadata });
+}
+
+// ============================================================================
+// Group Helpers
+// ============================================================================
+
+const scalarFromHex = (hex: string): bigint => Fn.create(bytesToNumberLE(hexToBytes(hex)));
+const pointFromHex = (hex: string): Point => Point.fromHex(hex);
+
+function mul(point: Point, scalar: bigint): Point {
+  return Fn.is0(scalar) ? Point.ZERO : point.multiply(scalar);
+}
+
+function transcript(...parts: (string | Uint8Array)[]): Uint8Array {
+  return concatBytes(...parts.flatMap(part => {
+    const bytes = typeof part === 'string' ? new TextEncoder().encode(part) : part;
+    return [numberToBytesLE(BigInt(bytes.length), 4), bytes];
+  }));
+}
+
+const hashToScalar = (...parts: (string | Uint8Array)[]) =>
+  ristretto255_hasher.hashToScalar(transcript(...parts), { DST });
+
+const roleScalar = (role: string) => hashToScalar('role', role);
+
+const nullifierBase = (gate: Gate, epoch: number): Point =>
+  ristretto255_hasher.hashToCurve(transcript('nullifier', gate.resource, gate.action, String(epoch)), { DST });
+
+// ============================================================================
+// Merkle Trees
+// ============================================================================
+
+const sha256 = (value: string) => CryptoJS.SHA256(value).toString();
+const hashNode = (left: string, right: string) => sha256(`zk-node:${left}:${right}`);
+const roleLeaf = (role: string) => sha256(`zk-role-leaf:${role}`);
+
+function merkleRoot(leaves: string[]): string {
+  if (leaves.length === 0) return sha256('zk-empty-tree');
+
+  let level = leaves;
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+function verifyMerklePath(leaf: string, path: MerklePathStep[], root: string): boolean {
+  const computed = path.reduce(
+    (node, step) => step.position === 'right' ? hashNode(node, step.sibling) : hashNode(step.sibling, node),
+    leaf
+  );
+  return computed === root;
+}
+
+const anonymityRoot = (anonymitySet: CredentialLeaf[]) => merkleRoot(anonymitySet.map(leaf =>
+  sha256(`zk-credential-leaf:${leaf.identity_key}:${leaf.score_commitment}:${leaf.role_commitment}`)
+));
+
+// ============================================================================
+// Sigma Protocols
+// ============================================================================
+
+function membershipBranches(proof: ZKProof, gate: Gate, anonymitySet: CredentialLeaf[]): Relation[][] {
+  const base = nullifierBase(gate, proof.publicInputs.epoch);
+  const nullifier = pointFromHex(proof.nullifier);
+  const scoreCommitment = pointFromHex(proof.commitments.trustScoreCommitment);
+  const roleCommitment = pointFromHex(proof.commitments.roleCommitment);
+
+  return anonymitySet.map(leaf => [
+    { base: G, target: pointFromHex(leaf.identity_key), witness: 0 },
+    { base, target: nullifier, witness: 0 },
+    { base: H, target: scoreCommitment.subtract(pointFromHex(leaf.score_commitment)), witness: 1 },
+    { base: H, target: roleCommitment.subtract(pointFromHex(leaf.role_commitment)), witness: 2 }
+  ]);
+}
+
+const bitBranches = (bitCommitment: Point): Relation[][] => [
+  [{ base: H, target: bitCommitment, witness: 0 }],
+  [{ base: H, target: bitCommitment.subtract(G), witness: 0 }]
+];
+
+const roleBranches = (roleCommitment: Point, roles: string[]): Relation[][] => roles.map(role => [
+  { base: H, target: roleCommitment.subtract(mul(G, roleScalar(role))), witness: 0 }
+]);
+
+function verifyOr(label: string, context: Uint8Array, branches: Relation[][], proof: OrBranchProof[]): boolean {
+  if (proof.length !== branches.length) return false;
+
+  let challengeSum = Fn.ZERO;
+  const announcements: Point[] = [];
+  branches.forEach((relations, j) => {
+    const challenge = scalarFromHex(proof[j].challenge);
+    const responses = proof[j].responses.map(scalarFromHex);
+    challengeSum = Fn.add(challengeSum, challenge);
+    announcements.push(...relations.map(r => {
+      if (responses[r.witness] === undefined) throw new Error('Missing response');
+      return mul(r.base, responses[r.witness]).subtract(mul(r.target, challenge));
+    }));
+  });
+
+  return Fn.eql(challengeSum, hashToScalar(label, context, ...announcements.map(a => a.toBytes())));
+}
+
+function proofContext(proof: ZKProof): Uint8Array {
+  const inputs = proof.publicInputs;
+  return transcript(
+    PROOF_SCHEME,
+    inputs.resourceHash,
+    inputs.actionHash,
+    String(inputs.minimumTrustScore),
+    inputs.roleSetRoot,
+    inputs.anonymityRoot,
+    String(inputs.anonymitySetSize),
+    String(inputs.epoch),
+    String(inputs.timestamp),
+    proof.commitments.trustScoreCommitment,
+    proof.commitments.roleCommitment,
+    proof.nullifier,
+    ...proof.rangeProof.bitCommitments,
+    ...proof.roleProof.roles.map(r => r.leaf)
+  );
+}
+
+// Returns the name of the first failed check, or null if all pass
+function verifyProofCryptography(proof: ZKProof, gate: Gate, anonymitySet: CredentialLeaf[]): string | null {
+  try {
+    const context = proofContext(proof);
+
+    if (proof.membershipProof.length !== anonymitySet.length ||
+      !verifyOr('membership', context, membershipBranches(proof, gate, anonymitySet), proof.membershipProof)) {
+      return 'membership';
+    }
+
+    const { bitCommitments, bitProofs } = proof.rangeProof;
+    if (bitCommitments.length !== RANGE_BITS || bitProofs.length !== RANGE_BITS) return 'range';
+    const bits = bitCommitments.map(pointFromHex);
+    const recombined = bits.reduce((sum, bit, i) => sum.add(mul(bit, 1n << BigInt(i))), Point.ZERO);
+    const difference = pointFromHex(proof.commitments.trustScoreCommitment)
+      .subtract(mul(G, BigInt(proof.publicInputs.minimumTrustScore)));
+    if (!recombined.equals(difference)) return 'range';
+    for (let i = 0; i < RANGE_BITS; i++) {
+      if (!verifyOr(`bit-${i}`, context, bitBranches(bits[i]), bitProofs[i])) return 'range';
+    }
+
+    const { roles, branches } = proof.roleProof;
+    const allowedRoles: string[] = [];
+    for (const { leaf, path } of roles) {
+      if (!verifyMerklePath(leaf, path, gate.roleSetRoot)) return 'role_set';
+      const role = gate.allowedRoles.find(r => roleLeaf(r) === leaf);
+      if (!role) return 'role_set';
+      allowedRoles.push(role);
+    }
+    if (allowedRoles.length === 0 ||
+      !verifyOr('role', context, roleBranches(pointFromHex(proof.commitments.roleCommitment), allowedRoles), branches)) {
+      return 'role';
+    }
+
+    return null;
+  } catch (error) {
+    console.error('Proof verification error:', error);
+    return 'malformed';
+  }
+}
+
+/**
+ * Zero-knowledge proof verification
+ * Checks a proof against the gate the caller names and the current set of
+ * active credentials, spends its nullifier and returns an access token for
+ * that gate. The nullifier is sk·S with S derived from the gate and the
+ * hour the proof was made in, so each credential gets one token per gate
+ * per hour. Only the token's hash is stored, next to the gate it opens.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const authToken = req.headers.get('Authorization')?.replace('Bearer ', '');
+    if (!authToken) {
+      return jsonResponse({ error: 'Missing authorization' }, 401);
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authToken);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { proof, gate: requested } = await req.json() as {
+      proof: ZKProof;
+      gate: { resource: string; action: string; minimumTrustScore: number; allowedRoles: string[] };
+    };
+    if (!proof?.publicInputs || typeof requested?.resource !== 'string' || typeof requested.action !== 'string') {
+      return jsonResponse({ error: 'proof and gate are required' }, 400);
+    }
+    const { minimumTrustScore } = requested;
+    if (!Number.isInteger(minimumTrustScore) || minimumTrustScore < 0 || minimumTrustScore > 100) {
+      return jsonResponse({ error: 'Minimum trust score must be an integer between 0 and 100' }, 400);
+    }
+    const allowedRoles = Array.from(new Set(requested.allowedRoles ?? [])).map(String).sort();
+    if (allowedRoles.length === 0) {
+      return jsonResponse({ error: 'A gate needs at least one allowed role' }, 400);
+    }
+    const gate: Gate = {
+      resource: requested.resource,
+      action: requested.action,
+      minimumTrustScore,
+      roleSetRoot: merkleRoot(allowedRoles.map(roleLeaf)),
+      allowedRoles
+    };
+
+    // 1. The proof is recent, and its nullifier epoch is the one it was made in
+    const { publicInputs } = proof;
+    const proofAge = Date.now() - publicInputs.timestamp;
+    if (proof.scheme !== PROOF_SCHEME) {
+      return rejected('Unsupported proof scheme', 100, { scheme: proof.scheme });
+    }
+    if (!Number.isSafeInteger(publicInputs.timestamp) || proofAge > PROOF_TTL_MS || proofAge < -60 * 1000) {
+      return rejected('Proof has expired', 50, { proof_age_ms: proofAge });
+    }
+    if (publicInputs.epoch !== Math.floor(publicInputs.timestamp / NULLIFIER_EPOCH_MS)) {
+      return rejected('Proof epoch does not match its timestamp', 100, { attack_type: 'forged_proof' });
+    }
+
+    // 2. It was made for this gate
+    const resourceHash = CryptoJS.SHA3(gate.resource).toString();
+    const actionHash = CryptoJS.SHA3(gate.action).toString();
+    if (publicInputs.resourceHash !== resourceHash || publicInputs.actionHash !== actionHash) {
+      return rejected('Resource or action mismatch', 80, { expected: { resourceHash, actionHash } });
+    }
+    if (publicInputs.minimumTrustScore !== gate.minimumTrustScore || publicInputs.roleSetRoot !== gate.roleSetRoot) {
+      return rejected('Proof was made for a different access policy', 80, {
+        minimum_trust_score: publicInputs.minimumTrustScore,
+        role_set_root: publicInputs.roleSetRoot
+      });
+    }
+
+    // 3. Against the credentials active now
+    const { data: anonymitySet, error: setError } = await supabase
+      .from('zk_credentials')
+      .select('identity_key, score_commitment, role_commitment')
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('issued_at')
+      .order('id');
+    if (setError) throw setError;
+
+    const root = anonymityRoot(anonymitySet);
+    if (publicInputs.anonymityRoot !== root) {
+      return rejected('Credential set has changed since the proof was made', 30, { expected: root });
+    }
+
+    // 4. The sub-proofs hold
+    const failure = verifyProofCryptography(proof, gate, anonymitySet);
+    if (failure) {
+      return rejected('Cryptographic proof verification failed', 100, { attack_type: 'forged_proof', failed_check: failure });
+    }
+
+    // 5. Spend the nullifier and issue a token bound to the gate
+    const accessToken = bytesToHex(randomBytes(32));
+    const tokenHash = bytesToHex(new Uint8Array(
+      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(accessToken))
+    ));
+    const { data: expiresAt, error: consumeError } = await supabase.rpc('consume_zk_nullifier', {
+      _nullifier: proof.nullifier,
+      _resource_hash: resourceHash,
+      _action_hash: actionHash,
+      _minimum_trust_score: gate.minimumTrustScore,
+      _role_set_root: gate.roleSetRoot,
+      _anonymity_root: root,
+      _epoch: publicInputs.epoch,
+      _token_hash: tokenHash
+    });
+    if (consumeError) throw consumeError;
+    if (!expiresAt) {
+      return rejected('Proof has already been used (replay attack detected)', 100, { attack_type: 'replay' });
+    }
+
+    await supabase.rpc('log_audit_event', {
+      _action: 'ZK_PROOF_VERIFIED',
+      _resource: 'zk_nullifiers',
+      _details: { resource_hash: resourceHash, action_hash: actionHash, anonymity_set_size: anonymitySet.length }
+    });
+
+    return jsonResponse({
+      valid: true,
+      reason: 'Zero-knowledge proof verified successfully',
+      riskScore: 0,
+      metadata: {
+        trust_score_minimum: gate.minimumTrustScore,
+        anonymity_set_size: anonymitySet.length,
+        verified_at: Date.now()
+      },
+      token: accessToken,
+      expiresAt
+    });
+  } catch (error) {
+    console.error('Error verifying ZK proof:', error);
+    return jsonResponse({ error: (error as Error).message || 'Unknown error' }, 500);
+  }
+});
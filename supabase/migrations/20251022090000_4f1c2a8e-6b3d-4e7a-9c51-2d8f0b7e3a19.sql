@@ -0,0 +1,29 @@
+-- Links between directory entries (LDAP/AD) and local users/groups
+-- Lets directory sync tell which accounts and groups it manages
+CREATE TABLE public.directory_sync_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  integration_id UUID NOT NULL REFERENCES public.directory_integrations(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('user', 'group')),
+  external_id TEXT NOT NULL,
+  distinguished_name TEXT NOT NULL,
+  local_id UUID NOT NULL,
+  attributes_hash TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (integration_id, entry_type, external_id)
+);
+
+ALTER TABLE public.directory_sync_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage directory sync links" ON public.directory_sync_links
+FOR ALL USING (has_role(auth.uid(), 'admin'::system_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE INDEX idx_directory_sync_links_integration ON public.directory_sync_links(integration_id, entry_type);
+CREATE INDEX idx_directory_sync_links_local_id ON public.directory_sync_links(local_id);
+
+CREATE TRIGGER update_directory_sync_links_updated_at
+  BEFORE UPDATE ON public.directory_sync_links
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,23 @@
+-- SCIM 2.0 resource metadata (externalId, version for ETags)
+CREATE TABLE public.scim_resources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('User', 'Group')),
+  local_id UUID NOT NULL,
+  external_id TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  provisioned_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (resource_type, local_id)
+);
+
+ALTER TABLE public.scim_resources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view SCIM resources" ON public.scim_resources
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE INDEX idx_scim_resources_external_id ON public.scim_resources(resource_type, external_id);
+
+CREATE TRIGGER update_scim_resources_updated_at
+  BEFORE UPDATE ON public.scim_resources
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
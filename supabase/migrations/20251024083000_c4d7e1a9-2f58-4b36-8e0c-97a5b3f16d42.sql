@@ -0,0 +1,19 @@
+-- Lifecycle workflows (joiner / mover / leaver)
+-- Admins run multi-step workflows that update the event as each step completes,
+-- and offboarding needs to revoke other users' sessions, API keys and privileged sessions
+
+CREATE POLICY "Admins can manage lifecycle events" ON public.identity_lifecycle_events
+FOR ALL USING (has_role(auth.uid(), 'admin'::system_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can revoke user sessions" ON public.user_sessions
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can disable API keys" ON public.user_api_keys
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can end privileged sessions" ON public.privileged_sessions
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE INDEX IF NOT EXISTS idx_identity_lifecycle_events_user
+  ON public.identity_lifecycle_events(user_id, created_at DESC);
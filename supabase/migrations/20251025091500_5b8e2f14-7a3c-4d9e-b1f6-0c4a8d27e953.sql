@@ -0,0 +1,168 @@
+-- Access certification (user access review) campaigns
+-- A campaign snapshots every user's effective access into review items that
+-- reviewers approve or revoke; revocations are executed server-side.
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS manager_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE TABLE public.access_review_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  reviewer_strategy TEXT NOT NULL DEFAULT 'manager' CHECK (reviewer_strategy IN ('manager', 'resource_owner')),
+  fallback_reviewer_id UUID NOT NULL,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  due_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  total_items INTEGER NOT NULL DEFAULT 0,
+  created_by UUID NOT NULL,
+  completed_by UUID,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  result_hash TEXT,
+  result_signature TEXT,
+  signing_public_key TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.access_review_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  campaign_id UUID NOT NULL REFERENCES public.access_review_campaigns(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  reviewer_id UUID NOT NULL,
+  access_type TEXT NOT NULL CHECK (access_type IN (
+    'role', 'group_membership', 'time_based_permission', 'temporary_role', 'quantum_permission'
+  )),
+  source_id UUID NOT NULL,
+  access_label TEXT NOT NULL,
+  access_details JSONB NOT NULL DEFAULT '{}',
+  decision TEXT NOT NULL DEFAULT 'pending' CHECK (decision IN ('pending', 'approved', 'revoked')),
+  decision_comment TEXT,
+  decided_by UUID,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  revocation_status TEXT CHECK (revocation_status IN ('executed', 'failed')),
+  revocation_error TEXT,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.access_review_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.access_review_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage access review campaigns" ON public.access_review_campaigns
+FOR ALL USING (has_role(auth.uid(), 'admin'::system_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Reviewers can view their campaigns" ON public.access_review_campaigns
+FOR SELECT USING (EXISTS (
+  SELECT 1 FROM public.access_review_items i
+  WHERE i.campaign_id = access_review_campaigns.id AND i.reviewer_id = auth.uid()
+));
+
+CREATE POLICY "Admins can manage access review items" ON public.access_review_items
+FOR ALL USING (has_role(auth.uid(), 'admin'::system_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Reviewers can view assigned items" ON public.access_review_items
+FOR SELECT USING (auth.uid() = reviewer_id);
+
+CREATE POLICY "Reviewers can decide assigned items" ON public.access_review_items
+FOR UPDATE USING (auth.uid() = reviewer_id)
+WITH CHECK (auth.uid() = reviewer_id);
+
+CREATE INDEX idx_access_review_items_campaign ON public.access_review_items(campaign_id, decision);
+CREATE INDEX idx_access_review_items_reviewer ON public.access_review_items(reviewer_id, decision);
+
+CREATE TRIGGER update_access_review_campaigns_updated_at
+  BEFORE UPDATE ON public.access_review_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_access_review_items_updated_at
+  BEFORE UPDATE ON public.access_review_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Execute the revocation for a reviewed item. Runs as definer so reviewers who
+-- are not administrators (managers, resource owners) can still remove access.
+CREATE OR REPLACE FUNCTION public.execute_access_review_revocation(_item_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.access_review_items%ROWTYPE;
+  _campaign_status TEXT;
+  _current_role system_role;
+BEGIN
+  SELECT * INTO _item FROM public.access_review_items WHERE id = _item_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Review item not found');
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _item.reviewer_id AND NOT has_role(auth.uid(), 'admin'::system_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the assigned reviewer can revoke this access');
+  END IF;
+
+  IF _item.decision <> 'revoked' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Item has not been revoked by its reviewer');
+  END IF;
+
+  IF _item.revocation_status = 'executed' THEN
+    RETURN jsonb_build_object('success', true, 'already_executed', true);
+  END IF;
+
+  SELECT status INTO _campaign_status FROM public.access_review_campaigns WHERE id = _item.campaign_id;
+  IF _campaign_status = 'cancelled' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Campaign has been cancelled');
+  END IF;
+
+  BEGIN
+    CASE _item.access_type
+      WHEN 'role' THEN
+        -- Elevated roles fall back to the base user role; the base role itself is removed
+        SELECT role INTO _current_role FROM public.user_roles WHERE id = _item.source_id;
+        IF _current_role IS NULL OR _current_role = 'user'::system_role THEN
+          DELETE FROM public.user_roles WHERE id = _item.source_id;
+        ELSE
+          UPDATE public.user_roles SET role = 'user'::system_role, assigned_by = auth.uid()
+          WHERE id = _item.source_id;
+        END IF;
+      WHEN 'group_membership' THEN
+        DELETE FROM public.user_group_memberships WHERE id = _item.source_id;
+      WHEN 'time_based_permission' THEN
+        UPDATE public.time_based_permissions SET is_active = false WHERE id = _item.source_id;
+      WHEN 'temporary_role' THEN
+        UPDATE public.temporary_role_assignments SET is_active = false WHERE id = _item.source_id;
+      WHEN 'quantum_permission' THEN
+        UPDATE public.quantum_permissions SET is_active = false WHERE id = _item.source_id;
+    END CASE;
+
+    UPDATE public.access_review_items
+    SET revocation_status = 'executed', revocation_error = NULL, revoked_at = now()
+    WHERE id = _item_id;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.access_review_items
+    SET revocation_status = 'failed', revocation_error = SQLERRM
+    WHERE id = _item_id;
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  PERFORM public.log_audit_event(
+    'ACCESS_REVIEW_REVOKE',
+    'access_review_items',
+    _item_id,
+    jsonb_build_object(
+      'campaign_id', _item.campaign_id,
+      'user_id', _item.user_id,
+      'access_type', _item.access_type,
+      'source_id', _item.source_id,
+      'access_label', _item.access_label
+    )
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
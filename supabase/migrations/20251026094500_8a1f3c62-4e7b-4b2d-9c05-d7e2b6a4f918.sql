@@ -0,0 +1,132 @@
+-- Separation of duties (SoD)
+-- Toxic-combination rules live in governance_policies (policy_type =
+-- 'segregation_of_duties'); conflicts that are not blocked are recorded in
+-- policy_violations and worked through a remediation workflow.
+
+-- Grants evaluated on behalf of the requesting user (JIT access requests)
+-- record their own violations
+CREATE POLICY "Users can record automated violations about themselves" ON public.policy_violations
+FOR INSERT WITH CHECK (
+  auth.uid() = user_id AND detection_method = 'automated' AND status = 'open'
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_violations_type_status
+  ON public.policy_violations(violation_type, status);
+
+CREATE INDEX IF NOT EXISTS idx_governance_policies_type
+  ON public.governance_policies(policy_type) WHERE is_active = true;
+
+-- Default rule: nobody may both request and approve on the same resource
+INSERT INTO public.governance_policies (policy_name, policy_type, policy_rules, compliance_frameworks, enforcement_level, scope_criteria, created_by)
+VALUES (
+  'Requester / Approver Segregation',
+  'segregation_of_duties',
+  '{"combinations": [{"id": "request-approve", "description": "Request and approve on the same resource", "entitlements": [{"action": "request"}, {"action": "approve"}], "sameResource": true, "severity": "high"}]}',
+  ARRAY['SOC2', 'SOX'],
+  'block',
+  '{"exemptUserIds": []}',
+  '00000000-0000-0000-0000-000000000000'
+);
+
+-- Requesters can no longer approve their own requests, and the approver must
+-- be the caller rather than whoever is passed in
+CREATE OR REPLACE FUNCTION public.process_approval_request(
+  _request_id UUID,
+  _action TEXT, -- 'approve' or 'reject'
+  _approver_id UUID,
+  _comments TEXT DEFAULT NULL
+) RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $$
+DECLARE
+  _request RECORD;
+  _workflow_steps JSONB;
+  _step_config JSONB;
+  _next_step INTEGER;
+  _is_final_step BOOLEAN := false;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM _approver_id THEN
+    RAISE EXCEPTION 'Approver must be the calling user';
+  END IF;
+
+  -- Get request details
+  SELECT * INTO _request
+  FROM public.approval_requests
+  WHERE id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  -- Check if request is still pending
+  IF _request.status != 'pending' THEN
+    RAISE EXCEPTION 'Request is no longer pending';
+  END IF;
+
+  -- Separation of duties: requesters cannot act on their own requests
+  IF _request.requester_id = _approver_id THEN
+    RAISE EXCEPTION 'Separation of duties: requesters cannot approve their own requests';
+  END IF;
+
+  -- Get workflow steps
+  SELECT approval_steps INTO _workflow_steps
+  FROM public.approval_workflows
+  WHERE id = _request.workflow_id;
+
+  -- Get current step configuration
+  _step_config := _workflow_steps->_request.current_step;
+
+  -- Check if user is authorized to approve this step
+  IF _step_config->>'approver_id' != _approver_id::text AND NOT public.has_role(_approver_id, 'admin'::public.system_role) THEN
+    RAISE EXCEPTION 'User not authorized to approve this step';
+  END IF;
+
+  -- Update approval history
+  UPDATE public.approval_requests
+  SET 
+    approval_history = approval_history || jsonb_build_object(
+      'step', _request.current_step,
+      'action', _action,
+      'approver_id', _approver_id,
+      'comments', _comments,
+      'timestamp', now()
+    ),
+    updated_at = now()
+  WHERE id = _request_id;
+
+  -- Handle rejection
+  IF _action = 'reject' THEN
+    UPDATE public.approval_requests
+    SET 
+      status = 'rejected',
+      completed_at = now()
+    WHERE id = _request_id;
+    RETURN true;
+  END IF;
+
+  -- Handle approval - check if this is the final step
+  _next_step := _request.current_step + 1;
+  _is_final_step := _next_step >= jsonb_array_length(_workflow_steps);
+
+  IF _is_final_step THEN
+    -- Final approval - execute the request
+    UPDATE public.approval_requests
+    SET 
+      status = 'approved',
+      completed_at = now(),
+      current_step = _next_step
+    WHERE id = _request_id;
+  ELSE
+    -- Move to next step
+    UPDATE public.approval_requests
+    SET 
+      current_step = _next_step,
+      updated_at = now()
+    WHERE id = _request_id;
+  END IF;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,252 @@
+-- Relationship-based access control (ReBAC)
+-- Zanzibar-style relation tuples: <object_type>:<object_id>#<relation>@<subject>
+-- where the subject is a user, a user group (group:<id>#member) or another
+-- object's userset (e.g. folder:<id>#viewer). Documents and folders inherit
+-- from their parent folder, tasks are visible to members of their project.
+--
+-- Rewrite rules (mirrored in src/lib/relationship-access.ts):
+--   document, folder: owner -> editor -> viewer, parent folder editor/viewer
+--   task:             owner (assigned_by), assignee (assigned_to) -> editor -> viewer,
+--                     parent project member -> viewer
+--   project:          owner -> member
+
+CREATE TABLE public.relation_tuples (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  object_type TEXT NOT NULL CHECK (object_type IN ('document', 'folder', 'task', 'project')),
+  object_id TEXT NOT NULL,
+  relation TEXT NOT NULL CHECK (relation IN ('owner', 'editor', 'viewer', 'member', 'parent')),
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('user', 'group', 'document', 'folder', 'task', 'project')),
+  subject_id TEXT NOT NULL,
+  subject_relation TEXT,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_relation_tuples_unique
+  ON public.relation_tuples(object_type, object_id, relation, subject_type, subject_id, COALESCE(subject_relation, ''));
+
+CREATE INDEX idx_relation_tuples_subject
+  ON public.relation_tuples(subject_type, subject_id);
+
+ALTER TABLE public.relation_tuples ENABLE ROW LEVEL SECURITY;
+
+-- Check whether a user holds a relation on an object, following direct
+-- tuples, group membership, usersets, implied relations and parents
+CREATE OR REPLACE FUNCTION public.check_relation(
+  _user_id UUID,
+  _object_type TEXT,
+  _object_id TEXT,
+  _relation TEXT,
+  _depth INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _tuple RECORD;
+BEGIN
+  IF _user_id IS NULL OR _depth > 8 THEN
+    RETURN false;
+  END IF;
+
+  -- Relations computed from the object row itself
+  IF _object_type = 'document' AND _relation = 'owner' THEN
+    IF EXISTS (SELECT 1 FROM public.documents WHERE id::text = _object_id AND created_by = _user_id) THEN
+      RETURN true;
+    END IF;
+  ELSIF _object_type = 'task' AND _relation = 'owner' THEN
+    IF EXISTS (SELECT 1 FROM public.tasks WHERE id::text = _object_id AND assigned_by = _user_id) THEN
+      RETURN true;
+    END IF;
+  ELSIF _object_type = 'task' AND _relation = 'assignee' THEN
+    RETURN EXISTS (SELECT 1 FROM public.tasks WHERE id::text = _object_id AND assigned_to = _user_id);
+  END IF;
+
+  -- Direct, group and userset tuples
+  FOR _tuple IN
+    SELECT subject_type, subject_id, subject_relation
+    FROM public.relation_tuples
+    WHERE object_type = _object_type AND object_id = _object_id AND relation = _relation
+  LOOP
+    IF _tuple.subject_type = 'user' THEN
+      IF _tuple.subject_id = _user_id::text THEN
+        RETURN true;
+      END IF;
+    ELSIF _tuple.subject_type = 'group' THEN
+      IF EXISTS (
+        SELECT 1 FROM public.user_group_memberships
+        WHERE group_id::text = _tuple.subject_id AND user_id = _user_id
+      ) THEN
+        RETURN true;
+      END IF;
+    ELSIF _tuple.subject_relation IS NOT NULL THEN
+      IF public.check_relation(_user_id, _tuple.subject_type, _tuple.subject_id, _tuple.subject_relation, _depth + 1) THEN
+        RETURN true;
+      END IF;
+    END IF;
+  END LOOP;
+
+  -- Implied relations
+  IF _object_type IN ('document', 'folder', 'task') AND _relation = 'viewer' THEN
+    IF public.check_relation(_user_id, _object_type, _object_id, 'editor', _depth + 1) THEN
+      RETURN true;
+    END IF;
+  ELSIF _object_type IN ('document', 'folder') AND _relation = 'editor' THEN
+    IF public.check_relation(_user_id, _object_type, _object_id, 'owner', _depth + 1) THEN
+      RETURN true;
+    END IF;
+  ELSIF _object_type = 'task' AND _relation = 'editor' THEN
+    IF public.check_relation(_user_id, 'task', _object_id, 'assignee', _depth + 1)
+      OR public.check_relation(_user_id, 'task', _object_id, 'owner', _depth + 1) THEN
+      RETURN true;
+    END IF;
+  ELSIF _object_type = 'project' AND _relation = 'member' THEN
+    IF public.check_relation(_user_id, 'project', _object_id, 'owner', _depth + 1) THEN
+      RETURN true;
+    END IF;
+  END IF;
+
+  -- Inheritance from the parent folder or project
+  IF _object_type IN ('document', 'folder') AND _relation IN ('editor', 'viewer') THEN
+    FOR _tuple IN
+      SELECT subject_id FROM public.relation_tuples
+      WHERE object_type = _object_type AND object_id = _object_id
+        AND relation = 'parent' AND subject_type = 'folder'
+    LOOP
+      IF public.check_relation(_user_id, 'folder', _tuple.subject_id, _relation, _depth + 1) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+  ELSIF _object_type = 'task' AND _relation = 'viewer' THEN
+    FOR _tuple IN
+      SELECT subject_id FROM public.relation_tuples
+      WHERE object_type = 'task' AND object_id = _object_id
+        AND relation = 'parent' AND subject_type = 'project'
+    LOOP
+      IF public.check_relation(_user_id, 'project', _tuple.subject_id, 'member', _depth + 1) THEN
+        RETURN true;
+      END IF;
+    END LOOP;
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- Objects of a type on which the user holds the relation
+CREATE OR REPLACE FUNCTION public.list_related_objects(
+  _user_id UUID,
+  _object_type TEXT,
+  _relation TEXT
+)
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT candidate.object_id
+  FROM (
+    SELECT object_id FROM public.relation_tuples WHERE object_type = _object_type
+    UNION
+    SELECT id::text FROM public.documents WHERE _object_type = 'document'
+    UNION
+    SELECT id::text FROM public.tasks WHERE _object_type = 'task'
+  ) AS candidate
+  WHERE public.check_relation(_user_id, _object_type, candidate.object_id, _relation);
+$$;
+
+-- Who may change the tuples of an object: administrators and the object's owner
+CREATE OR REPLACE FUNCTION public.can_manage_relations(
+  _user_id UUID,
+  _object_type TEXT,
+  _object_id TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::system_role)
+    OR public.check_relation(_user_id, _object_type, _object_id, 'owner');
+$$;
+
+-- Whether any tuple exists for an object (checked outside RLS)
+CREATE OR REPLACE FUNCTION public.relation_object_exists(_object_type TEXT, _object_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.relation_tuples
+    WHERE object_type = _object_type AND object_id = _object_id
+  );
+$$;
+
+CREATE POLICY "Users can view relations they can see" ON public.relation_tuples
+FOR SELECT USING (
+  has_role(auth.uid(), 'admin'::system_role)
+  OR (subject_type = 'user' AND subject_id = auth.uid()::text)
+  OR public.check_relation(
+    auth.uid(), object_type, object_id,
+    CASE WHEN object_type = 'project' THEN 'member' ELSE 'viewer' END
+  )
+);
+
+CREATE POLICY "Owners can share their objects" ON public.relation_tuples
+FOR INSERT WITH CHECK (
+  auth.uid() = created_by AND (
+    public.can_manage_relations(auth.uid(), object_type, object_id)
+    -- Folders and projects have no table of their own: the first owner
+    -- tuple claims them
+    OR (
+      object_type IN ('folder', 'project')
+      AND relation = 'owner'
+      AND subject_type = 'user'
+      AND subject_id = auth.uid()::text
+      AND NOT public.relation_object_exists(object_type, object_id)
+    )
+  )
+);
+
+CREATE POLICY "Owners can revoke relations on their objects" ON public.relation_tuples
+FOR DELETE USING (public.can_manage_relations(auth.uid(), object_type, object_id));
+
+-- Shared documents and project tasks
+CREATE POLICY "Users can view documents shared with them" ON public.documents
+FOR SELECT USING (public.check_relation(auth.uid(), 'document', id::text, 'viewer'));
+
+CREATE POLICY "Editors can update shared documents" ON public.documents
+FOR UPDATE USING (public.check_relation(auth.uid(), 'document', id::text, 'editor'));
+
+CREATE POLICY "Project members can view project tasks" ON public.tasks
+FOR SELECT USING (public.check_relation(auth.uid(), 'task', id::text, 'viewer'));
+
+-- Drop the tuples of deleted documents and tasks
+CREATE OR REPLACE FUNCTION public.delete_object_relation_tuples()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.relation_tuples
+  WHERE (object_type = TG_ARGV[0] AND object_id = OLD.id::text)
+     OR (subject_type = TG_ARGV[0] AND subject_id = OLD.id::text);
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_document_relation_tuples
+AFTER DELETE ON public.documents
+FOR EACH ROW EXECUTE FUNCTION public.delete_object_relation_tuples('document');
+
+CREATE TRIGGER delete_task_relation_tuples
+AFTER DELETE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.delete_object_relation_tuples('task');
@@ -0,0 +1,164 @@
+-- Threshold signing key share custody
+-- Each participant's FROST key share is sealed to their ML-KEM-768 public
+-- key (quantum_keys or their DID document) and stored here. Only the
+-- participant can read their sealed share; everyone else sees status only.
+-- Refreshing or replacing participants issues a new epoch of shares under
+-- the same group public key and wipes the previous epoch.
+
+CREATE TABLE public.threshold_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key_id TEXT NOT NULL UNIQUE,
+  group_public_key TEXT NOT NULL,
+  threshold INTEGER NOT NULL CHECK (threshold > 0),
+  total_shares INTEGER NOT NULL CHECK (total_shares >= threshold),
+  epoch INTEGER NOT NULL DEFAULT 1,
+  public_key_package JSONB NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.threshold_key_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key_id TEXT NOT NULL REFERENCES public.threshold_keys(key_id) ON DELETE CASCADE,
+  share_id INTEGER NOT NULL,
+  epoch INTEGER NOT NULL,
+  participant_id UUID NOT NULL,
+  verification_share TEXT NOT NULL,
+  kem_algorithm TEXT NOT NULL DEFAULT 'ML-KEM-768',
+  kem_key_source TEXT NOT NULL CHECK (kem_key_source IN ('quantum_keys', 'did')),
+  kem_key_fingerprint TEXT NOT NULL,
+  kem_ciphertext TEXT,
+  sealed_share TEXT,
+  nonce TEXT,
+  status TEXT NOT NULL DEFAULT 'sealed' CHECK (status IN ('sealed', 'retrieved', 'superseded')),
+  sealed_by UUID NOT NULL,
+  retrieved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (key_id, share_id, epoch)
+);
+
+CREATE INDEX idx_threshold_key_shares_participant
+  ON public.threshold_key_shares(participant_id, status);
+
+ALTER TABLE public.threshold_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.threshold_key_shares ENABLE ROW LEVEL SECURITY;
+
+-- Administrators and the key's creator run ceremonies for it
+CREATE OR REPLACE FUNCTION public.can_manage_threshold_key(_user_id UUID, _key_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin'::system_role)
+    OR EXISTS (
+      SELECT 1 FROM public.threshold_keys
+      WHERE key_id = _key_id AND created_by = _user_id
+    );
+$$;
+
+-- Custody status of every share of a key, without the sealed material
+CREATE OR REPLACE FUNCTION public.get_threshold_share_status(_key_id TEXT)
+RETURNS TABLE (
+  share_id INTEGER,
+  epoch INTEGER,
+  participant_id UUID,
+  verification_share TEXT,
+  kem_key_source TEXT,
+  kem_key_fingerprint TEXT,
+  status TEXT,
+  sealed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  retrieved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.share_id, s.epoch, s.participant_id, s.verification_share, s.kem_key_source,
+         s.kem_key_fingerprint, s.status, s.sealed_by, s.created_at, s.retrieved_at
+  FROM public.threshold_key_shares s
+  WHERE s.key_id = _key_id
+    AND (
+      public.can_manage_threshold_key(auth.uid(), _key_id)
+      OR EXISTS (
+        SELECT 1 FROM public.threshold_key_shares mine
+        WHERE mine.key_id = _key_id AND mine.participant_id = auth.uid()
+      )
+    )
+  ORDER BY s.epoch DESC, s.share_id;
+$$;
+
+-- Participants acknowledge that they have unsealed their current share
+CREATE OR REPLACE FUNCTION public.mark_threshold_share_retrieved(_key_id TEXT, _share_id INTEGER, _epoch INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.threshold_key_shares
+  SET status = 'retrieved', retrieved_at = now()
+  WHERE key_id = _key_id AND share_id = _share_id AND epoch = _epoch
+    AND participant_id = auth.uid()
+    AND status = 'sealed';
+
+  RETURN FOUND;
+END;
+$$;
+
+CREATE POLICY "Participants and managers can view threshold keys" ON public.threshold_keys
+FOR SELECT USING (
+  public.can_manage_threshold_key(auth.uid(), key_id)
+  OR EXISTS (
+    SELECT 1 FROM public.threshold_key_shares
+    WHERE threshold_key_shares.key_id = threshold_keys.key_id
+      AND threshold_key_shares.participant_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can create threshold keys" ON public.threshold_keys
+FOR INSERT WITH CHECK (
+  auth.uid() = created_by AND has_role(auth.uid(), 'admin'::system_role)
+);
+
+CREATE POLICY "Managers can update threshold keys" ON public.threshold_keys
+FOR UPDATE USING (public.can_manage_threshold_key(auth.uid(), key_id));
+
+CREATE POLICY "Managers can delete threshold keys" ON public.threshold_keys
+FOR DELETE USING (public.can_manage_threshold_key(auth.uid(), key_id));
+
+CREATE POLICY "Participants can view their own sealed shares" ON public.threshold_key_shares
+FOR SELECT USING (auth.uid() = participant_id);
+
+CREATE POLICY "Managers can deposit sealed shares" ON public.threshold_key_shares
+FOR INSERT WITH CHECK (
+  auth.uid() = sealed_by AND public.can_manage_threshold_key(auth.uid(), key_id)
+);
+
+-- A new epoch supersedes the previous one. Old shares still combine with
+-- each other, so they are wiped rather than kept next to the new ones.
+CREATE OR REPLACE FUNCTION public.supersede_threshold_key_shares()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.threshold_key_shares
+  SET status = 'superseded', kem_ciphertext = NULL, sealed_share = NULL, nonce = NULL
+  WHERE key_id = NEW.key_id AND epoch < NEW.epoch AND status <> 'superseded';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER supersede_threshold_key_shares
+AFTER INSERT ON public.threshold_key_shares
+FOR EACH ROW EXECUTE FUNCTION public.supersede_threshold_key_shares();
+
+CREATE TRIGGER update_threshold_keys_updated_at
+BEFORE UPDATE ON public.threshold_keys
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
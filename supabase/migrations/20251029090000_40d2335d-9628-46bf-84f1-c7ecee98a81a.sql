@@ -0,0 +1,108 @@
+-- Zero-knowledge access credentials
+-- The issue-zk-credential edge function commits to a user's trust score and
+-- effective role (Pedersen commitments over ristretto255) next to the
+-- identity key the user generated. Proofs show membership in the set of
+-- active credentials without saying which one, so the set is published
+-- without user ids. Spent nullifiers are kept here so replayed proofs are
+-- rejected across restarts.
+
+CREATE TABLE public.zk_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  identity_key TEXT NOT NULL UNIQUE,
+  score_commitment TEXT NOT NULL,
+  role_commitment TEXT NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_zk_credentials_active
+  ON public.zk_credentials(issued_at, id) WHERE revoked_at IS NULL;
+
+CREATE TABLE public.zk_nullifiers (
+  nullifier TEXT NOT NULL PRIMARY KEY,
+  resource_hash TEXT NOT NULL,
+  action_hash TEXT NOT NULL,
+  anonymity_root TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.zk_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.zk_nullifiers ENABLE ROW LEVEL SECURITY;
+
+-- Credentials are issued by the edge function with the service role
+CREATE POLICY "Users can view their own ZK credentials" ON public.zk_credentials
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ZK credentials" ON public.zk_credentials
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can revoke ZK credentials" ON public.zk_credentials
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view spent nullifiers" ON public.zk_nullifiers
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+-- The anonymity set: every active credential, without its owner
+CREATE OR REPLACE FUNCTION public.get_zk_anonymity_set()
+RETURNS TABLE (
+  id UUID,
+  identity_key TEXT,
+  score_commitment TEXT,
+  role_commitment TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id, identity_key, score_commitment, role_commitment
+  FROM public.zk_credentials
+  WHERE revoked_at IS NULL AND expires_at > now() AND auth.uid() IS NOT NULL
+  ORDER BY issued_at, id;
+$$;
+
+-- Record a verified proof's nullifier; false if it was already spent
+CREATE OR REPLACE FUNCTION public.consume_zk_nullifier(
+  _nullifier TEXT,
+  _resource_hash TEXT,
+  _action_hash TEXT,
+  _anonymity_root TEXT,
+  _expires_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _inserted INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.zk_nullifiers (nullifier, resource_hash, action_hash, anonymity_root, expires_at)
+  VALUES (_nullifier, _resource_hash, _action_hash, _anonymity_root, _expires_at)
+  ON CONFLICT (nullifier) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN _inserted = 1;
+END;
+$$;
+
+-- Whether a nullifier has been spent and is still within its validity
+CREATE OR REPLACE FUNCTION public.is_zk_nullifier_active(_nullifier TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.zk_nullifiers
+    WHERE nullifier = _nullifier AND expires_at > now()
+  );
+$$;
@@ -0,0 +1,91 @@
+-- W3C Verifiable Credentials
+-- The verifiable-credentials edge function signs role, employment and
+-- clearance credentials with the issuer DID's ML-DSA-65 key. Revocation
+-- uses StatusList2021: each credential owns one bit of a signed, gzipped
+-- bitstring whose every update is anchored in blockchain_audit_logs.
+-- Issuer DID documents and status lists are public so partners can verify
+-- credentials without an account.
+
+CREATE TABLE public.vc_issuers (
+  did TEXT NOT NULL PRIMARY KEY,
+  name TEXT NOT NULL,
+  did_document JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.vc_status_lists (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  issuer_did TEXT NOT NULL REFERENCES public.vc_issuers(did) ON DELETE CASCADE,
+  status_purpose TEXT NOT NULL DEFAULT 'revocation' CHECK (status_purpose IN ('revocation', 'suspension')),
+  list_size INTEGER NOT NULL DEFAULT 131072 CHECK (list_size > 0 AND list_size % 8 = 0),
+  next_index INTEGER NOT NULL DEFAULT 0,
+  encoded_list TEXT NOT NULL,
+  credential JSONB NOT NULL,
+  anchor_hash TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (next_index <= list_size)
+);
+
+CREATE TABLE public.verifiable_credentials (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  credential_id TEXT NOT NULL UNIQUE,
+  issuer_did TEXT NOT NULL REFERENCES public.vc_issuers(did),
+  subject_user_id UUID NOT NULL,
+  subject_did TEXT NOT NULL,
+  credential_type TEXT NOT NULL CHECK (credential_type IN ('RoleCredential', 'EmploymentCredential', 'ClearanceCredential')),
+  claims JSONB NOT NULL DEFAULT '{}'::jsonb,
+  credential JSONB NOT NULL,
+  status_list_id UUID NOT NULL REFERENCES public.vc_status_lists(id),
+  status_list_index INTEGER NOT NULL,
+  issued_by UUID NOT NULL,
+  issued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  revoked_by UUID,
+  revocation_reason TEXT,
+  UNIQUE (status_list_id, status_list_index)
+);
+
+CREATE INDEX idx_verifiable_credentials_subject
+  ON public.verifiable_credentials(subject_user_id, issued_at DESC);
+
+CREATE INDEX idx_verifiable_credentials_revoked
+  ON public.verifiable_credentials(status_list_id) WHERE revoked_at IS NOT NULL;
+
+-- Single-use nonces for presentation requests, bound to the verifier's domain
+CREATE TABLE public.vc_presentation_challenges (
+  challenge TEXT NOT NULL PRIMARY KEY,
+  domain TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.vc_issuers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vc_status_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.verifiable_credentials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vc_presentation_challenges ENABLE ROW LEVEL SECURITY;
+
+-- Issuance, revocation and challenges are written by the edge function
+-- with the service role; there are no client write policies.
+CREATE POLICY "Anyone can view credential issuers" ON public.vc_issuers
+FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view credential status lists" ON public.vc_status_lists
+FOR SELECT USING (true);
+
+CREATE POLICY "Holders can view their own credentials" ON public.verifiable_credentials
+FOR SELECT USING (auth.uid() = subject_user_id);
+
+CREATE POLICY "Admins can view all issued credentials" ON public.verifiable_credentials
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE TRIGGER update_vc_issuers_updated_at
+BEFORE UPDATE ON public.vc_issuers
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_vc_status_lists_updated_at
+BEFORE UPDATE ON public.vc_status_lists
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
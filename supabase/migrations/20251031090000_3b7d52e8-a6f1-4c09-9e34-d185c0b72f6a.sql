@@ -0,0 +1,47 @@
+-- did:quantum registry
+-- Every create, update and deactivate of a did:quantum identifier is an
+-- ML-DSA-65 signed operation chained to the previous one by hash and
+-- anchored in blockchain_audit_logs. A DID's address is derived from its
+-- genesis signing key, and each later operation must be signed by an
+-- authentication key of the document it replaces, so resolvers can replay
+-- the log and verify every key rotation without trusting this table.
+-- user_dids keeps the latest document as a lookup cache only.
+
+CREATE TABLE public.did_operations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  did TEXT NOT NULL,
+  sequence INTEGER NOT NULL CHECK (sequence >= 0),
+  operation_type TEXT NOT NULL CHECK (operation_type IN ('create', 'update', 'deactivate')),
+  operation JSONB NOT NULL,
+  operation_hash TEXT NOT NULL UNIQUE,
+  previous_hash TEXT,
+  anchor_hash TEXT,
+  submitted_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (did, sequence)
+);
+
+CREATE INDEX idx_did_operations_did ON public.did_operations(did, sequence);
+
+ALTER TABLE public.did_operations ENABLE ROW LEVEL SECURITY;
+
+-- The log is public and append-only. Resolvers ignore operations whose
+-- signature or hash chain does not verify, so the insert policy only keeps
+-- users from cluttering DIDs that are not theirs.
+CREATE POLICY "Anyone can view DID operations" ON public.did_operations
+FOR SELECT USING (true);
+
+CREATE POLICY "Users can submit operations for their own DID" ON public.did_operations
+FOR INSERT WITH CHECK (
+  auth.uid() = submitted_by
+  AND (
+    operation_type = 'create'
+    OR EXISTS (
+      SELECT 1 FROM public.user_dids
+      WHERE user_dids.did = did_operations.did
+        AND user_dids.user_id = auth.uid()
+    )
+  )
+);
+
+COMMENT ON TABLE public.did_operations IS 'Signed, hash-chained did:quantum operations replayed by the DID resolver';
@@ -0,0 +1,48 @@
+-- X.509 certificate authorities for the quantum PKI
+-- quantum_pki_roots becomes the CA hierarchy: a self-signed root and the
+-- intermediates it issues, each holding its PEM certificate, its signing
+-- key encrypted with the PKI_MASTER_KEY of the quantum-pki edge function,
+-- and its latest signed CRL. Certificates in quantum_certificates record
+-- the CA that issued them so the CRL and OCSP responder can answer for them.
+-- Issuance and revocation go through the edge function; users can no longer
+-- write issued certificates directly.
+
+ALTER TABLE public.quantum_pki_roots
+  ADD COLUMN parent_id UUID REFERENCES public.quantum_pki_roots(id),
+  ADD COLUMN subject TEXT,
+  ADD COLUMN serial_number TEXT UNIQUE,
+  ADD COLUMN path_length INTEGER CHECK (path_length >= 0),
+  ADD COLUMN crl_number BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN current_crl TEXT,
+  ADD COLUMN crl_next_update TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- The edge function bootstraps the first root and issuing CA itself
+ALTER TABLE public.quantum_pki_roots ALTER COLUMN created_by DROP NOT NULL;
+
+ALTER TABLE public.quantum_certificates
+  ADD COLUMN ca_id UUID REFERENCES public.quantum_pki_roots(id),
+  ADD COLUMN key_algorithm TEXT NOT NULL DEFAULT 'ML-DSA-65',
+  ADD COLUMN signature_algorithm TEXT NOT NULL DEFAULT 'ML-DSA-65';
+
+CREATE INDEX idx_quantum_certificates_ca ON public.quantum_certificates(ca_id, serial_number);
+
+CREATE TRIGGER update_quantum_pki_roots_updated_at
+BEFORE UPDATE ON public.quantum_pki_roots
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP POLICY IF EXISTS "Users can manage their own certificates" ON public.quantum_certificates;
+
+CREATE POLICY "Users can view their own certificates" ON public.quantum_certificates
+FOR SELECT USING (auth.uid() = user_id);
+
+-- Imported certificates were validated by the client against our CAs but
+-- were not issued here, so they never carry a CA reference
+CREATE POLICY "Users can import certificates" ON public.quantum_certificates
+FOR INSERT WITH CHECK (auth.uid() = user_id AND ca_id IS NULL);
+
+CREATE POLICY "Users can remove imported certificates" ON public.quantum_certificates
+FOR DELETE USING (auth.uid() = user_id AND ca_id IS NULL);
+
+COMMENT ON COLUMN public.quantum_pki_roots.private_key_encrypted IS 'AES-256-GCM with PKI_MASTER_KEY, bound to the CA id; base64 of IV || ciphertext';
+COMMENT ON COLUMN public.quantum_certificates.ca_id IS 'Issuing CA; NULL for certificates imported from PEM bundles';
@@ -0,0 +1,125 @@
+-- ACME (RFC 8555) issuance for internal services
+-- The acme edge function lets services obtain certificates from the quantum
+-- PKI without an administrator. Administrators hand a service an external
+-- account binding (a key id and HMAC key) limited to a set of domains; the
+-- service binds its ACME account key to it, proves control of its names
+-- with HTTP-01 or DNS-01 challenges and finalizes orders with a CSR.
+-- Certificates land in quantum_certificates owned by the administrator who
+-- created the binding. Their lifetime, and the renewal window the function
+-- reports through ACME Renewal Information, follow the rotation interval
+-- of the binding's certificate key policy.
+
+CREATE TABLE public.acme_external_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key_id TEXT NOT NULL UNIQUE,
+  hmac_key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  allowed_domains TEXT[] NOT NULL CHECK (cardinality(allowed_domains) > 0),
+  ca_id UUID REFERENCES public.quantum_pki_roots(id),
+  policy_id UUID REFERENCES public.quantum_key_policies(id),
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.acme_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- One account per binding, so a leaked HMAC key cannot enrol a second one
+  external_account_id UUID NOT NULL UNIQUE REFERENCES public.acme_external_accounts(id),
+  jwk JSONB NOT NULL,
+  jwk_thumbprint TEXT NOT NULL UNIQUE,
+  contact TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'valid' CHECK (status IN ('valid', 'deactivated', 'revoked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.acme_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  account_id UUID NOT NULL REFERENCES public.acme_accounts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'processing', 'valid', 'invalid')),
+  identifiers JSONB NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  certificate_id UUID REFERENCES public.quantum_certificates(id),
+  replaces TEXT,
+  error JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.acme_authorizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  order_id UUID NOT NULL REFERENCES public.acme_orders(id) ON DELETE CASCADE,
+  account_id UUID NOT NULL REFERENCES public.acme_accounts(id) ON DELETE CASCADE,
+  identifier TEXT NOT NULL,
+  wildcard BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'valid', 'invalid', 'deactivated', 'expired', 'revoked')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.acme_challenges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  authorization_id UUID NOT NULL REFERENCES public.acme_authorizations(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('http-01', 'dns-01')),
+  token TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'valid', 'invalid')),
+  validated_at TIMESTAMP WITH TIME ZONE,
+  error JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Replay-Nonce values handed out by the function; each is accepted once
+CREATE TABLE public.acme_nonces (
+  nonce TEXT NOT NULL PRIMARY KEY,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_acme_orders_account ON public.acme_orders(account_id, created_at);
+CREATE INDEX idx_acme_orders_certificate ON public.acme_orders(certificate_id);
+CREATE INDEX idx_acme_authorizations_order ON public.acme_authorizations(order_id);
+CREATE INDEX idx_acme_challenges_authorization ON public.acme_challenges(authorization_id);
+CREATE INDEX idx_acme_nonces_expires ON public.acme_nonces(expires_at);
+
+ALTER TABLE public.acme_external_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.acme_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.acme_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.acme_authorizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.acme_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.acme_nonces ENABLE ROW LEVEL SECURITY;
+
+-- acme_external_accounts holds the HMAC keys and acme_nonces is internal,
+-- so neither has a policy: only the edge function reads them
+CREATE POLICY "Admins can view ACME accounts" ON public.acme_accounts
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view ACME orders" ON public.acme_orders
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view ACME authorizations" ON public.acme_authorizations
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view ACME challenges" ON public.acme_challenges
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE TRIGGER update_acme_external_accounts_updated_at
+BEFORE UPDATE ON public.acme_external_accounts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_acme_accounts_updated_at
+BEFORE UPDATE ON public.acme_accounts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_acme_orders_updated_at
+BEFORE UPDATE ON public.acme_orders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_acme_authorizations_updated_at
+BEFORE UPDATE ON public.acme_authorizations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON COLUMN public.acme_external_accounts.hmac_key IS 'base64url HS256 key for the RFC 8555 externalAccountBinding; shown to the administrator once';
+COMMENT ON COLUMN public.acme_external_accounts.policy_id IS 'Certificate key policy for lifetimes and renewal; the newest certificate policy when NULL';
+COMMENT ON COLUMN public.acme_orders.replaces IS 'ARI certificate identifier of the certificate this order renews';
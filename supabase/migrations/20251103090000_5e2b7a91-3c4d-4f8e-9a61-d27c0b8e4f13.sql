@@ -0,0 +1,71 @@
+-- Policy-driven key rotation
+-- quantum_key_policies sets, per key type, how often keys rotate and
+-- whether retired keys must be escrowed and current keys backed up. The
+-- rotation scheduler runs on the key holder's device, where the secret
+-- keys are: it rotates quantum_keys and issued quantum_certificates once
+-- their policy's interval has passed, re-keys the DIDs and certificates
+-- that carry the outgoing key, and records each rotation here. Escrow
+-- packages are encrypted on the device with the escrow passphrase before
+-- they are stored.
+
+CREATE TABLE public.quantum_key_escrow (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('quantum_key', 'certificate')),
+  resource_id UUID NOT NULL,
+  key_algorithm TEXT NOT NULL,
+  -- escrow: a retired key, kept to decrypt or verify what it protected
+  -- backup: the current key, kept in case the device loses it
+  purpose TEXT NOT NULL CHECK (purpose IN ('escrow', 'backup')),
+  escrow_package TEXT NOT NULL,
+  policy_id UUID REFERENCES public.quantum_key_policies(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.quantum_key_rotations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  resource_type TEXT NOT NULL CHECK (resource_type IN ('quantum_key', 'certificate')),
+  resource_id UUID NOT NULL,
+  replacement_id UUID,
+  key_type TEXT NOT NULL,
+  policy_id UUID REFERENCES public.quantum_key_policies(id) ON DELETE SET NULL,
+  trigger TEXT NOT NULL CHECK (trigger IN ('scheduled', 'manual')),
+  status TEXT NOT NULL CHECK (status IN ('rotated', 'failed', 'missed')),
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  escrow_id UUID REFERENCES public.quantum_key_escrow(id) ON DELETE SET NULL,
+  dependents JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_quantum_key_escrow_resource ON public.quantum_key_escrow(resource_type, resource_id);
+CREATE INDEX idx_quantum_key_escrow_user ON public.quantum_key_escrow(user_id);
+CREATE INDEX idx_quantum_key_rotations_user ON public.quantum_key_rotations(user_id, created_at DESC);
+CREATE INDEX idx_quantum_key_rotations_resource ON public.quantum_key_rotations(resource_type, resource_id);
+
+ALTER TABLE public.quantum_key_escrow ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quantum_key_rotations ENABLE ROW LEVEL SECURITY;
+
+-- Escrow packages are append-only; recovery needs the passphrase as well
+CREATE POLICY "Users can escrow their own keys" ON public.quantum_key_escrow
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own escrowed keys" ON public.quantum_key_escrow
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view escrowed keys" ON public.quantum_key_escrow
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Users can record their own key rotations" ON public.quantum_key_rotations
+FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own key rotations" ON public.quantum_key_rotations
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view key rotations" ON public.quantum_key_rotations
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+COMMENT ON COLUMN public.quantum_key_escrow.escrow_package IS 'QuantumKeyEscrow package: the secret key under XChaCha20-Poly1305 with a passphrase-derived key';
+COMMENT ON COLUMN public.quantum_key_rotations.dependents IS 'DIDs and certificates re-keyed because they carried the rotated key, with the outcome of each';
+COMMENT ON COLUMN public.quantum_key_rotations.due_at IS 'When the policy required the rotation';
@@ -0,0 +1,94 @@
+-- Envelope encryption for sensitive columns
+-- The key-vault edge function keeps a two-level key hierarchy: a root key
+-- encryption key (an ML-KEM-1024 key pair whose secret key is encrypted
+-- with the function's KEY_VAULT_MASTER_KEY) and data encryption keys per
+-- table or per user, each wrapped by the root KEK. Fields are encrypted
+-- with AES-256-GCM under their scope's current data key and record which
+-- key they used, so data keys can be rotated and fields re-encrypted in
+-- the background. Deleting a user destroys their data keys, which leaves
+-- anything encrypted under them unreadable.
+
+CREATE TABLE public.encryption_root_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  algorithm TEXT NOT NULL DEFAULT 'ML-KEM-1024',
+  public_key TEXT NOT NULL,
+  encrypted_secret_key TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired', 'destroyed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  retired_at TIMESTAMP WITH TIME ZONE,
+  destroyed_at TIMESTAMP WITH TIME ZONE,
+  CHECK (status = 'destroyed' OR encrypted_secret_key IS NOT NULL)
+);
+
+CREATE TABLE public.data_encryption_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope_type TEXT NOT NULL CHECK (scope_type IN ('table', 'user')),
+  scope_id TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  root_key_id UUID NOT NULL REFERENCES public.encryption_root_keys(id),
+  wrapped_key TEXT,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired', 'destroyed')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  retired_at TIMESTAMP WITH TIME ZONE,
+  rewrapped_at TIMESTAMP WITH TIME ZONE,
+  destroyed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (scope_type, scope_id, version),
+  CHECK (status = 'destroyed' OR wrapped_key IS NOT NULL),
+  CHECK (scope_type = 'table' OR user_id::text = scope_id)
+);
+
+-- One active root KEK, and one active data key per scope
+CREATE UNIQUE INDEX idx_encryption_root_keys_active ON public.encryption_root_keys(status) WHERE status = 'active';
+CREATE UNIQUE INDEX idx_data_encryption_keys_active ON public.data_encryption_keys(scope_type, scope_id) WHERE status = 'active';
+CREATE INDEX idx_data_encryption_keys_root ON public.data_encryption_keys(root_key_id);
+CREATE INDEX idx_data_encryption_keys_user ON public.data_encryption_keys(user_id);
+
+ALTER TABLE public.encryption_root_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.data_encryption_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are only created, wrapped and unwrapped by the key-vault function
+CREATE POLICY "Admins can view root keys" ON public.encryption_root_keys
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view data keys" ON public.data_encryption_keys
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+-- Crypto-shredding. Removing the auth user cascades through user_id; the
+-- user management panel only deletes the profile, so that shreds too.
+CREATE OR REPLACE FUNCTION public.shred_user_data_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  shredded INTEGER;
+BEGIN
+  DELETE FROM public.data_encryption_keys
+  WHERE scope_type = 'user' AND user_id = OLD.user_id;
+  GET DIAGNOSTICS shredded = ROW_COUNT;
+
+  IF shredded > 0 THEN
+    PERFORM public.log_audit_event(
+      'DATA_KEYS_SHREDDED',
+      'data_encryption_keys',
+      OLD.user_id,
+      jsonb_build_object('user_id', OLD.user_id, 'data_keys', shredded)
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER shred_user_data_keys
+AFTER DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.shred_user_data_keys();
+
+COMMENT ON COLUMN public.encryption_root_keys.encrypted_secret_key IS 'ML-KEM-1024 secret key under AES-256-GCM with KEY_VAULT_MASTER_KEY; cleared once no data key is wrapped under it';
+COMMENT ON COLUMN public.data_encryption_keys.scope_id IS 'Table name for table scope, user id for user scope';
+COMMENT ON COLUMN public.data_encryption_keys.wrapped_key IS 'ML-KEM-1024 ciphertext, IV and the AES-GCM sealed data key; cleared when the key is destroyed';
+COMMENT ON COLUMN public.data_encryption_keys.rewrapped_at IS 'When the key was last moved under a newer root KEK';
+COMMENT ON COLUMN public.privileged_accounts.credentials_encrypted IS 'pqc1:<data key id>:<AES-256-GCM ciphertext>, or a legacy secretbox ciphertext under a device-held key';
+COMMENT ON COLUMN public.directory_integrations.bind_credentials_encrypted IS 'pqc1:<data key id>:<AES-256-GCM ciphertext>, or a legacy ciphertext under the credentials passphrase';
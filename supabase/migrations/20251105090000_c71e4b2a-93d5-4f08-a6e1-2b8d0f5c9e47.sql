@@ -0,0 +1,114 @@
+-- Blind indexes for searching encrypted columns
+-- Each searchable column gets an index key, a third data key scope held
+-- in data_encryption_keys and wrapped by the root KEK like the others.
+-- The key-vault function stores truncated HMAC-SHA256 tokens of each
+-- value (and of its prefixes or n-grams where the column supports partial
+-- search) in blind_index_tokens, so rows can be found by value without
+-- the column being readable. Changes are queued by trigger and tokenized
+-- by the vault's rebuild job; rotating an index key queues every row.
+
+ALTER TABLE public.data_encryption_keys
+  DROP CONSTRAINT data_encryption_keys_scope_type_check,
+  DROP CONSTRAINT data_encryption_keys_check1,
+  ADD CONSTRAINT data_encryption_keys_scope_type_check CHECK (scope_type IN ('table', 'user', 'index')),
+  ADD CONSTRAINT data_encryption_keys_user_scope_check CHECK (scope_type <> 'user' OR user_id::text = scope_id);
+
+CREATE TABLE public.blind_index_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  index_name TEXT NOT NULL,
+  row_id TEXT NOT NULL,
+  key_id UUID NOT NULL REFERENCES public.data_encryption_keys(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (index_name, row_id, key_id, token)
+);
+
+CREATE TABLE public.blind_index_queue (
+  index_name TEXT NOT NULL,
+  row_id TEXT NOT NULL,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (index_name, row_id)
+);
+
+CREATE INDEX idx_blind_index_tokens_lookup ON public.blind_index_tokens(index_name, token);
+CREATE INDEX idx_blind_index_tokens_key ON public.blind_index_tokens(key_id);
+CREATE INDEX idx_blind_index_queue_queued ON public.blind_index_queue(index_name, queued_at);
+
+ALTER TABLE public.blind_index_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blind_index_queue ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are written only by the key-vault function
+CREATE POLICY "Admins can search blind indexes" ON public.blind_index_tokens
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE POLICY "Admins can view the blind index queue" ON public.blind_index_queue
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+-- Queue a row for (re-)indexing. Arguments: index name, row id column.
+CREATE OR REPLACE FUNCTION public.queue_blind_index()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row JSONB;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _row := to_jsonb(OLD);
+  ELSE
+    _row := to_jsonb(NEW);
+  END IF;
+
+  INSERT INTO public.blind_index_queue (index_name, row_id)
+  VALUES (TG_ARGV[0], _row ->> TG_ARGV[1])
+  ON CONFLICT (index_name, row_id) DO UPDATE SET queued_at = now();
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER queue_profiles_email_index
+AFTER INSERT OR UPDATE OF email OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.queue_blind_index('profiles.email', 'user_id');
+
+CREATE TRIGGER queue_audit_logs_ip_address_index
+AFTER INSERT OR UPDATE OF ip_address OR DELETE ON public.audit_logs
+FOR EACH ROW EXECUTE FUNCTION public.queue_blind_index('audit_logs.ip_address', 'id');
+
+-- Queue every row of an index, after its index key is rotated
+CREATE OR REPLACE FUNCTION public.requeue_blind_index(_index_name TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  IF _index_name = 'profiles.email' THEN
+    INSERT INTO public.blind_index_queue (index_name, row_id)
+    SELECT _index_name, user_id::text FROM public.profiles
+    ON CONFLICT (index_name, row_id) DO UPDATE SET queued_at = now();
+  ELSIF _index_name = 'audit_logs.ip_address' THEN
+    INSERT INTO public.blind_index_queue (index_name, row_id)
+    SELECT _index_name, id::text FROM public.audit_logs WHERE ip_address IS NOT NULL
+    ON CONFLICT (index_name, row_id) DO UPDATE SET queued_at = now();
+  ELSE
+    RAISE EXCEPTION 'Unknown blind index %', _index_name;
+  END IF;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.requeue_blind_index(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Index what is already there
+SELECT public.requeue_blind_index('profiles.email');
+SELECT public.requeue_blind_index('audit_logs.ip_address');
+
+COMMENT ON COLUMN public.data_encryption_keys.scope_id IS 'Table name for table scope, user id for user scope, table.column for index scope';
+COMMENT ON COLUMN public.blind_index_tokens.token IS 'Hex of the first 16 bytes of HMAC-SHA256 under the index key, over eq:, prefix: or ngram: and the normalized value';
+COMMENT ON COLUMN public.blind_index_tokens.row_id IS 'Value of the indexed row''s id column (profiles.user_id, audit_logs.id)';
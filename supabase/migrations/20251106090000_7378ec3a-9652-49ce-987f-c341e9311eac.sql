@@ -0,0 +1,43 @@
+-- External timestamp proofs for blockchain blocks
+-- OpenTimestamps proofs are stored while the calendars' attestations are
+-- pending and upgraded in place by the timestamp upgrade job until they
+-- verify against a Bitcoin block header. RFC 3161 tokens are verified when
+-- they are issued. Proofs are public evidence, readable by everyone like
+-- the blocks they cover; only administrators run the upgrade job.
+
+CREATE TABLE public.blockchain_timestamps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  block_index INTEGER NOT NULL,
+  block_hash TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('opentimestamps', 'rfc3161')),
+  proof TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'anchored', 'verified', 'failed')),
+  bitcoin_height INTEGER,
+  attested_at TIMESTAMP WITH TIME ZONE,
+  upgrade_attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  last_checked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (block_hash, method)
+);
+
+CREATE INDEX idx_blockchain_timestamps_status ON public.blockchain_timestamps(status) WHERE status IN ('pending', 'anchored');
+CREATE INDEX idx_blockchain_timestamps_block ON public.blockchain_timestamps(block_index);
+
+ALTER TABLE public.blockchain_timestamps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view blockchain timestamps" ON public.blockchain_timestamps
+FOR SELECT USING (true);
+
+CREATE POLICY "System can create blockchain timestamps" ON public.blockchain_timestamps
+FOR INSERT WITH CHECK (true);
+
+CREATE POLICY "Admins can manage blockchain timestamps" ON public.blockchain_timestamps
+FOR ALL USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE TRIGGER update_blockchain_timestamps_updated_at
+BEFORE UPDATE ON public.blockchain_timestamps
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.blockchain_timestamps IS 'OpenTimestamps and RFC 3161 proofs that blockchain blocks existed at a point in time';
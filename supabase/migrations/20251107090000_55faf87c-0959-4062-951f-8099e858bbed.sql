@@ -0,0 +1,47 @@
+-- blockchain_blocks as the chain of record
+-- Blocks are stored in full, so the chain-reconciliation edge function can
+-- recompute each block's hash and Merkle root and check its signature, and
+-- the in-memory and IndexedDB copies can be repaired from it. block_data is
+-- the JSON the block hash covers, kept as text because jsonb reorders keys.
+-- Rows written before this migration lack these columns and are backfilled
+-- by reconciliation from a local copy with the same hash.
+
+ALTER TABLE public.blockchain_blocks
+  ADD COLUMN block_timestamp BIGINT,
+  ADD COLUMN block_data TEXT,
+  ADD COLUMN signature TEXT,
+  ADD COLUMN signer_public_key TEXT;
+
+COMMENT ON COLUMN public.blockchain_blocks.block_timestamp IS 'Block timestamp in milliseconds, as covered by the block hash';
+COMMENT ON COLUMN public.blockchain_blocks.block_data IS 'JSON of the block transactions exactly as covered by the block hash';
+COMMENT ON COLUMN public.blockchain_blocks.signature IS 'Hex ML-DSA-65 signature over the block hash';
+COMMENT ON COLUMN public.blockchain_blocks.signer_public_key IS 'Hex ML-DSA-65 public key the block was signed with';
+
+-- Reconciliation runs
+-- One row per comparison of the chain of record with a client's in-memory
+-- and IndexedDB chains, written by the edge function only.
+CREATE TABLE public.blockchain_reconciliations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_by UUID REFERENCES auth.users(id),
+  status TEXT NOT NULL CHECK (status IN ('consistent', 'diverged', 'repaired')),
+  record_height INTEGER NOT NULL DEFAULT 0,
+  heights JSONB NOT NULL DEFAULT '{}',
+  invalid_blocks JSONB NOT NULL DEFAULT '[]',
+  mismatches JSONB NOT NULL DEFAULT '[]',
+  repaired_blocks INTEGER[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_blockchain_reconciliations_created ON public.blockchain_reconciliations(created_at DESC);
+
+ALTER TABLE public.blockchain_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view blockchain reconciliations" ON public.blockchain_reconciliations
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+CREATE TRIGGER update_blockchain_reconciliations_updated_at
+BEFORE UPDATE ON public.blockchain_reconciliations
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.blockchain_reconciliations IS 'Comparisons of the blockchain chain of record with client copies, and the repairs made';
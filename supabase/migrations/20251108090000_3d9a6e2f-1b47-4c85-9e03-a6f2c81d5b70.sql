@@ -0,0 +1,156 @@
+-- Access review decisions go through decide_access_review_item
+-- Reviewers could update every column of their items, and the revocation
+-- function acted on whichever access_type, source_id and user_id it found
+-- there. Reviewers now only record a decision and comment through the
+-- function below, and a revocation only touches access that still belongs
+-- to the reviewed user, while the campaign is active.
+
+DROP POLICY IF EXISTS "Reviewers can decide assigned items" ON public.access_review_items;
+
+CREATE OR REPLACE FUNCTION public.decide_access_review_item(
+  _item_id UUID,
+  _decision TEXT,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.access_review_items%ROWTYPE;
+  _campaign_status TEXT;
+BEGIN
+  IF _decision IS NULL OR _decision NOT IN ('approved', 'revoked') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Decision must be approved or revoked');
+  END IF;
+
+  SELECT * INTO _item FROM public.access_review_items WHERE id = _item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Review item not found');
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _item.reviewer_id AND NOT has_role(auth.uid(), 'admin'::system_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the assigned reviewer can decide this item');
+  END IF;
+
+  SELECT status INTO _campaign_status FROM public.access_review_campaigns WHERE id = _item.campaign_id;
+  IF _campaign_status IS DISTINCT FROM 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Campaign is no longer active');
+  END IF;
+
+  IF _item.revocation_status = 'executed' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Access has already been revoked');
+  END IF;
+
+  UPDATE public.access_review_items
+  SET decision = _decision,
+      decision_comment = NULLIF(_comment, ''),
+      decided_by = auth.uid(),
+      decided_at = now()
+  WHERE id = _item_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'campaign_id', _item.campaign_id,
+    'user_id', _item.user_id,
+    'access_type', _item.access_type,
+    'access_label', _item.access_label
+  );
+END;
+$$;
+
+-- Execute the revocation for a reviewed item. Runs as definer so reviewers who
+-- are not administrators (managers, resource owners) can still remove access,
+-- but only the reviewed user's access and only while the campaign is active.
+CREATE OR REPLACE FUNCTION public.execute_access_review_revocation(_item_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.access_review_items%ROWTYPE;
+  _campaign_status TEXT;
+  _current_role system_role;
+BEGIN
+  SELECT * INTO _item FROM public.access_review_items WHERE id = _item_id;
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Review item not found');
+  END IF;
+
+  IF auth.uid() IS DISTINCT FROM _item.reviewer_id AND NOT has_role(auth.uid(), 'admin'::system_role) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the assigned reviewer can revoke this access');
+  END IF;
+
+  IF _item.decision <> 'revoked' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Item has not been revoked by its reviewer');
+  END IF;
+
+  IF _item.revocation_status = 'executed' THEN
+    RETURN jsonb_build_object('success', true, 'already_executed', true);
+  END IF;
+
+  SELECT status INTO _campaign_status FROM public.access_review_campaigns WHERE id = _item.campaign_id;
+  IF _campaign_status IS DISTINCT FROM 'active' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Campaign is no longer active');
+  END IF;
+
+  BEGIN
+    CASE _item.access_type
+      WHEN 'role' THEN
+        -- Elevated roles fall back to the base user role; the base role itself is removed
+        SELECT role INTO _current_role FROM public.user_roles
+        WHERE id = _item.source_id AND user_id = _item.user_id;
+        IF NOT FOUND THEN
+          RAISE EXCEPTION 'Role assignment % does not belong to the reviewed user', _item.source_id;
+        END IF;
+        IF _current_role = 'user'::system_role THEN
+          DELETE FROM public.user_roles WHERE id = _item.source_id AND user_id = _item.user_id;
+        ELSE
+          UPDATE public.user_roles SET role = 'user'::system_role, assigned_by = auth.uid()
+          WHERE id = _item.source_id AND user_id = _item.user_id;
+        END IF;
+      WHEN 'group_membership' THEN
+        DELETE FROM public.user_group_memberships WHERE id = _item.source_id AND user_id = _item.user_id;
+      WHEN 'time_based_permission' THEN
+        UPDATE public.time_based_permissions SET is_active = false
+        WHERE id = _item.source_id AND user_id = _item.user_id;
+      WHEN 'temporary_role' THEN
+        UPDATE public.temporary_role_assignments SET is_active = false
+        WHERE id = _item.source_id AND user_id = _item.user_id;
+      WHEN 'quantum_permission' THEN
+        UPDATE public.quantum_permissions SET is_active = false
+        WHERE id = _item.source_id AND user_id = _item.user_id;
+    END CASE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Access % does not belong to the reviewed user', _item.source_id;
+    END IF;
+
+    UPDATE public.access_review_items
+    SET revocation_status = 'executed', revocation_error = NULL, revoked_at = now()
+    WHERE id = _item_id;
+  EXCEPTION WHEN OTHERS THEN
+    UPDATE public.access_review_items
+    SET revocation_status = 'failed', revocation_error = SQLERRM
+    WHERE id = _item_id;
+    RETURN jsonb_build_object('success', false, 'error', SQLERRM);
+  END;
+
+  PERFORM public.log_audit_event(
+    'ACCESS_REVIEW_REVOKE',
+    'access_review_items',
+    _item_id,
+    jsonb_build_object(
+      'campaign_id', _item.campaign_id,
+      'user_id', _item.user_id,
+      'access_type', _item.access_type,
+      'source_id', _item.source_id,
+      'access_label', _item.access_label
+    )
+  );
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Organisation signing key for signed evidence
+-- Campaign results were signed with a key generated for the occasion and
+-- stored next to the signature, so whoever could write the row could re-sign
+-- it. Edge functions now sign with a persistent ML-DSA-65 key whose seed is
+-- encrypted under their ORG_SIGNING_MASTER_KEY. Records name the key by id
+-- and verifiers take its public key from org_signing_keys, which clients can
+-- read but not write.
+
+CREATE TABLE public.org_signing_keys (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  algorithm TEXT NOT NULL DEFAULT 'ML-DSA-65',
+  public_key TEXT NOT NULL,
+  encrypted_seed TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'retired')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  retired_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_org_signing_keys_active ON public.org_signing_keys(status) WHERE status = 'active';
+
+ALTER TABLE public.org_signing_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view org signing keys" ON public.org_signing_keys
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Public keys only; the encrypted seed stays with the service role
+REVOKE ALL ON public.org_signing_keys FROM anon, authenticated;
+GRANT SELECT (id, algorithm, public_key, status, created_at, retired_at) ON public.org_signing_keys TO authenticated;
+
+-- Results are signed by the access-reviews function. Signatures made with
+-- per-campaign keys cannot be told apart from forgeries and no longer verify.
+ALTER TABLE public.access_review_campaigns
+  ADD COLUMN signing_key_id UUID REFERENCES public.org_signing_keys(id),
+  DROP COLUMN signing_public_key;
+
+-- A completed or cancelled campaign, and the items its result covers, are final
+CREATE OR REPLACE FUNCTION public.protect_closed_access_reviews()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _status TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'access_review_campaigns' THEN
+    _status := OLD.status;
+  ELSE
+    SELECT status INTO _status FROM public.access_review_campaigns WHERE id = OLD.campaign_id;
+  END IF;
+
+  IF _status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Access review campaign is %, its records can no longer change', _status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_closed_access_review_campaigns
+  BEFORE UPDATE ON public.access_review_campaigns
+  FOR EACH ROW EXECUTE FUNCTION public.protect_closed_access_reviews();
+
+CREATE TRIGGER protect_closed_access_review_items
+  BEFORE UPDATE ON public.access_review_items
+  FOR EACH ROW EXECUTE FUNCTION public.protect_closed_access_reviews();
+
+COMMENT ON TABLE public.org_signing_keys IS 'ML-DSA-65 keys the edge functions sign evidence with; one is active';
+COMMENT ON COLUMN public.org_signing_keys.encrypted_seed IS 'ML-DSA-65 key generation seed under AES-256-GCM with ORG_SIGNING_MASTER_KEY, bound to the key id';
+COMMENT ON COLUMN public.access_review_campaigns.signing_key_id IS 'Organisation key that signed result; verify with its registered public key';
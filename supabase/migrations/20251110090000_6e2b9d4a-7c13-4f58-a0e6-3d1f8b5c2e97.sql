@@ -0,0 +1,44 @@
+-- Federated sign-in moves to the federation edge function
+-- The browser validated assertions and then wrote profiles, user_roles and
+-- signed quantum_sso_sessions rows for whatever user id it was given. The
+-- function now validates assertions, binds each federated subject to one
+-- account and provisions it with the service role; clients keep read access.
+
+CREATE TABLE public.federated_identities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.federation_providers(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  user_id UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_login_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (provider_id, subject),
+  UNIQUE (provider_id, user_id)
+);
+
+CREATE INDEX idx_federated_identities_user ON public.federated_identities(user_id);
+
+ALTER TABLE public.federated_identities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own federated identities" ON public.federated_identities
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all federated identities" ON public.federated_identities
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+-- Unlinking lets the subject sign in to another account
+CREATE POLICY "Admins can unlink federated identities" ON public.federated_identities
+FOR DELETE USING (has_role(auth.uid(), 'admin'::system_role));
+
+-- Sessions are signed by the function; users can read and end their own
+DROP POLICY IF EXISTS "Users can manage their own SSO sessions" ON public.quantum_sso_sessions;
+DROP POLICY IF EXISTS "Users can manage their own quantum SSO sessions" ON public.quantum_sso_sessions;
+DROP POLICY IF EXISTS "Users can view their own SSO sessions" ON public.quantum_sso_sessions;
+
+CREATE POLICY "Users can view their own SSO sessions" ON public.quantum_sso_sessions
+FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can end their own SSO sessions" ON public.quantum_sso_sessions
+FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.federated_identities IS 'Federated subject linked to an account on first SSO login; one per provider and account';
+COMMENT ON COLUMN public.quantum_sso_sessions.quantum_signature IS 'JSON {algorithm, keyId, claimsHash, signature}: organisation key signature over the session statement';
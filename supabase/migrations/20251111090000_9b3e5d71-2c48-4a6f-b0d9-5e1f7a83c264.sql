@@ -0,0 +1,87 @@
+-- Zero-knowledge proofs are verified by the verify-zk-proof edge function
+-- Spending a nullifier was callable by any signed-in user with any value
+-- and any expiry, so tokens could be minted without a proof. Only the
+-- service role can spend one now, after the edge function has verified the
+-- proof, and the expiry is set here. Each spent nullifier records the gate
+-- it was proven against and the hash of the access token issued for it, so
+-- a token only opens the resource and policy its proof was made for.
+--
+-- Nullifiers are now derived from the credential secret and the gate and
+-- time epoch instead of a prover-chosen nonce, so rows from the old scheme
+-- are dropped.
+
+DELETE FROM public.zk_nullifiers;
+
+ALTER TABLE public.zk_nullifiers
+  ADD COLUMN minimum_trust_score INTEGER NOT NULL,
+  ADD COLUMN role_set_root TEXT NOT NULL,
+  ADD COLUMN epoch BIGINT NOT NULL,
+  ADD COLUMN token_hash TEXT NOT NULL UNIQUE;
+
+DROP FUNCTION IF EXISTS public.consume_zk_nullifier(TEXT, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.is_zk_nullifier_active(TEXT);
+
+-- Record a verified proof's nullifier; returns the token expiry, or null if
+-- the nullifier was already spent
+CREATE OR REPLACE FUNCTION public.consume_zk_nullifier(
+  _nullifier TEXT,
+  _resource_hash TEXT,
+  _action_hash TEXT,
+  _minimum_trust_score INTEGER,
+  _role_set_root TEXT,
+  _anonymity_root TEXT,
+  _epoch BIGINT,
+  _token_hash TEXT
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_at TIMESTAMP WITH TIME ZONE := now() + INTERVAL '1 hour';
+  _inserted INTEGER;
+BEGIN
+  INSERT INTO public.zk_nullifiers (
+    nullifier, resource_hash, action_hash, minimum_trust_score, role_set_root,
+    anonymity_root, epoch, token_hash, expires_at
+  )
+  VALUES (
+    _nullifier, _resource_hash, _action_hash, _minimum_trust_score, _role_set_root,
+    _anonymity_root, _epoch, _token_hash, _expires_at
+  )
+  ON CONFLICT (nullifier) DO NOTHING;
+
+  GET DIAGNOSTICS _inserted = ROW_COUNT;
+  RETURN CASE WHEN _inserted = 1 THEN _expires_at END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_zk_nullifier(TEXT, TEXT, TEXT, INTEGER, TEXT, TEXT, BIGINT, TEXT)
+  FROM PUBLIC, anon, authenticated;
+
+-- Whether an access token was issued for a proof against this gate, or a
+-- stricter one with the same roles, and is still within its validity
+CREATE OR REPLACE FUNCTION public.is_zk_access_token_valid(
+  _token_hash TEXT,
+  _resource_hash TEXT,
+  _action_hash TEXT,
+  _minimum_trust_score INTEGER,
+  _role_set_root TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.zk_nullifiers
+    WHERE token_hash = _token_hash
+      AND resource_hash = _resource_hash
+      AND action_hash = _action_hash
+      AND minimum_trust_score >= _minimum_trust_score
+      AND role_set_root = _role_set_root
+      AND expires_at > now()
+  );
+$$;
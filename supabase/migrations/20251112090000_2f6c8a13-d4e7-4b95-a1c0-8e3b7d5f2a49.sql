@@ -0,0 +1,39 @@
+-- Replay protection for federated sign-in
+-- The federation function took the SAML InResponseTo and the OIDC nonce from
+-- the caller, so a captured assertion could be posted again with its own
+-- values. The function now issues each authentication request, keeps its ID
+-- (the AuthnRequest ID or OIDC state) and nonce here and accepts exactly one
+-- response to it. Assertion IDs and ID token jti values are kept until the
+-- assertion expires so the same assertion is never accepted twice.
+
+CREATE TABLE public.federation_login_requests (
+  id TEXT NOT NULL PRIMARY KEY,
+  provider_id UUID NOT NULL REFERENCES public.federation_providers(id) ON DELETE CASCADE,
+  nonce TEXT,
+  acs_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_federation_login_requests_expiry ON public.federation_login_requests(expires_at);
+
+CREATE TABLE public.federation_consumed_assertions (
+  provider_id UUID NOT NULL REFERENCES public.federation_providers(id) ON DELETE CASCADE,
+  assertion_id TEXT NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (provider_id, assertion_id)
+);
+
+CREATE INDEX idx_federation_consumed_assertions_expiry ON public.federation_consumed_assertions(expires_at);
+
+-- Written and read only by the federation function with the service role
+ALTER TABLE public.federation_login_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.federation_consumed_assertions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view consumed assertions" ON public.federation_consumed_assertions
+FOR SELECT USING (has_role(auth.uid(), 'admin'::system_role));
+
+COMMENT ON TABLE public.federation_login_requests IS 'Authentication request issued by the federation function; one response is accepted per request';
+COMMENT ON TABLE public.federation_consumed_assertions IS 'SAML assertion ID or ID token jti already accepted, kept until the assertion expires';
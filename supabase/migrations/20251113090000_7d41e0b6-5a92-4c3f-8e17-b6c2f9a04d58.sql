@@ -0,0 +1,19 @@
+-- Federated identities are bound only to the account they vouch for
+-- The first login bound a federated subject to whichever account was signed
+-- in. A link is now made only when the IdP vouches for the account's email
+-- (OIDC email_verified, or an email in one of the provider's
+-- verified_domains); any other link waits for an administrator to approve
+-- it. Users without an account are provisioned and signed in by the
+-- federation function, so federated login no longer needs a session first.
+
+ALTER TABLE public.federated_identities
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('pending', 'active')),
+  ADD COLUMN email TEXT,
+  ADD COLUMN approved_by UUID,
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_federated_identities_pending
+  ON public.federated_identities(provider_id) WHERE status = 'pending';
+
+COMMENT ON COLUMN public.federated_identities.status IS 'pending until an administrator approves a link the IdP did not vouch for';
+COMMENT ON COLUMN public.federated_identities.email IS 'Email asserted by the IdP when the link was requested';
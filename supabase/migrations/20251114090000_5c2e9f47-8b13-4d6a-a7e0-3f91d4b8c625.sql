@@ -0,0 +1,388 @@
+-- Threshold key refreshes and reshares run as multi-party ceremonies
+-- Refreshing shares or replacing a holder needed every share (or M of them)
+-- unsealed on one device, which then dealt everyone's new share. A ceremony
+-- now has each dealing holder publish commitments and seal a sub-share to
+-- every recipient from their own device. Each recipient checks what it
+-- received, combines it into its new share and seals that to itself. The
+-- new epoch goes live once every recipient has deposited.
+--
+-- Managers can no longer rewrite a key: the group public key, threshold and
+-- public key package are fixed when the key is created, and the epoch only
+-- moves when a ceremony completes. Each epoch's verification shares and
+-- ML-DSA co-signing keys are kept with its sealed shares.
+
+ALTER TABLE public.threshold_key_shares ADD COLUMN pq_public_key TEXT;
+
+UPDATE public.threshold_key_shares s
+SET pq_public_key = p.value->>'pqPublicKey'
+FROM public.threshold_keys k, jsonb_array_elements(k.public_key_package->'participants') p
+WHERE s.key_id = k.key_id
+  AND s.epoch = k.epoch
+  AND (p.value->>'shareId')::INTEGER = s.share_id;
+
+CREATE TABLE public.threshold_key_ceremonies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key_id TEXT NOT NULL REFERENCES public.threshold_keys(key_id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('refresh', 'reshare')),
+  base_epoch INTEGER NOT NULL,
+  target_epoch INTEGER NOT NULL,
+  dealers INTEGER[] NOT NULL,
+  recipients JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'dealing' CHECK (status IN ('dealing', 'completed', 'cancelled')),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One ceremony at a time per key
+CREATE UNIQUE INDEX idx_threshold_key_ceremonies_open
+  ON public.threshold_key_ceremonies(key_id) WHERE status = 'dealing';
+
+CREATE TABLE public.threshold_ceremony_contributions (
+  ceremony_id UUID NOT NULL REFERENCES public.threshold_key_ceremonies(id) ON DELETE CASCADE,
+  dealer_share_id INTEGER NOT NULL,
+  dealer_id UUID NOT NULL,
+  commitments JSONB NOT NULL,
+  sealed_sub_shares JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (ceremony_id, dealer_share_id)
+);
+
+ALTER TABLE public.threshold_key_ceremonies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.threshold_ceremony_contributions ENABLE ROW LEVEL SECURITY;
+
+-- The dealing holders of a ceremony and its recipients
+CREATE OR REPLACE FUNCTION public.is_threshold_ceremony_member(_user_id UUID, _ceremony_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.threshold_key_ceremonies c
+    WHERE c.id = _ceremony_id
+      AND (
+        c.recipients @> jsonb_build_array(jsonb_build_object('participantId', _user_id))
+        OR EXISTS (
+          SELECT 1 FROM public.threshold_key_shares s
+          WHERE s.key_id = c.key_id AND s.epoch = c.base_epoch
+            AND s.share_id = ANY (c.dealers) AND s.participant_id = _user_id
+        )
+      )
+  );
+$$;
+
+-- Managers, holders, and recipients of an open ceremony, who need the
+-- current public key package to check what they are dealt
+CREATE OR REPLACE FUNCTION public.can_view_threshold_key(_user_id UUID, _key_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_manage_threshold_key(_user_id, _key_id)
+    OR EXISTS (
+      SELECT 1 FROM public.threshold_key_shares
+      WHERE key_id = _key_id AND participant_id = _user_id
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.threshold_key_ceremonies c
+      WHERE c.key_id = _key_id AND c.status = 'dealing'
+        AND c.recipients @> jsonb_build_array(jsonb_build_object('participantId', _user_id))
+    );
+$$;
+
+-- Whether an open ceremony hands this slot to this participant and every
+-- dealer has contributed, so the recipient can deposit its new share
+CREATE OR REPLACE FUNCTION public.threshold_ceremony_accepts(
+  _key_id TEXT,
+  _share_id INTEGER,
+  _epoch INTEGER,
+  _participant_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.threshold_key_ceremonies c
+    WHERE c.key_id = _key_id AND c.status = 'dealing' AND c.target_epoch = _epoch
+      AND c.recipients @> jsonb_build_array(jsonb_build_object('shareId', _share_id, 'participantId', _participant_id))
+      AND (
+        SELECT count(*) FROM public.threshold_ceremony_contributions t WHERE t.ceremony_id = c.id
+      ) = cardinality(c.dealers)
+  );
+$$;
+
+-- Open a refresh, or with a share id and new holder a reshare that hands the
+-- share to them, dealt by exactly M current holders
+CREATE OR REPLACE FUNCTION public.start_threshold_ceremony(
+  _key_id TEXT,
+  _replace_share_id INTEGER DEFAULT NULL,
+  _new_participant_id UUID DEFAULT NULL,
+  _dealers INTEGER[] DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _key public.threshold_keys%ROWTYPE;
+  _share_ids INTEGER[];
+  _ceremony_id UUID;
+BEGIN
+  SELECT * INTO _key FROM public.threshold_keys WHERE key_id = _key_id;
+  IF NOT FOUND OR NOT public.can_manage_threshold_key(auth.uid(), _key_id) THEN
+    RAISE EXCEPTION 'Threshold key % not found', _key_id;
+  END IF;
+
+  SELECT array_agg(share_id ORDER BY share_id) INTO _share_ids
+  FROM public.threshold_key_shares
+  WHERE key_id = _key_id AND epoch = _key.epoch;
+
+  IF _replace_share_id IS NULL THEN
+    _dealers := _share_ids;
+  ELSE
+    IF NOT _replace_share_id = ANY (_share_ids) THEN
+      RAISE EXCEPTION 'Share % not found', _replace_share_id;
+    END IF;
+    IF _new_participant_id IS NULL OR EXISTS (
+      SELECT 1 FROM public.threshold_key_shares
+      WHERE key_id = _key_id AND epoch = _key.epoch AND participant_id = _new_participant_id
+    ) THEN
+      RAISE EXCEPTION 'The new holder must not already hold a share of this key';
+    END IF;
+    IF cardinality(_dealers) IS DISTINCT FROM _key.threshold
+      OR NOT _dealers <@ _share_ids
+      OR (SELECT count(DISTINCT d) FROM unnest(_dealers) d) <> _key.threshold THEN
+      RAISE EXCEPTION 'A reshare is dealt by exactly % distinct current holders', _key.threshold;
+    END IF;
+  END IF;
+
+  INSERT INTO public.threshold_key_ceremonies (key_id, kind, base_epoch, target_epoch, dealers, recipients, created_by)
+  SELECT _key_id,
+    CASE WHEN _replace_share_id IS NULL THEN 'refresh' ELSE 'reshare' END,
+    _key.epoch,
+    _key.epoch + 1,
+    _dealers,
+    jsonb_agg(jsonb_build_object(
+      'shareId', share_id,
+      'participantId', CASE WHEN share_id = _replace_share_id THEN _new_participant_id ELSE participant_id END
+    ) ORDER BY share_id),
+    auth.uid()
+  FROM public.threshold_key_shares
+  WHERE key_id = _key_id AND epoch = _key.epoch
+  RETURNING id INTO _ceremony_id;
+
+  RETURN _ceremony_id;
+END;
+$$;
+
+-- Make a ceremony's epoch current once every recipient has deposited its
+-- share; returns whether the ceremony is complete
+CREATE OR REPLACE FUNCTION public.complete_threshold_ceremony(_ceremony_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ceremony public.threshold_key_ceremonies%ROWTYPE;
+  _deposited INTEGER;
+BEGIN
+  SELECT * INTO _ceremony FROM public.threshold_key_ceremonies WHERE id = _ceremony_id FOR UPDATE;
+  IF NOT FOUND OR NOT (
+    public.can_manage_threshold_key(auth.uid(), _ceremony.key_id)
+    OR public.is_threshold_ceremony_member(auth.uid(), _ceremony_id)
+  ) THEN
+    RAISE EXCEPTION 'Threshold key ceremony % not found', _ceremony_id;
+  END IF;
+
+  IF _ceremony.status <> 'dealing' THEN
+    RETURN _ceremony.status = 'completed';
+  END IF;
+
+  SELECT count(*) INTO _deposited
+  FROM public.threshold_key_shares s
+  WHERE s.key_id = _ceremony.key_id AND s.epoch = _ceremony.target_epoch
+    AND _ceremony.recipients @> jsonb_build_array(jsonb_build_object('shareId', s.share_id, 'participantId', s.participant_id));
+
+  IF _deposited < jsonb_array_length(_ceremony.recipients) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.threshold_keys
+  SET epoch = _ceremony.target_epoch, total_shares = _deposited
+  WHERE key_id = _ceremony.key_id AND epoch = _ceremony.base_epoch;
+
+  UPDATE public.threshold_key_ceremonies
+  SET status = 'completed', completed_at = now()
+  WHERE id = _ceremony_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Abandon an open ceremony and drop the shares already deposited for it
+CREATE OR REPLACE FUNCTION public.cancel_threshold_ceremony(_ceremony_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _ceremony public.threshold_key_ceremonies%ROWTYPE;
+BEGIN
+  UPDATE public.threshold_key_ceremonies
+  SET status = 'cancelled', completed_at = now()
+  WHERE id = _ceremony_id AND status = 'dealing'
+    AND public.can_manage_threshold_key(auth.uid(), key_id)
+  RETURNING * INTO _ceremony;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  DELETE FROM public.threshold_key_shares
+  WHERE key_id = _ceremony.key_id AND epoch = _ceremony.target_epoch;
+
+  RETURN TRUE;
+END;
+$$;
+
+CREATE POLICY "Ceremony members and managers can view ceremonies" ON public.threshold_key_ceremonies
+FOR SELECT USING (
+  public.can_manage_threshold_key(auth.uid(), key_id)
+  OR public.is_threshold_ceremony_member(auth.uid(), id)
+);
+
+CREATE POLICY "Ceremony members and managers can view contributions" ON public.threshold_ceremony_contributions
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.threshold_key_ceremonies c
+    WHERE c.id = threshold_ceremony_contributions.ceremony_id
+      AND (
+        public.can_manage_threshold_key(auth.uid(), c.key_id)
+        OR public.is_threshold_ceremony_member(auth.uid(), c.id)
+      )
+  )
+);
+
+CREATE POLICY "Dealers can contribute to open ceremonies" ON public.threshold_ceremony_contributions
+FOR INSERT WITH CHECK (
+  auth.uid() = dealer_id
+  AND EXISTS (
+    SELECT 1 FROM public.threshold_key_ceremonies c
+    JOIN public.threshold_key_shares s ON s.key_id = c.key_id AND s.epoch = c.base_epoch
+    WHERE c.id = threshold_ceremony_contributions.ceremony_id
+      AND c.status = 'dealing'
+      AND threshold_ceremony_contributions.dealer_share_id = ANY (c.dealers)
+      AND s.share_id = threshold_ceremony_contributions.dealer_share_id
+      AND s.participant_id = auth.uid()
+  )
+);
+
+-- Keys are created at epoch 1 and only their creator deposits that epoch;
+-- later epochs are deposited by their recipients during a ceremony
+DROP POLICY "Admins can create threshold keys" ON public.threshold_keys;
+DROP POLICY "Managers can update threshold keys" ON public.threshold_keys;
+DROP POLICY "Participants and managers can view threshold keys" ON public.threshold_keys;
+DROP POLICY "Managers can deposit sealed shares" ON public.threshold_key_shares;
+
+CREATE POLICY "Admins can create threshold keys" ON public.threshold_keys
+FOR INSERT WITH CHECK (
+  auth.uid() = created_by AND epoch = 1 AND has_role(auth.uid(), 'admin'::system_role)
+);
+
+CREATE POLICY "Participants and managers can view threshold keys" ON public.threshold_keys
+FOR SELECT USING (public.can_view_threshold_key(auth.uid(), key_id));
+
+CREATE POLICY "Creators can deposit the first epoch of shares" ON public.threshold_key_shares
+FOR INSERT WITH CHECK (
+  auth.uid() = sealed_by
+  AND epoch = 1
+  AND EXISTS (
+    SELECT 1 FROM public.threshold_keys
+    WHERE threshold_keys.key_id = threshold_key_shares.key_id
+      AND threshold_keys.created_by = auth.uid()
+      AND threshold_key_shares.share_id BETWEEN 1 AND threshold_keys.total_shares
+  )
+);
+
+CREATE POLICY "Recipients can deposit their share of a ceremony" ON public.threshold_key_shares
+FOR INSERT WITH CHECK (
+  auth.uid() = participant_id
+  AND auth.uid() = sealed_by
+  AND public.threshold_ceremony_accepts(key_id, share_id, epoch, participant_id)
+);
+
+-- The group key, threshold and public key package never change
+CREATE OR REPLACE FUNCTION public.protect_threshold_keys()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.key_id IS DISTINCT FROM OLD.key_id
+    OR NEW.group_public_key IS DISTINCT FROM OLD.group_public_key
+    OR NEW.threshold IS DISTINCT FROM OLD.threshold
+    OR NEW.public_key_package IS DISTINCT FROM OLD.public_key_package
+    OR NEW.created_by IS DISTINCT FROM OLD.created_by THEN
+    RAISE EXCEPTION 'The group key, threshold and public key package of threshold key % cannot change', OLD.key_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_threshold_keys
+  BEFORE UPDATE ON public.threshold_keys
+  FOR EACH ROW EXECUTE FUNCTION public.protect_threshold_keys();
+
+-- Shares of an open ceremony are deposited before its epoch is current, so
+-- the previous epoch is wiped when the key moves on rather than on deposit
+DROP TRIGGER supersede_threshold_key_shares ON public.threshold_key_shares;
+
+CREATE TRIGGER supersede_threshold_key_shares
+  AFTER UPDATE OF epoch ON public.threshold_keys
+  FOR EACH ROW EXECUTE FUNCTION public.supersede_threshold_key_shares();
+
+DROP FUNCTION public.get_threshold_share_status(TEXT);
+
+-- Custody status of every share of a key, without the sealed material
+CREATE OR REPLACE FUNCTION public.get_threshold_share_status(_key_id TEXT)
+RETURNS TABLE (
+  share_id INTEGER,
+  epoch INTEGER,
+  participant_id UUID,
+  verification_share TEXT,
+  pq_public_key TEXT,
+  kem_key_source TEXT,
+  kem_key_fingerprint TEXT,
+  status TEXT,
+  sealed_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  retrieved_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT s.share_id, s.epoch, s.participant_id, s.verification_share, s.pq_public_key, s.kem_key_source,
+         s.kem_key_fingerprint, s.status, s.sealed_by, s.created_at, s.retrieved_at
+  FROM public.threshold_key_shares s
+  WHERE s.key_id = _key_id
+    AND public.can_view_threshold_key(auth.uid(), _key_id)
+  ORDER BY s.epoch DESC, s.share_id;
+$$;
+
+COMMENT ON TABLE public.threshold_key_ceremonies IS 'Refresh or reshare of a threshold key, dealt by its holders from their own devices';
+COMMENT ON COLUMN public.threshold_key_ceremonies.recipients IS 'Share id and participant of every share of the target epoch';
+COMMENT ON COLUMN public.threshold_ceremony_contributions.sealed_sub_shares IS 'One sub-share per recipient, sealed to the recipient''s ML-KEM-768 key';
+COMMENT ON COLUMN public.threshold_keys.public_key_package IS 'Package as generated; each epoch''s verification shares are on threshold_key_shares';
@@ -0,0 +1,42 @@
+-- Registered validator keys for the audit chain
+-- Each chain instance signed its blocks, tree heads and evidence bundles with
+-- a key generated for the session, so a signature could not be tied to
+-- anyone and an auditor had no key to pin. A node now signs with a
+-- persistent ML-DSA-65 validator key whose seed stays on the device and
+-- whose public key is registered here under the account that holds it.
+-- Signatures verify only against a registered key that is still active;
+-- administrators revoke keys that are lost or compromised.
+
+CREATE TABLE public.audit_chain_validator_keys (
+  -- Hex SHA-256 of the public key, the key id bundles and proofs name
+  key_id TEXT NOT NULL PRIMARY KEY CHECK (key_id ~ '^[0-9a-f]{64}$'),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  algorithm TEXT NOT NULL DEFAULT 'ML-DSA-65' CHECK (algorithm = 'ML-DSA-65'),
+  public_key TEXT NOT NULL UNIQUE CHECK (public_key ~ '^[0-9a-f]+$'),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'revoked')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  CONSTRAINT audit_chain_validator_key_id CHECK (key_id = encode(sha256(decode(public_key, 'hex')), 'hex'))
+);
+
+CREATE INDEX idx_audit_chain_validator_keys_user ON public.audit_chain_validator_keys(user_id);
+
+ALTER TABLE public.audit_chain_validator_keys ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view validator keys" ON public.audit_chain_validator_keys
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can register their own validator keys" ON public.audit_chain_validator_keys
+FOR INSERT WITH CHECK (auth.uid() = user_id AND status = 'active' AND revoked_at IS NULL);
+
+CREATE POLICY "Admins can revoke validator keys" ON public.audit_chain_validator_keys
+FOR UPDATE USING (has_role(auth.uid(), 'admin'::system_role))
+WITH CHECK (status = 'revoked');
+
+-- A key is registered once and only its revocation can change
+REVOKE UPDATE ON public.audit_chain_validator_keys FROM anon, authenticated;
+GRANT UPDATE (status, revoked_at) ON public.audit_chain_validator_keys TO authenticated;
+
+COMMENT ON TABLE public.audit_chain_validator_keys IS 'ML-DSA-65 keys audit chain nodes sign blocks, tree heads and evidence bundles with';
+COMMENT ON COLUMN public.audit_chain_validator_keys.key_id IS 'Hex SHA-256 of the public key; auditors pin it with verify-evidence-bundle --trusted-key';
+COMMENT ON COLUMN public.audit_chain_validator_keys.public_key IS 'Hex ML-DSA-65 public key; the seed never leaves the holder''s device';
@@ -0,0 +1,12 @@
+-- Domain separated transaction trees
+-- Block Merkle roots hashed leaves and interior nodes alike and paired the
+-- last node of an odd level with itself, so a node could pass for a leaf and
+-- two transaction lists could share a root (CVE-2012-2459). Blocks are now
+-- mined with an RFC 6962 tree over their transaction hashes and name it in
+-- merkle_tree, which the block hash covers. Blocks without it keep the
+-- pairwise tree they were mined with.
+
+ALTER TABLE public.blockchain_blocks
+  ADD COLUMN merkle_tree TEXT CHECK (merkle_tree IN ('rfc6962'));
+
+COMMENT ON COLUMN public.blockchain_blocks.merkle_tree IS 'rfc6962 for blocks whose Merkle root is an RFC 6962 tree, null for the pairwise tree';
@@ -0,0 +1,445 @@
+-- Separation of duties is enforced by the database
+-- Toxic combinations were only checked by the client before it wrote a
+-- grant, so a direct insert into user_roles, user_group_memberships,
+-- group_permissions, role_permissions or jit_access_sessions skipped them.
+-- A trigger now evaluates every grant against the active
+-- segregation_of_duties policies: a new conflict under a 'block' policy
+-- rejects the write, and new conflicts under 'warn' and 'monitor' policies
+-- are recorded as policy violations by the database. Users therefore no
+-- longer insert violations themselves, and a JIT session with a conflict
+-- is never auto-approved.
+
+DROP POLICY IF EXISTS "Users can record automated violations about themselves" ON public.policy_violations;
+
+-- Entitlements use the shape of the client's Entitlement so violations
+-- recorded here and by detectViolations read the same. The lookups are
+-- volatile so a multi-row insert sees the rows written before it.
+
+CREATE OR REPLACE FUNCTION public.sod_role_entitlements(_role public.system_role, _except UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT jsonb_build_array(jsonb_build_object(
+      'source', 'role', 'sourceId', _role, 'label', _role::text || ' role',
+      'resource', 'roles', 'action', 'assume', 'role', _role
+    ))
+    || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'source', 'role', 'sourceId', _role, 'label', p.name || ' (via ' || _role::text || ' role)',
+        'resource', p.resource, 'action', p.action, 'permission', p.name, 'role', _role
+      ))
+      FROM role_permissions rp
+      JOIN permissions p ON p.id = rp.permission_id
+      WHERE rp.role = _role AND rp.id IS DISTINCT FROM _except
+    ), '[]'::jsonb);
+$$;
+
+CREATE OR REPLACE FUNCTION public.sod_group_entitlements(_group_id UUID, _except UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE sql
+SET search_path = public
+AS $$
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'source', 'group_permission', 'sourceId', gp.group_id,
+      'label', p.name || ' (via group ' || COALESCE(g.name, gp.group_id::text) || ')',
+      'resource', p.resource, 'action', p.action, 'permission', p.name
+    )), '[]'::jsonb)
+  FROM group_permissions gp
+  JOIN permissions p ON p.id = gp.permission_id
+  LEFT JOIN user_groups g ON g.id = gp.group_id
+  WHERE gp.group_id = _group_id AND gp.id IS DISTINCT FROM _except;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sod_jit_entitlement(
+  _session_id TEXT,
+  _resource_type TEXT,
+  _resource_id TEXT,
+  _access_level TEXT
+) RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'source', 'jit_access', 'sourceId', _session_id,
+    'label', 'JIT ' || _access_level || ' on ' || _resource_type || '/' || _resource_id,
+    'resource', _resource_type, 'action', _access_level
+  );
+$$;
+
+-- Roles with their permissions, group permissions, and JIT sessions that
+-- are pending, approved or active; _except leaves out the row being replaced
+CREATE OR REPLACE FUNCTION public.sod_user_entitlements(_user_id UUID, _except UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _result JSONB := '[]'::jsonb;
+  _role public.system_role;
+  _group_id UUID;
+BEGIN
+  FOR _role IN
+    SELECT role FROM user_roles WHERE user_id = _user_id AND id IS DISTINCT FROM _except
+  LOOP
+    _result := _result || sod_role_entitlements(_role, _except);
+  END LOOP;
+
+  FOR _group_id IN
+    SELECT group_id FROM user_group_memberships WHERE user_id = _user_id AND id IS DISTINCT FROM _except
+  LOOP
+    _result := _result || sod_group_entitlements(_group_id, _except);
+  END LOOP;
+
+  SELECT _result || COALESCE(jsonb_agg(sod_jit_entitlement(id::text, resource_type, resource_id, access_level)), '[]'::jsonb)
+  INTO _result
+  FROM jit_access_sessions
+  WHERE user_id = _user_id
+    AND status IN ('pending', 'approved', 'active')
+    AND expires_at > now()
+    AND id IS DISTINCT FROM _except;
+
+  RETURN _result;
+END;
+$$;
+
+-- Same rules as SeparationOfDutiesEngine.matches: fields that are set must
+-- agree case-insensitively, and a resource of '*' matches any resource
+CREATE OR REPLACE FUNCTION public.sod_matches(_matcher JSONB, _entitlement JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT (NULLIF(_matcher->>'role', '') IS NULL
+      OR COALESCE(lower(_matcher->>'role') = lower(_entitlement->>'role'), false))
+    AND (NULLIF(_matcher->>'permission', '') IS NULL
+      OR COALESCE(lower(_matcher->>'permission') = lower(_entitlement->>'permission'), false))
+    AND (NULLIF(_matcher->>'action', '') IS NULL
+      OR COALESCE(lower(_matcher->>'action') = lower(_entitlement->>'action'), false))
+    AND (NULLIF(_matcher->>'resource', '') IS NULL OR _matcher->>'resource' = '*'
+      OR COALESCE(lower(_matcher->>'resource') = lower(_entitlement->>'resource'), false));
+$$;
+
+-- Assign a distinct entitlement to every matcher (SeparationOfDutiesEngine.assign).
+-- With a resource, permission matchers are met only on that resource;
+-- role-only matchers are met regardless.
+CREATE OR REPLACE FUNCTION public.sod_assign(
+  _matchers JSONB,
+  _entitlements JSONB,
+  _resource TEXT,
+  _used INTEGER[]
+) RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _matcher JSONB;
+  _role_only BOOLEAN;
+  _entitlement JSONB;
+  _remaining JSONB;
+BEGIN
+  IF jsonb_array_length(_matchers) = 0 THEN
+    RETURN '[]'::jsonb;
+  END IF;
+
+  _matcher := _matchers->0;
+  _role_only := NULLIF(_matcher->>'permission', '') IS NULL
+    AND NULLIF(_matcher->>'action', '') IS NULL
+    AND NULLIF(_matcher->>'resource', '') IS NULL;
+
+  FOR i IN 0 .. jsonb_array_length(_entitlements) - 1 LOOP
+    CONTINUE WHEN i = ANY(_used);
+    _entitlement := _entitlements->i;
+    CONTINUE WHEN NOT _role_only AND _resource IS NOT NULL
+      AND lower(_entitlement->>'resource') IS DISTINCT FROM _resource;
+    CONTINUE WHEN NOT sod_matches(_matcher, _entitlement);
+
+    _remaining := sod_assign(_matchers - 0, _entitlements, _resource, _used || i);
+    IF _remaining IS NOT NULL THEN
+      RETURN jsonb_build_array(_entitlement) || _remaining;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Combinations of a policy's rules that the entitlements satisfy
+-- (SeparationOfDutiesEngine.findConflicts)
+CREATE OR REPLACE FUNCTION public.sod_find_conflicts(_rules JSONB, _entitlements JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _conflicts JSONB := '[]'::jsonb;
+  _combination JSONB;
+  _resource TEXT;
+  _matched JSONB;
+BEGIN
+  IF jsonb_typeof(_rules->'combinations') IS DISTINCT FROM 'array' THEN
+    RETURN _conflicts;
+  END IF;
+
+  FOR _combination IN SELECT value FROM jsonb_array_elements(_rules->'combinations') LOOP
+    CONTINUE WHEN CASE WHEN jsonb_typeof(_combination->'entitlements') = 'array'
+      THEN jsonb_array_length(_combination->'entitlements') < 2 ELSE true END;
+
+    IF _combination->'sameResource' = 'true'::jsonb THEN
+      FOR _resource IN
+        SELECT DISTINCT lower(value->>'resource') FROM jsonb_array_elements(_entitlements)
+      LOOP
+        _matched := sod_assign(_combination->'entitlements', _entitlements, _resource, '{}');
+        IF _matched IS NOT NULL THEN
+          _conflicts := _conflicts || jsonb_build_array(jsonb_build_object(
+            'combinationId', _combination->>'id',
+            'description', _combination->>'description',
+            'severity', COALESCE(_combination->>'severity', 'high'),
+            'resource', _resource,
+            'entitlements', _matched
+          ));
+        END IF;
+      END LOOP;
+    ELSE
+      _matched := sod_assign(_combination->'entitlements', _entitlements, NULL, '{}');
+      IF _matched IS NOT NULL THEN
+        _conflicts := _conflicts || jsonb_build_array(jsonb_build_object(
+          'combinationId', _combination->>'id',
+          'description', _combination->>'description',
+          'severity', COALESCE(_combination->>'severity', 'high'),
+          'entitlements', _matched
+        ));
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN _conflicts;
+END;
+$$;
+
+-- Check a grant for one subject (a user, or a role definition when _user_id
+-- is null). Only conflicts the grant introduces count: a blocking one raises,
+-- the others are recorded as open violations. Returns how many were recorded.
+CREATE OR REPLACE FUNCTION public.sod_check_grant(
+  _user_id UUID,
+  _current JSONB,
+  _combined JSONB,
+  _grant JSONB
+) RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy RECORD;
+  _existing TEXT[];
+  _conflict JSONB;
+  _blocked TEXT[] := '{}';
+  _recordable JSONB := '[]'::jsonb;
+  _recorded INTEGER := 0;
+BEGIN
+  FOR _policy IN
+    SELECT id, enforcement_level, policy_rules, scope_criteria
+    FROM governance_policies
+    WHERE policy_type = 'segregation_of_duties' AND is_active = true
+  LOOP
+    CONTINUE WHEN _user_id IS NOT NULL
+      AND jsonb_typeof(_policy.scope_criteria->'exemptUserIds') = 'array'
+      AND _policy.scope_criteria->'exemptUserIds' ? _user_id::text;
+
+    SELECT COALESCE(array_agg((value->>'combinationId') || ':' || COALESCE(value->>'resource', '')), '{}')
+    INTO _existing
+    FROM jsonb_array_elements(sod_find_conflicts(_policy.policy_rules, _current));
+
+    FOR _conflict IN
+      SELECT value FROM jsonb_array_elements(sod_find_conflicts(_policy.policy_rules, _combined))
+    LOOP
+      CONTINUE WHEN (_conflict->>'combinationId') || ':' || COALESCE(_conflict->>'resource', '') = ANY(_existing);
+
+      IF _policy.enforcement_level = 'block' THEN
+        _blocked := _blocked || (_conflict->>'description');
+      ELSE
+        _recordable := _recordable || jsonb_build_array(
+          _conflict || jsonb_build_object('policyId', _policy.id, 'enforcement', _policy.enforcement_level)
+        );
+      END IF;
+    END LOOP;
+  END LOOP;
+
+  IF cardinality(_blocked) > 0 THEN
+    RAISE EXCEPTION 'Blocked by separation of duties: %', array_to_string(_blocked, '; ');
+  END IF;
+
+  FOR _conflict IN SELECT value FROM jsonb_array_elements(_recordable) LOOP
+    INSERT INTO policy_violations (
+      policy_id, user_id, violation_type, severity_level, detection_method, status, violation_data
+    ) VALUES (
+      (_conflict->>'policyId')::uuid,
+      _user_id,
+      'toxic_combination',
+      _conflict->>'severity',
+      'automated',
+      'open',
+      jsonb_strip_nulls(jsonb_build_object(
+        'combinationId', _conflict->>'combinationId',
+        'description', _conflict->>'description',
+        'resource', _conflict->>'resource',
+        'enforcement', _conflict->>'enforcement',
+        'entitlements', _conflict->'entitlements',
+        'grant', _grant,
+        'actorId', auth.uid()
+      ))
+    );
+    _recorded := _recorded + 1;
+  END LOOP;
+
+  IF _recorded > 0 THEN
+    PERFORM log_audit_event(
+      'SOD_VIOLATION_RECORDED',
+      'policy_violations',
+      NULL,
+      jsonb_build_object('userId', _user_id, 'grant', _grant, 'violations', _recorded)
+    );
+  END IF;
+
+  RETURN _recorded;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_separation_of_duties()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _replaced UUID;
+  _member UUID;
+  _permission JSONB;
+  _recorded INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _replaced := OLD.id;
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'user_roles' THEN
+      PERFORM sod_check_grant(
+        NEW.user_id,
+        sod_user_entitlements(NEW.user_id),
+        sod_user_entitlements(NEW.user_id, _replaced) || sod_role_entitlements(NEW.role),
+        jsonb_build_object('type', 'role', 'userId', NEW.user_id, 'role', NEW.role)
+      );
+
+    WHEN 'user_group_memberships' THEN
+      PERFORM sod_check_grant(
+        NEW.user_id,
+        sod_user_entitlements(NEW.user_id),
+        sod_user_entitlements(NEW.user_id, _replaced) || sod_group_entitlements(NEW.group_id),
+        jsonb_build_object('type', 'group_membership', 'userId', NEW.user_id, 'groupId', NEW.group_id)
+      );
+
+    WHEN 'group_permissions' THEN
+      -- Every member of the group receives the permission
+      SELECT jsonb_build_object(
+          'source', 'group_permission', 'sourceId', NEW.group_id,
+          'label', p.name || ' (via group ' || COALESCE(g.name, NEW.group_id::text) || ')',
+          'resource', p.resource, 'action', p.action, 'permission', p.name
+        )
+      INTO _permission
+      FROM permissions p
+      LEFT JOIN user_groups g ON g.id = NEW.group_id
+      WHERE p.id = NEW.permission_id;
+
+      IF _permission IS NOT NULL THEN
+        FOR _member IN SELECT user_id FROM user_group_memberships WHERE group_id = NEW.group_id LOOP
+          PERFORM sod_check_grant(
+            _member,
+            sod_user_entitlements(_member),
+            sod_user_entitlements(_member, _replaced) || jsonb_build_array(_permission),
+            jsonb_build_object('type', 'group_permission', 'groupId', NEW.group_id, 'permissionId', NEW.permission_id)
+          );
+        END LOOP;
+      END IF;
+
+    WHEN 'role_permissions' THEN
+      -- A role definition is checked on its own, whoever it is assigned to
+      SELECT jsonb_build_object(
+          'source', 'role', 'sourceId', NEW.role, 'label', p.name || ' (via ' || NEW.role::text || ' role)',
+          'resource', p.resource, 'action', p.action, 'permission', p.name, 'role', NEW.role
+        )
+      INTO _permission
+      FROM permissions p
+      WHERE p.id = NEW.permission_id;
+
+      IF _permission IS NOT NULL THEN
+        PERFORM sod_check_grant(
+          NULL,
+          sod_role_entitlements(NEW.role),
+          sod_role_entitlements(NEW.role, _replaced) || jsonb_build_array(_permission),
+          jsonb_build_object('type', 'role_permissions', 'role', NEW.role, 'permissionIds', jsonb_build_array(NEW.permission_id))
+        );
+      END IF;
+
+    WHEN 'jit_access_sessions' THEN
+      IF NEW.status IN ('pending', 'approved', 'active') AND NEW.expires_at > now() THEN
+        _recorded := sod_check_grant(
+          NEW.user_id,
+          sod_user_entitlements(NEW.user_id),
+          sod_user_entitlements(NEW.user_id, _replaced)
+            || jsonb_build_array(sod_jit_entitlement(NEW.id::text, NEW.resource_type, NEW.resource_id, NEW.access_level)),
+          jsonb_build_object(
+            'type', 'jit_access', 'userId', NEW.user_id, 'resourceType', NEW.resource_type,
+            'resourceId', NEW.resource_id, 'accessLevel', NEW.access_level
+          )
+        );
+
+        -- A recorded conflict needs an approver
+        IF _recorded > 0 AND NEW.auto_approved THEN
+          NEW.status := 'pending';
+          NEW.auto_approved := false;
+          NEW.approved_at := NULL;
+        END IF;
+      END IF;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_separation_of_duties
+  BEFORE INSERT OR UPDATE OF user_id, role ON public.user_roles
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_separation_of_duties();
+
+CREATE TRIGGER enforce_separation_of_duties
+  BEFORE INSERT OR UPDATE OF user_id, group_id ON public.user_group_memberships
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_separation_of_duties();
+
+CREATE TRIGGER enforce_separation_of_duties
+  BEFORE INSERT OR UPDATE OF group_id, permission_id ON public.group_permissions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_separation_of_duties();
+
+CREATE TRIGGER enforce_separation_of_duties
+  BEFORE INSERT OR UPDATE OF role, permission_id ON public.role_permissions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_separation_of_duties();
+
+CREATE TRIGGER enforce_separation_of_duties
+  BEFORE INSERT OR UPDATE OF user_id, resource_type, resource_id, access_level, status, expires_at ON public.jit_access_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_separation_of_duties();
+
+REVOKE EXECUTE ON FUNCTION public.sod_role_entitlements(public.system_role, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_group_entitlements(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_jit_entitlement(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_user_entitlements(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_matches(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_assign(JSONB, JSONB, TEXT, INTEGER[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_find_conflicts(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sod_check_grant(UUID, JSONB, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.enforce_separation_of_duties() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sod_check_grant(UUID, JSONB, JSONB, JSONB) IS 'Rejects a grant that introduces a conflict under a blocking segregation_of_duties policy and records the others as policy violations';
+COMMENT ON FUNCTION public.enforce_separation_of_duties() IS 'Checks role, group, permission and JIT grants against segregation_of_duties policies however they are written';
@@ -0,0 +1,26 @@
+-- Profile emails are stored lowercase
+-- SCIM matched provisioned users by email with ILIKE, which reads '_' and
+-- '%' in an address as wildcards: a_b@x.com could match another user and a
+-- SCIM update could reach the wrong account. Emails are now normalised to
+-- lowercase on write, so lookups compare them exactly.
+
+CREATE OR REPLACE FUNCTION public.normalize_profile_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := lower(NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER normalize_profile_email
+  BEFORE INSERT OR UPDATE OF email ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.normalize_profile_email();
+
+UPDATE public.profiles SET email = lower(email) WHERE email <> lower(email);
+
+CREATE INDEX IF NOT EXISTS idx_profiles_email ON public.profiles(email);
+
+COMMENT ON COLUMN public.profiles.email IS 'Lowercase; compare with = against a lowercased address';